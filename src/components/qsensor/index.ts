@@ -1,9 +1,17 @@
 // * Q-Sensor component exports for Phase 4 dual-sensor UI architecture.
 
+export { default as QSensorArchiveExport } from './QSensorArchiveExport.vue'
+export { default as QSensorArrayManager } from './QSensorArrayManager.vue'
+export { default as QSensorCalibrationManager } from './QSensorCalibrationManager.vue'
 export { default as QSensorCard } from './QSensorCard.vue'
 export { default as QSensorConnectionControl } from './QSensorConnectionControl.vue'
+export { default as QSensorDarkCapture } from './QSensorDarkCapture.vue'
+export { default as QSensorDeviceConfigEditor } from './QSensorDeviceConfigEditor.vue'
 export { default as QSensorHealthDisplay } from './QSensorHealthDisplay.vue'
+export { default as QSensorProfileDisplay } from './QSensorProfileDisplay.vue'
+export { default as QSensorQcDisplay } from './QSensorQcDisplay.vue'
 export { default as QSensorRecordingControl } from './QSensorRecordingControl.vue'
 export { default as QSensorSessionControl } from './QSensorSessionControl.vue'
+export { default as QSensorSessionLibraryModal } from './QSensorSessionLibraryModal.vue'
 export { default as QSensorStatsDisplay } from './QSensorStatsDisplay.vue'
 export { default as QSensorStoragePathSelector } from './QSensorStoragePathSelector.vue'
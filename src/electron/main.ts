@@ -7,15 +7,26 @@ import { setupElectronLogService } from './services/electron-log'
 import { setupJoystickMonitoring } from './services/joystick'
 import { linkService } from './services/link'
 import { setupNetworkService } from './services/network'
+import { setupQSensorArchiveExportService } from './services/qsensor-archive-export'
+import { setupQSensorCalibrationService } from './services/qsensor-calibration-store'
+import { setupQSensorConfigPresetService } from './services/qsensor-config-presets'
 import { setupQSensorControlService } from './services/qsensor-control'
+import { setupQSensorDarkService } from './services/qsensor-dark'
 import { setupQSensorFusionService } from './services/qsensor-fusion'
 import { setupQSensorMirrorService } from './services/qsensor-mirror'
+import { setupQSensorMockApiService } from './services/qsensor-mock-api'
+import { setupQSensorProfileService } from './services/qsensor-profile'
+import { setupQSensorQcService } from './services/qsensor-qc'
+import { setupQSensorSerialBusService } from './services/qsensor-serial-bus'
 import { setupQSensorSerialRecordingService } from './services/qsensor-serial-recording'
+import { setupQSensorSessionLibraryService } from './services/qsensor-session-library'
 import { setupSyncMetadataIPC } from './services/qsensor-session-utils'
 import { setupQSensorTimeSyncService } from './services/qsensor-time-sync'
+import { setupQSensorVehicleTelemetryService } from './services/qsensor-vehicle-telemetry'
 import { setupResourceMonitoringService } from './services/resource-monitoring'
 import { setupFilesystemStorage } from './services/storage'
 import { setupSystemInfoService } from './services/system-info'
+import { setupTlogRecorderService, tlogRecorder } from './services/tlog-recorder'
 import { setupUserAgentService } from './services/user-agent'
 import { setupVideoRecordingService } from './services/video-recording'
 import { setupWorkspaceService } from './services/workspace'
@@ -66,6 +77,7 @@ function createWindow(): void {
 
 app.on('window-all-closed', () => {
   console.log('Closing application.')
+  tlogRecorder.stop().catch((error) => console.error('Failed to close the tlog file:', error))
   mainWindow = null
   app.quit()
 })
@@ -97,6 +109,9 @@ console.log('[Main] linkService.initialize() completed')
 setupFilesystemStorage()
 console.log('[Main] setupFilesystemStorage() completed')
 
+setupTlogRecorderService()
+console.log('[Main] setupTlogRecorderService() completed')
+
 setupNetworkService()
 console.log('[Main] setupNetworkService() completed')
 
@@ -134,6 +149,9 @@ try {
   console.error('[Main] Error stack:', error?.stack)
 }
 
+setupQSensorSerialBusService()
+console.log('[Main] setupQSensorSerialBusService() completed')
+
 setupQSensorTimeSyncService()
 console.log('[Main] setupQSensorTimeSyncService() completed')
 
@@ -143,6 +161,33 @@ console.log('[Main] setupSyncMetadataIPC() completed')
 setupQSensorFusionService()
 console.log('[Main] setupQSensorFusionService() completed')
 
+setupQSensorVehicleTelemetryService()
+console.log('[Main] setupQSensorVehicleTelemetryService() completed')
+
+setupQSensorProfileService()
+console.log('[Main] setupQSensorProfileService() completed')
+
+setupQSensorQcService()
+console.log('[Main] setupQSensorQcService() completed')
+
+setupQSensorCalibrationService()
+console.log('[Main] setupQSensorCalibrationService() completed')
+
+setupQSensorConfigPresetService()
+console.log('[Main] setupQSensorConfigPresetService() completed')
+
+setupQSensorDarkService()
+console.log('[Main] setupQSensorDarkService() completed')
+
+setupQSensorSessionLibraryService(() => store.get('qsensorStoragePath') || join(app.getPath('userData'), 'qsensor'))
+console.log('[Main] setupQSensorSessionLibraryService() completed')
+
+setupQSensorArchiveExportService(() => store.get('qsensorStoragePath') || join(app.getPath('userData'), 'qsensor'))
+console.log('[Main] setupQSensorArchiveExportService() completed')
+
+setupQSensorMockApiService()
+console.log('[Main] setupQSensorMockApiService() completed')
+
 console.log('[Main] All IPC service registration completed')
 console.log('[DEBUG] IPC Handlers Registered:', ipcMain.eventNames())
 
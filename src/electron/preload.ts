@@ -1,6 +1,28 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
+import type { ArchiveExportOptions } from '@/electron/services/qsensor-archive-export'
+import type { FusionProgress } from '@/electron/services/qsensor-fusion'
+import type { ProfileAnalysisOptions } from '@/electron/services/qsensor-profile'
+import type { QSeriesEditableConfig } from '@/electron/services/qsensor-protocol'
+import type { QcAnalysisOptions } from '@/electron/services/qsensor-qc'
+import type {
+  QSeriesBusNode,
+  QSeriesBusOptions,
+  QSeriesBusTagStatusEvent,
+} from '@/electron/services/qsensor-serial-bus'
+import type { ArchiveExportFormat } from '@/electron/services/qsensor-session-utils'
+import type { TlogRecorderStatus, TlogRecordingSettings } from '@/electron/services/tlog-recorder'
+import type { CockpitStandardLog } from '@/libs/sensors-logging'
 import type { ElectronSDLJoystickControllerStateEventData } from '@/types/joystick'
+import type {
+  QSensorCalibrationRecord,
+  QSensorDarkCapture,
+  QSensorFusionOptions,
+  QSensorId,
+  QSensorLiveReading,
+  QSensorPreflightResult,
+  QSensorRole,
+} from '@/types/qsensor'
 import type { FileDialogOptions, FileStats } from '@/types/storage'
 
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -83,9 +105,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('qsensor:connect', baseUrl, port, baud),
   qsensorDisconnect: (baseUrl: string) => ipcRenderer.invoke('qsensor:disconnect', baseUrl),
   qsensorGetHealth: (baseUrl: string) => ipcRenderer.invoke('qsensor:get-health', baseUrl),
+  qsensorGetLatestReading: (baseUrl: string) => ipcRenderer.invoke('qsensor:get-latest-reading', baseUrl),
   qsensorStartAcquisition: (baseUrl: string, pollHz?: number) =>
     ipcRenderer.invoke('qsensor:start-acquisition', baseUrl, pollHz),
   qsensorStopAcquisition: (baseUrl: string) => ipcRenderer.invoke('qsensor:stop-acquisition', baseUrl),
+  qsensorCaptureDark: (baseUrl: string, durationS: number, pollHz?: number) =>
+    ipcRenderer.invoke('qsensor:capture-dark', baseUrl, durationS, pollHz),
   qsensorStartRecording: (baseUrl: string, options: any) =>
     ipcRenderer.invoke('qsensor:start-recording', baseUrl, options),
   qsensorStopRecording: (baseUrl: string, sessionId: string) =>
@@ -99,7 +124,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
     fullBandwidth: boolean,
     unifiedSessionTimestamp?: string,
     syncId?: string,
-    sensorId?: 'inWater' | 'surface'
+    sensorId?: QSensorId,
+    sensorInfo?: { role?: QSensorRole; label?: string }
   ) =>
     ipcRenderer.invoke(
       'qsensor:start-mirror',
@@ -110,10 +136,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
       fullBandwidth,
       unifiedSessionTimestamp,
       syncId,
-      sensorId
+      sensorId,
+      sensorInfo
     ),
   stopQSensorMirror: (sessionId: string) => ipcRenderer.invoke('qsensor:stop-mirror', sessionId),
   getQSensorStats: (sessionId: string) => ipcRenderer.invoke('qsensor:get-stats', sessionId),
+  injectQSensorSyncMarker: (sessionId: string, syncId: string) =>
+    ipcRenderer.invoke('qsensor:inject-sync-marker', sessionId, syncId),
   // Q-Sensor storage path
   selectQSensorStorageDirectory: () => ipcRenderer.invoke('select-qsensor-storage-directory'),
   getQSensorStoragePath: () => ipcRenderer.invoke('get-qsensor-storage-path'),
@@ -137,41 +166,72 @@ contextBridge.exposeInMainWorld('electronAPI', {
         throw error
       })
   },
-  qsensorSerialDisconnect: () => {
+  qsensorSerialDisconnect: (port?: string) => {
     console.log('[Preload] qsensorSerialDisconnect called')
-    return ipcRenderer.invoke('qsensor-serial:disconnect')
+    return ipcRenderer.invoke('qsensor-serial:disconnect', port)
   },
-  qsensorSerialGetHealth: () => {
+  qsensorSerialGetHealth: (port?: string) => {
     console.log('[Preload] qsensorSerialGetHealth called')
-    return ipcRenderer.invoke('qsensor-serial:get-health')
+    return ipcRenderer.invoke('qsensor-serial:get-health', port)
   },
-  qsensorSerialStartAcquisition: (pollHz: number) => {
+  qsensorSerialStartAcquisition: (pollHz: number, port?: string) => {
     console.log(`[Preload] qsensorSerialStartAcquisition called - pollHz: ${pollHz}`)
-    return ipcRenderer.invoke('qsensor-serial:start-acquisition', pollHz)
+    return ipcRenderer.invoke('qsensor-serial:start-acquisition', pollHz, port)
   },
-  qsensorSerialStopAcquisition: () => {
+  qsensorSerialStopAcquisition: (port?: string) => {
     console.log('[Preload] qsensorSerialStopAcquisition called')
-    return ipcRenderer.invoke('qsensor-serial:stop-acquisition')
+    return ipcRenderer.invoke('qsensor-serial:stop-acquisition', port)
   },
+  qsensorSerialCaptureDark: (durationS: number, pollHz?: number, port?: string) =>
+    ipcRenderer.invoke('qsensor-serial:capture-dark', durationS, pollHz, port),
+  qsensorSerialReadConfig: (port?: string) => ipcRenderer.invoke('qsensor-serial:read-config', port),
+  qsensorSerialApplyConfig: (changes: Partial<QSeriesEditableConfig>, port?: string) =>
+    ipcRenderer.invoke('qsensor-serial:apply-config', changes, port),
+  // Q-Series configuration presets
+  qsensorListConfigPresets: (serialNumber: string) => ipcRenderer.invoke('qsensor:list-config-presets', serialNumber),
+  qsensorSaveConfigPreset: (serialNumber: string, name: string, config: QSeriesEditableConfig) =>
+    ipcRenderer.invoke('qsensor:save-config-preset', serialNumber, name, config),
+  qsensorDeleteConfigPreset: (serialNumber: string, name: string) =>
+    ipcRenderer.invoke('qsensor:delete-config-preset', serialNumber, name),
   qsensorSerialStartRecording: (params: {
+    port?: string
     mission: string
     rollIntervalS?: number
     rateHz?: number
     storagePath?: string
     unifiedSessionTimestamp?: string
     syncId?: string
+    darkCapture?: QSensorDarkCapture | null
+    sessionSensor?: QSensorId
+    sensorRole?: QSensorRole
+    sensorLabel?: string
   }) => ipcRenderer.invoke('qsensor-serial:start-recording', params),
-  qsensorSerialStopRecording: () => ipcRenderer.invoke('qsensor-serial:stop-recording'),
-  qsensorSerialGetStats: () => ipcRenderer.invoke('qsensor-serial:get-stats'),
+  qsensorSerialStopRecording: (port?: string) => ipcRenderer.invoke('qsensor-serial:stop-recording', port),
+  qsensorSerialSyncMarker: (syncId: string, port?: string) =>
+    ipcRenderer.invoke('qsensor-serial:sync-marker', syncId, port),
+  qsensorSerialGetStats: (port?: string) => ipcRenderer.invoke('qsensor-serial:get-stats', port),
   qsensorSerialListPorts: () => {
     console.log('[Preload] qsensorSerialListPorts called')
     return ipcRenderer.invoke('qsensor-serial:list-ports')
   },
+  onQSensorSerialReading: (callback: (reading: QSensorLiveReading) => void) =>
+    ipcRenderer.on('qsensor-serial:reading', (_event, reading) => callback(reading)),
+  // Q-Sensor multi-drop polled bus
+  qsensorBusConnect: (port: string, baudRate: number, nodes: QSeriesBusNode[], options?: Partial<QSeriesBusOptions>) =>
+    ipcRenderer.invoke('qsensor-bus:connect', port, baudRate, nodes, options),
+  qsensorBusStart: (pollHz: number) => ipcRenderer.invoke('qsensor-bus:start', pollHz),
+  qsensorBusStop: () => ipcRenderer.invoke('qsensor-bus:stop'),
+  qsensorBusDisconnect: () => ipcRenderer.invoke('qsensor-bus:disconnect'),
+  qsensorBusGetHealth: () => ipcRenderer.invoke('qsensor-bus:get-health'),
+  onQSensorBusReading: (callback: (reading: QSensorLiveReading & { tag: string }) => void) =>
+    ipcRenderer.on('qsensor-bus:reading', (_event, reading) => callback(reading)),
+  onQSensorBusTagStatus: (callback: (event: QSeriesBusTagStatusEvent) => void) =>
+    ipcRenderer.on('qsensor-bus:tag-status', (_event, event) => callback(event)),
   // Q-Sensor time sync
   measureClockOffset: (baseUrl: string) => ipcRenderer.invoke('qsensor:measure-clock-offset', baseUrl),
   updateSensorTimeSync: (
     sessionRoot: string,
-    sensorId: 'inWater' | 'surface',
+    sensorId: QSensorId,
     timeSync: {
       method: string
       offsetMs: number | null
@@ -180,6 +240,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       error?: string | null
     }
   ) => ipcRenderer.invoke('qsensor:update-sensor-time-sync', sessionRoot, sensorId, timeSync),
+  qsensorRecordSessionPreflight: (sessionRoot: string, preflight: QSensorPreflightResult) =>
+    ipcRenderer.invoke('qsensor:record-session-preflight', sessionRoot, preflight),
   // @deprecated Use updateSensorTimeSync
   updateSyncMetadata: (
     sessionRoot: string,
@@ -193,7 +255,69 @@ contextBridge.exposeInMainWorld('electronAPI', {
   ) => ipcRenderer.invoke('qsensor:update-sync-metadata', sessionRoot, timeSync),
   // Q-Sensor fusion
   qsensorGetFusionStatus: (sessionRoot: string) => ipcRenderer.invoke('qsensor:get-fusion-status', sessionRoot),
-  qsensorTriggerManualFusion: (sessionRoot: string) => ipcRenderer.invoke('qsensor:trigger-manual-fusion', sessionRoot),
+  qsensorTriggerManualFusion: (sessionRoot: string, fusionOptions?: Partial<QSensorFusionOptions>) =>
+    ipcRenderer.invoke('qsensor:trigger-manual-fusion', sessionRoot, fusionOptions),
+  qsensorCancelFusion: (sessionRoot: string) => ipcRenderer.invoke('qsensor:cancel-fusion', sessionRoot),
+  onQSensorFusionProgress: (callback: (progress: FusionProgress) => void) =>
+    ipcRenderer.on('qsensor:fusion-progress', (_event, progress) => callback(progress)),
+  // Q-Sensor vehicle telemetry
+  qsensorSaveVehicleTelemetry: (sessionRoot: string, points: CockpitStandardLog) =>
+    ipcRenderer.invoke('qsensor:save-vehicle-telemetry', sessionRoot, points),
+  // Q-Sensor light profile
+  qsensorGetProfileSummary: (sessionRoot: string) => ipcRenderer.invoke('qsensor:get-profile-summary', sessionRoot),
+  qsensorRunProfileAnalysis: (sessionRoot: string, options?: ProfileAnalysisOptions) =>
+    ipcRenderer.invoke('qsensor:run-profile-analysis', sessionRoot, options),
+  // Q-Sensor quality control
+  qsensorGetQcReport: (sessionRoot: string) => ipcRenderer.invoke('qsensor:get-qc-report', sessionRoot),
+  qsensorRunQc: (sessionRoot: string, options?: QcAnalysisOptions) =>
+    ipcRenderer.invoke('qsensor:run-qc', sessionRoot, options),
+  // Q-Sensor calibration records
+  qsensorListCalibrations: () => ipcRenderer.invoke('qsensor:list-calibrations'),
+  qsensorSaveCalibration: (record: QSensorCalibrationRecord) => ipcRenderer.invoke('qsensor:save-calibration', record),
+  qsensorDeleteCalibration: (serialNumber: string) => ipcRenderer.invoke('qsensor:delete-calibration', serialNumber),
+  qsensorCheckCalibration: (serialNumber: string, deviceCalFactor?: number | null) =>
+    ipcRenderer.invoke('qsensor:check-calibration', serialNumber, deviceCalFactor ?? null),
+  qsensorRecordSessionCalibration: (
+    sessionRoot: string,
+    sensor: QSensorId,
+    serialNumber: string,
+    deviceCalFactor?: number | null
+  ) =>
+    ipcRenderer.invoke(
+      'qsensor:record-session-calibration',
+      sessionRoot,
+      sensor,
+      serialNumber,
+      deviceCalFactor ?? null
+    ),
+  // Q-Sensor dark capture
+  qsensorRecordSessionDark: (sessionRoot: string, sensor: QSensorId, capture: QSensorDarkCapture) =>
+    ipcRenderer.invoke('qsensor:record-session-dark', sessionRoot, sensor, capture),
+  // Q-Sensor session library
+  qsensorListSessions: () => ipcRenderer.invoke('qsensor:list-sessions'),
+  qsensorPreviewSessionFile: (sessionRoot: string, file: string, maxRows?: number) =>
+    ipcRenderer.invoke('qsensor:preview-session-file', sessionRoot, file, maxRows),
+  qsensorDeleteSession: (sessionRoot: string) => ipcRenderer.invoke('qsensor:delete-session', sessionRoot),
+  qsensorExportSessionZip: (sessionRoot: string) => ipcRenderer.invoke('qsensor:export-session-zip', sessionRoot),
+  qsensorOpenSessionFolder: (sessionRoot: string) => ipcRenderer.invoke('qsensor:open-session-folder', sessionRoot),
+  // Q-Sensor archive export
+  qsensorExportArchives: (sessionRoots: string[], formats: ArchiveExportFormat[], options?: ArchiveExportOptions) =>
+    ipcRenderer.invoke('qsensor:export-archives', sessionRoots, formats, options),
+  qsensorStartMockApi: (options?: any) => ipcRenderer.invoke('qsensor:start-mock-api', options),
+  qsensorStopMockApi: () => ipcRenderer.invoke('qsensor:stop-mock-api'),
+  qsensorGetMockApiStatus: () => ipcRenderer.invoke('qsensor:get-mock-api-status'),
+  // MAVLink telemetry logs (tlog)
+  tlogGetStatus: () => ipcRenderer.invoke('tlog:get-status'),
+  tlogSetSettings: (settings: Partial<TlogRecordingSettings>) => ipcRenderer.invoke('tlog:set-settings', settings),
+  tlogListFiles: () => ipcRenderer.invoke('tlog:list-files'),
+  tlogDeleteFile: (name: string) => ipcRenderer.invoke('tlog:delete-file', name),
+  tlogReadFile: (name: string) => ipcRenderer.invoke('tlog:read-file', name),
+  tlogOpenFolder: () => ipcRenderer.invoke('tlog:open-folder'),
+  tlogRecordLinkData: (path: string, data: Uint8Array, direction: 'in' | 'out', timestampMs: number) =>
+    ipcRenderer.send('tlog:link-data', { path, data, direction, timestampMs }),
+  tlogCloseLink: (path: string) => ipcRenderer.send('tlog:close-link', path),
+  onTlogStatusChange: (callback: (status: TlogRecorderStatus) => void) =>
+    ipcRenderer.on('tlog:status-changed', (_event, status) => callback(status)),
   getElectronLogContent: (logName: string) => ipcRenderer.invoke('get-electron-log-content', logName),
   deleteElectronLog: (logName: string) => ipcRenderer.invoke('delete-electron-log', logName),
   deleteOldElectronLogs: () => ipcRenderer.invoke('delete-old-electron-logs'),
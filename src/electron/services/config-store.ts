@@ -1,6 +1,11 @@
 import { app } from 'electron'
 import Store from 'electron-store'
 
+import type { QSensorCalibrationRecord } from '@/types/qsensor'
+
+import type { QSeriesConfigPreset } from './qsensor-config-presets'
+import type { TlogRecordingSettings } from './tlog-recorder'
+
 const electronStoreSchema = {
   windowBounds: {
     type: 'object',
@@ -22,9 +27,21 @@ const electronStoreSchema = {
   qsensorStoragePath: {
     type: 'string',
   },
+  qsensorRecordingStoragePaths: {
+    type: 'array',
+  },
   qsensorSurfaceApiUrl: {
     type: 'string',
   },
+  qsensorCalibrations: {
+    type: 'object',
+  },
+  qsensorConfigPresets: {
+    type: 'object',
+  },
+  tlogRecording: {
+    type: 'object',
+  },
 }
 
 /**
@@ -59,11 +76,27 @@ export interface ElectronStoreSchema {
    * Q-Sensor storage base path (for mirrored chunks)
    */
   qsensorStoragePath?: string
+  /**
+   * Storage paths serial recordings were started in, scanned for interrupted recordings at startup
+   */
+  qsensorRecordingStoragePaths?: string[]
   /**
    * Surface Q-Sensor API base URL (for API mode).
    * Persisted across app restarts. Defaults to empty (user must set).
    */
   qsensorSurfaceApiUrl?: string
+  /**
+   * Q-Sensor calibration records, keyed by sensor serial number.
+   */
+  qsensorCalibrations?: Record<string, QSensorCalibrationRecord>
+  /**
+   * Q-Series device configuration presets, keyed by sensor serial number, then preset name.
+   */
+  qsensorConfigPresets?: Record<string, Record<string, QSeriesConfigPreset>>
+  /**
+   * MAVLink telemetry log (tlog) recording settings
+   */
+  tlogRecording?: Partial<TlogRecordingSettings>
 }
 
 let storeInstance: Store<ElectronStoreSchema> | null = null
@@ -1,5 +1,6 @@
 import { BrowserWindow, ipcMain } from 'electron'
 
+import { tlogRecorder } from '../tlog-recorder'
 import { Link } from './link'
 import { SerialLink } from './serial'
 import { TcpLink } from './tcp'
@@ -76,6 +77,7 @@ class LinkService {
         this.links.set(path, link)
 
         link.on('data', (data: Buffer) => {
+          tlogRecorder.handleLinkData(path, data, 'in')
           this.mainWindow?.webContents.send('link-data', {
             path,
             data: Array.from(data),
@@ -88,6 +90,7 @@ class LinkService {
 
         link.on('close', () => {
           this.links.delete(path)
+          tlogRecorder.closeLink(path)
           console.warn(`Link ${path} closed`)
         })
 
@@ -106,6 +109,7 @@ class LinkService {
 
       try {
         await link.write(data)
+        tlogRecorder.handleLinkData(path, data, 'out')
         return true
       } catch (error) {
         console.error(`Failed to write to link ${path}:`, error)
@@ -122,6 +126,7 @@ class LinkService {
       try {
         await link.close()
         this.links.delete(path)
+        tlogRecorder.closeLink(path)
         return true
       } catch (error) {
         console.error(`Failed to close link ${path}:`, error)
@@ -0,0 +1,418 @@
+/**
+ * NetCDF classic format (CDF-1) encoder.
+ *
+ * Writes fixed-size datasets: named dimensions, global attributes and double-precision variables with
+ * their own attributes. Datasets too large to hold in memory are written as record datasets instead: every
+ * variable varies along the unlimited dimension, so the header can be written first and the data streamed one
+ * record at a time. Groups and the 64-bit offset and NetCDF-4 variants are not supported; a dataset must stay
+ * under 2 GiB.
+ *
+ * Layout, per the NetCDF classic format specification: magic 'CDF\x01', record count, dimension list,
+ * global attribute list, variable list (each with its begin offset), then the variable data in order.
+ * All values are big-endian and every header field is padded to a 4-byte boundary.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Attribute value: text is written as NC_CHAR, numbers as NC_DOUBLE
+ */
+export type NetcdfAttributeValue = string | number | number[]
+
+/**
+ *
+ */
+export interface NetcdfDimension {
+  /**
+   *
+   */
+  name: string
+  /**
+   *
+   */
+  length: number
+}
+
+/**
+ * Double-precision variable
+ */
+export interface NetcdfVariable {
+  /**
+   *
+   */
+  name: string
+  /**
+   * Dimension names, slowest varying first
+   */
+  dimensions: string[]
+  /**
+   *
+   */
+  attributes: Record<string, NetcdfAttributeValue>
+  /**
+   * Values in row-major order; the length must match the product of the dimension lengths
+   */
+  data: ArrayLike<number>
+}
+
+/**
+ * Double-precision variable of a record dataset, holding one value per record
+ */
+export interface NetcdfRecordVariable {
+  /**
+   *
+   */
+  name: string
+  /**
+   *
+   */
+  attributes: Record<string, NetcdfAttributeValue>
+}
+
+/**
+ * Dataset whose variables all vary along its unlimited dimension, written one record at a time
+ */
+export interface NetcdfRecordDataset {
+  /**
+   * Unlimited dimension; its length is the number of records that will follow the header
+   */
+  recordDimension: NetcdfDimension
+  /**
+   *
+   */
+  attributes: Record<string, NetcdfAttributeValue>
+  /**
+   * Variables, in the order of the values of each record
+   */
+  variables: NetcdfRecordVariable[]
+}
+
+/**
+ *
+ */
+export interface NetcdfDataset {
+  /**
+   *
+   */
+  dimensions: NetcdfDimension[]
+  /**
+   *
+   */
+  attributes: Record<string, NetcdfAttributeValue>
+  /**
+   *
+   */
+  variables: NetcdfVariable[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const NC_DIMENSION = 0x0a
+const NC_VARIABLE = 0x0b
+const NC_ATTRIBUTE = 0x0c
+const NC_CHAR = 2
+const NC_DOUBLE = 6
+const NC_UNLIMITED = 0
+
+// NOTE: CDF-1 stores variable offsets as signed 32-bit integers
+const MAX_CDF1_SIZE = 2 ** 31 - 1
+
+const RE_NETCDF_NAME = /^[A-Za-z_][A-Za-z0-9_.@+-]*$/
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Byte sink for the big-endian header and data
+ */
+class ByteWriter {
+  private chunks: Buffer[] = []
+  private size = 0
+
+  /**
+   * Bytes written so far
+   * @returns {number}
+   */
+  get length(): number {
+    return this.size
+  }
+
+  /**
+   *
+   * @param value
+   */
+  int32(value: number): void {
+    const buffer = Buffer.alloc(4)
+    buffer.writeInt32BE(value)
+    this.push(buffer)
+  }
+
+  /**
+   *
+   * @param values
+   */
+  doubles(values: ArrayLike<number>): void {
+    const buffer = Buffer.alloc(values.length * 8)
+    for (let i = 0; i < values.length; i++) {
+      buffer.writeDoubleBE(values[i], i * 8)
+    }
+    this.push(buffer)
+  }
+
+  /**
+   * Bytes followed by zero padding to a 4-byte boundary
+   * @param bytes
+   */
+  padded(bytes: Buffer): void {
+    this.push(bytes)
+    const padding = (4 - (bytes.length % 4)) % 4
+    if (padding > 0) this.push(Buffer.alloc(padding))
+  }
+
+  /**
+   * Name field: length then padded UTF-8 bytes
+   * @param name
+   */
+  name(name: string): void {
+    const bytes = Buffer.from(name, 'utf-8')
+    this.int32(bytes.length)
+    this.padded(bytes)
+  }
+
+  /**
+   *
+   */
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks, this.size)
+  }
+
+  /**
+   *
+   * @param buffer
+   */
+  private push(buffer: Buffer): void {
+    this.chunks.push(buffer)
+    this.size += buffer.length
+  }
+}
+
+/**
+ * Write an attribute list, or ABSENT when empty
+ * @param writer - Header writer
+ * @param attributes - Attributes to write
+ */
+function writeAttributes(writer: ByteWriter, attributes: Record<string, NetcdfAttributeValue>): void {
+  const entries = Object.entries(attributes)
+  if (entries.length === 0) {
+    writer.int32(0)
+    writer.int32(0)
+    return
+  }
+
+  writer.int32(NC_ATTRIBUTE)
+  writer.int32(entries.length)
+  for (const [name, value] of entries) {
+    writer.name(name)
+    if (typeof value === 'string') {
+      const bytes = Buffer.from(value, 'utf-8')
+      writer.int32(NC_CHAR)
+      writer.int32(bytes.length)
+      writer.padded(bytes)
+    } else {
+      const values = typeof value === 'number' ? [value] : value
+      writer.int32(NC_DOUBLE)
+      writer.int32(values.length)
+      writer.doubles(values)
+    }
+  }
+}
+
+/**
+ * Write a dimension list, or ABSENT when empty
+ * @param writer - Header writer
+ * @param dimensions - Dimensions, with the length written for each
+ */
+function writeDimensions(writer: ByteWriter, dimensions: NetcdfDimension[]): void {
+  if (dimensions.length === 0) {
+    writer.int32(0)
+    writer.int32(0)
+    return
+  }
+
+  writer.int32(NC_DIMENSION)
+  writer.int32(dimensions.length)
+  for (const dimension of dimensions) {
+    writer.name(dimension.name)
+    writer.int32(dimension.length)
+  }
+}
+
+/**
+ * Check a dimension or variable name
+ * @param kind - 'dimension' or 'variable', for the error message
+ * @param name - Name to check
+ * @throws Error if the name is not a valid NetCDF name
+ */
+function validateName(kind: string, name: string): void {
+  if (!RE_NETCDF_NAME.test(name)) throw new Error(`Invalid NetCDF ${kind} name '${name}'`)
+}
+
+/**
+ * Check names, dimension references and data sizes before encoding
+ * @param dataset - Dataset to check
+ * @returns Element count of each variable, in order
+ * @throws Error describing the first problem found
+ */
+function validateDataset(dataset: NetcdfDataset): number[] {
+  const dimensionLengths = new Map<string, number>()
+  for (const dimension of dataset.dimensions) {
+    validateName('dimension', dimension.name)
+    if (dimensionLengths.has(dimension.name)) throw new Error(`Duplicate NetCDF dimension '${dimension.name}'`)
+    if (!Number.isInteger(dimension.length) || dimension.length < 1) {
+      throw new Error(`NetCDF dimension '${dimension.name}' must have a positive length`)
+    }
+    dimensionLengths.set(dimension.name, dimension.length)
+  }
+
+  const names = new Set<string>()
+  return dataset.variables.map((variable) => {
+    validateName('variable', variable.name)
+    if (names.has(variable.name)) throw new Error(`Duplicate NetCDF variable '${variable.name}'`)
+    names.add(variable.name)
+
+    const count = variable.dimensions.reduce((product, name) => {
+      const length = dimensionLengths.get(name)
+      if (length === undefined) throw new Error(`Variable '${variable.name}' uses unknown dimension '${name}'`)
+      return product * length
+    }, 1)
+    if (variable.data.length !== count) {
+      throw new Error(`Variable '${variable.name}' has ${variable.data.length} values, its dimensions need ${count}`)
+    }
+    return count
+  })
+}
+
+/**
+ * Encode a dataset as a NetCDF classic (CDF-1) file
+ * @param {NetcdfDataset} dataset - Dimensions, attributes and variables
+ * @returns {Buffer} File content
+ * @throws Error if the dataset is inconsistent or too large for CDF-1
+ */
+export function encodeNetcdf(dataset: NetcdfDataset): Buffer {
+  const counts = validateDataset(dataset)
+  const dimensionIds = new Map(dataset.dimensions.map((dimension, index) => [dimension.name, index]))
+
+  // NOTE: Variable begin offsets depend on the header size, so the header is written once with
+  // placeholder offsets to measure it, then again with the real ones
+  const buildHeader = (begins: number[]): ByteWriter => {
+    const header = new ByteWriter()
+    header.padded(Buffer.from([0x43, 0x44, 0x46, 0x01]))
+    header.int32(0)
+
+    writeDimensions(header, dataset.dimensions)
+    writeAttributes(header, dataset.attributes)
+
+    if (dataset.variables.length === 0) {
+      header.int32(0)
+      header.int32(0)
+    } else {
+      header.int32(NC_VARIABLE)
+      header.int32(dataset.variables.length)
+      dataset.variables.forEach((variable, index) => {
+        header.name(variable.name)
+        header.int32(variable.dimensions.length)
+        variable.dimensions.forEach((name) => header.int32(dimensionIds.get(name)!))
+        writeAttributes(header, variable.attributes)
+        header.int32(NC_DOUBLE)
+        header.int32(counts[index] * 8)
+        header.int32(begins[index])
+      })
+    }
+    return header
+  }
+
+  const headerSize = buildHeader(counts.map(() => 0)).length
+  const begins: number[] = []
+  let offset = headerSize
+  for (const count of counts) {
+    begins.push(offset)
+    offset += count * 8
+  }
+  if (offset > MAX_CDF1_SIZE) {
+    throw new Error(`NetCDF classic files are limited to 2 GiB, this dataset needs ${offset} bytes`)
+  }
+
+  const file = buildHeader(begins)
+  dataset.variables.forEach((variable) => file.doubles(variable.data))
+  return file.toBuffer()
+}
+
+/**
+ * Encode the header of a record dataset. The records follow it, each encoded with encodeNetcdfRecord.
+ * @param {NetcdfRecordDataset} dataset - Record dimension, attributes and variables
+ * @returns {Buffer} Header
+ * @throws Error if a name is invalid or duplicated, or the records would not fit in a CDF-1 file
+ */
+export function encodeNetcdfRecordHeader(dataset: NetcdfRecordDataset): Buffer {
+  const { recordDimension, variables } = dataset
+  validateName('dimension', recordDimension.name)
+  if (!Number.isInteger(recordDimension.length) || recordDimension.length < 0) {
+    throw new Error(`NetCDF dimension '${recordDimension.name}' must have a record count`)
+  }
+  const names = new Set<string>()
+  for (const variable of variables) {
+    validateName('variable', variable.name)
+    if (names.has(variable.name)) throw new Error(`Duplicate NetCDF variable '${variable.name}'`)
+    names.add(variable.name)
+  }
+
+  // NOTE: Begin offsets depend on the header size, as in encodeNetcdf. Each record holds one double per variable.
+  const buildHeader = (headerSize: number): ByteWriter => {
+    const header = new ByteWriter()
+    header.padded(Buffer.from([0x43, 0x44, 0x46, 0x01]))
+    header.int32(recordDimension.length)
+    writeDimensions(header, [{ name: recordDimension.name, length: NC_UNLIMITED }])
+    writeAttributes(header, dataset.attributes)
+
+    if (variables.length === 0) {
+      header.int32(0)
+      header.int32(0)
+    } else {
+      header.int32(NC_VARIABLE)
+      header.int32(variables.length)
+      variables.forEach((variable, index) => {
+        header.name(variable.name)
+        header.int32(1)
+        header.int32(0)
+        writeAttributes(header, variable.attributes)
+        header.int32(NC_DOUBLE)
+        header.int32(8)
+        header.int32(headerSize + index * 8)
+      })
+    }
+    return header
+  }
+
+  const headerSize = buildHeader(0).length
+  const fileSize = headerSize + recordDimension.length * variables.length * 8
+  if (fileSize > MAX_CDF1_SIZE) {
+    throw new Error(`NetCDF classic files are limited to 2 GiB, this dataset needs ${fileSize} bytes`)
+  }
+  return buildHeader(headerSize).toBuffer()
+}
+
+/**
+ * Encode one record of a record dataset
+ * @param {ArrayLike<number>} values - One value per variable, in the order of the variables
+ * @returns {Buffer} Record
+ */
+export function encodeNetcdfRecord(values: ArrayLike<number>): Buffer {
+  const record = new ByteWriter()
+  record.doubles(values)
+  return record.toBuffer()
+}
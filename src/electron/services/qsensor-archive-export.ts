@@ -0,0 +1,916 @@
+/**
+ * Q-Sensor archive export for Electron main process.
+ *
+ * Post-fusion stage: converts unified_session.csv and the session metadata (mission, sensor serials,
+ * calibration, dark captures, drift models) into the formats data archives accept:
+ * - NetCDF-CF: NetCDF classic file following the CF 1.8 conventions, one variable per numeric column
+ * - SeaBASS: NASA SeaBASS text file with the full metadata header and calibrated irradiance fields
+ *
+ * Files are written to the session's exports/ directory and recorded under `exports` in sync_metadata.json.
+ * Several sessions can be exported in one batch; a failing session does not stop the others.
+ *
+ * Long sessions don't fit in memory, so unified_session.csv is streamed twice: a first pass gathers what the
+ * headers need (row count, time coverage, value ranges), then the rows are converted and written one at a time.
+ */
+
+import { ipcMain } from 'electron'
+import { createReadStream } from 'fs'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as readline from 'readline'
+
+import type { QSensorCalibrationRecord, QSensorDarkCapture, QSensorRole } from '@/types/qsensor'
+
+import type { NetcdfAttributeValue, NetcdfRecordDataset, NetcdfRecordVariable } from './netcdf-writer'
+import { encodeNetcdfRecord, encodeNetcdfRecordHeader } from './netcdf-writer'
+import { fusionColumnPrefix } from './qsensor-fusion'
+import { resolveLibrarySessionRoot } from './qsensor-session-library'
+import type { ArchiveExportFormat, DriftModel, SyncMetadata } from './qsensor-session-utils'
+import { readSyncMetadata, resolveSensorRole, updateSyncMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Investigator and deployment details for the archive headers. Values left out are written as 'NA'.
+ */
+export interface ArchiveExportOptions {
+  /** Principal investigators, comma separated */
+  investigators?: string
+  /** Affiliations of the investigators */
+  affiliations?: string
+  /** Contact e-mail */
+  contact?: string
+  /** Experiment or project name */
+  experiment?: string
+  /** Cruise or campaign name (defaults to the mission) */
+  cruise?: string
+  /** Station name */
+  station?: string
+  /** Supporting documents submitted with the data */
+  documents?: string
+  /** SeaBASS data status */
+  dataStatus?: 'preliminary' | 'final'
+  /** Bottom depth at the station in meters */
+  waterDepthM?: number | null
+}
+
+/**
+ * Numeric values of a unified CSV column.
+ */
+export interface UnifiedColumnStats {
+  /** Smallest value */
+  min: number
+  /** Largest value */
+  max: number
+  /** Time of the first row with a value (ms) */
+  firstTime: number
+  /** Time of the last row with a value (ms) */
+  lastTime: number
+}
+
+/**
+ * What the archive headers need from unified_session.csv, gathered in a first pass over its rows.
+ */
+export interface UnifiedCsvScan {
+  /** Column names */
+  header: string[]
+  /** Rows with a valid timestamp, the ones exported */
+  rowCount: number
+  /** Times of the first and last rows with a valid timestamp (ms), null without rows */
+  timeRange: [number, number] | null
+  /** Values of the columns holding numbers, by column name */
+  columns: Record<string, UnifiedColumnStats>
+  /** First id reported in each '<prefix>_sensor_id' column, by column name */
+  reportedIds: Record<string, string>
+}
+
+/**
+ * NetCDF-CF layout of a fused session.
+ */
+export interface NetcdfArchiveLayout {
+  /** Dataset with one record per exported row */
+  dataset: NetcdfRecordDataset
+  /** Unified CSV column of each variable, 'time' first */
+  columns: number[]
+}
+
+/**
+ * SeaBASS layout of a fused session.
+ */
+export interface SeabassArchiveLayout {
+  /** Header lines, from /begin_header to /end_header */
+  header: string[]
+  /** Unified CSV column of the timestamps */
+  timeColumn: number
+  /** Unified CSV column of each data field after date and time */
+  columns: number[]
+  /** Unified CSV columns of the calibrated values; rows without any are left out */
+  calibratedColumns: number[]
+}
+
+/**
+ * Sensor present in a fused session, with the metadata the archives need.
+ */
+export interface ArchiveSensor {
+  /** Sensor id in sync_metadata.json */
+  id: string
+  /** Column prefix in unified_session.csv */
+  prefix: string
+  /** Display name */
+  label: string
+  /** Role of the sensor in the deployment */
+  role: QSensorRole
+  /** Serial number from the calibration, dark capture or the readings */
+  serialNumber: string | null
+  /** Calibration used for the calibrated column */
+  calibration: QSensorCalibrationRecord | null
+  /** Dark capture subtracted from the corrected column */
+  dark: QSensorDarkCapture | null
+  /** Clock drift correction applied by fusion */
+  driftModel: DriftModel | null
+}
+
+/**
+ * File written for one session and format.
+ */
+export interface ArchiveExportResult {
+  /** Unified session root directory */
+  sessionRoot: string
+  /** Archive format */
+  format: ArchiveExportFormat
+  /** Exported file name, relative to the session root */
+  file: string
+  /** Number of data rows written */
+  rowCount: number
+  /** Columns left out and other non-fatal problems */
+  warnings: string[]
+}
+
+/**
+ * Outcome of one session and format in a batch export.
+ */
+export interface ArchiveBatchEntry {
+  /** Unified session root directory */
+  sessionRoot: string
+  /** Archive format */
+  format: ArchiveExportFormat
+  /** Written file, when the export succeeded */
+  result?: ArchiveExportResult
+  /** Why the export failed */
+  error?: string
+}
+
+/**
+ * CF attributes of a numeric unified CSV column.
+ */
+interface ColumnSpec {
+  /** Variable name in the NetCDF file */
+  name: string
+  /** CF attributes (long_name, units, standard_name...) */
+  attributes: Record<string, NetcdfAttributeValue>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ARCHIVE_EXPORT_FORMATS: ArchiveExportFormat[] = ['netcdf', 'seabass']
+
+export const ARCHIVE_EXPORT_DIRNAME = 'exports'
+
+// Written for missing values in both formats (SeaBASS /missing, NetCDF _FillValue)
+export const ARCHIVE_MISSING_VALUE = -9999
+
+const ARCHIVE_FILE_EXTENSIONS: Record<ArchiveExportFormat, string> = { netcdf: 'nc', seabass: 'sb' }
+
+// Output is written in batches of about this size
+const WRITE_BATCH_BYTES = 1 << 20
+
+// Text columns of the unified CSV; the archives carry numbers only
+const TEXT_COLUMN_SUFFIXES = ['sensor_id', 'mode', 'timestamp_used', 'status']
+
+const VEHICLE_COLUMN_SPECS: Record<string, ColumnSpec> = {
+  vehicle_depth_m: {
+    name: 'depth',
+    attributes: { standard_name: 'depth', long_name: 'Vehicle depth', units: 'm', positive: 'down', axis: 'Z' },
+  },
+  vehicle_latitude: {
+    name: 'latitude',
+    attributes: { standard_name: 'latitude', long_name: 'Vehicle latitude', units: 'degrees_north' },
+  },
+  vehicle_longitude: {
+    name: 'longitude',
+    attributes: { standard_name: 'longitude', long_name: 'Vehicle longitude', units: 'degrees_east' },
+  },
+  vehicle_heading_deg: {
+    name: 'heading',
+    attributes: { standard_name: 'platform_yaw', long_name: 'Vehicle heading', units: 'degree' },
+  },
+  vehicle_pitch_deg: {
+    name: 'pitch',
+    attributes: { standard_name: 'platform_pitch', long_name: 'Vehicle pitch', units: 'degree' },
+  },
+  vehicle_roll_deg: {
+    name: 'roll',
+    attributes: { standard_name: 'platform_roll', long_name: 'Vehicle roll', units: 'degree' },
+  },
+  vehicle_age_ms: {
+    name: 'vehicle_age',
+    attributes: { long_name: 'Age of the vehicle telemetry sample', units: 'ms' },
+  },
+}
+
+// SeaBASS fields taken from vehicle telemetry, in header order
+const SEABASS_VEHICLE_FIELDS: [column: string, field: string, units: string][] = [
+  ['vehicle_depth_m', 'depth', 'm'],
+  ['vehicle_latitude', 'lat', 'degrees'],
+  ['vehicle_longitude', 'lon', 'degrees'],
+  ['vehicle_heading_deg', 'heading', 'degrees'],
+  ['vehicle_pitch_deg', 'pitch', 'degrees'],
+  ['vehicle_roll_deg', 'roll', 'degrees'],
+]
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * Stream the non-empty lines of unified_session.csv, split into fields. The header comes first.
+ * @param csvPath - unified_session.csv path
+ * @yields {string[]} Fields of each line
+ */
+async function* readUnifiedCsvLines(csvPath: string): AsyncGenerator<string[]> {
+  const stream = createReadStream(csvPath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  try {
+    for await (const line of lines) {
+      if (line.trim() !== '') yield line.split(',')
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+}
+
+/**
+ * Stream the rows of unified_session.csv with a valid timestamp, the ones exported.
+ * @param csvPath - unified_session.csv path
+ * @param timeColumn - Column of the timestamps
+ * @yields {{ time: number, fields: string[] }} Row time (ms) and fields
+ */
+async function* readUnifiedCsvRows(
+  csvPath: string,
+  timeColumn: number
+): AsyncGenerator<{
+  /** Row time (ms) */
+  time: number
+  /** Row fields */
+  fields: string[]
+}> {
+  let headerSkipped = false
+  for await (const fields of readUnifiedCsvLines(csvPath)) {
+    if (!headerSkipped) {
+      headerSkipped = true
+      continue
+    }
+    const time = Date.parse(fields[timeColumn])
+    if (Number.isFinite(time)) yield { time, fields }
+  }
+}
+
+/**
+ * First pass over unified_session.csv: header, rows and the values the archive headers need.
+ * @param csvPath - unified_session.csv path
+ * @returns Scan of the fused CSV
+ */
+export async function scanUnifiedCsv(csvPath: string): Promise<UnifiedCsvScan> {
+  const scan: UnifiedCsvScan = { header: [], rowCount: 0, timeRange: null, columns: {}, reportedIds: {} }
+  for await (const fields of readUnifiedCsvLines(csvPath)) {
+    scan.header = fields
+    break
+  }
+
+  const timeColumn = scan.header.indexOf('timestamp')
+  if (timeColumn === -1) return scan
+
+  for await (const { time, fields } of readUnifiedCsvRows(csvPath, timeColumn)) {
+    scan.rowCount++
+    scan.timeRange = [scan.timeRange?.[0] ?? time, time]
+
+    fields.forEach((field, index) => {
+      const column = scan.header[index]
+      if (column === undefined || index === timeColumn) return
+      if (column.endsWith('_sensor_id')) {
+        if (field && scan.reportedIds[column] === undefined) scan.reportedIds[column] = field
+        return
+      }
+
+      const value = parseNumber(field)
+      if (value === null) return
+      const stats = scan.columns[column]
+      if (stats) {
+        stats.min = Math.min(stats.min, value)
+        stats.max = Math.max(stats.max, value)
+        stats.lastTime = time
+      } else {
+        scan.columns[column] = { min: value, max: value, firstTime: time, lastTime: time }
+      }
+    })
+  }
+  return scan
+}
+
+/**
+ * Sensors with columns in the fused CSV, matched to their metadata by column prefix.
+ * @param scan - Scan of the fused CSV
+ * @param metadata - Session metadata
+ * @returns Sensors in column order
+ */
+export function archiveSensors(scan: UnifiedCsvScan, metadata: SyncMetadata): ArchiveSensor[] {
+  const ids = new Map(Object.keys(metadata.sensors).map((id) => [fusionColumnPrefix(id), id]))
+
+  return scan.header
+    .filter((column) => column.endsWith('_value') && !column.startsWith('vehicle_'))
+    .map((column) => {
+      const prefix = column.slice(0, -'_value'.length)
+      const id = ids.get(prefix) ?? prefix
+      const info = metadata.sensors[id] ?? null
+      const reportedId = scan.reportedIds[`${prefix}_sensor_id`]
+
+      return {
+        id,
+        prefix,
+        label: info?.label ?? id,
+        role: resolveSensorRole(id, info),
+        serialNumber: info?.calibration?.serialNumber ?? info?.dark?.serialNumber ?? reportedId ?? null,
+        calibration: info?.calibration?.record ?? null,
+        dark: info?.dark ?? null,
+        driftModel: metadata.timeSync.driftModels[id] ?? null,
+      }
+    })
+}
+
+/**
+ * Parse a numeric field.
+ * @param field - CSV field
+ * @returns Number, or null when empty or not a number
+ */
+function parseNumber(field: string | undefined): number | null {
+  if (field === undefined || field.trim() === '') return null
+  const value = Number(field)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Minimum and maximum of the numeric values of a column.
+ * @param scan - Scan of the fused CSV
+ * @param column - Column name
+ * @returns Range, or null when the column is missing or empty
+ */
+function columnRange(scan: UnifiedCsvScan, column: string): [number, number] | null {
+  const stats = scan.columns[column]
+  return stats ? [stats.min, stats.max] : null
+}
+
+/**
+ * Describe a drift model for file metadata.
+ * @param model - Drift model applied by fusion
+ * @returns Description, e.g. 'linear, start offset 12.5 ms, 0.200 ms/min'
+ */
+function describeDriftModel(model: DriftModel | null): string {
+  if (!model) return 'none'
+  if (model.type === 'linear') {
+    return `linear, start offset ${model.startOffsetMs.toFixed(1)} ms, ${(model.driftRateMsPerMin ?? 0).toFixed(
+      3
+    )} ms/min`
+  }
+  if (model.type === 'piecewise') {
+    return `piecewise through ${model.knots?.length ?? 0} markers, start offset ${model.startOffsetMs.toFixed(
+      1
+    )} ms, end offset ${(model.endOffsetMs ?? model.startOffsetMs).toFixed(1)} ms`
+  }
+  return `constant, offset ${model.startOffsetMs.toFixed(1)} ms`
+}
+
+/**
+ * Convert calibration units to ASCII ('µE/cm²·s' → 'uE/cm^2/s').
+ * @param units - Units from the calibration record
+ * @returns ASCII units
+ */
+export function asciiUnits(units: string): string {
+  return units.replace(/[µμ]/g, 'u').replace(/²/g, '^2').replace(/³/g, '^3').replace(/·/g, '/').replace(/\s+/g, '')
+}
+
+// ============================================================================
+// NetCDF-CF
+// ============================================================================
+
+/**
+ * CF attributes of a sensor column, or null for columns not exported.
+ * @param column - Unified CSV column
+ * @param sensor - Sensor owning the column
+ * @returns Column spec
+ */
+function sensorColumnSpec(column: string, sensor: ArchiveSensor): ColumnSpec | null {
+  const suffix = column.slice(sensor.prefix.length + 1)
+  const label = sensor.label
+  switch (suffix) {
+    case 'value':
+      return { name: column, attributes: { long_name: `${label} raw value`, units: '1' } }
+    case 'TempC':
+      return { name: column, attributes: { long_name: `${label} sensor temperature`, units: 'degree_Celsius' } }
+    case 'Vin':
+      return { name: column, attributes: { long_name: `${label} supply voltage`, units: 'V' } }
+    case 'age_ms':
+      return { name: column, attributes: { long_name: `${label} age of the held reading`, units: 'ms' } }
+    case 'dark_corrected':
+      return { name: column, attributes: { long_name: `${label} dark-corrected raw value`, units: '1' } }
+    case 'calibrated':
+      return {
+        name: column,
+        attributes: {
+          long_name: `${label} calibrated irradiance`,
+          units: sensor.calibration ? asciiUnits(sensor.calibration.units) : '1',
+        },
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Metadata of a sensor, stored on its raw value variable.
+ * @param sensor - Sensor
+ * @param metadata - Session metadata
+ * @returns Attributes (absent values left out)
+ */
+function sensorAttributes(sensor: ArchiveSensor, metadata: SyncMetadata): Record<string, NetcdfAttributeValue> {
+  const attributes: Record<string, NetcdfAttributeValue> = {
+    sensor_id: sensor.id,
+    sensor_role: sensor.role,
+    clock_drift_model: describeDriftModel(sensor.driftModel),
+  }
+  if (sensor.serialNumber) attributes.serial_number = sensor.serialNumber
+  const offsetMs = metadata.timeSync.sensors[sensor.id]?.offsetMs
+  if (offsetMs !== null && offsetMs !== undefined) attributes.clock_offset_ms = offsetMs
+  if (sensor.calibration) {
+    attributes.calibration_date = sensor.calibration.calDate
+    attributes.calibration_factor = sensor.calibration.calFactor
+    attributes.calibration_dark_offset = sensor.calibration.darkOffset
+    attributes.calibration_immersion_coefficient = sensor.calibration.immersionCoefficient
+  }
+  if (sensor.dark) {
+    attributes.dark_capture_mean = sensor.dark.valueMean
+    attributes.dark_capture_std = sensor.dark.valueStd
+    attributes.dark_capture_time = sensor.dark.completedAt
+  }
+  return attributes
+}
+
+/**
+ * Build the NetCDF-CF layout of a fused session: a record dataset with one record per row.
+ * @param scan - Scan of the fused CSV
+ * @param metadata - Session metadata
+ * @param options - Investigator and deployment details
+ * @param warnings - Receives the columns left out
+ * @returns Dataset along a 'time' record dimension, and the column of each variable
+ * @throws Error if the fused CSV has no data rows
+ */
+export function buildNetcdfLayout(
+  scan: UnifiedCsvScan,
+  metadata: SyncMetadata,
+  options: ArchiveExportOptions = {},
+  warnings: string[] = []
+): NetcdfArchiveLayout {
+  const timeCol = scan.header.indexOf('timestamp')
+  if (!scan.timeRange) {
+    throw new Error('Fused session has no rows to export')
+  }
+
+  const variables: NetcdfRecordVariable[] = [
+    {
+      name: 'time',
+      attributes: {
+        standard_name: 'time',
+        long_name: 'Time (topside clock, drift corrected)',
+        units: 'seconds since 1970-01-01T00:00:00Z',
+        calendar: 'standard',
+        axis: 'T',
+      },
+    },
+  ]
+  const columns = [timeCol]
+
+  const sensors = archiveSensors(scan, metadata)
+  scan.header.forEach((column, index) => {
+    if (index === timeCol || TEXT_COLUMN_SUFFIXES.some((suffix) => column.endsWith(suffix))) return
+
+    const sensor = sensors.find((candidate) => column.startsWith(`${candidate.prefix}_`))
+    const spec = sensor ? sensorColumnSpec(column, sensor) : VEHICLE_COLUMN_SPECS[column] ?? null
+    if (!spec) {
+      warnings.push(`Column '${column}' has no NetCDF mapping and was left out`)
+      return
+    }
+
+    const attributes: Record<string, NetcdfAttributeValue> = {
+      ...spec.attributes,
+      _FillValue: ARCHIVE_MISSING_VALUE,
+      ...(sensor && column === `${sensor.prefix}_value` ? sensorAttributes(sensor, metadata) : {}),
+    }
+    variables.push({ name: spec.name, attributes })
+    columns.push(index)
+  })
+
+  const attributes: Record<string, NetcdfAttributeValue> = {
+    Conventions: 'CF-1.8',
+    title: `Q-Sensor irradiance, mission ${metadata.mission}`,
+    summary: `Fused irradiance from ${sensors.map((sensor) => sensor.label).join(', ')} recorded with Cockpit`,
+    source: 'Biospherical Instruments Q-Series sensors',
+    history: `${new Date().toISOString()} exported from unified_session.csv`,
+    date_created: new Date().toISOString(),
+    mission: metadata.mission,
+    unified_session_timestamp: metadata.unifiedSessionTimestamp,
+    cruise: options.cruise || metadata.mission,
+    time_coverage_start: new Date(scan.timeRange[0]).toISOString(),
+    time_coverage_end: new Date(scan.timeRange[1]).toISOString(),
+  }
+  if (options.investigators) attributes.creator_name = options.investigators
+  if (options.contact) attributes.creator_email = options.contact
+  if (options.affiliations) attributes.institution = options.affiliations
+  if (options.experiment) attributes.project = options.experiment
+  if (options.station) attributes.station = options.station
+  if (options.documents) attributes.references = options.documents
+
+  const latitude = columnRange(scan, 'vehicle_latitude')
+  const longitude = columnRange(scan, 'vehicle_longitude')
+  if (latitude && longitude) {
+    attributes.geospatial_lat_min = latitude[0]
+    attributes.geospatial_lat_max = latitude[1]
+    attributes.geospatial_lon_min = longitude[0]
+    attributes.geospatial_lon_max = longitude[1]
+  }
+
+  return {
+    dataset: { recordDimension: { name: 'time', length: scan.rowCount }, attributes, variables },
+    columns,
+  }
+}
+
+/**
+ * Second pass over unified_session.csv: write the NetCDF-CF file, one record per row.
+ * @param csvPath - unified_session.csv path
+ * @param outputPath - NetCDF file path
+ * @param layout - Layout built from the first pass
+ * @returns Number of records written
+ * @throws Error if the fused CSV changed since the first pass
+ */
+export async function writeNetcdfArchive(
+  csvPath: string,
+  outputPath: string,
+  layout: NetcdfArchiveLayout
+): Promise<number> {
+  const [timeCol, ...valueCols] = layout.columns
+  const expected = layout.dataset.recordDimension.length
+  let written = 0
+
+  /**
+   * Header, then one record per row
+   * @yields {Buffer} File chunks
+   */
+  async function* chunks(): AsyncGenerator<Buffer> {
+    yield encodeNetcdfRecordHeader(layout.dataset)
+    for await (const { time, fields } of readUnifiedCsvRows(csvPath, timeCol)) {
+      // NOTE: The header holds the record count, so extra rows would corrupt the file
+      if (++written > expected) break
+      const values = valueCols.map((index) => parseNumber(fields[index]) ?? ARCHIVE_MISSING_VALUE)
+      yield encodeNetcdfRecord([time / 1000, ...values])
+    }
+    if (written !== expected) {
+      throw new Error('unified_session.csv changed during the export')
+    }
+  }
+
+  await writeChunksAtomic(outputPath, chunks())
+  return written
+}
+
+// ============================================================================
+// SeaBASS
+// ============================================================================
+
+/**
+ * SeaBASS field name of a sensor's calibrated irradiance: 'par' for the first in-water sensor,
+ * 'par_<prefix>' for the others.
+ * @param sensor - Sensor
+ * @param sensors - Calibrated sensors of the session
+ * @returns Field name
+ */
+function seabassIrradianceField(sensor: ArchiveSensor, sensors: ArchiveSensor[]): string {
+  const primary = sensors.find((candidate) => candidate.role === 'inWater') ?? sensors[0]
+  return sensor === primary ? 'par' : `par_${sensor.prefix}`
+}
+
+/**
+ * Date and time fields of a SeaBASS row.
+ * @param time - Epoch in milliseconds
+ * @returns yyyymmdd and hh:mm:ss.sss in UTC
+ */
+function seabassDateTime(time: number): [string, string] {
+  const iso = new Date(time).toISOString()
+  return [iso.slice(0, 10).replace(/-/g, ''), iso.slice(11, 23)]
+}
+
+/**
+ * Format a coordinate bound for the SeaBASS header.
+ * @param value - Degrees
+ * @returns Value with the [DEG] suffix
+ */
+function seabassDegrees(value: number): string {
+  return `${value.toFixed(4)}[DEG]`
+}
+
+/**
+ * Build the SeaBASS layout of a fused session. Only calibrated sensors are exported, as SeaBASS takes
+ * geophysical values.
+ * @param scan - Scan of the fused CSV
+ * @param metadata - Session metadata
+ * @param fileName - Name written in /data_file_name
+ * @param options - Investigator and deployment details
+ * @param warnings - Receives the sensors left out
+ * @returns Header lines and the columns of the data fields
+ * @throws Error if no sensor is calibrated or no row has a calibrated value
+ */
+export function buildSeabassLayout(
+  scan: UnifiedCsvScan,
+  metadata: SyncMetadata,
+  fileName: string,
+  options: ArchiveExportOptions = {},
+  warnings: string[] = []
+): SeabassArchiveLayout {
+  const column = (name: string): number => scan.header.indexOf(name)
+  const allSensors = archiveSensors(scan, metadata)
+  const sensors = allSensors.filter((sensor) => sensor.calibration && column(`${sensor.prefix}_calibrated`) !== -1)
+  allSensors
+    .filter((sensor) => !sensors.includes(sensor))
+    .forEach((sensor) => warnings.push(`${sensor.label} has no calibration and was left out of the SeaBASS file`))
+  if (sensors.length === 0) {
+    throw new Error('SeaBASS export needs at least one calibrated sensor')
+  }
+
+  const calibratedStats = sensors
+    .map((sensor) => scan.columns[`${sensor.prefix}_calibrated`])
+    .filter((stats): stats is UnifiedColumnStats => stats !== undefined)
+  if (calibratedStats.length === 0) {
+    throw new Error('Fused session has no rows with calibrated values')
+  }
+
+  const vehicleFields = SEABASS_VEHICLE_FIELDS.filter(([name]) => columnRange(scan, name) !== null)
+  const fields = [
+    ...vehicleFields.map(([name, field, units]) => ({ index: column(name), field, units })),
+    ...sensors.map((sensor) => ({
+      index: column(`${sensor.prefix}_calibrated`),
+      field: seabassIrradianceField(sensor, sensors),
+      units: asciiUnits(sensor.calibration!.units),
+    })),
+  ]
+
+  const [startDate, startTime] = seabassDateTime(Math.min(...calibratedStats.map((stats) => stats.firstTime)))
+  const [endDate, endTime] = seabassDateTime(Math.max(...calibratedStats.map((stats) => stats.lastTime)))
+  const latitude = columnRange(scan, 'vehicle_latitude')
+  const longitude = columnRange(scan, 'vehicle_longitude')
+  const na = (value: string | undefined): string => value?.trim() || 'NA'
+
+  const header = [
+    '/begin_header',
+    `/investigators=${na(options.investigators)
+      .replace(/\s*,\s*/g, ',')
+      .replace(/\s+/g, '_')}`,
+    `/affiliations=${na(options.affiliations)}`,
+    `/contact=${na(options.contact)}`,
+    `/experiment=${na(options.experiment).replace(/\s+/g, '_')}`,
+    `/cruise=${na(options.cruise || metadata.mission).replace(/\s+/g, '_')}`,
+    `/station=${na(options.station).replace(/\s+/g, '_')}`,
+    `/data_file_name=${fileName}`,
+    `/documents=${na(options.documents)}`,
+    `/calibration_files=${sensors
+      .map((sensor) => `${sensor.serialNumber ?? sensor.id}_${sensor.calibration!.calDate.slice(0, 10)}`)
+      .join(',')}`,
+    '/data_type=cast',
+    `/data_status=${options.dataStatus ?? 'preliminary'}`,
+    `/start_date=${startDate}`,
+    `/end_date=${endDate}`,
+    `/start_time=${startTime.slice(0, 8)}[GMT]`,
+    `/end_time=${endTime.slice(0, 8)}[GMT]`,
+    `/north_latitude=${latitude ? seabassDegrees(latitude[1]) : 'NA'}`,
+    `/south_latitude=${latitude ? seabassDegrees(latitude[0]) : 'NA'}`,
+    `/east_longitude=${longitude ? seabassDegrees(longitude[1]) : 'NA'}`,
+    `/west_longitude=${longitude ? seabassDegrees(longitude[0]) : 'NA'}`,
+    `/water_depth=${options.waterDepthM !== null && options.waterDepthM !== undefined ? options.waterDepthM : 'NA'}`,
+    `/missing=${ARCHIVE_MISSING_VALUE}`,
+    '/delimiter=comma',
+    `/fields=${['date', 'time', ...fields.map((field) => field.field)].join(',')}`,
+    `/units=${['yyyymmdd', 'hh:mm:ss', ...fields.map((field) => field.units)].join(',')}`,
+    `! Mission: ${metadata.mission}, unified session ${metadata.unifiedSessionTimestamp}`,
+    '! Times are on the topside clock, with each sensor corrected by its clock drift model',
+    ...sensors.flatMap((sensor) => {
+      const cal = sensor.calibration!
+      const lines = [
+        `! ${seabassIrradianceField(sensor, sensors)}: ${sensor.label} (${sensor.role}), serial ${
+          sensor.serialNumber ?? 'unknown'
+        }`,
+        `!   calibration ${cal.calDate}: factor ${cal.calFactor}, dark offset ${cal.darkOffset}, immersion ${cal.immersionCoefficient}`,
+        `!   clock drift model: ${describeDriftModel(sensor.driftModel)}`,
+      ]
+      if (sensor.dark) lines.push(`!   dark capture ${sensor.dark.completedAt}: mean ${sensor.dark.valueMean}`)
+      return lines
+    }),
+    '/end_header',
+  ]
+
+  return {
+    header,
+    timeColumn: column('timestamp'),
+    columns: fields.map((field) => field.index),
+    calibratedColumns: fields.slice(vehicleFields.length).map((field) => field.index),
+  }
+}
+
+/**
+ * Second pass over unified_session.csv: write the SeaBASS file, one line per row with a calibrated value.
+ * @param csvPath - unified_session.csv path
+ * @param outputPath - SeaBASS file path
+ * @param layout - Layout built from the first pass
+ * @returns Number of data rows written
+ */
+export async function writeSeabassArchive(
+  csvPath: string,
+  outputPath: string,
+  layout: SeabassArchiveLayout
+): Promise<number> {
+  let written = 0
+
+  /**
+   * Header, then the data lines
+   * @yields {string} File chunks
+   */
+  async function* chunks(): AsyncGenerator<string> {
+    yield layout.header.join('\n') + '\n'
+    for await (const { time, fields } of readUnifiedCsvRows(csvPath, layout.timeColumn)) {
+      // NOTE: Rows without any calibrated value carry no data for the archive
+      if (layout.calibratedColumns.every((index) => parseNumber(fields[index]) === null)) continue
+      written++
+      const values = layout.columns.map((index) => parseNumber(fields[index]) ?? ARCHIVE_MISSING_VALUE)
+      yield [...seabassDateTime(time), ...values].join(',') + '\n'
+    }
+  }
+
+  await writeChunksAtomic(outputPath, chunks())
+  return written
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write chunks to a file atomically (tmp + rename), in batches, so exports are never held whole in memory.
+ * @param outputPath - Destination path
+ * @param chunks - File content, in order
+ */
+async function writeChunksAtomic(outputPath: string, chunks: AsyncIterable<Buffer | string>): Promise<void> {
+  const tmpPath = outputPath + '.tmp'
+  const file = await fs.open(tmpPath, 'w')
+  try {
+    let batch: Buffer[] = []
+    let batchBytes = 0
+    for await (const chunk of chunks) {
+      const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk
+      batch.push(bytes)
+      batchBytes += bytes.length
+      if (batchBytes >= WRITE_BATCH_BYTES) {
+        await file.write(Buffer.concat(batch, batchBytes))
+        batch = []
+        batchBytes = 0
+      }
+    }
+    await file.write(Buffer.concat(batch, batchBytes))
+    await file.close()
+  } catch (error) {
+    await file.close()
+    await fs.rm(tmpPath, { force: true })
+    throw error
+  }
+  await fs.rename(tmpPath, outputPath)
+}
+
+/**
+ * Export a fused session to an archive format, into the session's exports/ directory.
+ * @param sessionRoot - Unified session root directory
+ * @param format - Archive format
+ * @param options - Investigator and deployment details
+ * @returns Written file
+ * @throws Error if the session has not been fused or cannot be represented in the format
+ */
+export async function exportSessionArchive(
+  sessionRoot: string,
+  format: ArchiveExportFormat,
+  options: ArchiveExportOptions = {}
+): Promise<ArchiveExportResult> {
+  const metadata = await readSyncMetadata(sessionRoot)
+  const unifiedCsv = metadata?.fusion?.unifiedCsv
+  if (!metadata || !unifiedCsv) {
+    throw new Error('Session has not been fused yet')
+  }
+
+  const csvPath = path.join(sessionRoot, unifiedCsv)
+  const scan = await scanUnifiedCsv(csvPath)
+  const baseName = `${metadata.mission}_${path.basename(sessionRoot)}`.replace(/[^A-Za-z0-9_.-]+/g, '_')
+  const fileName = `${baseName}.${ARCHIVE_FILE_EXTENSIONS[format]}`
+  const warnings: string[] = []
+
+  const file = path.join(ARCHIVE_EXPORT_DIRNAME, fileName)
+  const outputPath = path.join(sessionRoot, file)
+
+  let rowCount: number
+  if (format === 'netcdf') {
+    const layout = buildNetcdfLayout(scan, metadata, options, warnings)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    rowCount = await writeNetcdfArchive(csvPath, outputPath, layout)
+  } else {
+    const layout = buildSeabassLayout(scan, metadata, fileName, options, warnings)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    rowCount = await writeSeabassArchive(csvPath, outputPath, layout)
+    const skipped = scan.rowCount - rowCount
+    if (skipped > 0) warnings.push(`${skipped} rows without a calibrated value were left out`)
+  }
+
+  await updateSyncMetadata(sessionRoot, (updated) => {
+    updated.exports = { ...updated.exports, [format]: { file, rowCount, generatedAt: new Date().toISOString() } }
+  })
+
+  console.log(`[QSensor Archive Export] Wrote ${format} ${file} (${rowCount} rows) in ${sessionRoot}`)
+  warnings.forEach((warning) => console.warn(`[QSensor Archive Export] ${warning}`))
+  return { sessionRoot, format, file, rowCount, warnings }
+}
+
+/**
+ * Export several sessions to several formats. Failures are reported per entry and do not stop the batch.
+ * @param sessionRoots - Unified session root directories
+ * @param formats - Archive formats
+ * @param options - Investigator and deployment details, shared by all sessions
+ * @param resolveRoot - Check or normalize a session root before exporting it
+ * @returns One entry per session and format, in order
+ */
+export async function exportSessionArchives(
+  sessionRoots: string[],
+  formats: ArchiveExportFormat[],
+  options: ArchiveExportOptions = {},
+  resolveRoot: (sessionRoot: string) => Promise<string> = async (sessionRoot) => sessionRoot
+): Promise<ArchiveBatchEntry[]> {
+  const entries: ArchiveBatchEntry[] = []
+  for (const sessionRoot of sessionRoots) {
+    for (const format of formats) {
+      try {
+        const result = await exportSessionArchive(await resolveRoot(sessionRoot), format, options)
+        entries.push({ sessionRoot, format, result })
+      } catch (error: any) {
+        console.error(`[QSensor Archive Export] ${format} export of ${sessionRoot} failed:`, error.message)
+        entries.push({ sessionRoot, format, error: error.message })
+      }
+    }
+  }
+  return entries
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for exporting fused sessions to archive formats.
+ * @param getStoragePath - Current Q-Sensor storage path; only sessions inside it can be exported
+ */
+export function setupQSensorArchiveExportService(getStoragePath: () => string): void {
+  ipcMain.handle(
+    'qsensor:export-archives',
+    async (_event, sessionRoots: string[], formats: ArchiveExportFormat[], options?: ArchiveExportOptions) => {
+      try {
+        const validFormats = formats.filter((format) => ARCHIVE_EXPORT_FORMATS.includes(format))
+        if (sessionRoots.length === 0 || validFormats.length === 0) {
+          return { success: false, error: 'Select at least one session and one format' }
+        }
+        const entries = await exportSessionArchives(sessionRoots, validFormats, options, (sessionRoot) =>
+          resolveLibrarySessionRoot(getStoragePath(), sessionRoot)
+        )
+        return { success: true, data: entries }
+      } catch (error: any) {
+        console.error('[QSensor Archive Export] Batch export failed:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  console.log('[QSensor Archive Export] Service registered')
+}
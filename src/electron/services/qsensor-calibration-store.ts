@@ -0,0 +1,161 @@
+/**
+ * Q-Sensor calibration record storage for Electron main process.
+ *
+ * Records are kept in the config store keyed by sensor serial number, so they survive app
+ * restarts and follow the sensor whichever port or Pi it is connected to.
+ */
+
+import { ipcMain } from 'electron'
+
+import type { QSensorCalibrationCheck, QSensorCalibrationRecord } from '@/types/qsensor'
+
+import store from './config-store'
+import { checkCalibration, recordSessionCalibration, validateCalibrationRecord } from './qsensor-calibration'
+import { SensorKey } from './qsensor-session-utils'
+
+// ============================================================================
+// Record Storage
+// ============================================================================
+
+/**
+ * Read the stored calibration records, skipping entries that are not valid records (e.g. edited by hand).
+ * @returns Records keyed by serial number
+ */
+function readCalibrationRecords(): Record<string, QSensorCalibrationRecord> {
+  const stored: Record<string, unknown> = store.get('qsensorCalibrations') ?? {}
+  const records: Record<string, QSensorCalibrationRecord> = {}
+  Object.entries(stored).forEach(([serialNumber, record]) => {
+    if (validateCalibrationRecord(record as QSensorCalibrationRecord) === null) {
+      records[serialNumber] = record as QSensorCalibrationRecord
+    }
+  })
+  return records
+}
+
+/**
+ * Get all stored calibration records.
+ * @returns Records sorted by serial number
+ */
+export function listCalibrationRecords(): QSensorCalibrationRecord[] {
+  return Object.values(readCalibrationRecords()).sort((a, b) => a.serialNumber.localeCompare(b.serialNumber))
+}
+
+/**
+ * Get the calibration record for a serial number.
+ * @param serialNumber - Sensor serial number
+ * @returns The record, or null if none is stored
+ */
+export function getCalibrationRecord(serialNumber: string): QSensorCalibrationRecord | null {
+  return readCalibrationRecords()[serialNumber] ?? null
+}
+
+/**
+ * Create or replace the calibration record for a serial number.
+ * @param record - Record to store
+ * @throws Error if the record is invalid
+ */
+export function saveCalibrationRecord(record: QSensorCalibrationRecord): void {
+  const error = validateCalibrationRecord(record)
+  if (error) {
+    throw new Error(error)
+  }
+
+  const serialNumber = record.serialNumber.trim()
+  store.set('qsensorCalibrations', { ...readCalibrationRecords(), [serialNumber]: { ...record, serialNumber } })
+  console.log(`[QSensor Calibration] Saved calibration for sensor ${serialNumber}`)
+}
+
+/**
+ * Delete the calibration record for a serial number.
+ * @param serialNumber - Sensor serial number
+ */
+export function deleteCalibrationRecord(serialNumber: string): void {
+  const records = readCalibrationRecords()
+  delete records[serialNumber]
+  store.set('qsensorCalibrations', records)
+  console.log(`[QSensor Calibration] Deleted calibration for sensor ${serialNumber}`)
+}
+
+/**
+ * Check a sensor against its stored calibration record.
+ * @param serialNumber - Sensor serial number
+ * @param deviceCalFactor - Calfactor reported by the device, if known
+ * @returns Calibration status and warnings
+ */
+export function checkSensorCalibration(
+  serialNumber: string,
+  deviceCalFactor: number | null = null
+): QSensorCalibrationCheck {
+  return checkCalibration(serialNumber, getCalibrationRecord(serialNumber), deviceCalFactor)
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Sensor calibration records.
+ */
+export function setupQSensorCalibrationService(): void {
+  ipcMain.handle('qsensor:list-calibrations', async () => {
+    try {
+      return { success: true, data: listCalibrationRecords() }
+    } catch (error: any) {
+      console.error('[QSensor Calibration] Failed to list calibrations:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:save-calibration', async (_event, record: QSensorCalibrationRecord) => {
+    try {
+      saveCalibrationRecord(record)
+      return { success: true, data: listCalibrationRecords() }
+    } catch (error: any) {
+      console.error('[QSensor Calibration] Failed to save calibration:', error.message)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:delete-calibration', async (_event, serialNumber: string) => {
+    try {
+      deleteCalibrationRecord(serialNumber)
+      return { success: true, data: listCalibrationRecords() }
+    } catch (error: any) {
+      console.error('[QSensor Calibration] Failed to delete calibration:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle(
+    'qsensor:check-calibration',
+    async (_event, serialNumber: string, deviceCalFactor: number | null = null) => {
+      try {
+        if (!serialNumber) {
+          return { success: false, error: 'No serial number provided' }
+        }
+        return { success: true, data: checkSensorCalibration(serialNumber, deviceCalFactor) }
+      } catch (error: any) {
+        console.error('[QSensor Calibration] Failed to check calibration:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'qsensor:record-session-calibration',
+    async (_event, sessionRoot: string, sensor: SensorKey, serialNumber: string, deviceCalFactor: number | null) => {
+      try {
+        if (!sessionRoot || !serialNumber) {
+          return { success: false, error: 'Session root and serial number are required' }
+        }
+        const check = checkSensorCalibration(serialNumber, deviceCalFactor ?? null)
+        return { success: true, data: await recordSessionCalibration(sessionRoot, sensor, check) }
+      } catch (error: any) {
+        console.error('[QSensor Calibration] Failed to record session calibration:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  console.log('[QSensor Calibration] Service registered')
+}
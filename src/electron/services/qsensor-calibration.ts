@@ -0,0 +1,195 @@
+/**
+ * Q-Sensor calibration helpers for Electron main process.
+ *
+ * Converts raw Q-Series readings to engineering units using per-serial-number calibration
+ * records, and checks records for expiry and disagreement with the device-reported calfactor.
+ *
+ * Calibrated value = (raw - darkOffset) * calFactor * immersionCoefficient
+ *
+ * Persistence and IPC live in qsensor-calibration-store.ts so the recorder and fusion can use
+ * these helpers without touching the config store.
+ */
+
+import type { QSensorCalibrationCheck, QSensorCalibrationRecord } from '@/types/qsensor'
+
+import { SensorCalibrationInfo, SensorKey, updateSensorMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Validity period used when a record does not set validityDays */
+export const DEFAULT_CALIBRATION_VALIDITY_DAYS = 365
+
+/** Relative difference above which device and stored calfactors are considered different */
+const CALFACTOR_MISMATCH_TOLERANCE = 1e-4
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Calibration Math
+// ============================================================================
+
+/**
+ * Convert a raw reading to engineering units.
+ * @param rawValue - Raw value reported by the sensor
+ * @param record - Calibration record for the sensor
+ * @param darkOffset - Dark offset to subtract (defaults to the record's; a session dark capture replaces it)
+ * @returns Calibrated value, or null if the raw value is not finite
+ */
+export function applyCalibration(
+  rawValue: number,
+  record: QSensorCalibrationRecord,
+  darkOffset: number = record.darkOffset
+): number | null {
+  if (!Number.isFinite(rawValue)) return null
+  return (rawValue - darkOffset) * record.calFactor * record.immersionCoefficient
+}
+
+/**
+ * Convert a raw CSV value to a calibrated CSV value.
+ * @param rawValue - Raw value as written in session.csv (may be empty)
+ * @param record - Calibration record, or null when the sensor has none
+ * @param darkOffset - Dark offset to subtract instead of the record's
+ * @returns Calibrated value as a string, or empty string when it can't be computed
+ */
+export function formatCalibratedValue(
+  rawValue: string | number | null | undefined,
+  record: QSensorCalibrationRecord | null | undefined,
+  darkOffset?: number
+): string {
+  if (!record || rawValue === null || rawValue === undefined || rawValue === '') return ''
+  const calibrated = applyCalibration(Number(rawValue), record, darkOffset)
+  return calibrated === null ? '' : calibrated.toString()
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a calibration record before storing it.
+ * @param record - Record to validate
+ * @returns Error message if invalid, null if valid
+ */
+export function validateCalibrationRecord(record: QSensorCalibrationRecord): string | null {
+  if (!record || typeof record.serialNumber !== 'string' || record.serialNumber.trim() === '') {
+    return 'Serial number is required'
+  }
+  if (!Number.isFinite(record.calFactor) || record.calFactor === 0) {
+    return 'Calibration factor must be a non-zero number'
+  }
+  if (!Number.isFinite(record.darkOffset)) {
+    return 'Dark offset must be a number'
+  }
+  if (!Number.isFinite(record.immersionCoefficient) || record.immersionCoefficient <= 0) {
+    return 'Immersion coefficient must be greater than 0'
+  }
+  if (isNaN(new Date(record.calDate).getTime())) {
+    return 'Calibration date must be a valid date'
+  }
+  if (record.validityDays !== undefined && !(record.validityDays > 0)) {
+    return 'Validity must be a positive number of days'
+  }
+  return null
+}
+
+/**
+ * Get the expiry time of a calibration record.
+ * @param record - Calibration record
+ * @returns Expiry as epoch ms, or null if calDate can't be parsed
+ */
+export function calibrationExpiresAt(record: QSensorCalibrationRecord): number | null {
+  const calTime = new Date(record.calDate).getTime()
+  if (isNaN(calTime)) return null
+  const validityDays = record.validityDays ?? DEFAULT_CALIBRATION_VALIDITY_DAYS
+  return calTime + validityDays * MS_PER_DAY
+}
+
+/**
+ * Whether the device-reported calfactor disagrees with the stored one.
+ * @param deviceCalFactor - Calfactor from the device config dump
+ * @param storedCalFactor - Calfactor from the calibration record
+ * @returns True if they differ by more than the relative tolerance
+ */
+export function isCalFactorMismatch(deviceCalFactor: number, storedCalFactor: number): boolean {
+  const scale = Math.max(Math.abs(deviceCalFactor), Math.abs(storedCalFactor))
+  if (scale === 0) return false
+  return Math.abs(deviceCalFactor - storedCalFactor) / scale > CALFACTOR_MISMATCH_TOLERANCE
+}
+
+/**
+ * Check a sensor against its stored calibration record.
+ * @param serialNumber - Sensor serial number
+ * @param record - Stored record for the serial number, if any
+ * @param deviceCalFactor - Calfactor reported by the device, if known
+ * @param now - Reference time (epoch ms) for the expiry check
+ * @returns Calibration status and warnings
+ */
+export function checkCalibration(
+  serialNumber: string,
+  record: QSensorCalibrationRecord | null,
+  deviceCalFactor: number | null = null,
+  now: number = Date.now()
+): QSensorCalibrationCheck {
+  if (!record) {
+    return {
+      serialNumber,
+      status: 'missing',
+      record: null,
+      expiresAt: null,
+      deviceCalFactor,
+      calFactorMismatch: false,
+      warnings: [`No calibration record for sensor ${serialNumber}, calibrated values will be empty`],
+    }
+  }
+
+  const warnings: string[] = []
+  const expiresAt = calibrationExpiresAt(record)
+  const expired = expiresAt === null || expiresAt < now
+  if (expiresAt === null) {
+    warnings.push(`Calibration date "${record.calDate}" for sensor ${serialNumber} is not a valid date`)
+  } else if (expired) {
+    warnings.push(`Calibration for sensor ${serialNumber} expired on ${new Date(expiresAt).toISOString().slice(0, 10)}`)
+  }
+
+  const calFactorMismatch = deviceCalFactor !== null && isCalFactorMismatch(deviceCalFactor, record.calFactor)
+  if (calFactorMismatch) {
+    warnings.push(
+      `Sensor ${serialNumber} reports calfactor ${deviceCalFactor}, but the stored calibration uses ${record.calFactor}`
+    )
+  }
+
+  return {
+    serialNumber,
+    status: expired ? 'expired' : 'valid',
+    record,
+    expiresAt: expiresAt !== null ? new Date(expiresAt).toISOString() : null,
+    deviceCalFactor,
+    calFactorMismatch,
+    warnings,
+  }
+}
+
+// ============================================================================
+// Session Metadata
+// ============================================================================
+
+/**
+ * Store the calibration used for a recording in sync_metadata.json, so fusion applies the
+ * record that was current at record time even if it is edited later.
+ * @param sessionRoot - Unified session root
+ * @param sensor - Sensor the calibration belongs to
+ * @param check - Calibration check for the sensor
+ * @returns The stored calibration info
+ */
+export async function recordSessionCalibration(
+  sessionRoot: string,
+  sensor: SensorKey,
+  check: QSensorCalibrationCheck
+): Promise<SensorCalibrationInfo> {
+  const calibration: SensorCalibrationInfo = { ...check, checkedAt: new Date().toISOString() }
+  await updateSensorMetadata(sessionRoot, sensor, { calibration })
+  check.warnings.forEach((warning) => console.warn(`[QSensor Calibration] ${sensor}: ${warning}`))
+  return calibration
+}
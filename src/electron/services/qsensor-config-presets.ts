@@ -0,0 +1,182 @@
+/**
+ * Q-Series device configuration presets for Electron main process.
+ *
+ * Presets are named sets of menu settings (averaging, ADC rate, mode, outputs...) kept in the
+ * config store per sensor serial number, so a known-good setup can be re-applied after a field swap.
+ * Applying a preset goes through the qsensor-serial:apply-config handler like any other edit.
+ */
+
+import { ipcMain } from 'electron'
+
+import store from './config-store'
+import type { QSeriesEditableConfig } from './qsensor-protocol'
+import { EDITABLE_CONFIG_FIELDS, validateConfigValues } from './qsensor-protocol'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Named configuration preset for one sensor
+ */
+export interface QSeriesConfigPreset {
+  /**
+   * Preset name, unique per serial number
+   */
+  name: string
+  /**
+   *
+   */
+  serialNumber: string
+  /**
+   *
+   */
+  config: QSeriesEditableConfig
+  /**
+   * When the preset was last saved (ISO 8601)
+   */
+  savedAt: string
+}
+
+// ============================================================================
+// Preset Storage
+// ============================================================================
+
+/**
+ * Whether a stored entry is a preset whose settings are within the firmware limits (entries may be edited by hand).
+ * @param preset - Stored entry
+ * @returns True for a usable preset
+ */
+function isValidPreset(preset: unknown): preset is QSeriesConfigPreset {
+  const candidate = preset as Partial<QSeriesConfigPreset> | null
+  return (
+    typeof candidate?.name === 'string' &&
+    typeof candidate.serialNumber === 'string' &&
+    typeof candidate.config === 'object' &&
+    candidate.config !== null &&
+    validateConfigValues(candidate.config).length === 0
+  )
+}
+
+/**
+ * Read the stored presets, skipping entries that are not valid presets.
+ * @returns Presets keyed by serial number, then by name
+ */
+function readConfigPresets(): Record<string, Record<string, QSeriesConfigPreset>> {
+  const stored: Record<string, Record<string, unknown> | undefined> = store.get('qsensorConfigPresets') ?? {}
+  const presets: Record<string, Record<string, QSeriesConfigPreset>> = {}
+  Object.entries(stored).forEach(([serialNumber, sensorPresets]) => {
+    presets[serialNumber] = {}
+    Object.entries(sensorPresets ?? {}).forEach(([name, preset]) => {
+      if (isValidPreset(preset)) presets[serialNumber][name] = preset
+    })
+  })
+  return presets
+}
+
+/**
+ * Get the presets saved for a serial number.
+ * @param serialNumber - Sensor serial number
+ * @returns Presets sorted by name
+ */
+export function listConfigPresets(serialNumber: string): QSeriesConfigPreset[] {
+  const presets = readConfigPresets()
+  return Object.values(presets[serialNumber] ?? {}).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Create or replace a preset.
+ * @param serialNumber - Sensor serial number
+ * @param name - Preset name
+ * @param config - Settings to store
+ * @throws Error if the name is empty or a value is outside the firmware limits
+ */
+export function saveConfigPreset(serialNumber: string, name: string, config: QSeriesEditableConfig): void {
+  const trimmedSerial = serialNumber?.trim()
+  const trimmedName = name?.trim()
+  if (!trimmedSerial || trimmedSerial === 'unknown') {
+    throw new Error('Presets need the sensor serial number')
+  }
+  if (!trimmedName) {
+    throw new Error('Preset name is required')
+  }
+
+  // NOTE: Copy only the editable fields so device-reported values are never stored as settings
+  const settings = Object.fromEntries(
+    EDITABLE_CONFIG_FIELDS.map((field) => [field, config[field]])
+  ) as unknown as QSeriesEditableConfig
+  if (settings.mode === 'freerun') settings.tag = null
+  const errors = validateConfigValues(settings)
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '))
+  }
+
+  const presets = readConfigPresets()
+  const preset: QSeriesConfigPreset = {
+    name: trimmedName,
+    serialNumber: trimmedSerial,
+    config: settings,
+    savedAt: new Date().toISOString(),
+  }
+  store.set('qsensorConfigPresets', {
+    ...presets,
+    [trimmedSerial]: { ...(presets[trimmedSerial] ?? {}), [trimmedName]: preset },
+  })
+  console.log(`[QSensor Config Presets] Saved preset "${trimmedName}" for sensor ${trimmedSerial}`)
+}
+
+/**
+ * Delete a preset.
+ * @param serialNumber - Sensor serial number
+ * @param name - Preset name
+ */
+export function deleteConfigPreset(serialNumber: string, name: string): void {
+  const presets = readConfigPresets()
+  const sensorPresets = { ...(presets[serialNumber] ?? {}) }
+  delete sensorPresets[name]
+  store.set('qsensorConfigPresets', { ...presets, [serialNumber]: sensorPresets })
+  console.log(`[QSensor Config Presets] Deleted preset "${name}" for sensor ${serialNumber}`)
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Series configuration presets.
+ */
+export function setupQSensorConfigPresetService(): void {
+  ipcMain.handle('qsensor:list-config-presets', async (_event, serialNumber: string) => {
+    try {
+      return { success: true, data: listConfigPresets(serialNumber) }
+    } catch (error: any) {
+      console.error('[QSensor Config Presets] Failed to list presets:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle(
+    'qsensor:save-config-preset',
+    async (_event, serialNumber: string, name: string, config: QSeriesEditableConfig) => {
+      try {
+        saveConfigPreset(serialNumber, name, config)
+        return { success: true, data: listConfigPresets(serialNumber) }
+      } catch (error: any) {
+        console.error('[QSensor Config Presets] Failed to save preset:', error.message)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  ipcMain.handle('qsensor:delete-config-preset', async (_event, serialNumber: string, name: string) => {
+    try {
+      deleteConfigPreset(serialNumber, name)
+      return { success: true, data: listConfigPresets(serialNumber) }
+    } catch (error: any) {
+      console.error('[QSensor Config Presets] Failed to delete preset:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  console.log('[QSensor Config Presets] Service registered')
+}
@@ -7,6 +7,13 @@
 
 import { ipcMain } from 'electron'
 
+import type { QSensorDarkCapture, QSensorLiveReading } from '@/types/qsensor'
+
+import { computeDarkCapture, DarkSample, validateDarkCaptureDuration } from './qsensor-dark'
+
+// Dark capture polls /sensor/latest; readings with a repeated timestamp are skipped
+const DARK_CAPTURE_POLL_INTERVAL_MS = 100
+
 /**
  * Make a fetch request from Electron main (bypasses CORS)
  * @param url
@@ -216,6 +223,58 @@ dddddddddddd
   }
 }
 
+/**
+ * Get the most recent reading from the sensor.
+ *
+ * Uses a plain fetch (not fetchFromMain) because this is called on every status poll
+ * and the verbose request logging would flood the console.
+ * @param baseUrl
+ */
+async function getLatestReading(baseUrl: string): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  data?: QSensorLiveReading
+  /**
+   *
+   */
+  error?: string
+}> {
+  try {
+    const url = new URL('/sensor/latest', baseUrl)
+    const response = await fetch(url.toString(), { method: 'GET', signal: AbortSignal.timeout(2000) })
+    if (!response.ok) {
+      return { success: false, error: `${response.status} ${response.statusText}` }
+    }
+
+    const raw = await response.json()
+    const value = Number(raw?.value)
+    if (!Number.isFinite(value)) {
+      return { success: false, error: 'No reading available' }
+    }
+
+    const tempC = Number(raw.TempC)
+    const vin = Number(raw.Vin)
+    return {
+      success: true,
+      data: {
+        timestamp: raw.timestamp ?? raw.timestamp_utc ?? new Date().toISOString(),
+        sensorId: raw.sensor_id ?? null,
+        mode: raw.mode ?? null,
+        value,
+        TempC: raw.TempC !== undefined && raw.TempC !== null && Number.isFinite(tempC) ? tempC : undefined,
+        Vin: raw.Vin !== undefined && raw.Vin !== null && Number.isFinite(vin) ? vin : undefined,
+      },
+    }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
 /**
  * Start sensor acquisition
  * @param baseUrl
@@ -436,6 +495,77 @@ dddddddddddd
   }
 }
 
+/**
+ * Capture dark readings (sensor capped) for a fixed duration.
+ * Starts acquisition on the Pi for the capture and stops it afterwards, so it must not be recording.
+ * @param baseUrl
+ * @param durationS - Capture duration in seconds
+ * @param pollHz - Poll rate used for acquisition
+ */
+async function captureDark(
+  baseUrl: string,
+  durationS: number,
+  pollHz?: number
+): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  data?: QSensorDarkCapture
+  /**
+   *
+   */
+  error?: string
+}> {
+  const durationError = validateDarkCaptureDuration(durationS)
+  if (durationError) {
+    return { success: false, error: durationError }
+  }
+
+  const acqResult = await startAcquisition(baseUrl, pollHz)
+  if (!acqResult.success) {
+    return { success: false, error: `Failed to start acquisition for dark capture: ${acqResult.error}` }
+  }
+
+  const samples: DarkSample[] = []
+  let serialNumber: string | null = null
+  let lastTimestamp: string | null = null
+  const startedAt = new Date().toISOString()
+
+  try {
+    console.log(`[QSensor Control] Capturing dark for ${durationS}s`)
+    const endAt = Date.now() + durationS * 1000
+    while (Date.now() < endAt) {
+      const latest = await getLatestReading(baseUrl)
+      if (latest.success && latest.data && latest.data.timestamp !== lastTimestamp) {
+        lastTimestamp = latest.data.timestamp
+        serialNumber = latest.data.sensorId ?? serialNumber
+        samples.push({ value: latest.data.value, TempC: latest.data.TempC })
+      }
+      await new Promise((resolve) => setTimeout(resolve, DARK_CAPTURE_POLL_INTERVAL_MS))
+    }
+  } finally {
+    await stopAcquisition(baseUrl)
+  }
+
+  try {
+    const capture = computeDarkCapture(samples, {
+      serialNumber,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      durationS,
+    })
+    console.log(`[QSensor Control] Dark captured: ${capture.valueMean} ± ${capture.valueStd} (${capture.sampleCount})`)
+    return { success: true, data: capture }
+  } catch (error: any) {
+    console.error('[QSensor Control] Dark capture failed:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
 /**
  * Setup IPC handlers for Q-Sensor control
  */
@@ -452,6 +582,10 @@ export function setupQSensorControlService(): void {
     return await getHealth(baseUrl)
   })
 
+  ipcMain.handle('qsensor:get-latest-reading', async (_event, baseUrl: string) => {
+    return await getLatestReading(baseUrl)
+  })
+
   ipcMain.handle('qsensor:start-acquisition', async (_event, baseUrl: string, pollHz?: number) => {
     return await startAcquisition(baseUrl, pollHz)
   })
@@ -460,6 +594,10 @@ export function setupQSensorControlService(): void {
     return await stopAcquisition(baseUrl)
   })
 
+  ipcMain.handle('qsensor:capture-dark', async (_event, baseUrl: string, durationS: number, pollHz?: number) => {
+    return await captureDark(baseUrl, durationS, pollHz)
+  })
+
   ipcMain.handle('qsensor:start-recording', async (_event, baseUrl: string, options: any) => {
     return await startRecording(baseUrl, options)
   })
@@ -0,0 +1,192 @@
+/**
+ * Q-Sensor dark capture helpers for Electron main process.
+ *
+ * Before deployment the sensor is capped and a few seconds of readings are averaged. The mean is
+ * stored with the recording in sync_metadata.json and subtracted by fusion, so the dark correction
+ * travels with the data.
+ *
+ * Acquisition is backend-specific: serial captures listen to the controller (qsensor-serial-recording.ts),
+ * HTTP captures poll /sensor/latest (qsensor-control.ts). Both reduce their samples here.
+ */
+
+import { ipcMain } from 'electron'
+
+import type { QSensorDarkCapture } from '@/types/qsensor'
+
+import { SensorKey, updateSensorMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One reading collected during a dark capture.
+ */
+export interface DarkSample {
+  /** Raw value */
+  value: number
+  /** Temperature in Celsius, when reported */
+  TempC?: number
+}
+
+/**
+ * Context of a dark capture, stored alongside the statistics.
+ */
+export interface DarkCaptureContext {
+  /** Serial number of the sensor */
+  serialNumber: string | null
+  /** Capture start (ISO 8601) */
+  startedAt: string
+  /** Capture end (ISO 8601) */
+  completedAt: string
+  /** Requested capture duration in seconds */
+  durationS: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default capture duration used by the UI */
+export const DEFAULT_DARK_CAPTURE_DURATION_S = 10
+
+/** Longest capture accepted, to keep a forgotten capture from blocking recording */
+export const MAX_DARK_CAPTURE_DURATION_S = 300
+
+/** Fewest readings a capture needs for a standard deviation */
+export const MIN_DARK_CAPTURE_SAMPLES = 2
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Mean and sample standard deviation of a list of numbers.
+ * @param values - Values to reduce (at least one)
+ * @returns Mean and standard deviation (0 for a single value)
+ */
+function meanAndStd(values: number[]): {
+  /**
+   *
+   */
+  mean: number
+  /**
+   *
+   */
+  std: number
+} {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  if (values.length < 2) return { mean, std: 0 }
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+  return { mean, std: Math.sqrt(variance) }
+}
+
+/**
+ * Reduce the readings of a dark capture to statistics.
+ * @param samples - Readings collected during the capture
+ * @param context - Sensor and timing of the capture
+ * @returns Dark capture statistics
+ * @throws Error if too few finite readings were collected
+ */
+export function computeDarkCapture(samples: DarkSample[], context: DarkCaptureContext): QSensorDarkCapture {
+  const values = samples.map((sample) => sample.value).filter((value) => Number.isFinite(value))
+  if (values.length < MIN_DARK_CAPTURE_SAMPLES) {
+    throw new Error(
+      `Dark capture collected ${values.length} reading(s), at least ${MIN_DARK_CAPTURE_SAMPLES} are needed. Is the sensor acquiring?`
+    )
+  }
+
+  const temps = samples
+    .map((sample) => sample.TempC)
+    .filter((tempC): tempC is number => tempC !== undefined && Number.isFinite(tempC))
+  const valueStats = meanAndStd(values)
+  const tempStats = temps.length > 0 ? meanAndStd(temps) : null
+
+  return {
+    ...context,
+    sampleCount: values.length,
+    valueMean: valueStats.mean,
+    valueStd: valueStats.std,
+    tempCMean: tempStats?.mean ?? null,
+    tempCStd: tempStats?.std ?? null,
+  }
+}
+
+/**
+ * Validate a requested capture duration.
+ * @param durationS - Duration in seconds
+ * @returns Error message if invalid, null if valid
+ */
+export function validateDarkCaptureDuration(durationS: number): string | null {
+  if (!Number.isFinite(durationS) || durationS <= 0 || durationS > MAX_DARK_CAPTURE_DURATION_S) {
+    return `Dark capture duration must be between 0 and ${MAX_DARK_CAPTURE_DURATION_S} seconds`
+  }
+  return null
+}
+
+// ============================================================================
+// Dark Correction
+// ============================================================================
+
+/**
+ * Subtract the captured dark mean from a raw CSV value.
+ * @param rawValue - Raw value as written in session.csv (may be empty)
+ * @param capture - Dark capture for the sensor, or null when there is none
+ * @returns Dark-corrected value as a string, or empty string when it can't be computed
+ */
+export function formatDarkCorrectedValue(
+  rawValue: string | number | null | undefined,
+  capture: QSensorDarkCapture | null | undefined
+): string {
+  if (!capture || rawValue === null || rawValue === undefined || rawValue === '') return ''
+  const value = Number(rawValue)
+  return Number.isFinite(value) ? (value - capture.valueMean).toString() : ''
+}
+
+// ============================================================================
+// Session Metadata
+// ============================================================================
+
+/**
+ * Store the dark capture applied to a recording in sync_metadata.json.
+ * @param sessionRoot - Unified session root
+ * @param sensor - Sensor the capture belongs to
+ * @param capture - Dark capture to store
+ */
+export async function recordSessionDarkCapture(
+  sessionRoot: string,
+  sensor: SensorKey,
+  capture: QSensorDarkCapture
+): Promise<void> {
+  await updateSensorMetadata(sessionRoot, sensor, { dark: capture })
+  console.log(
+    `[QSensor Dark] ${sensor}: recorded dark ${capture.valueMean} ± ${capture.valueStd} (${capture.sampleCount} readings)`
+  )
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Sensor dark captures.
+ */
+export function setupQSensorDarkService(): void {
+  ipcMain.handle(
+    'qsensor:record-session-dark',
+    async (_event, sessionRoot: string, sensor: SensorKey, capture: QSensorDarkCapture) => {
+      try {
+        if (!sessionRoot || !capture) {
+          return { success: false, error: 'Session root and dark capture are required' }
+        }
+        await recordSessionDarkCapture(sessionRoot, sensor, capture)
+        return { success: true }
+      } catch (error: any) {
+        console.error('[QSensor Dark] Failed to record session dark capture:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  console.log('[QSensor Dark] Service registered')
+}
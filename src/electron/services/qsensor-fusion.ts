@@ -1,10 +1,38 @@
 // * TIME ALIGNMENT: currently uses raw UTC timestamps; future offset correction reads sync_metadata.timeSync.offsetMs.
 
-import { ipcMain } from 'electron'
+import { BrowserWindow, ipcMain } from 'electron'
+import { createReadStream } from 'fs'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 
-import { readSyncMetadata, SyncMarker, SyncMetadata, updateSyncMetadata } from './qsensor-session-utils'
+import type { QSensorCalibrationRecord, QSensorDarkCapture, QSensorFusionOptions, QSensorRole } from '@/types/qsensor'
+import { defaultQSensorFusionOptions, qsensorFusionMethodNames } from '@/types/qsensor'
+
+import { formatCalibratedValue } from './qsensor-calibration'
+import { formatDarkCorrectedValue } from './qsensor-dark'
+import { analyzeSessionProfile } from './qsensor-profile'
+import { runSessionQc } from './qsensor-qc'
+import {
+  ClockOffsetSample,
+  DriftKnot,
+  DriftModel,
+  readSyncMetadata,
+  resolveSensorRole,
+  sensorDirectoryPrefix,
+  SensorKey,
+  SyncMarker,
+  SyncMetadata,
+  updateFusionStatus,
+  updateSyncMetadata,
+} from './qsensor-session-utils'
+import { clockOffsetAt, fitClockDrift, FlashDetector, FlashEvent } from './qsensor-time-sync'
+import {
+  interpolateVehicleState,
+  loadVehicleTelemetry,
+  MAX_VEHICLE_STALENESS_MS,
+  VehicleStateAtTime,
+  VehicleTelemetrySample,
+} from './qsensor-vehicle-telemetry'
 
 // ============================================================================
 // Type Definitions
@@ -34,6 +62,22 @@ export interface FusionResult {
    *
    */
   surfaceRows?: number
+  /**
+   *
+   */
+  vehicleRows?: number
+  /**
+   * Rows with a value from each sensor, keyed by sensor id
+   */
+  sensorRows?: Record<SensorKey, number>
+  /**
+   * Set when the run was cancelled; the previous unified CSV, if any, is left in place
+   */
+  cancelled?: boolean
+  /**
+   * Options the session was fused with
+   */
+  options?: QSensorFusionOptions
   /**
    *
    */
@@ -64,6 +108,10 @@ export interface FusionStatus {
    *
    */
   surfaceRows: number | null
+  /**
+   * Rows with a value from each sensor, keyed by sensor id
+   */
+  sensorRows?: Record<SensorKey, number> | null
   /**
    *
    */
@@ -72,6 +120,56 @@ export interface FusionStatus {
    *
    */
   error: string | null
+  /**
+   * Options of the last manual run, reused when the session is fused again; defaults when absent
+   */
+  options?: QSensorFusionOptions
+}
+
+/**
+ * Progress of a fusion run, sent to the renderer on 'qsensor:fusion-progress'
+ */
+export interface FusionProgress {
+  /**
+   *
+   */
+  sessionRoot: string
+  /**
+   * 'scanning' reads the sync markers of every session.csv, 'merging' writes the unified rows
+   */
+  phase: 'scanning' | 'merging' | 'complete' | 'failed' | 'cancelled'
+  /**
+   * Completed fraction of the current phase (0-1)
+   */
+  fraction: number
+  /**
+   *
+   */
+  rowsWritten: number
+}
+
+/**
+ *
+ */
+export interface FusionRunOptions {
+  /**
+   * Called as the run advances, in addition to the renderer notification
+   */
+  onProgress?: (progress: FusionProgress) => void
+  /**
+   * Aborts the run; the unified CSV being written is discarded
+   */
+  signal?: AbortSignal
+  /**
+   * 'streaming' merges the time-sorted session.csv files with bounded memory, 'in-memory' loads every row first.
+   * Streaming falls back to in-memory when a file is not sorted by time.
+   */
+  engine?: 'streaming' | 'in-memory'
+  /**
+   * Sampling method, grid and staleness thresholds; the options stored with the session's fusion status
+   * (or the defaults) when absent
+   */
+  fusion?: Partial<QSensorFusionOptions>
 }
 
 /**
@@ -121,7 +219,7 @@ interface ExtractedMarker {
   /**
    *
    */
-  type: 'START' | 'STOP'
+  type: 'START' | 'STOP' | 'PERIODIC'
   /**
    *
    */
@@ -153,6 +251,14 @@ interface ParsedSensorData {
      *
      */
     stop?: ExtractedMarker
+    /**
+     *
+     */
+    periodic: ExtractedMarker[] // Markers injected during recording, in file order
+    /**
+     *
+     */
+    flashes: FlashEvent[] // Light flashes found in the readings
   }
 }
 
@@ -164,7 +270,7 @@ interface ComputedDriftModel {
   /**
    *
    */
-  type: 'constant' | 'linear'
+  type: 'constant' | 'linear' | 'piecewise'
   /**
    *
    */
@@ -181,6 +287,124 @@ interface ComputedDriftModel {
    *
    */
   inWaterStartTime?: number // Reference point for linear interpolation
+  /**
+   *
+   */
+  knots?: MarkerPair[] // For piecewise: markers sorted by sensor time, offset interpolated between them
+}
+
+// Sync marker seen by both an aligned sensor and the reference: the same instant on both clocks
+/**
+ *
+ */
+interface MarkerPair {
+  /**
+   *
+   */
+  type: 'START' | 'STOP' | 'PERIODIC' | 'FLASH'
+  /**
+   *
+   */
+  syncId: string
+  /**
+   *
+   */
+  sensorTime: number // Epoch ms on the aligned sensor's clock
+  /**
+   *
+   */
+  referenceTime: number // Epoch ms on the reference clock
+}
+
+// Sensor taking part in fusion
+/**
+ *
+ */
+interface FusionSensor {
+  /**
+   *
+   */
+  id: SensorKey
+  /**
+   *
+   */
+  role: QSensorRole
+  /**
+   *
+   */
+  name: string // Directory-style name used in logs ('in-water', 'up-looking')
+  /**
+   *
+   */
+  columnPrefix: string // Wide-format column prefix ('inwater', 'uplooking')
+  /**
+   *
+   */
+  csvPath: string
+}
+
+// Drift-corrected readings of one sensor, keyed by timestamp
+/**
+ *
+ */
+interface SensorRowMap {
+  /**
+   *
+   */
+  id: SensorKey
+  /**
+   *
+   */
+  rows: Map<number, CsvRow>
+}
+
+// Columns of one sensor in a wide-format row
+/**
+ *
+ */
+interface SensorColumns {
+  /**
+   *
+   */
+  sensor_id: string | null
+  /**
+   *
+   */
+  mode: string | null
+  /**
+   *
+   */
+  value: string | null
+  /**
+   *
+   */
+  TempC: string | null
+  /**
+   *
+   */
+  Vin: string | null
+  // Hold-last metadata, only for sensors attached to the row-driving sensor
+  /**
+   *
+   */
+  timestamp_used?: string | null // ISO timestamp of the reading used
+  /**
+   *
+   */
+  age_ms?: number | null // Age in ms (row time - reading time)
+  /**
+   *
+   */
+  status?: 'fresh' | 'stale' | 'missing' | null
+  // Filled by applySensorCorrections from the recording's calibration snapshot and dark capture
+  /**
+   *
+   */
+  calibrated?: string
+  /**
+   *
+   */
+  dark_corrected?: string
 }
 
 // Wide-format row for unified output
@@ -199,228 +423,678 @@ interface WideFormatRow {
   /**
    *
    */
-  inwater_sensor_id: string | null
+  sensors: Record<SensorKey, SensorColumns>
+  // Vehicle columns are filled by attachVehicleTelemetry after rows are created
+  /**
+   *
+   */
+  vehicle_depth_m?: number | null
+  /**
+   *
+   */
+  vehicle_latitude?: number | null
+  /**
+   *
+   */
+  vehicle_longitude?: number | null
+  /**
+   *
+   */
+  vehicle_heading_deg?: number | null
+  /**
+   *
+   */
+  vehicle_pitch_deg?: number | null
   /**
    *
    */
-  inwater_mode: string | null
+  vehicle_roll_deg?: number | null
   /**
    *
    */
-  inwater_value: string | null
+  vehicle_age_ms?: number | null // Distance in ms to the nearest datalogger point used
   /**
    *
    */
-  inwater_TempC: string | null
+  vehicle_status?: 'fresh' | 'stale' | 'missing' | null
+}
+
+// Column order of the unified CSV: the row-driving sensor first, then the sensors held against it
+/**
+ *
+ */
+interface WideFormatLayout {
   /**
    *
    */
-  inwater_Vin: string | null
+  primary: FusionSensor
   /**
    *
    */
-  surface_sensor_id: string | null
+  held: FusionSensor[]
   /**
    *
    */
-  surface_mode: string | null
+  sampledPrimary: boolean // Rows are on a fixed-rate grid, so the primary sensor gets hold-last columns too
+}
+
+// Line parser state, shared by the in-memory and streaming readers of a session.csv
+/**
+ *
+ */
+interface CsvParseState {
   /**
    *
    */
-  surface_value: string | null
+  source: string
   /**
    *
    */
-  surface_TempC: string | null
+  headerSkipped: boolean
   /**
    *
    */
-  surface_Vin: string | null
+  parseErrors: number
   /**
    *
    */
-  surface_timestamp_used: string | null // ISO timestamp of surface reading used
+  markers: ParsedSensorData['markers']
   /**
    *
    */
-  surface_age_ms: number | null // Age in ms (inwater_time - surface_time)
+  quiet: boolean // Skip per-line warnings when a file is read a second time
   /**
    *
    */
-  surface_status: 'fresh' | 'stale' | 'missing' | null
+  flashDetector: FlashDetector // Fed with every data row; its events are markers.flashes
 }
 
-// ============================================================================
-// Constants
-// ============================================================================
-
-const WIDE_FORMAT_HEADER =
-  'timestamp,inwater_sensor_id,inwater_mode,inwater_value,inwater_TempC,inwater_Vin,surface_sensor_id,surface_mode,surface_value,surface_TempC,surface_Vin,surface_timestamp_used,surface_age_ms,surface_status'
-const UNIFIED_CSV_FILENAME = 'unified_session.csv'
-
-// 50ms tolerance accounts for sensor timing jitter, serial transmission delays,
-// and slight clock skew between sensors during normal operation
-const ALIGNMENT_TOLERANCE_MS = 50
-
-const DRIFT_THRESHOLD_MS = 2 // Don't model drift if delta < 2ms (just noise)
-
-// Maximum age of surface reading to consider valid (30 seconds)
-const MAX_SURFACE_STALENESS_MS = 30000
+// Drift-corrected reading from a time-sorted session.csv stream
+/**
+ *
+ */
+interface TimedCsvRow {
+  /**
+   *
+   */
+  time: number
+  /**
+   *
+   */
+  row: CsvRow
+}
 
-// Staleness warning threshold (10 seconds)
-const SURFACE_STALENESS_WARNING_MS = 10000
+// Reading averaged over a window, weighted by how long it was held in the window (ms)
+/**
+ *
+ */
+interface WeightedCsvRow extends TimedCsvRow {
+  /**
+   *
+   */
+  weight: number
+}
 
-// Fusion mode: 'consolidated' (current) or 'inwater-driven' (new)
-const FUSION_MODE = (process.env.DEBUG_FUSION_MODE as 'consolidated' | 'inwater-driven') || 'inwater-driven'
+// Data rows of a sensor for the merge, read from its session.csv or replayed from rows sorted in memory.
+// onFraction is called with the fraction of the rows read so far.
+type FusionRowSource = (sensor: FusionSensor, onFraction?: (fraction: number) => void) => AsyncGenerator<CsvRow>
 
-// Debug logging flag
-const DEBUG_FUSION_TIMING = process.env.DEBUG_FUSION_TIMING === 'true'
+// Driving row of the merge: a primary sample, or a grid time with the primary sampled at it
+/**
+ *
+ */
+interface DrivingRow {
+  /**
+   *
+   */
+  time: number
+  /**
+   *
+   */
+  columns: SensorColumns
+}
 
-// ============================================================================
-// Main Fusion Function
-// ============================================================================
+// Reading of a held sensor attached to a primary sample by hold-last (or another sampling method)
+/**
+ *
+ */
+interface HeldReading {
+  /**
+   *
+   */
+  row: CsvRow | null
+  /**
+   *
+   */
+  timestamp_used: number | null
+  /**
+   *
+   */
+  age_ms: number | null
+  /**
+   *
+   */
+  status: 'fresh' | 'stale' | 'missing'
+}
 
-// * Fuse in-water and surface session data into a unified CSV file.
-// * Steps: read both session.csv files, tag rows by source, sort by timestamp, write unified_session.csv, update sync_metadata.
+// Dark capture and calibration snapshot applied to the columns of one sensor
 /**
  *
- * @param sessionRoot
- * @param syncMetadata
  */
-export async function fuseSessionData(sessionRoot: string, syncMetadata: SyncMetadata): Promise<FusionResult> {
-  console.log(`[QSensor Fusion] Starting fusion for ${sessionRoot}`)
+interface SensorCorrections {
+  /**
+   *
+   */
+  id: SensorKey
+  /**
+   *
+   */
+  calibration: QSensorCalibrationRecord | null
+  /**
+   *
+   */
+  dark: QSensorDarkCapture | null
+}
 
-  try {
-    // Validate inputs
-    const inWaterInfo = syncMetadata.sensors.inWater
-    const surfaceInfo = syncMetadata.sensors.surface
+// Counts gathered while writing the unified CSV
+/**
+ *
+ */
+interface FusionStats {
+  /**
+   *
+   */
+  totalRows: number
+  /**
+   *
+   */
+  sensorRows: Record<SensorKey, number>
+  /**
+   *
+   */
+  rowsWithAll: number
+  /**
+   *
+   */
+  rowsWithVehicle: number
+}
 
-    if (!inWaterInfo?.sessionCsv && !surfaceInfo?.sessionCsv) {
-      console.log(`[QSensor Fusion] No session CSVs found, skipping fusion`)
-      return {
+/**
+ * Thrown when a fusion run is aborted
+ */
+class FusionCancelledError extends Error {
+  /**
+   *
+   */
+  constructor() {
+    super('Fusion cancelled')
+    this.name = 'FusionCancelledError'
+  }
+}
+
+/**
+ * Thrown by the streaming merge when a session.csv is not sorted by (drift-corrected) time
+ */
+class UnsortedFusionInputError extends Error {
+  /**
+   *
+   * @param source - Sensor whose file is out of order
+   */
+  constructor(source: string) {
+    super(`${source} session.csv is not sorted by time`)
+    this.name = 'UnsortedFusionInputError'
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Per-sensor columns, prefixed with the sensor's column prefix. For the default pair the header is:
+// timestamp,inwater_sensor_id,...,inwater_Vin,surface_sensor_id,...,surface_Vin,surface_timestamp_used,surface_age_ms,
+// surface_status,vehicle_*,inwater_calibrated,surface_calibrated,inwater_dark_corrected,surface_dark_corrected
+const SENSOR_READING_COLUMNS = ['sensor_id', 'mode', 'value', 'TempC', 'Vin'] as const
+const HELD_SENSOR_COLUMNS = ['timestamp_used', 'age_ms', 'status'] as const
+const VEHICLE_COLUMNS = [
+  'vehicle_depth_m',
+  'vehicle_latitude',
+  'vehicle_longitude',
+  'vehicle_heading_deg',
+  'vehicle_pitch_deg',
+  'vehicle_roll_deg',
+  'vehicle_age_ms',
+  'vehicle_status',
+] as const
+const UNIFIED_CSV_FILENAME = 'unified_session.csv'
+
+// 50ms tolerance accounts for sensor timing jitter, serial transmission delays,
+// and slight clock skew between sensors during normal operation
+const ALIGNMENT_TOLERANCE_MS = 50
+
+const DRIFT_THRESHOLD_MS = 2 // Don't model drift if delta < 2ms (just noise)
+// Offset series spanning less than this cannot resolve drift better than the sync markers
+const MIN_OFFSET_SERIES_SPAN_MS = 60000
+// Light flashes of an aligned sensor and the reference pair up when this close after coarse drift correction
+const FLASH_PAIR_WINDOW_MS = 2000
+
+// Fusion mode: 'consolidated' (legacy) or 'inwater-driven'. Fusion options other than the defaults need 'inwater-driven'.
+const FUSION_MODE = (process.env.DEBUG_FUSION_MODE as 'consolidated' | 'inwater-driven') || 'inwater-driven'
+
+// Debug logging flag
+const DEBUG_FUSION_TIMING = process.env.DEBUG_FUSION_TIMING === 'true'
+
+// Unified rows are written in batches of this many bytes by the streaming merge
+const WRITE_BATCH_BYTES = 256 * 1024
+
+// Minimum interval between progress notifications
+const PROGRESS_INTERVAL_MS = 250
+
+// Abort controllers of the runs in progress, by session root, for 'qsensor:cancel-fusion'
+const activeFusions = new Map<string, Set<AbortController>>()
+
+// Forwards progress to the renderer; set by setupQSensorFusionService
+let fusionProgressListener: ((progress: FusionProgress) => void) | null = null
+
+// ============================================================================
+// Main Fusion Function
+// ============================================================================
+
+// * Fuse the session data of every recorded sensor into a unified CSV file.
+// * Steps: scan each session.csv for sync markers, align in-water sensors to the surface reference, one row per sample
+// * of the primary in-water sensor with the others held against it, write unified_session.csv, update sync_metadata.
+// * In-water-driven fusion streams the files, so memory does not grow with the session length.
+/**
+ *
+ * @param sessionRoot
+ * @param syncMetadata
+ * @param options
+ */
+export async function fuseSessionData(
+  sessionRoot: string,
+  syncMetadata: SyncMetadata,
+  options: FusionRunOptions = {}
+): Promise<FusionResult> {
+  console.log(`[QSensor Fusion] Starting fusion for ${sessionRoot}`)
+
+  // NOTE: Each run gets its own controller so 'qsensor:cancel-fusion' can abort it, chained to the caller's signal
+  const controller = new AbortController()
+  const abort = (): void => controller.abort()
+  options.signal?.addEventListener('abort', abort)
+  if (options.signal?.aborted) controller.abort()
+  const runs = activeFusions.get(sessionRoot) ?? new Set<AbortController>()
+  runs.add(controller)
+  activeFusions.set(sessionRoot, runs)
+
+  let rowsWritten = 0
+  let lastProgressAt = 0
+  const report = (phase: FusionProgress['phase'], fraction: number, force = false): void => {
+    const now = Date.now()
+    if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) return
+    lastProgressAt = now
+    const progress: FusionProgress = { sessionRoot, phase, fraction: Math.min(1, fraction), rowsWritten }
+    options.onProgress?.(progress)
+    fusionProgressListener?.(progress)
+  }
+  const checkCancelled = (): void => {
+    if (controller.signal.aborted) throw new FusionCancelledError()
+  }
+
+  try {
+    const fusionOptions = normalizeFusionOptions(options.fusion ?? syncMetadata.fusion?.options)
+    const defaultSampling = fusionOptions.method === 'hold-last' && fusionOptions.gridIntervalMs === null
+
+    // Validate inputs: sensors that produced a session.csv, in sync_metadata order
+    const recorded: FusionSensor[] = Object.entries(syncMetadata.sensors)
+      .filter(([, info]) => !!info?.sessionCsv)
+      .map(([id, info]) => ({
+        id,
+        role: resolveSensorRole(id, info),
+        name: sensorDirectoryPrefix(id),
+        columnPrefix: fusionColumnPrefix(id),
+        csvPath: path.join(sessionRoot, info!.sessionCsv!),
+      }))
+
+    if (recorded.length === 0) {
+      console.log(`[QSensor Fusion] No session CSVs found, skipping fusion`)
+      return {
         success: false,
         error: 'No session CSVs found in sync_metadata',
       }
     }
 
-    // Build full paths
-    const inWaterCsvPath = inWaterInfo?.sessionCsv ? path.join(sessionRoot, inWaterInfo.sessionCsv) : null
-    const surfaceCsvPath = surfaceInfo?.sessionCsv ? path.join(sessionRoot, surfaceInfo.sessionCsv) : null
+    for (const sensor of recorded) {
+      console.log(`[QSensor Fusion] ${sensor.name} CSV (${sensor.role}): ${sensor.csvPath}`)
+    }
 
-    console.log(`[QSensor Fusion] In-water CSV: ${inWaterCsvPath ?? 'none'}`)
-    console.log(`[QSensor Fusion] Surface CSV: ${surfaceCsvPath ?? 'none'}`)
+    // The first surface sensor is the time reference; every other sensor is aligned to it
+    const reference = recorded.find((sensor) => sensor.role === 'surface') ?? null
+    const aligned = recorded.filter((sensor) => sensor !== reference)
+    const primary = aligned.find((sensor) => sensor.role !== 'surface') ?? null
 
-    // Check if only one sensor is present
-    if (!inWaterCsvPath || !surfaceCsvPath) {
-      const activeSource = inWaterCsvPath ? 'in-water' : 'surface'
+    // Check if only one side is present
+    if (!reference || !primary) {
+      const activeSource = recorded.map((sensor) => sensor.name).join(', ')
       console.log(`[QSensor Fusion] Only ${activeSource} sensor active, skipping unified fusion`)
       return {
         success: true,
         totalRows: 0,
-        inWaterRows: inWaterCsvPath ? -1 : 0,
-        surfaceRows: surfaceCsvPath ? -1 : 0,
+        inWaterRows: primary ? -1 : 0,
+        surfaceRows: reference ? -1 : 0,
         error: `Only ${activeSource} sensor active, skipping unified fusion`,
       }
     }
 
-    // Verify both files exist
-    const inWaterExists = await fileExists(inWaterCsvPath)
-    const surfaceExists = await fileExists(surfaceCsvPath)
-
-    if (!inWaterExists) {
-      console.error(`[QSensor Fusion] In-water session.csv not found: ${inWaterCsvPath}`)
-      return {
-        success: false,
-        error: `In-water session.csv not found: ${inWaterCsvPath}`,
+    // Verify all files exist
+    for (const sensor of recorded) {
+      if (!(await fileExists(sensor.csvPath))) {
+        const sensorName = sensor.name.charAt(0).toUpperCase() + sensor.name.slice(1)
+        console.error(`[QSensor Fusion] ${sensorName} session.csv not found: ${sensor.csvPath}`)
+        return {
+          success: false,
+          error: `${sensorName} session.csv not found: ${sensor.csvPath}`,
+        }
       }
     }
 
-    if (!surfaceExists) {
-      console.error(`[QSensor Fusion] Surface session.csv not found: ${surfaceCsvPath}`)
-      return {
-        success: false,
-        error: `Surface session.csv not found: ${surfaceCsvPath}`,
+    // Held sensors follow the primary: other in-water sensors first, the reference last
+    const layout: WideFormatLayout = {
+      primary,
+      held: [...aligned.filter((sensor) => sensor !== primary), reference],
+      sampledPrimary: fusionOptions.gridIntervalMs !== null,
+    }
+    const columnSensors = [layout.primary, ...layout.held]
+    const inWaterDriven = FUSION_MODE === 'inwater-driven' || layout.held.length > 1 || !defaultSampling
+    console.log(`[QSensor Fusion] Options: ${describeFusionOptions(fusionOptions)}`)
+    const streaming = inWaterDriven && options.engine !== 'in-memory'
+
+    // Extract sync markers: a streaming scan of each file, or a full parse kept for the in-memory merge
+    let parsed: Map<SensorKey, ParsedSensorData> | null = null
+    const markers = new Map<SensorKey, ParsedSensorData['markers']>()
+    if (streaming) {
+      const sizes = await Promise.all(recorded.map(async (sensor) => (await fs.stat(sensor.csvPath)).size))
+      const totalBytes = sizes.reduce((sum, size) => sum + size, 0)
+      let scannedBytes = 0
+      report('scanning', 0, true)
+      for (const [index, sensor] of recorded.entries()) {
+        console.log(`[QSensor Fusion] Scanning ${sensor.name} CSV...`)
+        const scan = await scanCsvFile(sensor.csvPath, sensor.name, controller.signal, (bytes) =>
+          report('scanning', totalBytes > 0 ? (scannedBytes + bytes) / totalBytes : 1)
+        )
+        scannedBytes += sizes[index]
+        console.log(`[QSensor Fusion] ${sensor.name}: ${scan.rowCount} data rows`)
+        markers.set(sensor.id, scan.markers)
       }
+    } else {
+      parsed = await parseSensorFiles(recorded)
+      parsed.forEach((data, id) => markers.set(id, data.markers))
     }
+    checkCancelled()
+    const referenceMarkers = markers.get(reference.id)!
+
+    // Aligned sensors get their own drift correction
+    const driftModels = new Map<SensorKey, ComputedDriftModel | null>()
+    const intermediatePairs = new Map<SensorKey, MarkerPair[]>()
+    for (const sensor of aligned) {
+      const sensorMarkers = markers.get(sensor.id)!
+
+      // Log detected sync markers
+      logDetectedMarkers(sensor.name, sensorMarkers, referenceMarkers)
+
+      // Compute drift model from the offset series measured during recording, markers and/or time sync
+      const timeSyncOffset = syncMetadata.timeSync?.sensors?.[sensor.id]?.offsetMs ?? null
+      const seriesModel = computeSeriesDriftModel(
+        syncMetadata.timeSync?.offsetSeries?.[sensor.id],
+        syncMetadata.timeSync?.offsetSeries?.[reference.id],
+        syncMetadata.timeSync?.sensors?.[reference.id]?.offsetMs ?? null
+      )
 
-    // Parse both CSV files (extracts sync markers)
-    console.log(`[QSensor Fusion] Parsing in-water CSV...`)
-    const inWaterData = await parseCsvFile(inWaterCsvPath, 'in-water')
-    console.log(`[QSensor Fusion] In-water: ${inWaterData.rows.length} data rows`)
-
-    console.log(`[QSensor Fusion] Parsing surface CSV...`)
-    const surfaceData = await parseCsvFile(surfaceCsvPath, 'surface')
-    console.log(`[QSensor Fusion] Surface: ${surfaceData.rows.length} data rows`)
-
-    // Log detected sync markers
-    logDetectedMarkers(inWaterData.markers, surfaceData.markers)
-
-    // Compute drift model from markers and/or time sync
-    const driftModel = computeDriftModel(inWaterData.markers, surfaceData.markers, syncMetadata)
+      // Intermediate markers: injected during recording (paired by syncId) and shared light flashes
+      // (paired once the coarse model has brought the two clocks close)
+      const coarseModel = seriesModel ?? computeDriftModel(sensorMarkers, referenceMarkers, timeSyncOffset)
+      const pairs = [
+        ...pairPeriodicMarkers(sensorMarkers, referenceMarkers),
+        ...pairFlashEvents(sensorMarkers.flashes, referenceMarkers.flashes, coarseModel),
+      ]
+      intermediatePairs.set(sensor.id, pairs)
 
-    // Log drift model decision
-    logDriftModel(driftModel, syncMetadata)
+      // Markers measured during the dive beat the offset series; otherwise the series beats START/STOP
+      const markerModel = computeDriftModel(sensorMarkers, referenceMarkers, timeSyncOffset, pairs)
+      const driftModel = markerModel?.type === 'piecewise' ? markerModel : seriesModel ?? markerModel
 
-    // Build row maps for fast lookup with drift correction
-    const inWaterMap = buildRowMapWithDrift(inWaterData.rows, driftModel)
-    const surfaceMap = buildRowMap(surfaceData.rows, 0)
+      // Log drift model decision
+      logDriftModel(sensor.name, driftModel)
 
-    // Update sync_metadata with markers and drift model
-    await updateSyncMetadataWithDriftInfo(sessionRoot, inWaterData.markers, surfaceData.markers, driftModel)
+      driftModels.set(sensor.id, driftModel)
+    }
 
-    // Create wide-format aligned rows based on fusion mode
-    let wideRows: WideFormatRow[]
+    // Update sync_metadata with markers and drift models
+    await updateSyncMetadataWithDriftInfo(
+      sessionRoot,
+      referenceMarkers,
+      aligned.map((sensor) => ({
+        id: sensor.id,
+        markers: markers.get(sensor.id)!,
+        intermediate: intermediatePairs.get(sensor.id) ?? [],
+        driftModel: driftModels.get(sensor.id) ?? null,
+      }))
+    )
 
-    if (FUSION_MODE === 'inwater-driven') {
-      console.log(`[QSensor Fusion] Using in-water-driven fusion mode`)
-      wideRows = createInWaterDrivenRows(inWaterMap, surfaceMap, MAX_SURFACE_STALENESS_MS)
+    // Georeference rows with vehicle telemetry exported from the Cockpit datalogger (if any)
+    const vehicleSamples = (await loadVehicleTelemetry(sessionRoot)) ?? []
+    if (vehicleSamples.length > 0) {
+      console.log(`[QSensor Fusion] Vehicle telemetry: ${vehicleSamples.length} datalogger points`)
     } else {
-      console.log(`[QSensor Fusion] Using consolidated timestamp axis fusion mode`)
-      // Build timestamp axis from both sensors using drift model (only for consolidated mode)
-      const timestampAxis = buildConsolidatedTimestampAxis(inWaterData.rows, surfaceData.rows, driftModel)
-      console.log(`[QSensor Fusion] Timestamp axis: ${timestampAxis.length} consolidated timestamps`)
-      wideRows = createWideFormatRows(timestampAxis, inWaterMap, surfaceMap, ALIGNMENT_TOLERANCE_MS)
+      console.log(`[QSensor Fusion] No vehicle telemetry found, vehicle columns will be empty`)
     }
 
-    console.log(`[QSensor Fusion] Wide-format rows: ${wideRows.length} total`)
-
-    // Count rows with data from each sensor and alignment statistics
-    let rowsWithInWater = 0
-    let rowsWithSurface = 0
-    let rowsWithBoth = 0
-    for (const row of wideRows) {
-      const hasInWater = row.inwater_value !== null
-      const hasSurface = row.surface_value !== null
-      if (hasInWater) rowsWithInWater++
-      if (hasSurface) rowsWithSurface++
-      if (hasInWater && hasSurface) rowsWithBoth++
-    }
-    const unmatched = wideRows.length - rowsWithBoth
+    // Subtract the dark captured for each sensor and convert raw values to engineering units (if recorded)
+    const corrections = resolveSensorCorrections(syncMetadata, columnSensors)
 
-    // Write unified CSV in wide format
     const unifiedCsvPath = path.join(sessionRoot, UNIFIED_CSV_FILENAME)
-    await writeWideFormatCsv(unifiedCsvPath, wideRows)
+    let stats: FusionStats | null = null
+
+    if (streaming) {
+      console.log(`[QSensor Fusion] Using streaming in-water-driven fusion mode (primary: ${primary.name})`)
+      try {
+        stats = await streamInWaterDrivenFusion(
+          unifiedCsvPath,
+          layout,
+          fileRowSource(controller.signal),
+          driftModels,
+          vehicleSamples,
+          corrections,
+          fusionOptions,
+          controller.signal,
+          (fraction, rows) => {
+            rowsWritten = rows
+            report('merging', fraction)
+          }
+        )
+      } catch (error: any) {
+        if (!(error instanceof UnsortedFusionInputError)) throw error
+        // NOTE: Sampling needs time-sorted inputs; sort in memory rather than produce different rows
+        console.warn(`[QSensor Fusion] ${error.message}, falling back to in-memory fusion`)
+        parsed = await parseSensorFiles(recorded)
+      }
+    }
+
+    if (!stats && !defaultSampling) {
+      // Sampling methods other than hold-last only exist in the merge, fed with the rows sorted in memory
+      report('merging', 0, true)
+      stats = await streamInWaterDrivenFusion(
+        unifiedCsvPath,
+        layout,
+        sortedRowSource(parsed!, driftModels),
+        driftModels,
+        vehicleSamples,
+        corrections,
+        fusionOptions,
+        controller.signal,
+        (fraction, rows) => {
+          rowsWritten = rows
+          report('merging', fraction)
+        }
+      )
+    } else if (!stats) {
+      report('merging', 0, true)
+      stats = await fuseInMemory(
+        unifiedCsvPath,
+        layout,
+        reference,
+        parsed!,
+        driftModels,
+        vehicleSamples,
+        corrections,
+        fusionOptions,
+        inWaterDriven
+      )
+    }
+    rowsWritten = stats.totalRows
+    const { sensorRows, rowsWithAll, rowsWithVehicle } = stats
 
     console.log(`[QSensor Fusion] ✓ Created ${unifiedCsvPath}`)
-    console.log(`[QSensor Fusion] ✓ Alignment: ${rowsWithBoth} matched both sensors, ${unmatched} unmatched`)
     console.log(
-      `[QSensor Fusion] ✓ Summary: in-water=${rowsWithInWater}, surface=${rowsWithSurface}, total=${wideRows.length}`
+      `[QSensor Fusion] ✓ Alignment: ${rowsWithAll} matched all sensors, ${stats.totalRows - rowsWithAll} unmatched`
+    )
+    console.log(
+      `[QSensor Fusion] ✓ Summary: ${columnSensors
+        .map((sensor) => `${sensor.name}=${sensorRows[sensor.id]}`)
+        .join(', ')}, total=${stats.totalRows}`
     )
+    console.log(`[QSensor Fusion] ✓ Georeferenced: ${rowsWithVehicle} rows with vehicle telemetry`)
+
+    // Post-fusion light profile (casts, depth bins, Kd). Needs vehicle depth, and never fails fusion.
+    if (rowsWithVehicle > 0) {
+      try {
+        await analyzeSessionProfile(sessionRoot, unifiedCsvPath, {
+          inWaterColumn: `${primary.columnPrefix}_value`,
+          surfaceColumn: `${reference.columnPrefix}_value`,
+        })
+      } catch (error: any) {
+        console.warn(`[QSensor Fusion] Profile analysis failed: ${error.message}`)
+      }
+    }
+
+    // Post-fusion quality control flags and report, with the thresholds of the previous run. Never fails fusion.
+    try {
+      await runSessionQc(sessionRoot, unifiedCsvPath, syncMetadata.qc?.thresholds)
+    } catch (error: any) {
+      console.warn(`[QSensor Fusion] Quality control failed: ${error.message}`)
+    }
 
+    report('complete', 1, true)
     return {
       success: true,
       unifiedCsvPath,
-      totalRows: wideRows.length,
-      inWaterRows: rowsWithInWater,
-      surfaceRows: rowsWithSurface,
+      totalRows: stats.totalRows,
+      inWaterRows: sensorRows[primary.id],
+      surfaceRows: sensorRows[reference.id],
+      vehicleRows: rowsWithVehicle,
+      sensorRows,
+      options: fusionOptions,
     }
   } catch (error: any) {
+    if (error instanceof FusionCancelledError) {
+      console.log(`[QSensor Fusion] Fusion cancelled for ${sessionRoot}`)
+      report('cancelled', 0, true)
+      return { success: false, cancelled: true, error: error.message }
+    }
     console.error(`[QSensor Fusion] Fusion failed:`, error)
+    report('failed', 0, true)
     return {
       success: false,
       error: error.message || 'Unknown fusion error',
     }
+  } finally {
+    options.signal?.removeEventListener('abort', abort)
+    runs.delete(controller)
+    if (runs.size === 0) activeFusions.delete(sessionRoot)
+  }
+}
+
+// * Fuse with every row in memory: required by consolidated mode, and used for hold-last on files not sorted by time.
+/**
+ *
+ * @param unifiedCsvPath
+ * @param layout
+ * @param reference
+ * @param parsed
+ * @param driftModels
+ * @param vehicleSamples
+ * @param corrections
+ * @param fusionOptions
+ * @param inWaterDriven
+ */
+async function fuseInMemory(
+  unifiedCsvPath: string,
+  layout: WideFormatLayout,
+  reference: FusionSensor,
+  parsed: Map<SensorKey, ParsedSensorData>,
+  driftModels: Map<SensorKey, ComputedDriftModel | null>,
+  vehicleSamples: VehicleTelemetrySample[],
+  corrections: SensorCorrections[],
+  fusionOptions: QSensorFusionOptions,
+  inWaterDriven: boolean
+): Promise<FusionStats> {
+  const { primary } = layout
+  const columnSensors = [primary, ...layout.held]
+
+  // Build row maps for fast lookup; aligned sensors get their own drift correction
+  const rowMaps = new Map<SensorKey, Map<number, CsvRow>>()
+  for (const sensor of columnSensors) {
+    const rows = parsed.get(sensor.id)!.rows
+    rowMaps.set(
+      sensor.id,
+      sensor === reference ? buildRowMap(rows, 0) : buildRowMapWithDrift(rows, driftModels.get(sensor.id) ?? null)
+    )
+  }
+
+  // Create wide-format aligned rows based on fusion mode
+  let wideRows: WideFormatRow[]
+
+  if (inWaterDriven) {
+    if (FUSION_MODE !== 'inwater-driven') {
+      console.log(`[QSensor Fusion] Consolidated mode supports one in-water sensor, falling back`)
+    }
+    console.log(`[QSensor Fusion] Using in-water-driven fusion mode (primary: ${primary.name})`)
+    wideRows = createInWaterDrivenRows(
+      { id: primary.id, rows: rowMaps.get(primary.id)! },
+      layout.held.map((sensor) => ({ id: sensor.id, rows: rowMaps.get(sensor.id)! })),
+      fusionOptions
+    )
+  } else {
+    console.log(`[QSensor Fusion] Using consolidated timestamp axis fusion mode`)
+    // Build timestamp axis from both sensors using drift model (only for consolidated mode)
+    const timestampAxis = buildConsolidatedTimestampAxis(
+      parsed.get(primary.id)!.rows,
+      parsed.get(reference.id)!.rows,
+      driftModels.get(primary.id) ?? null
+    )
+    console.log(`[QSensor Fusion] Timestamp axis: ${timestampAxis.length} consolidated timestamps`)
+    wideRows = createWideFormatRows(
+      timestampAxis,
+      { id: primary.id, rows: rowMaps.get(primary.id)! },
+      { id: reference.id, rows: rowMaps.get(reference.id)! },
+      ALIGNMENT_TOLERANCE_MS
+    )
+  }
+
+  console.log(`[QSensor Fusion] Wide-format rows: ${wideRows.length} total`)
+
+  const rowsWithVehicle = attachVehicleTelemetry(wideRows, vehicleSamples, MAX_VEHICLE_STALENESS_MS)
+  attachCalibratedValues(wideRows, corrections)
+
+  // Count rows with data from each sensor and alignment statistics
+  const sensorRows: Record<SensorKey, number> = {}
+  for (const sensor of columnSensors) {
+    sensorRows[sensor.id] = wideRows.filter((row) => hasSensorValue(row, sensor.id)).length
   }
+  const rowsWithAll = wideRows.filter((row) => columnSensors.every((sensor) => hasSensorValue(row, sensor.id))).length
+
+  // Write unified CSV in wide format
+  await writeWideFormatCsv(unifiedCsvPath, wideRows, layout)
+
+  return { totalRows: wideRows.length, sensorRows, rowsWithAll, rowsWithVehicle }
 }
 
 // ============================================================================
@@ -439,83 +1113,217 @@ async function parseCsvFile(csvPath: string, source: string): Promise<ParsedSens
   const content = await fs.readFile(csvPath, 'utf-8')
   const lines = content.split('\n')
   const rows: CsvRow[] = []
-  const markers: ParsedSensorData['markers'] = {}
-
-  let headerSkipped = false
-  let parseErrors = 0
+  const state = createCsvParseState(source)
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (line === '') continue
-
-    // NOTE: Skip header line
-    if (!headerSkipped) {
-      if (line.includes('timestamp') || line.includes('sensor_id')) {
-        headerSkipped = true
-        continue
-      }
-    }
+    const row = parseCsvLine(lines[i], i + 1, state)
+    if (row) rows.push(row)
+  }
 
-    // Parse CSV row
-    const parts = line.split(',')
-    if (parts.length < 4) {
-      parseErrors++
-      continue
+  logCsvParseErrors(state)
+  return { rows, markers: state.markers }
+}
+
+// * Parse every sensor's session.csv into memory
+/**
+ *
+ * @param sensors
+ */
+async function parseSensorFiles(sensors: FusionSensor[]): Promise<Map<SensorKey, ParsedSensorData>> {
+  const parsed = new Map<SensorKey, ParsedSensorData>()
+  for (const sensor of sensors) {
+    console.log(`[QSensor Fusion] Parsing ${sensor.name} CSV...`)
+    const data = await parseCsvFile(sensor.csvPath, sensor.name)
+    console.log(`[QSensor Fusion] ${sensor.name}: ${data.rows.length} data rows`)
+    parsed.set(sensor.id, data)
+  }
+  return parsed
+}
+
+/**
+ *
+ * @param source
+ * @param quiet
+ */
+function createCsvParseState(source: string, quiet = false): CsvParseState {
+  const flashDetector = new FlashDetector()
+  return {
+    source,
+    headerSkipped: false,
+    parseErrors: 0,
+    markers: { periodic: [], flashes: flashDetector.events },
+    quiet,
+    flashDetector,
+  }
+}
+
+/**
+ *
+ * @param state
+ */
+function logCsvParseErrors(state: CsvParseState): void {
+  if (state.parseErrors > 0 && !state.quiet) {
+    console.warn(`[QSensor Fusion] ${state.source}: ${state.parseErrors} rows skipped due to parse errors`)
+  }
+}
+
+/**
+ * Parse one line of a session.csv. Sync markers are stored in the state instead of returned,
+ * so the last SYNC_START and SYNC_STOP of the file win. Data rows also feed the state's flash detector.
+ * @param rawLine - Line without its newline
+ * @param lineNumber - 1-based line number, for warnings
+ * @param state - Parser state of the file
+ * @returns Data row, or null for headers, markers, gaps and unparseable lines
+ */
+function parseCsvLine(rawLine: string, lineNumber: number, state: CsvParseState): CsvRow | null {
+  const line = rawLine.trim()
+  if (line === '') return null
+
+  // NOTE: Skip header line
+  if (!state.headerSkipped) {
+    if (line.includes('timestamp') || line.includes('sensor_id')) {
+      state.headerSkipped = true
+      return null
     }
+  }
 
-    const timestamp = parts[0]
-    const sensor_id = parts[1]
-    const mode = parts[2]
-    const value = parts[3]
-    const TempC = parts[4] ?? ''
-    const Vin = parts[5] ?? ''
-
-    // NOTE: Parse timestamp for sorting
-    const parsedTime = new Date(timestamp).getTime()
-    if (isNaN(parsedTime)) {
-      parseErrors++
-      if (parseErrors <= 5) {
-        console.warn(`[QSensor Fusion] Unparseable timestamp in ${source}: "${timestamp}" (line ${i + 1})`)
-      }
-      continue
+  // Parse CSV row
+  const parts = line.split(',')
+  if (parts.length < 4) {
+    state.parseErrors++
+    return null
+  }
+
+  const timestamp = parts[0]
+  const sensor_id = parts[1]
+  const mode = parts[2]
+  const value = parts[3]
+  const TempC = parts[4] ?? ''
+  const Vin = parts[5] ?? ''
+
+  // NOTE: Parse timestamp for sorting
+  const parsedTime = new Date(timestamp).getTime()
+  if (isNaN(parsedTime)) {
+    state.parseErrors++
+    if (state.parseErrors <= 5 && !state.quiet) {
+      console.warn(`[QSensor Fusion] Unparseable timestamp in ${state.source}: "${timestamp}" (line ${lineNumber})`)
     }
+    return null
+  }
 
-    // Check for sync markers - extract and don't include in data rows
-    if (mode === 'SYNC_START') {
-      markers.start = {
-        type: 'START',
-        timestamp: parsedTime,
-        syncId: value, // syncId stored in value field
-      }
-      continue // Don't add marker to data rows
+  // Check for sync markers - extract and don't include in data rows
+  if (mode === 'SYNC_START') {
+    state.markers.start = {
+      type: 'START',
+      timestamp: parsedTime,
+      syncId: value, // syncId stored in value field
     }
+    return null
+  }
 
-    if (mode === 'SYNC_STOP') {
-      markers.stop = {
-        type: 'STOP',
-        timestamp: parsedTime,
-        syncId: value,
-      }
-      continue // Don't add marker to data rows
+  if (mode === 'SYNC_STOP') {
+    state.markers.stop = {
+      type: 'STOP',
+      timestamp: parsedTime,
+      syncId: value,
     }
+    return null
+  }
 
-    rows.push({
-      timestamp,
-      sensor_id,
-      mode,
-      value,
-      TempC,
-      Vin,
-      source,
-      _parsedTime: parsedTime,
+  if (mode === 'SYNC_PERIODIC') {
+    state.markers.periodic.push({
+      type: 'PERIODIC',
+      timestamp: parsedTime,
+      syncId: value,
     })
+    return null
+  }
+
+  // NOTE: GAP rows mark a serial disconnect in the local recording; they carry no reading
+  if (mode === 'GAP') {
+    return null
+  }
+
+  state.flashDetector.add(parsedTime, parseFloat(value))
+
+  return {
+    timestamp,
+    sensor_id,
+    mode,
+    value,
+    TempC,
+    Vin,
+    source: state.source,
+    _parsedTime: parsedTime,
   }
+}
+
+/**
+ * Read the data rows of a session.csv one at a time. Lines are split on '\n' only, like parseCsvFile.
+ * @param csvPath - session.csv path
+ * @param state - Parser state; holds the markers once the file has been read
+ * @param signal - Aborts the read between chunks
+ * @param onBytes - Called with the bytes read so far after each chunk
+ * @yields {CsvRow} Data rows in file order
+ */
+async function* readCsvRows(
+  csvPath: string,
+  state: CsvParseState,
+  signal: AbortSignal,
+  onBytes?: (bytes: number) => void
+): AsyncGenerator<CsvRow> {
+  const stream = createReadStream(csvPath, { encoding: 'utf-8' })
+  let pending = ''
+  let lineNumber = 0
 
-  if (parseErrors > 0) {
-    console.warn(`[QSensor Fusion] ${source}: ${parseErrors} rows skipped due to parse errors`)
+  try {
+    for await (const chunk of stream) {
+      if (signal.aborted) throw new FusionCancelledError()
+      const lines = (pending + chunk).split('\n')
+      pending = lines.pop()!
+      for (const line of lines) {
+        const row = parseCsvLine(line, ++lineNumber, state)
+        if (row) yield row
+      }
+      onBytes?.(stream.bytesRead)
+    }
+    const row = parseCsvLine(pending, ++lineNumber, state)
+    if (row) yield row
+  } finally {
+    stream.destroy()
   }
+}
 
-  return { rows, markers }
+/**
+ * Read a session.csv for its sync markers without keeping the rows.
+ * @param csvPath - session.csv path
+ * @param source - Sensor name, for logs
+ * @param signal - Aborts the scan
+ * @param onBytes - Called with the bytes read so far
+ * @returns Markers and number of data rows
+ */
+async function scanCsvFile(
+  csvPath: string,
+  source: string,
+  signal: AbortSignal,
+  onBytes: (bytes: number) => void
+): Promise<{
+  /**
+   *
+   */
+  markers: ParsedSensorData['markers']
+  /**
+   *
+   */
+  rowCount: number
+}> {
+  const state = createCsvParseState(source)
+  let rowCount = 0
+  for await (const _row of readCsvRows(csvPath, state, signal, onBytes)) {
+    rowCount++
+  }
+  logCsvParseErrors(state)
+  return { markers: state.markers, rowCount }
 }
 
 // ============================================================================
@@ -526,6 +1334,203 @@ async function parseCsvFile(csvPath: string, source: string): Promise<ParsedSens
 // Drift Model Strategy Helpers
 // ============================================================================
 
+/**
+ * Strategy 0: Compute the drift model from the clock offsets measured during recording (drift tracking).
+ * Used instead of the markers when the series spans enough time to resolve drift.
+ * Series offsets are relative to the topside clock, so the reference's own series is subtracted; a
+ * reference that was time-synced but not tracked runs on a Pi clock and the series cannot be used.
+ * @param sensorSeries - Offset series of the aligned sensor
+ * @param referenceSeries - Offset series of the surface reference, if tracked
+ * @param referenceTimeSyncOffset - One-off time sync offset of the surface reference, if measured
+ */
+function computeSeriesDriftModel(
+  sensorSeries: ClockOffsetSample[] | undefined,
+  referenceSeries: ClockOffsetSample[] | undefined,
+  referenceTimeSyncOffset: number | null
+): ComputedDriftModel | null {
+  const sensorFit = fitClockDrift(sensorSeries ?? [])
+  if (!sensorFit || sensorFit.sampleCount < 2 || sensorFit.spanMs < MIN_OFFSET_SERIES_SPAN_MS) {
+    return null
+  }
+
+  const referenceFit = fitClockDrift(referenceSeries ?? [])
+  if (!referenceFit && referenceTimeSyncOffset !== null) {
+    console.warn('[QSensor Fusion] Reference clock was not tracked; ignoring offset series')
+    return null
+  }
+
+  const startTime = Date.parse(sensorFit.referenceTime)
+  const endTime = startTime + sensorFit.spanMs
+  const offsetAt = (topsideTime: number): number =>
+    clockOffsetAt(sensorFit, topsideTime) - (referenceFit ? clockOffsetAt(referenceFit, topsideTime) : 0)
+  const startOffset = offsetAt(startTime)
+  const endOffset = offsetAt(endTime)
+
+  const spanMinutes = (sensorFit.spanMs / 60000).toFixed(1)
+  console.log(`[QSensor Fusion] Using offset series: ${sensorFit.sampleCount} samples over ${spanMinutes} min`)
+
+  if (Math.abs(endOffset - startOffset) < DRIFT_THRESHOLD_MS) {
+    return { type: 'constant', startOffsetMs: (startOffset + endOffset) / 2 }
+  }
+
+  return {
+    type: 'linear',
+    startOffsetMs: startOffset,
+    endOffsetMs: endOffset,
+    driftRatePerMs: (endOffset - startOffset) / sensorFit.spanMs,
+    inWaterStartTime: startTime + clockOffsetAt(sensorFit, startTime), // Series start on the sensor clock
+  }
+}
+
+/**
+ * Pair the markers injected during recording by their syncId.
+ * @param sensorMarkers - Markers of the aligned sensor
+ * @param referenceMarkers - Markers of the surface reference
+ * @returns Pairs, in sensor file order
+ */
+function pairPeriodicMarkers(
+  sensorMarkers: ParsedSensorData['markers'],
+  referenceMarkers: ParsedSensorData['markers']
+): MarkerPair[] {
+  const referenceById = new Map<string, ExtractedMarker>()
+  for (const marker of referenceMarkers.periodic) {
+    if (!referenceById.has(marker.syncId)) referenceById.set(marker.syncId, marker)
+  }
+
+  const pairs: MarkerPair[] = []
+  for (const marker of sensorMarkers.periodic) {
+    const referenceMarker = referenceById.get(marker.syncId)
+    if (!referenceMarker) continue
+    referenceById.delete(marker.syncId)
+    pairs.push({
+      type: 'PERIODIC',
+      syncId: marker.syncId,
+      sensorTime: marker.timestamp,
+      referenceTime: referenceMarker.timestamp,
+    })
+  }
+
+  const unpaired = sensorMarkers.periodic.length - pairs.length
+  if (unpaired > 0) {
+    console.warn(`[QSensor Fusion] ${unpaired} injected marker(s) have no match on the reference and are ignored`)
+  }
+  return pairs
+}
+
+/**
+ * Pair the light flashes of an aligned sensor with those of the reference.
+ * A pair needs the two flashes to be each other's nearest within FLASH_PAIR_WINDOW_MS once the sensor
+ * time is corrected with the coarse model, so a shadow on one sensor only is never paired.
+ * @param sensorFlashes - Flashes of the aligned sensor (sensor clock)
+ * @param referenceFlashes - Flashes of the reference
+ * @param coarseModel - Drift model from START/STOP, the offset series or time sync
+ * @returns Pairs, in time order
+ */
+function pairFlashEvents(
+  sensorFlashes: FlashEvent[],
+  referenceFlashes: FlashEvent[],
+  coarseModel: ComputedDriftModel | null
+): MarkerPair[] {
+  const nearest = (time: number, candidates: number[]): number => {
+    let best = -1
+    for (const [index, candidate] of candidates.entries()) {
+      if (best === -1 || Math.abs(candidate - time) < Math.abs(candidates[best] - time)) best = index
+    }
+    return best
+  }
+
+  const corrected = sensorFlashes.map((flash) => correctTimestamp(flash.time, coarseModel))
+  const referenceTimes = referenceFlashes.map((flash) => flash.time)
+  const pairs: MarkerPair[] = []
+  for (const [index, time] of corrected.entries()) {
+    const match = nearest(time, referenceTimes)
+    if (match === -1 || Math.abs(referenceTimes[match] - time) > FLASH_PAIR_WINDOW_MS) continue
+    if (nearest(referenceTimes[match], corrected) !== index) continue
+    pairs.push({
+      type: 'FLASH',
+      syncId: `flash-${pairs.length + 1}`,
+      sensorTime: sensorFlashes[index].time,
+      referenceTime: referenceTimes[match],
+    })
+  }
+
+  if (sensorFlashes.length > 0 || referenceFlashes.length > 0) {
+    console.log(
+      `[QSensor Fusion] Light flashes: ${sensorFlashes.length} on sensor, ${referenceFlashes.length} on reference, ${pairs.length} paired`
+    )
+  }
+  return pairs
+}
+
+/**
+ * Strategy P: Fit piecewise-linear drift through every marker both clocks saw: START, STOP and the
+ * intermediate ones. Needs at least one intermediate marker and two markers in all.
+ * @param inWaterMarkers - Markers of the aligned sensor
+ * @param surfaceMarkers - Markers of the surface reference
+ * @param intermediate - Paired markers injected or detected during the recording
+ */
+function computePiecewiseDriftModel(
+  inWaterMarkers: ParsedSensorData['markers'],
+  surfaceMarkers: ParsedSensorData['markers'],
+  intermediate: MarkerPair[]
+): ComputedDriftModel | null {
+  if (intermediate.length === 0) return null
+
+  const knots = [...intermediate]
+  for (const type of ['START', 'STOP'] as const) {
+    const sensorMarker = type === 'START' ? inWaterMarkers.start : inWaterMarkers.stop
+    const referenceMarker = type === 'START' ? surfaceMarkers.start : surfaceMarkers.stop
+    if (sensorMarker && referenceMarker) {
+      knots.push({
+        type,
+        syncId: referenceMarker.syncId,
+        sensorTime: sensorMarker.timestamp,
+        referenceTime: referenceMarker.timestamp,
+      })
+    }
+  }
+
+  // NOTE: Two markers at the same sensor time would make a vertical segment; the first one is kept
+  knots.sort((a, b) => a.sensorTime - b.sensorTime)
+  const distinct = knots.filter((knot, index) => index === 0 || knot.sensorTime !== knots[index - 1].sensorTime)
+  if (distinct.length < 2) return null
+
+  const first = distinct[0]
+  const last = distinct[distinct.length - 1]
+  const startOffset = first.sensorTime - first.referenceTime
+  const endOffset = last.sensorTime - last.referenceTime
+  return {
+    type: 'piecewise',
+    startOffsetMs: startOffset,
+    endOffsetMs: endOffset,
+    driftRatePerMs: (endOffset - startOffset) / (last.sensorTime - first.sensorTime),
+    inWaterStartTime: first.sensorTime,
+    knots: distinct,
+  }
+}
+
+/**
+ * Offset of a piecewise model at a sensor time: interpolated between the surrounding markers, and
+ * extrapolated along the first or last segment outside them (like the linear model).
+ * @param knots - Markers sorted by sensor time (at least 2)
+ * @param sensorTime - Sensor time to correct
+ */
+function piecewiseOffsetAt(knots: MarkerPair[], sensorTime: number): number {
+  let low = 0
+  let high = knots.length - 2
+  while (low < high) {
+    const middle = (low + high + 1) >> 1
+    if (knots[middle].sensorTime <= sensorTime) low = middle
+    else high = middle - 1
+  }
+
+  const a = knots[low]
+  const b = knots[low + 1]
+  const offsetA = a.sensorTime - a.referenceTime
+  const offsetB = b.sensorTime - b.referenceTime
+  return offsetA + ((offsetB - offsetA) * (sensorTime - a.sensorTime)) / (b.sensorTime - a.sensorTime)
+}
+
 /**
  * Strategy A: Compute linear drift model when both sensors have START+STOP markers.
  * Falls back to constant offset if drift delta is below threshold.
@@ -637,13 +1642,15 @@ function computeZeroDriftFallback(timeSyncOffset: number | null): ComputedDriftM
   return null
 }
 
-// * Log detected sync markers from both sensors
+// * Log detected sync markers of an aligned sensor and the surface reference
 /**
  *
+ * @param sensorName
  * @param inWaterMarkers
  * @param surfaceMarkers
  */
 function logDetectedMarkers(
+  sensorName: string,
   inWaterMarkers: ParsedSensorData['markers'],
   surfaceMarkers: ParsedSensorData['markers']
 ): void {
@@ -660,40 +1667,45 @@ function logDetectedMarkers(
   )
 
   if (inWaterStatus.length > 0) {
-    console.log(`[QSensor Fusion] In-water markers: ${inWaterStatus.join('+')}=measured`)
+    console.log(`[QSensor Fusion] ${sensorName} markers: ${inWaterStatus.join('+')}=measured`)
   } else {
-    console.log(`[QSensor Fusion] In-water markers: synthetic (derived from time sync)`)
+    console.log(`[QSensor Fusion] ${sensorName} markers: synthetic (derived from time sync)`)
     console.log(`[QSensor Fusion] Warning: Synthetic markers assume stable Pi clock during recording`)
   }
 
   if (surfaceMarkers.start && inWaterMarkers.start) {
     const match = surfaceMarkers.start.syncId === inWaterMarkers.start.syncId ? 'MATCH' : 'MISMATCH'
     console.log(
-      `[QSensor Fusion] START syncId ${match}: surface=${surfaceMarkers.start.syncId}, in-water=${inWaterMarkers.start.syncId}`
+      `[QSensor Fusion] START syncId ${match}: surface=${surfaceMarkers.start.syncId}, ${sensorName}=${inWaterMarkers.start.syncId}`
     )
   }
 
   if (surfaceMarkers.stop && inWaterMarkers.stop) {
     const match = surfaceMarkers.stop.syncId === inWaterMarkers.stop.syncId ? 'MATCH' : 'MISMATCH'
     console.log(
-      `[QSensor Fusion] STOP syncId ${match}: surface=${surfaceMarkers.stop.syncId}, in-water=${inWaterMarkers.stop.syncId}`
+      `[QSensor Fusion] STOP syncId ${match}: surface=${surfaceMarkers.stop.syncId}, ${sensorName}=${inWaterMarkers.stop.syncId}`
     )
   }
 }
 
 /**
- * Compute drift model from sync markers and/or time sync metadata.
+ * Compute the drift model of an aligned sensor from sync markers and/or its time sync offset.
  * Delegates to strategy helpers based on available markers.
- * @param inWaterMarkers
- * @param surfaceMarkers
- * @param syncMetadata
+ * @param inWaterMarkers - Markers of the aligned sensor
+ * @param surfaceMarkers - Markers of the surface reference
+ * @param timeSyncOffset - Measured clock offset of the aligned sensor, if any
+ * @param intermediate - Paired markers injected or detected between START and STOP
  */
 function computeDriftModel(
   inWaterMarkers: ParsedSensorData['markers'],
   surfaceMarkers: ParsedSensorData['markers'],
-  syncMetadata: SyncMetadata
+  timeSyncOffset: number | null,
+  intermediate: MarkerPair[] = []
 ): ComputedDriftModel | null {
-  const timeSyncOffset = syncMetadata.timeSync?.inWater?.offsetMs ?? null
+  // Case P: markers during the recording → piecewise-linear drift through all markers
+  const piecewise = computePiecewiseDriftModel(inWaterMarkers, surfaceMarkers, intermediate)
+  if (piecewise) return piecewise
+
   const hasSurfaceStart = !!surfaceMarkers.start
   const hasSurfaceStop = !!surfaceMarkers.stop
   const hasInWaterStart = !!inWaterMarkers.start
@@ -736,22 +1748,27 @@ function computeDriftModel(
 // * Log the drift model decision
 /**
  *
+ * @param sensorName
  * @param driftModel
- * @param _syncMetadata
  */
-function logDriftModel(driftModel: ComputedDriftModel | null, _syncMetadata: SyncMetadata): void {
+function logDriftModel(sensorName: string, driftModel: ComputedDriftModel | null): void {
   if (!driftModel) {
-    console.log(`[QSensor Fusion] Warning: No time sync data available, timestamps will not be corrected`)
+    console.log(`[QSensor Fusion] Warning: No time sync data for ${sensorName}, timestamps will not be corrected`)
     return
   }
 
   if (driftModel.type === 'constant') {
-    console.log(`[QSensor Fusion] Using constant offset model: ${driftModel.startOffsetMs.toFixed(1)}ms`)
+    console.log(`[QSensor Fusion] ${sensorName}: constant offset model: ${driftModel.startOffsetMs.toFixed(1)}ms`)
+  } else if (driftModel.type === 'piecewise') {
+    console.log(
+      `[QSensor Fusion] ${sensorName}: piecewise drift model through ${driftModel.knots!.length} markers: ` +
+        `start=${driftModel.startOffsetMs.toFixed(1)}ms, end=${driftModel.endOffsetMs!.toFixed(1)}ms`
+    )
   } else {
     const driftRateMsPerMin = (driftModel.driftRatePerMs ?? 0) * 60000
     const endOffset = driftModel.endOffsetMs !== undefined ? driftModel.endOffsetMs.toFixed(1) : '?'
     console.log(
-      `[QSensor Fusion] Using linear drift model: start=${driftModel.startOffsetMs.toFixed(1)}ms, ` +
+      `[QSensor Fusion] ${sensorName}: linear drift model: start=${driftModel.startOffsetMs.toFixed(1)}ms, ` +
         `end=${endOffset}ms, drift=${driftRateMsPerMin.toFixed(3)}ms/min`
     )
   }
@@ -772,6 +1789,10 @@ function correctTimestamp(inWaterTime: number, driftModel: ComputedDriftModel |
     return inWaterTime - driftModel.startOffsetMs
   }
 
+  if (driftModel.type === 'piecewise' && driftModel.knots) {
+    return inWaterTime - piecewiseOffsetAt(driftModel.knots, inWaterTime)
+  }
+
   // Linear drift: offset(t) = startOffset + driftRate * (t - t_start)
   if (!driftModel.inWaterStartTime || !driftModel.driftRatePerMs) {
     return inWaterTime - driftModel.startOffsetMs
@@ -782,64 +1803,116 @@ function correctTimestamp(inWaterTime: number, driftModel: ComputedDriftModel |
   return inWaterTime - currentOffset
 }
 
-// * Update sync_metadata.json with sync markers and drift model info
+// * Build the markers pairing an aligned sensor with the surface reference: START/STOP, then the
+// * injected and light-flash markers both clocks saw
 /**
  *
- * @param sessionRoot
+ * @param sensorId
  * @param inWaterMarkers
  * @param surfaceMarkers
- * @param driftModel
+ * @param intermediate
  */
-async function updateSyncMetadataWithDriftInfo(
-  sessionRoot: string,
+function buildSyncMarkers(
+  sensorId: SensorKey,
   inWaterMarkers: ParsedSensorData['markers'],
   surfaceMarkers: ParsedSensorData['markers'],
-  driftModel: ComputedDriftModel | null
-): Promise<void> {
-  try {
-    await updateSyncMetadata(sessionRoot, (metadata) => {
-      // Build sync markers array
-      const markers: SyncMarker[] = []
-
-      if (surfaceMarkers.start || inWaterMarkers.start) {
-        const surfaceStart = surfaceMarkers.start?.timestamp
-        const inWaterStart = inWaterMarkers.start?.timestamp
-
-        markers.push({
-          syncId: surfaceMarkers.start?.syncId || inWaterMarkers.start?.syncId || 'unknown',
-          type: 'START',
-          inWaterTimestamp: inWaterStart ? new Date(inWaterStart).toISOString() : null,
-          surfaceTimestamp: surfaceStart ? new Date(surfaceStart).toISOString() : null,
-          offsetMs: surfaceStart && inWaterStart ? inWaterStart - surfaceStart : null,
-          quality: inWaterMarkers.start ? 'measured' : 'synthetic',
-        })
-      }
+  intermediate: MarkerPair[]
+): SyncMarker[] {
+  const markers: SyncMarker[] = []
+
+  for (const type of ['START', 'STOP'] as const) {
+    const inWaterMarker = type === 'START' ? inWaterMarkers.start : inWaterMarkers.stop
+    const surfaceMarker = type === 'START' ? surfaceMarkers.start : surfaceMarkers.stop
+    if (!inWaterMarker && !surfaceMarker) continue
+
+    const inWaterTime = inWaterMarker?.timestamp
+    const surfaceTime = surfaceMarker?.timestamp
+
+    markers.push({
+      syncId: surfaceMarker?.syncId || inWaterMarker?.syncId || 'unknown',
+      type,
+      sensorId,
+      sensorTimestamp: inWaterTime ? new Date(inWaterTime).toISOString() : null,
+      referenceTimestamp: surfaceTime ? new Date(surfaceTime).toISOString() : null,
+      offsetMs: surfaceTime && inWaterTime ? inWaterTime - surfaceTime : null,
+      quality: inWaterMarker ? 'measured' : 'synthetic',
+    })
+  }
 
-      if (surfaceMarkers.stop || inWaterMarkers.stop) {
-        const surfaceStop = surfaceMarkers.stop?.timestamp
-        const inWaterStop = inWaterMarkers.stop?.timestamp
-
-        markers.push({
-          syncId: surfaceMarkers.stop?.syncId || inWaterMarkers.stop?.syncId || 'unknown',
-          type: 'STOP',
-          inWaterTimestamp: inWaterStop ? new Date(inWaterStop).toISOString() : null,
-          surfaceTimestamp: surfaceStop ? new Date(surfaceStop).toISOString() : null,
-          offsetMs: surfaceStop && inWaterStop ? inWaterStop - surfaceStop : null,
-          quality: inWaterMarkers.stop ? 'measured' : 'synthetic',
-        })
+  for (const pair of intermediate) {
+    markers.push({
+      syncId: pair.syncId,
+      type: pair.type,
+      sensorId,
+      sensorTimestamp: new Date(pair.sensorTime).toISOString(),
+      referenceTimestamp: new Date(pair.referenceTime).toISOString(),
+      offsetMs: pair.sensorTime - pair.referenceTime,
+      quality: pair.type === 'FLASH' ? 'detected' : 'measured',
+    })
+  }
+
+  return markers
+}
+
+// * Convert a computed drift model to its sync_metadata.json form
+/**
+ *
+ * @param driftModel
+ */
+function toStoredDriftModel(driftModel: ComputedDriftModel | null): DriftModel | null {
+  return driftModel
+    ? {
+        type: driftModel.type,
+        startOffsetMs: driftModel.startOffsetMs,
+        driftRateMsPerMin: driftModel.driftRatePerMs ? driftModel.driftRatePerMs * 60000 : undefined,
+        endOffsetMs: driftModel.endOffsetMs,
+        knots: driftModel.knots?.map(
+          (knot): DriftKnot => ({
+            sensorTimestamp: new Date(knot.sensorTime).toISOString(),
+            offsetMs: knot.sensorTime - knot.referenceTime,
+          })
+        ),
       }
+    : null
+}
 
+// * Update sync_metadata.json with sync markers and drift model info
+/**
+ *
+ * @param sessionRoot
+ * @param surfaceMarkers
+ * @param alignedSensors
+ */
+async function updateSyncMetadataWithDriftInfo(
+  sessionRoot: string,
+  surfaceMarkers: ParsedSensorData['markers'],
+  alignedSensors: Array<{
+    /**
+     *
+     */
+    id: SensorKey
+    /**
+     *
+     */
+    markers: ParsedSensorData['markers']
+    /**
+     *
+     */
+    driftModel: ComputedDriftModel | null
+    /**
+     *
+     */
+    intermediate: MarkerPair[]
+  }>
+): Promise<void> {
+  try {
+    await updateSyncMetadata(sessionRoot, (metadata) => {
+      const markers: SyncMarker[] = []
+      for (const sensor of alignedSensors) {
+        markers.push(...buildSyncMarkers(sensor.id, sensor.markers, surfaceMarkers, sensor.intermediate))
+        metadata.timeSync.driftModels[sensor.id] = toStoredDriftModel(sensor.driftModel)
+      }
       metadata.timeSync.markers = markers
-
-      // Store drift model
-      metadata.timeSync.driftModel = driftModel
-        ? {
-            type: driftModel.type,
-            startOffsetMs: driftModel.startOffsetMs,
-            driftRateMsPerMin: driftModel.driftRatePerMs ? driftModel.driftRatePerMs * 60000 : undefined,
-            endOffsetMs: driftModel.endOffsetMs,
-          }
-        : null
     })
   } catch (error: any) {
     console.warn(`[QSensor Fusion] Failed to update sync metadata with drift info: ${error.message}`)
@@ -1025,14 +2098,14 @@ function findNearestReading(
 /**
  *
  * @param timestampAxis
- * @param inWaterMap
- * @param surfaceMap
+ * @param inWater
+ * @param surface
  * @param toleranceMs
  */
 function createWideFormatRows(
   timestampAxis: number[],
-  inWaterMap: Map<number, CsvRow>,
-  surfaceMap: Map<number, CsvRow>,
+  inWater: SensorRowMap,
+  surface: SensorRowMap,
   toleranceMs: number
 ): WideFormatRow[] {
   const wideRows: WideFormatRow[] = []
@@ -1043,8 +2116,8 @@ function createWideFormatRows(
   let lastRowHadBothSensors = false
 
   for (const timestamp of timestampAxis) {
-    const inWaterRow = findNearestReading(timestamp, inWaterMap, toleranceMs, usedInWaterReadings)
-    const surfaceRow = findNearestReading(timestamp, surfaceMap, toleranceMs, usedSurfaceReadings)
+    const inWaterRow = findNearestReading(timestamp, inWater.rows, toleranceMs, usedInWaterReadings)
+    const surfaceRow = findNearestReading(timestamp, surface.rows, toleranceMs, usedSurfaceReadings)
 
     // Skip if neither sensor has data at this timestamp
     if (!inWaterRow && !surfaceRow) {
@@ -1075,16 +2148,10 @@ function createWideFormatRows(
     wideRows.push({
       timestamp: timestampStr,
       _parsedTime: timestamp,
-      inwater_sensor_id: inWaterRow?.sensor_id ?? null,
-      inwater_mode: inWaterRow?.mode ?? null,
-      inwater_value: inWaterRow?.value ?? null,
-      inwater_TempC: inWaterRow?.TempC ?? null,
-      inwater_Vin: inWaterRow?.Vin ?? null,
-      surface_sensor_id: surfaceRow?.sensor_id ?? null,
-      surface_mode: surfaceRow?.mode ?? null,
-      surface_value: surfaceRow?.value ?? null,
-      surface_TempC: surfaceRow?.TempC ?? null,
-      surface_Vin: surfaceRow?.Vin ?? null,
+      sensors: {
+        [inWater.id]: toSensorColumns(inWaterRow),
+        [surface.id]: toSensorColumns(surfaceRow),
+      },
     })
   }
 
@@ -1136,24 +2203,19 @@ function evaluateRowCreation(
 
 /**
  * Find the best surface reading for a given in-water timestamp using hold-last strategy.
- *
+ * Also used for additional in-water sensors held against the primary one.
  * @param inWaterTime - In-water timestamp (ms since epoch)
  * @param surfaceTimestamps - Sorted array of surface timestamps
  * @param surfaceMap - Map of surface timestamps to rows
- * @param stalenessThresholdMs - Maximum age to consider surface value valid
+ * @param options - Staleness thresholds
  * @returns Surface value info with row, timestamp, age, and status
  */
 function findSurfaceValueForInWater(
   inWaterTime: number,
   surfaceTimestamps: number[],
   surfaceMap: Map<number, CsvRow>,
-  stalenessThresholdMs: number
-): {
-  row: CsvRow | null
-  timestamp_used: number | null
-  age_ms: number | null
-  status: 'fresh' | 'stale' | 'missing'
-} {
+  options: QSensorFusionOptions
+): HeldReading {
   // Binary search for largest surface timestamp <= inWaterTime
   let left = 0
   let right = surfaceTimestamps.length - 1
@@ -1169,133 +2231,808 @@ function findSurfaceValueForInWater(
     }
   }
 
-  // No surface reading before this in-water time
   if (bestIdx === -1) {
+    return resolveHeldReading(inWaterTime, null, null, options)
+  }
+
+  const surfaceTime = surfaceTimestamps[bestIdx]
+  return resolveHeldReading(inWaterTime, surfaceTime, surfaceMap.get(surfaceTime) ?? null, options)
+}
+
+/**
+ * Status of the held reading used for a primary sample: the latest one at or before it for hold-last,
+ * the one closest to it for the other sampling methods.
+ * @param inWaterTime - Primary sample time (ms since epoch)
+ * @param heldTime - Time of the reading used, or null if there is none
+ * @param heldRow - That reading (interpolated or averaged values for the other sampling methods)
+ * @param options - Staleness thresholds
+ * @returns Held reading with timestamp, age and status
+ */
+function resolveHeldReading(
+  inWaterTime: number,
+  heldTime: number | null,
+  heldRow: CsvRow | null,
+  options: QSensorFusionOptions
+): HeldReading {
+  // No surface reading before this in-water time
+  if (heldTime === null) {
     return {
       row: null,
       timestamp_used: null,
       age_ms: null,
-      status: 'missing'
+      status: 'missing',
     }
   }
 
-  const surfaceTime = surfaceTimestamps[bestIdx]
-  const age = inWaterTime - surfaceTime
+  // NOTE: Distance rather than age, readings after the sample are used by 'nearest', 'linear' and 'window-average'
+  const age = Math.abs(inWaterTime - heldTime)
 
   // Check staleness
-  if (age > stalenessThresholdMs) {
-    if (DEBUG_FUSION_TIMING && age > SURFACE_STALENESS_WARNING_MS) {
-      console.warn(
-        `[QSensor Fusion] Stale surface value: age=${age}ms (threshold=${stalenessThresholdMs}ms)`
-      )
+  if (age > options.maxStalenessMs) {
+    if (DEBUG_FUSION_TIMING) {
+      console.warn(`[QSensor Fusion] Stale surface value: age=${age}ms (threshold=${options.maxStalenessMs}ms)`)
     }
     return {
       row: null,
-      timestamp_used: surfaceTime,
+      timestamp_used: heldTime,
       age_ms: age,
-      status: 'stale'
+      status: 'stale',
     }
   }
 
-  // Determine status: fresh (< 10s) or approaching stale
-  const status: 'fresh' | 'stale' =
-    age < SURFACE_STALENESS_WARNING_MS ? 'fresh' : 'stale'
+  // Determine status: fresh (< 10s by default) or approaching stale
+  const status: 'fresh' | 'stale' = age < options.freshThresholdMs ? 'fresh' : 'stale'
 
   return {
-    row: surfaceMap.get(surfaceTime) ?? null,
-    timestamp_used: surfaceTime,
+    row: heldRow,
+    timestamp_used: heldTime,
     age_ms: age,
-    status
+    status,
+  }
+}
+
+/**
+ * Columns of a held sensor: its reading (if valid) and the hold-last metadata.
+ * @param held - Held reading for the primary sample
+ * @returns Sensor columns
+ */
+function toHeldSensorColumns(held: HeldReading): SensorColumns {
+  return {
+    ...toSensorColumns(held.row),
+    timestamp_used: held.timestamp_used !== null ? new Date(held.timestamp_used).toISOString() : null,
+    age_ms: held.age_ms,
+    status: held.status,
   }
 }
 
 /**
  * Create wide-format rows using in-water-driven fusion strategy.
- * Emits exactly one row per in-water sample, with surface values attached via hold-last.
- *
- * @param inWaterMap - Map of in-water timestamps to rows
- * @param surfaceMap - Map of surface timestamps to rows
- * @param stalenessThresholdMs - Maximum surface age to consider valid
- * @returns Array of wide-format rows (one per in-water sample)
+ * Emits exactly one row per sample of the primary in-water sensor, with every other sensor
+ * (surface reference and additional in-water sensors) attached via hold-last.
+ * @param primary - Row-driving sensor and its readings
+ * @param heldSensors - Sensors attached to each primary sample
+ * @param options - Staleness thresholds of held readings
+ * @returns Array of wide-format rows (one per primary sample)
  */
 function createInWaterDrivenRows(
-  inWaterMap: Map<number, CsvRow>,
-  surfaceMap: Map<number, CsvRow>,
-  stalenessThresholdMs: number = MAX_SURFACE_STALENESS_MS
+  primary: SensorRowMap,
+  heldSensors: SensorRowMap[],
+  options: QSensorFusionOptions = defaultQSensorFusionOptions
 ): WideFormatRow[] {
   const rows: WideFormatRow[] = []
 
-  // Sort in-water timestamps (canonical timeline)
-  const inWaterTimestamps = Array.from(inWaterMap.keys()).sort((a, b) => a - b)
+  // Sort primary timestamps (canonical timeline)
+  const inWaterTimestamps = Array.from(primary.rows.keys()).sort((a, b) => a - b)
 
-  // Sort surface timestamps for binary search
-  const surfaceTimestamps = Array.from(surfaceMap.keys()).sort((a, b) => a - b)
+  // Sort held sensor timestamps for binary search
+  const heldTimestamps = heldSensors.map((sensor) => Array.from(sensor.rows.keys()).sort((a, b) => a - b))
 
   if (DEBUG_FUSION_TIMING) {
     console.log(
-      `[QSensor Fusion] In-water-driven fusion: ${inWaterTimestamps.length} in-water samples, ${surfaceTimestamps.length} surface samples`
+      `[QSensor Fusion] In-water-driven fusion: ${inWaterTimestamps.length} ${primary.id} samples, ${heldSensors
+        .map((sensor, index) => `${heldTimestamps[index].length} ${sensor.id}`)
+        .join(', ')} samples`
     )
   }
 
-  // Track statistics
-  let freshCount = 0
-  let staleCount = 0
-  let missingCount = 0
+  // Track statistics per held sensor
+  const statusCounts = heldSensors.map(() => ({ fresh: 0, stale: 0, missing: 0 }))
 
-  // For each in-water sample, attach surface value via hold-last
+  // For each primary sample, attach held values via hold-last
   for (const inWaterTime of inWaterTimestamps) {
-    const inWaterRow = inWaterMap.get(inWaterTime)!
-
-    // Find best surface value for this in-water time
-    const surfaceInfo = findSurfaceValueForInWater(
-      inWaterTime,
-      surfaceTimestamps,
-      surfaceMap,
-      stalenessThresholdMs
-    )
-
-    // Update statistics
-    if (surfaceInfo.status === 'fresh') freshCount++
-    else if (surfaceInfo.status === 'stale') staleCount++
-    else missingCount++
+    const inWaterRow = primary.rows.get(inWaterTime)!
 
-    // Build wide-format row
+    // Build wide-format row with primary values (always present)
     const row: WideFormatRow = {
       timestamp: new Date(inWaterTime).toISOString(),
       _parsedTime: inWaterTime,
-
-      // In-water values (always present)
-      inwater_sensor_id: inWaterRow.sensor_id ?? null,
-      inwater_mode: inWaterRow.mode ?? null,
-      inwater_value: inWaterRow.value ?? null,
-      inwater_TempC: inWaterRow.TempC ?? null,
-      inwater_Vin: inWaterRow.Vin ?? null,
-
-      // Surface values (may be null if stale/missing)
-      surface_sensor_id: surfaceInfo.row?.sensor_id ?? null,
-      surface_mode: surfaceInfo.row?.mode ?? null,
-      surface_value: surfaceInfo.row?.value ?? null,
-      surface_TempC: surfaceInfo.row?.TempC ?? null,
-      surface_Vin: surfaceInfo.row?.Vin ?? null,
-
-      // Surface metadata
-      surface_timestamp_used: surfaceInfo.timestamp_used !== null
-        ? new Date(surfaceInfo.timestamp_used).toISOString()
-        : null,
-      surface_age_ms: surfaceInfo.age_ms,
-      surface_status: surfaceInfo.status
+      sensors: { [primary.id]: toSensorColumns(inWaterRow) },
     }
 
+    heldSensors.forEach((sensor, index) => {
+      // Find best held value for this primary time
+      const heldInfo = findSurfaceValueForInWater(inWaterTime, heldTimestamps[index], sensor.rows, options)
+
+      // Update statistics
+      statusCounts[index][heldInfo.status]++
+
+      // Held values (may be null if stale/missing) and hold-last metadata
+      row.sensors[sensor.id] = toHeldSensorColumns(heldInfo)
+    })
+
     rows.push(row)
   }
 
   if (DEBUG_FUSION_TIMING) {
+    heldSensors.forEach((sensor, index) => {
+      const counts = statusCounts[index]
+      console.log(
+        `[QSensor Fusion] ${sensor.id} status: fresh=${counts.fresh}, stale=${counts.stale}, missing=${counts.missing}`
+      )
+    })
+  }
+
+  return rows
+}
+
+// ============================================================================
+// Sampling Methods
+// ============================================================================
+
+/**
+ * Index of the last reading at or before a time.
+ * @param readings - Readings sorted by time, with distinct times
+ * @param time - Time to look up
+ * @returns Index, or -1 if every reading is later
+ */
+function lastIndexAtOrBefore(readings: TimedCsvRow[], time: number): number {
+  let left = 0
+  let right = readings.length - 1
+  let bestIdx = -1
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2)
+    if (readings[mid].time <= time) {
+      bestIdx = mid
+      left = mid + 1
+    } else {
+      right = mid - 1
+    }
+  }
+  return bestIdx
+}
+
+/**
+ * Estimate a sensor's reading at a row time with the configured sampling method.
+ * - 'hold-last': latest reading at or before the row
+ * - 'nearest': closest reading either side (the earlier one on a tie)
+ * - 'linear': values interpolated between the readings either side, when both are within the staleness limit;
+ *   otherwise as 'nearest'
+ * - 'window-average': each reading holds until the next one (or the staleness limit) and the values are averaged
+ *   over the window centred on the row, weighted by how long each reading was held in it; as 'hold-last' when no
+ *   reading is held in the window
+ *
+ * Interpolated and averaged readings keep the sensor_id and mode of the closest reading, whose time is reported
+ * as timestamp_used.
+ * @param time - Row time (ms since epoch)
+ * @param readings - Readings sorted by time with distinct times, covering the window of the method
+ * @param options - Sampling method and thresholds
+ * @returns Sampled reading with timestamp, distance and status
+ */
+function sampleReadings(time: number, readings: TimedCsvRow[], options: QSensorFusionOptions): HeldReading {
+  const index = lastIndexAtOrBefore(readings, time)
+  const before = index >= 0 ? readings[index] : null
+  const after = index + 1 < readings.length ? readings[index + 1] : null
+  const nearest = after && (!before || after.time - time < time - before.time) ? after : before
+
+  switch (options.method) {
+    case 'hold-last':
+      return resolveHeldReading(time, before?.time ?? null, before?.row ?? null, options)
+
+    case 'nearest':
+      return resolveHeldReading(time, nearest?.time ?? null, nearest?.row ?? null, options)
+
+    case 'linear': {
+      if (
+        before &&
+        after &&
+        before.time !== time &&
+        time - before.time <= options.maxStalenessMs &&
+        after.time - time <= options.maxStalenessMs
+      ) {
+        const span = after.time - before.time
+        const row = blendReadings(
+          [
+            { row: before.row, weight: (after.time - time) / span },
+            { row: after.row, weight: (time - before.time) / span },
+          ],
+          nearest!.row
+        )
+        return resolveHeldReading(time, nearest!.time, row, options)
+      }
+      return resolveHeldReading(time, nearest?.time ?? null, nearest?.row ?? null, options)
+    }
+
+    case 'window-average': {
+      const start = time - options.windowMs / 2
+      const end = time + options.windowMs / 2
+      const parts: WeightedCsvRow[] = []
+      for (let i = Math.max(lastIndexAtOrBefore(readings, start), 0); i < readings.length; i++) {
+        const reading = readings[i]
+        if (reading.time > end) break
+        const heldUntil = Math.min(readings[i + 1]?.time ?? Infinity, reading.time + options.maxStalenessMs, end)
+        const weight = heldUntil - Math.max(reading.time, start)
+        if (weight > 0) parts.push({ ...reading, weight })
+      }
+      if (parts.length === 0) {
+        return resolveHeldReading(time, before?.time ?? null, before?.row ?? null, options)
+      }
+      const closest = parts.reduce((best, part) =>
+        Math.abs(part.time - time) < Math.abs(best.time - time) ? part : best
+      )
+      return resolveHeldReading(time, closest.time, blendReadings(parts, closest.row), options)
+    }
+  }
+}
+
+/**
+ * Weighted mean of the value, TempC and Vin of readings. A column keeps the base reading's text
+ * unless every reading has a number in it; means keep the most decimals of the inputs.
+ * @param parts - Readings with their weights
+ * @param base - Reading providing sensor_id, mode and the columns that cannot be averaged
+ * @returns Reading with the averaged columns
+ */
+function blendReadings(
+  parts: Array<{
+    /**
+     *
+     */
+    row: CsvRow
+    /**
+     *
+     */
+    weight: number
+  }>,
+  base: CsvRow
+): CsvRow {
+  const blend = (column: 'value' | 'TempC' | 'Vin'): string => {
+    const texts = parts.map((part) => part.row[column].trim())
+    if (texts.some((text) => text === '' || !Number.isFinite(Number(text)))) return base[column]
+
+    const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0)
+    const mean = parts.reduce((sum, part, index) => sum + Number(texts[index]) * part.weight, 0) / totalWeight
+    const decimals = Math.max(...texts.map((text) => (text.includes('.') ? text.split('.')[1].length : 0)))
+    return mean.toFixed(decimals)
+  }
+
+  return { ...base, value: blend('value'), TempC: blend('TempC'), Vin: blend('Vin') }
+}
+
+/**
+ * Fill in and check fusion options: missing fields take the defaults.
+ * @param options - Options from the renderer or sync_metadata.json
+ * @returns Complete options
+ * @throws Error describing the first invalid option
+ */
+export function normalizeFusionOptions(options: Partial<QSensorFusionOptions> = {}): QSensorFusionOptions {
+  const normalized: QSensorFusionOptions = {
+    method: options.method ?? defaultQSensorFusionOptions.method,
+    windowMs: options.windowMs ?? defaultQSensorFusionOptions.windowMs,
+    gridIntervalMs:
+      options.gridIntervalMs === undefined ? defaultQSensorFusionOptions.gridIntervalMs : options.gridIntervalMs,
+    freshThresholdMs: options.freshThresholdMs ?? defaultQSensorFusionOptions.freshThresholdMs,
+    maxStalenessMs: options.maxStalenessMs ?? defaultQSensorFusionOptions.maxStalenessMs,
+  }
+
+  if (!Object.keys(qsensorFusionMethodNames).includes(normalized.method)) {
+    throw new Error(`Unknown fusion method '${normalized.method}'`)
+  }
+  if (!Number.isFinite(normalized.windowMs) || normalized.windowMs <= 0) {
+    throw new Error('Averaging window must be a positive number of milliseconds')
+  }
+  if (
+    normalized.gridIntervalMs !== null &&
+    (!Number.isFinite(normalized.gridIntervalMs) || normalized.gridIntervalMs <= 0)
+  ) {
+    throw new Error('Grid interval must be a positive number of milliseconds')
+  }
+  if (!Number.isFinite(normalized.freshThresholdMs) || normalized.freshThresholdMs < 0) {
+    throw new Error('Fresh threshold must be zero or a positive number of milliseconds')
+  }
+  if (!Number.isFinite(normalized.maxStalenessMs) || normalized.maxStalenessMs < normalized.freshThresholdMs) {
+    throw new Error('Maximum staleness must be at least the fresh threshold')
+  }
+  return normalized
+}
+
+/**
+ * One-line description of fusion options, for logs.
+ * @param options - Fusion options
+ * @returns Description
+ */
+function describeFusionOptions(options: QSensorFusionOptions): string {
+  const method = options.method === 'window-average' ? `window-average (${options.windowMs} ms)` : options.method
+  const rows = options.gridIntervalMs !== null ? `${options.gridIntervalMs} ms grid` : 'primary samples'
+  return `${method} on ${rows}, fresh < ${options.freshThresholdMs} ms, max ${options.maxStalenessMs} ms`
+}
+
+// ============================================================================
+// Streaming In-Water-Driven Fusion
+// ============================================================================
+
+/**
+ * Drift-corrected readings of one session.csv in time order, read on demand.
+ * Only the next reading is buffered.
+ */
+class SortedCsvRowCursor {
+  private readonly rows: AsyncGenerator<CsvRow>
+  private readonly source: string
+  private readonly driftModel: ComputedDriftModel | null
+  private buffered: TimedCsvRow | null = null
+  private lastTime = Number.NEGATIVE_INFINITY
+  private done = false
+
+  /**
+   *
+   * @param rows - Data rows in file order
+   * @param source - Sensor name, for errors
+   * @param driftModel - Correction to the reference clock
+   */
+  constructor(rows: AsyncGenerator<CsvRow>, source: string, driftModel: ComputedDriftModel | null) {
+    this.rows = rows
+    this.source = source
+    this.driftModel = driftModel
+  }
+
+  /**
+   * Next reading, without consuming it
+   * @returns {Promise<TimedCsvRow | null>} Reading, or null at the end of the file
+   * @throws UnsortedFusionInputError if the reading is earlier than the previous one
+   */
+  async peek(): Promise<TimedCsvRow | null> {
+    if (!this.buffered && !this.done) {
+      const next = await this.rows.next()
+      if (next.done) {
+        this.done = true
+      } else {
+        const time = correctTimestamp(next.value._parsedTime, this.driftModel)
+        if (time < this.lastTime) throw new UnsortedFusionInputError(this.source)
+        this.lastTime = time
+        this.buffered = { time, row: next.value }
+      }
+    }
+    return this.buffered
+  }
+
+  /**
+   * Next distinct time; of several readings at the same time the last one in the file is kept
+   * @returns {Promise<TimedCsvRow | null>} Reading, or null at the end of the file
+   */
+  async nextDistinct(): Promise<TimedCsvRow | null> {
+    let current = await this.peek()
+    this.buffered = null
+    while (current) {
+      const following = await this.peek()
+      if (!following || following.time !== current.time) break
+      current = following
+      this.buffered = null
+    }
+    return current
+  }
+
+  /**
+   * Stop reading the file
+   */
+  async close(): Promise<void> {
+    await this.rows.return(undefined)
+  }
+}
+
+/**
+ * Samples a sensor at increasing row times. Keeps only the readings the sampling method can still use:
+ * the last one before the window of the row and those up to the first one after it.
+ */
+class SensorSampler {
+  private readonly cursor: SortedCsvRowCursor
+  private readonly options: QSensorFusionOptions
+  private readonly readings: TimedCsvRow[] = []
+  private exhausted = false
+
+  /**
+   *
+   * @param cursor - Readings of the sensor
+   * @param options - Sampling method and thresholds
+   */
+  constructor(cursor: SortedCsvRowCursor, options: QSensorFusionOptions) {
+    this.cursor = cursor
+    this.options = options
+  }
+
+  /**
+   * Sensor reading at a row time. Times must not decrease between calls.
+   * @param time - Row time
+   * @returns {Promise<HeldReading>} Sampled reading
+   */
+  async sample(time: number): Promise<HeldReading> {
+    const reach = this.options.method === 'window-average' ? this.options.windowMs / 2 : 0
+
+    // Read up to the first reading after the window, then drop those before the last one preceding it
+    while (
+      !this.exhausted &&
+      (this.readings.length === 0 || this.readings[this.readings.length - 1].time <= time + reach)
+    ) {
+      const reading = await this.cursor.nextDistinct()
+      if (reading) this.readings.push(reading)
+      else this.exhausted = true
+    }
+    const first = lastIndexAtOrBefore(this.readings, time - reach)
+    if (first > 0) this.readings.splice(0, first)
+
+    return sampleReadings(time, this.readings, this.options)
+  }
+
+  /**
+   * Whether every reading of the sensor is earlier than a time sampled before
+   * @param time - Last sampled time
+   * @returns {boolean} True once the file has no reading at or after the time
+   */
+  endedBefore(time: number): boolean {
+    return this.exhausted && (this.readings.length === 0 || this.readings[this.readings.length - 1].time < time)
+  }
+}
+
+/**
+ * Rows driving the merge: each primary sample, or each grid time with the primary sampled at it.
+ * The grid is aligned to multiples of the interval and spans the primary's readings.
+ * @param primary - Readings of the primary sensor
+ * @param options - Grid interval and sampling method
+ * @yields {DrivingRow} Row times with the primary columns
+ */
+async function* readDrivingRows(
+  primary: SortedCsvRowCursor,
+  options: QSensorFusionOptions
+): AsyncGenerator<DrivingRow> {
+  const interval = options.gridIntervalMs
+  if (interval === null) {
+    for (let reading = await primary.nextDistinct(); reading; reading = await primary.nextDistinct()) {
+      yield { time: reading.time, columns: toSensorColumns(reading.row) }
+    }
+    return
+  }
+
+  const first = await primary.peek()
+  if (!first) return
+  const sampler = new SensorSampler(primary, options)
+  const start = Math.ceil(first.time / interval) * interval
+  for (let step = 0; ; step++) {
+    // NOTE: Multiples of the step rather than a running sum, so fractional intervals do not accumulate error
+    const time = start + step * interval
+    const sample = await sampler.sample(time)
+    if (sampler.endedBefore(time)) return
+    yield { time, columns: toHeldSensorColumns(sample) }
+  }
+}
+
+/**
+ * Row source reading each session.csv as the merge advances.
+ * @param signal - Aborts the reads
+ * @returns Row source
+ */
+function fileRowSource(signal: AbortSignal): FusionRowSource {
+  return async function* (sensor, onFraction) {
+    const size = (await fs.stat(sensor.csvPath)).size
+    yield* readCsvRows(sensor.csvPath, createCsvParseState(sensor.name, true), signal, (bytes) =>
+      onFraction?.(size > 0 ? bytes / size : 1)
+    )
+  }
+}
+
+/**
+ * Row source replaying parsed rows sorted by drift-corrected time, for files that are not sorted.
+ * Readings at the same time keep their file order.
+ * @param parsed - Rows of every sensor
+ * @param driftModels - Drift correction of each aligned sensor
+ * @returns Row source
+ */
+function sortedRowSource(
+  parsed: Map<SensorKey, ParsedSensorData>,
+  driftModels: Map<SensorKey, ComputedDriftModel | null>
+): FusionRowSource {
+  return async function* (sensor, onFraction) {
+    const driftModel = driftModels.get(sensor.id) ?? null
+    const rows = parsed
+      .get(sensor.id)!
+      .rows.map((row) => ({ row, time: correctTimestamp(row._parsedTime, driftModel) }))
+      .sort((a, b) => a.time - b.time)
+    for (const [index, { row }] of rows.entries()) {
+      yield row
+      onFraction?.((index + 1) / rows.length)
+    }
+  }
+}
+
+/**
+ * In-water-driven fusion as a streaming merge: one pass over every session.csv, writing each unified row
+ * as soon as it is complete. Produces the same file as the in-memory path for time-sorted inputs.
+ * Rows follow the primary samples or a fixed-rate grid; the held sensors are sampled at each row.
+ * @param outputPath - unified_session.csv path; written to a .tmp file and renamed at the end
+ * @param layout - Row-driving and held sensors
+ * @param source - Data rows of each sensor, sorted by time
+ * @param driftModels - Drift correction of each aligned sensor
+ * @param vehicleSamples - Vehicle samples sorted by epoch
+ * @param corrections - Dark capture and calibration of each sensor
+ * @param options - Sampling method, grid and staleness thresholds
+ * @param signal - Aborts the merge; the .tmp file is removed
+ * @param onProgress - Called with the fraction of the primary rows read and the rows written
+ * @returns Row counts
+ * @throws UnsortedFusionInputError if a file is not sorted by time
+ */
+async function streamInWaterDrivenFusion(
+  outputPath: string,
+  layout: WideFormatLayout,
+  source: FusionRowSource,
+  driftModels: Map<SensorKey, ComputedDriftModel | null>,
+  vehicleSamples: VehicleTelemetrySample[],
+  corrections: SensorCorrections[],
+  options: QSensorFusionOptions,
+  signal: AbortSignal,
+  onProgress: (fraction: number, rowsWritten: number) => void
+): Promise<FusionStats> {
+  const tmpPath = outputPath + '.tmp'
+  const columnSensors = [layout.primary, ...layout.held]
+  let primaryFraction = 0
+
+  const openCursor = (sensor: FusionSensor, onFraction?: (fraction: number) => void): SortedCsvRowCursor =>
+    new SortedCsvRowCursor(source(sensor, onFraction), sensor.name, driftModels.get(sensor.id) ?? null)
+  const primary = openCursor(layout.primary, (fraction) => (primaryFraction = fraction))
+  const held = layout.held.map((sensor) => openCursor(sensor))
+  const samplers = held.map((cursor) => new SensorSampler(cursor, options))
+
+  const stats: FusionStats = {
+    totalRows: 0,
+    sensorRows: Object.fromEntries(columnSensors.map((sensor) => [sensor.id, 0])),
+    rowsWithAll: 0,
+    rowsWithVehicle: 0,
+  }
+  const statusCounts = layout.held.map(() => ({ fresh: 0, stale: 0, missing: 0 }))
+
+  const file = await fs.open(tmpPath, 'w')
+  let fileOpen = true
+  try {
+    let batch = buildWideFormatHeader(layout) + '\n'
+
+    for await (const driving of readDrivingRows(primary, options)) {
+      const row: WideFormatRow = {
+        timestamp: new Date(driving.time).toISOString(),
+        _parsedTime: driving.time,
+        sensors: { [layout.primary.id]: driving.columns },
+      }
+
+      for (const [index, sensor] of layout.held.entries()) {
+        const heldInfo = await samplers[index].sample(driving.time)
+        statusCounts[index][heldInfo.status]++
+        row.sensors[sensor.id] = toHeldSensorColumns(heldInfo)
+      }
+
+      const vehicle = attachVehicleState(row, vehicleSamples, MAX_VEHICLE_STALENESS_MS)
+      if (vehicle.age_ms !== null && vehicle.age_ms <= MAX_VEHICLE_STALENESS_MS) stats.rowsWithVehicle++
+      applySensorCorrections(row, corrections)
+
+      stats.totalRows++
+      let hasAll = true
+      for (const sensor of columnSensors) {
+        if (hasSensorValue(row, sensor.id)) stats.sensorRows[sensor.id]++
+        else hasAll = false
+      }
+      if (hasAll) stats.rowsWithAll++
+
+      batch += formatWideFormatRow(row, layout) + '\n'
+      if (batch.length >= WRITE_BATCH_BYTES) {
+        await file.write(batch)
+        batch = ''
+        if (signal.aborted) throw new FusionCancelledError()
+        onProgress(primaryFraction, stats.totalRows)
+      }
+    }
+
+    await file.write(batch)
+    fileOpen = false
+    await file.close()
+    await fs.rename(tmpPath, outputPath)
+  } catch (error) {
+    if (fileOpen) await file.close()
+    await fs.rm(tmpPath, { force: true })
+    throw error
+  } finally {
+    await Promise.all([primary, ...held].map((cursor) => cursor.close()))
+  }
+
+  console.log(`[QSensor Fusion] Wide-format rows: ${stats.totalRows} total`)
+  if (DEBUG_FUSION_TIMING) {
+    layout.held.forEach((sensor, index) => {
+      const counts = statusCounts[index]
+      console.log(
+        `[QSensor Fusion] ${sensor.id} status: fresh=${counts.fresh}, stale=${counts.stale}, missing=${counts.missing}`
+      )
+    })
+  }
+
+  return stats
+}
+
+// ============================================================================
+// Vehicle Telemetry Join
+// ============================================================================
+
+/**
+ * Attach interpolated vehicle depth, position and attitude to each wide-format row.
+ * Row timestamps are already on the topside clock, which is the datalogger's time base.
+ * @param rows - Wide-format rows (mutated in place)
+ * @param vehicleSamples - Vehicle samples sorted by epoch
+ * @param stalenessThresholdMs - Maximum distance to a datalogger point to consider values valid
+ * @returns Number of rows with vehicle values attached
+ */
+function attachVehicleTelemetry(
+  rows: WideFormatRow[],
+  vehicleSamples: VehicleTelemetrySample[],
+  stalenessThresholdMs: number
+): number {
+  let attached = 0
+  let staleCount = 0
+  let missingCount = 0
+
+  for (const row of rows) {
+    const vehicle = attachVehicleState(row, vehicleSamples, stalenessThresholdMs)
+
+    if (vehicle.status === 'missing') missingCount++
+    else if (vehicle.status === 'stale') staleCount++
+    if (vehicle.age_ms !== null && vehicle.age_ms <= stalenessThresholdMs) attached++
+  }
+
+  if (DEBUG_FUSION_TIMING) {
+    console.log(`[QSensor Fusion] Vehicle status: attached=${attached}, stale=${staleCount}, missing=${missingCount}`)
+  }
+
+  return attached
+}
+
+/**
+ * Set the vehicle columns of a row from the telemetry interpolated at its time.
+ * @param row - Wide-format row (mutated in place)
+ * @param vehicleSamples - Vehicle samples sorted by epoch
+ * @param stalenessThresholdMs - Maximum distance to a datalogger point to consider values valid
+ * @returns Interpolated vehicle state
+ */
+function attachVehicleState(
+  row: WideFormatRow,
+  vehicleSamples: VehicleTelemetrySample[],
+  stalenessThresholdMs: number
+): VehicleStateAtTime {
+  const vehicle = interpolateVehicleState(row._parsedTime, vehicleSamples, stalenessThresholdMs)
+
+  row.vehicle_depth_m = vehicle.depthM
+  row.vehicle_latitude = vehicle.latitude
+  row.vehicle_longitude = vehicle.longitude
+  row.vehicle_heading_deg = vehicle.headingDeg
+  row.vehicle_pitch_deg = vehicle.pitchDeg
+  row.vehicle_roll_deg = vehicle.rollDeg
+  row.vehicle_age_ms = vehicle.age_ms
+  row.vehicle_status = vehicle.status
+  return vehicle
+}
+
+/**
+ * Dark capture and calibration snapshot stored for each sensor at record time.
+ * @param syncMetadata - Session metadata holding the calibration snapshots and dark captures
+ * @param sensors - Sensors with columns in the rows
+ * @returns Corrections per sensor
+ */
+function resolveSensorCorrections(syncMetadata: SyncMetadata, sensors: FusionSensor[]): SensorCorrections[] {
+  return sensors.map((sensor) => {
+    const calibration = syncMetadata.sensors[sensor.id]?.calibration?.record ?? null
+    const dark = syncMetadata.sensors[sensor.id]?.dark ?? null
+
     console.log(
-      `[QSensor Fusion] Surface status: fresh=${freshCount}, stale=${staleCount}, missing=${missingCount}`
+      `[QSensor Fusion] ${sensor.name}: calibration=${calibration ? calibration.units : 'none'}, dark=${
+        dark ? dark.valueMean : 'none'
+      }`
     )
+    return { id: sensor.id, calibration, dark }
+  })
+}
+
+/**
+ * Fill the dark-corrected and calibrated columns of a row (see attachCalibratedValues).
+ * @param row - Wide-format row (mutated in place)
+ * @param corrections - Corrections per sensor
+ */
+function applySensorCorrections(row: WideFormatRow, corrections: SensorCorrections[]): void {
+  for (const { id, calibration, dark } of corrections) {
+    const columns = row.sensors[id]
+    if (!columns) continue
+    columns.dark_corrected = formatDarkCorrectedValue(columns.value, dark)
+    columns.calibrated = formatCalibratedValue(columns.value, calibration, dark?.valueMean)
   }
+}
 
-  return rows
+/**
+ * Fill the dark-corrected and calibrated columns using the dark capture and calibration snapshot
+ * stored for each sensor at record time. A dark capture replaces the calibration record's dark offset.
+ * Columns stay empty for a sensor without a dark capture or calibration record.
+ * @param rows - Wide-format rows (mutated in place)
+ * @param corrections - Corrections per sensor, from resolveSensorCorrections
+ */
+function attachCalibratedValues(rows: WideFormatRow[], corrections: SensorCorrections[]): void {
+  for (const row of rows) {
+    applySensorCorrections(row, corrections)
+  }
+}
+
+/**
+ * Format an optional number for CSV output.
+ * @param value - Number to format
+ * @param digits - Fraction digits to keep
+ * @returns Formatted number, or empty string when absent
+ */
+function formatOptionalNumber(value: number | null | undefined, digits: number): string {
+  return value !== null && value !== undefined ? value.toFixed(digits) : ''
+}
+
+/**
+ * Sensors with hold-last columns: the held sensors, and the primary one on a grid.
+ * @param layout - Row-driving and held sensors
+ * @returns Sensors in column order
+ */
+function heldColumnSensors(layout: WideFormatLayout): FusionSensor[] {
+  return layout.sampledPrimary ? [layout.primary, ...layout.held] : layout.held
+}
+
+/**
+ * Build the unified CSV header for a layout.
+ * @param layout - Row-driving and held sensors
+ * @returns Header line (without newline)
+ */
+function buildWideFormatHeader(layout: WideFormatLayout): string {
+  const sensors = [layout.primary, ...layout.held]
+  return [
+    'timestamp',
+    ...sensors.flatMap((sensor) => SENSOR_READING_COLUMNS.map((column) => `${sensor.columnPrefix}_${column}`)),
+    ...heldColumnSensors(layout).flatMap((sensor) =>
+      HELD_SENSOR_COLUMNS.map((column) => `${sensor.columnPrefix}_${column}`)
+    ),
+    ...VEHICLE_COLUMNS,
+    ...sensors.map((sensor) => `${sensor.columnPrefix}_calibrated`),
+    ...sensors.map((sensor) => `${sensor.columnPrefix}_dark_corrected`),
+  ].join(',')
+}
+
+/**
+ * Format a wide-format row as a unified CSV line.
+ * @param row - Wide-format row
+ * @param layout - Row-driving and held sensors
+ * @returns CSV line (without newline)
+ */
+function formatWideFormatRow(row: WideFormatRow, layout: WideFormatLayout): string {
+  const sensors = [layout.primary, ...layout.held]
+  const columns = (sensor: FusionSensor): Partial<SensorColumns> => row.sensors[sensor.id] ?? {}
+  return [
+    row.timestamp,
+    ...sensors.flatMap((sensor) => SENSOR_READING_COLUMNS.map((column) => columns(sensor)[column] ?? '')),
+    ...heldColumnSensors(layout).flatMap((sensor) => [
+      columns(sensor).timestamp_used ?? '',
+      formatOptionalNumber(columns(sensor).age_ms, 0),
+      columns(sensor).status ?? '',
+    ]),
+    formatOptionalNumber(row.vehicle_depth_m, 3),
+    formatOptionalNumber(row.vehicle_latitude, 7),
+    formatOptionalNumber(row.vehicle_longitude, 7),
+    formatOptionalNumber(row.vehicle_heading_deg, 1),
+    formatOptionalNumber(row.vehicle_pitch_deg, 1),
+    formatOptionalNumber(row.vehicle_roll_deg, 1),
+    formatOptionalNumber(row.vehicle_age_ms, 0),
+    row.vehicle_status ?? '',
+    ...sensors.map((sensor) => columns(sensor).calibrated ?? ''),
+    ...sensors.map((sensor) => columns(sensor).dark_corrected ?? ''),
+  ].join(',')
 }
 
 // * Write wide-format unified CSV file with atomic write pattern.
@@ -1303,31 +3040,16 @@ function createInWaterDrivenRows(
  *
  * @param outputPath
  * @param rows
+ * @param layout
  */
-async function writeWideFormatCsv(outputPath: string, rows: WideFormatRow[]): Promise<void> {
+async function writeWideFormatCsv(outputPath: string, rows: WideFormatRow[], layout: WideFormatLayout): Promise<void> {
   const tmpPath = outputPath + '.tmp'
 
   // Build CSV content
-  let content = WIDE_FORMAT_HEADER + '\n'
+  let content = buildWideFormatHeader(layout) + '\n'
 
   for (const row of rows) {
-    const csvLine = [
-      row.timestamp,
-      row.inwater_sensor_id ?? '',
-      row.inwater_mode ?? '',
-      row.inwater_value ?? '',
-      row.inwater_TempC ?? '',
-      row.inwater_Vin ?? '',
-      row.surface_sensor_id ?? '',
-      row.surface_mode ?? '',
-      row.surface_value ?? '',
-      row.surface_TempC ?? '',
-      row.surface_Vin ?? '',
-      row.surface_timestamp_used ?? '',
-      row.surface_age_ms !== null ? row.surface_age_ms.toFixed(0) : '',
-      row.surface_status ?? '',
-    ].join(',')
-    content += csvLine + '\n'
+    content += formatWideFormatRow(row, layout) + '\n'
   }
 
   // Write atomically
@@ -1353,13 +3075,49 @@ async function fileExists(filePath: string): Promise<boolean> {
   }
 }
 
-// * Check if both sensors have completed recording and produced session.csv files.
+// * Check if every sensor that started recording has produced its session.csv (at least two sensors).
 /**
  *
  * @param syncMetadata
  */
-export function areBothSensorsComplete(syncMetadata: SyncMetadata): boolean {
-  return !!(syncMetadata.sensors.inWater?.sessionCsv && syncMetadata.sensors.surface?.sessionCsv)
+export function areAllSensorsComplete(syncMetadata: SyncMetadata): boolean {
+  const started = Object.values(syncMetadata.sensors).filter((info) => info !== null)
+  return started.length >= 2 && started.every((info) => !!info?.sessionCsv)
+}
+
+/**
+ * Wide-format column prefix of a sensor: its id lower-cased ('inWater' → 'inwater', 'upLooking' → 'uplooking').
+ * @param sensorId - Sensor id
+ * @returns Column prefix
+ */
+export function fusionColumnPrefix(sensorId: SensorKey): string {
+  return sensorId.toLowerCase().replace(/[^a-z0-9]+/g, '_')
+}
+
+// * Convert a session.csv row to the reading columns of a wide-format row
+/**
+ *
+ * @param row
+ */
+function toSensorColumns(row: CsvRow | null | undefined): SensorColumns {
+  return {
+    sensor_id: row?.sensor_id ?? null,
+    mode: row?.mode ?? null,
+    value: row?.value ?? null,
+    TempC: row?.TempC ?? null,
+    Vin: row?.Vin ?? null,
+  }
+}
+
+// * Check if a wide-format row has a value from a sensor
+/**
+ *
+ * @param row
+ * @param sensorId
+ */
+function hasSensorValue(row: WideFormatRow, sensorId: SensorKey): boolean {
+  const value = row.sensors[sensorId]?.value
+  return value !== null && value !== undefined
 }
 
 // * Check if fusion has already been performed for this session by looking for unified_session.csv.
@@ -1372,6 +3130,52 @@ export async function isFusionComplete(sessionRoot: string): Promise<boolean> {
   return fileExists(unifiedPath)
 }
 
+/**
+ * Abort the fusion runs in progress for a session.
+ * @param sessionRoot - Unified session root
+ * @returns True if a run was cancelled
+ */
+export function cancelFusion(sessionRoot: string): boolean {
+  const runs = activeFusions.get(sessionRoot)
+  if (!runs || runs.size === 0) return false
+  runs.forEach((controller) => controller.abort())
+  return true
+}
+
+/**
+ * Fusion status to store in sync_metadata.json for a fusion result
+ * @param result - Result of fuseSessionData
+ * @returns Fusion status
+ */
+function fusionStatusFromResult(result: FusionResult): FusionStatus {
+  const completedAt = new Date().toISOString()
+  if (result.success && result.unifiedCsvPath) {
+    return {
+      status: 'complete',
+      unifiedCsv: path.basename(result.unifiedCsvPath),
+      rowCount: result.totalRows ?? null,
+      inWaterRows: result.inWaterRows ?? null,
+      surfaceRows: result.surfaceRows ?? null,
+      sensorRows: result.sensorRows ?? null,
+      completedAt,
+      error: null,
+      options: result.options,
+    }
+  }
+
+  const skipped = result.error?.includes('skipping unified fusion') ?? false
+  return {
+    status: skipped ? 'skipped' : 'failed',
+    unifiedCsv: null,
+    rowCount: null,
+    inWaterRows: null,
+    surfaceRows: null,
+    completedAt,
+    error: result.error ?? 'Unknown fusion error',
+    options: result.options,
+  }
+}
+
 // ============================================================================
 // IPC Service Setup
 // ============================================================================
@@ -1381,6 +3185,13 @@ export async function isFusionComplete(sessionRoot: string): Promise<boolean> {
  * Enables renderer to query fusion status and trigger manual fusion.
  */
 export function setupQSensorFusionService(): void {
+  // Forward the progress of every run, manual or triggered by a finished recording
+  fusionProgressListener = (progress) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('qsensor:fusion-progress', progress)
+    })
+  }
+
   // Get fusion status from sync_metadata.json
   ipcMain.handle('qsensor:get-fusion-status', async (_event, sessionRoot: string) => {
     try {
@@ -1411,24 +3222,39 @@ export function setupQSensorFusionService(): void {
   })
 
   // Manually trigger fusion (for already-recorded sessions)
-  ipcMain.handle('qsensor:trigger-manual-fusion', async (_event, sessionRoot: string) => {
-    try {
-      if (!sessionRoot) {
-        return { success: false, error: 'No session root provided' }
+  // Options are stored with the fusion status, so a later run without options reuses them
+  ipcMain.handle(
+    'qsensor:trigger-manual-fusion',
+    async (_event, sessionRoot: string, fusionOptions?: Partial<QSensorFusionOptions>) => {
+      try {
+        if (!sessionRoot) {
+          return { success: false, error: 'No session root provided' }
+        }
+
+        const syncMetadata = await readSyncMetadata(sessionRoot)
+        if (!syncMetadata) {
+          return { success: false, error: 'sync_metadata.json not found' }
+        }
+
+        console.log(`[QSensor Fusion] Manual fusion triggered for ${sessionRoot}`)
+        const result = await fuseSessionData(sessionRoot, syncMetadata, { fusion: fusionOptions })
+
+        // * Record the outcome so the session library reflects the re-run; a cancelled run changed nothing
+        if (!result.cancelled) {
+          await updateFusionStatus(sessionRoot, fusionStatusFromResult(result))
+        }
+        return result
+      } catch (error: any) {
+        console.error('[QSensor Fusion] Manual fusion failed:', error)
+        return { success: false, error: error.message }
       }
-
-      const syncMetadata = await readSyncMetadata(sessionRoot)
-      if (!syncMetadata) {
-        return { success: false, error: 'sync_metadata.json not found' }
-      }
-
-      console.log(`[QSensor Fusion] Manual fusion triggered for ${sessionRoot}`)
-      const result = await fuseSessionData(sessionRoot, syncMetadata)
-      return result
-    } catch (error: any) {
-      console.error('[QSensor Fusion] Manual fusion failed:', error)
-      return { success: false, error: error.message }
     }
+  )
+
+  // Cancel the fusion runs of a session
+  ipcMain.handle('qsensor:cancel-fusion', async (_event, sessionRoot: string) => {
+    const cancelled = cancelFusion(sessionRoot)
+    return cancelled ? { success: true } : { success: false, error: 'No fusion running for this session' }
   })
 
   console.log('[QSensor Fusion] Service registered')
@@ -8,26 +8,34 @@
 // * - SHA256 checksum calculation per chunk
 // * - Manifest.json generation and incremental updates
 // * - Session finalization (combine chunks → session.csv)
+// * - Startup recovery of sessions interrupted by a crash (manifest without stopped_at)
 // * REFERENCE:
 // * - Mirrors Python ChunkWriter behavior from q_sensor_lib
 // * - Follows patterns from qsensor-mirror.ts (Pi-side recorder)
 // * - Integrates with Phase 2 QSeriesSerialController
 // * CSV SCHEMA:
-// * timestamp,sensor_id,mode,value,TempC,Vin
-// * 2025-11-18T12:00:01.123456+00:00,SN12345,freerun,123.456789,21.34,12.345
+// * timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value
+// * 2025-11-18T12:00:01.123456+00:00,SN12345,freerun,123.456789,21.34,12.345,0.123456789
+// * calibrated_value is empty when the sensor has no calibration record.
+// * GAP rows mark a serial disconnect: timestamp is when the link dropped, value is the gap length in ms.
 
 import * as crypto from 'crypto'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { v4 as uuidv4 } from 'uuid'
 
-import { areBothSensorsComplete, fuseSessionData, isFusionComplete } from './qsensor-fusion'
+import type { QSensorCalibrationRecord } from '@/types/qsensor'
+
+import { formatCalibratedValue } from './qsensor-calibration'
+import { areAllSensorsComplete, fuseSessionData, isFusionComplete } from './qsensor-fusion'
 import { QSeriesReading } from './qsensor-protocol'
 import {
   buildSensorDirectoryName,
   buildUnifiedSessionRoot,
   ensureSyncMetadata,
   readSyncMetadata,
+  SensorKey,
+  SyncMetadataSensorInfo,
   updateFusionStatus,
   updateSensorMetadata,
 } from './qsensor-session-utils'
@@ -117,6 +125,69 @@ export interface RecordingManifest {
    *
    */
   session_sha256?: string
+  // NOTE: Set when the session was finalized by startup recovery instead of stopSession
+  /**
+   *
+   */
+  recovered_at?: string
+  /**
+   * Chunks whose checksum did not match during recovery (renamed to .corrupt and left out of session.csv)
+   */
+  corrupt_chunks?: string[]
+  /**
+   * Serial disconnects the recording survived
+   */
+  gaps?: RecordingGap[]
+}
+
+// * Serial disconnect bridged by auto-reconnect
+/**
+ *
+ */
+export interface RecordingGap {
+  /**
+   *
+   */
+  started_at: string
+  /**
+   *
+   */
+  ended_at: string
+  /**
+   *
+   */
+  duration_ms: number
+}
+
+// * Result of recovering one interrupted session at startup
+/**
+ *
+ */
+export interface RecoveredSession {
+  /**
+   *
+   */
+  sessionId: string
+  /**
+   *
+   */
+  rootPath: string
+  /**
+   *
+   */
+  status: 'finalized' | 'failed'
+  /**
+   *
+   */
+  totalRows: number
+  /**
+   *
+   */
+  corruptChunks: string[]
+  /**
+   *
+   */
+  error?: string
 }
 
 // * Recording session state
@@ -140,6 +211,10 @@ interface LocalRecordingSession {
    *
    */
   sessionRoot?: string
+  /**
+   *
+   */
+  sessionSensor: SensorKey // Key of the sensor in sync_metadata.json
   /**
    *
    */
@@ -176,6 +251,14 @@ interface LocalRecordingSession {
    *
    */
   syncId: string // UUID for sync marker pairing
+  /**
+   *
+   */
+  calibration: QSensorCalibrationRecord | null // Applied to each reading as calibrated_value
+  /**
+   *
+   */
+  gaps: RecordingGap[]
 }
 
 // * Parameters for starting a recording session
@@ -209,6 +292,20 @@ export interface StartRecordingParams {
    *
    */
   syncId?: string
+  // Calibration record for the sensor; calibrated_value is left empty without one
+  /**
+   *
+   */
+  calibration?: QSensorCalibrationRecord | null
+  // Key of the sensor in the unified session (defaults to 'surface') and its role/label
+  /**
+   *
+   */
+  sessionSensor?: SensorKey
+  /**
+   *
+   */
+  sessionSensorInfo?: Pick<SyncMetadataSensorInfo, 'role' | 'label'>
 }
 
 // * Recording statistics
@@ -249,9 +346,12 @@ export interface RecordingStats {
 const FLUSH_INTERVAL_MS = 200 // Matches Python ChunkWriter
 const DEFAULT_ROLL_INTERVAL_S = 60 // 60 seconds per chunk
 const MAX_BUFFER_SIZE = 10000 // Maximum readings in memory
-const CSV_HEADER = 'timestamp,sensor_id,mode,value,TempC,Vin'
+const CSV_HEADER = 'timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value'
 const MANIFEST_SCHEMA_VERSION = 1
 const CHUNK_NAME_PATTERN = /^chunk_(\d{5})\.csv$/
+const CHUNK_TMP_NAME_PATTERN = /^chunk_(\d{5})\.csv\.tmp$/
+const GAP_MARKER_MODE = 'GAP'
+const RECOVERY_SCAN_DEPTH = 3 // {storage}/{mission}/session_{timestamp}/{sensor}_{sessionId}
 
 // ============================================================================
 // Helper Functions
@@ -266,12 +366,14 @@ function formatChunkName(index: number): string {
   return `chunk_${index.toString().padStart(5, '0')}.csv`
 }
 
-// * Convert QSeriesReading to CSV row
+// * Convert QSeriesReading to CSV row (sync and gap markers are never calibrated)
 /**
  *
  * @param reading
+ * @param calibration
  */
-function readingToCSVRow(reading: QSeriesReading): string {
+function readingToCSVRow(reading: QSeriesReading, calibration: QSensorCalibrationRecord | null): string {
+  const isMarker = String(reading.mode).startsWith('SYNC_') || String(reading.mode) === GAP_MARKER_MODE
   return [
     reading.timestamp_utc,
     reading.sensor_id,
@@ -279,6 +381,7 @@ function readingToCSVRow(reading: QSeriesReading): string {
     reading.value.toString(),
     reading.TempC?.toString() ?? '',
     reading.Vin?.toString() ?? '',
+    isMarker ? '' : formatCalibratedValue(reading.value, calibration),
   ].join(',')
 }
 
@@ -321,7 +424,11 @@ async function atomicWrite(targetPath: string, content: string): Promise<void> {
  * @param syncId
  * @param markerType
  */
-function createSyncMarkerReading(sensorId: string, syncId: string, markerType: 'START' | 'STOP'): QSeriesReading {
+function createSyncMarkerReading(
+  sensorId: string,
+  syncId: string,
+  markerType: 'START' | 'STOP' | 'PERIODIC'
+): QSeriesReading {
   return {
     timestamp_utc: new Date().toISOString(),
     timestamp_monotonic_ns: BigInt(Math.floor(performance.now() * 1e6)),
@@ -333,6 +440,37 @@ function createSyncMarkerReading(sensorId: string, syncId: string, markerType: '
   }
 }
 
+// * Create a gap marker reading for a serial disconnect (timestamped when the link dropped)
+/**
+ *
+ * @param sensorId
+ * @param gap
+ */
+function createGapMarkerReading(sensorId: string, gap: RecordingGap): QSeriesReading {
+  return {
+    timestamp_utc: gap.started_at,
+    timestamp_monotonic_ns: BigInt(Math.floor(performance.now() * 1e6)),
+    sensor_id: sensorId,
+    mode: GAP_MARKER_MODE as any,
+    value: gap.duration_ms,
+    TempC: 0,
+    Vin: 0,
+  }
+}
+
+// * Drop a trailing partial row left by a write interrupted mid-line
+/**
+ *
+ * @param content
+ */
+function trimPartialRow(content: string): string {
+  if (content === '' || content.endsWith('\n')) {
+    return content
+  }
+  const lastNewline = content.lastIndexOf('\n')
+  return lastNewline === -1 ? '' : content.slice(0, lastNewline + 1)
+}
+
 // ============================================================================
 // QSeriesLocalRecorder Class
 // ============================================================================
@@ -402,16 +540,18 @@ export class QSeriesLocalRecorder {
     }
 
     // Create session directory with unified layout if timestamp provided (Phase 4+)
-    // Structure: {storage}/{mission}/session_{timestamp}/surface_{sessionId}/
+    // Structure: {storage}/{mission}/session_{timestamp}/{sensor}_{sessionId}/ (surface_ by default)
     // Otherwise fall back to legacy: {storage}/{mission}/surface_{sessionId}/
+    const sessionSensor = params.sessionSensor ?? 'surface'
     let rootPath: string
     let sessionRoot: string | undefined
     if (params.unifiedSessionTimestamp) {
       sessionRoot = buildUnifiedSessionRoot(storagePath, params.mission, params.unifiedSessionTimestamp)
-      const directoryName = buildSensorDirectoryName('surface', sessionId)
+      const directoryName = buildSensorDirectoryName(sessionSensor, sessionId)
       rootPath = path.join(sessionRoot, directoryName)
       await ensureSyncMetadata(sessionRoot, params.mission, params.unifiedSessionTimestamp)
-      await updateSensorMetadata(sessionRoot, 'surface', {
+      await updateSensorMetadata(sessionRoot, sessionSensor, {
+        ...params.sessionSensorInfo,
         sessionId,
         directory: directoryName,
         startedAt: startedAt,
@@ -445,6 +585,7 @@ export class QSeriesLocalRecorder {
       sensorId: params.sensorId,
       rootPath,
       sessionRoot,
+      sessionSensor,
       started_at: startedAt,
       readingBuffer: [],
       currentChunkIndex: 0,
@@ -454,6 +595,8 @@ export class QSeriesLocalRecorder {
       lastChunkRollTime: Date.now(),
       flushIntervalId: null,
       syncId,
+      calibration: params.calibration ?? null,
+      gaps: [],
     }
 
     // Inject START sync marker as first reading
@@ -499,6 +642,22 @@ export class QSeriesLocalRecorder {
     }
   }
 
+  // * Add an intermediate SYNC_PERIODIC marker (manual "mark" during the dive), in line with the readings.
+  /**
+   *
+   * @param sessionId
+   * @param syncId - Shared by every sensor marked at the same moment
+   */
+  addSyncMarker(sessionId: string, syncId: string): void {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`)
+    }
+
+    session.readingBuffer.push(createSyncMarkerReading(session.sensorId, syncId, 'PERIODIC'))
+    console.log(`[QSeriesLocalRecorder] Injected SYNC_PERIODIC marker (syncId: ${syncId.slice(0, 8)}...)`)
+  }
+
   // * Stop recording session and finalize: stop flushing, finalize chunk, combine CSV, verify, and clean up.
   /**
    *
@@ -529,40 +688,16 @@ export class QSeriesLocalRecorder {
     // Finalize the current chunk (rename .tmp, calculate SHA256, update manifest)
     await this.finalizeCurrentChunk(session)
 
-    // Update manifest with stopped_at timestamp
+    // Update manifest with stopped_at timestamp and any serial gaps bridged by reconnects
     const manifest = await this.readManifest(session.rootPath)
     manifest.stopped_at = new Date().toISOString()
-    await this.writeManifest(session.rootPath, manifest)
-
-    // Combine chunks into session.csv
-    await this.combineChunksIntoSessionFile(session)
-
-    // Calculate session.csv checksum and update manifest
-    const sessionCsvPath = path.join(session.rootPath, 'session.csv')
-    const sessionSha256 = await computeSHA256(sessionCsvPath)
-    const finalManifest = await this.readManifest(session.rootPath)
-    finalManifest.session_sha256 = sessionSha256
-    await this.writeManifest(session.rootPath, finalManifest)
-
-    if (session.sessionRoot) {
-      const relativeCsv = path.relative(session.sessionRoot, sessionCsvPath)
-      await updateSensorMetadata(session.sessionRoot, 'surface', {
-        stoppedAt: finalManifest.stopped_at,
-        sessionCsv: relativeCsv,
-        bytesRecorded: finalManifest.total_bytes,
-      })
+    if (session.gaps.length > 0) {
+      manifest.gaps = session.gaps
     }
+    await this.writeManifest(session.rootPath, manifest)
 
-    // Verify session.csv integrity
-    await this.verifySessionFile(session)
-
-    // Delete chunk files (keep manifest.json and session.csv)
-    await this.cleanupChunkFiles(session)
-
-    // Attempt fusion if both sensors are complete
-    if (session.sessionRoot) {
-      await this.attemptFusion(session.sessionRoot)
-    }
+    // Combine chunks into session.csv, verify, clean up, and fuse
+    await this.finalizeSessionFiles(session.rootPath, session.sessionRoot, session.sessionSensor)
 
     // Remove session from active sessions
     this.sessions.delete(sessionId)
@@ -570,6 +705,30 @@ export class QSeriesLocalRecorder {
     console.log(`[QSeriesLocalRecorder] Session stopped: ${sessionId}`)
   }
 
+  // * Record a serial disconnect the session survived: a GAP row is written where the data stops.
+  /**
+   *
+   * @param sessionId
+   * @param startedAt - When the serial link dropped
+   * @param endedAt - When acquisition resumed
+   */
+  recordGap(sessionId: string, startedAt: string, endedAt: string): void {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      console.warn(`[QSeriesLocalRecorder] Session not found: ${sessionId}`)
+      return
+    }
+
+    const gap: RecordingGap = {
+      started_at: startedAt,
+      ended_at: endedAt,
+      duration_ms: Math.max(0, new Date(endedAt).getTime() - new Date(startedAt).getTime()),
+    }
+    session.gaps.push(gap)
+    session.readingBuffer.push(createGapMarkerReading(session.sensorId, gap))
+    console.warn(`[QSeriesLocalRecorder] Recorded ${gap.duration_ms}ms gap in session ${sessionId}`)
+  }
+
   // * Get recording statistics for a session.
   /**
    *
@@ -593,6 +752,244 @@ export class QSeriesLocalRecorder {
     }
   }
 
+  // * Find sessions left without stopped_at (app crash) under the storage path and finalize them.
+  // * Chunk checksums are validated first; the chunk that was being written is kept up to its last full row.
+  /**
+   *
+   * @param storagePath
+   */
+  async recoverInterruptedSessions(storagePath?: string): Promise<RecoveredSession[]> {
+    const scanRoot = storagePath ?? this.defaultStoragePath
+    if (!scanRoot) {
+      throw new Error('Storage path not configured. Set via setDefaultStoragePath() or pass in params.')
+    }
+
+    const activeRoots = new Set([...this.sessions.values()].map((session) => session.rootPath))
+    const recovered: RecoveredSession[] = []
+
+    for (const rootPath of await this.findManifestDirectories(scanRoot, RECOVERY_SCAN_DEPTH)) {
+      if (activeRoots.has(rootPath)) continue
+
+      let manifest: RecordingManifest
+      try {
+        manifest = await this.readManifest(rootPath)
+      } catch (error) {
+        console.warn(`[QSeriesLocalRecorder] Unreadable manifest in ${rootPath}:`, error)
+        continue
+      }
+      if (manifest.stopped_at || !Array.isArray(manifest.chunks)) continue
+
+      recovered.push(await this.recoverSession(rootPath, manifest))
+    }
+
+    if (recovered.length > 0) {
+      console.log(`[QSeriesLocalRecorder] Recovered ${recovered.length} interrupted session(s) in ${scanRoot}`)
+    }
+    return recovered
+  }
+
+  // ========================================================================
+  // Internal Methods: Recovery
+  // ========================================================================
+
+  // * Finalize one interrupted session: validate chunks, promote the open chunk, then run the stop pipeline.
+  /**
+   *
+   * @param rootPath
+   * @param manifest
+   */
+  private async recoverSession(rootPath: string, manifest: RecordingManifest): Promise<RecoveredSession> {
+    console.warn(`[QSeriesLocalRecorder] Recovering interrupted session ${manifest.session_id} in ${rootPath}`)
+
+    try {
+      const corruptChunks = await this.validateChunks(rootPath, manifest)
+      await this.promoteUnfinalizedChunks(rootPath, manifest)
+
+      // NOTE: stopped_at is the last recorded row, not the recovery time, so the session window stays honest
+      const recoveredManifest = await this.readManifest(rootPath)
+      recoveredManifest.stopped_at = (await this.findLastRowTimestamp(rootPath)) ?? recoveredManifest.started_at
+      recoveredManifest.recovered_at = new Date().toISOString()
+      if (corruptChunks.length > 0) {
+        recoveredManifest.corrupt_chunks = corruptChunks
+      }
+      await this.writeManifest(rootPath, recoveredManifest)
+
+      const unified = await this.findUnifiedSession(rootPath, manifest.session_id)
+      await this.finalizeSessionFiles(rootPath, unified?.sessionRoot, unified?.sessionSensor)
+
+      return {
+        sessionId: manifest.session_id,
+        rootPath,
+        status: 'finalized',
+        totalRows: recoveredManifest.total_rows,
+        corruptChunks,
+      }
+    } catch (error: any) {
+      console.error(`[QSeriesLocalRecorder] Recovery failed for ${manifest.session_id}:`, error)
+      return {
+        sessionId: manifest.session_id,
+        rootPath,
+        status: 'failed',
+        totalRows: manifest.total_rows,
+        corruptChunks: [],
+        error: error.message || String(error),
+      }
+    }
+  }
+
+  // * Check finalized chunks against their manifest checksums.
+  // * Missing or mismatching chunks are dropped from the manifest; mismatching files are kept as .corrupt.
+  /**
+   *
+   * @param rootPath
+   * @param manifest
+   */
+  private async validateChunks(rootPath: string, manifest: RecordingManifest): Promise<string[]> {
+    const corruptChunks: string[] = []
+    const validChunks: ChunkMetadata[] = []
+
+    for (const chunk of manifest.chunks) {
+      const chunkPath = path.join(rootPath, chunk.name)
+      if (!(await this.fileExists(chunkPath))) {
+        console.warn(`[QSeriesLocalRecorder] Chunk missing during recovery: ${chunk.name}`)
+        corruptChunks.push(chunk.name)
+        continue
+      }
+
+      const sha256 = await computeSHA256(chunkPath)
+      if (sha256 !== chunk.sha256) {
+        console.warn(`[QSeriesLocalRecorder] Checksum mismatch for ${chunk.name}, excluding from session.csv`)
+        await fs.rename(chunkPath, chunkPath + '.corrupt')
+        corruptChunks.push(chunk.name)
+        continue
+      }
+
+      validChunks.push(chunk)
+    }
+
+    if (corruptChunks.length > 0) {
+      manifest.chunks = validChunks
+      manifest.total_rows = validChunks.reduce((sum, chunk) => sum + chunk.rows, 0)
+      manifest.total_bytes = validChunks.reduce((sum, chunk) => sum + chunk.size_bytes, 0)
+      await this.writeManifest(rootPath, manifest)
+    }
+
+    return corruptChunks
+  }
+
+  // * Finalize chunks the manifest doesn't know about: the open .tmp chunk and chunks renamed just before the crash.
+  /**
+   *
+   * @param rootPath
+   * @param manifest
+   */
+  private async promoteUnfinalizedChunks(rootPath: string, manifest: RecordingManifest): Promise<void> {
+    const knownIndexes = new Set(manifest.chunks.map((chunk) => chunk.index))
+    const files = (await fs.readdir(rootPath)).sort()
+
+    for (const file of files) {
+      const tmpMatch = CHUNK_TMP_NAME_PATTERN.exec(file)
+      const chunkMatch = CHUNK_NAME_PATTERN.exec(file)
+      const index = Number((tmpMatch ?? chunkMatch)?.[1])
+      if ((!tmpMatch && !chunkMatch) || knownIndexes.has(index)) continue
+
+      if (tmpMatch) {
+        const tmpPath = path.join(rootPath, file)
+        const content = trimPartialRow(await fs.readFile(tmpPath, 'utf-8'))
+        if (content.trim() === '') {
+          await fs.unlink(tmpPath)
+          continue
+        }
+        await fs.writeFile(tmpPath, content, 'utf-8')
+      }
+
+      console.log(`[QSeriesLocalRecorder] Promoting unfinalized chunk ${formatChunkName(index)}`)
+      await this.finalizeChunk(rootPath, index)
+      knownIndexes.add(index)
+    }
+  }
+
+  // * Timestamp of the last data row in the newest chunk, if any.
+  /**
+   *
+   * @param rootPath
+   */
+  private async findLastRowTimestamp(rootPath: string): Promise<string | null> {
+    const files = await fs.readdir(rootPath)
+    const chunkFiles = files.filter((name) => CHUNK_NAME_PATTERN.test(name)).sort()
+
+    for (const chunkFile of chunkFiles.reverse()) {
+      const content = await fs.readFile(path.join(rootPath, chunkFile), 'utf-8')
+      const lines = content.split('\n').filter((line) => line.trim() !== '')
+      for (const line of lines.slice(1).reverse()) {
+        const timestamp = line.split(',')[0]
+        if (!isNaN(new Date(timestamp).getTime())) {
+          return new Date(timestamp).toISOString()
+        }
+      }
+    }
+    return null
+  }
+
+  // * Locate the unified session (parent sync_metadata.json) a sensor directory belongs to.
+  /**
+   *
+   * @param rootPath
+   * @param sessionId
+   */
+  private async findUnifiedSession(
+    rootPath: string,
+    sessionId: string
+  ): Promise<{
+    /**
+     *
+     */
+    sessionRoot: string
+    /**
+     *
+     */
+    sessionSensor: SensorKey
+  } | null> {
+    const sessionRoot = path.dirname(rootPath)
+    const syncMetadata = await readSyncMetadata(sessionRoot)
+    if (!syncMetadata) {
+      return null
+    }
+
+    const entry = Object.entries(syncMetadata.sensors).find(([, info]) => info?.sessionId === sessionId)
+    return entry ? { sessionRoot, sessionSensor: entry[0] } : null
+  }
+
+  // * Directories holding a manifest.json, searched up to maxDepth levels below dir.
+  /**
+   *
+   * @param dir
+   * @param maxDepth
+   */
+  private async findManifestDirectories(dir: string, maxDepth: number): Promise<string[]> {
+    let entries
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch {
+      return [] // NOTE: Storage path not created yet
+    }
+
+    if (entries.some((entry) => entry.isFile() && entry.name === 'manifest.json')) {
+      return [dir]
+    }
+    if (maxDepth === 0) {
+      return []
+    }
+
+    const found: string[] = []
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        found.push(...(await this.findManifestDirectories(path.join(dir, entry.name), maxDepth - 1)))
+      }
+    }
+    return found
+  }
+
   // ========================================================================
   // Internal Methods: Fusion
   // ========================================================================
@@ -618,13 +1015,13 @@ export class QSeriesLocalRecorder {
         return
       }
 
-      // NOTE: Wait until both sensors have completed before running fusion
-      if (!areBothSensorsComplete(syncMetadata)) {
-        console.log(`[QSeriesLocalRecorder] Waiting for both sensors to complete before fusion`)
+      // NOTE: Wait until every recording sensor has completed before running fusion
+      if (!areAllSensorsComplete(syncMetadata)) {
+        console.log(`[QSeriesLocalRecorder] Waiting for all sensors to complete before fusion`)
         return
       }
 
-      console.log(`[QSeriesLocalRecorder] Both sensors complete, triggering fusion...`)
+      console.log(`[QSeriesLocalRecorder] All sensors complete, triggering fusion...`)
 
       // * Perform fusion
       const result = await fuseSessionData(sessionRoot, syncMetadata)
@@ -637,6 +1034,7 @@ export class QSeriesLocalRecorder {
           rowCount: result.totalRows ?? null,
           inWaterRows: result.inWaterRows ?? null,
           surfaceRows: result.surfaceRows ?? null,
+          sensorRows: result.sensorRows ?? null,
           completedAt: new Date().toISOString(),
           error: null,
         })
@@ -720,7 +1118,7 @@ export class QSeriesLocalRecorder {
     }
 
     for (const reading of session.readingBuffer) {
-      csvContent += readingToCSVRow(reading) + '\n'
+      csvContent += readingToCSVRow(reading, session.calibration) + '\n'
     }
 
     const _rowsInBuffer = session.readingBuffer.length // Reserved for future logging
@@ -761,8 +1159,18 @@ export class QSeriesLocalRecorder {
    * @param session
    */
   private async finalizeCurrentChunk(session: LocalRecordingSession): Promise<void> {
-    const chunkName = formatChunkName(session.currentChunkIndex)
-    const chunkPath = path.join(session.rootPath, chunkName)
+    await this.finalizeChunk(session.rootPath, session.currentChunkIndex)
+  }
+
+  // * Finalize a chunk by index (shared by recording and recovery).
+  /**
+   *
+   * @param rootPath
+   * @param index
+   */
+  private async finalizeChunk(rootPath: string, index: number): Promise<void> {
+    const chunkName = formatChunkName(index)
+    const chunkPath = path.join(rootPath, chunkName)
     const chunkTmpPath = chunkPath + '.tmp'
 
     // NOTE: Only finalize when a .tmp exists
@@ -786,10 +1194,10 @@ export class QSeriesLocalRecorder {
     const rows = lines.length - 1 // Exclude header
 
     // * Update manifest
-    const manifest = await this.readManifest(session.rootPath)
+    const manifest = await this.readManifest(rootPath)
 
     const chunkMetadata: ChunkMetadata = {
-      index: session.currentChunkIndex,
+      index,
       name: chunkName,
       rows,
       sha256,
@@ -798,11 +1206,11 @@ export class QSeriesLocalRecorder {
     }
 
     manifest.chunks.push(chunkMetadata)
-    manifest.next_chunk_index = session.currentChunkIndex + 1
+    manifest.next_chunk_index = Math.max(manifest.next_chunk_index, index + 1)
     manifest.total_rows += rows
     manifest.total_bytes += sizeBytes
 
-    await this.writeManifest(session.rootPath, manifest)
+    await this.writeManifest(rootPath, manifest)
 
     console.log(
       `[QSeriesLocalRecorder] Finalized ${chunkName}: ${rows} rows, ${sizeBytes} bytes, SHA256: ${sha256.slice(
@@ -816,24 +1224,68 @@ export class QSeriesLocalRecorder {
   // Internal Methods: Session Finalization
   // ========================================================================
 
+  // * Build session.csv from the finalized chunks, record its checksum, update sync metadata, and fuse.
+  // * Expects the manifest to already have stopped_at.
+  /**
+   *
+   * @param rootPath
+   * @param sessionRoot
+   * @param sessionSensor
+   */
+  private async finalizeSessionFiles(
+    rootPath: string,
+    sessionRoot: string | undefined,
+    sessionSensor: SensorKey | undefined
+  ): Promise<void> {
+    // Combine chunks into session.csv
+    await this.combineChunksIntoSessionFile(rootPath)
+
+    // Calculate session.csv checksum and update manifest
+    const sessionCsvPath = path.join(rootPath, 'session.csv')
+    const sessionSha256 = await computeSHA256(sessionCsvPath)
+    const finalManifest = await this.readManifest(rootPath)
+    finalManifest.session_sha256 = sessionSha256
+    await this.writeManifest(rootPath, finalManifest)
+
+    if (sessionRoot && sessionSensor) {
+      const relativeCsv = path.relative(sessionRoot, sessionCsvPath)
+      await updateSensorMetadata(sessionRoot, sessionSensor, {
+        stoppedAt: finalManifest.stopped_at,
+        sessionCsv: relativeCsv,
+        bytesRecorded: finalManifest.total_bytes,
+      })
+    }
+
+    // Verify session.csv integrity
+    await this.verifySessionFile(rootPath)
+
+    // Delete chunk files (keep manifest.json and session.csv)
+    await this.cleanupChunkFiles(rootPath)
+
+    // Attempt fusion if all sensors are complete
+    if (sessionRoot) {
+      await this.attemptFusion(sessionRoot)
+    }
+  }
+
   // * Combine all chunk files into session.csv using atomic write pattern.
   // * Writes a single header, then appends all data rows in order.
   /**
    *
-   * @param session
+   * @param rootPath
    */
-  private async combineChunksIntoSessionFile(session: LocalRecordingSession): Promise<void> {
-    const sessionCsvPath = path.join(session.rootPath, 'session.csv')
+  private async combineChunksIntoSessionFile(rootPath: string): Promise<void> {
+    const sessionCsvPath = path.join(rootPath, 'session.csv')
     const sessionCsvTmpPath = sessionCsvPath + '.tmp'
 
     console.log(`[QSeriesLocalRecorder] Combining chunks into session.csv...`)
 
     // * Get all chunk files sorted by index
-    const files = await fs.readdir(session.rootPath)
+    const files = await fs.readdir(rootPath)
     const chunkFiles = files.filter((name) => CHUNK_NAME_PATTERN.test(name)).sort() // Lexicographic sort works due to zero-padding
 
     if (chunkFiles.length === 0) {
-      console.warn(`[QSeriesLocalRecorder] No chunks found for session ${session.session_id}`)
+      console.warn(`[QSeriesLocalRecorder] No chunks found in ${rootPath}`)
       // NOTE: Create empty session.csv with just header
       await atomicWrite(sessionCsvPath, CSV_HEADER + '\n')
       return
@@ -843,7 +1295,7 @@ export class QSeriesLocalRecorder {
     let totalRowsWritten = 0
 
     for (const chunkFile of chunkFiles) {
-      const chunkPath = path.join(session.rootPath, chunkFile)
+      const chunkPath = path.join(rootPath, chunkFile)
       const content = await fs.readFile(chunkPath, 'utf-8')
       const lines = content.split('\n')
 
@@ -876,11 +1328,11 @@ export class QSeriesLocalRecorder {
   // * Verify session.csv integrity by comparing against manifest row counts.
   /**
    *
-   * @param session
+   * @param rootPath
    */
-  private async verifySessionFile(session: LocalRecordingSession): Promise<void> {
-    const sessionCsvPath = path.join(session.rootPath, 'session.csv')
-    const manifest = await this.readManifest(session.rootPath)
+  private async verifySessionFile(rootPath: string): Promise<void> {
+    const sessionCsvPath = path.join(rootPath, 'session.csv')
+    const manifest = await this.readManifest(rootPath)
 
     const content = await fs.readFile(sessionCsvPath, 'utf-8')
     const lines = content.split('\n').filter((line) => line.trim() !== '')
@@ -898,14 +1350,14 @@ export class QSeriesLocalRecorder {
   // * Delete chunk files after successful session.csv creation while preserving manifest.json and session.csv.
   /**
    *
-   * @param session
+   * @param rootPath
    */
-  private async cleanupChunkFiles(session: LocalRecordingSession): Promise<void> {
-    const files = await fs.readdir(session.rootPath)
+  private async cleanupChunkFiles(rootPath: string): Promise<void> {
+    const files = await fs.readdir(rootPath)
     const chunkFiles = files.filter((name) => CHUNK_NAME_PATTERN.test(name))
 
     for (const chunkFile of chunkFiles) {
-      const chunkPath = path.join(session.rootPath, chunkFile)
+      const chunkPath = path.join(rootPath, chunkFile)
       await fs.unlink(chunkPath)
       console.log(`[QSeriesLocalRecorder] Deleted chunk file: ${chunkFile}`)
     }
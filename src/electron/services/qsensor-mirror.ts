@@ -9,16 +9,19 @@ import * as path from 'path'
 import { v4 as uuidv4 } from 'uuid'
 
 import store from './config-store'
-import { areBothSensorsComplete, fuseSessionData, isFusionComplete } from './qsensor-fusion'
+import { areAllSensorsComplete, fuseSessionData, isFusionComplete } from './qsensor-fusion'
 import {
   buildSensorDirectoryName,
   buildUnifiedSessionRoot,
   ensureSyncMetadata,
   getSyncMetadataPath,
   readSyncMetadata,
+  SensorKey,
+  SyncMetadataSensorInfo,
   updateFusionStatus,
   updateSensorMetadata,
 } from './qsensor-session-utils'
+import { startClockDriftTracking, stopClockDriftTracking } from './qsensor-time-sync'
 import { validateAndNormalizeQSensorUrl } from './url-validator'
 
 /**
@@ -78,9 +81,9 @@ interface MirrorSession {
    */
   syncId: string | null
   /**
-   * Sensor identifier ('inWater' or 'surface')
+   * Sensor identifier ('inWater', 'surface' or an added sensor's id)
    */
-  sensorId: 'inWater' | 'surface'
+  sensorId: SensorKey
 }
 
 const activeSessions = new Map<string, MirrorSession>()
@@ -95,7 +98,7 @@ const activeSessions = new Map<string, MirrorSession>()
 async function injectPiSyncMarker(
   session: MirrorSession,
   syncId: string,
-  markerType: 'START' | 'STOP'
+  markerType: 'START' | 'STOP' | 'PERIODIC'
 ): Promise<boolean> {
   const syncUrl = `${session.apiBaseUrl}/record/sync-marker`
 
@@ -156,13 +159,13 @@ async function attemptFusion(sessionRoot: string): Promise<void> {
       return
     }
 
-    // NOTE: Wait until both sensors have finalized before triggering fusion
-    if (!areBothSensorsComplete(syncMetadata)) {
-      console.log(`[QSensor Mirror] Waiting for both sensors to complete before fusion`)
+    // NOTE: Wait until every recording sensor has finalized before triggering fusion
+    if (!areAllSensorsComplete(syncMetadata)) {
+      console.log(`[QSensor Mirror] Waiting for all sensors to complete before fusion`)
       return
     }
 
-    console.log(`[QSensor Mirror] Both sensors complete, triggering fusion...`)
+    console.log(`[QSensor Mirror] All sensors complete, triggering fusion...`)
 
     // * Perform fusion
     const result = await fuseSessionData(sessionRoot, syncMetadata)
@@ -175,6 +178,7 @@ async function attemptFusion(sessionRoot: string): Promise<void> {
         rowCount: result.totalRows ?? null,
         inWaterRows: result.inWaterRows ?? null,
         surfaceRows: result.surfaceRows ?? null,
+        sensorRows: result.sensorRows ?? null,
         completedAt: new Date().toISOString(),
         error: null,
       })
@@ -460,6 +464,7 @@ async function pollAndMirror(session: MirrorSession): Promise<void> {
  * @param unifiedSessionTimestamp
  * @param syncId
  * @param sensorId
+ * @param sensorInfo - Role and label stored with the sensor in sync_metadata.json
  */
 export async function startMirrorSession(
   sessionId: string,
@@ -469,7 +474,8 @@ export async function startMirrorSession(
   fullBandwidth: boolean,
   unifiedSessionTimestamp?: string,
   syncId?: string,
-  sensorId?: 'inWater' | 'surface'
+  sensorId?: SensorKey,
+  sensorInfo?: Pick<SyncMetadataSensorInfo, 'role' | 'label'>
 ): Promise<{
   /**
 ))))))))))))) *
@@ -552,6 +558,7 @@ sssssssssssssssssssssss
     if (unifiedRoot && unifiedSessionTimestamp) {
       await ensureSyncMetadata(unifiedRoot, missionName, unifiedSessionTimestamp)
       await updateSensorMetadata(unifiedRoot, actualSensorId, {
+        ...sensorInfo,
         sessionId,
         directory: buildSensorDirectoryName(actualSensorId, sessionId),
         startedAt: new Date().toISOString(),
@@ -593,6 +600,11 @@ sssssssssssssssssssssss
     // Inject START sync marker into Pi recording
     await injectPiSyncMarker(session, sessionSyncId, 'START')
 
+    // Track the Pi clock offset during the recording so fusion can correct drift across the session
+    if (unifiedRoot) {
+      startClockDriftTracking(unifiedRoot, actualSensorId, normalizedUrl)
+    }
+
     // NOTE: Log the URL that will be polled
     const snapshotsUrl = `${session.apiBaseUrl}/record/snapshots?session_id=${session.sessionId}`
     console.log(`[QSensor Mirror] Will poll: ${snapshotsUrl} every ${session.cadenceSec}s`)
@@ -908,6 +920,11 @@ ssssssssssssssssss
     }
     console.log(`[QSensor Mirror] Polling stopped for session ${sessionId}`)
 
+    // Final offset burst while the Pi is still recording
+    if (session.sessionRoot) {
+      await stopClockDriftTracking(session.sessionRoot, session.sensorId)
+    }
+
     // Inject STOP sync marker before finalizing recording on Pi
     if (session.syncId) {
       await injectPiSyncMarker(session, session.syncId, 'STOP')
@@ -1041,6 +1058,34 @@ sssssssssssss
   }
 }
 
+// * Inject an intermediate sync marker into a mirrored Pi recording (manual "mark" during the dive).
+/**
+ *
+ * @param sessionId
+ * @param syncId - Shared by every sensor marked at the same moment
+ */
+export async function injectSyncMarker(
+  sessionId: string,
+  syncId: string
+): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  error?: string
+}> {
+  const session = activeSessions.get(sessionId)
+  if (!session) {
+    return { success: false, error: 'Session not found' }
+  }
+
+  const injected = await injectPiSyncMarker(session, syncId, 'PERIODIC')
+  return injected ? { success: true } : { success: false, error: 'Pi rejected the sync marker' }
+}
+
 // * Setup IPC handlers for Q-Sensor mirroring.
 /**
  *
@@ -1057,10 +1102,13 @@ export function setupQSensorMirrorService(): void {
       fullBandwidth,
       unifiedSessionTimestamp?,
       syncId?,
-      sensorId?: 'inWater' | 'surface'
+      sensorId?: SensorKey,
+      sensorInfo?: Pick<SyncMetadataSensorInfo, 'role' | 'label'>
     ) => {
       console.log(
-        `[QSensor Mirror] IPC start request: session=${sessionId}, sensorId=${sensorId ?? 'inWater'}, apiBaseUrl=${apiBaseUrl}, cadence=${
+        `[QSensor Mirror] IPC start request: session=${sessionId}, sensorId=${
+          sensorId ?? 'inWater'
+        }, apiBaseUrl=${apiBaseUrl}, cadence=${
           fullBandwidth ? 2 : cadenceSec
         }s, fullBandwidth=${fullBandwidth}, unifiedTimestamp=${unifiedSessionTimestamp}, syncId=${syncId ?? 'auto'}`
       )
@@ -1072,7 +1120,8 @@ export function setupQSensorMirrorService(): void {
         fullBandwidth,
         unifiedSessionTimestamp,
         syncId,
-        sensorId
+        sensorId,
+        sensorInfo
       )
     }
   )
@@ -1085,5 +1134,9 @@ export function setupQSensorMirrorService(): void {
     return getSessionStats(sessionId)
   })
 
+  ipcMain.handle('qsensor:inject-sync-marker', async (_event, sessionId: string, syncId: string) => {
+    return await injectSyncMarker(sessionId, syncId)
+  })
+
   console.log('[QSensor Mirror] Service registered')
 }
@@ -0,0 +1,798 @@
+/**
+ * Q-Sensor Mock API Server (TypeScript)
+ *
+ * A local stand-in for the Pi-side Q_Sensor_API, served from the Electron main process so the in-water
+ * path (qsensor-control, qsensor-mirror and qsensor-time-sync) can run end to end without a vehicle.
+ *
+ * BEHAVIOR:
+ * - Same endpoints and response shapes as Q_Sensor_API (see src/libs/qsensor-client.ts)
+ * - The sensor is a QSeriesSerialController attached to the simulated Q-Series device, like the Pi's own
+ *   controller attached to the real serial port
+ * - The "Pi clock" runs with a configurable offset and drift; it stamps /api/sync/time, readings,
+ *   sync markers and chunk rows, so time-sync and fusion have a skew to measure and correct
+ * - Recordings roll into chunk_NNNNN.csv files every roll_interval_s, listed with SHA256 by /record/snapshots
+ *
+ * USAGE:
+ * Start it from the connection controls (or qsensor:start-mock-api) and use the returned URL,
+ * e.g. http://127.0.0.1:9150, as the sensor's API URL.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { ipcMain } from 'electron'
+import * as fs from 'fs/promises'
+import * as http from 'http'
+import type { AddressInfo, Socket } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+
+import type { QSeriesReading } from './qsensor-protocol'
+import { ConnectionState, QSeriesSerialController } from './qsensor-serial-controller'
+import { SIMULATED_PORT_PATH } from './qsensor-serial-simulator'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Mock server configuration
+ */
+export interface QSensorMockApiOptions {
+  /**
+   * TCP port to listen on (0 picks a free port)
+   */
+  port: number
+  /**
+   * Pi clock offset from the host clock at server start (ms, positive = Pi ahead)
+   */
+  clockOffsetMs: number
+  /**
+   * Pi clock drift relative to the host clock (ms per minute, positive = Pi gaining)
+   */
+  clockDriftMsPerMin: number
+  /**
+   * Serial number reported by the simulated sensor
+   */
+  serialNumber: string
+  /**
+   * Mean value of the simulated signal
+   */
+  baseValue: number
+  /**
+   * Standard deviation of the simulated noise
+   */
+  noiseStdDev: number
+}
+
+/**
+ * Mock server state reported to the renderer
+ */
+export interface QSensorMockApiStatus {
+  /**
+   * Whether the server is listening
+   */
+  running: boolean
+  /**
+   * Base URL to use as the sensor's API URL (null when stopped)
+   */
+  url: string | null
+  /**
+   * Options the server was started with
+   */
+  options: QSensorMockApiOptions
+}
+
+/**
+ * One finalized chunk, in the /record/snapshots format
+ */
+interface MockChunk {
+  /**
+   *
+   */
+  index: number
+  /**
+   *
+   */
+  name: string
+  /**
+   *
+   */
+  size_bytes: number
+  /**
+   *
+   */
+  sha256: string
+  /**
+   *
+   */
+  rows: number
+}
+
+/**
+ * Recording session held by the mock server
+ */
+interface MockRecording {
+  /**
+   *
+   */
+  sessionId: string
+  /**
+   * Directory holding the session's chunk files
+   */
+  dir: string
+  /**
+   *
+   */
+  state: 'recording' | 'stopped'
+  /**
+   * Rows waiting for the next chunk roll
+   */
+  pendingRows: string[]
+  /**
+   *
+   */
+  chunks: MockChunk[]
+  /**
+   *
+   */
+  rows: number
+  /**
+   *
+   */
+  bytes: number
+  /**
+   *
+   */
+  rollTimer: ReturnType<typeof setInterval> | null
+  /**
+   * Serializes chunk writes so rolls and stop never interleave
+   */
+  writeQueue: Promise<void>
+}
+
+/**
+ * Error answered as an HTTP status with a FastAPI-style { detail } body
+ */
+class MockApiError extends Error {
+  /**
+   *
+   * @param status - HTTP status code
+   * @param message - Detail returned to the client
+   */
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'MockApiError'
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_MOCK_API_OPTIONS: QSensorMockApiOptions = {
+  port: 9150,
+  clockOffsetMs: 250,
+  clockDriftMsPerMin: 2,
+  serialNumber: 'SIM-INWATER',
+  baseValue: 450,
+  noiseStdDev: 2,
+}
+
+// NOTE: Same schema as the Pi's chunk files and the local recorder (without calibrated_value)
+const CHUNK_CSV_HEADER = 'timestamp,sensor_id,mode,value,TempC,Vin'
+
+const MOCK_CONTAINER_VERSION = 'mock-1.0'
+const MOCK_SCHEMA_VERSION = 1
+const DEFAULT_ROLL_INTERVAL_S = 60
+
+// ============================================================================
+// Mock Server
+// ============================================================================
+
+/**
+ * Embedded HTTP server implementing the Q_Sensor_API endpoints used by Cockpit.
+ */
+export class QSensorMockApiServer {
+  readonly options: QSensorMockApiOptions
+  private server: http.Server | null = null
+  private sockets = new Set<Socket>()
+  private baseUrl: string | null = null
+  private dataDir: string | null = null
+  private clockEpochMs = Date.now()
+  private controller: QSeriesSerialController | null = null
+  private connectedPort: string | null = null
+  private latestReading: QSeriesReading | null = null
+  private recordings = new Map<string, MockRecording>()
+  private activeRecording: MockRecording | null = null
+
+  /**
+   *
+   * @param options - Overrides for DEFAULT_MOCK_API_OPTIONS
+   */
+  constructor(options: Partial<QSensorMockApiOptions> = {}) {
+    this.options = { ...DEFAULT_MOCK_API_OPTIONS, ...options }
+  }
+
+  /**
+   * Base URL of the running server, or null when stopped
+   */
+  get url(): string | null {
+    return this.baseUrl
+  }
+
+  /**
+   * Start listening on 127.0.0.1. The Pi clock epoch (start of drift) is reset.
+   * @returns Base URL of the server
+   */
+  async start(): Promise<string> {
+    if (this.server && this.baseUrl) return this.baseUrl
+
+    this.dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-mock-api-'))
+    this.clockEpochMs = Date.now()
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res)
+    })
+    server.on('connection', (socket) => {
+      this.sockets.add(socket)
+      socket.once('close', () => this.sockets.delete(socket))
+    })
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.options.port, '127.0.0.1', () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    this.server = server
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    console.log(`[QSensor Mock API] Listening on ${this.baseUrl} (data: ${this.dataDir})`)
+    return this.baseUrl
+  }
+
+  /**
+   * Stop recording and acquisition, close the server and delete the recorded chunks.
+   */
+  async stop(): Promise<void> {
+    if (this.activeRecording) {
+      await this.finishRecording(this.activeRecording)
+    }
+    await this.disconnectSensor()
+
+    if (this.server) {
+      const server = this.server
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve())
+        // NOTE: Keep-alive connections would hold close() open
+        this.sockets.forEach((socket) => socket.destroy())
+      })
+      this.server = null
+      this.baseUrl = null
+    }
+
+    if (this.dataDir) {
+      await fs.rm(this.dataDir, { recursive: true, force: true })
+      this.dataDir = null
+    }
+    this.recordings.clear()
+    console.log('[QSensor Mock API] Stopped')
+  }
+
+  /**
+   * Time on the simulated Pi clock.
+   * @param hostMs - Host time (Date.now() by default)
+   * @returns Pi time in ms since epoch
+   */
+  piTimeMs(hostMs = Date.now()): number {
+    const elapsedMin = (hostMs - this.clockEpochMs) / 60000
+    return Math.round(hostMs + this.options.clockOffsetMs + this.options.clockDriftMsPerMin * elapsedMin)
+  }
+
+  /**
+   * Current server state.
+   * @returns Running flag, URL and options
+   */
+  getStatus(): QSensorMockApiStatus {
+    return { running: this.server !== null, url: this.baseUrl, options: { ...this.options } }
+  }
+
+  // ========================================================================
+  // Request Handling
+  // ========================================================================
+
+  /**
+   * Dispatch a request and write the JSON (or file) response.
+   * @param req - Incoming request
+   * @param res - Server response
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1')
+    const route = `${req.method} ${url.pathname}`
+
+    try {
+      if (req.method === 'GET' && url.pathname.startsWith('/files/')) {
+        const content = await this.readChunkFile(url.pathname)
+        res.writeHead(200, { 'Content-Type': 'text/csv', 'Content-Length': content.length })
+        res.end(content)
+        return
+      }
+
+      const body = req.method === 'POST' ? await readJsonBody(req) : {}
+      const data = await this.route(route, url.searchParams, body)
+      sendJson(res, 200, data)
+    } catch (error: any) {
+      const status = error instanceof MockApiError ? error.status : 500
+      if (status === 500) console.error(`[QSensor Mock API] ${route} failed:`, error)
+      sendJson(res, status, { detail: error.message })
+    }
+  }
+
+  /**
+   * Handle one JSON endpoint.
+   * @param route - "METHOD /path"
+   * @param params - Query parameters
+   * @param body - Parsed JSON body (empty for GET)
+   * @returns Response body
+   */
+  private async route(route: string, params: URLSearchParams, body: Record<string, any>): Promise<unknown> {
+    switch (route) {
+      case 'GET /api/sync/time': {
+        const piMs = this.piTimeMs()
+        return {
+          pi_iso: new Date(piMs).toISOString(),
+          pi_unix_ms: piMs,
+          container_version: MOCK_CONTAINER_VERSION,
+          schema_version: MOCK_SCHEMA_VERSION,
+        }
+      }
+      case 'POST /sensor/connect':
+        return this.connectSensor(params.get('port') || '/dev/ttyUSB0', Number(params.get('baud')) || 9600)
+      case 'POST /disconnect':
+      case 'POST /sensor/disconnect':
+        if (this.activeRecording) await this.finishRecording(this.activeRecording)
+        await this.disconnectSensor()
+        return { status: 'disconnected' }
+      case 'GET /instrument/health':
+        return this.health()
+      case 'GET /sensor/latest':
+        if (!this.latestReading) throw new MockApiError(404, 'No reading available')
+        return {
+          timestamp: this.latestReading.timestamp_utc,
+          sensor_id: this.latestReading.sensor_id,
+          mode: this.latestReading.mode,
+          value: this.latestReading.value,
+          TempC: this.latestReading.TempC ?? null,
+          Vin: this.latestReading.Vin ?? null,
+        }
+      case 'POST /sensor/start':
+        return this.startAcquisition(Number(params.get('poll_hz')) || 1)
+      case 'POST /sensor/stop':
+        return this.stopAcquisition()
+      case 'POST /record/start':
+        return this.startRecording(body)
+      case 'POST /record/stop':
+        return this.stopRecording(String(body.session_id ?? ''))
+      case 'GET /record/status':
+        return this.recordingStatus(params.get('session_id') || '')
+      case 'POST /record/sync-marker':
+        return this.syncMarker(String(body.session_id ?? ''), String(body.sync_id ?? ''), body.marker_type)
+      case 'GET /record/snapshots':
+        return this.getRecording(params.get('session_id') || '').chunks
+      default:
+        throw new MockApiError(404, `Not Found: ${route}`)
+    }
+  }
+
+  // ========================================================================
+  // Sensor
+  // ========================================================================
+
+  /**
+   * Connect the simulated sensor through the serial controller.
+   * @param port - Port requested by the client (reported by health; the simulated device is always used)
+   * @param baud - Baud rate
+   * @returns Connect response
+   */
+  private async connectSensor(port: string, baud: number): Promise<unknown> {
+    if (this.controller) {
+      return { status: 'already_connected', sensor_id: this.controller.getSensorId() }
+    }
+
+    const controller = new QSeriesSerialController()
+    controller.on('reading', (reading: QSeriesReading) => this.handleReading(reading))
+    const uri = new URL(SIMULATED_PORT_PATH)
+    uri.searchParams.set('serial', this.options.serialNumber)
+    uri.searchParams.set('value', String(this.options.baseValue))
+    uri.searchParams.set('noise', String(this.options.noiseStdDev))
+
+    try {
+      await controller.connect(uri.toString(), baud)
+    } catch (error: any) {
+      throw new MockApiError(503, `Sensor connection failed: ${error.message}`)
+    }
+    this.controller = controller
+    this.connectedPort = port
+    return { status: 'connected', sensor_id: controller.getSensorId() }
+  }
+
+  /**
+   * Disconnect the simulated sensor (no-op when not connected).
+   */
+  private async disconnectSensor(): Promise<void> {
+    if (!this.controller) return
+    const controller = this.controller
+    this.controller = null
+    this.connectedPort = null
+    this.latestReading = null
+    await controller.disconnect()
+    controller.removeAllListeners()
+  }
+
+  /**
+   * Health in the /instrument/health format.
+   * @returns Health response
+   */
+  private health(): unknown {
+    const config = this.controller?.getConfig()
+    return {
+      connected: this.controller !== null,
+      port: this.connectedPort,
+      model: this.controller ? 'Q-Series (simulated)' : null,
+      firmware: config?.firmware_version ?? null,
+      // NOTE: The Pi reports null when it cannot read its disk; chunks here live in the OS temp dir
+      disk_free_bytes: null,
+      config: config
+        ? {
+            rateHz: config.adc_rate_hz,
+            internalAveraging: config.averaging,
+            mode: config.mode,
+            tag: config.tag,
+            calFactor: config.calfactor,
+            includeTemp: config.include_temp,
+            includeVin: config.include_vin,
+          }
+        : null,
+    }
+  }
+
+  /**
+   * Start acquisition in the sensor's configured mode.
+   * @param pollHz - Poll rate used in polled mode
+   * @returns Start response
+   */
+  private async startAcquisition(pollHz: number): Promise<unknown> {
+    const controller = this.requireController()
+    const state = controller.getState()
+    if (state === ConnectionState.ACQ_FREERUN || state === ConnectionState.ACQ_POLLED) {
+      return { status: 'already_started', mode: controller.getConfig().mode }
+    }
+    await controller.startAcquisition(pollHz)
+    return { status: 'started', mode: controller.getConfig().mode, poll_hz: pollHz }
+  }
+
+  /**
+   * Stop acquisition and return the sensor to its menu.
+   * @returns Stop response
+   */
+  private async stopAcquisition(): Promise<unknown> {
+    const controller = this.requireController()
+    const state = controller.getState()
+    if (state === ConnectionState.ACQ_FREERUN || state === ConnectionState.ACQ_POLLED) {
+      await controller.stop()
+    }
+    return { status: 'stopped' }
+  }
+
+  /**
+   * Restamp a reading with the Pi clock and append it to the active recording.
+   * @param reading - Reading from the controller (host-clock timestamp)
+   */
+  private handleReading(reading: QSeriesReading): void {
+    const piReading = { ...reading, timestamp_utc: new Date(this.piTimeMs()).toISOString() }
+    this.latestReading = piReading
+    if (this.activeRecording) {
+      this.appendRow(this.activeRecording, formatChunkRow(piReading))
+    }
+  }
+
+  /**
+   * Connected controller, or a 409 when no sensor is connected.
+   * @returns Serial controller
+   */
+  private requireController(): QSeriesSerialController {
+    if (!this.controller) throw new MockApiError(409, 'Sensor not connected')
+    return this.controller
+  }
+
+  // ========================================================================
+  // Recording
+  // ========================================================================
+
+  /**
+   * Start a chunked recording of the acquired readings.
+   * @param body - { rate_hz, schema_version, mission, roll_interval_s }
+   * @returns Record start response
+   */
+  private async startRecording(body: Record<string, any>): Promise<unknown> {
+    const state = this.requireController().getState()
+    if (state !== ConnectionState.ACQ_FREERUN && state !== ConnectionState.ACQ_POLLED) {
+      throw new MockApiError(409, 'Acquisition not running; call /sensor/start first')
+    }
+    if (this.activeRecording) {
+      throw new MockApiError(409, `Recording already in progress (session ${this.activeRecording.sessionId})`)
+    }
+
+    const sessionId = randomUUID()
+    const dir = path.join(this.dataDir!, sessionId)
+    await fs.mkdir(dir, { recursive: true })
+
+    const rollIntervalS = Number(body.roll_interval_s) > 0 ? Number(body.roll_interval_s) : DEFAULT_ROLL_INTERVAL_S
+    const recording: MockRecording = {
+      sessionId,
+      dir,
+      state: 'recording',
+      pendingRows: [],
+      chunks: [],
+      rows: 0,
+      bytes: 0,
+      rollTimer: null,
+      writeQueue: Promise.resolve(),
+    }
+    recording.rollTimer = setInterval(() => this.rollChunk(recording), rollIntervalS * 1000)
+    this.recordings.set(sessionId, recording)
+    this.activeRecording = recording
+
+    console.log(`[QSensor Mock API] Recording ${sessionId} started (roll every ${rollIntervalS}s)`)
+    return {
+      session_id: sessionId,
+      started_at: new Date(this.piTimeMs()).toISOString(),
+      rate_hz: Number(body.rate_hz) || 500,
+      schema_version: Number(body.schema_version) || MOCK_SCHEMA_VERSION,
+    }
+  }
+
+  /**
+   * Stop a recording and finalize its last chunk.
+   * @param sessionId - Recording session id
+   * @returns Record stop response
+   */
+  private async stopRecording(sessionId: string): Promise<unknown> {
+    const recording = this.getRecording(sessionId)
+    await this.finishRecording(recording)
+    return {
+      session_id: sessionId,
+      stopped_at: new Date(this.piTimeMs()).toISOString(),
+      chunks: recording.chunks.length,
+      rows: recording.rows,
+    }
+  }
+
+  /**
+   * Status in the /record/status format.
+   * @param sessionId - Recording session id
+   * @returns Record status response
+   */
+  private recordingStatus(sessionId: string): unknown {
+    const recording = this.getRecording(sessionId)
+    return {
+      session_id: sessionId,
+      state: recording.state,
+      rows: recording.rows,
+      bytes: recording.bytes,
+      last_chunk_index: recording.chunks.length - 1,
+      backlog: recording.pendingRows.length,
+    }
+  }
+
+  /**
+   * Write a SYNC_START / SYNC_STOP / SYNC_PERIODIC marker row into the recording.
+   * @param sessionId - Recording session id
+   * @param syncId - Shared sync id
+   * @param markerType - START, STOP or PERIODIC
+   * @returns Marker timestamp on the Pi clock
+   */
+  private syncMarker(sessionId: string, syncId: string, markerType: unknown): unknown {
+    const recording = this.getRecording(sessionId)
+    if (markerType !== 'START' && markerType !== 'STOP' && markerType !== 'PERIODIC') {
+      throw new MockApiError(422, `Invalid marker_type: ${markerType}`)
+    }
+    if (recording.state !== 'recording') {
+      throw new MockApiError(409, `Session ${sessionId} is not recording`)
+    }
+
+    const timestamp = new Date(this.piTimeMs()).toISOString()
+    const markerValue = parseInt(syncId.slice(0, 8), 16) || 0
+    const sensorId = this.controller?.getSensorId() ?? this.options.serialNumber
+    this.appendRow(recording, `${timestamp},${sensorId},SYNC_${markerType},${markerValue},0,0`)
+    return { timestamp, sync_id: syncId, marker_type: markerType }
+  }
+
+  /**
+   * Recording by id, or a 404.
+   * @param sessionId - Recording session id
+   * @returns Recording
+   */
+  private getRecording(sessionId: string): MockRecording {
+    const recording = this.recordings.get(sessionId)
+    if (!recording) throw new MockApiError(404, `Unknown session: ${sessionId}`)
+    return recording
+  }
+
+  /**
+   * Queue a CSV row for the next chunk.
+   * @param recording - Target recording
+   * @param row - CSV row without line ending
+   */
+  private appendRow(recording: MockRecording, row: string): void {
+    recording.pendingRows.push(row)
+    recording.rows++
+  }
+
+  /**
+   * Stop the roll timer and write the remaining rows as the final chunk.
+   * @param recording - Recording to finish
+   */
+  private async finishRecording(recording: MockRecording): Promise<void> {
+    if (recording.rollTimer) {
+      clearInterval(recording.rollTimer)
+      recording.rollTimer = null
+    }
+    if (this.activeRecording === recording) {
+      this.activeRecording = null
+    }
+    await this.rollChunk(recording)
+    recording.state = 'stopped'
+  }
+
+  /**
+   * Write the pending rows to the next chunk file (skipped when there are none).
+   * @param recording - Recording to roll
+   * @returns Promise resolved once the chunk is listed in the snapshots
+   */
+  private rollChunk(recording: MockRecording): Promise<void> {
+    recording.writeQueue = recording.writeQueue.then(async () => {
+      if (recording.pendingRows.length === 0) return
+
+      const rows = recording.pendingRows
+      recording.pendingRows = []
+      const index = recording.chunks.length
+      const name = `chunk_${String(index).padStart(5, '0')}.csv`
+      const content = Buffer.from([CHUNK_CSV_HEADER, ...rows].join('\n') + '\n', 'utf-8')
+
+      try {
+        await fs.writeFile(path.join(recording.dir, name), content)
+      } catch (error) {
+        // NOTE: Put the rows back so the next roll retries them
+        console.error(`[QSensor Mock API] Failed to write ${name}:`, error)
+        recording.pendingRows = [...rows, ...recording.pendingRows]
+        return
+      }
+
+      recording.chunks.push({
+        index,
+        name,
+        size_bytes: content.length,
+        sha256: createHash('sha256').update(content).digest('hex'),
+        rows: rows.length,
+      })
+      recording.bytes += content.length
+    })
+    return recording.writeQueue
+  }
+
+  /**
+   * Read a finalized chunk for GET /files/{session_id}/{chunk_name}.
+   * @param pathname - Request path
+   * @returns Chunk file content
+   */
+  private async readChunkFile(pathname: string): Promise<Buffer> {
+    const [, , sessionId, name] = pathname.split('/').map(decodeURIComponent)
+    const recording = this.getRecording(sessionId || '')
+    if (!recording.chunks.some((chunk) => chunk.name === name)) {
+      throw new MockApiError(404, `File not found: ${name}`)
+    }
+    return fs.readFile(path.join(recording.dir, name))
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a reading as a chunk CSV row.
+ * @param reading - Reading stamped with the Pi clock
+ * @returns CSV row without line ending
+ */
+function formatChunkRow(reading: QSeriesReading): string {
+  return [
+    reading.timestamp_utc,
+    reading.sensor_id,
+    reading.mode,
+    reading.value,
+    reading.TempC ?? '',
+    reading.Vin ?? '',
+  ].join(',')
+}
+
+/**
+ * Read and parse a JSON request body (empty body = {}).
+ * @param req - Incoming request
+ * @returns Parsed body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  const parts: Buffer[] = []
+  for await (const part of req) {
+    parts.push(part as Buffer)
+  }
+  const text = Buffer.concat(parts).toString('utf-8').trim()
+  if (!text) return {}
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new MockApiError(400, 'Invalid JSON body')
+  }
+}
+
+/**
+ * Write a JSON response.
+ * @param res - Server response
+ * @param status - HTTP status code
+ * @param data - Response body
+ */
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  const body = JSON.stringify(data)
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) })
+  res.end(body)
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+let mockServer: QSensorMockApiServer | null = null
+
+/**
+ * Setup IPC handlers for starting and stopping the mock Q_Sensor_API server.
+ */
+export function setupQSensorMockApiService(): void {
+  ipcMain.handle('qsensor:start-mock-api', async (_event, options?: Partial<QSensorMockApiOptions>) => {
+    try {
+      // NOTE: Restart so new clock and signal options take effect
+      if (mockServer) {
+        await mockServer.stop()
+      }
+      mockServer = new QSensorMockApiServer(options)
+      await mockServer.start()
+      return { success: true, data: mockServer.getStatus() }
+    } catch (error: any) {
+      console.error('[QSensor Mock API] Failed to start:', error)
+      mockServer = null
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:stop-mock-api', async () => {
+    try {
+      if (mockServer) {
+        await mockServer.stop()
+        mockServer = null
+      }
+      return { success: true }
+    } catch (error: any) {
+      console.error('[QSensor Mock API] Failed to stop:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:get-mock-api-status', async () => {
+    const status: QSensorMockApiStatus = mockServer?.getStatus() ?? {
+      running: false,
+      url: null,
+      options: { ...DEFAULT_MOCK_API_OPTIONS },
+    }
+    return { success: true, data: status }
+  })
+
+  console.log('[QSensor Mock API] Service registered')
+}
@@ -0,0 +1,640 @@
+/**
+ * Q-Sensor light profile analysis for Electron main process.
+ *
+ * Post-fusion stage: reads unified_session.csv, detects descent/ascent casts from vehicle depth,
+ * bins surface-normalized irradiance (in-water / surface) by depth and fits ln(E) vs depth to get
+ * the diffuse attenuation coefficient Kd for each cast.
+ *
+ * Outputs, next to unified_session.csv:
+ * - profile_summary.json: casts, Kd fits and bins
+ * - profile_bins.csv: one row per depth bin, for spreadsheets
+ */
+
+import { ipcMain } from 'electron'
+import { createReadStream } from 'fs'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as readline from 'readline'
+
+import { readSyncMetadata, updateSyncMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Vertical direction of a cast. Descent means depth increasing.
+ */
+export type CastDirection = 'descent' | 'ascent'
+
+/**
+ * Fused row usable for profiling: both sensors and a fresh vehicle depth.
+ */
+export interface ProfilePoint {
+  /** Epoch in milliseconds (topside clock) */
+  time: number
+  /** Vehicle depth in meters, positive down */
+  depthM: number
+  /** In-water irradiance */
+  inWater: number
+  /** Surface irradiance at the same time */
+  surface: number
+}
+
+/**
+ * Index range of the points forming one monotonic leg of the dive.
+ */
+export interface CastRange {
+  /** Whether the vehicle was going down or up */
+  direction: CastDirection
+  /** Index of the first point */
+  start: number
+  /** Index of the last point (inclusive) */
+  end: number
+}
+
+/**
+ * Cast detected in a fused session.
+ */
+export interface ProfileCast {
+  /** Cast number, in time order */
+  index: number
+  /** Whether the vehicle was going down or up */
+  direction: CastDirection
+  /** ISO timestamp of the first point */
+  startTime: string
+  /** ISO timestamp of the last point */
+  endTime: string
+  /** Shallowest depth reached during the cast */
+  minDepthM: number
+  /** Deepest depth reached during the cast */
+  maxDepthM: number
+  /** Number of fused rows in the cast */
+  pointCount: number
+}
+
+/**
+ * Surface-normalized irradiance statistics for one depth bin of a cast.
+ */
+export interface ProfileBin {
+  /** Cast this bin belongs to */
+  castIndex: number
+  /** Upper (shallow) edge of the bin */
+  depthMinM: number
+  /** Lower (deep) edge of the bin */
+  depthMaxM: number
+  /** Mean depth of the points in the bin */
+  meanDepthM: number
+  /** Number of points in the bin */
+  count: number
+  /** Mean in-water irradiance */
+  meanInWater: number
+  /** Mean surface irradiance */
+  meanSurface: number
+  /** Mean of in-water / surface */
+  meanNormalized: number
+  /** Sample standard deviation of in-water / surface (0 for single-point bins) */
+  stdNormalized: number
+  /** Mean of ln(in-water / surface), the value used for the Kd fit */
+  meanLnNormalized: number
+}
+
+/**
+ * Least-squares fit of ln(E) = intercept - Kd * depth over the bins of a cast.
+ */
+export interface KdFit {
+  /** Diffuse attenuation coefficient (1/m) */
+  kd: number
+  /** Standard error of Kd */
+  kdStdError: number
+  /** 95% confidence interval of Kd [low, high] */
+  kdCi95: [number, number]
+  /** Fitted ln(E) at zero depth */
+  intercept: number
+  /** Coefficient of determination */
+  rSquared: number
+  /** Number of bins used in the fit */
+  binCount: number
+}
+
+/**
+ * Cast with its fit, as stored in profile_summary.json.
+ */
+export interface ProfileCastSummary extends ProfileCast {
+  /** Number of depth bins in the cast */
+  binCount: number
+  /** Kd fit, or null when the cast has too few usable bins */
+  fit: KdFit | null
+}
+
+/**
+ * Content of profile_summary.json.
+ */
+export interface ProfileSummary {
+  /** Summary file format version */
+  schemaVersion: 1
+  /** ISO timestamp when the analysis ran */
+  generatedAt: string
+  /** Fused CSV the analysis was computed from, relative to the session root */
+  sourceCsv: string
+  /** Depth bin size in meters */
+  binSizeM: number
+  /** Number of fused rows with both sensors and a fresh vehicle depth */
+  pointCount: number
+  /** Detected casts and their fits */
+  casts: ProfileCastSummary[]
+  /** Depth bins of all casts */
+  bins: ProfileBin[]
+}
+
+/**
+ * Tunables for profile analysis.
+ */
+export interface ProfileAnalysisOptions {
+  /** Depth bin size in meters */
+  binSizeM?: number
+  /** Depth change against the current direction needed to start a new cast */
+  reversalM?: number
+  /** Minimum depth span for a leg to count as a cast */
+  minCastRangeM?: number
+  /** Unified CSV column of the in-water sensor to profile (default 'inwater_value') */
+  inWaterColumn?: string
+  /** Unified CSV column of the surface reference (default 'surface_value') */
+  surfaceColumn?: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROFILE_SUMMARY_FILENAME = 'profile_summary.json'
+export const PROFILE_BINS_FILENAME = 'profile_bins.csv'
+
+// Default depth bin size (meters)
+export const DEFAULT_PROFILE_BIN_SIZE_M = 0.5
+
+// Hysteresis on direction changes, so heave and depth-hold wobble don't split casts
+const DEFAULT_CAST_REVERSAL_M = 1.0
+
+// Legs shallower than this are station-keeping, not profiles
+const DEFAULT_MIN_CAST_RANGE_M = 2.0
+
+// A straight line through 2 bins has no residual, so Kd confidence needs at least 3
+const MIN_FIT_BINS = 3
+
+const PROFILE_BINS_HEADER =
+  'cast_index,cast_direction,depth_bin_min_m,depth_bin_max_m,mean_depth_m,count,mean_inwater,mean_surface,mean_normalized,std_normalized,mean_ln_normalized'
+
+// Two-sided 95% Student t critical values for 1..30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+]
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * Pick some fields of a CSV line, without splitting the columns past the last one picked.
+ * @param line - CSV line
+ * @param columns - Indexes of the fields to pick
+ * @returns Fields in the order of columns, '' for columns missing from the line
+ */
+function pickCsvFields(line: string, columns: number[]): string[] {
+  const lastColumn = columns.reduce((last, column) => Math.max(last, column), -1)
+  const fields = columns.map(() => '')
+  let start = 0
+  for (let column = 0; column <= lastColumn && start <= line.length; column++) {
+    const comma = line.indexOf(',', start)
+    const end = comma === -1 ? line.length : comma
+    columns.forEach((picked, index) => {
+      if (picked === column) fields[index] = line.slice(start, end)
+    })
+    start = end + 1
+  }
+  return fields
+}
+
+/**
+ * Read the profiling points of unified_session.csv, one line at a time so long sessions aren't loaded whole.
+ * Rows need both sensor values (> 0, so the log is defined) and a fresh vehicle depth at or below the surface.
+ * @param csvPath - Path of unified_session.csv
+ * @param inWaterColumn - Column holding the in-water values (sensor arrays have one per sensor)
+ * @param surfaceColumn - Column holding the surface reference values
+ * @returns Points sorted by time
+ */
+export async function readProfilePoints(
+  csvPath: string,
+  inWaterColumn = 'inwater_value',
+  surfaceColumn = 'surface_value'
+): Promise<ProfilePoint[]> {
+  const stream = createReadStream(csvPath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  const points: ProfilePoint[] = []
+
+  try {
+    let columns: number[] | null = null
+    let hasVehicleStatus = false
+    for await (const line of lines) {
+      if (line.trim().length === 0) continue
+
+      if (columns === null) {
+        const header = line.split(',')
+        columns = ['timestamp', inWaterColumn, surfaceColumn, 'vehicle_depth_m', 'vehicle_status'].map((name) =>
+          header.indexOf(name)
+        )
+        hasVehicleStatus = columns[4] !== -1
+        // NOTE: Sessions fused before vehicle telemetry existed have no depth column
+        if (columns.slice(0, 4).includes(-1)) return []
+        continue
+      }
+
+      // Only the columns profiled are kept, not the whole row
+      const [timestamp, inWaterField, surfaceField, depthField, vehicleStatus] = pickCsvFields(line, columns)
+      if (hasVehicleStatus && vehicleStatus !== 'fresh') continue
+
+      const time = Date.parse(timestamp)
+      const inWater = parseFloat(inWaterField)
+      const surface = parseFloat(surfaceField)
+      const depthM = parseFloat(depthField)
+      if (![time, inWater, surface, depthM].every(Number.isFinite)) continue
+      if (inWater <= 0 || surface <= 0 || depthM < 0) continue
+
+      points.push({ time, depthM, inWater, surface })
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+
+  return points.sort((a, b) => a.time - b.time)
+}
+
+// ============================================================================
+// Cast Detection
+// ============================================================================
+
+/**
+ * Split a dive into descent/ascent casts using a zig-zag on vehicle depth.
+ * A new leg starts once depth moves back by more than reversalM from the current extreme.
+ * @param points - Profile points sorted by time
+ * @param reversalM - Depth change against the current direction needed to turn
+ * @param minCastRangeM - Minimum depth span for a leg to be kept
+ * @returns Index ranges of the casts
+ */
+export function detectCasts(
+  points: ProfilePoint[],
+  reversalM = DEFAULT_CAST_REVERSAL_M,
+  minCastRangeM = DEFAULT_MIN_CAST_RANGE_M
+): CastRange[] {
+  const legs: CastRange[] = []
+  if (points.length < 2) return legs
+
+  let direction: CastDirection | null = null
+  let pivot = 0
+  let extreme = 0
+  // Until a direction is established, track both extremes so the first cast starts at the turning point
+  let shallowest = 0
+  let deepest = 0
+
+  for (let i = 1; i < points.length; i++) {
+    const depth = points[i].depthM
+
+    if (direction === null) {
+      if (depth < points[shallowest].depthM) shallowest = i
+      if (depth > points[deepest].depthM) deepest = i
+      if (depth - points[shallowest].depthM >= reversalM) {
+        direction = 'descent'
+        pivot = shallowest
+        extreme = i
+      } else if (points[deepest].depthM - depth >= reversalM) {
+        direction = 'ascent'
+        pivot = deepest
+        extreme = i
+      }
+      continue
+    }
+
+    const goingDown: boolean = direction === 'descent'
+    const extended = goingDown ? depth >= points[extreme].depthM : depth <= points[extreme].depthM
+    if (extended) {
+      extreme = i
+      continue
+    }
+
+    const reversal = goingDown ? points[extreme].depthM - depth : depth - points[extreme].depthM
+    if (reversal >= reversalM) {
+      legs.push({ direction, start: pivot, end: extreme })
+      direction = goingDown ? 'ascent' : 'descent'
+      pivot = extreme
+      extreme = i
+    }
+  }
+
+  if (direction !== null) {
+    legs.push({ direction, start: pivot, end: extreme })
+  }
+
+  return legs.filter((leg) => Math.abs(points[leg.end].depthM - points[leg.start].depthM) >= minCastRangeM)
+}
+
+// ============================================================================
+// Binning and Fitting
+// ============================================================================
+
+/**
+ * Bin the points of one cast by depth.
+ * @param points - Points of the cast
+ * @param castIndex - Cast number stored on each bin
+ * @param binSizeM - Depth bin size in meters
+ * @returns Bins sorted by depth
+ */
+export function binCastByDepth(points: ProfilePoint[], castIndex: number, binSizeM: number): ProfileBin[] {
+  const groups = new Map<number, ProfilePoint[]>()
+  for (const point of points) {
+    const key = Math.floor(point.depthM / binSizeM)
+    const group = groups.get(key)
+    if (group) group.push(point)
+    else groups.set(key, [point])
+  }
+
+  const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, group]) => {
+      const normalized = group.map((point) => point.inWater / point.surface)
+      const meanNormalized = mean(normalized)
+      const variance =
+        group.length > 1
+          ? normalized.reduce((sum, value) => sum + (value - meanNormalized) ** 2, 0) / (group.length - 1)
+          : 0
+
+      return {
+        castIndex,
+        depthMinM: key * binSizeM,
+        depthMaxM: (key + 1) * binSizeM,
+        meanDepthM: mean(group.map((point) => point.depthM)),
+        count: group.length,
+        meanInWater: mean(group.map((point) => point.inWater)),
+        meanSurface: mean(group.map((point) => point.surface)),
+        meanNormalized,
+        stdNormalized: Math.sqrt(variance),
+        meanLnNormalized: mean(normalized.map((value) => Math.log(value))),
+      }
+    })
+}
+
+/**
+ * Two-sided 95% Student t critical value.
+ * @param degreesOfFreedom - Degrees of freedom (>= 1)
+ * @returns Critical value (conservative beyond the table)
+ */
+function tCritical95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= T_CRITICAL_95.length) return T_CRITICAL_95[degreesOfFreedom - 1]
+  if (degreesOfFreedom < 60) return 2.021
+  if (degreesOfFreedom < 120) return 2.0
+  return 1.98
+}
+
+/**
+ * Fit ln(E) = intercept - Kd * depth by ordinary least squares over bin means.
+ * @param bins - Bins of one cast (or several casts for a combined fit)
+ * @returns Fit, or null with fewer than 3 bins or no depth spread
+ */
+export function fitKd(bins: ProfileBin[]): KdFit | null {
+  const n = bins.length
+  if (n < MIN_FIT_BINS) return null
+
+  const xs = bins.map((bin) => bin.meanDepthM)
+  const ys = bins.map((bin) => bin.meanLnNormalized)
+  const xMean = xs.reduce((sum, x) => sum + x, 0) / n
+  const yMean = ys.reduce((sum, y) => sum + y, 0) / n
+
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - xMean) ** 2
+    sxy += (xs[i] - xMean) * (ys[i] - yMean)
+    syy += (ys[i] - yMean) ** 2
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  const intercept = yMean - slope * xMean
+  const residualSumSquares = ys.reduce((sum, y, i) => sum + (y - (intercept + slope * xs[i])) ** 2, 0)
+  const slopeStdError = Math.sqrt(residualSumSquares / (n - 2) / sxx)
+  const halfWidth = tCritical95(n - 2) * slopeStdError
+  const kd = -slope
+
+  return {
+    kd,
+    kdStdError: slopeStdError,
+    kdCi95: [kd - halfWidth, kd + halfWidth],
+    intercept,
+    rSquared: syy > 0 ? 1 - residualSumSquares / syy : 1,
+    binCount: n,
+  }
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Run the full profile analysis over profiling points.
+ * @param points - Profile points sorted by time
+ * @param sourceCsv - Name of the fused CSV, stored in the summary
+ * @param options - Analysis tunables
+ * @returns Profile summary
+ */
+export function computeProfileSummary(
+  points: ProfilePoint[],
+  sourceCsv: string,
+  options: ProfileAnalysisOptions = {}
+): ProfileSummary {
+  const binSizeM = options.binSizeM && options.binSizeM > 0 ? options.binSizeM : DEFAULT_PROFILE_BIN_SIZE_M
+  const legs = detectCasts(points, options.reversalM, options.minCastRangeM)
+
+  const casts: ProfileCastSummary[] = []
+  const bins: ProfileBin[] = []
+  legs.forEach((leg, index) => {
+    const castPoints = points.slice(leg.start, leg.end + 1)
+    const castBins = binCastByDepth(castPoints, index, binSizeM)
+    // NOTE: Not Math.min(...depths): spreading the points of a long cast overflows the call stack
+    let minDepthM = Infinity
+    let maxDepthM = -Infinity
+    for (const point of castPoints) {
+      minDepthM = Math.min(minDepthM, point.depthM)
+      maxDepthM = Math.max(maxDepthM, point.depthM)
+    }
+
+    casts.push({
+      index,
+      direction: leg.direction,
+      startTime: new Date(castPoints[0].time).toISOString(),
+      endTime: new Date(castPoints[castPoints.length - 1].time).toISOString(),
+      minDepthM,
+      maxDepthM,
+      pointCount: castPoints.length,
+      binCount: castBins.length,
+      fit: fitKd(castBins),
+    })
+    bins.push(...castBins)
+  })
+
+  return {
+    schemaVersion: 1,
+    generatedAt: new Date().toISOString(),
+    sourceCsv,
+    binSizeM,
+    pointCount: points.length,
+    casts,
+    bins,
+  }
+}
+
+/**
+ * Build profile_bins.csv content.
+ * @param summary - Profile summary
+ * @returns CSV content
+ */
+function buildProfileBinsCsv(summary: ProfileSummary): string {
+  const directions = new Map(summary.casts.map((cast) => [cast.index, cast.direction]))
+  const lines = summary.bins.map((bin) =>
+    [
+      bin.castIndex,
+      directions.get(bin.castIndex) ?? '',
+      bin.depthMinM.toFixed(3),
+      bin.depthMaxM.toFixed(3),
+      bin.meanDepthM.toFixed(3),
+      bin.count,
+      bin.meanInWater.toPrecision(8),
+      bin.meanSurface.toPrecision(8),
+      bin.meanNormalized.toPrecision(8),
+      bin.stdNormalized.toPrecision(8),
+      bin.meanLnNormalized.toFixed(6),
+    ].join(',')
+  )
+  return [PROFILE_BINS_HEADER, ...lines].join('\n') + '\n'
+}
+
+/**
+ * Write a file atomically (tmp + rename).
+ * @param outputPath - Destination path
+ * @param content - File content
+ */
+async function writeFileAtomic(outputPath: string, content: string): Promise<void> {
+  const tmpPath = outputPath + '.tmp'
+  await fs.writeFile(tmpPath, content, 'utf-8')
+  await fs.rename(tmpPath, outputPath)
+}
+
+/**
+ * Analyze a fused session and write profile_summary.json and profile_bins.csv next to it.
+ * @param sessionRoot - Unified session root directory
+ * @param unifiedCsvPath - Path of the fused CSV
+ * @param options - Analysis tunables
+ * @returns Profile summary
+ */
+export async function analyzeSessionProfile(
+  sessionRoot: string,
+  unifiedCsvPath: string,
+  options: ProfileAnalysisOptions = {}
+): Promise<ProfileSummary> {
+  const points = await readProfilePoints(unifiedCsvPath, options.inWaterColumn, options.surfaceColumn)
+  const summary = computeProfileSummary(points, path.basename(unifiedCsvPath), options)
+
+  await writeFileAtomic(path.join(sessionRoot, PROFILE_SUMMARY_FILENAME), JSON.stringify(summary, null, 2))
+  await writeFileAtomic(path.join(sessionRoot, PROFILE_BINS_FILENAME), buildProfileBinsCsv(summary))
+
+  await updateSyncMetadata(sessionRoot, (metadata) => {
+    metadata.profile = {
+      summaryFile: PROFILE_SUMMARY_FILENAME,
+      binsFile: PROFILE_BINS_FILENAME,
+      castCount: summary.casts.length,
+      binSizeM: summary.binSizeM,
+      generatedAt: summary.generatedAt,
+      inWaterColumn: options.inWaterColumn,
+      surfaceColumn: options.surfaceColumn,
+    }
+  })
+
+  const fitted = summary.casts.filter((cast) => cast.fit !== null).length
+  console.log(
+    `[QSensor Profile] ${summary.casts.length} casts (${fitted} with Kd fit) from ${points.length} points in ${sessionRoot}`
+  )
+
+  return summary
+}
+
+/**
+ * Load profile_summary.json for a session, if the analysis has run.
+ * @param sessionRoot - Unified session root directory
+ * @returns Profile summary, or null when missing
+ */
+export async function loadProfileSummary(sessionRoot: string): Promise<ProfileSummary | null> {
+  const syncMetadata = await readSyncMetadata(sessionRoot)
+  const fileName = syncMetadata?.profile?.summaryFile ?? PROFILE_SUMMARY_FILENAME
+
+  try {
+    const content = await fs.readFile(path.join(sessionRoot, fileName), 'utf-8')
+    return JSON.parse(content) as ProfileSummary
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Sensor profile analysis.
+ * Enables renderer to load the profile summary and re-run the analysis with a different bin size.
+ */
+export function setupQSensorProfileService(): void {
+  ipcMain.handle('qsensor:get-profile-summary', async (_event, sessionRoot: string) => {
+    try {
+      if (!sessionRoot) {
+        return { success: false, error: 'No session root provided' }
+      }
+      return { success: true, data: await loadProfileSummary(sessionRoot) }
+    } catch (error: any) {
+      console.error('[QSensor Profile] Failed to load profile summary:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle(
+    'qsensor:run-profile-analysis',
+    async (_event, sessionRoot: string, options?: ProfileAnalysisOptions) => {
+      try {
+        if (!sessionRoot) {
+          return { success: false, error: 'No session root provided' }
+        }
+
+        const syncMetadata = await readSyncMetadata(sessionRoot)
+        const unifiedCsv = syncMetadata?.fusion?.unifiedCsv
+        if (!unifiedCsv) {
+          return { success: false, error: 'Session has not been fused yet' }
+        }
+
+        // Re-runs profile the same sensors as the analysis that ran after fusion
+        const summary = await analyzeSessionProfile(sessionRoot, path.join(sessionRoot, unifiedCsv), {
+          inWaterColumn: syncMetadata.profile?.inWaterColumn,
+          surfaceColumn: syncMetadata.profile?.surfaceColumn,
+          ...options,
+        })
+        return { success: true, data: summary }
+      } catch (error: any) {
+        console.error('[QSensor Profile] Profile analysis failed:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  console.log('[QSensor Profile] Service registered')
+}
@@ -44,6 +44,7 @@ export const MENU_CMD_EXIT = 'X' // Exit menu (triggers device reset)
 export const MENU_CMD_OUTPUTS = 'O' // Configure temp/voltage outputs
 export const MENU_CMD_QUIET = 'Q' // Set quiet mode (suppress banner)
 export const MENU_CMD_REDISPLAY = '?' // Redisplay menu
+export const MENU_CMD_PREAMBLE = 'P' // Set data frame preamble
 
 // ============================================================================
 // Polled Mode Commands
@@ -123,6 +124,22 @@ export const RE_MODE_PROMPT = /Select mode|Enter.*mode/i
 /** TAG prompt (for polled mode) */
 export const RE_TAG_PROMPT = /Enter TAG|TAG character/i
 
+/** Output prompts (when user presses 'O'), answered with Y or N */
+export const RE_OUTPUT_TEMP_PROMPT = /temperature.*\(Y\/N\)/i
+export const RE_OUTPUT_VIN_PROMPT = /voltage.*\(Y\/N\)/i
+
+/** Quiet mode prompt (when user presses 'Q'), answered with Y or N */
+export const RE_QUIET_PROMPT = /Quiet mode.*\(Y\/N\)/i
+
+/** Quiet mode confirmation */
+export const RE_QUIET_SET = /Quiet mode (on|off)/i
+
+/** Preamble prompt (when user presses 'P') */
+export const RE_PREAMBLE_PROMPT = /Enter preamble/i
+
+/** Preamble confirmation: Preamble set to "<text>" */
+export const RE_PREAMBLE_SET = /Preamble set to\s+"(.*)"/i
+
 /** Error messages */
 export const RE_ERROR_INVALID_AVERAGING = /Invalid number.*averaging set to 12/i
 export const RE_ERROR_INVALID_RATE = /Invalid rate.*Command is ignored/i
@@ -164,6 +181,10 @@ export const VALID_ADC_RATES = new Set([4, 8, 16, 33, 62, 125, 250, 500])
 export const AVERAGING_MIN = 1
 export const AVERAGING_MAX = 65535
 export const VALID_TAGS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+export const PREAMBLE_MAX_LENGTH = 10
+// NOTE: Digits, '-' and '.' would be read as part of the value; ',' separates the fields.
+// ESC would open the menu, validateConfigValues rejects it separately.
+export const RE_VALID_PREAMBLE = /^[^\d\-.,\r\n]*$/
 
 // ============================================================================
 // Type Definitions
@@ -255,6 +276,10 @@ export interface QSeriesSensorConfig {
    *
    */
   preamble: string
+  /**
+   * Banner suppressed after power-on and reset
+   */
+  quiet_mode: boolean
   /**
    *
    */
@@ -269,6 +294,43 @@ export interface QSeriesSensorConfig {
   firmware_version: string
 }
 
+/**
+ * Configuration fields that can be changed from the menu (the rest is reported by the device)
+ */
+export type QSeriesEditableConfig = Pick<
+  QSeriesSensorConfig,
+  'averaging' | 'adc_rate_hz' | 'mode' | 'tag' | 'include_temp' | 'include_vin' | 'quiet_mode' | 'preamble'
+>
+
+export const EDITABLE_CONFIG_FIELDS: (keyof QSeriesEditableConfig)[] = [
+  'averaging',
+  'adc_rate_hz',
+  'mode',
+  'tag',
+  'include_temp',
+  'include_vin',
+  'quiet_mode',
+  'preamble',
+]
+
+/**
+ * One changed configuration field
+ */
+export interface QSeriesConfigChange {
+  /**
+   *
+   */
+  field: keyof QSeriesEditableConfig
+  /**
+   *
+   */
+  before: QSeriesEditableConfig[keyof QSeriesEditableConfig]
+  /**
+   *
+   */
+  after: QSeriesEditableConfig[keyof QSeriesEditableConfig]
+}
+
 /**
  * Frame parsing result
  */
@@ -315,6 +377,58 @@ export class ProtocolError extends Error {
   }
 }
 
+// ============================================================================
+// Configuration Helpers
+// ============================================================================
+
+/**
+ * Check configuration values against the firmware limits.
+ * @param config - Values to check (fields that are not present are not checked)
+ * @returns Error messages, empty when every value is valid
+ */
+export function validateConfigValues(config: Partial<QSeriesEditableConfig>): string[] {
+  const errors: string[] = []
+  const { averaging, adc_rate_hz, mode, tag, preamble } = config
+
+  if (
+    averaging !== undefined &&
+    (!Number.isInteger(averaging) || averaging < AVERAGING_MIN || averaging > AVERAGING_MAX)
+  ) {
+    errors.push(`Averaging must be an integer ${AVERAGING_MIN}-${AVERAGING_MAX}, got ${averaging}`)
+  }
+  if (adc_rate_hz !== undefined && !VALID_ADC_RATES.has(adc_rate_hz)) {
+    errors.push(`ADC rate must be one of ${Array.from(VALID_ADC_RATES).join(', ')}, got ${adc_rate_hz}`)
+  }
+  if (mode !== undefined && mode !== 'freerun' && mode !== 'polled') {
+    errors.push(`Mode must be freerun or polled, got '${mode}'`)
+  }
+  if (mode === 'polled' && (!tag || tag.length !== 1 || !VALID_TAGS.includes(tag))) {
+    errors.push(`Tag must be single uppercase A-Z for polled mode, got '${tag}'`)
+  }
+  if (preamble !== undefined) {
+    if (preamble.length > PREAMBLE_MAX_LENGTH) {
+      errors.push(`Preamble must be at most ${PREAMBLE_MAX_LENGTH} characters, got ${preamble.length}`)
+    } else if (!RE_VALID_PREAMBLE.test(preamble) || preamble.includes(ESC)) {
+      errors.push(`Preamble cannot contain digits, '-', '.' or ','`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Compare the editable fields of two configurations.
+ * The tag only counts in polled mode, since the firmware ignores it in freerun.
+ * @param before - Configuration before the change
+ * @param after - Configuration after the change
+ * @returns Changed fields in EDITABLE_CONFIG_FIELDS order
+ */
+export function diffSensorConfig(before: QSeriesEditableConfig, after: QSeriesEditableConfig): QSeriesConfigChange[] {
+  return EDITABLE_CONFIG_FIELDS.filter((field) => {
+    if (field === 'tag' && before.mode !== 'polled' && after.mode !== 'polled') return false
+    return before[field] !== after[field]
+  }).map((field) => ({ field, before: before[field], after: after[field] }))
+}
+
 // ============================================================================
 // Protocol Parser Class
 // ============================================================================
@@ -539,6 +653,7 @@ export class QSeriesProtocolParser {
         include_temp: false, // Not in CSV
         include_vin: false, // Not in CSV
         preamble: '', // Not captured by current regex
+        quiet_mode: false, // Not in CSV
         calfactor: calFactor,
         serial_number: serialNumber,
         firmware_version: firmwareVersion,
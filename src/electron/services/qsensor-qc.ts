@@ -0,0 +1,926 @@
+/**
+ * Q-Sensor quality control for Electron main process.
+ *
+ * Post-fusion stage: checks the readings of every sensor for saturation, negative and out-of-range values,
+ * supply brownouts, temperature excursions, stuck values, timestamp gaps and spikes, and flags each row.
+ *
+ * Outputs:
+ * - <prefix>_qc and <prefix>_qc_flags columns appended to unified_session.csv, one pair per sensor
+ * - session_qc.csv next to each recorded session.csv, with the flags of its data rows in file order
+ * - qc_report.json and qc_report.html in the session root
+ *
+ * Flag scheme: the `_qc` column holds a QARTOD-style level (1 good, 3 suspect, 4 bad, 9 missing) and the
+ * `_qc_flags` column a bitmask of the failed checks (see QC_FLAGS). The level is the worst severity set.
+ */
+
+import { ipcMain } from 'electron'
+import { createReadStream } from 'fs'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as readline from 'readline'
+
+import { readSyncMetadata, sensorDirectoryPrefix, updateSyncMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Name of a QC check
+ */
+export type QcFlagName =
+  | 'saturated'
+  | 'negative'
+  | 'out_of_range'
+  | 'vin_low'
+  | 'temp_excursion'
+  | 'stuck'
+  | 'gap'
+  | 'spike'
+
+/**
+ * Severity a failed check gives the reading.
+ */
+export type QcSeverity = 'suspect' | 'bad'
+
+/**
+ * One check of the flag scheme.
+ */
+export interface QcFlagDefinition {
+  /** Check name */
+  name: QcFlagName
+  /** Bit set in the `_qc_flags` column */
+  bit: number
+  /** Level given to readings failing the check */
+  severity: QcSeverity
+  /** What the check looks for */
+  description: string
+}
+
+/**
+ * Readings of one sensor, as parallel columns so long sessions stay compact in memory.
+ */
+export interface QcSeries {
+  /** Epoch in milliseconds (any order) */
+  times: number[]
+  /** Sensor values */
+  values: number[]
+  /** Temperatures in °C, NaN when not recorded */
+  tempC: number[]
+  /** Supply voltages in volts, NaN when not recorded */
+  vin: number[]
+}
+
+/**
+ * Thresholds of the checks.
+ */
+export interface QcThresholds {
+  /** Values at or above this are saturated; null detects a clipped plateau at the series maximum */
+  saturationValue: number | null
+  /** Lowest plausible value (gross range) */
+  minValue: number
+  /** Highest plausible value (gross range) */
+  maxValue: number
+  /** Supply voltage below which the sensor is browning out */
+  vinMin: number
+  /** Lowest acceptable sensor temperature in °C */
+  tempMinC: number
+  /** Highest acceptable sensor temperature in °C */
+  tempMaxC: number
+  /** Number of consecutive identical values that counts as stuck */
+  stuckCount: number
+  /** Interval, in multiples of the median interval, that counts as a gap */
+  gapFactor: number
+  /** Shortest interval that counts as a gap, in milliseconds */
+  gapMinMs: number
+  /** Deviation from the neighbours, relative to their mean, that counts as a spike */
+  spikeRatio: number
+  /** Smallest absolute deviation that counts as a spike */
+  spikeMinDelta: number
+}
+
+/**
+ * Tunables for a QC run. Missing thresholds use DEFAULT_QC_THRESHOLDS.
+ */
+export type QcAnalysisOptions = Partial<QcThresholds>
+
+/**
+ * Number of readings at each QC level.
+ */
+export interface QcLevelCounts {
+  /** Level 1 */
+  good: number
+  /** Level 3 */
+  suspect: number
+  /** Level 4 */
+  bad: number
+  /** Level 9: rows without a value for the sensor */
+  missing: number
+}
+
+/**
+ * Timestamp gap between two consecutive readings.
+ */
+export interface QcGap {
+  /** ISO timestamp of the reading before the gap */
+  startAt: string
+  /** ISO timestamp of the reading after the gap */
+  endAt: string
+  /** Gap length in milliseconds */
+  durationMs: number
+}
+
+/**
+ * QC results of one sensor in one file.
+ */
+export interface QcSeriesReport {
+  /** Sensor name (recorded CSVs) or column prefix (unified CSV) */
+  label: string
+  /** File checked, relative to the session root */
+  file: string
+  /** Number of readings with a value */
+  readingCount: number
+  /** Readings per QC level */
+  levels: QcLevelCounts
+  /** Readings failing each check */
+  flagCounts: Record<QcFlagName, number>
+  /** Median interval between readings in milliseconds */
+  medianIntervalMs: number | null
+  /** Longest gaps, longest first */
+  gaps: QcGap[]
+  /** ISO timestamp of the first reading */
+  firstAt: string | null
+  /** ISO timestamp of the last reading */
+  lastAt: string | null
+  /** Smallest value */
+  minValue: number | null
+  /** Largest value */
+  maxValue: number | null
+}
+
+/**
+ * Contents of qc_report.json.
+ */
+export interface QcReport {
+  /** ISO timestamp when the QC ran */
+  generatedAt: string
+  /** Thresholds used */
+  thresholds: QcThresholds
+  /** Flag scheme of the `_qc_flags` columns */
+  flags: QcFlagDefinition[]
+  /** One entry per recorded session.csv */
+  recorded: QcSeriesReport[]
+  /** One entry per sensor of unified_session.csv, empty before fusion */
+  fused: QcSeriesReport[]
+  /** Fused CSV the flag columns were added to, relative to the session root */
+  unifiedCsv: string | null
+}
+
+/**
+ * Data row of a session.csv.
+ */
+interface RecordedRow {
+  /** Parsed timestamp (ms since epoch) */
+  time: number
+  /** Timestamp as written */
+  timestamp: string
+  /** Fields of the row */
+  fields: string[]
+}
+
+/**
+ * Columns and readings of one sensor of unified_session.csv.
+ */
+interface UnifiedCsvSensor {
+  /** Column prefix of the sensor */
+  prefix: string
+  /** Index of the value column */
+  valueCol: number
+  /** Index of the temperature column, -1 when absent */
+  tempCol: number
+  /** Index of the supply voltage column, -1 when absent */
+  vinCol: number
+  /** Index of the timestamp_used column, -1 when absent */
+  usedCol: number
+  /** Distinct readings of the sensor */
+  series: QcSeries
+  /** Reading index of each row, -1 for rows without a value */
+  rowReadings: number[]
+  /** timestamp_used and value of the last reading, to detect held values */
+  lastKey: string | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const QC_REPORT_FILENAME = 'qc_report.json'
+export const QC_REPORT_HTML_FILENAME = 'qc_report.html'
+export const QC_SIDECAR_FILENAME = 'session_qc.csv'
+
+// QC levels (QARTOD primary flag values)
+export const QC_LEVEL_GOOD = 1
+export const QC_LEVEL_SUSPECT = 3
+export const QC_LEVEL_BAD = 4
+export const QC_LEVEL_MISSING = 9
+
+export const QC_FLAGS: QcFlagDefinition[] = [
+  { name: 'saturated', bit: 1, severity: 'bad', description: 'Value at the saturation level' },
+  { name: 'negative', bit: 2, severity: 'suspect', description: 'Negative value' },
+  { name: 'out_of_range', bit: 4, severity: 'bad', description: 'Value outside the gross range' },
+  { name: 'vin_low', bit: 8, severity: 'suspect', description: 'Supply voltage below the brownout threshold' },
+  { name: 'temp_excursion', bit: 16, severity: 'suspect', description: 'Sensor temperature outside its range' },
+  { name: 'stuck', bit: 32, severity: 'suspect', description: 'Part of a run of identical values' },
+  { name: 'gap', bit: 64, severity: 'suspect', description: 'First reading after a timestamp gap' },
+  { name: 'spike', bit: 128, severity: 'suspect', description: 'Value far from both neighbours' },
+]
+
+// NOTE: Gross range and supply limits are wide on purpose; set them to the sensor's calibrated range per session
+export const DEFAULT_QC_THRESHOLDS: QcThresholds = {
+  saturationValue: null,
+  minValue: -100,
+  maxValue: 1e6,
+  vinMin: 10.5, // 12 V supply
+  tempMinC: -2,
+  tempMaxC: 40,
+  stuckCount: 10,
+  gapFactor: 5,
+  gapMinMs: 2000,
+  spikeRatio: 0.5,
+  spikeMinDelta: 1,
+}
+
+// Readings at the series maximum needed to call it a clipped plateau when no saturation value is set
+const SATURATION_PLATEAU_COUNT = 3
+
+// Gaps listed in the report per series
+const MAX_REPORTED_GAPS = 20
+
+// Flush size of the rewritten CSVs
+const WRITE_BATCH_BYTES = 1 << 20
+
+const FLAG_BITS = Object.fromEntries(QC_FLAGS.map((flag) => [flag.name, flag.bit])) as Record<QcFlagName, number>
+const BAD_MASK = QC_FLAGS.filter((flag) => flag.severity === 'bad').reduce((mask, flag) => mask | flag.bit, 0)
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Set one threshold, keeping the value typed by its key.
+ * @param thresholds - Thresholds to update
+ * @param key - Threshold to set
+ * @param value - New value
+ */
+function setThreshold<K extends keyof QcThresholds>(thresholds: QcThresholds, key: K, value: QcThresholds[K]): void {
+  thresholds[key] = value
+}
+
+/**
+ * Merge options over the default thresholds.
+ * @param options - Thresholds to override
+ * @returns Complete thresholds
+ */
+export function resolveQcThresholds(options: QcAnalysisOptions = {}): QcThresholds {
+  const thresholds = { ...DEFAULT_QC_THRESHOLDS }
+  for (const [key, value] of Object.entries(options) as [keyof QcThresholds, number | null | undefined][]) {
+    if (value !== undefined) setThreshold(thresholds, key, value)
+  }
+  return thresholds
+}
+
+/**
+ * QC level of a flag bitmask: bad if any bad check failed, suspect if any other did, good otherwise.
+ * @param mask - `_qc_flags` bitmask
+ * @returns QC level
+ */
+export function qcLevel(mask: number): number {
+  if (mask & BAD_MASK) return QC_LEVEL_BAD
+  return mask ? QC_LEVEL_SUSPECT : QC_LEVEL_GOOD
+}
+
+/**
+ * Indices of a series in time order.
+ * @param times - Reading times
+ * @returns Indices sorted by time (stable)
+ */
+function timeOrder(times: number[]): number[] {
+  const order = times.map((_, index) => index)
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[i - 1]) return order.sort((a, b) => times[a] - times[b] || a - b)
+  }
+  return order
+}
+
+/**
+ * Median of positive intervals between consecutive readings.
+ * @param times - Reading times
+ * @param order - Indices in time order
+ * @returns Median interval in milliseconds, or null with fewer than two distinct times
+ */
+function medianInterval(times: number[], order: number[]): number | null {
+  const intervals: number[] = []
+  for (let k = 1; k < order.length; k++) {
+    const interval = times[order[k]] - times[order[k - 1]]
+    if (interval > 0) intervals.push(interval)
+  }
+  if (intervals.length === 0) return null
+  intervals.sort((a, b) => a - b)
+  const middle = Math.floor(intervals.length / 2)
+  return intervals.length % 2 ? intervals[middle] : (intervals[middle - 1] + intervals[middle]) / 2
+}
+
+/**
+ * Run every check on a series.
+ * Point checks look at one reading; stuck, gap and spike checks look at the readings in time order.
+ * @param series - Readings of one sensor
+ * @param thresholds - Check thresholds
+ * @returns `_qc_flags` bitmask of each reading, in series order
+ */
+export function evaluateQcSeries(series: QcSeries, thresholds: QcThresholds = DEFAULT_QC_THRESHOLDS): number[] {
+  const { times, values, tempC, vin } = series
+  const count = values.length
+  const masks = new Array<number>(count).fill(0)
+  if (count === 0) return masks
+
+  // Point checks
+  for (let i = 0; i < count; i++) {
+    const value = values[i]
+    if (thresholds.saturationValue !== null && value >= thresholds.saturationValue) masks[i] |= FLAG_BITS.saturated
+    if (value < 0) masks[i] |= FLAG_BITS.negative
+    if (value < thresholds.minValue || value > thresholds.maxValue) masks[i] |= FLAG_BITS.out_of_range
+    if (vin[i] < thresholds.vinMin) masks[i] |= FLAG_BITS.vin_low
+    if (tempC[i] < thresholds.tempMinC || tempC[i] > thresholds.tempMaxC) masks[i] |= FLAG_BITS.temp_excursion
+  }
+
+  // Clipped plateau: several readings exactly at the maximum of a series that is not constant
+  if (thresholds.saturationValue === null) {
+    let max = -Infinity
+    let min = Infinity
+    for (const value of values) {
+      max = Math.max(max, value)
+      min = Math.min(min, value)
+    }
+    const atMax = values.filter((value) => value === max).length
+    if (max > min && atMax >= SATURATION_PLATEAU_COUNT) {
+      values.forEach((value, i) => {
+        if (value === max) masks[i] |= FLAG_BITS.saturated
+      })
+    }
+  }
+
+  const order = timeOrder(times)
+
+  // Stuck: runs of identical values
+  let runStart = 0
+  for (let k = 1; k <= count; k++) {
+    if (k < count && values[order[k]] === values[order[runStart]]) continue
+    if (k - runStart >= thresholds.stuckCount) {
+      for (let j = runStart; j < k; j++) masks[order[j]] |= FLAG_BITS.stuck
+    }
+    runStart = k
+  }
+
+  // Gaps: intervals much longer than the usual one
+  const median = medianInterval(times, order)
+  const gapMs = Math.max(thresholds.gapMinMs, median !== null ? thresholds.gapFactor * median : 0)
+  for (let k = 1; k < count; k++) {
+    if (times[order[k]] - times[order[k - 1]] > gapMs) masks[order[k]] |= FLAG_BITS.gap
+  }
+
+  // Spikes: deviation from the neighbours' mean beyond their own spread (QARTOD spike test)
+  for (let k = 1; k < count - 1; k++) {
+    const previous = values[order[k - 1]]
+    const next = values[order[k + 1]]
+    const neighbourMean = (previous + next) / 2
+    const deviation = Math.abs(values[order[k]] - neighbourMean) - Math.abs(next - previous) / 2
+    if (deviation > Math.max(thresholds.spikeMinDelta, thresholds.spikeRatio * Math.abs(neighbourMean))) {
+      masks[order[k]] |= FLAG_BITS.spike
+    }
+  }
+
+  return masks
+}
+
+/**
+ * Summarize the flags of a series.
+ * @param label - Sensor name or column prefix
+ * @param file - File checked, relative to the session root
+ * @param series - Readings of the sensor
+ * @param masks - Flags from evaluateQcSeries
+ * @param missingCount - Rows without a value for the sensor
+ * @returns Series report
+ */
+export function summarizeQcSeries(
+  label: string,
+  file: string,
+  series: QcSeries,
+  masks: number[],
+  missingCount = 0
+): QcSeriesReport {
+  const levels: QcLevelCounts = { good: 0, suspect: 0, bad: 0, missing: missingCount }
+  const flagCounts = Object.fromEntries(QC_FLAGS.map((flag) => [flag.name, 0])) as Record<QcFlagName, number>
+  for (const mask of masks) {
+    const level = qcLevel(mask)
+    if (level === QC_LEVEL_BAD) levels.bad++
+    else if (level === QC_LEVEL_SUSPECT) levels.suspect++
+    else levels.good++
+    for (const flag of QC_FLAGS) {
+      if (mask & flag.bit) flagCounts[flag.name]++
+    }
+  }
+
+  const order = timeOrder(series.times)
+  const gaps: QcGap[] = []
+  for (let k = 1; k < order.length; k++) {
+    if (!(masks[order[k]] & FLAG_BITS.gap)) continue
+    const start = series.times[order[k - 1]]
+    const end = series.times[order[k]]
+    gaps.push({ startAt: new Date(start).toISOString(), endAt: new Date(end).toISOString(), durationMs: end - start })
+  }
+  gaps.sort((a, b) => b.durationMs - a.durationMs)
+
+  const count = series.values.length
+  return {
+    label,
+    file,
+    readingCount: count,
+    levels,
+    flagCounts,
+    medianIntervalMs: medianInterval(series.times, order),
+    gaps: gaps.slice(0, MAX_REPORTED_GAPS),
+    firstAt: count ? new Date(series.times[order[0]]).toISOString() : null,
+    lastAt: count ? new Date(series.times[order[count - 1]]).toISOString() : null,
+    minValue: count ? series.values.reduce((min, value) => Math.min(min, value)) : null,
+    maxValue: count ? series.values.reduce((max, value) => Math.max(max, value)) : null,
+  }
+}
+
+// ============================================================================
+// Recorded CSVs
+// ============================================================================
+
+/**
+ * Parse a number, NaN for empty fields.
+ * @param field - CSV field
+ * @returns Number or NaN
+ */
+function parseField(field: string | undefined): number {
+  return field === undefined || field.trim() === '' ? NaN : Number(field)
+}
+
+/**
+ * Stream the non-empty lines of a CSV.
+ * @param filePath - CSV path
+ * @yields {string} Lines without their line ending
+ */
+async function* readCsvLines(filePath: string): AsyncGenerator<string> {
+  const stream = createReadStream(filePath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  try {
+    for await (const line of lines) {
+      if (line.trim() !== '') yield line
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+}
+
+/**
+ * Write lines to a file atomically (tmp + rename), in batches.
+ * @param outputPath - Destination path
+ * @param lines - Lines to write
+ */
+async function writeLinesAtomic(outputPath: string, lines: AsyncIterable<string>): Promise<void> {
+  const tmpPath = outputPath + '.tmp'
+  const file = await fs.open(tmpPath, 'w')
+  try {
+    let batch = ''
+    for await (const line of lines) {
+      batch += line + '\n'
+      if (batch.length >= WRITE_BATCH_BYTES) {
+        await file.write(batch)
+        batch = ''
+      }
+    }
+    await file.write(batch)
+    await file.close()
+  } catch (error) {
+    await file.close()
+    await fs.rm(tmpPath, { force: true })
+    throw error
+  }
+  await fs.rename(tmpPath, outputPath)
+}
+
+/**
+ * Data rows of a session.csv, in file order. Same rules as fusion: the header, sync markers, GAP rows
+ * and rows with an unparseable timestamp are skipped.
+ * @param csvPath - session.csv path
+ * @yields {{time: number, timestamp: string, fields: string[]}} Parsed time, raw timestamp and fields of each data row
+ */
+async function* readRecordedRows(csvPath: string): AsyncGenerator<RecordedRow> {
+  let headerSkipped = false
+  for await (const rawLine of readCsvLines(csvPath)) {
+    const line = rawLine.trim()
+    if (!headerSkipped && (line.includes('timestamp') || line.includes('sensor_id'))) {
+      headerSkipped = true
+      continue
+    }
+    const fields = line.split(',')
+    if (fields.length < 4) continue
+    const time = new Date(fields[0]).getTime()
+    if (isNaN(time) || fields[2].startsWith('SYNC_') || fields[2] === 'GAP') continue
+    yield { time, timestamp: fields[0], fields }
+  }
+}
+
+/**
+ * Check a recorded session.csv and write its flags to session_qc.csv in the same directory.
+ * NOTE: session.csv is left untouched, its checksum is part of the sensor's manifest
+ * @param sessionRoot - Unified session root directory
+ * @param label - Sensor name
+ * @param csvPath - session.csv path
+ * @param thresholds - Check thresholds
+ * @returns Series report
+ */
+export async function qcRecordedCsv(
+  sessionRoot: string,
+  label: string,
+  csvPath: string,
+  thresholds: QcThresholds
+): Promise<QcSeriesReport> {
+  const series: QcSeries = { times: [], values: [], tempC: [], vin: [] }
+  // Reading index of each data row, -1 for rows without a value
+  const rowReadings: number[] = []
+
+  for await (const { time, fields } of readRecordedRows(csvPath)) {
+    const value = parseField(fields[3])
+    if (!Number.isFinite(value)) {
+      rowReadings.push(-1)
+      continue
+    }
+    rowReadings.push(series.values.length)
+    series.times.push(time)
+    series.values.push(value)
+    series.tempC.push(parseField(fields[4]))
+    series.vin.push(parseField(fields[5]))
+  }
+
+  const masks = evaluateQcSeries(series, thresholds)
+  const missingCount = rowReadings.filter((reading) => reading === -1).length
+
+  /**
+   * Sidecar lines, matched to the data rows by order
+   * @yields {string} CSV lines
+   */
+  async function* sidecarLines(): AsyncGenerator<string> {
+    yield 'timestamp,qc,qc_flags'
+    let row = 0
+    for await (const { timestamp } of readRecordedRows(csvPath)) {
+      const reading = rowReadings[row++]
+      yield reading === -1
+        ? `${timestamp},${QC_LEVEL_MISSING},0`
+        : `${timestamp},${qcLevel(masks[reading])},${masks[reading]}`
+    }
+  }
+  await writeLinesAtomic(path.join(path.dirname(csvPath), QC_SIDECAR_FILENAME), sidecarLines())
+
+  return summarizeQcSeries(label, path.relative(sessionRoot, csvPath), series, masks, missingCount)
+}
+
+// ============================================================================
+// Unified CSV
+// ============================================================================
+
+/**
+ * Check each sensor of unified_session.csv and append its `<prefix>_qc` and `<prefix>_qc_flags` columns.
+ * Held sensors repeat a reading over several rows; consecutive rows with the same `timestamp_used` and value
+ * are one reading, timed at `timestamp_used`. Flag columns from a previous run are replaced.
+ * @param sessionRoot - Unified session root directory
+ * @param unifiedCsvPath - Path of the fused CSV
+ * @param thresholds - Check thresholds
+ * @returns One report per sensor, in column order
+ */
+export async function qcUnifiedCsv(
+  sessionRoot: string,
+  unifiedCsvPath: string,
+  thresholds: QcThresholds
+): Promise<QcSeriesReport[]> {
+  let header: string[] | null = null
+  let keptColumns: number[] = []
+  let sensors: UnifiedCsvSensor[] = []
+
+  for await (const line of readCsvLines(unifiedCsvPath)) {
+    const fields = line.split(',')
+    if (!header) {
+      header = fields
+      const prefixes = header.filter((column) => column.endsWith('_sensor_id')).map((column) => column.slice(0, -10))
+      const qcColumns = new Set(prefixes.flatMap((prefix) => [`${prefix}_qc`, `${prefix}_qc_flags`]))
+      keptColumns = header.map((_, index) => index).filter((index) => !qcColumns.has(header![index]))
+      sensors = prefixes.map((prefix) => ({
+        prefix,
+        valueCol: header!.indexOf(`${prefix}_value`),
+        tempCol: header!.indexOf(`${prefix}_TempC`),
+        vinCol: header!.indexOf(`${prefix}_Vin`),
+        usedCol: header!.indexOf(`${prefix}_timestamp_used`),
+        series: { times: [], values: [], tempC: [], vin: [] },
+        rowReadings: [],
+        lastKey: null,
+      }))
+      continue
+    }
+
+    const rowTime = Date.parse(fields[0])
+    for (const sensor of sensors) {
+      const value = parseField(fields[sensor.valueCol])
+      if (!Number.isFinite(value)) {
+        sensor.rowReadings.push(-1)
+        sensor.lastKey = null
+        continue
+      }
+
+      const used = sensor.usedCol === -1 ? null : fields[sensor.usedCol]
+      const key = used ? `${used}|${fields[sensor.valueCol]}` : null
+      if (key !== null && key === sensor.lastKey) {
+        sensor.rowReadings.push(sensor.series.values.length - 1)
+        continue
+      }
+      sensor.lastKey = key
+
+      const usedTime = used ? Date.parse(used) : NaN
+      sensor.rowReadings.push(sensor.series.values.length)
+      sensor.series.times.push(Number.isFinite(usedTime) ? usedTime : rowTime)
+      sensor.series.values.push(value)
+      sensor.series.tempC.push(parseField(fields[sensor.tempCol]))
+      sensor.series.vin.push(parseField(fields[sensor.vinCol]))
+    }
+  }
+
+  if (!header) return []
+
+  const masks = sensors.map((sensor) => evaluateQcSeries(sensor.series, thresholds))
+
+  /**
+   * Unified CSV lines with the flag columns appended
+   * @yields {string} CSV lines
+   */
+  async function* flaggedLines(): AsyncGenerator<string> {
+    let row = -1
+    for await (const line of readCsvLines(unifiedCsvPath)) {
+      const fields = line.split(',')
+      const kept = keptColumns.map((index) => fields[index] ?? '')
+      if (row === -1) {
+        row = 0
+        yield [...kept, ...sensors.flatMap((sensor) => [`${sensor.prefix}_qc`, `${sensor.prefix}_qc_flags`])].join(',')
+        continue
+      }
+      const flags = sensors.flatMap((sensor, index) => {
+        const reading = sensor.rowReadings[row]
+        return reading === -1 ? [QC_LEVEL_MISSING, 0] : [qcLevel(masks[index][reading]), masks[index][reading]]
+      })
+      yield [...kept, ...flags].join(',')
+      row++
+    }
+  }
+  await writeLinesAtomic(unifiedCsvPath, flaggedLines())
+
+  const file = path.relative(sessionRoot, unifiedCsvPath)
+  return sensors.map((sensor, index) =>
+    summarizeQcSeries(
+      sensor.prefix,
+      file,
+      sensor.series,
+      masks[index],
+      sensor.rowReadings.filter((reading) => reading === -1).length
+    )
+  )
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Escape text for HTML.
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Render qc_report.html: a standalone summary of the report, for sharing outside Cockpit.
+ * @param report - QC report
+ * @returns HTML document
+ */
+export function buildQcReportHtml(report: QcReport): string {
+  const seriesTable = (title: string, entries: QcSeriesReport[]): string => {
+    if (entries.length === 0) return ''
+    const rows = entries
+      .map(
+        (entry) =>
+          `<tr><td>${escapeHtml(entry.label)}</td><td>${escapeHtml(entry.file)}</td><td>${entry.readingCount}</td>` +
+          `<td>${entry.levels.good}</td><td>${entry.levels.suspect}</td><td>${entry.levels.bad}</td>` +
+          `<td>${entry.levels.missing}</td>` +
+          QC_FLAGS.map((flag) => `<td>${entry.flagCounts[flag.name]}</td>`).join('') +
+          '</tr>'
+      )
+      .join('\n')
+    return (
+      `<h2>${title}</h2>\n<table>\n<tr><th>Sensor</th><th>File</th><th>Readings</th><th>Good</th><th>Suspect</th>` +
+      `<th>Bad</th><th>Missing</th>${QC_FLAGS.map((flag) => `<th>${flag.name}</th>`).join('')}</tr>\n${rows}\n</table>`
+    )
+  }
+
+  const gapRows = [...report.recorded, ...report.fused]
+    .flatMap((entry) =>
+      entry.gaps.map(
+        (gap) =>
+          `<tr><td>${escapeHtml(entry.label)}</td><td>${escapeHtml(entry.file)}</td><td>${gap.startAt}</td>` +
+          `<td>${gap.endAt}</td><td>${(gap.durationMs / 1000).toFixed(1)}</td></tr>`
+      )
+    )
+    .join('\n')
+
+  const schemeRows = QC_FLAGS.map(
+    (flag) => `<tr><td>${flag.bit}</td><td>${flag.name}</td><td>${flag.severity}</td><td>${flag.description}</td></tr>`
+  ).join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Q-Sensor QC report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Q-Sensor QC report</h1>
+<p>Generated ${report.generatedAt}</p>
+${seriesTable('Recorded', report.recorded)}
+${seriesTable('Fused', report.fused)}
+${
+  gapRows
+    ? `<h2>Gaps</h2>\n<table>\n<tr><th>Sensor</th><th>File</th><th>Start</th><th>End</th><th>Seconds</th></tr>\n${gapRows}\n</table>`
+    : ''
+}
+<h2>Flag scheme</h2>
+<p>Levels: 1 good, 3 suspect, 4 bad, 9 missing. Flags are a bitmask of the checks below.</p>
+<table>
+<tr><th>Bit</th><th>Check</th><th>Severity</th><th>Description</th></tr>
+${schemeRows}
+</table>
+<h2>Thresholds</h2>
+<pre>${escapeHtml(JSON.stringify(report.thresholds, null, 2))}</pre>
+</body>
+</html>
+`
+}
+
+/**
+ * Write a file atomically (tmp + rename).
+ * @param outputPath - Destination path
+ * @param content - File content
+ */
+async function writeFileAtomic(outputPath: string, content: string): Promise<void> {
+  const tmpPath = outputPath + '.tmp'
+  await fs.writeFile(tmpPath, content, 'utf-8')
+  await fs.rename(tmpPath, outputPath)
+}
+
+/**
+ * Run QC on a session: every recorded session.csv, then the fused CSV when there is one.
+ * Writes the flags, qc_report.json and qc_report.html, and records the run in sync_metadata.json.
+ * @param sessionRoot - Unified session root directory
+ * @param unifiedCsvPath - Path of the fused CSV, or null before fusion
+ * @param options - Thresholds to override
+ * @returns QC report
+ */
+export async function runSessionQc(
+  sessionRoot: string,
+  unifiedCsvPath: string | null,
+  options: QcAnalysisOptions = {}
+): Promise<QcReport> {
+  const syncMetadata = await readSyncMetadata(sessionRoot)
+  if (!syncMetadata) {
+    throw new Error(`No sync_metadata.json in ${sessionRoot}`)
+  }
+
+  const thresholds = resolveQcThresholds(options)
+  const recorded: QcSeriesReport[] = []
+  for (const [id, info] of Object.entries(syncMetadata.sensors)) {
+    if (!info?.sessionCsv) continue
+    const csvPath = path.join(sessionRoot, info.sessionCsv)
+    try {
+      await fs.access(csvPath)
+    } catch {
+      console.warn(`[QSensor QC] ${id} session.csv not found: ${csvPath}`)
+      continue
+    }
+    recorded.push(await qcRecordedCsv(sessionRoot, sensorDirectoryPrefix(id), csvPath, thresholds))
+  }
+
+  const fused = unifiedCsvPath ? await qcUnifiedCsv(sessionRoot, unifiedCsvPath, thresholds) : []
+
+  const report: QcReport = {
+    generatedAt: new Date().toISOString(),
+    thresholds,
+    flags: QC_FLAGS,
+    recorded,
+    fused,
+    unifiedCsv: unifiedCsvPath ? path.relative(sessionRoot, unifiedCsvPath) : null,
+  }
+
+  await writeFileAtomic(path.join(sessionRoot, QC_REPORT_FILENAME), JSON.stringify(report, null, 2))
+  await writeFileAtomic(path.join(sessionRoot, QC_REPORT_HTML_FILENAME), buildQcReportHtml(report))
+
+  const entries = [...recorded, ...fused]
+  await updateSyncMetadata(sessionRoot, (metadata) => {
+    metadata.qc = {
+      reportFile: QC_REPORT_FILENAME,
+      htmlFile: QC_REPORT_HTML_FILENAME,
+      generatedAt: report.generatedAt,
+      suspectReadings: entries.reduce((sum, entry) => sum + entry.levels.suspect, 0),
+      badReadings: entries.reduce((sum, entry) => sum + entry.levels.bad, 0),
+      thresholds: options,
+    }
+  })
+
+  console.log(
+    `[QSensor QC] ${recorded.length} recorded and ${fused.length} fused series checked in ${sessionRoot}: ` +
+      entries.map((entry) => `${entry.label}=${entry.levels.suspect} suspect/${entry.levels.bad} bad`).join(', ')
+  )
+
+  return report
+}
+
+/**
+ * Load qc_report.json for a session, if QC has run.
+ * @param sessionRoot - Unified session root directory
+ * @returns QC report, or null when missing
+ */
+export async function loadQcReport(sessionRoot: string): Promise<QcReport | null> {
+  const syncMetadata = await readSyncMetadata(sessionRoot)
+  const fileName = syncMetadata?.qc?.reportFile ?? QC_REPORT_FILENAME
+
+  try {
+    const content = await fs.readFile(path.join(sessionRoot, fileName), 'utf-8')
+    return JSON.parse(content) as QcReport
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Sensor quality control.
+ * Enables renderer to load the QC report and re-run QC with other thresholds.
+ */
+export function setupQSensorQcService(): void {
+  ipcMain.handle('qsensor:get-qc-report', async (_event, sessionRoot: string) => {
+    try {
+      if (!sessionRoot) {
+        return { success: false, error: 'No session root provided' }
+      }
+      return { success: true, data: await loadQcReport(sessionRoot) }
+    } catch (error: any) {
+      console.error('[QSensor QC] Failed to load QC report:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:run-qc', async (_event, sessionRoot: string, options?: QcAnalysisOptions) => {
+    try {
+      if (!sessionRoot) {
+        return { success: false, error: 'No session root provided' }
+      }
+
+      const syncMetadata = await readSyncMetadata(sessionRoot)
+      if (!syncMetadata) {
+        return { success: false, error: 'No sync_metadata.json in session' }
+      }
+
+      // Re-runs keep the thresholds of the previous run unless overridden
+      const unifiedCsv = syncMetadata.fusion?.unifiedCsv
+      const report = await runSessionQc(sessionRoot, unifiedCsv ? path.join(sessionRoot, unifiedCsv) : null, {
+        ...syncMetadata.qc?.thresholds,
+        ...options,
+      })
+      return { success: true, data: report }
+    } catch (error: any) {
+      console.error('[QSensor QC] QC failed:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  console.log('[QSensor QC] Service registered')
+}
@@ -0,0 +1,738 @@
+/**
+ * Q-Series Multi-Drop Polled Bus Controller (TypeScript)
+ *
+ * Several Q-Series heads in polled mode, each with its own TAG, share one serial port (typically an
+ * RS-485 line), so a sensor chain needs a single adapter. Heads only answer queries addressed to their
+ * TAG, so the controller queries them one at a time in round-robin slots and demultiplexes the replies
+ * by the TAG at the start of each frame.
+ *
+ * BEHAVIOR:
+ * - start() sends the polled init command to every TAG, waits for averaging to fill, then polls
+ * - One query per slot; a poll cycle visits every TAG once, so each head is read at the configured rate
+ * - A query still unanswered when the next slot begins counts as a timeout for its TAG
+ * - A TAG goes offline after consecutive timeouts and back to ok on its next reply
+ * - Replies are emitted as 'reading' events carrying the TAG and the node's sensor ID
+ *
+ * PRECONDITION:
+ * Heads are configured one at a time beforehand (QSeriesSerialController or the device configuration
+ * editor): polled mode, a unique TAG, and quiet mode so reboots do not put banners on the line. The bus
+ * controller never sends ESC, which would put every head into its menu at once.
+ *
+ * EVENT EMISSION: 'reading', 'tag-status', 'error', 'close'.
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import EventEmitter from 'events'
+import { performance } from 'perf_hooks'
+
+import type { QSensorLiveReading } from '@/types/qsensor'
+
+import { Link } from './link/link'
+import { SerialLink } from './link/serial'
+import type { QSeriesReading } from './qsensor-protocol'
+import {
+  InvalidFrameError,
+  makePolledInitCmd,
+  makePolledQueryCmd,
+  QSeriesProtocolParser,
+  RE_POLLED_LINE,
+  VALID_TAGS,
+} from './qsensor-protocol'
+import { InvalidConfigValueError, SerialIOError } from './qsensor-serial-controller'
+import { isSimulatedPort, QSeriesSimulatedBus } from './qsensor-serial-simulator'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Shortest slot per query: a full frame takes about 30 ms at 9600 baud, plus the firmware response time */
+export const MIN_BUS_SLOT_MS = 50
+
+const DEFAULT_BUS_OPTIONS: QSeriesBusOptions = {
+  offlineAfterTimeouts: 3,
+  initDelayMs: 1000,
+}
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Head on the bus
+ */
+export interface QSeriesBusNode {
+  /**
+   * Polled mode TAG configured on the head (A-Z)
+   */
+  tag: string
+  /**
+   * Sensor ID put on readings (default 'bus-<TAG>')
+   */
+  sensorId?: string
+}
+
+/**
+ *
+ */
+export interface QSeriesBusOptions {
+  /**
+   * Consecutive timeouts before a TAG is reported offline
+   */
+  offlineAfterTimeouts: number
+  /**
+   * Wait between the init commands and the first query, so averaging can fill
+   */
+  initDelayMs: number
+}
+
+/**
+ * Per-TAG status: 'waiting' until the first reply
+ */
+export type QSeriesBusTagStatus = 'waiting' | 'ok' | 'offline'
+
+/**
+ * Health of one head on the bus
+ */
+export interface QSeriesBusTagHealth {
+  /**
+   *
+   */
+  tag: string
+  /**
+   *
+   */
+  sensor_id: string
+  /**
+   *
+   */
+  status: QSeriesBusTagStatus
+  /**
+   *
+   */
+  queries: number
+  /**
+   *
+   */
+  replies: number
+  /**
+   *
+   */
+  timeouts: number
+  /**
+   *
+   */
+  consecutive_timeouts: number
+  /**
+   * Replies that arrived after their slot had ended (still emitted as readings)
+   */
+  late_replies: number
+  /**
+   * Frames with this TAG that could not be parsed
+   */
+  invalid_frames: number
+  /**
+   *
+   */
+  last_reading_age_ms?: number
+  /**
+   * Time between the last query and its reply
+   */
+  last_latency_ms?: number
+}
+
+/**
+ * Health of the bus and every head on it
+ */
+export interface QSeriesBusHealth {
+  /**
+   *
+   */
+  connected: boolean
+  /**
+   *
+   */
+  running: boolean
+  /**
+   *
+   */
+  port: string | null
+  /**
+   * Rate at which each head is read
+   */
+  poll_hz: number | null
+  /**
+   * Time reserved for each query
+   */
+  slot_ms: number | null
+  /**
+   *
+   */
+  tags: QSeriesBusTagHealth[]
+}
+
+/**
+ * Reading from a head on the bus
+ */
+export interface QSeriesBusReading extends QSeriesReading {
+  /**
+   *
+   */
+  tag: string
+}
+
+/**
+ * Payload of the 'tag-status' event
+ */
+export interface QSeriesBusTagStatusEvent {
+  /**
+   *
+   */
+  tag: string
+  /**
+   *
+   */
+  sensor_id: string
+  /**
+   *
+   */
+  status: QSeriesBusTagStatus
+  /**
+   *
+   */
+  previous: QSeriesBusTagStatus
+}
+
+// NOTE: Mutable counters behind QSeriesBusTagHealth
+type TagEntry = Omit<QSeriesBusTagHealth, 'last_reading_age_ms'> & {
+  /**
+   *
+   */
+  lastReadingAt: number | null
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Slot length for polling every head at a rate
+ * @param pollHz - Rate at which each head is read
+ * @param tagCount - Heads on the bus
+ * @returns Time reserved for each query in milliseconds
+ */
+export function busSlotMs(pollHz: number, tagCount: number): number {
+  return 1000 / (pollHz * tagCount)
+}
+
+/**
+ * Fastest rate at which every head on a bus can be read
+ * @param tagCount - Heads on the bus
+ * @returns Maximum poll rate in Hz
+ */
+export function maxBusPollHz(tagCount: number): number {
+  return 1000 / (MIN_BUS_SLOT_MS * Math.max(1, tagCount))
+}
+
+// ============================================================================
+// QSeriesPolledBusController Class
+// ============================================================================
+
+/**
+ * Round-robin poller for tagged Q-Series heads sharing one serial port.
+ * Not thread-safe; call from main Electron thread only.
+ */
+export class QSeriesPolledBusController extends EventEmitter {
+  private readonly options: QSeriesBusOptions
+  private link: Link | null = null
+  private parser = new QSeriesProtocolParser()
+  private port: string | null = null
+  private nodes: QSeriesBusNode[] = []
+  private tags = new Map<string, TagEntry>()
+
+  // Polling state
+  private pollTimer: NodeJS.Timeout | null = null
+  private pollHz: number | null = null
+  private nextIndex = 0
+  private pending: {
+    /**
+     *
+     */
+    tag: string
+    /**
+     *
+     */
+    sentAt: number
+  } | null = null
+
+  /**
+   * Bus controller constructor
+   * @param {Partial<QSeriesBusOptions>} options - Options overriding the defaults
+   */
+  constructor(options: Partial<QSeriesBusOptions> = {}) {
+    super()
+    this.options = { ...DEFAULT_BUS_OPTIONS, ...options }
+  }
+
+  // ========================================================================
+  // Factory Methods (for test injection)
+  // ========================================================================
+
+  /**
+   * Create the link for the bus port (protected for test mocking). Simulated ports get a simulated bus.
+   * @param port - Port path
+   * @param baudRate - Baud rate shared by every head
+   * @returns Link to open
+   */
+  protected createSerialLink(port: string, baudRate: number): Link {
+    if (isSimulatedPort(port)) {
+      const uri = new URL(port)
+      uri.searchParams.set('baudrate', String(baudRate))
+      return new QSeriesSimulatedBus(uri)
+    }
+    return new SerialLink(new URL(`serial:${port}?baudrate=${baudRate}`))
+  }
+
+  // ========================================================================
+  // Connection Management
+  // ========================================================================
+
+  /**
+   * Open the bus port
+   * @param port - Port path
+   * @param baudRate - Baud rate shared by every head
+   * @param nodes - Heads on the bus, polled in this order
+   * @throws InvalidConfigValueError if a TAG is invalid or used twice
+   * @throws SerialIOError if already connected or the port cannot be opened
+   */
+  async connect(port: string, baudRate: number, nodes: QSeriesBusNode[]): Promise<void> {
+    if (this.link) {
+      throw new SerialIOError(`Bus already connected on ${this.port}`)
+    }
+    if (nodes.length === 0) {
+      throw new InvalidConfigValueError('At least one TAG is required')
+    }
+    const seen = new Set<string>()
+    for (const node of nodes) {
+      if (node.tag.length !== 1 || !VALID_TAGS.includes(node.tag)) {
+        throw new InvalidConfigValueError(`Invalid TAG '${node.tag}'. Must be a single uppercase letter A-Z.`)
+      }
+      if (seen.has(node.tag)) {
+        throw new InvalidConfigValueError(`TAG '${node.tag}' is used by more than one node`)
+      }
+      seen.add(node.tag)
+    }
+
+    const link = this.createSerialLink(port, baudRate)
+    link.on('data', (data: Buffer) => this.handleSerialData(data))
+    link.on('error', (error: Error) => this.handleLinkLost(error))
+    link.on('close', () => this.handleLinkLost(new SerialIOError('Bus port closed unexpectedly')))
+
+    try {
+      await link.open()
+    } catch (error) {
+      link.removeAllListeners()
+      throw new SerialIOError(`Failed to open port ${port}: ${error}`)
+    }
+
+    this.link = link
+    this.port = port
+    this.nodes = nodes.map((node) => ({ tag: node.tag, sensorId: node.sensorId || `bus-${node.tag}` }))
+    this.tags = new Map(this.nodes.map((node) => [node.tag, this.newTagEntry(node)]))
+    this.parser.clearBuffer()
+    console.log(`[QSeriesBus] Connected to ${port} with TAGs ${this.nodes.map((node) => node.tag).join(', ')}`)
+  }
+
+  /**
+   * Stop polling and close the bus port
+   */
+  async disconnect(): Promise<void> {
+    this.stopPolling()
+    if (this.link) {
+      const link = this.link
+      this.link = null
+      link.removeAllListeners()
+      try {
+        await link.close()
+      } catch (error) {
+        console.error('[QSeriesBus] Error closing port:', error)
+      }
+    }
+    console.log('[QSeriesBus] Disconnected')
+  }
+
+  // ========================================================================
+  // Acquisition
+  // ========================================================================
+
+  /**
+   * Initialize every head and start polling them round-robin
+   * @param pollHz - Rate at which each head is read
+   * @throws SerialIOError if not connected or already polling
+   * @throws InvalidConfigValueError if the rate does not leave MIN_BUS_SLOT_MS per query
+   */
+  async start(pollHz = 1.0): Promise<void> {
+    if (!this.link) {
+      throw new SerialIOError('Not connected')
+    }
+    if (this.pollTimer) {
+      throw new SerialIOError('Bus is already polling')
+    }
+    const maxHz = maxBusPollHz(this.nodes.length)
+    if (!(pollHz > 0) || pollHz > maxHz) {
+      throw new InvalidConfigValueError(
+        `Poll rate ${pollHz} Hz is invalid for ${this.nodes.length} TAG(s). Must be > 0 and <= ${maxHz.toFixed(2)} Hz.`
+      )
+    }
+
+    for (const node of this.nodes) {
+      await this.writeBytes(Buffer.from(makePolledInitCmd(node.tag), 'ascii'))
+    }
+    console.log(`[QSeriesBus] Sent polled init to ${this.nodes.length} TAG(s), waiting ${this.options.initDelayMs}ms`)
+    await new Promise((resolve) => setTimeout(resolve, this.options.initDelayMs))
+
+    // NOTE: The link may have dropped while waiting for averaging to fill
+    if (!this.link) {
+      throw new SerialIOError('Bus disconnected during start')
+    }
+
+    this.pollHz = pollHz
+    this.nextIndex = 0
+    this.pending = null
+    const slotMs = busSlotMs(pollHz, this.nodes.length)
+    this.pollTimer = setInterval(() => this.pollNext(), slotMs)
+    this.pollNext()
+    console.log(`[QSeriesBus] Polling ${this.nodes.length} TAG(s) at ${pollHz} Hz each (${slotMs.toFixed(1)}ms slots)`)
+  }
+
+  /**
+   * Stop polling; the port stays open
+   */
+  stop(): void {
+    this.stopPolling()
+    console.log('[QSeriesBus] Polling stopped')
+  }
+
+  // ========================================================================
+  // Health / Status
+  // ========================================================================
+
+  /**
+   * Health of the bus and every head on it
+   * @returns Bus health with one entry per TAG, in polling order
+   */
+  getHealth(): QSeriesBusHealth {
+    const now = Date.now()
+    return {
+      connected: this.isConnected(),
+      running: this.isRunning(),
+      port: this.port,
+      poll_hz: this.pollHz,
+      slot_ms: this.pollHz ? busSlotMs(this.pollHz, this.nodes.length) : null,
+      tags: [...this.tags.values()].map(({ lastReadingAt, ...entry }) => ({
+        ...entry,
+        last_reading_age_ms: lastReadingAt === null ? undefined : now - lastReadingAt,
+      })),
+    }
+  }
+
+  /**
+   * Whether the bus port is open
+   * @returns {boolean}
+   */
+  isConnected(): boolean {
+    return this.link !== null && this.link.isOpen
+  }
+
+  /**
+   * Whether the heads are being polled
+   * @returns {boolean}
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null
+  }
+
+  // ========================================================================
+  // Internal Helpers
+  // ========================================================================
+
+  /**
+   * Close the slot of the previous query and query the next TAG
+   */
+  private pollNext(): void {
+    if (this.pending) {
+      this.recordTimeout(this.pending.tag)
+    }
+
+    const node = this.nodes[this.nextIndex]
+    this.nextIndex = (this.nextIndex + 1) % this.nodes.length
+    this.tags.get(node.tag)!.queries++
+
+    // NOTE: Set before writing, since a reply can arrive while the write is still in progress
+    this.pending = { tag: node.tag, sentAt: Date.now() }
+    this.writeBytes(Buffer.from(makePolledQueryCmd(node.tag), 'ascii')).catch((error) => {
+      console.error(`[QSeriesBus] Error sending query to TAG ${node.tag}:`, error)
+      this.emit('error', error)
+    })
+  }
+
+  /**
+   *
+   */
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.pending = null
+  }
+
+  /**
+   *
+   * @param data
+   */
+  private async writeBytes(data: Buffer): Promise<void> {
+    if (!this.link) {
+      throw new SerialIOError('Not connected')
+    }
+    await this.link.write(data)
+  }
+
+  /**
+   * Demultiplex reply lines by their TAG
+   * @param data - Bytes received from the bus
+   */
+  private handleSerialData(data: Buffer): void {
+    for (const line of this.parser.feed(data)) {
+      const match = RE_POLLED_LINE.exec(line.trim())
+      const entry = match ? this.tags.get(match[1]) : undefined
+      if (!match || !entry) {
+        console.debug('[QSeriesBus] Skipping line without a known TAG:', line.slice(0, 60))
+        continue
+      }
+
+      try {
+        const frame = this.parser.parsePolledLine(line, entry.tag)
+        this.recordReply(entry)
+        const reading: QSeriesBusReading = {
+          timestamp_utc: new Date().toISOString(),
+          timestamp_monotonic_ns: BigInt(Math.floor(performance.now() * 1e6)),
+          sensor_id: entry.sensor_id,
+          mode: 'polled',
+          value: frame.value,
+          TempC: frame.TempC,
+          Vin: frame.Vin,
+          tag: entry.tag,
+        }
+        this.emit('reading', reading)
+      } catch (error) {
+        if (error instanceof InvalidFrameError) {
+          entry.invalid_frames++
+          console.debug(`[QSeriesBus] Skipping unparseable frame from TAG ${entry.tag}:`, line.slice(0, 60))
+        } else {
+          console.error('[QSeriesBus] Error parsing polled line:', error)
+        }
+      }
+    }
+  }
+
+  /**
+   *
+   * @param entry
+   */
+  private recordReply(entry: TagEntry): void {
+    const now = Date.now()
+    if (this.pending?.tag === entry.tag) {
+      entry.last_latency_ms = now - this.pending.sentAt
+      this.pending = null
+    } else {
+      entry.late_replies++
+    }
+    entry.replies++
+    entry.consecutive_timeouts = 0
+    entry.lastReadingAt = now
+    this.setStatus(entry, 'ok')
+  }
+
+  /**
+   *
+   * @param tag
+   */
+  private recordTimeout(tag: string): void {
+    const entry = this.tags.get(tag)!
+    entry.timeouts++
+    entry.consecutive_timeouts++
+    if (entry.consecutive_timeouts >= this.options.offlineAfterTimeouts) {
+      this.setStatus(entry, 'offline')
+    }
+  }
+
+  /**
+   *
+   * @param entry
+   * @param status
+   */
+  private setStatus(entry: TagEntry, status: QSeriesBusTagStatus): void {
+    if (entry.status === status) return
+    const event: QSeriesBusTagStatusEvent = {
+      tag: entry.tag,
+      sensor_id: entry.sensor_id,
+      status,
+      previous: entry.status,
+    }
+    entry.status = status
+    if (status === 'offline') {
+      console.warn(`[QSeriesBus] TAG ${entry.tag} offline after ${entry.consecutive_timeouts} timeouts`)
+    }
+    this.emit('tag-status', event)
+  }
+
+  /**
+   *
+   * @param node
+   */
+  private newTagEntry(node: QSeriesBusNode): TagEntry {
+    return {
+      tag: node.tag,
+      sensor_id: node.sensorId!,
+      status: 'waiting',
+      queries: 0,
+      replies: 0,
+      timeouts: 0,
+      consecutive_timeouts: 0,
+      late_replies: 0,
+      invalid_frames: 0,
+      lastReadingAt: null,
+    }
+  }
+
+  /**
+   *
+   * @param error
+   */
+  private handleLinkLost(error: Error): void {
+    if (!this.link) return
+    console.error('[QSeriesBus] Link lost:', error.message)
+    this.stopPolling()
+    this.link.removeAllListeners()
+    this.link = null
+    this.emit('error', error)
+    this.emit('close')
+  }
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/** Minimum interval between live readings forwarded to the renderer, per TAG */
+const LIVE_READING_MIN_INTERVAL_MS = 100
+
+let busController: QSeriesPolledBusController | null = null
+const lastLiveReadingSentAt = new Map<string, number>()
+
+/**
+ * Forward a bus reading to all renderer windows, throttled per TAG.
+ * @param reading - Reading from a head on the bus
+ */
+function forwardBusReading(reading: QSeriesBusReading): void {
+  const now = Date.now()
+  if (now - (lastLiveReadingSentAt.get(reading.tag) ?? 0) < LIVE_READING_MIN_INTERVAL_MS) return
+  lastLiveReadingSentAt.set(reading.tag, now)
+
+  // NOTE: timestamp_monotonic_ns is a bigint and cannot cross the IPC boundary, so it is dropped here.
+  const liveReading: QSensorLiveReading & {
+    /**
+     *
+     */
+    tag: string
+  } = {
+    timestamp: reading.timestamp_utc,
+    sensorId: reading.sensor_id,
+    mode: reading.mode,
+    value: reading.value,
+    TempC: reading.TempC,
+    Vin: reading.Vin,
+    tag: reading.tag,
+  }
+
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('qsensor-bus:reading', liveReading)
+  })
+}
+
+/**
+ * Setup IPC handlers for the multi-drop polled bus.
+ */
+export function setupQSensorSerialBusService(): void {
+  ipcMain.handle(
+    'qsensor-bus:connect',
+    async (_event, port: string, baudRate: number, nodes: QSeriesBusNode[], options?: Partial<QSeriesBusOptions>) => {
+      try {
+        if (busController) {
+          await busController.disconnect()
+        }
+        busController = new QSeriesPolledBusController(options)
+        busController.on('reading', forwardBusReading)
+        busController.on('tag-status', (event: QSeriesBusTagStatusEvent) => {
+          BrowserWindow.getAllWindows().forEach((window) => {
+            window.webContents.send('qsensor-bus:tag-status', event)
+          })
+        })
+        busController.on('error', (error: Error) => console.error('[QSensor Bus] Controller error:', error.message))
+        await busController.connect(port, baudRate, nodes)
+        return { success: true, data: busController.getHealth() }
+      } catch (error: any) {
+        console.error('[QSensor Bus] Connect failed:', error)
+        busController = null
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  ipcMain.handle('qsensor-bus:start', async (_event, pollHz: number) => {
+    try {
+      if (!busController) {
+        throw new Error('Bus not connected')
+      }
+      await busController.start(pollHz)
+      return { success: true, data: busController.getHealth() }
+    } catch (error: any) {
+      console.error('[QSensor Bus] Start failed:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor-bus:stop', async () => {
+    try {
+      busController?.stop()
+      return { success: true }
+    } catch (error: any) {
+      console.error('[QSensor Bus] Stop failed:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor-bus:disconnect', async () => {
+    try {
+      if (busController) {
+        await busController.disconnect()
+        busController.removeAllListeners()
+        busController = null
+      }
+      lastLiveReadingSentAt.clear()
+      return { success: true }
+    } catch (error: any) {
+      console.error('[QSensor Bus] Disconnect failed:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor-bus:get-health', async () => {
+    if (!busController) {
+      return { success: false, error: 'Bus not connected' }
+    }
+    return { success: true, data: busController.getHealth() }
+  })
+
+  console.log('[QSensor Bus] Service registered')
+}
@@ -12,12 +12,15 @@
 import EventEmitter from 'events'
 import { performance } from 'perf_hooks'
 
+import { Link } from './link/link'
 import { SerialLink } from './link/serial'
 import {
   AVERAGING_MAX,
   AVERAGING_MIN,
   DELAY_POST_OPEN,
   DELAY_POST_RESET,
+  diffSensorConfig,
+  EDITABLE_CONFIG_FIELDS,
   // Constants
   ESC,
   INPUT_TERMINATOR,
@@ -28,9 +31,14 @@ import {
   MENU_CMD_CONFIG_DUMP,
   MENU_CMD_EXIT,
   MENU_CMD_MODE,
+  MENU_CMD_OUTPUTS,
+  MENU_CMD_PREAMBLE,
+  MENU_CMD_QUIET,
   MENU_CMD_RATE,
   MENU_REDISPLAY_DELAY,
+  QSeriesConfigChange,
   QSeriesData,
+  QSeriesEditableConfig,
   QSeriesMode,
   QSeriesProtocolParser,
   QSeriesReading,
@@ -39,13 +47,21 @@ import {
   RE_ERROR_BAD_TAG,
   RE_MENU_PROMPT,
   RE_MODE_PROMPT,
+  RE_OUTPUT_TEMP_PROMPT,
+  RE_OUTPUT_VIN_PROMPT,
+  RE_PREAMBLE_PROMPT,
+  RE_PREAMBLE_SET,
+  RE_QUIET_PROMPT,
+  RE_QUIET_SET,
   RE_RATE_PROMPT,
   RE_RATE_SET,
   RE_TAG_PROMPT,
   TIMEOUT_MENU_PROMPT,
   VALID_ADC_RATES,
   VALID_TAGS,
+  validateConfigValues,
 } from './qsensor-protocol'
+import { isSimulatedPort, QSeriesSimulatedLink } from './qsensor-serial-simulator'
 
 // ============================================================================
 // Type Definitions
@@ -104,6 +120,70 @@ export interface HealthData {
    *
    */
   last_reading_age_ms?: number
+  /**
+   * Auto-reconnect attempts made since the link dropped (0 when not reconnecting)
+   */
+  reconnect_attempts: number
+}
+
+/**
+ *
+ */
+export interface AutoReconnectOptions {
+  /**
+   *
+   */
+  enabled: boolean
+  /**
+   * Delay before each reconnect attempt
+   */
+  intervalMs: number
+  /**
+   * Attempts before giving up and emitting 'reconnect-failed'
+   */
+  maxAttempts: number
+}
+
+/**
+ * Payload of the 'reconnected' event
+ */
+export interface ReconnectEvent {
+  /**
+   *
+   */
+  disconnectedAt: string
+  /**
+   *
+   */
+  reconnectedAt: string
+  /**
+   *
+   */
+  attempts: number
+}
+
+const DEFAULT_AUTO_RECONNECT: AutoReconnectOptions = {
+  enabled: false,
+  intervalMs: 2000,
+  maxAttempts: 30,
+}
+
+/**
+ * Result of applying a set of configuration changes
+ */
+export interface ConfigApplyResult {
+  /**
+   *
+   */
+  before: QSeriesSensorConfig
+  /**
+   * Configuration after the changes, re-read from the device
+   */
+  after: QSeriesSensorConfig
+  /**
+   *
+   */
+  changes: QSeriesConfigChange[]
 }
 
 // ============================================================================
@@ -158,13 +238,13 @@ export class InvalidConfigValueError extends Error {
 
 // * High-level controller for Q-Series sensor with state management.
 // * Orchestrates connection, configuration, acquisition, buffering, and event emission.
-// * EVENT EMISSION: 'reading', 'error', 'state-change'.
+// * EVENT EMISSION: 'reading', 'error', 'state-change', 'reconnecting', 'reconnected', 'reconnect-failed'.
 // ! THREAD SAFETY: Not thread-safe; call from main Electron thread only.
 /**
  *
  */
 export class QSeriesSerialController extends EventEmitter {
-  private link: SerialLink | null = null
+  private link: Link | null = null
   private parser: QSeriesProtocolParser
   private state: ConnectionState = ConnectionState.DISCONNECTED
   private config: QSeriesSensorConfig | null = null
@@ -183,6 +263,12 @@ export class QSeriesSerialController extends EventEmitter {
   private lastReadingTimestamp: number | null = null
   private lineBuffer: string[] = []
 
+  // Auto-reconnect after the link drops during acquisition
+  private autoReconnect: AutoReconnectOptions = { ...DEFAULT_AUTO_RECONNECT }
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private reconnectAttempts = 0
+  private disconnectedAt: string | null = null
+
   /**
    *
    */
@@ -209,17 +295,39 @@ export class QSeriesSerialController extends EventEmitter {
     clearInterval(handle)
   }
 
+  /**
+   *
+   * @param callback
+   * @param delayMs
+   */
+  protected scheduleTimeout(callback: () => void, delayMs: number): NodeJS.Timeout {
+    return setTimeout(callback, delayMs)
+  }
+
+  /**
+   *
+   * @param handle
+   */
+  protected clearScheduledTimeout(handle: NodeJS.Timeout): void {
+    clearTimeout(handle)
+  }
+
   // ========================================================================
   // Factory Methods (for test injection)
   // ========================================================================
 
-  // * Create a serial link instance (protected for test mocking).
+  // * Create a serial link instance (protected for test mocking). Simulated ports get a virtual device.
   /**
    *
    * @param port
    * @param baudRate
    */
-  protected createSerialLink(port: string, baudRate: number): SerialLink {
+  protected createSerialLink(port: string, baudRate: number): Link {
+    if (isSimulatedPort(port)) {
+      const uri = new URL(port)
+      uri.searchParams.set('baudrate', String(baudRate))
+      return new QSeriesSimulatedLink(uri)
+    }
     const uri = new URL(`serial:${port}?baudrate=${baudRate}`)
     return new SerialLink(uri)
   }
@@ -243,6 +351,11 @@ export class QSeriesSerialController extends EventEmitter {
       throw new SerialIOError(errorMsg)
     }
 
+    // NOTE: Settings the config dump does not report only carry over when reopening the same port
+    if (port !== this.lastPort) {
+      this.config = null
+    }
+
     // Store connection params for reconnection
     this.lastPort = port
     this.lastBaud = baudRate
@@ -295,7 +408,7 @@ export class QSeriesSerialController extends EventEmitter {
       console.error('[QSeriesSerial] Error message:', error?.message)
       console.error('[QSeriesSerial] Error stack:', error?.stack)
       // Clean up on failure
-      await this.disconnect()
+      await this.closeConnection()
       throw error
     }
   }
@@ -305,6 +418,15 @@ export class QSeriesSerialController extends EventEmitter {
    *
    */
   async disconnect(): Promise<void> {
+    this.cancelReconnect()
+    await this.closeConnection()
+  }
+
+  // * Stop acquisition, close the port, and reset state (leaves any reconnect loop running).
+  /**
+   *
+   */
+  private async closeConnection(): Promise<void> {
     if (this.state === ConnectionState.DISCONNECTED) {
       return
     }
@@ -347,6 +469,42 @@ export class QSeriesSerialController extends EventEmitter {
     await this.connect(this.lastPort, this.lastBaud)
   }
 
+  // * Configure auto-reconnect: after the link drops during acquisition, reopen the same port and resume acquiring.
+  /**
+   *
+   * @param options
+   */
+  setAutoReconnect(options: Partial<AutoReconnectOptions>): void {
+    this.autoReconnect = { ...this.autoReconnect, ...options }
+    if (!this.autoReconnect.enabled) {
+      this.cancelReconnect()
+    }
+  }
+
+  // * Check if the controller is trying to recover a dropped link.
+  /**
+   *
+   */
+  isReconnecting(): boolean {
+    return this.disconnectedAt !== null
+  }
+
+  // * Stop an in-progress reconnect loop.
+  /**
+   *
+   */
+  cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      this.clearScheduledTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (this.disconnectedAt) {
+      console.log('[QSeriesSerial] Auto-reconnect cancelled')
+    }
+    this.disconnectedAt = null
+    this.reconnectAttempts = 0
+  }
+
   // ========================================================================
   // Configuration Methods
   // ========================================================================
@@ -523,6 +681,211 @@ export class QSeriesSerialController extends EventEmitter {
     return this.getConfig()
   }
 
+  // * Enable or disable the temperature and supply voltage outputs in data frames.
+  /**
+   *
+   * @param includeTemp
+   * @param includeVin
+   */
+  async setOutputs(includeTemp: boolean, includeVin: boolean): Promise<QSeriesSensorConfig> {
+    this.ensureInMenu()
+
+    console.log(`[QSeriesSerial] Setting outputs: temp=${includeTemp}, vin=${includeVin}...`)
+    this.lineBuffer = []
+
+    // Send 'O' command, then answer the temperature and voltage questions (single char, no CR)
+    await this.writeCommand(MENU_CMD_OUTPUTS)
+    if (!(await this.waitForPrompt(RE_OUTPUT_TEMP_PROMPT, 5000))) {
+      throw new MenuTimeoutError('Did not receive temperature output prompt')
+    }
+    await this.writeBytes(Buffer.from(includeTemp ? 'Y' : 'N', 'ascii'))
+
+    if (!(await this.waitForPrompt(RE_OUTPUT_VIN_PROMPT, 5000))) {
+      throw new MenuTimeoutError('Did not receive voltage output prompt')
+    }
+    this.lineBuffer = []
+    await this.writeBytes(Buffer.from(includeVin ? 'Y' : 'N', 'ascii'))
+
+    if (this.config) {
+      this.config.include_temp = includeTemp
+      this.config.include_vin = includeVin
+    }
+
+    await this.waitForMenuPrompt()
+    await this.delay(MENU_REDISPLAY_DELAY)
+
+    return this.getConfig()
+  }
+
+  // * Enable or disable quiet mode (no banner after power-on or reset).
+  /**
+   *
+   * @param enabled
+   */
+  async setQuietMode(enabled: boolean): Promise<QSeriesSensorConfig> {
+    this.ensureInMenu()
+
+    console.log(`[QSeriesSerial] Setting quiet mode ${enabled ? 'on' : 'off'}...`)
+    this.lineBuffer = []
+
+    await this.writeCommand(MENU_CMD_QUIET)
+    if (!(await this.waitForPrompt(RE_QUIET_PROMPT, 5000))) {
+      throw new MenuTimeoutError('Did not receive quiet mode prompt')
+    }
+    await this.writeBytes(Buffer.from(enabled ? 'Y' : 'N', 'ascii'))
+
+    const confirmed = await this.waitForPattern(RE_QUIET_SET, 5000, (match) => (match[1] === 'on') === enabled)
+    if (!confirmed) {
+      throw new MenuTimeoutError('Quiet mode not confirmed by device')
+    }
+
+    if (this.config) {
+      this.config.quiet_mode = enabled
+    }
+
+    await this.waitForMenuPrompt()
+    await this.delay(MENU_REDISPLAY_DELAY)
+
+    return this.getConfig()
+  }
+
+  // * Set the text sent before the value in every data frame (empty string clears it).
+  /**
+   *
+   * @param preamble
+   */
+  async setPreamble(preamble: string): Promise<QSeriesSensorConfig> {
+    this.ensureInMenu()
+
+    const errors = validateConfigValues({ preamble })
+    if (errors.length > 0) {
+      throw new InvalidConfigValueError(errors[0])
+    }
+
+    console.log(`[QSeriesSerial] Setting preamble to "${preamble}"...`)
+    this.lineBuffer = []
+
+    await this.writeCommand(MENU_CMD_PREAMBLE)
+    if (!(await this.waitForPrompt(RE_PREAMBLE_PROMPT, 5000))) {
+      throw new MenuTimeoutError('Did not receive preamble prompt')
+    }
+    await this.writeCommand(preamble)
+
+    const confirmed = await this.waitForPattern(RE_PREAMBLE_SET, 5000, (match) => match[1] === preamble)
+    if (!confirmed) {
+      throw new MenuTimeoutError('Preamble not confirmed by device')
+    }
+
+    if (this.config) {
+      this.config.preamble = preamble
+    }
+
+    await this.waitForMenuPrompt()
+    await this.delay(MENU_REDISPLAY_DELAY)
+
+    return this.getConfig()
+  }
+
+  // * Re-read the configuration dump ('^') while in CONFIG_MENU.
+  /**
+   *
+   */
+  async refreshConfig(): Promise<QSeriesSensorConfig> {
+    this.ensureInMenu()
+
+    // NOTE: Drop the previous dump so the snapshot cannot match a stale line
+    this.lineBuffer = []
+    this.config = await this.readConfigSnapshot()
+    return this.getConfig()
+  }
+
+  // * Apply several configuration changes as one operation.
+  // * All values are validated before anything is sent. If a step fails or the device does not
+  // * report the new values, the steps already applied are reverted to the previous values.
+  /**
+   *
+   * @param changes
+   */
+  async applyConfig(changes: Partial<QSeriesEditableConfig>): Promise<ConfigApplyResult> {
+    this.ensureInMenu()
+
+    const before = { ...this.getConfig() }
+    const target: QSeriesSensorConfig = { ...before }
+    for (const field of EDITABLE_CONFIG_FIELDS) {
+      if (changes[field] !== undefined) (target as any)[field] = changes[field]
+    }
+    if (target.mode === 'freerun') target.tag = null
+
+    const errors = validateConfigValues(target)
+    if (errors.length > 0) {
+      throw new InvalidConfigValueError(errors.join('; '))
+    }
+
+    const steps = this.configSteps().filter((step) => step.fields.some((field) => before[field] !== target[field]))
+    if (steps.length === 0) {
+      return { before, after: before, changes: [] }
+    }
+
+    console.log(`[QSeriesSerial] Applying ${steps.length} configuration step(s)...`)
+    const applied: typeof steps = []
+    try {
+      for (const step of steps) {
+        await step.apply(target)
+        applied.push(step)
+      }
+
+      const after = await this.refreshConfig()
+      // NOTE: Only averaging, mode and tag are reported by the dump; the rest is what the device confirmed
+      const mismatch = (['averaging', 'mode', 'tag'] as const).find((field) => after[field] !== target[field])
+      if (mismatch) {
+        throw new SerialIOError(`Device reports ${mismatch}=${after[mismatch]} after setting ${target[mismatch]}`)
+      }
+
+      return { before, after: { ...after }, changes: diffSensorConfig(before, after) }
+    } catch (error: any) {
+      console.error('[QSeriesSerial] Configuration change failed, restoring previous values:', error.message)
+      for (const step of applied.reverse()) {
+        try {
+          await step.apply(before)
+        } catch (restoreError: any) {
+          console.error(`[QSeriesSerial] Failed to restore ${step.fields.join('/')}:`, restoreError.message)
+        }
+      }
+      try {
+        await this.refreshConfig()
+      } catch {
+        // NOTE: Keep the cached config; the original error is more useful to the caller
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Menu operations used by applyConfig, in the order they are applied
+   */
+  private configSteps(): {
+    /**
+     *
+     */
+    fields: (keyof QSeriesEditableConfig)[]
+    /**
+     *
+     */
+    apply: (config: QSeriesEditableConfig) => Promise<unknown>
+  }[] {
+    return [
+      { fields: ['averaging'], apply: (config) => this.setAveraging(config.averaging) },
+      { fields: ['adc_rate_hz'], apply: (config) => this.setAdcRate(config.adc_rate_hz) },
+      { fields: ['mode', 'tag'], apply: (config) => this.setMode(config.mode, config.tag) },
+      {
+        fields: ['include_temp', 'include_vin'],
+        apply: (config) => this.setOutputs(config.include_temp, config.include_vin),
+      },
+      { fields: ['quiet_mode'], apply: (config) => this.setQuietMode(config.quiet_mode) },
+      { fields: ['preamble'], apply: (config) => this.setPreamble(config.preamble) },
+    ]
+  }
+
   // ========================================================================
   // Acquisition Control
   // ========================================================================
@@ -650,6 +1013,7 @@ export class QSeriesSerialController extends EventEmitter {
       state: this.state,
       buffer_size: this.parser.getBufferSize(),
       last_reading_age_ms: lastReadingAge,
+      reconnect_attempts: this.reconnectAttempts,
     }
   }
 
@@ -677,6 +1041,22 @@ export class QSeriesSerialController extends EventEmitter {
     return this.sensorId
   }
 
+  // * Get the port of the current (or last) connection.
+  /**
+   *
+   */
+  getPort(): string | null {
+    return this.lastPort
+  }
+
+  // * Get device calibration factor from the config read at connect (available in any state).
+  /**
+   *
+   */
+  getCalFactor(): number | null {
+    return this.config?.calfactor ?? null
+  }
+
   // ========================================================================
   // Internal Helpers: Menu Operations
   // ========================================================================
@@ -800,12 +1180,14 @@ export class QSeriesSerialController extends EventEmitter {
           // Fill in defaults for missing fields
           return {
             averaging: config.averaging || 12,
-            adc_rate_hz: config.adc_rate_hz || 125,
             mode: config.mode || 'freerun',
             tag: config.tag || null,
-            include_temp: config.include_temp || false,
-            include_vin: config.include_vin || false,
-            preamble: config.preamble || '',
+            // NOTE: Not in the dump; keep the values last set through the menu
+            adc_rate_hz: this.config?.adc_rate_hz ?? 125,
+            include_temp: this.config?.include_temp ?? false,
+            include_vin: this.config?.include_vin ?? false,
+            preamble: this.config?.preamble ?? '',
+            quiet_mode: this.config?.quiet_mode ?? false,
             calfactor: config.calfactor || 1.0,
             serial_number: config.serial_number || 'unknown',
             firmware_version: config.firmware_version || 'unknown',
@@ -1058,6 +1440,7 @@ export class QSeriesSerialController extends EventEmitter {
    * @param error
    */
   private cleanupAfterUnexpectedDisconnect(error?: Error): void {
+    const wasAcquiring = this.state === ConnectionState.ACQ_FREERUN || this.state === ConnectionState.ACQ_POLLED
     this.stopAcquisitionLoop()
     if (this.link) {
       this.link.removeAllListeners()
@@ -1065,11 +1448,90 @@ export class QSeriesSerialController extends EventEmitter {
     }
     this.state = ConnectionState.DISCONNECTED
     this.emitStateChange()
+
+    // NOTE: Only a link lost mid-acquisition is recovered; a dropped reconnect attempt is retried by its own loop
+    if (wasAcquiring && this.autoReconnect.enabled && this.lastPort && !this.disconnectedAt) {
+      this.disconnectedAt = new Date().toISOString()
+      this.reconnectAttempts = 0
+      console.warn(`[QSeriesSerial] Link lost during acquisition, reconnecting to ${this.lastPort}...`)
+      this.scheduleReconnect()
+    }
+
     if (error) {
       this.emit('error', error)
     }
   }
 
+  // ========================================================================
+  // Internal Helpers: Auto-Reconnect
+  // ========================================================================
+
+  /**
+   *
+   */
+  private scheduleReconnect(): void {
+    this.reconnectTimer = this.scheduleTimeout(() => {
+      this.reconnectTimer = null
+      this.attemptReconnect().catch((error) => {
+        console.error('[QSeriesSerial] Reconnect attempt error:', error)
+      })
+    }, this.autoReconnect.intervalMs)
+  }
+
+  // * Reopen the last port and re-enter acquisition; retried until maxAttempts, then 'reconnect-failed'.
+  /**
+   *
+   */
+  private async attemptReconnect(): Promise<void> {
+    const disconnectedAt = this.disconnectedAt
+    if (!disconnectedAt || !this.lastPort) {
+      return
+    }
+
+    // NOTE: The port was reconnected manually while the attempt was pending
+    if (this.state !== ConnectionState.DISCONNECTED) {
+      this.cancelReconnect()
+      return
+    }
+
+    this.reconnectAttempts++
+    const attempt = this.reconnectAttempts
+    console.log(`[QSeriesSerial] Reconnect attempt ${attempt}/${this.autoReconnect.maxAttempts} to ${this.lastPort}`)
+    this.emit('reconnecting', attempt)
+
+    try {
+      await this.connect(this.lastPort, this.lastBaud)
+      await this.startAcquisition(this.lastPollHz)
+    } catch (error: any) {
+      console.warn(`[QSeriesSerial] Reconnect attempt ${attempt} failed:`, error?.message ?? error)
+      await this.closeConnection()
+
+      // NOTE: disconnect() or setAutoReconnect() cancelled the loop while the attempt was in flight
+      if (this.disconnectedAt !== disconnectedAt) {
+        return
+      }
+
+      if (attempt >= this.autoReconnect.maxAttempts) {
+        const port = this.lastPort
+        this.cancelReconnect()
+        this.emit(
+          'reconnect-failed',
+          new SerialIOError(`Could not reconnect to ${port} after ${attempt} attempts: ${error?.message ?? error}`)
+        )
+        return
+      }
+
+      this.scheduleReconnect()
+      return
+    }
+
+    const event: ReconnectEvent = { disconnectedAt, reconnectedAt: new Date().toISOString(), attempts: attempt }
+    this.disconnectedAt = null
+    this.reconnectAttempts = 0
+    console.log(`[QSeriesSerial] Reconnected after ${attempt} attempt(s), acquisition resumed`)
+    this.emit('reconnected', event)
+  }
+
   /**
    *
    */
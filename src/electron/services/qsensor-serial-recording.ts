@@ -1,33 +1,47 @@
 /**
  * Q-Sensor Serial Recording Service for Electron main process.
  *
- * Manages local recording for surface reference sensor (topside direct serial).
- * Integrates QSeriesSerialController with QSeriesLocalRecorder.
+ * Manages local recording for sensors connected to topside serial ports (surface reference and sensor arrays).
+ * Integrates one QSeriesSerialController per port with a shared QSeriesLocalRecorder.
+ * Operations take the port of the sensor; it may be omitted while a single serial sensor is connected.
  */
 
 console.log('[QSensor Serial Recording] Module loading...')
 
-import { app, ipcMain } from 'electron'
-console.log('[QSensor Serial Recording] Imported ipcMain, app')
+import { app, BrowserWindow, ipcMain } from 'electron'
+console.log('[QSensor Serial Recording] Imported ipcMain, app, BrowserWindow')
 
 import * as path from 'path'
 console.log('[QSensor Serial Recording] Imported path')
 
-import { ConnectionState, QSeriesSerialController } from './qsensor-serial-controller'
+import {
+  ConfigApplyResult,
+  ConnectionState,
+  QSeriesSerialController,
+  ReconnectEvent,
+} from './qsensor-serial-controller'
 console.log('[QSensor Serial Recording] Imported QSeriesSerialController')
 
 import { QSeriesLocalRecorder } from './qsensor-local-recorder'
 console.log('[QSensor Serial Recording] Imported QSeriesLocalRecorder')
 
-import { QSeriesReading } from './qsensor-protocol'
+import { QSeriesEditableConfig, QSeriesReading, QSeriesSensorConfig } from './qsensor-protocol'
 console.log('[QSensor Serial Recording] Imported QSeriesReading')
 
+import type { QSensorDarkCapture, QSensorLiveReading, QSensorRole } from '@/types/qsensor'
+
 import store from './config-store'
 console.log('[QSensor Serial Recording] Imported config-store')
 
 import { v4 as uuidv4 } from 'uuid'
 console.log('[QSensor Serial Recording] Imported uuidv4')
 
+import { recordSessionCalibration } from './qsensor-calibration'
+import { checkSensorCalibration } from './qsensor-calibration-store'
+import { computeDarkCapture, DarkSample, recordSessionDarkCapture, validateDarkCaptureDuration } from './qsensor-dark'
+import { DEFAULT_SIMULATOR_OPTIONS, SIMULATED_PORT_PATH } from './qsensor-serial-simulator'
+import { buildUnifiedSessionRoot, SensorKey } from './qsensor-session-utils'
+
 console.log('[QSensor Serial Recording] All imports completed successfully')
 
 let SerialPort: any
@@ -36,15 +50,9 @@ let SerialPort: any
 // Global State
 // ============================================================================
 
-// Singleton instances
-const serialController = new QSeriesSerialController()
+// Shared by every serial sensor, sessions are keyed by session ID
 const localRecorder = new QSeriesLocalRecorder()
 
-// Active recording session state
-let activeSessionId: string | null = null
-let activeSyncId: string | null = null
-let readingListenerAttached = false
-
 // Cache for final session stats (preserved after recording stops)
 /**
  *
@@ -67,7 +75,47 @@ interface LastSessionStats {
    */
   stoppedAt: string
 }
-let lastSessionStats: LastSessionStats | null = null
+
+/**
+ * A sensor connected to a serial port, with its recording state
+ */
+interface SerialSensorLink {
+  /**
+   * Serial port of the sensor
+   */
+  port: string
+  /**
+   * Controller of the sensor
+   */
+  controller: QSeriesSerialController
+  /**
+   * Active recording session
+   */
+  activeSessionId: string | null
+  /**
+   * Sync ID of the active recording session
+   */
+  activeSyncId: string | null
+  /**
+   * Dark capture in progress (recording can't start until it finishes)
+   */
+  darkCaptureActive: boolean
+  /**
+   * Final stats of the last recording session
+   */
+  lastSessionStats: LastSessionStats | null
+  /**
+   * When a live reading was last forwarded to the renderer
+   */
+  lastLiveReadingSentAt: number
+}
+
+// Connected serial sensors, keyed by port
+const serialLinks = new Map<string, SerialSensorLink>()
+
+// Live reading forwarding to renderer (Data Lake)
+// NOTE: Throttled so freerun at high rates doesn't flood IPC; the Data Lake only needs display-rate updates.
+const LIVE_READING_MIN_INTERVAL_MS = 100
 
 // ============================================================================
 // Helper Functions
@@ -81,33 +129,123 @@ function getDefaultStoragePath(): string {
   return customPath || path.join(app.getPath('userData'), 'qsensor')
 }
 
+/**
+ * Remember a storage path a recording was started in, so it is still recovered after the storage path changes
+ * @param storagePath - Storage path of the recording
+ */
+function rememberRecordingStoragePath(storagePath: string): void {
+  const storagePaths = (store.get('qsensorRecordingStoragePaths') as string[] | undefined) ?? []
+  const resolvedPath = path.resolve(storagePath)
+  if (!storagePaths.includes(resolvedPath)) {
+    store.set('qsensorRecordingStoragePaths', [...storagePaths, resolvedPath])
+  }
+}
+
+/**
+ * Get the serial sensor on a port
+ * @param port - Serial port, may be omitted while a single serial sensor is connected
+ */
+function getSerialLink(port?: string): SerialSensorLink {
+  if (port === undefined && serialLinks.size > 1) {
+    throw new Error(`Several serial sensors are connected (${Array.from(serialLinks.keys()).join(', ')}), pass a port`)
+  }
+  const link = port === undefined ? serialLinks.values().next().value : serialLinks.get(port)
+  if (!link) {
+    throw new Error('Serial controller not connected. Call connect() first.')
+  }
+  return link
+}
+
 /**
  * Ensure controller is connected
+ * @param link
  */
-function ensureConnected(): void {
-  if (!serialController.isConnected()) {
+function ensureConnected(link: SerialSensorLink): void {
+  if (!link.controller.isConnected()) {
     throw new Error('Serial controller not connected. Call connect() first.')
   }
 }
 
 /**
  * Ensure not already recording
+ * @param link
  */
-function ensureNotRecording(): void {
-  if (activeSessionId) {
-    throw new Error(`Already recording session: ${activeSessionId}`)
+function ensureNotRecording(link: SerialSensorLink): void {
+  if (link.activeSessionId) {
+    throw new Error(`Already recording session: ${link.activeSessionId}`)
   }
 }
 
 /**
  * Ensure recording is active
+ * @param link
  */
-function ensureRecording(): void {
-  if (!activeSessionId) {
+function ensureRecording(link: SerialSensorLink): void {
+  if (!link.activeSessionId) {
     throw new Error('No active recording session')
   }
 }
 
+/**
+ * Create the controller of a serial port, recording and forwarding its readings
+ * @param port
+ */
+function createSerialLink(port: string): SerialSensorLink {
+  const link: SerialSensorLink = {
+    port,
+    controller: new QSeriesSerialController(),
+    activeSessionId: null,
+    activeSyncId: null,
+    darkCaptureActive: false,
+    lastSessionStats: null,
+    lastLiveReadingSentAt: 0,
+  }
+
+  link.controller.on('reading', (reading: QSeriesReading) => {
+    if (link.activeSessionId) {
+      localRecorder.addReading(link.activeSessionId, reading)
+    }
+    forwardLiveReading(link, reading)
+  })
+
+  // NOTE: Without an 'error' listener, EventEmitter throws when the USB adapter drops
+  link.controller.on('error', (error: Error) => {
+    console.error(`[QSensor Serial] Controller error on ${port}:`, error?.message ?? error)
+  })
+  link.controller.setAutoReconnect({ enabled: true })
+  link.controller.on('reconnected', (event: ReconnectEvent) => handleReconnected(link, event))
+  link.controller.on('reconnect-failed', (error: Error) => handleReconnectFailed(link, error))
+
+  return link
+}
+
+/**
+ * Forward a reading to all renderer windows so it can be published to the Data Lake.
+ * Runs independently of recording, so live values are available as soon as acquisition starts.
+ * @param link - Sensor the reading came from
+ * @param reading
+ */
+function forwardLiveReading(link: SerialSensorLink, reading: QSeriesReading): void {
+  const now = Date.now()
+  if (now - link.lastLiveReadingSentAt < LIVE_READING_MIN_INTERVAL_MS) return
+  link.lastLiveReadingSentAt = now
+
+  // NOTE: timestamp_monotonic_ns is a bigint and cannot cross the IPC boundary, so it is dropped here.
+  const liveReading: QSensorLiveReading = {
+    timestamp: reading.timestamp_utc,
+    sensorId: reading.sensor_id,
+    mode: reading.mode,
+    value: reading.value,
+    TempC: reading.TempC,
+    Vin: reading.Vin,
+    port: link.port,
+  }
+
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('qsensor-serial:reading', liveReading)
+  })
+}
+
 // ============================================================================
 // Serial Controller Operations
 // ============================================================================
@@ -138,15 +276,17 @@ dddddddddddd
   error?: string
 }> {
   console.log(`[QSensor Serial] connect() called - port: ${port}, baudRate: ${baudRate}`)
-  console.log(`[QSensor Serial] serialController exists: ${!!serialController}`)
-  console.log(`[QSensor Serial] serialController.connect exists: ${typeof serialController?.connect}`)
+
+  const existingLink = serialLinks.get(port)
+  const link = existingLink ?? createSerialLink(port)
+  serialLinks.set(port, link)
 
   try {
     console.log('[QSensor Serial] About to call serialController.connect()...')
-    await serialController.connect(port, baudRate)
+    await link.controller.connect(port, baudRate)
     console.log('[QSensor Serial] serialController.connect() completed successfully')
 
-    const config = serialController.getConfig()
+    const config = link.controller.getConfig()
     console.log('[QSensor Serial] Got config:', JSON.stringify(config))
 
     console.log('[QSensor Serial] Connected to surface sensor:', config.serial_number)
@@ -154,14 +294,18 @@ dddddddddddd
     const result = {
       success: true,
       data: {
-        sensor_id: serialController.getSensorId(),
-        state: serialController.getState(),
+        sensor_id: link.controller.getSensorId(),
+        state: link.controller.getState(),
         config,
       },
     }
     console.log('[QSensor Serial] connect() returning success:', JSON.stringify(result))
     return result
   } catch (error: any) {
+    if (!existingLink) {
+      link.controller.removeAllListeners()
+      serialLinks.delete(port)
+    }
     console.error('[QSensor Serial] Connect failed:', error)
     console.error('[QSensor Serial] Error message:', error?.message)
     console.error('[QSensor Serial] Error stack:', error?.stack)
@@ -171,9 +315,10 @@ dddddddddddd
 }
 
 /**
- * Disconnect from surface sensor
+ * Disconnect from a serial sensor
+ * @param port
  */
-async function disconnect(): Promise<{
+async function disconnect(port?: string): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -191,14 +336,19 @@ dddddddddddd
   error?: string
 }> {
   try {
+    const link = getSerialLink(port)
+
     // Stop recording if active
-    if (activeSessionId) {
+    if (link.activeSessionId) {
       console.warn('[QSensor Serial] Disconnecting while recording active. Stopping recording first.')
-      await stopRecording()
+      await stopRecording(link.port)
     }
 
-    await serialController.disconnect()
-    console.log('[QSensor Serial] Disconnected')
+    await link.controller.disconnect()
+    link.controller.cancelReconnect()
+    link.controller.removeAllListeners()
+    serialLinks.delete(link.port)
+    console.log(`[QSensor Serial] Disconnected from ${link.port}`)
 
     return { success: true, data: { state: 'disconnected' } }
   } catch (error: any) {
@@ -210,8 +360,9 @@ dddddddddddd
 /**
  * Get serial controller health.
  * Normalizes snake_case from controller to camelCase for TypeScript consumers.
+ * @param port
  */
-async function getHealth(): Promise<{
+async function getHealth(port?: string): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -229,28 +380,35 @@ dddddddddddd
   error?: string
 }> {
   try {
-    const health = serialController.getHealth()
-    const config = serialController.getConfig()
+    const { controller } = getSerialLink(port)
+    const health = controller.getHealth()
+    const config = controller.getConfig()
 
     // Normalize to camelCase for TypeScript consumers
     return {
       success: true,
       data: {
-        connected: serialController.isConnected(),
+        connected: controller.isConnected(),
         sensorId: health.sensor_id,
+        firmware: config?.firmware_version ?? null,
         state: health.state,
         tempC: health.tempC,
         vin: health.vin,
         bufferSize: health.buffer_size,
         lastReadingAgeMs: health.last_reading_age_ms,
+        reconnecting: controller.isReconnecting(),
+        reconnectAttempts: health.reconnect_attempts,
         // Config data (if available)
         config: config
           ? {
               integrationTimeMs: config.integration_time_ms,
-              internalAveraging: config.internal_averaging,
+              internalAveraging: config.averaging,
               rateHz: config.adc_rate_hz,
               mode: config.mode,
               tag: config.tag,
+              calFactor: config.calfactor ?? null,
+              includeTemp: config.include_temp,
+              includeVin: config.include_vin,
             }
           : null,
       },
@@ -264,8 +422,12 @@ dddddddddddd
 /**
  * Start acquisition (without recording)
  * @param pollHz
+ * @param port
  */
-async function startAcquisition(pollHz = 1.0): Promise<{
+async function startAcquisition(
+  pollHz = 1.0,
+  port?: string
+): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -283,16 +445,17 @@ dddddddddddd
   error?: string
 }> {
   try {
-    ensureConnected()
+    const link = getSerialLink(port)
+    ensureConnected(link)
 
-    await serialController.startAcquisition(pollHz)
+    await link.controller.startAcquisition(pollHz)
 
     console.log('[QSensor Serial] Acquisition started')
 
     return {
       success: true,
       data: {
-        state: serialController.getState(),
+        state: link.controller.getState(),
         poll_hz: pollHz,
       },
     }
@@ -304,8 +467,9 @@ dddddddddddd
 
 /**
  * Stop acquisition
+ * @param port
  */
-async function stopAcquisition(): Promise<{
+async function stopAcquisition(port?: string): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -323,32 +487,196 @@ dddddddddddd
   error?: string
 }> {
   try {
-    await serialController.stop()
+    const { controller } = getSerialLink(port)
+    await controller.stop()
 
     console.log('[QSensor Serial] Acquisition stopped')
 
-    return { success: true, data: { state: serialController.getState() } }
+    return { success: true, data: { state: controller.getState() } }
   } catch (error: any) {
     console.error('[QSensor Serial] Stop acquisition failed:', error.message)
     return { success: false, error: error.message }
   }
 }
 
+// ============================================================================
+// Device Configuration
+// ============================================================================
+
+/**
+ * Re-read the device configuration dump (sensor must be in the menu, i.e. not acquiring).
+ * @param port
+ */
+async function readDeviceConfig(port?: string): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  data?: QSeriesSensorConfig
+  /**
+   *
+   */
+  error?: string
+}> {
+  try {
+    const link = getSerialLink(port)
+    ensureConnected(link)
+    return { success: true, data: { ...(await link.controller.refreshConfig()) } }
+  } catch (error: any) {
+    console.error('[QSensor Serial] Read config failed:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/**
+ * Apply configuration changes; on failure the previous values are restored.
+ * @param changes - Fields to change
+ * @param port
+ */
+async function applyDeviceConfig(
+  changes: Partial<QSeriesEditableConfig>,
+  port?: string
+): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  data?: ConfigApplyResult
+  /**
+   *
+   */
+  error?: string
+}> {
+  try {
+    const link = getSerialLink(port)
+    ensureConnected(link)
+    ensureNotRecording(link)
+    const result = await link.controller.applyConfig(changes)
+    console.log(`[QSensor Serial] Applied ${result.changes.length} configuration change(s)`)
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('[QSensor Serial] Apply config failed:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+// ============================================================================
+// Dark Capture
+// ============================================================================
+
+/**
+ * Capture dark readings (sensor capped) for a fixed duration.
+ * Starts acquisition if the sensor is in the menu and stops it again afterwards.
+ * @param durationS - Capture duration in seconds
+ * @param pollHz - Poll rate used if acquisition has to be started
+ * @param port
+ */
+async function captureDark(
+  durationS: number,
+  pollHz = 1.0,
+  port?: string
+): Promise<{
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  data?: QSensorDarkCapture
+  /**
+   *
+   */
+  error?: string
+}> {
+  try {
+    const link = getSerialLink(port)
+    const serialController = link.controller
+    ensureConnected(link)
+    ensureNotRecording(link)
+    if (link.darkCaptureActive) {
+      throw new Error('Dark capture already in progress')
+    }
+    const durationError = validateDarkCaptureDuration(durationS)
+    if (durationError) {
+      throw new Error(durationError)
+    }
+
+    link.darkCaptureActive = true
+    const samples: DarkSample[] = []
+    const onReading = (reading: QSeriesReading): void => {
+      samples.push({ value: reading.value, TempC: reading.TempC })
+    }
+
+    let startedAcquisition = false
+    let startedAt = new Date().toISOString()
+    try {
+      const currentState = serialController.getState()
+      if (currentState === ConnectionState.CONFIG_MENU) {
+        await serialController.startAcquisition(pollHz)
+        startedAcquisition = true
+      } else if (currentState !== ConnectionState.ACQ_FREERUN && currentState !== ConnectionState.ACQ_POLLED) {
+        throw new Error(`Cannot capture dark in state: ${currentState}`)
+      }
+
+      // NOTE: Listener is attached after acquisition starts so readings from the menu exit are not counted
+      serialController.on('reading', onReading)
+      startedAt = new Date().toISOString()
+      console.log(`[QSensor Serial] Capturing dark for ${durationS}s`)
+      await new Promise((resolve) => setTimeout(resolve, durationS * 1000))
+    } finally {
+      serialController.off('reading', onReading)
+      link.darkCaptureActive = false
+      if (startedAcquisition) {
+        await serialController.stop()
+      }
+    }
+
+    const capture = computeDarkCapture(samples, {
+      serialNumber: serialController.getSensorId(),
+      startedAt,
+      completedAt: new Date().toISOString(),
+      durationS,
+    })
+    console.log(`[QSensor Serial] Dark captured: ${capture.valueMean} ± ${capture.valueStd} (${capture.sampleCount})`)
+
+    return { success: true, data: capture }
+  } catch (error: any) {
+    console.error('[QSensor Serial] Dark capture failed:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
 // ============================================================================
 // Recording Operations
 // ============================================================================
 
 /**
- * Start local recording for surface sensor
+ * Start local recording for a serial sensor
  * @param params
+ * @param params.port
  * @param params.mission
  * @param params.rollIntervalS
  * @param params.rateHz
  * @param params.storagePath
  * @param params.unifiedSessionTimestamp
  * @param params.syncId
+ * @param params.darkCapture
+ * @param params.sessionSensor
+ * @param params.sensorRole
+ * @param params.sensorLabel
  */
 async function startRecording(params: {
+  /**
+   * Serial port of the sensor, may be omitted while a single serial sensor is connected
+   */
+  port?: string
   /**
    *
    */
@@ -373,6 +701,22 @@ async function startRecording(params: {
    *
    */
   syncId?: string
+  /**
+   * Dark capture to apply (replaces the calibration record's dark offset)
+   */
+  darkCapture?: QSensorDarkCapture | null
+  /**
+   * Key of the sensor in the unified session (defaults to 'surface')
+   */
+  sessionSensor?: SensorKey
+  /**
+   * Role of the sensor in the deployment
+   */
+  sensorRole?: QSensorRole
+  /**
+   * Short display name of the sensor
+   */
+  sensorLabel?: string
 }): Promise<{
   /**
 }}}}}}}}}}}}}} *
@@ -391,8 +735,13 @@ dddddddddddd
   error?: string
 }> {
   try {
-    ensureConnected()
-    ensureNotRecording()
+    const link = getSerialLink(params.port)
+    const serialController = link.controller
+    ensureConnected(link)
+    ensureNotRecording(link)
+    if (link.darkCaptureActive) {
+      throw new Error('Dark capture in progress')
+    }
 
     const sensorId = serialController.getSensorId()
     const storagePath = params.storagePath || getDefaultStoragePath()
@@ -405,6 +754,15 @@ dddddddddddd
     // Start recording session with coordinated syncId
     const syncId = params.syncId ?? uuidv4()
 
+    // Look up the calibration for this serial number (readings are recorded with calibrated_value)
+    const calibration = checkSensorCalibration(sensorId, serialController.getCalFactor())
+    const darkCapture = params.darkCapture ?? null
+    const recorderCalibration =
+      calibration.record && darkCapture
+        ? { ...calibration.record, darkOffset: darkCapture.valueMean }
+        : calibration.record
+
+    const sessionSensor = params.sessionSensor ?? 'surface'
     const sessionInfo = await localRecorder.startSession({
       sensorId,
       mission: params.mission,
@@ -412,22 +770,23 @@ dddddddddddd
       storagePath,
       unifiedSessionTimestamp: params.unifiedSessionTimestamp,
       syncId,
+      calibration: recorderCalibration,
+      sessionSensor,
+      sessionSensorInfo: { role: params.sensorRole, label: params.sensorLabel },
     })
+    rememberRecordingStoragePath(storagePath)
 
-    activeSessionId = sessionInfo.session_id
-    activeSyncId = sessionInfo.syncId
-
-    // Attach reading listener if not already attached
-    if (!readingListenerAttached) {
-      serialController.on('reading', (reading: QSeriesReading) => {
-        if (activeSessionId) {
-          localRecorder.addReading(activeSessionId, reading)
-        }
-      })
-      readingListenerAttached = true
-      console.log('[QSensor Serial] Reading listener attached')
+    if (params.unifiedSessionTimestamp) {
+      const sessionRoot = buildUnifiedSessionRoot(storagePath, params.mission, params.unifiedSessionTimestamp)
+      await recordSessionCalibration(sessionRoot, sessionSensor, calibration)
+      if (darkCapture) {
+        await recordSessionDarkCapture(sessionRoot, sessionSensor, darkCapture)
+      }
     }
 
+    link.activeSessionId = sessionInfo.session_id
+    link.activeSyncId = sessionInfo.syncId
+
     // Start acquisition if not already running
     const currentState = serialController.getState()
     if (currentState === ConnectionState.CONFIG_MENU) {
@@ -450,6 +809,7 @@ dddddddddddd
         mission: params.mission,
         storage_path: storagePath,
         sync_id: sessionInfo.syncId,
+        calibration,
       },
     }
   } catch (error: any) {
@@ -459,9 +819,10 @@ dddddddddddd
 }
 
 /**
- * Stop local recording for surface sensor
+ * Stop local recording for a serial sensor
+ * @param port
  */
-async function stopRecording(): Promise<{
+async function stopRecording(port?: string): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -479,32 +840,43 @@ dddddddddddd
   error?: string
 }> {
   try {
-    ensureRecording()
+    const link = getSerialLink(port)
+    const serialController = link.controller
+    ensureRecording(link)
 
-    const sessionId = activeSessionId!
-    const syncId = activeSyncId
+    const sessionId = link.activeSessionId!
+    const syncId = link.activeSyncId
 
     // Get final stats before stopping (for cache)
     const finalStats = await localRecorder.getStats(sessionId)
 
     // Stop recording session (finalizes chunks, creates session.csv)
     await localRecorder.stopSession(sessionId)
-    activeSyncId = null
-    activeSyncId = null
-
-    // Stop acquisition - return sensor to CONFIG_MENU state
-    await serialController.stop()
+    link.activeSyncId = null
+
+    // Stop acquisition - return sensor to CONFIG_MENU state (the link may still be down after a USB drop)
+    const state = serialController.getState()
+    if (
+      state === ConnectionState.ACQ_FREERUN ||
+      state === ConnectionState.ACQ_POLLED ||
+      state === ConnectionState.PAUSED
+    ) {
+      await serialController.stop()
+    } else {
+      serialController.cancelReconnect()
+    }
 
     // Cache final stats for retrieval after session ends
     const stoppedAt = new Date().toISOString()
-    lastSessionStats = {
+    const lastSessionStats: LastSessionStats = {
       sessionId,
       totalRows: finalStats.totalRows || 0,
       bytesFlushed: finalStats.bytesFlushed || 0,
       stoppedAt,
     }
+    link.lastSessionStats = lastSessionStats
 
-    activeSessionId = null
+    link.activeSessionId = null
 
     console.log('[QSensor Serial] Recording stopped:', sessionId)
 
@@ -524,10 +896,40 @@ dddddddddddd
   }
 }
 
+/**
+ * Inject an intermediate sync marker into the local recording (manual "mark" during the dive)
+ * @param syncId - Shared by every sensor marked at the same moment
+ * @param port
+ */
+function injectSyncMarker(
+  syncId: string,
+  port?: string
+): {
+  /**
+   *
+   */
+  success: boolean
+  /**
+   *
+   */
+  error?: string
+} {
+  try {
+    const link = getSerialLink(port)
+    ensureRecording(link)
+    localRecorder.addSyncMarker(link.activeSessionId!, syncId)
+    return { success: true }
+  } catch (error: any) {
+    console.error('[QSensor Serial] Sync marker failed:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
 /**
  * Get recording statistics
+ * @param port
  */
-async function getRecordingStats(): Promise<{
+async function getRecordingStats(port?: string): Promise<{
   /**
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa *
 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa
@@ -545,6 +947,7 @@ dddddddddddd
   error?: string
 }> {
   try {
+    const { activeSessionId, lastSessionStats } = getSerialLink(port)
     if (!activeSessionId) {
       // Not actively recording - return cached stats from last session if available
       if (lastSessionStats) {
@@ -577,6 +980,62 @@ dddddddddddd
   }
 }
 
+// ============================================================================
+// Disconnect Recovery
+// ============================================================================
+
+/**
+ * Mark the gap in the active recording once the controller has re-entered acquisition after a USB drop
+ * @param link
+ * @param event
+ */
+function handleReconnected(link: SerialSensorLink, event: ReconnectEvent): void {
+  if (link.activeSessionId) {
+    localRecorder.recordGap(link.activeSessionId, event.disconnectedAt, event.reconnectedAt)
+  }
+}
+
+/**
+ * Finalize the active recording when the sensor could not be reconnected
+ * @param link
+ * @param error
+ */
+async function handleReconnectFailed(link: SerialSensorLink, error: Error): Promise<void> {
+  console.error(`[QSensor Serial] Auto-reconnect on ${link.port} gave up:`, error.message)
+  if (link.activeSessionId) {
+    await stopRecording(link.port)
+  }
+}
+
+/**
+ * Finalize sessions left open by a crash in a previous run (manifest without stopped_at), in the configured storage
+ * path and in every storage path a recording was started in
+ */
+async function recoverInterruptedRecordings(): Promise<void> {
+  const rememberedPaths = (store.get('qsensorRecordingStoragePaths') as string[] | undefined) ?? []
+  const storagePaths = new Set(
+    [getDefaultStoragePath(), ...rememberedPaths].map((storagePath) => path.resolve(storagePath))
+  )
+
+  for (const storagePath of storagePaths) {
+    try {
+      const recovered = await localRecorder.recoverInterruptedSessions(storagePath)
+      for (const session of recovered) {
+        if (session.status === 'finalized') {
+          console.log(
+            `[QSensor Serial] Recovered session ${session.sessionId}: ${session.totalRows} rows` +
+              (session.corruptChunks.length > 0 ? `, dropped corrupt chunks ${session.corruptChunks.join(', ')}` : '')
+          )
+        } else {
+          console.error(`[QSensor Serial] Could not recover session ${session.sessionId}: ${session.error}`)
+        }
+      }
+    } catch (error: any) {
+      console.error(`[QSensor Serial] Interrupted session recovery failed in ${storagePath}:`, error?.message ?? error)
+    }
+  }
+}
+
 // ============================================================================
 // IPC Setup
 // ============================================================================
@@ -604,7 +1063,6 @@ export function setupQSensorSerialRecordingService(): void {
     console.log('[QSensor Serial Recording] Checking dependencies...')
     console.log(`[QSensor Serial Recording] - ipcMain: ${typeof ipcMain}`)
     console.log(`[QSensor Serial Recording] - SerialPort: ${typeof SerialPort}`)
-    console.log(`[QSensor Serial Recording] - serialController: ${typeof serialController}`)
     console.log(`[QSensor Serial Recording] - localRecorder: ${typeof localRecorder}`)
 
     // Port enumeration
@@ -616,20 +1074,33 @@ export function setupQSensorSerialRecordingService(): void {
         console.log(`[QSensor Serial] Found ${ports.length} serial ports`)
         return {
           success: true,
-          data: ports.map((port) => ({
-            path: port.path,
-            manufacturer: port.manufacturer || null,
-            serialNumber: port.serialNumber || null,
-            vendorId: port.vendorId || null,
-            productId: port.productId || null,
-            // Flag likely Q-Sensor devices (FTDI chips commonly used)
-            isLikelyQSensor:
-              port.manufacturer?.toLowerCase().includes('ftdi') ||
-              port.manufacturer?.toLowerCase().includes('silicon labs') ||
-              port.path.includes('ttyUSB') ||
-              port.path.includes('ttyACM') ||
-              port.path.includes('COM'),
-          })),
+          data: [
+            ...ports.map((port) => ({
+              path: port.path,
+              manufacturer: port.manufacturer || null,
+              serialNumber: port.serialNumber || null,
+              vendorId: port.vendorId || null,
+              productId: port.productId || null,
+              // Flag likely Q-Sensor devices (FTDI chips commonly used)
+              isLikelyQSensor:
+                port.manufacturer?.toLowerCase().includes('ftdi') ||
+                port.manufacturer?.toLowerCase().includes('silicon labs') ||
+                port.path.includes('ttyUSB') ||
+                port.path.includes('ttyACM') ||
+                port.path.includes('COM'),
+              isSimulated: false,
+            })),
+            // NOTE: Listed last so real hardware stays the default selection
+            {
+              path: SIMULATED_PORT_PATH,
+              manufacturer: `Simulated Q-Series (firmware ${DEFAULT_SIMULATOR_OPTIONS.firmwareVersion})`,
+              serialNumber: DEFAULT_SIMULATOR_OPTIONS.serialNumber,
+              vendorId: null,
+              productId: null,
+              isLikelyQSensor: true,
+              isSimulated: true,
+            },
+          ],
         }
       } catch (error: any) {
         console.error('[QSensor Serial] List ports failed:', error?.message || error)
@@ -658,33 +1129,57 @@ export function setupQSensorSerialRecordingService(): void {
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:connect')
 
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:disconnect')
-    ipcMain.handle('qsensor-serial:disconnect', async (_event) => {
+    ipcMain.handle('qsensor-serial:disconnect', async (_event, port?: string) => {
       console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:disconnect')
-      return await disconnect()
+      return await disconnect(port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:disconnect')
 
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:get-health')
-    ipcMain.handle('qsensor-serial:get-health', async (_event) => {
+    ipcMain.handle('qsensor-serial:get-health', async (_event, port?: string) => {
       console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:get-health')
-      return await getHealth()
+      return await getHealth(port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:get-health')
 
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:start-acquisition')
-    ipcMain.handle('qsensor-serial:start-acquisition', async (_event, pollHz: number) => {
+    ipcMain.handle('qsensor-serial:start-acquisition', async (_event, pollHz: number, port?: string) => {
       console.log(`[QSensor Serial] IPC handler invoked: qsensor-serial:start-acquisition - pollHz: ${pollHz}`)
-      return await startAcquisition(pollHz)
+      return await startAcquisition(pollHz, port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:start-acquisition')
 
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:stop-acquisition')
-    ipcMain.handle('qsensor-serial:stop-acquisition', async (_event) => {
+    ipcMain.handle('qsensor-serial:stop-acquisition', async (_event, port?: string) => {
       console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:stop-acquisition')
-      return await stopAcquisition()
+      return await stopAcquisition(port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:stop-acquisition')
 
+    console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:capture-dark')
+    ipcMain.handle('qsensor-serial:capture-dark', async (_event, durationS: number, pollHz?: number, port?: string) => {
+      console.log(`[QSensor Serial] IPC handler invoked: qsensor-serial:capture-dark - durationS: ${durationS}`)
+      return await captureDark(durationS, pollHz, port)
+    })
+    console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:capture-dark')
+
+    console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:read-config')
+    ipcMain.handle('qsensor-serial:read-config', async (_event, port?: string) => {
+      console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:read-config')
+      return await readDeviceConfig(port)
+    })
+    console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:read-config')
+
+    console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:apply-config')
+    ipcMain.handle(
+      'qsensor-serial:apply-config',
+      async (_event, changes: Partial<QSeriesEditableConfig>, port?: string) => {
+        console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:apply-config', JSON.stringify(changes))
+        return await applyDeviceConfig(changes, port)
+      }
+    )
+    console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:apply-config')
+
     // Recording operations
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:start-recording')
     ipcMain.handle(
@@ -692,6 +1187,10 @@ export function setupQSensorSerialRecordingService(): void {
       async (
         _event,
         params: {
+          /**
+           *
+           */
+          port?: string
           /**
            *
            */
@@ -712,6 +1211,26 @@ export function setupQSensorSerialRecordingService(): void {
            *
            */
           unifiedSessionTimestamp?: string
+          /**
+           *
+           */
+          syncId?: string
+          /**
+           *
+           */
+          darkCapture?: QSensorDarkCapture | null
+          /**
+           *
+           */
+          sessionSensor?: SensorKey
+          /**
+           *
+           */
+          sensorRole?: QSensorRole
+          /**
+           *
+           */
+          sensorLabel?: string
         }
       ) => {
         console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:start-recording', JSON.stringify(params))
@@ -721,19 +1240,29 @@ export function setupQSensorSerialRecordingService(): void {
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:start-recording')
 
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:stop-recording')
-    ipcMain.handle('qsensor-serial:stop-recording', async (_event) => {
+    ipcMain.handle('qsensor-serial:stop-recording', async (_event, port?: string) => {
       console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:stop-recording')
-      return await stopRecording()
+      return await stopRecording(port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:stop-recording')
 
+    console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:sync-marker')
+    ipcMain.handle('qsensor-serial:sync-marker', async (_event, syncId: string, port?: string) => {
+      console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:sync-marker')
+      return injectSyncMarker(syncId, port)
+    })
+    console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:sync-marker')
+
     console.log('[QSensor Serial Recording] Registering handler: qsensor-serial:get-stats')
-    ipcMain.handle('qsensor-serial:get-stats', async (_event) => {
+    ipcMain.handle('qsensor-serial:get-stats', async (_event, port?: string) => {
       console.log('[QSensor Serial] IPC handler invoked: qsensor-serial:get-stats')
-      return await getRecordingStats()
+      return await getRecordingStats(port)
     })
     console.log('[QSensor Serial Recording] Registered handler: qsensor-serial:get-stats')
 
+    // NOTE: Not awaited so a large storage folder doesn't delay the rest of startup
+    void recoverInterruptedRecordings()
+
     console.log('[QSensor Serial Recording] All handlers registered successfully')
     console.log('[QSensor Serial Recording] Service registered')
   } catch (error: any) {
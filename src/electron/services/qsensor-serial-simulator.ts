@@ -0,0 +1,937 @@
+/**
+ * Q-Series Serial Device Simulator (TypeScript)
+ *
+ * A virtual Q-Series sensor running firmware 4.003, exposed as a Link so it can be attached in place of
+ * SerialLink. It lets the serial controller, recorder and dual-sensor UI run without hardware.
+ *
+ * BEHAVIOR:
+ * - Power-on banner (version, unit ID, operating mode) after the port opens
+ * - ESC enters the menu from any mode; menu commands A, R, M, O, Q, P, ^, X and ? are answered like the firmware
+ * - X reboots the device into freerun or polled operation
+ * - Freerun output at ADC rate / averaging; polled output answers *<TAG>Q000! and ><TAG>* queries
+ * - Configurable signal, noise, dropped frames and garbled frames
+ *
+ * USAGE:
+ * Select the port SIMULATED_PORT_PATH, or a variant with query parameters, e.g.
+ * simulated://q-series?serial=SIM-SURFACE&value=850&noise=2&dropout=0.01&garble=0.01
+ *
+ * QSeriesSimulatedBus puts several polled devices with different TAGs on one link, like a multi-drop
+ * RS-485 line, e.g. simulated://q-series-bus?tags=A,B,C&value=450
+ */
+
+import { Link } from './link/link'
+import {
+  ESC,
+  MENU_CMD_AVERAGING,
+  MENU_CMD_CONFIG_DUMP,
+  MENU_CMD_EXIT,
+  MENU_CMD_MODE,
+  MENU_CMD_OUTPUTS,
+  MENU_CMD_PREAMBLE,
+  MENU_CMD_QUIET,
+  MENU_CMD_RATE,
+  MENU_CMD_REDISPLAY,
+  OUTPUT_TERMINATOR,
+  POLLED_INIT_CMD,
+  POLLED_INIT_PADDING,
+  POLLED_INIT_PREFIX,
+  POLLED_INIT_TERM,
+  POLLED_QUERY_PREFIX,
+  PREAMBLE_MAX_LENGTH,
+  QSeriesMode,
+  VALID_ADC_RATES,
+  VALID_TAGS,
+} from './qsensor-protocol'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** URI protocol of simulated ports */
+export const SIMULATED_PORT_PROTOCOL = 'simulated:'
+
+/** Port path listed by qsensor-serial:list-ports for the simulated device */
+export const SIMULATED_PORT_PATH = 'simulated://q-series'
+
+/** Port path of a simulated multi-drop bus with heads A, B and C */
+export const SIMULATED_BUS_PORT_PATH = 'simulated://q-series-bus?tags=A,B,C'
+
+/** Averaging applied by the firmware when an invalid count is entered */
+const FIRMWARE_DEFAULT_AVERAGING = 12
+
+/** Fastest freerun output the simulator produces */
+const MIN_FREERUN_PERIOD_MS = 10
+
+/** Bytes inserted into garbled frames (never valid in a number) */
+const GARBLE_BYTES = '#?*@~'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Simulated device configuration and fault model
+ */
+export interface QSeriesSimulatorOptions {
+  /**
+   * Unit ID reported in the banner and config dump
+   */
+  serialNumber: string
+  /**
+   *
+   */
+  firmwareVersion: string
+  /**
+   *
+   */
+  description: string
+  /**
+   *
+   */
+  calFactor: number
+  /**
+   *
+   */
+  baudRate: number
+  /**
+   * Operating mode after power-on
+   */
+  mode: QSeriesMode
+  /**
+   * Polled mode TAG
+   */
+  tag: string
+  /**
+   *
+   */
+  averaging: number
+  /**
+   *
+   */
+  adcRateHz: number
+  /**
+   * Append sensor temperature to data frames
+   */
+  includeTemp: boolean
+  /**
+   * Append supply voltage to data frames
+   */
+  includeVin: boolean
+  /**
+   * Text before the value in data frames
+   */
+  preamble: string
+  /**
+   * Suppress the banner after power-on and reset
+   */
+  quietMode: boolean
+  /**
+   * Mean value of the simulated signal
+   */
+  baseValue: number
+  /**
+   * Standard deviation of the Gaussian noise added to every frame
+   */
+  noiseStdDev: number
+  /**
+   *
+   */
+  temperatureC: number
+  /**
+   *
+   */
+  supplyVoltage: number
+  /**
+   * Probability (0-1) that a data frame is not sent
+   */
+  dropoutProbability: number
+  /**
+   * Probability (0-1) that a data frame is sent with corrupted bytes
+   */
+  garbleProbability: number
+  /**
+   * Delay between opening the port and the power-on banner
+   */
+  bootDelayMs: number
+  /**
+   * Delay between X and the banner of the rebooted device
+   */
+  resetDelayMs: number
+  /**
+   * Delay before the device answers a command
+   */
+  responseDelayMs: number
+  /**
+   * Random source in [0, 1), replaceable for reproducible runs
+   */
+  random: () => number
+}
+
+/**
+ * Signal generator: value for a frame, before noise, given the time since power-on
+ */
+export type QSeriesSimulatedSignal = (elapsedMs: number) => number
+
+// NOTE: Input handling state; 'running' covers freerun and polled operation after boot
+type SimulatorInputState =
+  | 'off'
+  | 'booting'
+  | 'running'
+  | 'menu'
+  | 'averaging'
+  | 'rate'
+  | 'mode'
+  | 'tag'
+  | 'outputs-temp'
+  | 'outputs-vin'
+  | 'quiet'
+  | 'preamble'
+
+export const DEFAULT_SIMULATOR_OPTIONS: QSeriesSimulatorOptions = {
+  serialNumber: 'SIM-0001',
+  firmwareVersion: '4.003',
+  description: 'Simulated Q-Series',
+  calFactor: 1.0,
+  baudRate: 9600,
+  mode: 'freerun',
+  tag: 'A',
+  averaging: FIRMWARE_DEFAULT_AVERAGING,
+  adcRateHz: 125,
+  includeTemp: true,
+  includeVin: true,
+  preamble: '',
+  quietMode: false,
+  baseValue: 100,
+  noiseStdDev: 0.5,
+  temperatureC: 21.5,
+  supplyVoltage: 12.0,
+  dropoutProbability: 0,
+  garbleProbability: 0,
+  bootDelayMs: 500,
+  resetDelayMs: 1500,
+  responseDelayMs: 5,
+  random: Math.random,
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check if a port path refers to the simulated device.
+ * @param port - Port path selected by the user
+ * @returns True for simulated ports
+ */
+export function isSimulatedPort(port: string): boolean {
+  return port.startsWith(SIMULATED_PORT_PROTOCOL)
+}
+
+/**
+ * Read simulator options from the query parameters of a simulated port URI.
+ * Supported: serial, mode, tag, averaging, rate, value, noise, dropout, garble, baudrate.
+ * @param uri - Simulated port URI
+ * @returns Options present in the URI
+ */
+export function simulatorOptionsFromUri(uri: URL): Partial<QSeriesSimulatorOptions> {
+  const params = uri.searchParams
+  const options: Partial<QSeriesSimulatorOptions> = {}
+  const number = (name: string): number | undefined => {
+    const value = params.get(name)
+    return value === null || isNaN(Number(value)) ? undefined : Number(value)
+  }
+
+  if (params.get('serial')) options.serialNumber = params.get('serial')!
+  if (params.get('mode') === 'freerun' || params.get('mode') === 'polled') {
+    options.mode = params.get('mode') as QSeriesMode
+  }
+  if (params.get('tag')) options.tag = params.get('tag')!.toUpperCase()
+  if (number('averaging') !== undefined) options.averaging = number('averaging')
+  if (number('rate') !== undefined) options.adcRateHz = number('rate')
+  if (number('value') !== undefined) options.baseValue = number('value')
+  if (number('noise') !== undefined) options.noiseStdDev = number('noise')
+  if (number('dropout') !== undefined) options.dropoutProbability = number('dropout')
+  if (number('garble') !== undefined) options.garbleProbability = number('garble')
+  if (number('baudrate') !== undefined) options.baudRate = number('baudrate')
+  return options
+}
+
+// ============================================================================
+// Simulated Link
+// ============================================================================
+
+/**
+ * Virtual Q-Series device behind the Link interface.
+ *
+ * Bytes written to the link are interpreted as keystrokes sent to the device; device output is emitted as
+ * 'data' events in CRLF-terminated lines, like the serial port.
+ */
+export class QSeriesSimulatedLink extends Link {
+  readonly options: QSeriesSimulatorOptions
+  private opened = false
+  private inputState: SimulatorInputState = 'off'
+  private inputLine = ''
+  private poweredOnAt = 0
+  private signal: QSeriesSimulatedSignal
+  private timers = new Set<NodeJS.Timeout>()
+  private freerunTimer: NodeJS.Timeout | null = null
+  private polledInitialized = false
+
+  /**
+   * Simulated link constructor
+   * @param {URL} uri - Simulated port URI, see simulatorOptionsFromUri for query parameters
+   * @param {Partial<QSeriesSimulatorOptions>} options - Options overriding the defaults and the URI
+   */
+  constructor(uri: URL = new URL(SIMULATED_PORT_PATH), options: Partial<QSeriesSimulatorOptions> = {}) {
+    super(uri)
+    this.options = { ...DEFAULT_SIMULATOR_OPTIONS, ...simulatorOptionsFromUri(uri), ...options }
+    this.signal = () => this.options.baseValue
+  }
+
+  /**
+   * Whether the simulated port is open
+   * @returns {boolean}
+   */
+  get isOpen(): boolean {
+    return this.opened
+  }
+
+  /**
+   * Open the simulated port and power on the device
+   * @returns {Promise<void>}
+   */
+  async open(): Promise<void> {
+    this.opened = true
+    this.powerOn(this.options.bootDelayMs)
+  }
+
+  /**
+   * Close the simulated port and power off the device
+   * @returns {Promise<void>}
+   */
+  async close(): Promise<void> {
+    this.powerOff()
+    this.opened = false
+  }
+
+  /**
+   * Send bytes to the device
+   * @param {Uint8Array} data - Keystrokes for the device
+   * @returns {Promise<void>}
+   */
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new Error('Simulated port is not open')
+    }
+    for (const char of Buffer.from(data).toString('ascii')) {
+      this.handleInput(char)
+    }
+  }
+
+  // ========================================================================
+  // Scripting
+  // ========================================================================
+
+  /**
+   * Replace the signal generator (noise is still added on top)
+   * @param {QSeriesSimulatedSignal} signal - Value before noise, given the time since power-on
+   */
+  setSignal(signal: QSeriesSimulatedSignal): void {
+    this.signal = signal
+  }
+
+  /**
+   * Change the fault model while running
+   * @param {Partial<Pick<QSeriesSimulatorOptions, 'dropoutProbability' | 'garbleProbability' | 'noiseStdDev'>>} faults
+   */
+  setFaults(
+    faults: Partial<Pick<QSeriesSimulatorOptions, 'dropoutProbability' | 'garbleProbability' | 'noiseStdDev'>>
+  ): void {
+    Object.assign(this.options, faults)
+  }
+
+  /**
+   * Emit arbitrary text from the device, e.g. a partial frame or line noise
+   * @param {string} text - Raw text (no terminator is added)
+   */
+  injectRaw(text: string): void {
+    this.emit('data', Buffer.from(text, 'ascii'))
+  }
+
+  /**
+   * Simulate the cable being unplugged: the device stops and the port reports close
+   */
+  simulateUnplug(): void {
+    this.powerOff()
+    this.opened = false
+    this.emit('close')
+  }
+
+  /**
+   * Operating mode the device is currently configured for
+   * @returns {QSeriesMode}
+   */
+  getMode(): QSeriesMode {
+    return this.options.mode
+  }
+
+  // ========================================================================
+  // Device Lifecycle
+  // ========================================================================
+
+  /**
+   *
+   * @param delayMs
+   */
+  private powerOn(delayMs: number): void {
+    this.inputState = 'booting'
+    this.inputLine = ''
+    this.polledInitialized = false
+    this.schedule(() => {
+      this.poweredOnAt = Date.now()
+      if (!this.options.quietMode) {
+        this.sendLines(this.bannerLines())
+      }
+      this.inputState = 'running'
+      if (this.options.mode === 'freerun') {
+        this.sendLines(['Start free run'])
+        this.startFreerun()
+      }
+    }, delayMs)
+  }
+
+  /**
+   *
+   */
+  private powerOff(): void {
+    this.stopFreerun()
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers.clear()
+    this.inputState = 'off'
+  }
+
+  /**
+   *
+   */
+  private reboot(): void {
+    this.stopFreerun()
+    this.sendLines(['Rebooting program'])
+    this.powerOn(this.options.resetDelayMs)
+  }
+
+  /**
+   *
+   */
+  private bannerLines(): string[] {
+    const { firmwareVersion, serialNumber, mode, tag } = this.options
+    return [
+      `Biospherical Instruments Inc. Digital Engine Vers ${firmwareVersion}`,
+      `Unit ID ${serialNumber}`,
+      mode === 'freerun' ? 'Operating in free run mode' : `Operating in polled mode with tag of ${tag}`,
+    ]
+  }
+
+  /**
+   *
+   */
+  private menuLines(): string[] {
+    const { averaging, adcRateHz, calFactor, includeTemp, includeVin, quietMode, preamble } = this.options
+    return [
+      `Calfactor: ${calFactor}`,
+      `A to set Averaging, currently ${averaging}`,
+      `R to set ADC sample rate, currently ${adcRateHz} Hz`,
+      `M to set operating mode, currently ${this.options.mode}`,
+      `O to set outputs, temperature ${includeTemp ? 'on' : 'off'}, voltage ${includeVin ? 'on' : 'off'}`,
+      `Q to set quiet mode, currently ${quietMode ? 'on' : 'off'}`,
+      `P to set preamble, currently "${preamble}"`,
+      '^ to send all parameters',
+      'X to exit menu and reboot',
+      '? to redisplay menu',
+      'Select the letter of the menu entry:',
+    ]
+  }
+
+  // ========================================================================
+  // Input Handling
+  // ========================================================================
+
+  /**
+   *
+   * @param char
+   */
+  private handleInput(char: string): void {
+    // NOTE: ESC enters the menu from any powered state, like the firmware
+    if (char === ESC) {
+      if (this.inputState !== 'off' && this.inputState !== 'booting') {
+        this.enterMenu()
+      }
+      return
+    }
+
+    switch (this.inputState) {
+      case 'running':
+        this.handleRunningInput(char)
+        return
+      case 'menu':
+        this.handleMenuInput(char)
+        return
+      case 'averaging':
+      case 'rate':
+        this.handleValueInput(char)
+        return
+      case 'mode':
+        this.handleModeInput(char)
+        return
+      case 'tag':
+        this.handleTagInput(char)
+        return
+      case 'outputs-temp':
+      case 'outputs-vin':
+        this.handleOutputsInput(char)
+        return
+      case 'quiet':
+        this.handleQuietInput(char)
+        return
+      case 'preamble':
+        this.handlePreambleInput(char)
+        return
+      default:
+        // NOTE: Input while off or booting is lost
+        return
+    }
+  }
+
+  /**
+   *
+   */
+  private enterMenu(): void {
+    this.stopFreerun()
+    this.inputLine = ''
+    this.inputState = 'menu'
+    this.sendLines(this.menuLines())
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleMenuInput(char: string): void {
+    // NOTE: M acts on the keystroke; every other entry is terminated by CR
+    if (char.toUpperCase() === MENU_CMD_MODE && this.inputLine === '') {
+      this.inputState = 'mode'
+      this.sendLines(['Select mode: 0 = free run, 1 = polled'])
+      return
+    }
+    if (char !== '\r') {
+      if (char !== '\n') this.inputLine += char
+      return
+    }
+
+    const command = this.inputLine.trim().toUpperCase()
+    this.inputLine = ''
+    switch (command) {
+      case MENU_CMD_AVERAGING:
+        this.inputState = 'averaging'
+        this.sendLines([`Enter # readings to average (1-65535):`])
+        return
+      case MENU_CMD_RATE:
+        this.inputState = 'rate'
+        this.sendLines(['Sample rate selection', `Enter ADC rate (${Array.from(VALID_ADC_RATES).join(', ')}):`])
+        return
+      case MENU_CMD_OUTPUTS:
+        this.inputState = 'outputs-temp'
+        this.sendLines(['Output sensor temperature (Y/N)?'])
+        return
+      case MENU_CMD_QUIET:
+        this.inputState = 'quiet'
+        this.sendLines(['Quiet mode (Y/N)?'])
+        return
+      case MENU_CMD_PREAMBLE:
+        this.inputState = 'preamble'
+        this.sendLines([`Enter preamble (up to ${PREAMBLE_MAX_LENGTH} characters):`])
+        return
+      case MENU_CMD_CONFIG_DUMP:
+        this.sendLines([this.configCsv(), 'Select the letter of the menu entry:'])
+        return
+      case MENU_CMD_EXIT:
+        this.inputState = 'booting'
+        this.reboot()
+        return
+      case MENU_CMD_REDISPLAY:
+      case '':
+        this.sendLines(this.menuLines())
+        return
+      default:
+        this.sendLines([`Unknown command ${command}`, 'Select the letter of the menu entry:'])
+    }
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleValueInput(char: string): void {
+    if (char !== '\r') {
+      if (char !== '\n') this.inputLine += char
+      return
+    }
+
+    const value = parseInt(this.inputLine.trim(), 10)
+    this.inputLine = ''
+    const lines: string[] = []
+    if (this.inputState === 'averaging') {
+      if (Number.isInteger(value) && value >= 1 && value <= 65535) {
+        this.options.averaging = value
+      } else {
+        this.options.averaging = FIRMWARE_DEFAULT_AVERAGING
+        lines.push(`Invalid number, averaging set to ${FIRMWARE_DEFAULT_AVERAGING}`)
+      }
+      lines.push(`ADC set to averaging ${this.options.averaging}`)
+    } else if (VALID_ADC_RATES.has(value)) {
+      this.options.adcRateHz = value
+      lines.push(`ADC rate set to ${value}`)
+    } else {
+      lines.push('Invalid rate. Command is ignored')
+    }
+
+    this.inputState = 'menu'
+    this.sendLines([...lines, ...this.menuLines()])
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleModeInput(char: string): void {
+    if (char === '0') {
+      this.options.mode = 'freerun'
+      this.inputState = 'menu'
+      this.sendLines(['Operating in free run mode', ...this.menuLines()])
+    } else if (char === '1') {
+      this.inputState = 'tag'
+      this.sendLines(['Enter TAG character (A-Z):'])
+    }
+    // NOTE: Other keystrokes (e.g. a trailing CR) are ignored while waiting for the mode
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleTagInput(char: string): void {
+    if (char === '\r' || char === '\n') return
+
+    this.inputState = 'menu'
+    if (char.length === 1 && VALID_TAGS.includes(char)) {
+      this.options.mode = 'polled'
+      this.options.tag = char
+      this.sendLines([`Operating in polled mode with tag of ${char}`, ...this.menuLines()])
+    } else {
+      this.sendLines([`Bad TAG ${char}`, ...this.menuLines()])
+    }
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleOutputsInput(char: string): void {
+    const answer = char.toUpperCase()
+    if (answer !== 'Y' && answer !== 'N') return
+
+    if (this.inputState === 'outputs-temp') {
+      this.options.includeTemp = answer === 'Y'
+      this.inputState = 'outputs-vin'
+      this.sendLines(['Output input supply voltage (Y/N)?'])
+      return
+    }
+    this.options.includeVin = answer === 'Y'
+    this.inputState = 'menu'
+    this.sendLines(this.menuLines())
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleQuietInput(char: string): void {
+    const answer = char.toUpperCase()
+    if (answer !== 'Y' && answer !== 'N') return
+
+    this.options.quietMode = answer === 'Y'
+    this.inputState = 'menu'
+    this.sendLines([`Quiet mode ${this.options.quietMode ? 'on' : 'off'}`, ...this.menuLines()])
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handlePreambleInput(char: string): void {
+    if (char !== '\r') {
+      if (char !== '\n') this.inputLine += char
+      return
+    }
+
+    // NOTE: The firmware truncates long preambles instead of rejecting them
+    this.options.preamble = this.inputLine.slice(0, PREAMBLE_MAX_LENGTH)
+    this.inputLine = ''
+    this.inputState = 'menu'
+    this.sendLines([`Preamble set to "${this.options.preamble}"`, ...this.menuLines()])
+  }
+
+  /**
+   *
+   * @param char
+   */
+  private handleRunningInput(char: string): void {
+    if (this.options.mode !== 'polled') return
+
+    this.inputLine += char
+    const { tag } = this.options
+    const initCmd = `${POLLED_INIT_PREFIX}${tag}${POLLED_INIT_CMD}${POLLED_INIT_PADDING}${POLLED_INIT_TERM}`
+    const queryCmd = `${POLLED_QUERY_PREFIX}${tag}*`
+
+    if (this.inputLine.endsWith(initCmd)) {
+      this.polledInitialized = true
+      this.inputLine = ''
+    } else if (this.inputLine.endsWith(queryCmd)) {
+      this.inputLine = ''
+      // NOTE: The firmware does not answer queries before the init command
+      if (this.polledInitialized) {
+        this.sendFrame(`${tag},`)
+      }
+    } else if (char === '\r' || this.inputLine.length > 32) {
+      this.inputLine = ''
+    }
+  }
+
+  // ========================================================================
+  // Output
+  // ========================================================================
+
+  /**
+   *
+   */
+  private startFreerun(): void {
+    this.stopFreerun()
+    const periodMs = Math.max(MIN_FREERUN_PERIOD_MS, (1000 * this.options.averaging) / this.options.adcRateHz)
+    this.freerunTimer = setInterval(() => this.sendFrame(''), periodMs)
+  }
+
+  /**
+   *
+   */
+  private stopFreerun(): void {
+    if (this.freerunTimer) {
+      clearInterval(this.freerunTimer)
+      this.freerunTimer = null
+    }
+  }
+
+  /**
+   * Send one data frame, applying the dropout and garble fault model
+   * @param prefix - Text before the preamble ('<TAG>,' in polled mode)
+   */
+  private sendFrame(prefix: string): void {
+    const { random, dropoutProbability, garbleProbability } = this.options
+    if (random() < dropoutProbability) {
+      return
+    }
+
+    let frame = prefix + this.formatFrame()
+    if (random() < garbleProbability) {
+      // NOTE: Inserted after the first value character so the frame can never parse as a different value
+      const valueStart = prefix.length + this.options.preamble.length
+      const position = valueStart + 1 + Math.floor(random() * (frame.length - valueStart - 1))
+      const byte = GARBLE_BYTES[Math.floor(random() * GARBLE_BYTES.length)]
+      frame = frame.slice(0, position) + byte + frame.slice(position)
+    }
+    this.emitText(frame + OUTPUT_TERMINATOR)
+  }
+
+  /**
+   *
+   */
+  private formatFrame(): string {
+    const { preamble, noiseStdDev, includeTemp, includeVin, temperatureC, supplyVoltage } = this.options
+    const value = this.signal(Date.now() - this.poweredOnAt) + noiseStdDev * this.gaussian()
+    let frame = `${preamble}${value.toFixed(6)}`
+    if (includeTemp) frame += `, ${(temperatureC + 0.05 * this.gaussian()).toFixed(2)}`
+    if (includeVin) frame += `, ${supplyVoltage.toFixed(3)}`
+    return frame
+  }
+
+  /**
+   * Configuration CSV sent for '^' (the fields after the serial number are temp/vin outputs, ADC rate, mode, TAG)
+   */
+  private configCsv(): string {
+    const o = this.options
+    const modeChar = o.mode === 'freerun' ? '0' : '1'
+    const tag = o.mode === 'polled' ? o.tag : ''
+    return [
+      o.averaging,
+      o.baudRate,
+      o.calFactor,
+      o.description.replace(/,/g, ' '),
+      'E',
+      o.firmwareVersion,
+      'G',
+      'H',
+      o.serialNumber,
+      o.includeTemp ? 1 : 0,
+      o.includeVin ? 1 : 0,
+      o.adcRateHz,
+      modeChar,
+      tag,
+      '',
+    ].join(',')
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = Math.max(this.options.random(), Number.EPSILON)
+    const v = this.options.random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  /**
+   *
+   * @param lines
+   */
+  private sendLines(lines: string[]): void {
+    const text = lines.map((line) => line + OUTPUT_TERMINATOR).join('')
+    this.schedule(() => this.emitText(text), this.options.responseDelayMs)
+  }
+
+  /**
+   *
+   * @param text
+   */
+  private emitText(text: string): void {
+    if (this.opened) {
+      this.emit('data', Buffer.from(text, 'ascii'))
+    }
+  }
+
+  /**
+   *
+   * @param callback
+   * @param delayMs
+   */
+  private schedule(callback: () => void, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer)
+      callback()
+    }, delayMs)
+    this.timers.add(timer)
+  }
+}
+
+// ============================================================================
+// Simulated Multi-Drop Bus
+// ============================================================================
+
+/**
+ * Several polled Q-Series devices sharing one simulated RS-485 line.
+ *
+ * Every byte written reaches all devices; each one only answers queries for its own TAG, and their output
+ * is merged into a single 'data' stream. Devices run in polled, quiet mode, as they must be configured
+ * before being wired onto a bus.
+ */
+export class QSeriesSimulatedBus extends Link {
+  private devices = new Map<string, QSeriesSimulatedLink>()
+  private opened = false
+
+  /**
+   * Simulated bus constructor
+   * @param {URL} uri - Bus URI; 'tags' lists the TAGs (default A,B,C), other parameters apply to every device
+   * @param {Partial<QSeriesSimulatorOptions>} options - Options for every device, overriding the URI
+   */
+  constructor(uri: URL = new URL(SIMULATED_BUS_PORT_PATH), options: Partial<QSeriesSimulatorOptions> = {}) {
+    super(uri)
+    const tags = (uri.searchParams.get('tags') ?? 'A,B,C')
+      .split(',')
+      .map((tag) => tag.trim().toUpperCase())
+      .filter((tag) => tag.length === 1 && VALID_TAGS.includes(tag))
+
+    for (const tag of new Set(tags)) {
+      const device = new QSeriesSimulatedLink(uri, {
+        serialNumber: `SIM-BUS-${tag}`,
+        quietMode: true,
+        ...options,
+        mode: 'polled',
+        tag,
+      })
+      device.on('data', (data: Buffer) => this.emit('data', data))
+      this.devices.set(tag, device)
+    }
+  }
+
+  /**
+   * Whether the simulated bus is open
+   * @returns {boolean}
+   */
+  get isOpen(): boolean {
+    return this.opened
+  }
+
+  /**
+   * Open the bus and power on every device
+   * @returns {Promise<void>}
+   */
+  async open(): Promise<void> {
+    this.opened = true
+    await Promise.all([...this.devices.values()].map((device) => device.open()))
+  }
+
+  /**
+   * Close the bus and power off every device
+   * @returns {Promise<void>}
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.devices.values()].map((device) => device.close()))
+    this.opened = false
+  }
+
+  /**
+   * Send bytes to every device on the bus
+   * @param {Uint8Array} data - Keystrokes for the devices
+   * @returns {Promise<void>}
+   */
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new Error('Simulated bus is not open')
+    }
+    for (const device of this.devices.values()) {
+      await device.write(data)
+    }
+  }
+
+  /**
+   * TAGs of the devices on the bus
+   * @returns {string[]}
+   */
+  getTags(): string[] {
+    return [...this.devices.keys()]
+  }
+
+  /**
+   * Device with a TAG, for scripting its signal and faults
+   * @param {string} tag - Device TAG
+   * @returns {QSeriesSimulatedLink | undefined}
+   */
+  device(tag: string): QSeriesSimulatedLink | undefined {
+    return this.devices.get(tag)
+  }
+
+  /**
+   * Simulate the bus cable being unplugged: every device stops and the port reports close
+   */
+  simulateUnplug(): void {
+    this.devices.forEach((device) => device.close())
+    this.opened = false
+    this.emit('close')
+  }
+}
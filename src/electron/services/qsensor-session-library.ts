@@ -0,0 +1,505 @@
+/**
+ * Q-Sensor session library for Electron main process.
+ *
+ * Indexes the unified session roots under the storage path ({storage}/{mission}/session_{timestamp}/,
+ * see buildUnifiedSessionRoot) so past sessions can be browsed without opening the folder:
+ * - List sessions with their sensors, row counts, fusion status and drift models
+ * - Preview the first rows of a session CSV
+ * - Delete a session or export it as a zip archive
+ *
+ * Fusion re-runs go through the existing qsensor:trigger-manual-fusion handler.
+ */
+
+import { ZipWriter } from '@zip.js/zip.js'
+import { dialog, ipcMain, shell } from 'electron'
+import { createReadStream, createWriteStream, WriteStream } from 'fs'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as readline from 'readline'
+
+import type { QSensorRole } from '@/types/qsensor'
+
+import type { DriftModel, FusionStatus, SensorKey } from './qsensor-session-utils'
+import { readSyncMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One sensor of a library session
+ */
+export interface SessionLibrarySensor {
+  /**
+   * Sensor id (key in sync_metadata.json)
+   */
+  id: SensorKey
+  /**
+   *
+   */
+  role?: QSensorRole
+  /**
+   *
+   */
+  label?: string
+  /**
+   *
+   */
+  startedAt?: string
+  /**
+   *
+   */
+  stoppedAt?: string
+  /**
+   * Bytes recorded locally or mirrored from the Pi
+   */
+  bytes: number | null
+  /**
+   * session.csv path relative to the session root, once the sensor has finalized
+   */
+  sessionCsv: string | null
+  /**
+   * Rows this sensor contributed to the fused output
+   */
+  fusedRows: number | null
+}
+
+/**
+ * Summary of a unified session root
+ */
+export interface SessionLibraryEntry {
+  /**
+   *
+   */
+  sessionRoot: string
+  /**
+   *
+   */
+  mission: string
+  /**
+   *
+   */
+  unifiedSessionTimestamp: string
+  /**
+   *
+   */
+  createdAt: string
+  /**
+   *
+   */
+  sensors: SessionLibrarySensor[]
+  /**
+   *
+   */
+  fusion: FusionStatus | null
+  /**
+   * Drift correction to the reference, per sensor
+   */
+  driftModels: Record<SensorKey, DriftModel | null>
+  /**
+   * Fused CSV path relative to the session root, when it exists
+   */
+  unifiedCsv: string | null
+  /**
+   *
+   */
+  hasProfile: boolean
+  /**
+   * Total size of the session directory
+   */
+  sizeBytes: number
+}
+
+/**
+ * First rows of a session CSV
+ */
+export interface SessionFilePreview {
+  /**
+   * Path relative to the session root
+   */
+  file: string
+  /**
+   *
+   */
+  header: string[]
+  /**
+   *
+   */
+  rows: string[][]
+  /**
+   * True when the file has more rows than were read
+   */
+  truncated: boolean
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SYNC_METADATA_FILENAME = 'sync_metadata.json'
+const SESSION_DIRECTORY_PREFIX = 'session_'
+const DEFAULT_PREVIEW_ROWS = 50
+const MAX_PREVIEW_ROWS = 1000
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check if a path exists.
+ * @param filePath - Path to check
+ * @returns True when it exists
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * All files below a directory, as paths relative to it.
+ * @param dir - Directory to walk
+ * @returns Relative file paths
+ */
+async function listFilesRecursive(dir: string): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const nested = await listFilesRecursive(path.join(dir, entry.name))
+      files.push(...nested.map((file) => path.join(entry.name, file)))
+    } else if (entry.isFile()) {
+      files.push(entry.name)
+    }
+  }
+  return files
+}
+
+/**
+ * Total size of the files below a directory.
+ * @param dir - Directory to measure
+ * @returns Size in bytes
+ */
+async function directorySize(dir: string): Promise<number> {
+  let total = 0
+  for (const file of await listFilesRecursive(dir)) {
+    total += (await fs.stat(path.join(dir, file))).size
+  }
+  return total
+}
+
+/**
+ * Resolve a session root and make sure it is a unified session inside the storage path.
+ * Guards delete/export against paths crafted in the renderer.
+ * @param storagePath - Q-Sensor storage path
+ * @param sessionRoot - Session root to check
+ * @returns Resolved session root
+ */
+export async function resolveLibrarySessionRoot(storagePath: string, sessionRoot: string): Promise<string> {
+  const resolvedStorage = path.resolve(storagePath)
+  const resolvedRoot = path.resolve(sessionRoot)
+  const relative = path.relative(resolvedStorage, resolvedRoot)
+
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Session is outside the storage path: ${sessionRoot}`)
+  }
+  if (!(await pathExists(path.join(resolvedRoot, SYNC_METADATA_FILENAME)))) {
+    throw new Error(`Not a Q-Sensor session (no ${SYNC_METADATA_FILENAME}): ${sessionRoot}`)
+  }
+  return resolvedRoot
+}
+
+// ============================================================================
+// Library Operations
+// ============================================================================
+
+/**
+ * Summarize one unified session root from its sync_metadata.json.
+ * @param sessionRoot - Unified session root directory
+ * @returns Library entry, or null when the directory has no sync metadata
+ */
+export async function summarizeSession(sessionRoot: string): Promise<SessionLibraryEntry | null> {
+  const syncMetadata = await readSyncMetadata(sessionRoot)
+  if (!syncMetadata) {
+    return null
+  }
+
+  const fusion = syncMetadata.fusion ?? null
+  const sensors: SessionLibrarySensor[] = Object.entries(syncMetadata.sensors)
+    .filter(([, info]) => info !== null)
+    .map(([id, info]) => ({
+      id,
+      role: info?.role,
+      label: info?.label,
+      startedAt: info?.startedAt,
+      stoppedAt: info?.stoppedAt,
+      bytes: info?.bytesRecorded ?? info?.bytesMirrored ?? null,
+      sessionCsv: info?.sessionCsv ?? null,
+      fusedRows: fusion?.sensorRows?.[id] ?? null,
+    }))
+
+  const unifiedCsv = fusion?.unifiedCsv ?? null
+  const unifiedCsvExists = unifiedCsv !== null && (await pathExists(path.join(sessionRoot, unifiedCsv)))
+
+  return {
+    sessionRoot,
+    mission: syncMetadata.mission,
+    unifiedSessionTimestamp: syncMetadata.unifiedSessionTimestamp,
+    createdAt: syncMetadata.createdAt,
+    sensors,
+    fusion,
+    driftModels: syncMetadata.timeSync.driftModels,
+    unifiedCsv: unifiedCsvExists ? unifiedCsv : null,
+    hasProfile: !!syncMetadata.profile,
+    sizeBytes: await directorySize(sessionRoot),
+  }
+}
+
+/**
+ * List every unified session under the storage path, newest first.
+ * @param storagePath - Q-Sensor storage path
+ * @returns Library entries
+ */
+export async function listLibrarySessions(storagePath: string): Promise<SessionLibraryEntry[]> {
+  let missions
+  try {
+    missions = await fs.readdir(storagePath, { withFileTypes: true })
+  } catch {
+    return [] // NOTE: Nothing recorded yet
+  }
+
+  const entries: SessionLibraryEntry[] = []
+  for (const mission of missions.filter((entry) => entry.isDirectory())) {
+    const missionPath = path.join(storagePath, mission.name)
+    const sessionDirs = (await fs.readdir(missionPath, { withFileTypes: true })).filter(
+      (entry) => entry.isDirectory() && entry.name.startsWith(SESSION_DIRECTORY_PREFIX)
+    )
+
+    for (const sessionDir of sessionDirs) {
+      try {
+        const entry = await summarizeSession(path.join(missionPath, sessionDir.name))
+        if (entry) entries.push(entry)
+      } catch (error) {
+        console.warn(`[QSensor Library] Skipping unreadable session ${sessionDir.name}:`, error)
+      }
+    }
+  }
+
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Read the header and first rows of a CSV in a session.
+ * @param sessionRoot - Unified session root directory
+ * @param file - CSV path relative to the session root
+ * @param maxRows - Data rows to return
+ * @returns File preview
+ */
+export async function previewSessionFile(
+  sessionRoot: string,
+  file: string,
+  maxRows = DEFAULT_PREVIEW_ROWS
+): Promise<SessionFilePreview> {
+  const filePath = path.resolve(sessionRoot, file)
+  const relative = path.relative(path.resolve(sessionRoot), filePath)
+  if (relative.startsWith('..') || path.isAbsolute(relative) || path.extname(filePath) !== '.csv') {
+    throw new Error(`Cannot preview ${file}: only CSV files inside the session can be previewed`)
+  }
+
+  const rowLimit = Math.min(Math.max(1, Math.floor(maxRows)), MAX_PREVIEW_ROWS)
+  const preview: SessionFilePreview = { file: relative, header: [], rows: [], truncated: false }
+
+  // NOTE: Streamed line by line so previewing a long session does not load the whole file
+  const stream = createReadStream(filePath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  try {
+    for await (const line of lines) {
+      if (line.trim() === '') continue
+      if (preview.header.length === 0) {
+        preview.header = line.split(',')
+        continue
+      }
+      if (preview.rows.length === rowLimit) {
+        preview.truncated = true
+        break
+      }
+      preview.rows.push(line.split(','))
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+
+  return preview
+}
+
+/**
+ * Delete a session directory.
+ * @param storagePath - Q-Sensor storage path
+ * @param sessionRoot - Unified session root directory
+ */
+export async function deleteLibrarySession(storagePath: string, sessionRoot: string): Promise<void> {
+  const resolvedRoot = await resolveLibrarySessionRoot(storagePath, sessionRoot)
+  await fs.rm(resolvedRoot, { recursive: true, force: true })
+  console.log(`[QSensor Library] Deleted session ${resolvedRoot}`)
+}
+
+/**
+ * Web stream of the content of a file, read a chunk at a time, as zip.js takes entries from
+ * @param filePath - File to read
+ * @returns Stream of the file chunks
+ */
+function fileReadableStream(filePath: string): ReadableStream<Uint8Array> {
+  const stream = createReadStream(filePath)
+  const chunks: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]()
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) controller.close()
+      else controller.enqueue(new Uint8Array(value))
+    },
+    cancel() {
+      stream.destroy()
+    },
+  })
+}
+
+/**
+ * Web stream writing to a file, as zip.js writes archives to. Closing it ends the file.
+ * @param output - File stream
+ * @returns Stream writing to the file
+ */
+function fileWritableStream(output: WriteStream): WritableStream<Uint8Array> {
+  // NOTE: Write errors reach the write callbacks, the listener only keeps them from crashing the main process
+  output.on('error', () => undefined)
+  return new WritableStream({
+    write(chunk) {
+      return new Promise<void>((resolve, reject) => {
+        output.write(chunk, (error) => (error ? reject(error) : resolve()))
+      })
+    },
+    close() {
+      return new Promise<void>((resolve) => output.end(resolve))
+    },
+  })
+}
+
+/**
+ * Write a zip archive of a session directory. Entries are prefixed with the session directory name.
+ *
+ * Files are streamed one after the other into the archive file, so neither a whole file nor the archive is held in
+ * memory.
+ * @param storagePath - Q-Sensor storage path
+ * @param sessionRoot - Unified session root directory
+ * @param destinationPath - Zip file to write
+ * @returns Number of files archived
+ */
+export async function exportLibrarySessionZip(
+  storagePath: string,
+  sessionRoot: string,
+  destinationPath: string
+): Promise<number> {
+  const resolvedRoot = await resolveLibrarySessionRoot(storagePath, sessionRoot)
+  const rootName = path.basename(resolvedRoot)
+  const files = await listFilesRecursive(resolvedRoot)
+
+  const tmpPath = destinationPath + '.tmp'
+  const output = createWriteStream(tmpPath)
+  try {
+    const zipWriter = new ZipWriter(fileWritableStream(output))
+    for (const file of files) {
+      // NOTE: Zip entry names always use forward slashes, and there are no web workers in the main process
+      const entryName = [rootName, ...file.split(path.sep)].join('/')
+      await zipWriter.add(entryName, fileReadableStream(path.join(resolvedRoot, file)), { useWebWorkers: false })
+    }
+    // Closing the archive also closes the file
+    await zipWriter.close()
+  } catch (error) {
+    output.destroy()
+    await fs.rm(tmpPath, { force: true })
+    throw error
+  }
+  await fs.rename(tmpPath, destinationPath)
+  console.log(`[QSensor Library] Exported ${files.length} files from ${resolvedRoot} to ${destinationPath}`)
+
+  return files.length
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for the Q-Sensor session library.
+ * @param getStoragePath - Current Q-Sensor storage path (user-configurable, so read on every call)
+ */
+export function setupQSensorSessionLibraryService(getStoragePath: () => string): void {
+  ipcMain.handle('qsensor:list-sessions', async () => {
+    try {
+      return { success: true, data: await listLibrarySessions(getStoragePath()) }
+    } catch (error: any) {
+      console.error('[QSensor Library] Failed to list sessions:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle(
+    'qsensor:preview-session-file',
+    async (_event, sessionRoot: string, file: string, maxRows?: number) => {
+      try {
+        const resolvedRoot = await resolveLibrarySessionRoot(getStoragePath(), sessionRoot)
+        return { success: true, data: await previewSessionFile(resolvedRoot, file, maxRows) }
+      } catch (error: any) {
+        console.error('[QSensor Library] Failed to preview session file:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  ipcMain.handle('qsensor:delete-session', async (_event, sessionRoot: string) => {
+    try {
+      await deleteLibrarySession(getStoragePath(), sessionRoot)
+      return { success: true }
+    } catch (error: any) {
+      console.error('[QSensor Library] Failed to delete session:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:export-session-zip', async (_event, sessionRoot: string) => {
+    try {
+      const storagePath = getStoragePath()
+      const resolvedRoot = await resolveLibrarySessionRoot(storagePath, sessionRoot)
+      const mission = path.basename(path.dirname(resolvedRoot))
+      const result = await dialog.showSaveDialog({
+        title: 'Export Q-Sensor Session',
+        defaultPath: `${mission}_${path.basename(resolvedRoot)}.zip`,
+        filters: [{ name: 'Zip archive', extensions: ['zip'] }],
+      })
+      if (result.canceled || !result.filePath) {
+        return { success: true, data: null }
+      }
+
+      const fileCount = await exportLibrarySessionZip(storagePath, resolvedRoot, result.filePath)
+      return { success: true, data: { path: result.filePath, fileCount } }
+    } catch (error: any) {
+      console.error('[QSensor Library] Failed to export session:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('qsensor:open-session-folder', async (_event, sessionRoot: string) => {
+    try {
+      const resolvedRoot = await resolveLibrarySessionRoot(getStoragePath(), sessionRoot)
+      const error = await shell.openPath(resolvedRoot)
+      return error ? { success: false, error } : { success: true }
+    } catch (error: any) {
+      console.error('[QSensor Library] Failed to open session folder:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  console.log('[QSensor Library] Service registered')
+}
@@ -2,19 +2,37 @@ import { ipcMain } from 'electron'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 
-export type SensorKey = 'inWater' | 'surface'
+import type {
+  QSensorCalibrationCheck,
+  QSensorDarkCapture,
+  QSensorFusionOptions,
+  QSensorPreflightResult,
+  QSensorRole,
+} from '@/types/qsensor'
+import { defaultQSensorIds, defaultQSensorRole } from '@/types/qsensor'
 
-const SENSOR_DIRECTORY_PREFIX: Record<SensorKey, string> = {
-  inWater: 'in-water',
-  surface: 'surface',
-}
+import type { QcAnalysisOptions } from './qsensor-qc'
+
+// NOTE: Any sensor id; 'inWater' and 'surface' are the default pair
+export type SensorKey = string
 
 const SYNC_METADATA_FILENAME = 'sync_metadata.json'
 
+// v1: fixed inWater/surface slots. v2: sensors keyed by id, with roles, per-sensor time sync and drift.
+export const SYNC_METADATA_SCHEMA_VERSION = 2
+
 /**
  *
  */
 export interface SyncMetadataSensorInfo {
+  /**
+   * Role of the sensor in the deployment (the 'surface' sensor is the fusion reference)
+   */
+  role?: QSensorRole
+  /**
+   * Short display name of the sensor
+   */
+  label?: string
   /**
    *
    */
@@ -43,6 +61,24 @@ export interface SyncMetadataSensorInfo {
    *
    */
   bytesRecorded?: number
+  /**
+   * Calibration used for the recording (snapshot taken at record start)
+   */
+  calibration?: SensorCalibrationInfo
+  /**
+   * Dark capture applied to the recording (subtracted by fusion)
+   */
+  dark?: QSensorDarkCapture
+}
+
+/**
+ * Calibration check stored with a sensor recording.
+ */
+export interface SensorCalibrationInfo extends QSensorCalibrationCheck {
+  /**
+   * ISO timestamp when the calibration was checked
+   */
+  checkedAt: string
 }
 
 /**
@@ -69,6 +105,10 @@ export interface FusionStatus {
    *
    */
   surfaceRows: number | null
+  /**
+   * Rows with a value from each sensor, keyed by sensor id
+   */
+  sensorRows?: Record<SensorKey, number> | null
   /**
    *
    */
@@ -77,6 +117,10 @@ export interface FusionStatus {
    *
    */
   error: string | null
+  /**
+   * Options of the last manual run, reused when the session is fused again; defaults when absent
+   */
+  options?: QSensorFusionOptions
 }
 
 /**
@@ -90,15 +134,19 @@ export interface SyncMarker {
   /**
    *
    */
-  type: 'START' | 'STOP'
+  type: 'START' | 'STOP' | 'PERIODIC' | 'FLASH' // PERIODIC: injected during recording; FLASH: detected shading
+  /**
+   *
+   */
+  sensorId: SensorKey // Sensor aligned to the reference by this marker
   /**
    *
    */
-  inWaterTimestamp: string | null // ISO timestamp from in-water sensor
+  sensorTimestamp: string | null // ISO timestamp from the sensor
   /**
    *
    */
-  surfaceTimestamp: string | null // ISO timestamp from surface sensor
+  referenceTimestamp: string | null // ISO timestamp from the surface reference sensor
   /**
    *
    */
@@ -106,7 +154,7 @@ export interface SyncMarker {
   /**
    *
    */
-  quality: 'measured' | 'synthetic' // Source quality indicator
+  quality: 'measured' | 'synthetic' | 'detected' // Source quality indicator
 }
 
 /**
@@ -116,7 +164,7 @@ export interface DriftModel {
   /**
    *
    */
-  type: 'constant' | 'linear' // Model used for correction
+  type: 'constant' | 'linear' | 'piecewise' // Model used for correction
   /**
    *
    */
@@ -129,6 +177,24 @@ export interface DriftModel {
    *
    */
   endOffsetMs?: number // Offset at session end (for linear)
+  /**
+   *
+   */
+  knots?: DriftKnot[] // Offsets at each marker, interpolated between them (for piecewise)
+}
+
+/**
+ * Offset measured at one sync marker, a knot of a piecewise-linear drift model.
+ */
+export interface DriftKnot {
+  /**
+   * ISO timestamp of the marker on the sensor clock
+   */
+  sensorTimestamp: string
+  /**
+   * Sensor minus reference clock at the marker, in milliseconds
+   */
+  offsetMs: number
 }
 
 /**
@@ -157,6 +223,179 @@ export interface SensorTimeSync {
   error?: string | null
 }
 
+/**
+ * Clock offset estimated from one burst of time sync requests during a recording.
+ */
+export interface ClockOffsetSample {
+  /**
+   * Topside time at the middle of the best round trip (ISO)
+   */
+  measuredAt: string
+  /**
+   * Sensor clock minus topside clock, averaged over the lowest-RTT requests of the burst
+   */
+  offsetMs: number
+  /**
+   * Half the lowest round-trip time of the burst
+   */
+  uncertaintyMs: number
+  /**
+   * Lowest round-trip time of the burst
+   */
+  rttMs: number
+  /**
+   * Requests sent in the burst
+   */
+  burstSize: number
+  /**
+   * Requests whose offsets were averaged
+   */
+  acceptedSamples: number
+}
+
+/**
+ * Linear fit of a sensor's clock offset over the session (offset = offsetMs + driftRateMsPerMin * minutes since referenceTime).
+ */
+export interface ClockDriftFit {
+  /**
+   * Topside time the fitted offset refers to (ISO, first sample of the series)
+   */
+  referenceTime: string
+  /**
+   * Fitted offset at referenceTime
+   */
+  offsetMs: number
+  /**
+   * Fitted drift of the offset, in ms per minute
+   */
+  driftRateMsPerMin: number
+  /**
+   * Root mean square of the fit residuals
+   */
+  residualMs: number
+  /**
+   * Samples used in the fit
+   */
+  sampleCount: number
+  /**
+   * Time between the first and last sample
+   */
+  spanMs: number
+}
+
+/**
+ * Vehicle telemetry exported from the Cockpit datalogger for the unified session window.
+ */
+export interface VehicleTelemetryInfo {
+  /**
+   * Telemetry file name, relative to the session root
+   */
+  file: string
+  /**
+   * Number of datalogger points stored in the file
+   */
+  pointCount: number
+  /**
+   * ISO timestamp of the first datalogger point (topside clock)
+   */
+  firstPointAt: string | null
+  /**
+   * ISO timestamp of the last datalogger point (topside clock)
+   */
+  lastPointAt: string | null
+  /**
+   * ISO timestamp when the telemetry file was written
+   */
+  savedAt: string
+}
+
+/**
+ * Light profile analysis outputs written after fusion.
+ */
+export interface ProfileAnalysisInfo {
+  /**
+   * Profile summary file name, relative to the session root
+   */
+  summaryFile: string
+  /**
+   * Per-bin CSV file name, relative to the session root
+   */
+  binsFile: string
+  /**
+   * Number of casts detected
+   */
+  castCount: number
+  /**
+   * Depth bin size in meters
+   */
+  binSizeM: number
+  /**
+   * ISO timestamp when the analysis ran
+   */
+  generatedAt: string
+  /**
+   * Unified CSV column profiled as the in-water sensor (default inwater_value)
+   */
+  inWaterColumn?: string
+  /**
+   * Unified CSV column used as the surface reference (default surface_value)
+   */
+  surfaceColumn?: string
+}
+
+/**
+ * Quality control outputs written after fusion.
+ */
+export interface QcAnalysisInfo {
+  /**
+   * QC report file name, relative to the session root
+   */
+  reportFile: string
+  /**
+   * HTML summary file name, relative to the session root
+   */
+  htmlFile: string
+  /**
+   * ISO timestamp when QC ran
+   */
+  generatedAt: string
+  /**
+   * Readings flagged suspect, over all checked files
+   */
+  suspectReadings: number
+  /**
+   * Readings flagged bad, over all checked files
+   */
+  badReadings: number
+  /**
+   * Thresholds overridden for the session, reused by re-runs
+   */
+  thresholds?: QcAnalysisOptions
+}
+
+/**
+ * Archive formats a fused session can be exported to
+ */
+export type ArchiveExportFormat = 'netcdf' | 'seabass'
+
+/**
+ * Archive file written from the fused session.
+ */
+export interface ArchiveExportInfo {
+  /**
+   * Exported file name, relative to the session root
+   */
+  file: string
+  /**
+   * Number of data rows written
+   */
+  rowCount: number
+  /**
+   * ISO timestamp when the file was written
+   */
+  generatedAt: string
+}
+
 /**
  *
  */
@@ -184,16 +423,7 @@ export interface SyncMetadata {
   /**
    *
    */
-  sensors: {
-    /**
-     *
-     */
-    inWater: SyncMetadataSensorInfo | null
-    /**
-     *
-     */
-    surface: SyncMetadataSensorInfo | null
-  }
+  sensors: Record<SensorKey, SyncMetadataSensorInfo | null>
   /**
    *
    */
@@ -201,24 +431,48 @@ export interface SyncMetadata {
     /**
      *
      */
-    inWater: SensorTimeSync | null
+    sensors: Record<SensorKey, SensorTimeSync | null> // Measured clock offsets
     /**
      *
      */
-    surface: SensorTimeSync | null
+    markers: SyncMarker[] // Detected sync markers
     /**
      *
      */
-    markers: SyncMarker[] // Detected sync markers
+    driftModels: Record<SensorKey, DriftModel | null> // Drift correction to the reference, per sensor
     /**
      *
      */
-    driftModel: DriftModel | null // Computed drift correction model
+    offsetSeries?: Record<SensorKey, ClockOffsetSample[]> // Offsets measured periodically during recording
+    /**
+     *
+     */
+    clockDrift?: Record<SensorKey, ClockDriftFit | null> // Linear fit of each offset series
   }
   /**
    *
    */
   fusion?: FusionStatus
+  /**
+   *
+   */
+  vehicleTelemetry?: VehicleTelemetryInfo
+  /**
+   *
+   */
+  profile?: ProfileAnalysisInfo
+  /**
+   * Quality control flags and report
+   */
+  qc?: QcAnalysisInfo
+  /**
+   * Configuration comparison of the sensors, taken when recording started
+   */
+  preflight?: QSensorPreflightResult
+  /**
+   * Archive files exported from the fused session, keyed by format
+   */
+  exports?: Partial<Record<ArchiveExportFormat, ArchiveExportInfo>>
 }
 
 /**
@@ -231,16 +485,82 @@ export function buildUnifiedSessionRoot(basePath: string, mission: string, unifi
   return path.join(basePath, mission, `session_${unifiedTimestamp}`)
 }
 
+/**
+ * Directory prefix for a sensor: its id in kebab case ('inWater' → 'in-water', 'upLooking' → 'up-looking').
+ * @param sensor - Sensor id
+ * @returns Filesystem-safe prefix
+ */
+export function sensorDirectoryPrefix(sensor: SensorKey): string {
+  return sensor
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+}
+
 /**
  *
  * @param sensor
  * @param sessionId
  */
 export function buildSensorDirectoryName(sensor: SensorKey, sessionId: string): string {
-  const prefix = SENSOR_DIRECTORY_PREFIX[sensor]
+  const prefix = sensorDirectoryPrefix(sensor)
   return `${prefix}_${sessionId}`
 }
 
+/**
+ * Role of a sensor in a session, falling back to the default for sensors recorded without one.
+ * @param sensor - Sensor id
+ * @param info - Sensor entry from sync_metadata.json
+ * @returns Sensor role
+ */
+export function resolveSensorRole(sensor: SensorKey, info: SyncMetadataSensorInfo | null | undefined): QSensorRole {
+  return info?.role ?? defaultQSensorRole(sensor)
+}
+
+/**
+ * Upgrade sync_metadata.json content to the current schema.
+ * v1 sessions had fixed inWater/surface slots, a single drift model for the in-water sensor, and
+ * markers pairing the two sensors' timestamps.
+ * @param raw - Parsed sync_metadata.json
+ * @returns Metadata in the current schema (the input is not modified)
+ */
+export function migrateSyncMetadata(raw: any): SyncMetadata {
+  if (raw.schemaVersion >= SYNC_METADATA_SCHEMA_VERSION) {
+    return raw as SyncMetadata
+  }
+
+  const sensors: Record<SensorKey, SyncMetadataSensorInfo | null> = {}
+  for (const sensor of defaultQSensorIds) {
+    const info = raw.sensors?.[sensor] ?? null
+    sensors[sensor] = info ? { role: defaultQSensorRole(sensor), ...info } : null
+  }
+
+  const legacyTimeSync = raw.timeSync ?? {}
+  const markers: SyncMarker[] = (legacyTimeSync.markers ?? []).map((marker: any) => ({
+    syncId: marker.syncId,
+    type: marker.type,
+    sensorId: 'inWater',
+    sensorTimestamp: marker.inWaterTimestamp ?? null,
+    referenceTimestamp: marker.surfaceTimestamp ?? null,
+    offsetMs: marker.offsetMs ?? null,
+    quality: marker.quality,
+  }))
+
+  return {
+    ...raw,
+    schemaVersion: SYNC_METADATA_SCHEMA_VERSION,
+    sensors,
+    timeSync: {
+      sensors: {
+        inWater: legacyTimeSync.inWater ?? null,
+        surface: legacyTimeSync.surface ?? null,
+      },
+      markers,
+      driftModels: legacyTimeSync.driftModel ? { inWater: legacyTimeSync.driftModel } : {},
+    },
+  }
+}
+
 /**
  *
  * @param basePath
@@ -303,24 +623,24 @@ export async function ensureSyncMetadata(
   const metadataPath = path.join(sessionRoot, SYNC_METADATA_FILENAME)
   try {
     const existing = await fs.readFile(metadataPath, 'utf-8')
-    return JSON.parse(existing) as SyncMetadata
+    return migrateSyncMetadata(JSON.parse(existing))
   } catch {
     const createdAt = new Date().toISOString()
     const metadata: SyncMetadata = {
-      schemaVersion: 1,
+      schemaVersion: SYNC_METADATA_SCHEMA_VERSION,
       mission,
       unifiedSessionTimestamp: unifiedTimestamp,
       createdAt,
       updatedAt: createdAt,
+      // NOTE: Slots for the default pair; other sensors are added when they start recording
       sensors: {
         inWater: null,
         surface: null,
       },
       timeSync: {
-        inWater: null,
-        surface: null,
+        sensors: {},
         markers: [],
-        driftModel: null,
+        driftModels: {},
       },
     }
     await writeSyncMetadataFile(sessionRoot, metadata)
@@ -336,7 +656,7 @@ export async function readSyncMetadata(sessionRoot: string): Promise<SyncMetadat
   const metadataPath = path.join(sessionRoot, SYNC_METADATA_FILENAME)
   try {
     const data = await fs.readFile(metadataPath, 'utf-8')
-    return JSON.parse(data) as SyncMetadata
+    return migrateSyncMetadata(JSON.parse(data))
   } catch {
     return null
   }
@@ -384,17 +704,7 @@ ssssssssssssssssss
 }> {
   try {
     await updateSyncMetadata(sessionRoot, (metadata) => {
-      // Ensure timeSync structure exists (backward compat)
-      if (!metadata.timeSync) {
-        metadata.timeSync = {
-          inWater: null,
-          surface: null,
-          markers: [],
-          driftModel: null,
-        }
-      }
-
-      metadata.timeSync[sensorId] = timeSync
+      metadata.timeSync.sensors[sensorId] = timeSync
     })
 
     console.log(
@@ -447,6 +757,19 @@ export async function updateFusionStatus(sessionRoot: string, fusionStatus: Fusi
   })
 }
 
+/**
+ * Store the pre-flight configuration check of the session sensors.
+ * @param sessionRoot - Unified session root
+ * @param preflight - Result of the check run before recording
+ */
+export async function updateSessionPreflight(sessionRoot: string, preflight: QSensorPreflightResult): Promise<void> {
+  await updateSyncMetadata(sessionRoot, (metadata) => {
+    metadata.preflight = preflight
+  })
+  const errors = preflight.issues.filter((issue) => issue.severity === 'error').length
+  console.log(`[Session Utils] Recorded pre-flight check: ${preflight.issues.length} issue(s), ${errors} error(s)`)
+}
+
 // * Setup IPC handler for updating sync metadata timeSync field.
 // NOTE: Renderer uses this to push measured time sync values after capture.
 /**
@@ -493,5 +816,21 @@ export function setupSyncMetadataIPC(): void {
     }
   )
 
+  ipcMain.handle(
+    'qsensor:record-session-preflight',
+    async (_event, sessionRoot: string, preflight: QSensorPreflightResult) => {
+      try {
+        if (!sessionRoot || !preflight) {
+          return { success: false, error: 'Session root and pre-flight result are required' }
+        }
+        await updateSessionPreflight(sessionRoot, preflight)
+        return { success: true }
+      } catch (error: any) {
+        console.error('[Session Utils] Failed to record pre-flight check:', error)
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
   console.log('[QSensor Session Utils] Sync metadata IPC registered')
 }
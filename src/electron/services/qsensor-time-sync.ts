@@ -4,11 +4,18 @@
  * Implements HTTP round-trip time measurement between Pi and topside.
  * Provides clock offset and uncertainty for sync_metadata.json population.
  *
- * Phase 2: Infrastructure only - no integration with recording workflow yet.
+ * During a unified recording, drift tracking takes a burst of requests every minute, keeps the
+ * lowest-RTT ones (NTP-style) and stores the resulting offset series and its linear fit in
+ * sync_metadata.json, so fusion can correct clock drift across the whole session.
+ *
+ * Light-flash detection finds deliberate shading events (both sensors covered together) in a sensor's
+ * readings; fusion pairs the events of two sensors into intermediate sync markers.
  */
 
 import { ipcMain } from 'electron'
 
+import { ClockDriftFit, ClockOffsetSample, SensorKey, updateSyncMetadata } from './qsensor-session-utils'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -36,7 +43,7 @@ export interface TimeSyncResult {
 /**
  * Response from Pi /api/sync/time endpoint.
  */
-interface TimeSyncResponse {
+export interface TimeSyncResponse {
   /** ISO 8601 timestamp from Pi */
   pi_iso: string
   /** Unix milliseconds from Pi */
@@ -47,6 +54,46 @@ interface TimeSyncResponse {
   schema_version: number
 }
 
+/**
+ * Raw round trip to the Pi /api/sync/time endpoint.
+ */
+export interface PiTimeRoundTrip {
+  /** Topside time when the request was sent (ms since epoch) */
+  requestStartMs: number
+  /** Topside time when the response was received (ms since epoch) */
+  responseEndMs: number
+  /** Pi response, not yet validated */
+  piData: TimeSyncResponse
+}
+
+/**
+ * Drift tracking running for one sensor of a unified session.
+ */
+interface ClockDriftTracker {
+  /** Unified session root holding sync_metadata.json */
+  sessionRoot: string
+  /** Sensor whose clock is tracked */
+  sensorId: SensorKey
+  /** Pi API base URL */
+  baseUrl: string
+  /** Requests per burst */
+  burstSize: number
+  /** Timer between bursts */
+  intervalId: NodeJS.Timeout | null
+  /** Burst currently running, awaited before the final burst */
+  pending: Promise<unknown> | null
+}
+
+/**
+ * Light-flash (shading) event found in a sensor's readings.
+ */
+export interface FlashEvent {
+  /** Time the value fell through the drop threshold, interpolated between readings (sensor clock, ms) */
+  time: number
+  /** Time until the value recovered, in milliseconds */
+  durationMs: number
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -57,6 +104,30 @@ const TIMEOUT_MS = 5000
 /** Maximum acceptable RTT before flagging as high_rtt */
 const MAX_RTT_MS = 200
 
+/** Requests per drift tracking burst */
+const DEFAULT_BURST_SIZE = 8
+
+/** Fraction of a burst (lowest RTT first) whose offsets are averaged */
+const BEST_SAMPLE_FRACTION = 0.25
+
+/** Time between drift tracking bursts */
+const DEFAULT_TRACKING_INTERVAL_MS = 60000
+
+/** A flash drops the value below this fraction of the running baseline */
+const FLASH_DROP_FRACTION = 0.2
+
+/** A flash ends when the value climbs back above this fraction of the baseline */
+const FLASH_RECOVER_FRACTION = 0.5
+
+/** Shortest and longest shading that count as a flash (longer is a real change in light) */
+const FLASH_MIN_DURATION_MS = 100
+const FLASH_MAX_DURATION_MS = 5000
+
+/** Weight of each new reading in the running baseline */
+const FLASH_BASELINE_ALPHA = 0.1
+
+const activeTrackers = new Map<string, ClockDriftTracker>()
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -76,32 +147,13 @@ const MAX_RTT_MS = 200
  */
 export async function measureClockOffset(baseUrl: string): Promise<TimeSyncResult> {
   const topsideRequestStart = new Date().toISOString()
-  const startTime = Date.now()
 
   try {
-    const url = `${baseUrl}/api/sync/time`
-
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
-
-    const response = await fetch(url, {
-      method: 'GET',
-      signal: controller.signal,
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const piData: TimeSyncResponse = await response.json()
-    const endTime = Date.now()
-    const topsideResponseEnd = new Date().toISOString()
+    const { requestStartMs: startTime, responseEndMs: endTime, piData } = await requestPiTime(baseUrl)
+    const topsideResponseEnd = new Date(endTime).toISOString()
 
     // Validate Pi response has required fields
-    if (typeof piData.pi_unix_ms !== 'number' || !piData.pi_iso) {
+    if (!isValidPiTime(piData)) {
       console.error('[QSensor Time Sync] Invalid Pi response:', piData)
       return {
         method: 'unsynced',
@@ -146,16 +198,6 @@ export async function measureClockOffset(baseUrl: string): Promise<TimeSyncResul
   } catch (error: any) {
     const topsideResponseEnd = new Date().toISOString()
 
-    // Determine error type
-    let errorType: string
-    if (error.name === 'AbortError' || error.message?.includes('timeout')) {
-      errorType = 'timeout'
-      console.error(`[QSensor Time Sync] Request timeout (${TIMEOUT_MS}ms)`)
-    } else {
-      errorType = 'network_error'
-      console.error('[QSensor Time Sync] Network error:', error.message)
-    }
-
     return {
       method: 'unsynced',
       offsetMs: null,
@@ -163,11 +205,367 @@ export async function measureClockOffset(baseUrl: string): Promise<TimeSyncResul
       topsideRequestStart,
       piResponseTime: null,
       topsideResponseEnd,
-      error: errorType,
+      error: classifyRequestError(error),
     }
   }
 }
 
+/**
+ * Estimate the clock offset from a burst of round trips, NTP-style.
+ *
+ * Requests with an RTT above the threshold or an invalid Pi time are discarded; the offsets of the
+ * lowest-RTT quarter of the remaining requests are averaged, since queueing delay is what makes
+ * the one-way delay asymmetric.
+ * @param baseUrl - Pi API base URL (e.g., "http://blueos.local:9150")
+ * @param burstSize - Number of requests to send
+ * @returns The burst estimate, or null when no request was usable
+ */
+export async function measureClockOffsetBurst(
+  baseUrl: string,
+  burstSize = DEFAULT_BURST_SIZE
+): Promise<ClockOffsetSample | null> {
+  const roundTrips: PiTimeRoundTrip[] = []
+
+  for (let i = 0; i < burstSize; i++) {
+    try {
+      roundTrips.push(await requestPiTime(baseUrl))
+    } catch (error: any) {
+      console.warn(`[QSensor Time Sync] Burst request failed (${classifyRequestError(error)})`)
+    }
+  }
+
+  return summarizeBurst(roundTrips, burstSize)
+}
+
+/**
+ * Reduce a burst of round trips to a single offset estimate.
+ * @param roundTrips - Round trips of the burst
+ * @param burstSize - Requests sent in the burst (including failed ones)
+ * @returns The burst estimate, or null when no round trip was usable
+ */
+export function summarizeBurst(roundTrips: PiTimeRoundTrip[], burstSize: number): ClockOffsetSample | null {
+  const usable = roundTrips
+    .filter((roundTrip) => isValidPiTime(roundTrip.piData))
+    .map((roundTrip) => {
+      const rttMs = roundTrip.responseEndMs - roundTrip.requestStartMs
+      const midpointMs = roundTrip.requestStartMs + rttMs / 2
+      return { rttMs, midpointMs, offsetMs: roundTrip.piData.pi_unix_ms - midpointMs }
+    })
+    .filter((sample) => sample.rttMs <= MAX_RTT_MS)
+    .sort((a, b) => a.rttMs - b.rttMs)
+
+  if (usable.length === 0) {
+    return null
+  }
+
+  const best = usable.slice(0, Math.max(1, Math.ceil(usable.length * BEST_SAMPLE_FRACTION)))
+  const offsetMs = best.reduce((sum, sample) => sum + sample.offsetMs, 0) / best.length
+
+  return {
+    measuredAt: new Date(best[0].midpointMs).toISOString(),
+    offsetMs: Math.round(offsetMs * 10) / 10,
+    uncertaintyMs: best[0].rttMs / 2,
+    rttMs: best[0].rttMs,
+    burstSize,
+    acceptedSamples: best.length,
+  }
+}
+
+/**
+ * Fit offset and drift to an offset series by weighted least squares.
+ * Samples are weighted by 1/uncertainty², so bursts that only got slow round trips count less.
+ * @param series - Offset samples, in any order
+ * @returns The fit (drift is 0 with a single sample), or null for an empty series
+ */
+export function fitClockDrift(series: ClockOffsetSample[]): ClockDriftFit | null {
+  if (series.length === 0) {
+    return null
+  }
+
+  const sorted = [...series].sort((a, b) => Date.parse(a.measuredAt) - Date.parse(b.measuredAt))
+  const referenceMs = Date.parse(sorted[0].measuredAt)
+  const points = sorted.map((sample) => ({
+    x: (Date.parse(sample.measuredAt) - referenceMs) / 60000,
+    y: sample.offsetMs,
+    w: 1 / Math.max(sample.uncertaintyMs, 1) ** 2,
+  }))
+
+  const sumW = points.reduce((sum, p) => sum + p.w, 0)
+  const meanX = points.reduce((sum, p) => sum + p.w * p.x, 0) / sumW
+  const meanY = points.reduce((sum, p) => sum + p.w * p.y, 0) / sumW
+  const sxx = points.reduce((sum, p) => sum + p.w * (p.x - meanX) ** 2, 0)
+  const sxy = points.reduce((sum, p) => sum + p.w * (p.x - meanX) * (p.y - meanY), 0)
+
+  const driftRateMsPerMin = sxx > 0 ? sxy / sxx : 0
+  const offsetMs = meanY - driftRateMsPerMin * meanX
+  const residualMs = Math.sqrt(
+    points.reduce((sum, p) => sum + (p.y - (offsetMs + driftRateMsPerMin * p.x)) ** 2, 0) / points.length
+  )
+
+  return {
+    referenceTime: sorted[0].measuredAt,
+    offsetMs,
+    driftRateMsPerMin,
+    residualMs,
+    sampleCount: points.length,
+    spanMs: Date.parse(sorted[sorted.length - 1].measuredAt) - referenceMs,
+  }
+}
+
+/**
+ * Offset predicted by a drift fit at a topside time.
+ * @param fit - Drift fit
+ * @param topsideMs - Topside time (ms since epoch)
+ * @returns Sensor clock minus topside clock, in ms
+ */
+export function clockOffsetAt(fit: ClockDriftFit, topsideMs: number): number {
+  return fit.offsetMs + (fit.driftRateMsPerMin * (topsideMs - Date.parse(fit.referenceTime))) / 60000
+}
+
+// ============================================================================
+// Drift Tracking
+// ============================================================================
+
+/**
+ * Start periodic clock offset bursts for a sensor recording into a unified session.
+ * The first burst runs immediately; tracking for the same sensor and session is not duplicated.
+ * @param sessionRoot - Unified session root holding sync_metadata.json
+ * @param sensorId - Sensor whose clock is tracked
+ * @param baseUrl - Pi API base URL
+ * @param options - Tracking cadence
+ * @param options.intervalMs - Time between bursts
+ * @param options.burstSize - Requests per burst
+ */
+export function startClockDriftTracking(
+  sessionRoot: string,
+  sensorId: SensorKey,
+  baseUrl: string,
+  options: {
+    /** Time between bursts */
+    intervalMs?: number
+    /** Requests per burst */
+    burstSize?: number
+  } = {}
+): void {
+  const key = trackerKey(sessionRoot, sensorId)
+  if (activeTrackers.has(key)) {
+    console.warn(`[QSensor Time Sync] Drift tracking already running for ${sensorId}`)
+    return
+  }
+
+  const tracker: ClockDriftTracker = {
+    sessionRoot,
+    sensorId,
+    baseUrl,
+    burstSize: options.burstSize ?? DEFAULT_BURST_SIZE,
+    intervalId: null,
+    pending: null,
+  }
+  activeTrackers.set(key, tracker)
+
+  const runBurst = (): void => {
+    // Skip a tick rather than overlap bursts on a slow link
+    if (tracker.pending) return
+    tracker.pending = recordBurst(tracker).finally(() => {
+      tracker.pending = null
+    })
+  }
+  runBurst()
+  tracker.intervalId = setInterval(runBurst, options.intervalMs ?? DEFAULT_TRACKING_INTERVAL_MS)
+
+  console.log(`[QSensor Time Sync] Drift tracking started for ${sensorId} (${baseUrl})`)
+}
+
+/**
+ * Stop drift tracking for a sensor, after a final burst so the series covers the end of the recording.
+ * @param sessionRoot - Unified session root
+ * @param sensorId - Sensor whose clock is tracked
+ * @returns The final drift fit, or null when tracking was not running or measured nothing
+ */
+export async function stopClockDriftTracking(sessionRoot: string, sensorId: SensorKey): Promise<ClockDriftFit | null> {
+  const key = trackerKey(sessionRoot, sensorId)
+  const tracker = activeTrackers.get(key)
+  if (!tracker) return null
+
+  activeTrackers.delete(key)
+  if (tracker.intervalId) {
+    clearInterval(tracker.intervalId)
+    tracker.intervalId = null
+  }
+
+  await tracker.pending
+  const fit = await recordBurst(tracker)
+  console.log(`[QSensor Time Sync] Drift tracking stopped for ${sensorId}`)
+  return fit
+}
+
+/**
+ * Take one burst and append it to the sensor's offset series in sync_metadata.json.
+ * Failures are logged; tracking never interrupts recording.
+ * @param tracker - Drift tracker
+ * @returns The updated drift fit, or null when the burst or the metadata update failed
+ */
+async function recordBurst(tracker: ClockDriftTracker): Promise<ClockDriftFit | null> {
+  const sample = await measureClockOffsetBurst(tracker.baseUrl, tracker.burstSize)
+  if (!sample) {
+    console.warn(`[QSensor Time Sync] ${tracker.sensorId}: no usable round trip in burst, sample skipped`)
+    return null
+  }
+
+  let fit: ClockDriftFit | null = null
+  try {
+    await updateSyncMetadata(tracker.sessionRoot, (metadata) => {
+      const offsetSeries = (metadata.timeSync.offsetSeries ??= {})
+      const series = (offsetSeries[tracker.sensorId] ??= [])
+      series.push(sample)
+      fit = fitClockDrift(series)
+      ;(metadata.timeSync.clockDrift ??= {})[tracker.sensorId] = fit
+    })
+  } catch (error: any) {
+    console.warn(`[QSensor Time Sync] ${tracker.sensorId}: failed to store offset sample: ${error.message}`)
+    return null
+  }
+
+  console.log(
+    `[QSensor Time Sync] ${tracker.sensorId}: offset=${sample.offsetMs}ms ±${sample.uncertaintyMs}ms ` +
+      `(${sample.acceptedSamples}/${sample.burstSize} samples)`
+  )
+  return fit
+}
+
+/**
+ * Key of a drift tracker
+ * @param sessionRoot - Unified session root
+ * @param sensorId - Sensor id
+ * @returns Map key
+ */
+function trackerKey(sessionRoot: string, sensorId: SensorKey): string {
+  return `${sessionRoot}::${sensorId}`
+}
+
+/**
+ * Request the Pi time once, measuring the round trip on the topside clock.
+ * @param baseUrl - Pi API base URL
+ * @returns Raw round trip
+ */
+async function requestPiTime(baseUrl: string): Promise<PiTimeRoundTrip> {
+  const requestStartMs = Date.now()
+
+  // Create abort controller for timeout
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
+
+  try {
+    const response = await fetch(`${baseUrl}/api/sync/time`, {
+      method: 'GET',
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    const piData: TimeSyncResponse = await response.json()
+    return { requestStartMs, responseEndMs: Date.now(), piData }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Check that a Pi response carries a usable time
+ * @param piData - Pi response
+ * @returns True when pi_unix_ms and pi_iso are present
+ */
+function isValidPiTime(piData: TimeSyncResponse): boolean {
+  return typeof piData?.pi_unix_ms === 'number' && !!piData.pi_iso
+}
+
+/**
+ * Classify a failed time sync request and log it
+ * @param error - Error thrown by the request
+ * @returns "timeout" or "network_error"
+ */
+function classifyRequestError(error: any): string {
+  if (error.name === 'AbortError' || error.message?.includes('timeout')) {
+    console.error(`[QSensor Time Sync] Request timeout (${TIMEOUT_MS}ms)`)
+    return 'timeout'
+  }
+  console.error('[QSensor Time Sync] Network error:', error.message)
+  return 'network_error'
+}
+
+// ============================================================================
+// Flash Detection
+// ============================================================================
+
+/**
+ * Streaming detector of light flashes: short, deep drops of the value below its running baseline.
+ * Readings must be fed in time order; out-of-order and non-finite readings are ignored.
+ */
+export class FlashDetector {
+  /** Flashes found so far */
+  readonly events: FlashEvent[] = []
+  private baseline: number | null = null
+  private lastTime: number | null = null
+  private lastValue = 0
+  private dropStart: number | null = null
+
+  /**
+   * Feed one reading.
+   * @param time - Reading time (ms)
+   * @param value - Sensor value
+   */
+  add(time: number, value: number): void {
+    if (!Number.isFinite(time) || !Number.isFinite(value)) return
+    if (this.lastTime !== null && time <= this.lastTime) return
+
+    if (this.baseline === null) {
+      this.baseline = value
+    } else if (this.dropStart === null) {
+      const threshold = this.baseline * FLASH_DROP_FRACTION
+      if (this.baseline > 0 && value < threshold) {
+        // NOTE: Interpolated crossing, so the event time doesn't depend on where the samples fell
+        const fraction = this.lastValue > threshold ? (this.lastValue - threshold) / (this.lastValue - value) : 1
+        this.dropStart = this.lastTime! + fraction * (time - this.lastTime!)
+      } else {
+        this.baseline += FLASH_BASELINE_ALPHA * (value - this.baseline)
+      }
+    } else if (value >= this.baseline * FLASH_RECOVER_FRACTION) {
+      const durationMs = time - this.dropStart
+      if (durationMs >= FLASH_MIN_DURATION_MS && durationMs <= FLASH_MAX_DURATION_MS) {
+        this.events.push({ time: this.dropStart, durationMs })
+      }
+      this.dropStart = null
+    } else if (time - this.dropStart > FLASH_MAX_DURATION_MS) {
+      // Too long for a flash: the light level changed, so track it from here
+      this.dropStart = null
+      this.baseline = value
+    }
+
+    this.lastTime = time
+    this.lastValue = value
+  }
+}
+
+/**
+ * Find the light flashes in a series of readings.
+ * @param readings - Readings in time order
+ * @returns Flashes, in time order
+ */
+export function detectFlashes(
+  readings: {
+    /** Reading time (ms) */
+    time: number
+    /** Sensor value */
+    value: number
+  }[]
+): FlashEvent[] {
+  const detector = new FlashDetector()
+  for (const reading of readings) detector.add(reading.time, reading.value)
+  return detector.events
+}
+
 // ============================================================================
 // IPC Setup
 // ============================================================================
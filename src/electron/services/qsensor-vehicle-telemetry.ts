@@ -0,0 +1,345 @@
+/**
+ * Q-Sensor vehicle telemetry service for Electron main process.
+ *
+ * Stores the Cockpit datalogger points recorded during a unified session next to sync_metadata.json,
+ * and interpolates depth, position and attitude onto fused rows so irradiance can be georeferenced.
+ *
+ * NOTE: Datalogger epochs come from the topside clock, the same time base fusion aligns both sensors to,
+ * so no extra drift correction is applied to vehicle samples.
+ */
+
+import { ipcMain } from 'electron'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+import { readSyncMetadata, updateSyncMetadata } from './qsensor-session-utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Single datalogger point as produced by the renderer (CockpitStandardLogPoint).
+ */
+export interface CockpitLogPoint {
+  /** Universal Linux epoch time in milliseconds (topside clock) */
+  epoch: number
+  /** Datalogger variables keyed by display name (e.g. "Depth", "Heading") */
+  data: Record<
+    string,
+    {
+      /** Formatted value, including units (e.g. "12.34 m", "181.2 °") */
+      value: string
+      /** Linux epoch of the last change */
+      lastChanged?: number
+    }
+  >
+}
+
+/**
+ * Vehicle state parsed from one datalogger point. Fields are null when the vehicle did not report them.
+ */
+export interface VehicleTelemetrySample {
+  /** Epoch in milliseconds (topside clock) */
+  epoch: number
+  /** Depth in meters, positive down */
+  depthM: number | null
+  /** Latitude in decimal degrees */
+  latitude: number | null
+  /** Longitude in decimal degrees */
+  longitude: number | null
+  /** Heading in degrees [0, 360) */
+  headingDeg: number | null
+  /** Pitch in degrees */
+  pitchDeg: number | null
+  /** Roll in degrees */
+  rollDeg: number | null
+}
+
+/**
+ * Vehicle state interpolated at a fused row timestamp.
+ */
+export interface VehicleStateAtTime {
+  /** Interpolated depth in meters, positive down */
+  depthM: number | null
+  /** Interpolated latitude in decimal degrees */
+  latitude: number | null
+  /** Interpolated longitude in decimal degrees */
+  longitude: number | null
+  /** Interpolated heading in degrees [0, 360) */
+  headingDeg: number | null
+  /** Interpolated pitch in degrees */
+  pitchDeg: number | null
+  /** Interpolated roll in degrees */
+  rollDeg: number | null
+  /** Distance in ms to the nearest datalogger point used. Null when no point was usable. */
+  age_ms: number | null
+  /** Freshness of the vehicle values, with the same semantics as surface_status */
+  status: 'fresh' | 'stale' | 'missing'
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const VEHICLE_TELEMETRY_FILENAME = 'vehicle_telemetry.json'
+
+// Datalogger names for the variables we georeference with (mirrors DatalogVariable in sensors-logging.ts)
+const DATALOG_DEPTH = 'Depth'
+const DATALOG_LATITUDE = 'Latitude'
+const DATALOG_LONGITUDE = 'Longitude'
+const DATALOG_HEADING = 'Heading'
+const DATALOG_PITCH = 'Pitch'
+const DATALOG_ROLL = 'Roll'
+
+const FEET_TO_METERS = 0.3048
+
+// Maximum distance to a datalogger point to consider vehicle values valid (datalogger runs at ~1 Hz)
+export const MAX_VEHICLE_STALENESS_MS = 5000
+
+// Staleness warning threshold, above which values are still written but flagged as stale
+export const VEHICLE_STALENESS_WARNING_MS = 2000
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a formatted datalogger value into a number.
+ * @param value - Formatted value such as "12.34 m", "-3.1 °" or "undefined °"
+ * @returns Parsed number, or null if the value is not numeric
+ */
+export function parseDatalogNumber(value: string | undefined): number | null {
+  if (value === undefined || value === null) return null
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Parse a datalogger depth value into meters, honoring the unit the user displayed it in.
+ * @param value - Formatted depth such as "12.34 m" or "40.49 ft"
+ * @returns Depth in meters, or null if the value is not numeric
+ */
+export function parseDatalogDepthMeters(value: string | undefined): number | null {
+  const depth = parseDatalogNumber(value)
+  if (depth === null) return null
+  return value!.trim().endsWith('ft') ? depth * FEET_TO_METERS : depth
+}
+
+/**
+ * Convert raw datalogger points into sorted vehicle samples.
+ * Points without a valid epoch are dropped.
+ * @param points - Datalogger points for the session window
+ * @returns Vehicle samples sorted by epoch
+ */
+export function parseVehicleTelemetry(points: CockpitLogPoint[]): VehicleTelemetrySample[] {
+  const samples: VehicleTelemetrySample[] = []
+
+  for (const point of points) {
+    if (!point || !Number.isFinite(point.epoch) || !point.data) continue
+
+    const heading = parseDatalogNumber(point.data[DATALOG_HEADING]?.value)
+    samples.push({
+      epoch: point.epoch,
+      depthM: parseDatalogDepthMeters(point.data[DATALOG_DEPTH]?.value),
+      latitude: parseDatalogNumber(point.data[DATALOG_LATITUDE]?.value),
+      longitude: parseDatalogNumber(point.data[DATALOG_LONGITUDE]?.value),
+      headingDeg: heading !== null ? ((heading % 360) + 360) % 360 : null,
+      pitchDeg: parseDatalogNumber(point.data[DATALOG_PITCH]?.value),
+      rollDeg: parseDatalogNumber(point.data[DATALOG_ROLL]?.value),
+    })
+  }
+
+  return samples.sort((a, b) => a.epoch - b.epoch)
+}
+
+// ============================================================================
+// Interpolation
+// ============================================================================
+
+/**
+ * Linear interpolation that tolerates missing endpoints by falling back to the closer one.
+ * @param a - Value at the previous sample
+ * @param b - Value at the next sample
+ * @param fraction - Position between samples [0, 1]
+ * @returns Interpolated value, or null if neither endpoint is usable
+ */
+function lerpNullable(a: number | null, b: number | null, fraction: number): number | null {
+  if (a !== null && b !== null) return a + (b - a) * fraction
+  return fraction < 0.5 ? a ?? b : b ?? a
+}
+
+/**
+ * Heading interpolation along the shortest arc, so 359° → 1° passes through 0° instead of 180°.
+ * @param a - Heading at the previous sample
+ * @param b - Heading at the next sample
+ * @param fraction - Position between samples [0, 1]
+ * @returns Interpolated heading in [0, 360), or null if neither endpoint is usable
+ */
+function lerpHeading(a: number | null, b: number | null, fraction: number): number | null {
+  if (a === null || b === null) return lerpNullable(a, b, fraction)
+  const delta = ((b - a + 540) % 360) - 180
+  return (((a + delta * fraction) % 360) + 360) % 360
+}
+
+/**
+ * Interpolate vehicle state at a given timestamp.
+ *
+ * Uses linear interpolation between the bracketing datalogger points when they are close enough,
+ * and falls back to the closest point otherwise (before or after the row), applying the same
+ * staleness rules as the surface join.
+ * @param time - Row timestamp (ms since epoch, topside clock)
+ * @param samples - Vehicle samples sorted by epoch
+ * @param stalenessThresholdMs - Maximum distance to a datalogger point to consider values valid
+ * @returns Interpolated vehicle state with age and status
+ */
+export function interpolateVehicleState(
+  time: number,
+  samples: VehicleTelemetrySample[],
+  stalenessThresholdMs: number = MAX_VEHICLE_STALENESS_MS
+): VehicleStateAtTime {
+  const empty: VehicleStateAtTime = {
+    depthM: null,
+    latitude: null,
+    longitude: null,
+    headingDeg: null,
+    pitchDeg: null,
+    rollDeg: null,
+    age_ms: null,
+    status: 'missing',
+  }
+
+  // Binary search for largest sample epoch <= time
+  let left = 0
+  let right = samples.length - 1
+  let prevIdx = -1
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2)
+    if (samples[mid].epoch <= time) {
+      prevIdx = mid
+      left = mid + 1
+    } else {
+      right = mid - 1
+    }
+  }
+
+  const prev = prevIdx >= 0 ? samples[prevIdx] : null
+  const next = prevIdx + 1 < samples.length ? samples[prevIdx + 1] : null
+
+  // Interpolate when both neighbours exist and the gap between them is within the staleness window
+  if (prev && next && next.epoch - prev.epoch <= stalenessThresholdMs) {
+    const span = next.epoch - prev.epoch
+    const fraction = span > 0 ? (time - prev.epoch) / span : 0
+    const age = Math.min(time - prev.epoch, next.epoch - time)
+
+    return {
+      depthM: lerpNullable(prev.depthM, next.depthM, fraction),
+      latitude: lerpNullable(prev.latitude, next.latitude, fraction),
+      longitude: lerpNullable(prev.longitude, next.longitude, fraction),
+      headingDeg: lerpHeading(prev.headingDeg, next.headingDeg, fraction),
+      pitchDeg: lerpNullable(prev.pitchDeg, next.pitchDeg, fraction),
+      rollDeg: lerpNullable(prev.rollDeg, next.rollDeg, fraction),
+      age_ms: age,
+      status: age < VEHICLE_STALENESS_WARNING_MS ? 'fresh' : 'stale',
+    }
+  }
+
+  // Otherwise hold the closest point, before or after the row, under the same staleness rules
+  const nearest = !next || (prev && time - prev.epoch <= next.epoch - time) ? prev : next
+  if (!nearest) return empty
+
+  const age = Math.abs(time - nearest.epoch)
+  if (age > stalenessThresholdMs) {
+    return { ...empty, age_ms: age, status: 'stale' }
+  }
+
+  return {
+    depthM: nearest.depthM,
+    latitude: nearest.latitude,
+    longitude: nearest.longitude,
+    headingDeg: nearest.headingDeg,
+    pitchDeg: nearest.pitchDeg,
+    rollDeg: nearest.rollDeg,
+    age_ms: age,
+    status: age < VEHICLE_STALENESS_WARNING_MS ? 'fresh' : 'stale',
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Write datalogger points for a unified session and record them in sync_metadata.json.
+ * @param sessionRoot - Unified session root directory
+ * @param points - Datalogger points covering the session window
+ */
+export async function saveVehicleTelemetry(sessionRoot: string, points: CockpitLogPoint[]): Promise<void> {
+  const sorted = [...points].filter((point) => Number.isFinite(point?.epoch)).sort((a, b) => a.epoch - b.epoch)
+  const outputPath = path.join(sessionRoot, VEHICLE_TELEMETRY_FILENAME)
+  const tmpPath = outputPath + '.tmp'
+
+  // Write atomically
+  await fs.writeFile(tmpPath, JSON.stringify(sorted), 'utf-8')
+  await fs.rename(tmpPath, outputPath)
+
+  await updateSyncMetadata(sessionRoot, (metadata) => {
+    metadata.vehicleTelemetry = {
+      file: VEHICLE_TELEMETRY_FILENAME,
+      pointCount: sorted.length,
+      firstPointAt: sorted.length > 0 ? new Date(sorted[0].epoch).toISOString() : null,
+      lastPointAt: sorted.length > 0 ? new Date(sorted[sorted.length - 1].epoch).toISOString() : null,
+      savedAt: new Date().toISOString(),
+    }
+  })
+
+  console.log(`[QSensor Vehicle Telemetry] Saved ${sorted.length} datalogger points to ${outputPath}`)
+}
+
+/**
+ * Load vehicle samples for a unified session, if telemetry was exported.
+ * @param sessionRoot - Unified session root directory
+ * @returns Sorted vehicle samples, or null if the session has no telemetry file
+ */
+export async function loadVehicleTelemetry(sessionRoot: string): Promise<VehicleTelemetrySample[] | null> {
+  const syncMetadata = await readSyncMetadata(sessionRoot)
+  const fileName = syncMetadata?.vehicleTelemetry?.file ?? VEHICLE_TELEMETRY_FILENAME
+
+  try {
+    const content = await fs.readFile(path.join(sessionRoot, fileName), 'utf-8')
+    const points = JSON.parse(content) as CockpitLogPoint[]
+    return parseVehicleTelemetry(Array.isArray(points) ? points : [])
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// IPC Service Setup
+// ============================================================================
+
+/**
+ * Setup IPC handlers for Q-Sensor vehicle telemetry.
+ * Renderer pushes the datalogger window for a unified session before stopping the sensors.
+ */
+export function setupQSensorVehicleTelemetryService(): void {
+  ipcMain.handle('qsensor:save-vehicle-telemetry', async (_event, sessionRoot: string, points: CockpitLogPoint[]) => {
+    try {
+      if (!sessionRoot) {
+        return { success: false, error: 'No session root provided' }
+      }
+      if (!Array.isArray(points)) {
+        return { success: false, error: 'Telemetry must be an array of datalogger points' }
+      }
+
+      await saveVehicleTelemetry(sessionRoot, points)
+      return { success: true, data: { pointCount: points.length } }
+    } catch (error: any) {
+      console.error('[QSensor Vehicle Telemetry] Failed to save telemetry:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  console.log('[QSensor Vehicle Telemetry] Service registered')
+}
@@ -0,0 +1,585 @@
+/**
+ * MAVLink telemetry log (tlog) recorder.
+ *
+ * Writes every MAVLink frame read from or written to the vehicle links to ~/Cockpit/tlogs, in the tlog format
+ * read by QGroundControl, MAVProxy and pymavlink: each frame is preceded by its reception time as a big-endian
+ * 64-bit count of microseconds since the Unix epoch.
+ *
+ * Links opened by the desktop app (serial, TCP, UDP) are recorded from their raw bytes. WebSocket links only carry
+ * mavlink2rest JSON, so the renderer encodes their messages back to MAVLink frames and sends them over IPC.
+ *
+ * Recording:
+ * - 'armed': from the first armed autopilot HEARTBEAT to the first disarmed one (included)
+ * - 'always': whenever data flows
+ * - 'disabled': never
+ *
+ * A new file is started once the current one reaches maxFileSizeMb, and the oldest files are deleted while the
+ * folder holds more than maxTotalSizeMb (0 keeps everything).
+ */
+
+import { BrowserWindow, ipcMain, shell } from 'electron'
+import { createWriteStream, mkdirSync, openSync, WriteStream } from 'fs'
+import * as fs from 'fs/promises'
+import { basename, join } from 'path'
+
+import { MAVLINK_V1_STX, MAVLINK_V2_STX, mavlinkFrameHeader, mavlinkFrameLength } from '../../utils/tlog'
+import store from './config-store'
+import { cockpitFolderPath } from './storage'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * When the tlog recorder writes frames
+ */
+export type TlogRecordingMode = 'armed' | 'always' | 'disabled'
+
+/**
+ * Settings of the tlog recorder
+ */
+export interface TlogRecordingSettings {
+  /**
+   * When frames are recorded
+   */
+  mode: TlogRecordingMode
+  /**
+   * Size at which a new file is started, in MB
+   */
+  maxFileSizeMb: number
+  /**
+   * Size of the tlog folder above which the oldest files are deleted, in MB (0 keeps everything)
+   */
+  maxTotalSizeMb: number
+}
+
+/**
+ * A tlog file of the tlog folder
+ */
+export interface TlogFileInfo {
+  /**
+   * File name, e.g. '2025-01-01 12-00-00.tlog'
+   */
+  name: string
+  /**
+   * Size in bytes
+   */
+  sizeBytes: number
+  /**
+   * Last modification time (ISO 8601)
+   */
+  modifiedAt: string
+  /**
+   * Whether the file is being recorded
+   */
+  recording: boolean
+}
+
+/**
+ * State of the tlog recorder
+ */
+export interface TlogRecorderStatus {
+  /**
+   * Current settings
+   */
+  settings: TlogRecordingSettings
+  /**
+   * Whether the last autopilot HEARTBEAT reported the vehicle armed
+   */
+  armed: boolean
+  /**
+   * Whether the frames are being recorded
+   */
+  recording: boolean
+  /**
+   * Name of the file being recorded, if any
+   */
+  currentFile: string | null
+  /**
+   * Folder holding the tlog files
+   */
+  directory: string
+  /**
+   * Why the last file couldn't be created. Recording resumes when the settings change.
+   */
+  error: string | null
+}
+
+export const DEFAULT_TLOG_SETTINGS: TlogRecordingSettings = {
+  mode: 'armed',
+  maxFileSizeMb: 100,
+  maxTotalSizeMb: 2000,
+}
+
+const TLOG_EXTENSION = '.tlog'
+const BYTES_PER_MB = 1024 * 1024
+
+// ============================================================================
+// MAVLink framing
+// ============================================================================
+
+const HEARTBEAT_MESSAGE_ID = 0
+const MAV_AUTOPILOT_INVALID = 8
+const MAV_MODE_FLAG_SAFETY_ARMED = 0x80
+
+/**
+ * Splits a byte stream into MAVLink v1 and v2 frames.
+ *
+ * Link reads don't follow frame boundaries (serial and TCP split and merge them), so incomplete frames are kept
+ * until the rest arrives. Bytes before a start marker are dropped. Checksums are not verified, as that needs the
+ * CRC extra of every message; tlog readers skip corrupted frames.
+ */
+export class MavlinkFrameSplitter {
+  private buffer = new Uint8Array(0)
+
+  /**
+   * Add bytes and return the frames they complete.
+   * @param {Uint8Array} data - Bytes read from or written to a link
+   * @returns {Uint8Array[]} Complete frames, in order
+   */
+  push(data: Uint8Array): Uint8Array[] {
+    const buffer = new Uint8Array(this.buffer.length + data.length)
+    buffer.set(this.buffer)
+    buffer.set(data, this.buffer.length)
+
+    const frames: Uint8Array[] = []
+    let offset = 0
+    while (offset < buffer.length) {
+      const stx = buffer[offset]
+      if (stx !== MAVLINK_V1_STX && stx !== MAVLINK_V2_STX) {
+        offset++
+        continue
+      }
+      const frameLength = mavlinkFrameLength(buffer, offset)
+      if (frameLength === null || buffer.length - offset < frameLength) break
+
+      frames.push(buffer.slice(offset, offset + frameLength))
+      offset += frameLength
+    }
+
+    this.buffer = buffer.slice(offset)
+    return frames
+  }
+}
+
+/**
+ * Armed state reported by an autopilot HEARTBEAT.
+ * @param {Uint8Array} frame - Complete MAVLink frame
+ * @returns {boolean | null} Whether the vehicle is armed, or null when the frame isn't an autopilot HEARTBEAT
+ */
+export function heartbeatArmedState(frame: Uint8Array): boolean | null {
+  if (mavlinkFrameHeader(frame).messageId !== HEARTBEAT_MESSAGE_ID) return null
+
+  // MAVLink 2 drops trailing zero bytes of the payload, so missing fields are zero
+  const payloadStart = frame[0] === MAVLINK_V1_STX ? 6 : 10
+  const payloadLength = frame[1]
+  const payloadByte = (index: number): number => (index < payloadLength ? frame[payloadStart + index] : 0)
+
+  // GCSs, cameras and other components send HEARTBEATs with an invalid autopilot
+  if (payloadByte(5) === MAV_AUTOPILOT_INVALID) return null
+  return (payloadByte(6) & MAV_MODE_FLAG_SAFETY_ARMED) !== 0
+}
+
+/**
+ * Encode a frame as a tlog record.
+ * @param {Uint8Array} frame - Complete MAVLink frame
+ * @param {number} timestampMs - Reception time (ms since the Unix epoch)
+ * @returns {Buffer} Big-endian timestamp in microseconds followed by the frame
+ */
+export function encodeTlogRecord(frame: Uint8Array, timestampMs: number): Buffer {
+  const record = Buffer.alloc(8 + frame.length)
+  record.writeBigUInt64BE(BigInt(Math.round(timestampMs * 1000)))
+  record.set(frame, 8)
+  return record
+}
+
+/**
+ * Name of a tlog file started at a given time, in local time as QGroundControl does.
+ * @param {Date} date - Start time
+ * @returns {string} e.g. '2025-01-01 12-00-00.tlog'
+ */
+export function tlogFilename(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0')
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  const time = `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`
+  return `${day} ${time}${TLOG_EXTENSION}`
+}
+
+// ============================================================================
+// Recorder
+// ============================================================================
+
+/**
+ * File being recorded
+ */
+interface OpenTlogFile {
+  /**
+   * File name
+   */
+  name: string
+  /**
+   * Write stream of the file
+   */
+  stream: WriteStream
+  /**
+   * Bytes written so far
+   */
+  bytes: number
+}
+
+/**
+ * Records the frames of the vehicle links to tlog files
+ */
+export class TlogRecorder {
+  private settings: TlogRecordingSettings = { ...DEFAULT_TLOG_SETTINGS }
+  private splitters = new Map<string, MavlinkFrameSplitter>()
+  private armed = false
+  private file: OpenTlogFile | null = null
+  private closingFiles = new Set<Promise<void>>()
+  private openError: string | null = null
+  private lastName = { baseName: '', index: 0 }
+  private statusListeners: ((status: TlogRecorderStatus) => void)[] = []
+  private lastNotified = { mode: this.settings.mode, recording: false }
+
+  /**
+   * Create a recorder
+   * @param {string} directory - Folder holding the tlog files
+   */
+  constructor(readonly directory: string) {}
+
+  /**
+   * Current settings, armed state and file
+   * @returns {TlogRecorderStatus} Status
+   */
+  get status(): TlogRecorderStatus {
+    return {
+      settings: { ...this.settings },
+      armed: this.armed,
+      recording: this.shouldRecord(),
+      currentFile: this.file?.name ?? null,
+      directory: this.directory,
+      error: this.openError,
+    }
+  }
+
+  /**
+   * Call a function whenever the mode changes or the frames start or stop being recorded
+   * @param {(status: TlogRecorderStatus) => void} listener - Called with the new status
+   */
+  onStatusChange(listener: (status: TlogRecorderStatus) => void): void {
+    this.statusListeners.push(listener)
+  }
+
+  /**
+   * Change the settings. The current file is closed if frames shouldn't be recorded anymore.
+   * @param {Partial<TlogRecordingSettings>} settings - Settings to change
+   */
+  updateSettings(settings: Partial<TlogRecordingSettings>): void {
+    this.settings = { ...this.settings, ...settings }
+    this.openError = null
+    if (this.settings.mode === 'disabled') {
+      this.splitters.clear()
+      this.armed = false
+    }
+    if (!this.shouldRecord()) this.closeFile()
+    this.notifyStatusChange()
+  }
+
+  /**
+   * Record the bytes read from or written to a link.
+   * @param {string} path - Link path
+   * @param {Uint8Array} data - Bytes
+   * @param {'in' | 'out'} direction - Read from ('in') or written to ('out') the link
+   * @param {number} now - Reception time (ms since the Unix epoch)
+   */
+  handleLinkData(path: string, data: Uint8Array, direction: 'in' | 'out', now = Date.now()): void {
+    if (this.settings.mode === 'disabled') return
+
+    const key = `${direction}:${path}`
+    let splitter = this.splitters.get(key)
+    if (!splitter) {
+      splitter = new MavlinkFrameSplitter()
+      this.splitters.set(key, splitter)
+    }
+
+    for (const frame of splitter.push(data)) {
+      const armed = direction === 'in' ? heartbeatArmedState(frame) : null
+      if (armed !== null) this.armed = armed
+
+      if (this.shouldRecord()) {
+        this.write(frame, now)
+      } else if (this.file) {
+        // Keep the disarming HEARTBEAT at the end of the file
+        this.write(frame, now)
+        this.closeFile()
+      }
+    }
+    this.notifyStatusChange()
+  }
+
+  /**
+   * Forget a closed link. The current file is closed when no link is left.
+   * @param {string} path - Link path
+   */
+  closeLink(path: string): void {
+    this.splitters.delete(`in:${path}`)
+    this.splitters.delete(`out:${path}`)
+    if (this.splitters.size > 0) return
+    this.armed = false
+    this.closeFile()
+    this.notifyStatusChange()
+  }
+
+  /**
+   * List the tlog files, newest first.
+   * @returns {Promise<TlogFileInfo[]>} Files
+   */
+  async listFiles(): Promise<TlogFileInfo[]> {
+    let names: string[]
+    try {
+      names = (await fs.readdir(this.directory)).filter((name) => name.endsWith(TLOG_EXTENSION))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const stats = await fs.stat(join(this.directory, name))
+        return {
+          name,
+          sizeBytes: stats.size,
+          modifiedAt: stats.mtime.toISOString(),
+          recording: name === this.file?.name,
+        }
+      })
+    )
+    return files.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt) || b.name.localeCompare(a.name))
+  }
+
+  /**
+   * Delete a tlog file.
+   * @param {string} name - File name
+   */
+  async deleteFile(name: string): Promise<void> {
+    const path = this.filePath(name)
+    if (name === this.file?.name) {
+      throw new Error('Cannot delete the tlog file being recorded')
+    }
+    await fs.unlink(path)
+  }
+
+  /**
+   * Read a tlog file. The file being recorded is read as written so far.
+   * @param {string} name - File name
+   * @returns {Promise<Uint8Array>} Content of the file
+   */
+  async readFile(name: string): Promise<Uint8Array> {
+    return await fs.readFile(this.filePath(name))
+  }
+
+  /**
+   * Close the current file and wait for every closed file to be written.
+   */
+  async stop(): Promise<void> {
+    this.closeFile()
+    await Promise.all(this.closingFiles)
+  }
+
+  /**
+   * Path of a file of the tlog folder
+   * @param {string} name - File name
+   * @returns {string} Path
+   */
+  private filePath(name: string): string {
+    if (basename(name) !== name || !name.endsWith(TLOG_EXTENSION)) {
+      throw new Error(`Not a tlog file: ${name}`)
+    }
+    return join(this.directory, name)
+  }
+
+  /**
+   * Whether frames should be written now
+   * @returns {boolean}
+   */
+  private shouldRecord(): boolean {
+    if (this.openError) return false
+    return this.settings.mode === 'always' || (this.settings.mode === 'armed' && this.armed)
+  }
+
+  /**
+   * Tell the listeners if the mode changed or the frames started or stopped being recorded
+   */
+  private notifyStatusChange(): void {
+    const recording = this.shouldRecord()
+    if (this.settings.mode === this.lastNotified.mode && recording === this.lastNotified.recording) return
+    this.lastNotified = { mode: this.settings.mode, recording }
+    const status = this.status
+    this.statusListeners.forEach((listener) => listener(status))
+  }
+
+  /**
+   * Write a frame, starting a new file when there is none or the current one is full.
+   * @param {Uint8Array} frame - MAVLink frame
+   * @param {number} now - Reception time (ms since the Unix epoch)
+   */
+  private write(frame: Uint8Array, now: number): void {
+    const maxFileBytes = this.settings.maxFileSizeMb * BYTES_PER_MB
+    if (this.file && maxFileBytes > 0 && this.file.bytes >= maxFileBytes) this.closeFile()
+    if (!this.file) {
+      try {
+        this.openFile(now)
+      } catch (error: any) {
+        console.error('[Tlog] Failed to create a tlog file:', error)
+        this.openError = error.message
+        return
+      }
+    }
+
+    const record = encodeTlogRecord(frame, now)
+    this.file!.stream.write(record)
+    this.file!.bytes += record.length
+  }
+
+  /**
+   * Start a new file, then delete the oldest ones if the folder is over its size limit.
+   * @param {number} now - Start time (ms since the Unix epoch)
+   */
+  private openFile(now: number): void {
+    mkdirSync(this.directory, { recursive: true })
+
+    // Files started in the same second (rotation) get an increasing suffix, even when older ones were pruned. The
+    // file is created here, not when the stream opens, so the next rotation sees it.
+    const baseName = tlogFilename(new Date(now)).slice(0, -TLOG_EXTENSION.length)
+    let index = baseName === this.lastName.baseName ? this.lastName.index + 1 : 1
+    let name = ''
+    let fd: number | undefined
+    while (fd === undefined) {
+      name = index === 1 ? `${baseName}${TLOG_EXTENSION}` : `${baseName}_${index}${TLOG_EXTENSION}`
+      try {
+        fd = openSync(join(this.directory, name), 'wx')
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error
+        index++
+      }
+    }
+    this.lastName = { baseName, index }
+
+    const stream = createWriteStream(join(this.directory, name), { fd })
+    stream.on('error', (error) => console.error(`[Tlog] Failed to write ${name}:`, error))
+    this.file = { name, stream, bytes: 0 }
+    console.log(`[Tlog] Recording ${name}`)
+
+    this.pruneFiles().catch((error) => console.error('[Tlog] Failed to delete old tlog files:', error))
+  }
+
+  /**
+   * Close the current file, if any.
+   */
+  private closeFile(): void {
+    if (!this.file) return
+    console.log(`[Tlog] Closed ${this.file.name} (${this.file.bytes} bytes)`)
+    const { stream } = this.file
+    const closing = new Promise<void>((resolve) => stream.once('close', () => resolve()))
+    this.closingFiles.add(closing)
+    closing.then(() => this.closingFiles.delete(closing))
+    stream.end()
+    this.file = null
+  }
+
+  /**
+   * Delete the oldest files until the others leave room for a full current file under the folder size limit.
+   */
+  private async pruneFiles(): Promise<void> {
+    const maxTotalBytes = this.settings.maxTotalSizeMb * BYTES_PER_MB
+    if (maxTotalBytes <= 0) return
+
+    // The current file is still being written, so a full file is budgeted for it
+    const budgetBytes = maxTotalBytes - this.settings.maxFileSizeMb * BYTES_PER_MB
+    const closedFiles = (await this.listFiles()).filter((file) => !file.recording)
+    let totalBytes = closedFiles.reduce((total, file) => total + file.sizeBytes, 0)
+    for (const file of closedFiles.reverse()) {
+      if (totalBytes <= budgetBytes) break
+      await fs.unlink(join(this.directory, file.name))
+      totalBytes -= file.sizeBytes
+      console.log(`[Tlog] Deleted ${file.name} to stay under ${this.settings.maxTotalSizeMb} MB`)
+    }
+  }
+}
+
+export const tlogRecorder = new TlogRecorder(join(cockpitFolderPath, 'tlogs'))
+
+// ============================================================================
+// IPC
+// ============================================================================
+
+/**
+ * Load the saved tlog settings and set up the tlog IPC handlers
+ */
+export function setupTlogRecorderService(): void {
+  tlogRecorder.updateSettings(store.get('tlogRecording') ?? {})
+
+  // NOTE: The renderer only encodes and forwards the WebSocket messages the recorder needs
+  tlogRecorder.onStatusChange((status) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('tlog:status-changed', status)
+    })
+  })
+
+  ipcMain.handle('tlog:get-status', () => {
+    return { success: true, data: tlogRecorder.status }
+  })
+
+  ipcMain.handle('tlog:set-settings', (_event, settings: Partial<TlogRecordingSettings>) => {
+    try {
+      tlogRecorder.updateSettings(settings)
+      store.set('tlogRecording', tlogRecorder.status.settings)
+      return { success: true, data: tlogRecorder.status }
+    } catch (error: any) {
+      console.error('[Tlog] Failed to save settings:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('tlog:list-files', async () => {
+    try {
+      return { success: true, data: await tlogRecorder.listFiles() }
+    } catch (error: any) {
+      console.error('[Tlog] Failed to list tlog files:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('tlog:delete-file', async (_event, name: string) => {
+    try {
+      await tlogRecorder.deleteFile(name)
+      return { success: true }
+    } catch (error: any) {
+      console.error('[Tlog] Failed to delete tlog file:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('tlog:read-file', async (_event, name: string) => {
+    try {
+      return { success: true, data: await tlogRecorder.readFile(name) }
+    } catch (error: any) {
+      console.error('[Tlog] Failed to read tlog file:', error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('tlog:open-folder', async () => {
+    const error = await shell.openPath(tlogRecorder.directory)
+    return error ? { success: false, error } : { success: true }
+  })
+
+  // Links the renderer opened itself, e.g. WebSocket ones
+  ipcMain.on('tlog:link-data', (_event, { path, data, direction, timestampMs }) => {
+    tlogRecorder.handleLinkData(path, data, direction, timestampMs)
+  })
+
+  ipcMain.on('tlog:close-link', (_event, path: string) => {
+    tlogRecorder.closeLink(path)
+  })
+}
@@ -0,0 +1,166 @@
+/**
+ * Evaluation of user alert rules on Data Lake variables.
+ *
+ * Each rule keeps a small state fed with the values of its variable (recordAlertRuleValue) and evaluated on every
+ * new value and periodically (evaluateAlertRule), so durations and staleness are noticed without new values.
+ *
+ * A rule is raised once its condition has held for its duration, and cleared as soon as the value goes back past
+ * the threshold by more than the hysteresis. It is not raised again until it has cleared.
+ */
+
+import type { AlertRule, AlertRuleCondition } from '@/types/alert'
+
+/**
+ * Running state of an alert rule
+ */
+export interface AlertRuleState {
+  /**
+   * Last value of the variable, as a number
+   */
+  value: number | null
+  /**
+   * Rate of change between the last two values (units per second)
+   */
+  rate: number | null
+  /**
+   * When the last value was received (ms), or when the rule started watching
+   */
+  lastUpdate: number
+  /**
+   * When the condition started to hold (ms), while the rule is not raised
+   */
+  pendingSince: number | null
+  /**
+   * Whether the alert is raised
+   */
+  active: boolean
+}
+
+/**
+ * Change of a rule after an evaluation
+ */
+export type AlertRuleTransition = 'raised' | 'cleared'
+
+/**
+ * Names of the conditions, for the configuration
+ */
+export const alertRuleConditionNames: Record<AlertRuleCondition, string> = {
+  'above': 'Above',
+  'below': 'Below',
+  'equal': 'Equal to',
+  'not-equal': 'Not equal to',
+  'rate-above': 'Rate of change above',
+  'rate-below': 'Rate of change below',
+  'stale': 'Not updated for',
+}
+
+/**
+ * Create the state of a rule starting to watch its variable.
+ * @param now - Current time (ms)
+ * @returns State with no value
+ */
+export function createAlertRuleState(now: number): AlertRuleState {
+  return { value: null, rate: null, lastUpdate: now, pendingSince: null, active: false }
+}
+
+/**
+ * Convert a Data Lake value to a number (booleans count as 1 and 0).
+ * @param value - Value of the variable
+ * @returns Number, or null for a non-numeric value
+ */
+function toNumber(value: string | number | boolean): number | null {
+  const number = typeof value === 'boolean' ? Number(value) : typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Record a new value of the rule's variable. Non-numeric values only count as an update.
+ * @param state - State of the rule
+ * @param value - New value
+ * @param now - When the value was received (ms)
+ */
+export function recordAlertRuleValue(state: AlertRuleState, value: string | number | boolean, now: number): void {
+  const number = toNumber(value)
+  if (number !== null) {
+    if (state.value !== null && now > state.lastUpdate) {
+      state.rate = ((number - state.value) * 1000) / (now - state.lastUpdate)
+    }
+    state.value = number
+  }
+  state.lastUpdate = now
+}
+
+/**
+ * Whether the condition of a rule holds. A raised rule uses the threshold moved back by the hysteresis.
+ * @param rule - Alert rule
+ * @param state - State of the rule
+ * @param now - Current time (ms)
+ * @returns Whether the condition holds (false without a value to compare)
+ */
+export function alertRuleConditionHolds(rule: AlertRule, state: AlertRuleState, now: number): boolean {
+  const margin = state.active ? Math.abs(rule.hysteresis) : 0
+
+  switch (rule.condition) {
+    case 'stale':
+      return now - state.lastUpdate > rule.threshold * 1000
+    case 'above':
+      return state.value !== null && state.value > rule.threshold - margin
+    case 'below':
+      return state.value !== null && state.value < rule.threshold + margin
+    case 'equal':
+      return state.value === rule.threshold
+    case 'not-equal':
+      return state.value !== null && state.value !== rule.threshold
+    case 'rate-above':
+      return state.rate !== null && state.rate > rule.threshold - margin
+    case 'rate-below':
+      return state.rate !== null && state.rate < rule.threshold + margin
+  }
+}
+
+/**
+ * Evaluate a rule and update its state.
+ * @param rule - Alert rule
+ * @param state - State of the rule
+ * @param now - Current time (ms)
+ * @returns 'raised' or 'cleared' when the rule changed, null otherwise
+ */
+export function evaluateAlertRule(rule: AlertRule, state: AlertRuleState, now: number): AlertRuleTransition | null {
+  const holds = alertRuleConditionHolds(rule, state, now)
+
+  if (state.active) {
+    if (holds) return null
+    state.active = false
+    state.pendingSince = null
+    return 'cleared'
+  }
+
+  if (!holds) {
+    state.pendingSince = null
+    return null
+  }
+
+  state.pendingSince ??= now
+  if (now - state.pendingSince < rule.durationS * 1000) return null
+
+  state.active = true
+  return 'raised'
+}
+
+/**
+ * Describe the condition of a rule, e.g. 'depth > 80 for 10 s'.
+ * @param rule - Alert rule
+ * @returns Description
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  const condition = {
+    'above': `${rule.variableId} > ${rule.threshold}`,
+    'below': `${rule.variableId} < ${rule.threshold}`,
+    'equal': `${rule.variableId} = ${rule.threshold}`,
+    'not-equal': `${rule.variableId} ≠ ${rule.threshold}`,
+    'rate-above': `${rule.variableId} changing faster than ${rule.threshold}/s`,
+    'rate-below': `${rule.variableId} changing slower than ${rule.threshold}/s`,
+    'stale': `${rule.variableId} not updated for ${rule.threshold} s`,
+  }[rule.condition]
+  return rule.durationS > 0 && rule.condition !== 'stale' ? `${condition} for ${rule.durationS} s` : condition
+}
@@ -1,16 +1,93 @@
+import type { Package } from '@/libs/connection/m2r/messages/mavlink2rest'
+import { MavAutopilot, MavComponent, MAVLinkType } from '@/libs/connection/m2r/messages/mavlink2rest-enum'
+import type { Message } from '@/libs/connection/m2r/messages/mavlink2rest-message'
 import { Signal } from '@/libs/signal'
 import * as Protocol from '@/libs/vehicle/protocol/protocol'
 
 import * as Connection from './connection'
 import { ElectronConnection } from './electron-connection'
+import { electMainLink, LinkHealth, LinkHealthMonitor, MessageDeduplicator, messageKey } from './link-health'
+import { ReplayConnection } from './replay-connection'
+import { closeTlogLink, forwardToTlogRecorder } from './tlog-forwarding'
 import { WebSocketConnection } from './websocket-connection'
 
+/**
+ * How often the main link is elected
+ */
+const linkCheckIntervalMs = 1000
+
+/**
+ * How often the latency of each link is measured
+ */
+const latencyProbeIntervalMs = 5000
+
+/**
+ * A vehicle link and its health
+ */
+interface Link {
+  /**
+   * Connection of the link
+   */
+  connection: Connection.Abstract
+  /**
+   * Whether this is the configured vehicle connection, the others being backups
+   */
+  primary: boolean
+  /**
+   * Health of the link
+   */
+  health: LinkHealthMonitor
+  /**
+   * Last TIMESYNC probe sent on the link
+   */
+  probe?: {
+    /**
+     * Time of the probe, echoed by the vehicle (ns)
+     */
+    ts1: number
+    /**
+     * When the probe was sent (ms since the Unix epoch)
+     */
+    sentAtMs: number
+  }
+}
+
+/**
+ * State of a vehicle link
+ */
+export interface LinkStatus {
+  /**
+   * Connection URI
+   */
+  uri: string
+  /**
+   * Whether this is the configured vehicle connection, the others being backups
+   */
+  primary: boolean
+  /**
+   * Whether the link is the one written to
+   */
+  main: boolean
+  /**
+   * Health of the link
+   */
+  health: LinkHealth
+}
+
 /**
  * Manager to handle multiple connections
+ *
+ * All links are read at once: messages received on several of them are forwarded once. Writes go to the main link,
+ * which fails over to the highest priority healthy link when it stops receiving HEARTBEATs. The primary connection
+ * comes first, then the backups in the order they were added.
  */
 export class ConnectionManager {
-  private static _connections: Connection.Abstract[] = []
+  private static _links: Link[] = []
   private static _mainConnection: WeakRef<Connection.Abstract> | undefined = undefined
+  private static _deduplicator = new MessageDeduplicator()
+  private static _linkCheckTimer: ReturnType<typeof setInterval> | undefined = undefined
+  private static _textDecoder = new TextDecoder()
+  private static _textEncoder = new TextEncoder()
 
   // Signals
   static onMainConnection = new Signal<WeakRef<Connection.Abstract>>()
@@ -18,20 +95,28 @@ export class ConnectionManager {
   static onWrite = new Signal<Uint8Array>()
 
   /**
-   * Return the connections available
+   * Return the connections available, primary first
    * @returns {Connection.Abstract[]}
    */
   static connections(): Connection.Abstract[] {
-    console.warn('This function should not be used, only a single connection is supported for now')
-    return ConnectionManager._connections
+    return ConnectionManager._links.map((link) => link.connection)
   }
 
   /**
    * Add a specific connection
+   *
+   * A new primary connection replaces the previous one, while backups are added to the other links.
    * @param  {Connection.URI} uri
    * @param  {Protocol.Type} vehicleProtocol
+   * @param  {boolean} backup - Whether the connection is a backup link
    */
-  static addConnection(uri: Connection.URI, vehicleProtocol: Protocol.Type): void {
+  static addConnection(uri: Connection.URI, vehicleProtocol: Protocol.Type, backup = false): void {
+    const existingLink = ConnectionManager._links.find((link) => link.connection.uri().toString() === uri.toString())
+    if (existingLink) {
+      if (!backup && !existingLink.primary) ConnectionManager._promoteToPrimary(existingLink)
+      return
+    }
+
     let connection = undefined
     switch (uri.type()) {
       case Connection.Type.WebSocket:
@@ -46,43 +131,135 @@ export class ConnectionManager {
         connection = new ElectronConnection(uri, vehicleProtocol)
         connection.initialize()
         break
+      case Connection.Type.Replay:
+        if (backup) {
+          unimplemented('a replay cannot be a backup link')
+          return
+        }
+        connection = new ReplayConnection(uri, vehicleProtocol)
+        connection.initialize()
+        break
 
       default:
         unimplemented(`connection type not supported: ${uri.type()}`)
         return
     }
 
-    ConnectionManager._addConnection(connection)
+    ConnectionManager._addConnection(connection, backup)
   }
 
   /**
-   * Add a connection on connection manager
+   * Disconnect and forget a connection
    * @param  {Connection.Abstract} connection
    */
-  private static _addConnection(connection: Connection.Abstract): void {
-    ConnectionManager._connections.push(connection)
-    unimplemented(
-      'Needs to handle multiple connections and change the main connection when necessary.' +
-        'This can be done by checking the data coming from the connection and changing after a timeout.'
-    )
-    ConnectionManager._updateMainConnection()
+  static removeConnection(connection: Connection.Abstract): void {
+    const link = ConnectionManager._links.find((item) => item.connection === connection)
+    if (!link) return
+
+    ConnectionManager._links = ConnectionManager._links.filter((item) => item !== link)
+    connection.onRead.clear()
+    connection.onWrite.clear()
+    connection.disconnect()
+    if (connection instanceof WebSocketConnection) closeTlogLink(connection.uri().toString())
+
+    if (ConnectionManager._mainConnection?.deref() === connection) {
+      const nextConnection = ConnectionManager._links.first()?.connection
+      if (nextConnection) ConnectionManager._setMainConnection(nextConnection)
+      else ConnectionManager._mainConnection = undefined
+    }
   }
 
   /**
-   * Update the main connection if necessary
-   * @returns {void}
+   * Return the main connection used as data source
+   * @returns {Connection.Abstract}
    */
-  private static _updateMainConnection(): void {
-    const connection = ConnectionManager._connections.last() ?? undefined
-    const previousConnection = ConnectionManager._mainConnection?.deref()
-    if (connection === undefined || connection === previousConnection) {
-      return
+  static mainConnection(): Connection.Abstract | undefined {
+    return ConnectionManager._mainConnection?.deref()
+  }
+
+  /**
+   * Return the configured vehicle connection, even while a backup link is the main one
+   * @returns {Connection.Abstract}
+   */
+  static primaryConnection(): Connection.Abstract | undefined {
+    return ConnectionManager._links.find((link) => link.primary)?.connection
+  }
+
+  /**
+   * Return the state of every link, primary first
+   * @returns {LinkStatus[]}
+   */
+  static linkStatuses(): LinkStatus[] {
+    const now = Date.now()
+    const mainConnection = ConnectionManager.mainConnection()
+    return ConnectionManager._links.map((link) => ({
+      uri: link.connection.uri().toString(),
+      primary: link.primary,
+      main: link.connection === mainConnection,
+      health: link.health.health(now),
+    }))
+  }
+
+  /**
+   * Write data to main connection
+   * @param  {Uint8Array} data
+   * @returns {boolean}
+   */
+  static write(data: Uint8Array): boolean {
+    const mainConnection = ConnectionManager.mainConnection()
+    if (mainConnection) ConnectionManager._writeLink(mainConnection, data)
+    ConnectionManager.onWrite.emit_value(data)
+    return true
+  }
+
+  /**
+   * Add a connection on connection manager
+   * @param  {Connection.Abstract} connection
+   * @param  {boolean} backup - Whether the connection is a backup link
+   */
+  private static _addConnection(connection: Connection.Abstract, backup: boolean): void {
+    const link: Link = { connection, primary: !backup, health: new LinkHealthMonitor(Date.now()) }
+    connection.onRead.add((data: Uint8Array) => ConnectionManager._onLinkRead(link, data))
+    // NOTE: The desktop app records the links it opens itself, WebSocket ones are forwarded to it
+    if (connection instanceof WebSocketConnection) {
+      connection.onRead.add((data: Uint8Array) => forwardToTlogRecorder(connection.uri().toString(), data, 'in'))
     }
+    connection.onWrite.add((data: Uint8Array) => {
+      if (connection === ConnectionManager.mainConnection()) ConnectionManager.onWrite.emit_value(data)
+    })
+
+    if (backup) {
+      ConnectionManager._links.push(link)
+      if (!ConnectionManager.mainConnection()) ConnectionManager._setMainConnection(connection)
+    } else {
+      const previousPrimary = ConnectionManager._links.find((item) => item.primary)
+      ConnectionManager._links.unshift(link)
+      ConnectionManager._setMainConnection(connection)
+      if (previousPrimary) ConnectionManager.removeConnection(previousPrimary.connection)
+    }
+
+    ConnectionManager._linkCheckTimer ??= setInterval(() => ConnectionManager._checkLinks(), linkCheckIntervalMs)
+  }
+
+  /**
+   * Make a backup link the primary one, replacing the current primary
+   * @param {Link} link
+   */
+  private static _promoteToPrimary(link: Link): void {
+    const previousPrimary = ConnectionManager._links.find((item) => item.primary)
+    ConnectionManager._links = [link, ...ConnectionManager._links.filter((item) => item !== link)]
+    link.primary = true
+    ConnectionManager._setMainConnection(link.connection)
+    if (previousPrimary) ConnectionManager.removeConnection(previousPrimary.connection)
+  }
+
+  /**
+   * Change the main connection
+   * @param {Connection.Abstract} connection
+   */
+  private static _setMainConnection(connection: Connection.Abstract): void {
+    if (connection === ConnectionManager.mainConnection()) return
 
-    previousConnection?.onRead?.clear()
-    previousConnection?.onWrite?.clear()
-    connection.onRead.add((data: Uint8Array) => this.onRead.emit_value(data))
-    connection.onWrite.add((data: Uint8Array) => this.onWrite.emit_value(data))
     ConnectionManager._mainConnection = new WeakRef(connection)
     // There is no constructor and updating the register is not expensive in this function
     ConnectionManager.onMainConnection.register_caller(
@@ -93,23 +270,132 @@ export class ConnectionManager {
   }
 
   /**
-   * Return the main connection used as data source
-   * @returns {Connection.Abstract}
+   * Whether only the main connection should be read, as during replays
+   * @returns {boolean}
    */
-  static mainConnection(): Connection.Abstract | undefined {
-    // Be sure that we have a valid connection
-    ConnectionManager._updateMainConnection()
-    return ConnectionManager._mainConnection?.deref()
+  private static _isReplaying(): boolean {
+    return ConnectionManager.mainConnection()?.uri().type() === Connection.Type.Replay
   }
 
   /**
-   * Write data to main connection
-   * @param  {Uint8Array} data
-   * @returns {boolean}
+   * Handle data read on a link: monitor it and forward the messages not already received on another link
+   * @param {Link} link
+   * @param {Uint8Array} data
    */
-  static write(data: Uint8Array): boolean {
-    ConnectionManager.mainConnection()?.write(data)
-    ConnectionManager.onWrite.emit_value(data)
-    return true
+  private static _onLinkRead(link: Link, data: Uint8Array): void {
+    const isMainLink = link.connection === ConnectionManager.mainConnection()
+    // NOTE: A replay shows the past, so what the backup links receive from the vehicle meanwhile is ignored
+    if (ConnectionManager._isReplaying()) {
+      if (isMainLink) ConnectionManager.onRead.emit_value(data)
+      return
+    }
+
+    let pack: Package
+    try {
+      pack = JSON.parse(ConnectionManager._textDecoder.decode(data)) as Package
+    } catch (error) {
+      // Not a MAVLink message, e.g. the acknowledgement of a write by mavlink2rest
+      if (isMainLink) ConnectionManager.onRead.emit_value(data)
+      return
+    }
+    if (pack?.header === undefined || pack.message === undefined) {
+      if (isMainLink) ConnectionManager.onRead.emit_value(data)
+      return
+    }
+
+    const now = Date.now()
+    const { system_id, component_id, sequence } = pack.header
+    const heartbeat = pack.message.type === MAVLinkType.HEARTBEAT ? (pack.message as Message.Heartbeat) : undefined
+    link.health.recordMessage(
+      {
+        systemId: system_id,
+        componentId: component_id,
+        sequence,
+        isAutopilotHeartbeat:
+          heartbeat?.autopilot.type !== undefined && heartbeat.autopilot.type !== MavAutopilot.MAV_AUTOPILOT_INVALID,
+      },
+      now
+    )
+
+    if (pack.message.type === MAVLinkType.TIMESYNC) {
+      const timesync = pack.message as Message.Timesync
+      if (link.probe !== undefined && timesync.ts1 === link.probe.ts1 && timesync.tc1 !== 0) {
+        link.health.recordLatency((now - link.probe.sentAtMs) / 2, now)
+        link.probe = undefined
+        return
+      }
+    }
+
+    // NOTE: Links relay the frames of the vehicle as they are, so copies share the sequence number and content of the
+    // original
+    if (ConnectionManager._links.length > 1) {
+      const key = messageKey(system_id, component_id, sequence, JSON.stringify(pack.message))
+      if (ConnectionManager._deduplicator.isDuplicate(key, link, now)) return
+    }
+    ConnectionManager.onRead.emit_value(data)
+  }
+
+  /**
+   * Probe the latency of the links and elect the main one
+   */
+  private static _checkLinks(): void {
+    if (ConnectionManager._isReplaying()) return
+    const now = Date.now()
+
+    // Latency only matters to compare links, so a lone link isn't probed
+    if (ConnectionManager._links.length > 1) {
+      ConnectionManager._links.forEach((link, index) => {
+        // Unanswered probes are replaced too
+        if (link.probe !== undefined && now - link.probe.sentAtMs < latencyProbeIntervalMs) return
+        ConnectionManager._sendLatencyProbe(link, index)
+      })
+    }
+
+    const mainConnection = ConnectionManager.mainConnection()
+    const currentIndex = ConnectionManager._links.findIndex((link) => link.connection === mainConnection)
+    const healths = ConnectionManager._links.map((link) => link.health.health(now))
+    const electedIndex = electMainLink(healths, currentIndex, now)
+    if (electedIndex === -1 || electedIndex === currentIndex) return
+
+    const electedConnection = ConnectionManager._links[electedIndex].connection
+    const previousURI = mainConnection?.uri().toString() ?? 'none'
+    console.warn(`[Links] Main link changed from ${previousURI} to ${electedConnection.uri().toString()}`)
+    ConnectionManager._setMainConnection(electedConnection)
+  }
+
+  /**
+   * Send a TIMESYNC request on a link, answered by the vehicle on the same link
+   * @param {Link} link
+   * @param {number} index - Index of the link, so that probes sent together differ
+   */
+  private static _sendLatencyProbe(link: Link, index: number): void {
+    const ts1 = Math.floor(performance.now() * 1e6) + index
+    const timeSyncMessage: Message.Timesync = {
+      type: MAVLinkType.TIMESYNC,
+      tc1: 0,
+      ts1,
+      target_system: 0,
+      target_component: 0,
+    }
+    const pack: Package = {
+      header: {
+        system_id: 255, // GCS system ID
+        component_id: Number(MavComponent.MAV_COMP_ID_UDP_BRIDGE),
+        sequence: 0,
+      },
+      message: timeSyncMessage,
+    }
+    link.probe = { ts1, sentAtMs: Date.now() }
+    ConnectionManager._writeLink(link.connection, ConnectionManager._textEncoder.encode(JSON.stringify(pack)))
+  }
+
+  /**
+   * Write data to a link, recording it when the desktop app doesn't
+   * @param {Connection.Abstract} connection
+   * @param {Uint8Array} data
+   */
+  private static _writeLink(connection: Connection.Abstract, data: Uint8Array): void {
+    connection.write(data)
+    if (connection instanceof WebSocketConnection) forwardToTlogRecorder(connection.uri().toString(), data, 'out')
   }
 }
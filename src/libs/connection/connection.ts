@@ -17,6 +17,8 @@ export enum Type {
   UdpBroadcast = 'udpbcast',
   TcpIn = 'tcpin',
   TcpOut = 'tcpout',
+  // Offline replay of a tlog file, in the desktop version
+  Replay = 'replay',
   None = 'none',
 }
 
@@ -0,0 +1,326 @@
+/**
+ * Health of the vehicle links and election of the main one
+ *
+ * Every link is monitored from the messages it receives:
+ * - heartbeat rate: autopilot HEARTBEATs per second, and whether one arrived recently (link healthy)
+ * - loss: gaps in the sequence numbers of each sender
+ * - latency: half the round trip of TIMESYNC probes sent on the link, when there are backup links
+ *
+ * The main link is the one written to. It is only replaced when it stops being healthy, and a higher priority link
+ * only takes over again once it has stayed healthy for a while, so flaky links don't make it bounce.
+ */
+
+/**
+ * Time without autopilot HEARTBEAT after which a link is unhealthy
+ */
+export const heartbeatTimeoutMs = 3000
+
+/**
+ * Time a higher priority link has to stay healthy before it becomes the main link again
+ */
+export const switchBackDelayMs = 10000
+
+/**
+ * Period over which rates and loss are computed
+ */
+const statisticsWindowMs = 5000
+
+/**
+ * Age after which a latency measurement is no longer reported
+ */
+const latencyTimeoutMs = 15000
+
+/**
+ * Health of a link
+ */
+export interface LinkHealth {
+  /**
+   * Whether an autopilot HEARTBEAT was received in the last `heartbeatTimeoutMs`
+   */
+  healthy: boolean
+  /**
+   * Since when the link is healthy (ms since the Unix epoch), null when it isn't
+   */
+  healthySinceMs: number | null
+  /**
+   * Time without autopilot HEARTBEAT, counted from when the link was added if none was received (ms)
+   */
+  silentForMs: number
+  /**
+   * Autopilot HEARTBEATs per second
+   */
+  heartbeatRateHz: number
+  /**
+   * Messages per second
+   */
+  messageRateHz: number
+  /**
+   * Share of messages lost, from 0 to 100
+   */
+  lossPercent: number
+  /**
+   * One-way latency, from the last TIMESYNC round trip (ms), null when unknown
+   */
+  latencyMs: number | null
+}
+
+/**
+ * Header fields of a received message used to monitor a link
+ */
+export interface LinkMessageInfo {
+  /**
+   * System id of the sender
+   */
+  systemId: number
+  /**
+   * Component id of the sender
+   */
+  componentId: number
+  /**
+   * Sequence number, when the transport provides it
+   */
+  sequence?: number
+  /**
+   * Whether the message is a HEARTBEAT of an autopilot
+   */
+  isAutopilotHeartbeat: boolean
+}
+
+/**
+ * Message counts of one second
+ */
+interface LinkStatisticsBucket {
+  /**
+   * Second since the Unix epoch
+   */
+  second: number
+  /**
+   * Messages received
+   */
+  messages: number
+  /**
+   * Messages missing from the sequence numbers
+   */
+  lost: number
+  /**
+   * Autopilot HEARTBEATs received
+   */
+  heartbeats: number
+}
+
+/**
+ * A latency measurement of a link
+ */
+interface LatencyMeasurement {
+  /**
+   * One-way latency (ms)
+   */
+  valueMs: number
+  /**
+   * When it was measured (ms since the Unix epoch)
+   */
+  measuredAtMs: number
+}
+
+/**
+ * Keeps the health of a link from the messages it receives
+ */
+export class LinkHealthMonitor {
+  private buckets: LinkStatisticsBucket[] = []
+  private sequences = new Map<string, number>()
+  private lastHeartbeatMs: number | null = null
+  private healthySinceMs: number | null = null
+  private latency: LatencyMeasurement | null = null
+
+  /**
+   * Create a monitor for a new link
+   * @param {number} addedAtMs - When the link was added (ms since the Unix epoch)
+   */
+  constructor(private addedAtMs: number) {}
+
+  /**
+   * Account for a received message
+   * @param {LinkMessageInfo} message - Header fields of the message
+   * @param {number} now - Reception time (ms since the Unix epoch)
+   */
+  recordMessage(message: LinkMessageInfo, now: number): void {
+    const bucket = this.bucket(now)
+    bucket.messages++
+
+    if (message.sequence !== undefined) {
+      const sender = `${message.systemId}/${message.componentId}`
+      const lastSequence = this.sequences.get(sender)
+      if (lastSequence !== undefined) {
+        const gap = (message.sequence - lastSequence - 1 + 256) % 256
+        // Larger gaps come from a restarted sender or reordered messages, not from losses
+        if (gap < 128) bucket.lost += gap
+      }
+      this.sequences.set(sender, message.sequence)
+    }
+
+    if (!message.isAutopilotHeartbeat) return
+    bucket.heartbeats++
+    if (!this.isHealthy(now)) this.healthySinceMs = now
+    this.lastHeartbeatMs = now
+  }
+
+  /**
+   * Account for a latency measurement
+   * @param {number} latencyMs - One-way latency (ms)
+   * @param {number} now - Measurement time (ms since the Unix epoch)
+   */
+  recordLatency(latencyMs: number, now: number): void {
+    this.latency = { valueMs: latencyMs, measuredAtMs: now }
+  }
+
+  /**
+   * Current health of the link
+   * @param {number} now - Current time (ms since the Unix epoch)
+   * @returns {LinkHealth}
+   */
+  health(now: number): LinkHealth {
+    const oldestSecond = Math.floor((now - statisticsWindowMs) / 1000)
+    this.buckets = this.buckets.filter((bucket) => bucket.second > oldestSecond)
+    const total = this.buckets.reduce(
+      (sum, bucket) => ({
+        messages: sum.messages + bucket.messages,
+        lost: sum.lost + bucket.lost,
+        heartbeats: sum.heartbeats + bucket.heartbeats,
+      }),
+      { messages: 0, lost: 0, heartbeats: 0 }
+    )
+    const healthy = this.isHealthy(now)
+    const windowS = statisticsWindowMs / 1000
+    const latencyIsRecent = this.latency !== null && now - this.latency.measuredAtMs <= latencyTimeoutMs
+
+    return {
+      healthy,
+      healthySinceMs: healthy ? this.healthySinceMs : null,
+      silentForMs: now - (this.lastHeartbeatMs ?? this.addedAtMs),
+      heartbeatRateHz: total.heartbeats / windowS,
+      messageRateHz: total.messages / windowS,
+      lossPercent: total.messages + total.lost > 0 ? (100 * total.lost) / (total.messages + total.lost) : 0,
+      latencyMs: latencyIsRecent ? this.latency!.valueMs : null,
+    }
+  }
+
+  /**
+   * Whether an autopilot HEARTBEAT was received recently
+   * @param {number} now - Current time (ms since the Unix epoch)
+   * @returns {boolean}
+   */
+  private isHealthy(now: number): boolean {
+    return this.lastHeartbeatMs !== null && now - this.lastHeartbeatMs <= heartbeatTimeoutMs
+  }
+
+  /**
+   * Counts of the second holding a given time
+   * @param {number} now - Time (ms since the Unix epoch)
+   * @returns {LinkStatisticsBucket}
+   */
+  private bucket(now: number): LinkStatisticsBucket {
+    const second = Math.floor(now / 1000)
+    let bucket = this.buckets[this.buckets.length - 1]
+    if (bucket?.second !== second) {
+      bucket = { second, messages: 0, lost: 0, heartbeats: 0 }
+      this.buckets.push(bucket)
+      // Buckets are otherwise only dropped when the health is read
+      if (this.buckets.length > 2 * (statisticsWindowMs / 1000)) this.buckets.shift()
+    }
+    return bucket
+  }
+}
+
+/**
+ * A message forwarded by the deduplicator
+ */
+interface SeenMessage {
+  /**
+   * Link the message was received on
+   */
+  link: object
+  /**
+   * Reception time (ms)
+   */
+  timeMs: number
+}
+
+/**
+ * Identity of a message for the deduplicator: its sender, sequence number and a hash of its content
+ *
+ * The 8-bit sequence number wraps within the deduplication window on fast links, so it doesn't tell messages apart
+ * by itself. Copies relayed by other links have the same content.
+ * @param {number} systemId - Sender system
+ * @param {number} componentId - Sender component
+ * @param {number} sequence - Sequence number
+ * @param {string} message - Message content, e.g. its mavlink2rest JSON
+ * @returns {string} Key
+ */
+export function messageKey(systemId: number, componentId: number, sequence: number, message: string): string {
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5
+  for (let index = 0; index < message.length; index++) {
+    hash = Math.imul(hash ^ message.charCodeAt(index), 0x01000193)
+  }
+  return `${systemId}/${componentId}/${sequence}/${(hash >>> 0).toString(16)}`
+}
+
+/**
+ * Drops the copies of messages received on several links
+ *
+ * A message is a copy when the same message, identified with messageKey, was forwarded from another link shortly
+ * before. Repeated messages of a single link are never dropped.
+ */
+export class MessageDeduplicator {
+  private seen = new Map<string, SeenMessage>()
+
+  /**
+   * Create a deduplicator
+   * @param {number} windowMs - Time during which a message received on another link is a copy. Slow links, such as
+   * acoustic ones, deliver copies late.
+   */
+  constructor(private windowMs = 2000) {}
+
+  /**
+   * Check whether a message is a copy, remembering it otherwise
+   * @param {string} key - Identity of the message, see messageKey
+   * @param {object} link - Link the message was received on
+   * @param {number} now - Reception time (ms)
+   * @returns {boolean} Whether the message was already received on another link
+   */
+  isDuplicate(key: string, link: object, now: number): boolean {
+    // Entries are in reception order, as they are deleted before being set again
+    for (const [seenKey, entry] of this.seen) {
+      if (now - entry.timeMs <= this.windowMs) break
+      this.seen.delete(seenKey)
+    }
+
+    const previous = this.seen.get(key)
+    if (previous && previous.link !== link) return true
+
+    this.seen.delete(key)
+    this.seen.set(key, { link, timeMs: now })
+    return false
+  }
+}
+
+/**
+ * Choose the main link
+ * @param {LinkHealth[]} links - Health of the links, highest priority first
+ * @param {number} currentIndex - Index of the current main link, -1 if there is none
+ * @param {number} now - Current time (ms since the Unix epoch)
+ * @returns {number} Index of the link that should be the main one, -1 if there is none
+ */
+export function electMainLink(links: LinkHealth[], currentIndex: number, now: number): number {
+  const firstHealthy = links.findIndex((link) => link.healthy)
+  if (firstHealthy === -1) return currentIndex
+
+  // A link that was just added gets the time to receive its first HEARTBEAT
+  const current = links[currentIndex]
+  if (current === undefined || current.silentForMs > heartbeatTimeoutMs) return firstHealthy
+
+  const steadyBetterLink = links.findIndex(
+    (link, index) => index < currentIndex && link.healthy && now - link.healthySinceMs! >= switchBackDelayMs
+  )
+  return steadyBetterLink === -1 ? currentIndex : steadyBetterLink
+}
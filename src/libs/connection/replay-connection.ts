@@ -0,0 +1,204 @@
+import init, { ParserEmitter } from 'mavlink2rest-wasm'
+// @ts-ignore
+import wasmUrl from 'mavlink2rest-wasm/mavlink2rest_wasm_bg.wasm?url'
+
+import { TlogPlayer } from '@/libs/tlog-player'
+import { decodeTlog, mavlinkFrameHeader } from '@/utils/tlog'
+
+import * as Connection from './connection'
+
+const TICK_INTERVAL_MS = 50
+
+/**
+ * System ID of ground control stations, Cockpit included
+ */
+const GCS_SYSTEM_ID = 255
+
+/**
+ * State of a replay
+ */
+export interface ReplayStatus {
+  /**
+   * Name of the replayed tlog file
+   */
+  fileName: string
+  /**
+   * Whether the file was read and can be played
+   */
+  loaded: boolean
+  /**
+   * Why the file couldn't be replayed
+   */
+  error: string | null
+  /**
+   * Whether the replay is playing
+   */
+  playing: boolean
+  /**
+   * Playback speed, 1 being real time
+   */
+  speed: number
+  /**
+   * Position, in ms from the start of the tlog
+   */
+  positionMs: number
+  /**
+   * Length of the tlog, in ms
+   */
+  durationMs: number
+  /**
+   * Time of the first frame (ms since the Unix epoch)
+   */
+  startTimeMs: number
+}
+
+/**
+ * Connection replaying a tlog file of the desktop tlog folder, e.g. 'replay:///2025-01-01%2012-00-00.tlog'
+ *
+ * Recorded frames are decoded to mavlink2rest JSON, as ElectronConnection does for live links, and read at their
+ * recorded pace. Nothing is ever written: there is no vehicle behind a replay.
+ */
+export class ReplayConnection extends Connection.Abstract {
+  private _player: TlogPlayer | undefined
+  private _mavlink2rest: ParserEmitter | undefined
+  private _timer: ReturnType<typeof setInterval> | undefined
+  private _error: string | null = null
+  private _textEncoder = new TextEncoder()
+
+  /**
+   * Read the tlog file and start playing it
+   */
+  async initialize(): Promise<void> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Replay is only available in desktop version')
+      }
+
+      const result = await window.electronAPI.tlogReadFile(this.fileName())
+      if (!result.success || !result.data) {
+        throw new Error(result.error ?? 'empty file')
+      }
+      const records = decodeTlog(new Uint8Array(result.data))
+      if (records.length === 0) {
+        throw new Error('no MAVLink frames found')
+      }
+
+      await init(wasmUrl)
+      this._mavlink2rest = new ParserEmitter()
+      this._player = new TlogPlayer(records, (frames) => this.processFrames(frames))
+      this._player.play(Date.now())
+      this._timer = setInterval(() => this._player?.tick(Date.now()), TICK_INTERVAL_MS)
+    } catch (error) {
+      console.error(`[Replay] Failed to replay ${this.fileName()}:`, error)
+      this._error = `Failed to replay ${this.fileName()}: ${(error as Error).message}`
+    }
+  }
+
+  /**
+   * Name of the replayed tlog file
+   * @returns {string}
+   */
+  fileName(): string {
+    return decodeURIComponent(this.uri().pathname.replace(/^\/+/, ''))
+  }
+
+  /**
+   * Current state of the replay
+   * @returns {ReplayStatus}
+   */
+  status(): ReplayStatus {
+    const now = Date.now()
+    return {
+      fileName: this.fileName(),
+      loaded: this._player !== undefined,
+      error: this._error,
+      playing: this._player?.playing ?? false,
+      speed: this._player?.speed ?? 1,
+      positionMs: this._player?.position(now) ?? 0,
+      durationMs: this._player?.durationMs ?? 0,
+      startTimeMs: this._player?.startMs ?? 0,
+    }
+  }
+
+  /**
+   * Start or resume playing
+   */
+  play(): void {
+    this._player?.play(Date.now())
+  }
+
+  /**
+   * Pause, keeping the position
+   */
+  pause(): void {
+    this._player?.pause(Date.now())
+  }
+
+  /**
+   * Jump to a position
+   * @param {number} positionMs - Position, in ms from the start of the tlog
+   */
+  seek(positionMs: number): void {
+    this._player?.seek(positionMs, Date.now())
+  }
+
+  /**
+   * Change the playback speed
+   * @param {number} speed - Speed, 1 being real time
+   */
+  setSpeed(speed: number): void {
+    this._player?.setSpeed(speed, Date.now())
+  }
+
+  /**
+   * Stop the replay
+   * @returns {boolean}
+   */
+  disconnect(): boolean {
+    clearInterval(this._timer)
+    this._timer = undefined
+    this._player = undefined
+    return true
+  }
+
+  /**
+   * Nothing to connect to, replays start once initialized
+   * @returns {boolean}
+   */
+  connect(): boolean {
+    return true
+  }
+
+  /**
+   * Check if the replay is running
+   * @returns {boolean}
+   */
+  isConnected(): boolean {
+    return this._player !== undefined
+  }
+
+  /**
+   * Drop data written to the replay
+   * @returns {boolean}
+   */
+  write(): boolean {
+    return false
+  }
+
+  /**
+   * Decode replayed frames and emit them as read data
+   *
+   * Tlogs hold the frames written to the vehicle too. They are skipped, as they were sent, not received, by the
+   * ground control station.
+   * @param {Uint8Array[]} frames - MAVLink frames
+   */
+  private processFrames(frames: Uint8Array[]): void {
+    for (const frame of frames) {
+      if (mavlinkFrameHeader(frame).systemId === GCS_SYSTEM_ID) continue
+      this._mavlink2rest?.parser(frame)
+      this._mavlink2rest?.emit((mavlink_json: string) => {
+        this.onRead.emit_value(this._textEncoder.encode(mavlink_json))
+      })
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import init, { ParserEmitter } from 'mavlink2rest-wasm'
+// @ts-ignore
+import wasmUrl from 'mavlink2rest-wasm/mavlink2rest_wasm_bg.wasm?url'
+
+import type { TlogRecorderStatus } from '@/electron/services/tlog-recorder'
+
+/**
+ * Encoder of mavlink2rest JSON to MAVLink frames, loaded on the first forwarded message. Resolves to null when it
+ * couldn't be loaded.
+ */
+let encoder: Promise<ParserEmitter | null> | undefined = undefined
+
+/**
+ * Status of the desktop tlog recorder, undefined until it is known
+ */
+let recorderStatus: TlogRecorderStatus | undefined = undefined
+
+/**
+ * Whether the recorder status is being watched
+ */
+let watchingRecorder = false
+
+/**
+ * Keep the recorder status up to date: the desktop app pushes its changes, the first one is asked for
+ */
+function watchRecorderStatus(): void {
+  if (watchingRecorder || !window.electronAPI) return
+  watchingRecorder = true
+  window.electronAPI.onTlogStatusChange((status: TlogRecorderStatus) => (recorderStatus = status))
+  window.electronAPI
+    .tlogGetStatus()
+    .then((result) => {
+      // A pushed status is newer than the answer
+      if (result.success && recorderStatus === undefined) recorderStatus = result.data
+    })
+    .catch((error) => console.error('[Tlog] Failed to get the recorder status:', error))
+}
+
+/**
+ * Whether the recorder needs a message, so the others aren't encoded and sent over IPC
+ * @param {string} message - mavlink2rest JSON message
+ * @param {'in' | 'out'} direction - Read from ('in') or written to ('out') the link
+ * @returns {boolean}
+ */
+function isNeededByRecorder(message: string, direction: 'in' | 'out'): boolean {
+  if (recorderStatus === undefined || recorderStatus.settings.mode === 'disabled') return false
+  if (recorderStatus.recording) return true
+  if (recorderStatus.settings.mode !== 'armed' || direction !== 'in') return false
+
+  // The recorder starts on the arming HEARTBEAT, so those keep being forwarded while it waits. The messages read
+  // before it tells it started are lost, like the ones read before the vehicle armed.
+  try {
+    return JSON.parse(message)?.message?.type === 'HEARTBEAT'
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Forward a message read from or written to a WebSocket link to the desktop tlog recorder
+ *
+ * Links opened by the desktop app are recorded from their raw bytes in the main process, but WebSocket links only
+ * carry mavlink2rest JSON, so their messages are encoded back to MAVLink frames here. Messages that aren't MAVLink,
+ * e.g. the acknowledgement of a write by mavlink2rest, and those the recorder doesn't need are skipped.
+ * @param {string} uri - Link URI, used as the link path by the recorder
+ * @param {Uint8Array} data - mavlink2rest JSON message
+ * @param {'in' | 'out'} direction - Read from ('in') or written to ('out') the link
+ */
+export function forwardToTlogRecorder(uri: string, data: Uint8Array, direction: 'in' | 'out'): void {
+  if (!window.electronAPI) return
+  watchRecorderStatus()
+
+  const message = new TextDecoder().decode(data)
+  if (!isNeededByRecorder(message, direction)) return
+
+  const receivedAtMs = Date.now()
+  const loadedEncoder =
+    encoder ??
+    init(wasmUrl)
+      .then(() => new ParserEmitter())
+      .catch((error) => {
+        console.error('[Tlog] Failed to load the MAVLink encoder, WebSocket links will not be recorded:', error)
+        return null
+      })
+  encoder = loadedEncoder
+  // NOTE: Messages wait for the same promise, so they are forwarded in the order they were read or written
+  loadedEncoder.then((mavlink2rest: ParserEmitter | null) => {
+    if (!mavlink2rest) return
+    let frame: Uint8Array
+    try {
+      frame = mavlink2rest.rest2mavlink(message)
+    } catch (error) {
+      return
+    }
+    window.electronAPI?.tlogRecordLinkData(uri, frame, direction, receivedAtMs)
+  })
+}
+
+/**
+ * Tell the desktop tlog recorder that a WebSocket link was removed
+ * @param {string} uri - Link URI
+ */
+export function closeTlogLink(uri: string): void {
+  window.electronAPI?.tlogCloseLink(uri)
+}
@@ -7,6 +7,7 @@ import * as Connection from './connection'
  */
 export class WebSocketConnection extends Connection.Abstract {
   _socket: WebSocket
+  private _closed = false
   private _textEncoder = new TextEncoder()
   private _textDecoder = new TextDecoder()
 
@@ -26,7 +27,8 @@ export class WebSocketConnection extends Connection.Abstract {
    * @returns {boolean}
    */
   disconnect(): boolean {
-    unimplemented()
+    this._closed = true
+    this._socket.close()
     return true
   }
 
@@ -78,8 +80,10 @@ export class WebSocketConnection extends Connection.Abstract {
       }
     }
     socket.onclose = () => {
+      // Reconnect unless the connection was removed
+      if (this._closed) return
       setTimeout(() => {
-        this._socket = this.createSocket(uri)
+        if (!this._closed) this._socket = this.createSocket(uri)
       }, 2000)
     }
     return socket
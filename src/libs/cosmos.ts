@@ -4,6 +4,7 @@ import { type ElectronLog } from '@/types/electron-general'
 import { ElectronStorageDB } from '@/types/general'
 import type { ElectronSDLJoystickControllerStateEventData } from '@/types/joystick'
 import { NetworkInfo } from '@/types/network'
+import type { QSensorFusionOptions } from '@/types/qsensor'
 import { SDLStatus } from '@/types/sdl'
 import type { SerialData } from '@/types/serial'
 import type { FileDialogOptions, FileStats } from '@/types/storage'
@@ -469,6 +470,10 @@ declare global {
              *
              */
             surfaceRows: number | null
+            /**
+             * Rows with a value from each sensor, keyed by sensor id
+             */
+            sensorRows?: Record<string, number> | null
             /**
              *
              */
@@ -495,8 +500,12 @@ declare global {
       /**
        * Manually trigger fusion for an existing session
        * @param sessionRoot - Path to the unified session root directory
+       * @param fusionOptions - Options to fuse with, defaults for the missing ones
        */
-      qsensorTriggerManualFusion: (sessionRoot: string) => Promise<{
+      qsensorTriggerManualFusion: (
+        sessionRoot: string,
+        fusionOptions?: Partial<QSensorFusionOptions>
+      ) => Promise<{
         /**
          *
          */
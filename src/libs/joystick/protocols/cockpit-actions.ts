@@ -19,6 +19,14 @@ export enum CockpitActionsFunction {
   toggle_recording_all_streams = 'toggle_recording_all_streams',
   take_snapshot = 'take_snapshot',
   hold_to_confirm = 'hold_to_confirm',
+  start_qsensor_recording = 'start_qsensor_recording',
+  stop_qsensor_recording = 'stop_qsensor_recording',
+  start_qsensor_recording_in_water = 'start_qsensor_recording_in_water',
+  stop_qsensor_recording_in_water = 'stop_qsensor_recording_in_water',
+  start_qsensor_recording_surface = 'start_qsensor_recording_surface',
+  stop_qsensor_recording_surface = 'stop_qsensor_recording_surface',
+  insert_qsensor_sync_marker = 'insert_qsensor_sync_marker',
+  capture_qsensor_dark = 'capture_qsensor_dark',
 }
 
 /**
@@ -50,6 +58,14 @@ export const predefinedCockpitActions: { [key in CockpitActionsFunction]: Cockpi
   [CockpitActionsFunction.toggle_recording_all_streams]: new CockpitAction(CockpitActionsFunction.toggle_recording_all_streams, 'Toggle recording all streams'),
   [CockpitActionsFunction.take_snapshot]: new CockpitAction(CockpitActionsFunction.take_snapshot, 'Take snapshot'),
   [CockpitActionsFunction.hold_to_confirm]: new CockpitAction(CockpitActionsFunction.hold_to_confirm, 'Hold to confirm'),
+  [CockpitActionsFunction.start_qsensor_recording]: new CockpitAction(CockpitActionsFunction.start_qsensor_recording, 'Start recording all Q-Sensors'),
+  [CockpitActionsFunction.stop_qsensor_recording]: new CockpitAction(CockpitActionsFunction.stop_qsensor_recording, 'Stop recording all Q-Sensors'),
+  [CockpitActionsFunction.start_qsensor_recording_in_water]: new CockpitAction(CockpitActionsFunction.start_qsensor_recording_in_water, 'Start recording in-water Q-Sensor'),
+  [CockpitActionsFunction.stop_qsensor_recording_in_water]: new CockpitAction(CockpitActionsFunction.stop_qsensor_recording_in_water, 'Stop recording in-water Q-Sensor'),
+  [CockpitActionsFunction.start_qsensor_recording_surface]: new CockpitAction(CockpitActionsFunction.start_qsensor_recording_surface, 'Start recording surface Q-Sensor'),
+  [CockpitActionsFunction.stop_qsensor_recording_surface]: new CockpitAction(CockpitActionsFunction.stop_qsensor_recording_surface, 'Stop recording surface Q-Sensor'),
+  [CockpitActionsFunction.insert_qsensor_sync_marker]: new CockpitAction(CockpitActionsFunction.insert_qsensor_sync_marker, 'Insert Q-Sensor sync marker'),
+  [CockpitActionsFunction.capture_qsensor_dark]: new CockpitAction(CockpitActionsFunction.capture_qsensor_dark, 'Capture Q-Sensor dark'),
 }
 
 export type CockpitActionCallback = () => void
@@ -0,0 +1,140 @@
+/**
+ * Q-Sensor Cockpit actions.
+ *
+ * Registers callbacks for the Q-Sensor Cockpit actions, so recording, sync markers and dark capture can be
+ * mapped to joystick buttons, auto-run and action links without opening the Q-Series view.
+ *
+ * Actions:
+ * - start_qsensor_recording / stop_qsensor_recording: every sensor, in one unified session (startAll/stopAll)
+ * - start/stop_qsensor_recording_in_water, start/stop_qsensor_recording_surface: one sensor
+ * - insert_qsensor_sync_marker: shared sync marker in every recording sensor
+ * - capture_qsensor_dark: dark capture on every connected sensor that is not recording (sensors capped)
+ *
+ * The outcome of each action is shown in a snackbar.
+ */
+
+import { useSnackbar } from '@/composables/snackbar'
+import {
+  availableCockpitActions,
+  CockpitAction,
+  registerActionCallback,
+} from '@/libs/joystick/protocols/cockpit-actions'
+import { useQSensorStore } from '@/stores/qsensor'
+import { isSensorRecording } from '@/stores/qsensor-common'
+import type { QSensorId } from '@/types/qsensor'
+
+/**
+ * Minimum interval between two runs of the same action, so a bouncing button doesn't queue requests
+ */
+const actionThrottleMs = 3000
+
+/**
+ * Dark capture duration, as in the dark capture panel
+ */
+const darkCaptureDurationS = 10
+
+const { openSnackbar } = useSnackbar()
+
+/**
+ * Run an action and report its outcome.
+ * @param label - What the action does, e.g. 'started recording'
+ * @param run - Action, resolving to its errors
+ */
+async function runAction(label: string, run: () => Promise<string[]>): Promise<void> {
+  let errors: string[]
+  try {
+    errors = await run()
+  } catch (error: any) {
+    errors = [error.message]
+  }
+
+  if (errors.length === 0) {
+    openSnackbar({ variant: 'success', message: `Q-Sensor: ${label}.` })
+  } else {
+    console.warn(`[QSensor Actions] "${label}" failed:`, errors)
+    openSnackbar({ variant: 'error', message: `Q-Sensor: ${label} failed. ${errors.join('; ')}` })
+  }
+}
+
+/**
+ * Start or stop recording one sensor, with the mission name of the session controls.
+ * @param sensorId - 'inWater' or 'surface'
+ * @param start - Start (true) or stop (false) recording
+ * @returns Errors
+ */
+async function setSensorRecording(sensorId: QSensorId, start: boolean): Promise<string[]> {
+  const store = useQSensorStore()
+  const sensor = store.getSensor(sensorId)
+  if (!sensor) return [`Unknown sensor: ${sensorId}`]
+  if (start === isSensorRecording(sensor)) {
+    return [`${sensor.label} sensor is ${start ? 'already' : 'not'} recording`]
+  }
+
+  const result = start
+    ? await store.startRecordingSensor(sensorId, { mission: store.globalMissionName })
+    : await store.stopRecordingSensor(sensorId)
+  return result.success ? [] : [result.error || 'Unknown error']
+}
+
+/**
+ * Capture dark on every connected sensor that is not recording.
+ * @returns Errors
+ */
+async function captureDark(): Promise<string[]> {
+  const store = useQSensorStore()
+  const idle = Array.from(store.sensors.values()).filter((sensor) => sensor.isConnected && !isSensorRecording(sensor))
+  if (idle.length === 0) return ['No connected sensor is idle']
+
+  const results = await Promise.all(idle.map((sensor) => store.captureDark(sensor.sensorId, darkCaptureDurationS)))
+  return results.flatMap((result, index) => (result.success ? [] : [`${idle[index].label}: ${result.error}`]))
+}
+
+/**
+ * Register a throttled callback for an action. The callback resolves once the action has run.
+ * @param action - Cockpit action
+ * @param label - What the action does
+ * @param run - Action, resolving to its errors
+ */
+function registerAction(action: CockpitAction, label: string, run: () => Promise<string[]>): void {
+  let lastRunAt = -Infinity
+  registerActionCallback(action, async () => {
+    const now = Date.now()
+    if (now - lastRunAt < actionThrottleMs) return
+    lastRunAt = now
+    await runAction(label, run)
+  })
+}
+
+/**
+ * Register the callbacks of every Q-Sensor action. Call once at startup.
+ */
+export function registerQSensorCockpitActions(): void {
+  const store = useQSensorStore()
+
+  registerAction(availableCockpitActions.start_qsensor_recording, 'started recording', async () => {
+    if (store.isAnyRecording) return ['A sensor is already recording']
+    return (await store.startAll({ mission: store.globalMissionName })).errors
+  })
+  registerAction(availableCockpitActions.stop_qsensor_recording, 'stopped recording', async () => {
+    if (!store.isAnyRecording) return ['No sensor is recording']
+    return (await store.stopAll()).errors
+  })
+  registerAction(availableCockpitActions.start_qsensor_recording_in_water, 'started in-water recording', () =>
+    setSensorRecording('inWater', true)
+  )
+  registerAction(availableCockpitActions.stop_qsensor_recording_in_water, 'stopped in-water recording', () =>
+    setSensorRecording('inWater', false)
+  )
+  registerAction(availableCockpitActions.start_qsensor_recording_surface, 'started surface recording', () =>
+    setSensorRecording('surface', true)
+  )
+  registerAction(availableCockpitActions.stop_qsensor_recording_surface, 'stopped surface recording', () =>
+    setSensorRecording('surface', false)
+  )
+  registerAction(
+    availableCockpitActions.insert_qsensor_sync_marker,
+    'sync marker inserted',
+    async () => (await store.insertSyncMarker()).errors
+  )
+  registerAction(availableCockpitActions.capture_qsensor_dark, 'dark captured', captureDark)
+}
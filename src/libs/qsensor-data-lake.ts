@@ -0,0 +1,134 @@
+/**
+ * Q-Sensor Data Lake publishing.
+ *
+ * Exposes live Q-Sensor readings as Data Lake variables so widgets (Plotter, VeryGenericIndicator),
+ * alerts and actions can use them like any MAVLink variable.
+ *
+ * Variable ids:
+ * - qsensor/<sensorId>/value  (irradiance, primary channel)
+ * - qsensor/<sensorId>/TempC  (temperature, when reported)
+ * - qsensor/<sensorId>/Vin    (input voltage, when reported)
+ * - qsensor/ratio             (in-water value / surface value)
+ *
+ * Sensors added beyond the default in-water/surface pair register their variables with
+ * registerQSensorSensorVariables.
+ *
+ * Both backends feed the same variables: serial readings are pushed from the main process,
+ * HTTP readings are pulled during status polling.
+ */
+
+import {
+  createDataLakeVariable,
+  DataLakeVariable,
+  getDataLakeVariableData,
+  getDataLakeVariableInfo,
+  setDataLakeVariableData,
+} from '@/libs/actions/data-lake'
+import type { QSensorId, QSensorLiveReading } from '@/types/qsensor'
+
+/**
+ * Reading fields published per sensor
+ */
+export type QSensorDataLakeField = 'value' | 'TempC' | 'Vin'
+
+export const qsensorRatioVariableId = 'qsensor/ratio'
+
+const sensorLabels: Record<QSensorId, string> = {
+  inWater: 'In-water',
+  surface: 'Surface',
+}
+
+const fieldNames: Record<QSensorDataLakeField, string> = {
+  value: 'Value',
+  TempC: 'Temperature',
+  Vin: 'Input Voltage',
+}
+
+const fieldDescriptions: Record<QSensorDataLakeField, string> = {
+  value: 'Latest irradiance reading (primary channel).',
+  TempC: 'Latest sensor temperature in °C.',
+  Vin: 'Latest sensor input voltage in V.',
+}
+
+/**
+ * Get the Data Lake variable id for a sensor field
+ * @param {QSensorId} sensorId - The sensor the variable belongs to
+ * @param {QSensorDataLakeField} field - The reading field
+ * @returns {string} The variable id, e.g. 'qsensor/inWater/value'
+ */
+export function qsensorDataLakeVariableId(sensorId: QSensorId, field: QSensorDataLakeField): string {
+  return `qsensor/${sensorId}/${field}`
+}
+
+/**
+ * Register the Data Lake variables of one sensor. Variables that already exist are left untouched.
+ * @param {QSensorId} sensorId - The sensor the variables belong to
+ * @param {string} sensorLabel - Display name of the sensor, e.g. 'Up-looking'
+ */
+export function registerQSensorSensorVariables(sensorId: QSensorId, sensorLabel: string): void {
+  const variables: DataLakeVariable[] = []
+
+  for (const field of Object.keys(fieldNames) as QSensorDataLakeField[]) {
+    variables.push({
+      id: qsensorDataLakeVariableId(sensorId, field),
+      name: `Q-Sensor ${sensorLabel} ${fieldNames[field]}`,
+      type: 'number',
+      description: `${fieldDescriptions[field]} Updated live from the ${sensorLabel.toLowerCase()} sensor.`,
+    })
+  }
+
+  registerMissingVariables(variables)
+}
+
+/**
+ * Register the Q-Sensor variables in the Data Lake. Variables that already exist are left untouched.
+ */
+export function registerQSensorDataLakeVariables(): void {
+  for (const sensorId of Object.keys(sensorLabels)) {
+    registerQSensorSensorVariables(sensorId, sensorLabels[sensorId])
+  }
+
+  registerMissingVariables([
+    {
+      id: qsensorRatioVariableId,
+      name: 'Q-Sensor In-water/Surface Ratio',
+      type: 'number',
+      description: 'Ratio between the latest in-water and surface irradiance readings.',
+    },
+  ])
+}
+
+/**
+ * Create the given variables, skipping the ones already in the Data Lake
+ * @param {DataLakeVariable[]} variables - The variables to create
+ */
+function registerMissingVariables(variables: DataLakeVariable[]): void {
+  variables.forEach((variable) => {
+    if (getDataLakeVariableInfo(variable.id) === undefined) {
+      createDataLakeVariable(variable)
+    }
+  })
+}
+
+/**
+ * Publish a live reading to the Data Lake and refresh the in-water/surface ratio
+ * @param {QSensorId} sensorId - The sensor that produced the reading
+ * @param {QSensorLiveReading} reading - The reading to publish
+ */
+export function publishQSensorReading(sensorId: QSensorId, reading: QSensorLiveReading): void {
+  if (!Number.isFinite(reading.value)) return
+
+  setDataLakeVariableData(qsensorDataLakeVariableId(sensorId, 'value'), reading.value)
+  if (reading.TempC !== undefined && Number.isFinite(reading.TempC)) {
+    setDataLakeVariableData(qsensorDataLakeVariableId(sensorId, 'TempC'), reading.TempC)
+  }
+  if (reading.Vin !== undefined && Number.isFinite(reading.Vin)) {
+    setDataLakeVariableData(qsensorDataLakeVariableId(sensorId, 'Vin'), reading.Vin)
+  }
+
+  const inWaterValue = getDataLakeVariableData(qsensorDataLakeVariableId('inWater', 'value'))
+  const surfaceValue = getDataLakeVariableData(qsensorDataLakeVariableId('surface', 'value'))
+  if (typeof inWaterValue === 'number' && typeof surfaceValue === 'number' && surfaceValue !== 0) {
+    setDataLakeVariableData(qsensorRatioVariableId, inWaterValue / surfaceValue)
+  }
+}
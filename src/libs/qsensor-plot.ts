@@ -0,0 +1,98 @@
+/**
+ * Helpers for the live Q-Sensor irradiance plot widget.
+ *
+ * Samples are kept with their wall-clock arrival time so the widget can draw them on a scrolling
+ * time axis. Scaling supports linear and log10 axes; non-positive values cannot be shown on a log
+ * axis and are skipped.
+ */
+
+/**
+ * A value received at a given time
+ */
+export interface TimedSample {
+  /**
+   * Arrival time (ms since epoch)
+   */
+  timestamp: number
+  /**
+   * Sample value
+   */
+  value: number
+}
+
+/**
+ * Value range of a trace
+ */
+export interface SampleRange {
+  /**
+   * Smallest plottable value
+   */
+  min: number
+  /**
+   * Largest plottable value
+   */
+  max: number
+}
+
+/**
+ * Drop samples older than the given timestamp, keeping the last one before it so lines can enter
+ * from the edge of the plot. Samples are expected in arrival order.
+ * @param {T[]} samples - The samples to prune (modified in place)
+ * @param {number} oldestTimestamp - Start of the visible window
+ */
+export function pruneSamples<T extends Pick<TimedSample, 'timestamp'>>(samples: T[], oldestTimestamp: number): void {
+  const firstInWindow = samples.findIndex((sample) => sample.timestamp >= oldestTimestamp)
+  const keepFrom = firstInWindow === -1 ? samples.length - 1 : firstInWindow - 1
+  if (keepFrom > 0) {
+    samples.splice(0, keepFrom)
+  }
+}
+
+/**
+ * Whether a value can be drawn on the chosen axis
+ * @param {number} value - The value to check
+ * @param {boolean} logScale - Whether the axis is logarithmic
+ * @returns {boolean} True if the value can be plotted
+ */
+export function isPlottable(value: number, logScale: boolean): boolean {
+  return Number.isFinite(value) && (!logScale || value > 0)
+}
+
+/**
+ * Get the min/max of the plottable values of one or more traces
+ * @param {TimedSample[][]} traces - The traces to consider
+ * @param {boolean} logScale - Whether the axis is logarithmic
+ * @returns {SampleRange | null} The range, or null if there is nothing to plot
+ */
+export function sampleRange(traces: TimedSample[][], logScale: boolean): SampleRange | null {
+  let min = Infinity
+  let max = -Infinity
+  traces.forEach((samples) => {
+    samples.forEach(({ value }) => {
+      if (!isPlottable(value, logScale)) return
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+    })
+  })
+  return min === Infinity ? null : { min, max }
+}
+
+/**
+ * Get the position of a value inside a range, from 0 (bottom) to 1 (top).
+ * A 5% margin is added on both ends, and flat ranges are centered.
+ * @param {number} value - The value to position
+ * @param {SampleRange} range - The range of the axis
+ * @param {boolean} logScale - Whether the axis is logarithmic
+ * @returns {number | null} The fraction of the axis height, or null if the value can't be plotted
+ */
+export function scaleValue(value: number, range: SampleRange, logScale: boolean): number | null {
+  if (!isPlottable(value, logScale)) return null
+
+  const transform = (v: number): number => (logScale ? Math.log10(v) : v)
+  const min = transform(range.min)
+  const max = transform(range.max)
+  if (max === min) return 0.5
+
+  const buffer = 0.05 * (max - min)
+  return (transform(value) - (min - buffer)) / (max - min + 2 * buffer)
+}
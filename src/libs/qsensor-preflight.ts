@@ -0,0 +1,220 @@
+/**
+ * Pre-flight configuration check for multi-sensor Q-Sensor recordings.
+ *
+ * Fusion divides in-water values by surface values row by row, so both sensors have to sample the
+ * same way: a sensor averaging 12 readings at 16 Hz next to one streaming 125 Hz freerun gives a
+ * ratio that mixes different integration windows. Before recording, every connected sensor is
+ * compared to a reference sensor and the differences are reported with a severity. A serial
+ * sensor can be reconfigured to match the reference through the regular apply-config path.
+ */
+
+import type { QSeriesEditableConfig } from '@/electron/services/qsensor-protocol'
+import { VALID_ADC_RATES, VALID_TAGS } from '@/electron/services/qsensor-protocol'
+import type {
+  QSensorConfigData,
+  QSensorId,
+  QSensorPreflightIssue,
+  QSensorPreflightResult,
+  QSensorPreflightSensor,
+  QSensorPreflightSeverity,
+  QSensorState,
+} from '@/types/qsensor'
+
+/**
+ * Relative output rate difference tolerated between two freerun sensors
+ */
+export const PREFLIGHT_RATE_TOLERANCE = 0.05
+
+const SEVERITY_ORDER: Record<QSensorPreflightSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/**
+ * Configuration of a connected sensor for the pre-flight check
+ * @param {QSensorState} sensor - Sensor state from the store
+ * @returns {QSensorPreflightSensor} Reported firmware and configuration
+ */
+export function preflightSensorFromState(sensor: QSensorState): QSensorPreflightSensor {
+  return {
+    sensorId: sensor.sensorId,
+    label: sensor.label,
+    backendType: sensor.backendType,
+    firmware: sensor.healthData?.firmware ?? null,
+    config: sensor.healthData?.config ? { ...sensor.healthData.config } : null,
+  }
+}
+
+/**
+ * Rate of the data frames a freerun sensor sends (ADC rate divided by the averaging count)
+ * @param {QSensorConfigData | null} config - Sensor configuration
+ * @returns {number | null} Output rate in Hz, or null when it is unknown or the sensor is polled
+ */
+export function freerunOutputRateHz(config: QSensorConfigData | null): number | null {
+  if (!config || config.mode !== 'freerun' || !config.rateHz || !config.internalAveraging) return null
+  return config.rateHz / config.internalAveraging
+}
+
+/**
+ * Compare one sensor with the reference sensor
+ * @param {QSensorPreflightSensor} reference - Sensor the others should match
+ * @param {QSensorPreflightSensor} sensor - Sensor to check
+ * @returns {QSensorPreflightIssue[]} Differences found
+ */
+export function compareSensorConfigs(
+  reference: QSensorPreflightSensor,
+  sensor: QSensorPreflightSensor
+): QSensorPreflightIssue[] {
+  const issues: QSensorPreflightIssue[] = []
+  const issue = (
+    field: QSensorPreflightIssue['field'],
+    severity: QSensorPreflightSeverity,
+    message: string,
+    referenceValue: QSensorPreflightIssue['reference'],
+    actualValue: QSensorPreflightIssue['actual']
+  ): void => {
+    issues.push({ sensorId: sensor.sensorId, field, severity, message, reference: referenceValue, actual: actualValue })
+  }
+
+  if (!reference.config || !sensor.config) {
+    const missing = reference.config ? sensor : reference
+    issue('config', 'info', `${missing.label} does not report its configuration, it cannot be compared`, null, null)
+  } else {
+    const referenceConfig = reference.config
+    const config = sensor.config
+
+    const referenceRate = freerunOutputRateHz(referenceConfig)
+    const rate = freerunOutputRateHz(config)
+    if (
+      referenceRate !== null &&
+      rate !== null &&
+      Math.abs(rate - referenceRate) > PREFLIGHT_RATE_TOLERANCE * referenceRate
+    ) {
+      issue(
+        'outputRateHz',
+        'error',
+        `${sensor.label} outputs ${formatRate(rate)} Hz, ${reference.label} ${formatRate(referenceRate)} Hz`,
+        referenceRate,
+        rate
+      )
+    }
+
+    // NOTE: Values a sensor does not report are skipped; the 'config' issue above covers sensors with none
+    const compare = (
+      field: 'rateHz' | 'internalAveraging' | 'mode' | 'includeTemp' | 'includeVin',
+      issueField: QSensorPreflightIssue['field'],
+      severity: QSensorPreflightSeverity,
+      name: string
+    ): void => {
+      const referenceValue = referenceConfig[field]
+      const value = config[field]
+      if (referenceValue === null || referenceValue === undefined || value === null || value === undefined) return
+      if (referenceValue === value) return
+      issue(
+        issueField,
+        severity,
+        `${name} differs: ${formatValue(referenceValue)} → ${formatValue(value)}`,
+        referenceValue,
+        value
+      )
+    }
+    compare('mode', 'mode', 'warning', 'Mode')
+    compare('rateHz', 'rateHz', 'warning', 'ADC rate (Hz)')
+    compare('internalAveraging', 'averaging', 'warning', 'Averaging')
+    compare('includeTemp', 'includeTemp', 'info', 'Temperature output')
+    compare('includeVin', 'includeVin', 'info', 'Supply voltage output')
+  }
+
+  if (reference.firmware && sensor.firmware && reference.firmware !== sensor.firmware) {
+    issue(
+      'firmware',
+      'info',
+      `Firmware differs: ${reference.firmware} → ${sensor.firmware}`,
+      reference.firmware,
+      sensor.firmware
+    )
+  }
+
+  return issues
+}
+
+/**
+ * Pick the sensor the others are compared to: the first one not on the serial backend that reports
+ * its configuration, since only the serial sensor can be reconfigured to match.
+ * @param {QSensorPreflightSensor[]} sensors - Connected sensors
+ * @returns {QSensorPreflightSensor | null} Reference sensor, or null when there are none
+ */
+export function choosePreflightReference(sensors: QSensorPreflightSensor[]): QSensorPreflightSensor | null {
+  return (
+    sensors.find((sensor) => sensor.backendType !== 'serial' && sensor.config) ??
+    sensors.find((sensor) => sensor.config) ??
+    sensors[0] ??
+    null
+  )
+}
+
+/**
+ * Compare every sensor with the reference sensor
+ * @param {QSensorPreflightSensor[]} sensors - Connected sensors
+ * @param {QSensorId} [referenceSensorId] - Reference sensor (chosen with choosePreflightReference when omitted)
+ * @returns {QSensorPreflightResult} Issues sorted by severity
+ */
+export function runPreflightCheck(
+  sensors: QSensorPreflightSensor[],
+  referenceSensorId?: QSensorId
+): QSensorPreflightResult {
+  const reference = sensors.find((sensor) => sensor.sensorId === referenceSensorId) ?? choosePreflightReference(sensors)
+  const others = sensors.filter((sensor) => sensor !== reference)
+  const issues =
+    reference && others.length > 0
+      ? others
+          .flatMap((sensor) => compareSensorConfigs(reference, sensor))
+          .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+      : []
+
+  return {
+    checkedAt: new Date().toISOString(),
+    referenceSensorId: reference && others.length > 0 ? reference.sensorId : null,
+    sensors,
+    issues,
+    passed: !issues.some((entry) => entry.severity === 'error'),
+  }
+}
+
+/**
+ * Serial sensor settings that match a reference configuration
+ * @param {QSensorConfigData} reference - Configuration of the reference sensor
+ * @returns {Partial<QSeriesEditableConfig>} Settings to apply; values the reference does not report
+ *   or the firmware cannot take are left out
+ */
+export function buildMatchingSerialConfig(reference: QSensorConfigData): Partial<QSeriesEditableConfig> {
+  const changes: Partial<QSeriesEditableConfig> = {}
+  if (reference.internalAveraging) changes.averaging = reference.internalAveraging
+  if (reference.rateHz && VALID_ADC_RATES.has(reference.rateHz)) changes.adc_rate_hz = reference.rateHz
+  if (reference.mode === 'freerun') {
+    changes.mode = 'freerun'
+    changes.tag = null
+  } else if (reference.mode === 'polled' && reference.tag && VALID_TAGS.includes(reference.tag)) {
+    changes.mode = 'polled'
+    changes.tag = reference.tag
+  }
+  if (typeof reference.includeTemp === 'boolean') changes.include_temp = reference.includeTemp
+  if (typeof reference.includeVin === 'boolean') changes.include_vin = reference.includeVin
+  return changes
+}
+
+/**
+ * Format a rate for messages
+ * @param {number} rateHz - Rate in Hz
+ * @returns {string} Rate with at most two decimals
+ */
+function formatRate(rateHz: number): string {
+  return Number(rateHz.toFixed(2)).toString()
+}
+
+/**
+ * Format a configuration value for messages
+ * @param {string | number | boolean} value - Value to format
+ * @returns {string} Display text
+ */
+function formatValue(value: string | number | boolean): string {
+  if (typeof value === 'boolean') return value ? 'on' : 'off'
+  return String(value)
+}
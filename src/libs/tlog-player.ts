@@ -0,0 +1,151 @@
+import { type TlogRecord, mavlinkFrameHeader } from '@/utils/tlog'
+
+const STATUSTEXT_MESSAGE_ID = 253
+
+/**
+ * Moment the player started or resumed playing
+ */
+interface PlayStart {
+  /**
+   * Current time when playing started (ms)
+   */
+  wallMs: number
+  /**
+   * Position playing started from (ms from the first record)
+   */
+  positionMs: number
+}
+
+/**
+ * Plays the frames of a tlog at their recorded pace
+ *
+ * Positions are in ms from the first record. The player doesn't own a timer: `tick` has to be called regularly
+ * with the current time, and emits every frame whose time has come since the last call.
+ */
+export class TlogPlayer {
+  private index = 0
+  private pausedPositionMs = 0
+  private playStart: PlayStart | null = null
+  private _speed = 1
+  readonly startMs: number
+  readonly durationMs: number
+
+  /**
+   * Create a player, paused at the first record
+   * @param {TlogRecord[]} records - Records of the tlog, in file order
+   * @param {(frames: Uint8Array[]) => void} emit - Called with the frames due at each tick or seek
+   */
+  constructor(private records: TlogRecord[], private emit: (frames: Uint8Array[]) => void) {
+    this.startMs = records[0]?.timestampMs ?? 0
+    this.durationMs = Math.max(0, (records[records.length - 1]?.timestampMs ?? 0) - this.startMs)
+  }
+
+  /**
+   * Whether the player is playing
+   * @returns {boolean}
+   */
+  get playing(): boolean {
+    return this.playStart !== null
+  }
+
+  /**
+   * Playback speed, 1 being real time
+   * @returns {number}
+   */
+  get speed(): number {
+    return this._speed
+  }
+
+  /**
+   * Current position
+   * @param {number} now - Current time (ms)
+   * @returns {number} Position (ms from the first record)
+   */
+  position(now: number): number {
+    if (!this.playStart) return this.pausedPositionMs
+    const position = this.playStart.positionMs + (now - this.playStart.wallMs) * this._speed
+    return Math.min(this.durationMs, position)
+  }
+
+  /**
+   * Start playing. Playing at the end starts over.
+   * @param {number} now - Current time (ms)
+   */
+  play(now: number): void {
+    if (this.playing) return
+    if (this.pausedPositionMs >= this.durationMs) this.seek(0, now)
+    this.playStart = { wallMs: now, positionMs: this.pausedPositionMs }
+  }
+
+  /**
+   * Stop playing, keeping the position
+   * @param {number} now - Current time (ms)
+   */
+  pause(now: number): void {
+    this.pausedPositionMs = this.position(now)
+    this.playStart = null
+  }
+
+  /**
+   * Change the playback speed, keeping the position
+   * @param {number} speed - New speed, 1 being real time
+   * @param {number} now - Current time (ms)
+   */
+  setSpeed(speed: number, now: number): void {
+    if (!(speed > 0)) throw new Error(`Invalid replay speed: ${speed}`)
+    if (this.playStart) this.playStart = { wallMs: now, positionMs: this.position(now) }
+    this._speed = speed
+  }
+
+  /**
+   * Jump to a position.
+   *
+   * The frames between the previous and the new position are not played one by one: only the last frame of each
+   * message of each component is emitted, so the vehicle state is the one it had at that time.
+   * @param {number} positionMs - New position (ms from the first record)
+   * @param {number} now - Current time (ms)
+   */
+  seek(positionMs: number, now: number): void {
+    const target = Math.min(Math.max(positionMs, 0), this.durationMs)
+    if (target < this.position(now)) this.index = 0
+
+    const latest = new Map<string, number>()
+    for (; this.index < this.records.length && this.relativeTime(this.index) <= target; this.index++) {
+      const { systemId, componentId, messageId } = mavlinkFrameHeader(this.records[this.index].frame)
+      // NOTE: Old status texts would be announced again as if they were new
+      if (messageId === STATUSTEXT_MESSAGE_ID) continue
+      latest.set(`${systemId}/${componentId}/${messageId}`, this.index)
+    }
+    const frames = [...latest.values()].sort((a, b) => a - b).map((index) => this.records[index].frame)
+    if (frames.length > 0) this.emit(frames)
+
+    this.pausedPositionMs = target
+    if (this.playStart) this.playStart = { wallMs: now, positionMs: target }
+  }
+
+  /**
+   * Emit the frames due since the last tick. Playback pauses at the end of the tlog.
+   * @param {number} now - Current time (ms)
+   */
+  tick(now: number): void {
+    if (!this.playStart) return
+    const position = this.position(now)
+
+    const frames: Uint8Array[] = []
+    for (; this.index < this.records.length && this.relativeTime(this.index) <= position; this.index++) {
+      frames.push(this.records[this.index].frame)
+    }
+    if (frames.length > 0) this.emit(frames)
+
+    if (position >= this.durationMs) this.pause(now)
+  }
+
+  /**
+   * Time of a record from the first one
+   * @param {number} index - Record index
+   * @returns {number} Time (ms)
+   */
+  private relativeTime(index: number): number {
+    return this.records[index].timestampMs - this.startMs
+  }
+}
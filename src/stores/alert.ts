@@ -145,7 +145,7 @@ export const useAlertStore = defineStore('alert', () => {
       ((alertLevelEnabled === undefined || !alertLevelEnabled.enabled) && !lastAlert.message.startsWith('#'))
     )
       return
-    speak(lastAlert.message)
+    speak(lastAlert.voiceText || lastAlert.message)
   })
 
   return {
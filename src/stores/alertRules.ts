@@ -0,0 +1,130 @@
+import { defineStore } from 'pinia'
+import { v4 as uuid } from 'uuid'
+import { computed, ref, watch } from 'vue'
+
+import { useBlueOsStorage } from '@/composables/settingsSyncer'
+import { getDataLakeVariableData, listenDataLakeVariable, unlistenDataLakeVariable } from '@/libs/actions/data-lake'
+import {
+  AlertRuleState,
+  AlertRuleTransition,
+  createAlertRuleState,
+  describeAlertRule,
+  evaluateAlertRule,
+  recordAlertRuleValue,
+} from '@/libs/alert-rules'
+import { executeActionCallback } from '@/libs/joystick/protocols/cockpit-actions'
+import { Alert, AlertLevel, AlertRule } from '@/types/alert'
+
+import { useAlertStore } from './alert'
+
+/**
+ * How often rules are evaluated without new values, so durations and staleness are noticed
+ */
+const evaluationIntervalMs = 1000
+
+/**
+ * Data lake listener of a rule
+ */
+interface RuleListener {
+  /**
+   * Variable the rule watches
+   */
+  variableId: string
+  /**
+   * ID returned by listenDataLakeVariable
+   */
+  listenerId: string
+}
+
+export const useAlertRulesStore = defineStore('alert-rules', () => {
+  const alertStore = useAlertStore()
+  const rules = useBlueOsStorage<AlertRule[]>('cockpit-alert-rules', [])
+  const activeRuleIds = ref<string[]>([])
+
+  const ruleStates = new Map<string, AlertRuleState>()
+  const listeners = new Map<string, RuleListener>()
+
+  const enabledRules = computed(() => rules.value.filter((rule) => rule.enabled && rule.variableId !== ''))
+
+  const formatValue = (state: AlertRuleState): string => {
+    if (state.value === null) return 'no value'
+    return Number.isInteger(state.value) ? String(state.value) : state.value.toFixed(2)
+  }
+
+  const onTransition = (rule: AlertRule, state: AlertRuleState, transition: AlertRuleTransition): void => {
+    if (transition === 'cleared') {
+      activeRuleIds.value = activeRuleIds.value.filter((id) => id !== rule.id)
+      alertStore.pushAlert(new Alert(AlertLevel.Info, `${rule.name} cleared`))
+      return
+    }
+
+    activeRuleIds.value = [...activeRuleIds.value, rule.id]
+    const message = `${rule.name}: ${describeAlertRule(rule)} (${formatValue(state)})`
+    alertStore.pushAlert(new Alert(rule.level, message, new Date(), rule.voiceText || undefined))
+
+    if (rule.actionId) executeActionCallback(rule.actionId)
+  }
+
+  const evaluateRule = (rule: AlertRule, now: number): void => {
+    const state = ruleStates.get(rule.id)
+    if (!state) return
+    const transition = evaluateAlertRule(rule, state, now)
+    if (transition) onTransition(rule, state, transition)
+  }
+
+  const unwatchRules = (): void => {
+    listeners.forEach(({ variableId, listenerId }) => unlistenDataLakeVariable(variableId, listenerId))
+    listeners.clear()
+    ruleStates.clear()
+    activeRuleIds.value = []
+  }
+
+  // Any change to the rules starts them over, with fresh states and listeners
+  watch(
+    enabledRules,
+    (newRules) => {
+      unwatchRules()
+      const now = Date.now()
+      newRules.forEach((rule) => {
+        const state = createAlertRuleState(now)
+        const currentValue = getDataLakeVariableData(rule.variableId)
+        if (currentValue !== undefined) recordAlertRuleValue(state, currentValue, now)
+        ruleStates.set(rule.id, state)
+
+        const listenerId = listenDataLakeVariable(rule.variableId, (value) => {
+          recordAlertRuleValue(state, value, Date.now())
+          evaluateRule(rule, Date.now())
+        })
+        listeners.set(rule.id, { variableId: rule.variableId, listenerId })
+      })
+    },
+    { immediate: true, deep: true }
+  )
+
+  setInterval(() => {
+    const now = Date.now()
+    enabledRules.value.forEach((rule) => evaluateRule(rule, now))
+  }, evaluationIntervalMs)
+
+  const addRule = (rule: Omit<AlertRule, 'id'>): AlertRule => {
+    const newRule = { ...rule, id: uuid() }
+    rules.value = [...rules.value, newRule]
+    return newRule
+  }
+
+  const updateRule = (rule: AlertRule): void => {
+    rules.value = rules.value.map((existing) => (existing.id === rule.id ? { ...rule } : existing))
+  }
+
+  const removeRule = (ruleId: string): void => {
+    rules.value = rules.value.filter((rule) => rule.id !== ruleId)
+  }
+
+  return {
+    rules,
+    activeRuleIds,
+    addRule,
+    updateRule,
+    removeRule,
+  }
+})
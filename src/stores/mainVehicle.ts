@@ -106,6 +106,8 @@ export const useMainVehicleStore = defineStore('main-vehicle', () => {
     data: defaultMAVLink2RestWebsocketURI.value,
     enabled: false,
   } as CustomParameter<string>)
+  const backupConnectionURIs = useStorage<string[]>('cockpit-vehicle-backup-connection-uris', [])
+  const mainConnectionURI = ref<string>()
   const customWebRTCSignallingURI = useStorage('cockpit-vehicle-custom-webrtc-signalling-uri', {
     data: defaultWebRTCSignallingURI.value,
     enabled: false,
@@ -483,12 +485,47 @@ export const useMainVehicleStore = defineStore('main-vehicle', () => {
   ConnectionManager.onMainConnection.add(() => {
     const newMainConnection = ConnectionManager.mainConnection()
     console.log('Main connection changed:', newMainConnection?.uri().toString())
-    if (newMainConnection !== undefined) {
-      customMAVLink2RestWebsocketURI.value.data = newMainConnection.uri().toString()
+    mainConnectionURI.value = newMainConnection?.uri().toString()
+
+    // A backup link taking over doesn't change the configured connection, and a replay is temporary
+    const primaryConnection = ConnectionManager.primaryConnection()
+    if (primaryConnection !== undefined && primaryConnection.uri().type() !== Connection.Type.Replay) {
+      customMAVLink2RestWebsocketURI.value.data = primaryConnection.uri().toString()
     }
   })
 
   ConnectionManager.addConnection(MAVLink2RestWebsocketURI.value, Protocol.Type.MAVLink)
+  backupConnectionURIs.value.forEach((uri) => {
+    try {
+      ConnectionManager.addConnection(new Connection.URI(uri), Protocol.Type.MAVLink, true)
+    } catch (error) {
+      console.error(`Failed to add backup connection ${uri}:`, error)
+    }
+  })
+
+  /**
+   * Add a backup vehicle link, kept across sessions
+   * @param {string} uri - Connection URI
+   */
+  function addBackupConnection(uri: string): void {
+    const connectionURI = new Connection.URI(uri)
+    ConnectionManager.addConnection(connectionURI, Protocol.Type.MAVLink, true)
+    if (!backupConnectionURIs.value.includes(connectionURI.toString())) {
+      backupConnectionURIs.value = [...backupConnectionURIs.value, connectionURI.toString()]
+    }
+  }
+
+  /**
+   * Remove a backup vehicle link
+   * @param {string} uri - Connection URI
+   */
+  function removeBackupConnection(uri: string): void {
+    const connection = ConnectionManager.connections().find((item) => item.uri().toString() === uri)
+    if (connection !== undefined && connection !== ConnectionManager.primaryConnection()) {
+      ConnectionManager.removeConnection(connection)
+    }
+    backupConnectionURIs.value = backupConnectionURIs.value.filter((item) => item !== uri)
+  }
 
   let applyThrottledCoordinates = useThrottleFn(
     (nc: Coordinates) => Object.assign(coordinates, nc),
@@ -913,6 +950,10 @@ export const useMainVehicleStore = defineStore('main-vehicle', () => {
     MAVLink2RestWebsocketURI,
     customMAVLink2RestWebsocketURI,
     defaultMAVLink2RestWebsocketURI,
+    mainConnectionURI,
+    backupConnectionURIs,
+    addBackupConnection,
+    removeBackupConnection,
     webRTCSignallingURI,
     customWebRTCSignallingURI,
     defaultWebRTCSignallingURI,
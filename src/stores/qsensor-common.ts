@@ -12,7 +12,11 @@
  * into a unified output directory structure (Phase 5+).
  */
 
-import type { QSensorBackendType, QSensorId, QSensorState } from '@/types/qsensor'
+import type { QSensorBackendType, QSensorId, QSensorRole, QSensorState } from '@/types/qsensor'
+import { defaultQSensorRole } from '@/types/qsensor'
+
+// Ids become sync_metadata.json keys, directory names and CSV column prefixes
+const SENSOR_ID_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/
 
 /**
  * Create initial state for a sensor.
@@ -22,6 +26,8 @@ import type { QSensorBackendType, QSensorId, QSensorState } from '@/types/qsenso
  * @param config.apiBaseUrl
  * @param config.serialPort
  * @param config.baudRate
+ * @param config.role - Role in the deployment (defaults from the sensor ID)
+ * @param config.label - Short display name (defaults from the sensor ID)
  * @returns Initial QSensorState
  */
 export function createInitialSensorState(
@@ -40,6 +46,14 @@ export function createInitialSensorState(
      *
      */
     baudRate?: number
+    /**
+     *
+     */
+    role?: QSensorRole
+    /**
+     *
+     */
+    label?: string
   }
 ): QSensorState {
   // Auto-derive connection mode from backend type if provided
@@ -58,6 +72,8 @@ export function createInitialSensorState(
 
   return {
     sensorId,
+    role: config?.role ?? defaultQSensorRole(sensorId),
+    label: config?.label ?? getSensorShortLabel(sensorId),
     backendType,
 
     // Connection mode selection (Phase 1)
@@ -74,6 +90,8 @@ export function createInitialSensorState(
     // Connection status
     isConnected: false,
     healthData: null,
+    calibration: null,
+    darkCapture: null,
 
     // Session/recording
     currentSession: null,
@@ -103,6 +121,33 @@ export function getSensorLabel(sensorId: QSensorId): string {
   }
 }
 
+/**
+ * Get the short label used to prefix a sensor's errors.
+ * @param sensorId
+ */
+export function getSensorShortLabel(sensorId: QSensorId): string {
+  switch (sensorId) {
+    case 'inWater':
+      return 'In-water'
+    case 'surface':
+      return 'Surface'
+    default:
+      return sensorId
+  }
+}
+
+/**
+ * Validate an identifier for an added sensor.
+ * @param sensorId - Proposed sensor identifier
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSensorId(sensorId: string): string | null {
+  if (!SENSOR_ID_PATTERN.test(sensorId)) {
+    return 'Sensor ID must start with a letter and contain only letters and digits'
+  }
+  return null
+}
+
 /**
  * Get a human-readable label for a backend type.
  * @param backendType
@@ -176,6 +221,8 @@ export function validateSensorConfig(state: QSensorState): string | null {
 export function resetSensorState(state: QSensorState): void {
   state.isConnected = false
   state.healthData = null
+  state.calibration = null
+  state.darkCapture = null
   state.currentSession = null
   state.recordingState = 'idle'
   state.bytesMirrored = 0
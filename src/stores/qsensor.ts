@@ -2,17 +2,40 @@
  * Pinia store for Q-Sensor live recording state and settings.
  *
  * Phase 1: Refactored to support multiple sensor contexts (in-water Pi HTTP + future surface serial).
- * Currently only the in-water sensor is active; surface sensor is scaffolded for Phase 2+.
+ * The in-water and surface sensors are always present; sensor arrays add more with addSensor
+ * and record them together with startAll/stopAll.
  */
 
 import { defineStore } from 'pinia'
 import { v4 as uuidv4 } from 'uuid'
 import { computed, ref } from 'vue'
 
+import type { FusionProgress } from '@/electron/services/qsensor-fusion'
 import { validateAndNormalizeQSensorUrl } from '@/electron/services/url-validator'
+import {
+  publishQSensorReading,
+  registerQSensorDataLakeVariables,
+  registerQSensorSensorVariables,
+} from '@/libs/qsensor-data-lake'
+import { buildMatchingSerialConfig, preflightSensorFromState, runPreflightCheck } from '@/libs/qsensor-preflight'
+import { datalogger } from '@/libs/sensors-logging'
 // Note: QSensorClient was scaffolded for future direct client usage, currently unused
-import { createInitialSensorState, isSensorArmed, isSensorRecording, resetSensorState } from '@/stores/qsensor-common'
-import type { QSensorId, QSensorState } from '@/types/qsensor'
+import {
+  createInitialSensorState,
+  isSensorArmed,
+  isSensorRecording,
+  resetSensorState,
+  validateSensorId,
+} from '@/stores/qsensor-common'
+import type {
+  QSensorDarkCapture,
+  QSensorId,
+  QSensorLiveReading,
+  QSensorPreflightResult,
+  QSensorRole,
+  QSensorState,
+} from '@/types/qsensor'
+import { defaultQSensorIds, qsensorRoleNames } from '@/types/qsensor'
 
 /**
  * Serial port information returned from port enumeration
@@ -42,6 +65,10 @@ export interface SerialPortInfo {
    *
    */
   isLikelyQSensor: boolean
+  /**
+   * Virtual Q-Series device (no hardware)
+   */
+  isSimulated: boolean
 }
 
 export const useQSensorStore = defineStore('qsensor', () => {
@@ -68,6 +95,17 @@ export const useQSensorStore = defineStore('qsensor', () => {
     })
   )
 
+  // Live readings → Data Lake (qsensor/<sensorId>/value, TempC, Vin and qsensor/ratio)
+  // Serial readings are pushed from main; HTTP readings are pulled in refreshSensorStatus.
+  registerQSensorDataLakeVariables()
+  window.electronAPI?.onQSensorSerialReading?.((reading: QSensorLiveReading) => {
+    // NOTE: Each serial sensor has its own port, so the port tells which sensor the reading belongs to
+    const sensor = Array.from(sensors.value.values()).find(
+      (candidate) => candidate.backendType === 'serial' && candidate.serialPort === reading.port
+    )
+    if (sensor) publishQSensorReading(sensor.sensorId, reading)
+  })
+
   // Serial port management state (for surface sensor)
   const availableSurfacePorts = ref<SerialPortInfo[]>([])
   const selectedSurfacePortPath = ref<string | null>(null)
@@ -80,7 +118,10 @@ export const useQSensorStore = defineStore('qsensor', () => {
   // TODO[Phase5]: Implement unified session management for both sensors
   const unifiedSessionId = ref<string | null>(null)
   const unifiedSessionPath = ref<string | null>(null)
+  const unifiedSessionStartedAt = ref<Date | null>(null) // Start of the vehicle telemetry window for fusion
   const globalMissionName = ref('Cockpit')
+  // Serial sensor reconfigured to match the pre-flight reference, recorded with the next session
+  const preflightMatchedSensorId = ref<QSensorId | null>(null)
 
   // Fusion status (populated after dual-sensor recording stops)
   const fusionStatus = ref<{
@@ -108,6 +149,10 @@ export const useQSensorStore = defineStore('qsensor', () => {
      *
      */
     surfaceRows: number | null
+    /**
+     * Rows with a value from each sensor, keyed by sensor id
+     */
+    sensorRows: Record<QSensorId, number> | null
     /**
      *
      */
@@ -117,6 +162,14 @@ export const useQSensorStore = defineStore('qsensor', () => {
      */
     error: string | null
   } | null>(null)
+  // Progress of the running fusion, pushed from main; the fusion status is refreshed once a run ends
+  const fusionProgress = ref<FusionProgress | null>(null)
+  window.electronAPI?.onQSensorFusionProgress?.((progress: FusionProgress) => {
+    fusionProgress.value = progress
+    if (progress.phase !== 'scanning' && progress.phase !== 'merging') {
+      refreshFusionStatus(progress.sessionRoot)
+    }
+  })
 
   /**
    *
@@ -124,6 +177,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
   function clearUnifiedSessionState(): void {
     unifiedSessionId.value = null
     unifiedSessionPath.value = null
+    unifiedSessionStartedAt.value = null
   }
 
   // ========================================
@@ -328,6 +382,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
     }
     unifiedSessionId.value = null
     unifiedSessionPath.value = null
+    unifiedSessionStartedAt.value = null
   }
 
   // ========================================
@@ -452,6 +507,89 @@ export const useQSensorStore = defineStore('qsensor', () => {
     return sensors.value.get(sensorId)
   }
 
+  /**
+   * Add a sensor to the array recorded by startAll.
+   * Sensor arrays (up-looking, down-looking, surface reference) register each extra sensor under its own ID.
+   * @param sensorId - Unique sensor identifier, e.g. 'upLooking'
+   * @param config - Sensor configuration
+   * @param config.role - Role in the deployment
+   * @param config.label - Short display name (defaults to the sensor ID)
+   * @param config.apiBaseUrl - Pi API URL, selects the HTTP backend
+   * @param config.serialPort - Serial port path, selects the serial backend
+   * @param config.baudRate - Serial baud rate
+   * @returns Error message, or null when the sensor was added
+   */
+  function addSensor(
+    sensorId: QSensorId,
+    config: {
+      /**
+       *
+       */
+      role: QSensorRole
+      /**
+       *
+       */
+      label?: string
+      /**
+       *
+       */
+      apiBaseUrl?: string
+      /**
+       *
+       */
+      serialPort?: string
+      /**
+       *
+       */
+      baudRate?: number
+    }
+  ): string | null {
+    const idError = validateSensorId(sensorId)
+    if (idError) return idError
+
+    if (sensors.value.has(sensorId)) {
+      return `Sensor ${sensorId} already exists`
+    }
+
+    // Fusion references every other sensor against a single surface sensor
+    if (config.role === 'surface' && Array.from(sensors.value.values()).some((sensor) => sensor.role === 'surface')) {
+      return 'Only one sensor can have the surface role'
+    }
+
+    const backendType = config.apiBaseUrl ? 'http' : config.serialPort ? 'serial' : null
+    const sensor = createInitialSensorState(sensorId, backendType, config)
+    sensors.value.set(sensorId, sensor)
+    registerQSensorSensorVariables(sensorId, sensor.label)
+
+    console.log(`[QSensor Store] Added sensor ${sensorId} (${qsensorRoleNames[sensor.role]})`)
+    return null
+  }
+
+  /**
+   * Remove a sensor added with addSensor.
+   * The default in-water and surface sensors cannot be removed.
+   * @param sensorId - Sensor identifier
+   * @returns Error message, or null when the sensor was removed
+   */
+  function removeSensor(sensorId: QSensorId): string | null {
+    const sensor = sensors.value.get(sensorId)
+    if (!sensor) {
+      return `Unknown sensor: ${sensorId}`
+    }
+
+    if (defaultQSensorIds.includes(sensorId)) {
+      return `Sensor ${sensorId} cannot be removed`
+    }
+
+    if (sensor.isConnected || isSensorRecording(sensor)) {
+      return `Disconnect ${sensor.label} before removing it`
+    }
+
+    sensors.value.delete(sensorId)
+    console.log(`[QSensor Store] Removed sensor ${sensorId}`)
+    return null
+  }
+
   /**
    * Set connection mode for a sensor.
    * Phase 1: User-selectable connection mode (API vs Serial).
@@ -588,17 +726,18 @@ export const useQSensorStore = defineStore('qsensor', () => {
           if (healthResult.success && healthResult.data) {
             sensor.healthData = healthResult.data
           }
+          await refreshSensorCalibration(sensorId)
         } else {
           sensor.lastError = `${sensorId} sensor connection failed: ${result.error || 'Unknown error'}`
         }
       } else if (sensor.backendType === 'serial') {
-        // Surface sensor via direct serial (topside)
-        let portPath = selectedSurfacePortPath.value || sensor.serialPort
+        // Sensor via direct serial (topside), the port picker only applies to the surface sensor
+        let portPath = sensorId === 'surface' ? selectedSurfacePortPath.value || sensor.serialPort : sensor.serialPort
         if (!portPath) {
           const refreshResult = await refreshSurfaceSerialPorts()
           if (refreshResult.success && availableSurfacePorts.value.length > 0) {
             portPath = availableSurfacePorts.value[0].path
-            selectSurfaceSerialPort(portPath)
+            if (sensorId === 'surface') selectSurfaceSerialPort(portPath)
           }
         }
         if (!portPath) {
@@ -617,10 +756,11 @@ export const useQSensorStore = defineStore('qsensor', () => {
           sensor.lastError = null
 
           // Fetch health to get sensor config
-          const healthResult = await window.electronAPI.qsensorSerialGetHealth()
+          const healthResult = await window.electronAPI.qsensorSerialGetHealth(portPath)
           if (healthResult.success && healthResult.data) {
             sensor.healthData = healthResult.data
           }
+          await refreshSensorCalibration(sensorId)
         } else {
           sensor.lastError = `${sensorId} sensor connection failed: ${result.error || 'Unknown error'}`
         }
@@ -692,7 +832,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
           urlResult.success ? urlResult.normalizedUrl : sensor.apiBaseUrl
         )
       } else if (sensor.backendType === 'serial') {
-        result = await window.electronAPI.qsensorSerialDisconnect()
+        result = await window.electronAPI.qsensorSerialDisconnect(sensor.serialPort || undefined)
       } else {
         return { success: false, error: `Unknown backend type: ${sensor.backendType}` }
       }
@@ -700,6 +840,8 @@ export const useQSensorStore = defineStore('qsensor', () => {
       if (result.success) {
         sensor.isConnected = false
         sensor.healthData = null
+        sensor.calibration = null
+        sensor.darkCapture = null
       }
 
       return { success: result.success, error: result.error }
@@ -852,7 +994,8 @@ export const useQSensorStore = defineStore('qsensor', () => {
           fullBandwidth.value,
           params.unifiedSessionTimestamp,
           syncId,
-          sensorId // Pass the sensor ID to create correct directory and metadata
+          sensorId, // Pass the sensor ID to create correct directory and metadata
+          { role: sensor.role, label: sensor.label }
         )
 
         result = mirrorResult
@@ -861,6 +1004,8 @@ export const useQSensorStore = defineStore('qsensor', () => {
           const sessionRoot = (result as any).data?.sessionRoot
           if (sessionRoot) {
             unifiedSessionPath.value = sessionRoot
+            await recordSessionCalibration(sensorId, sessionRoot)
+            await recordSessionDarkCapture(sensorId, sessionRoot)
           }
           sensor.currentSession = {
             sessionId: recResult.data.session_id,
@@ -882,15 +1027,23 @@ export const useQSensorStore = defineStore('qsensor', () => {
         const storagePath = await window.electronAPI.getQSensorStoragePath()
 
         result = await window.electronAPI.qsensorSerialStartRecording({
+          port: sensor.serialPort || undefined,
           mission: params.mission,
           rateHz: params.rateHz || 1.0,
           rollIntervalS: params.rollIntervalS || 60,
           storagePath,
           unifiedSessionTimestamp: params.unifiedSessionTimestamp,
           syncId: params.syncId,
+          // Spread to a plain object so it can cross the IPC boundary
+          darkCapture: sensor.darkCapture ? { ...sensor.darkCapture } : null,
+          sessionSensor: sensorId,
+          sensorRole: sensor.role,
+          sensorLabel: sensor.label,
         })
 
         if (result.success && result.data) {
+          // Main process records the calibration used for serial recordings
+          sensor.calibration = result.data.calibration ?? sensor.calibration
           sensor.currentSession = {
             sessionId: result.data.session_id,
             mission: params.mission,
@@ -918,8 +1071,8 @@ export const useQSensorStore = defineStore('qsensor', () => {
   }
 
   /**
-   * Stop recording for a specific sensor (HTTP or Serial backend routing).
-   * Phase 4: Implements backend-specific stop logic.
+   * Stop recording for a specific sensor.
+   * Stopping the last recording sensor exports the vehicle telemetry first, as fusion runs right after.
    * @param sensorId - 'inWater' or 'surface'
    */
   async function stopRecordingSensor(sensorId: QSensorId): Promise<{
@@ -931,6 +1084,32 @@ export const useQSensorStore = defineStore('qsensor', () => {
      *
      */
     error?: string
+  }> {
+    const sensor = sensors.value.get(sensorId)
+    const otherSensorsRecording = Array.from(sensors.value.values()).some(
+      (other) => other.sensorId !== sensorId && isSensorRecording(other)
+    )
+    if (sensor?.currentSession && !otherSensorsRecording) {
+      await exportVehicleTelemetry()
+    }
+
+    return stopSensorBackend(sensorId)
+  }
+
+  /**
+   * Stop recording for a specific sensor (HTTP or Serial backend routing), without exporting vehicle telemetry.
+   * Phase 4: Implements backend-specific stop logic.
+   * @param sensorId - 'inWater' or 'surface'
+   */
+  async function stopSensorBackend(sensorId: QSensorId): Promise<{
+    /**
+     *
+     */
+    success: boolean
+    /**
+     *
+     */
+    error?: string
   }> {
     const sensor = sensors.value.get(sensorId)
     if (!sensor) {
@@ -976,7 +1155,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
         await window.electronAPI.qsensorStopAcquisition(sensor.apiBaseUrl)
       } else if (sensor.backendType === 'serial') {
         // Surface sensor: stop local recording
-        result = await window.electronAPI.qsensorSerialStopRecording()
+        result = await window.electronAPI.qsensorSerialStopRecording(sensor.serialPort || undefined)
       } else {
         return { success: false, error: `Unknown backend type: ${sensor.backendType}` }
       }
@@ -1002,6 +1181,171 @@ export const useQSensorStore = defineStore('qsensor', () => {
     }
   }
 
+  /**
+   * Check a connected sensor against the stored calibration records (expiry and calfactor mismatch).
+   * Call again after editing calibration records.
+   * @param sensorId - 'inWater' or 'surface'
+   */
+  async function refreshSensorCalibration(sensorId: QSensorId): Promise<void> {
+    const sensor = sensors.value.get(sensorId)
+    if (!sensor) return
+
+    const serialNumber = sensor.healthData?.sensorId
+    if (!sensor.isConnected || !serialNumber || !window.electronAPI?.qsensorCheckCalibration) {
+      sensor.calibration = null
+      return
+    }
+
+    try {
+      const deviceCalFactor = sensor.healthData?.config?.calFactor ?? null
+      const result = await window.electronAPI.qsensorCheckCalibration(serialNumber, deviceCalFactor)
+      sensor.calibration = result.success ? result.data ?? null : null
+      sensor.calibration?.warnings.forEach((warning) => console.warn(`[QSensor Store] ${sensorId}: ${warning}`))
+    } catch (error: any) {
+      console.warn(`[QSensor Store] Failed to check calibration for ${sensorId}:`, error)
+      sensor.calibration = null
+    }
+  }
+
+  /**
+   * Store the calibration used for an HTTP sensor recording in the session's sync_metadata.json,
+   * so fusion can add calibrated columns. Serial recordings do this in the main process.
+   * @param sensorId - 'inWater' or 'surface'
+   * @param sessionRoot - Unified session root
+   */
+  async function recordSessionCalibration(sensorId: QSensorId, sessionRoot: string): Promise<void> {
+    const sensor = sensors.value.get(sensorId)
+    const serialNumber = sensor?.healthData?.sensorId
+    if (!sensor || !serialNumber || !window.electronAPI?.qsensorRecordSessionCalibration) return
+
+    try {
+      const deviceCalFactor = sensor.healthData?.config?.calFactor ?? null
+      const result = await window.electronAPI.qsensorRecordSessionCalibration(
+        sessionRoot,
+        sensorId,
+        serialNumber,
+        deviceCalFactor
+      )
+      if (result.success && result.data) {
+        sensor.calibration = result.data
+      } else {
+        console.warn(`[QSensor Store] Failed to record calibration for ${sensorId}: ${result.error}`)
+      }
+    } catch (error: any) {
+      console.warn(`[QSensor Store] Failed to record calibration for ${sensorId}:`, error)
+    }
+  }
+
+  /**
+   * Capture dark readings (sensor capped) and keep them for the next recordings of the sensor.
+   * Acquisition is started for the capture and stopped afterwards, so the sensor must not be recording.
+   * @param sensorId - 'inWater' or 'surface'
+   * @param durationS - Capture duration in seconds
+   * @param rateHz - Poll rate used for acquisition
+   */
+  async function captureDark(
+    sensorId: QSensorId,
+    durationS: number,
+    rateHz?: number
+  ): Promise<{
+    /**
+     *
+     */
+    success: boolean
+    /**
+     *
+     */
+    error?: string
+  }> {
+    const sensor = sensors.value.get(sensorId)
+    if (!sensor) {
+      return { success: false, error: `Unknown sensor: ${sensorId}` }
+    }
+    if (!sensor.isConnected) {
+      return { success: false, error: `Sensor ${sensorId} not connected` }
+    }
+    if (isSensorRecording(sensor)) {
+      return { success: false, error: `Cannot capture dark while ${sensorId} is recording` }
+    }
+
+    console.log(`[QSensor Store] Capturing dark for ${sensorId} (${durationS}s)`)
+
+    try {
+      let result: {
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorDarkCapture
+        /**
+         *
+         */
+        error?: string
+      }
+
+      if (sensor.backendType === 'http') {
+        if (!sensor.apiBaseUrl) {
+          return { success: false, error: 'No API base URL configured' }
+        }
+        const urlResult = validateAndNormalizeQSensorUrl(sensor.apiBaseUrl, `${sensorId} sensor`)
+        if (!urlResult.success) {
+          return { success: false, error: urlResult.error }
+        }
+        result = await window.electronAPI.qsensorCaptureDark(urlResult.normalizedUrl, durationS, rateHz)
+      } else if (sensor.backendType === 'serial') {
+        result = await window.electronAPI.qsensorSerialCaptureDark(durationS, rateHz, sensor.serialPort || undefined)
+      } else {
+        return { success: false, error: `Unknown backend type: ${sensor.backendType}` }
+      }
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error || 'Dark capture failed' }
+      }
+
+      sensor.darkCapture = {
+        ...result.data,
+        serialNumber: result.data.serialNumber ?? sensor.healthData?.sensorId ?? null,
+      }
+      return { success: true }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  }
+
+  /**
+   * Discard the dark capture of a sensor (later recordings use the calibration record's dark offset).
+   * @param sensorId - 'inWater' or 'surface'
+   */
+  function clearDarkCapture(sensorId: QSensorId): void {
+    const sensor = sensors.value.get(sensorId)
+    if (sensor) {
+      sensor.darkCapture = null
+    }
+  }
+
+  /**
+   * Store the dark capture used for an HTTP sensor recording in the session's sync_metadata.json,
+   * so fusion can subtract it. Serial recordings do this in the main process.
+   * @param sensorId - 'inWater' or 'surface'
+   * @param sessionRoot - Unified session root
+   */
+  async function recordSessionDarkCapture(sensorId: QSensorId, sessionRoot: string): Promise<void> {
+    const sensor = sensors.value.get(sensorId)
+    if (!sensor?.darkCapture || !window.electronAPI?.qsensorRecordSessionDark) return
+
+    try {
+      const result = await window.electronAPI.qsensorRecordSessionDark(sessionRoot, sensorId, { ...sensor.darkCapture })
+      if (!result.success) {
+        console.warn(`[QSensor Store] Failed to record dark capture for ${sensorId}: ${result.error}`)
+      }
+    } catch (error: any) {
+      console.warn(`[QSensor Store] Failed to record dark capture for ${sensorId}:`, error)
+    }
+  }
+
   /**
    * Refresh statistics for a specific sensor (HTTP or Serial backend routing).
    * Phase 4: Implements backend-specific stats polling.
@@ -1013,7 +1357,15 @@ export const useQSensorStore = defineStore('qsensor', () => {
 
     try {
       if (sensor.backendType === 'http') {
-        // In-water sensor: get mirroring stats (requires active session)
+        // Publish the latest reading to the Data Lake (independent of recording)
+        if (sensor.isConnected && sensor.apiBaseUrl && window.electronAPI.qsensorGetLatestReading) {
+          const latest = await window.electronAPI.qsensorGetLatestReading(sensor.apiBaseUrl)
+          if (latest.success && latest.data) {
+            publishQSensorReading(sensorId, latest.data)
+          }
+        }
+
+        // Mirroring stats (requires active session)
         if (!sensor.currentSession) return
         const result = await window.electronAPI.getQSensorStats(sensor.currentSession.sessionId)
         if (result.success && result.stats) {
@@ -1022,7 +1374,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
         }
       } else if (sensor.backendType === 'serial') {
         // Surface sensor: get local recording stats (supports cached stats after stop)
-        const result = await window.electronAPI.qsensorSerialGetStats()
+        const result = await window.electronAPI.qsensorSerialGetStats(sensor.serialPort || undefined)
         if (result.success && result.data) {
           // Update stats (surface sensor tracks different metrics)
           sensor.bytesMirrored = result.data.bytesFlushed || result.data.totalRows || sensor.bytesMirrored
@@ -1039,14 +1391,58 @@ export const useQSensorStore = defineStore('qsensor', () => {
   }
 
   /**
-   * Start both sensors simultaneously.
-   * Phase 4: Implements unified recording start for dual-sensor operation.
+   * Measure the clock offset of an HTTP sensor and store it in the unified session metadata.
+   * This must not block recording - failures are logged but ignored.
+   * @param sensorId - Sensor identifier
+   * @param sessionRoot - Unified session directory
+   */
+  async function measureSensorTimeSync(sensorId: QSensorId, sessionRoot: string): Promise<void> {
+    const sensor = sensors.value.get(sensorId)
+    if (!sensor) return
+
+    if (sensor.backendType === 'serial') {
+      console.log(`[QSensor Store] ${sensor.label} sensor in serial mode - no Pi time sync performed`)
+      return
+    }
+    if (sensor.backendType !== 'http' || !sensor.apiBaseUrl) {
+      console.log(`[QSensor Store] ${sensor.label} sensor backend not configured - no time sync performed`)
+      return
+    }
+
+    try {
+      const urlResult = validateAndNormalizeQSensorUrl(sensor.apiBaseUrl, `${sensorId} sensor time sync`)
+      if (!urlResult.success) {
+        console.warn(`[QSensor Store] ${sensor.label} time sync skipped: ${urlResult.error}`)
+        return
+      }
+
+      const timeSync = await window.electronAPI.measureClockOffset(urlResult.normalizedUrl)
+
+      await window.electronAPI.updateSensorTimeSync(sessionRoot, sensorId, {
+        method: timeSync.method,
+        offsetMs: timeSync.offsetMs,
+        uncertaintyMs: timeSync.uncertaintyMs,
+        measuredAt: timeSync.topsideResponseEnd,
+        error: timeSync.error,
+      })
+
+      console.log(
+        `[QSensor Store] ${sensor.label} time sync: offset=${timeSync.offsetMs}ms ±${timeSync.uncertaintyMs}ms`
+      )
+    } catch (error: any) {
+      console.error(`[QSensor Store] ${sensor.label} time sync failed (recording continues):`, error)
+    }
+  }
+
+  /**
+   * Start every registered sensor simultaneously in one unified session.
+   * Either all sensors start or the ones that did start are rolled back.
    * @param params - Shared recording parameters
    * @param params.mission
    * @param params.rateHz
    * @param params.rollIntervalS
    */
-  async function startBoth(params: {
+  async function startAll(params: {
     /**
      *
      */
@@ -1072,25 +1468,41 @@ export const useQSensorStore = defineStore('qsensor', () => {
     const errors: string[] = []
     clearUnifiedSessionState()
 
-    // Phase 1: Validate both sensors have connection modes selected
-    const inWater = sensors.value.get('inWater')
-    const surface = sensors.value.get('surface')
-
-    if (!inWater?.connectionMode || !inWater?.connectionModeExplicitlySet) {
-      errors.push('In-water sensor: Connection mode must be selected')
-    }
+    // Phase 1: Validate every sensor has a connection mode selected
+    const sessionSensors = Array.from(sensors.value.values())
+    sessionSensors.forEach((sensor) => {
+      if (!sensor.connectionMode || !sensor.connectionModeExplicitlySet) {
+        errors.push(`${sensor.label} sensor: Connection mode must be selected`)
+      }
+    })
 
-    if (!surface?.connectionMode || !surface?.connectionModeExplicitlySet) {
-      errors.push('Surface sensor: Connection mode must be selected')
-    }
+    // Each serial sensor needs a port of its own
+    const serialPorts = new Map<string, string>()
+    sessionSensors
+      .filter((sensor) => sensor.backendType === 'serial' && sensor.serialPort)
+      .forEach((sensor) => {
+        const other = serialPorts.get(sensor.serialPort!)
+        if (other) {
+          errors.push(`${sensor.label} and ${other} sensors share serial port ${sensor.serialPort}`)
+        }
+        serialPorts.set(sensor.serialPort!, sensor.label)
+      })
 
     if (errors.length > 0) {
       return { success: false, errors }
     }
 
-    // Phase 3: Log dual-sensor start with connection modes
+    // Pre-flight: configuration differences are reported and recorded, they do not block the start
+    const preflight = preflightCheck.value
+    preflight.issues.forEach((issue) => {
+      console.warn(`[QSensor Store] Pre-flight ${issue.severity} (${issue.sensorId}): ${issue.message}`)
+    })
+
+    // Phase 3: Log multi-sensor start with connection modes
     console.log(
-      `[QSensor Store] Starting both sensors - InWater: ${inWater?.connectionMode}, Surface: ${surface?.connectionMode}`
+      `[QSensor Store] Starting all sensors - ${sessionSensors
+        .map((sensor) => `${sensor.label}: ${sensor.connectionMode}`)
+        .join(', ')}`
     )
 
     // Generate unified session timestamp for shared directory structure
@@ -1099,135 +1511,56 @@ export const useQSensorStore = defineStore('qsensor', () => {
     const unifiedSessionTimestamp = now.toISOString().replace(/[:.]/g, '-')
     const syncId = uuidv4()
 
-    let inWaterStarted = false
+    const startedSensors: QSensorState[] = []
     let success = false
 
     try {
-      // Start both sensors in parallel for better time alignment
-      const [inWaterResult, surfaceResult] = await Promise.all([
-        startRecordingSensor('inWater', {
-          mission: params.mission,
-          rateHz: params.rateHz || 500,
-          rollIntervalS: params.rollIntervalS || 60,
-          unifiedSessionTimestamp,
-          syncId,
-        }),
-        startRecordingSensor('surface', {
-          mission: params.mission,
-          rateHz: params.rateHz || 500, // Use same rate for synchronized sampling
-          rollIntervalS: params.rollIntervalS || 60,
-          unifiedSessionTimestamp,
-          syncId,
-        })
-      ])
+      // Start all sensors in parallel for better time alignment
+      const results = await Promise.all(
+        sessionSensors.map((sensor) =>
+          startRecordingSensor(sensor.sensorId, {
+            mission: params.mission,
+            rateHz: params.rateHz || 500, // Use same rate for synchronized sampling
+            rollIntervalS: params.rollIntervalS || 60,
+            unifiedSessionTimestamp,
+            syncId,
+          })
+        )
+      )
 
       // Handle results and rollback on any failure
-      if (!inWaterResult.success) {
-        errors.push(`In-water: ${inWaterResult.error}`)
-      }
-      if (!surfaceResult.success) {
-        errors.push(`Surface: ${surfaceResult.error}`)
-      }
-
-      // Rollback successful sensor if other failed
-      if (!inWaterResult.success || !surfaceResult.success) {
-        console.warn('[QSensor Store] One or both sensors failed to start, rolling back')
-        if (inWaterResult.success) {
-          inWaterStarted = true
-          const rollbackResult = await stopRecordingSensor('inWater')
-          if (!rollbackResult.success) {
-            errors.push(`Rollback in-water: ${rollbackResult.error}`)
-          }
-        }
-        if (surfaceResult.success) {
-          const rollbackResult = await stopRecordingSensor('surface')
-          if (!rollbackResult.success) {
-            errors.push(`Rollback surface: ${rollbackResult.error}`)
-          }
+      results.forEach((result, index) => {
+        if (result.success) {
+          startedSensors.push(sessionSensors[index])
+        } else {
+          errors.push(`${sessionSensors[index].label}: ${result.error}`)
         }
+      })
+
+      if (startedSensors.length < sessionSensors.length) {
+        console.warn('[QSensor Store] One or more sensors failed to start, rolling back')
+        await rollbackStartedSensors(startedSensors, errors)
       } else {
-        // Both started successfully
+        // All started successfully
         success = true
-        inWaterStarted = true
         unifiedSessionId.value = `unified-${Date.now()}`
-        console.log(`[QSensor Store] Started both sensors in parallel for mission: ${params.mission}`)
-
-          // Phase 3B: Per-sensor time sync measurements
-          // This must not block recording - failures are logged but ignored
-          if (unifiedSessionPath.value) {
-            // In-water sensor time sync
-            if (inWaterSensor.value.apiBaseUrl) {
-              try {
-                const urlResult = validateAndNormalizeQSensorUrl(
-                  inWaterSensor.value.apiBaseUrl,
-                  'inWater sensor time sync'
-                )
-
-                if (urlResult.success) {
-                  const timeSync = await window.electronAPI.measureClockOffset(urlResult.normalizedUrl)
-
-                  await window.electronAPI.updateSensorTimeSync(unifiedSessionPath.value, 'inWater', {
-                    method: timeSync.method,
-                    offsetMs: timeSync.offsetMs,
-                    uncertaintyMs: timeSync.uncertaintyMs,
-                    measuredAt: timeSync.topsideResponseEnd,
-                    error: timeSync.error,
-                  })
-
-                  console.log(
-                    `[QSensor Store] In-water time sync: offset=${timeSync.offsetMs}ms ±${timeSync.uncertaintyMs}ms`
-                  )
-                } else {
-                  console.warn(`[QSensor Store] In-water time sync skipped: ${urlResult.error}`)
-                }
-              } catch (error: any) {
-                console.error('[QSensor Store] In-water time sync failed (recording continues):', error)
-              }
-            }
-
-            // Surface sensor time sync (API mode only)
-            if (surfaceSensor.value.backendType === 'http' && surfaceSensor.value.apiBaseUrl) {
-              try {
-                const urlResult = validateAndNormalizeQSensorUrl(
-                  surfaceSensor.value.apiBaseUrl,
-                  'surface sensor time sync'
-                )
-
-                if (urlResult.success) {
-                  const timeSync = await window.electronAPI.measureClockOffset(urlResult.normalizedUrl)
-
-                  await window.electronAPI.updateSensorTimeSync(unifiedSessionPath.value, 'surface', {
-                    method: timeSync.method,
-                    offsetMs: timeSync.offsetMs,
-                    uncertaintyMs: timeSync.uncertaintyMs,
-                    measuredAt: timeSync.topsideResponseEnd,
-                    error: timeSync.error,
-                  })
-
-                  console.log(
-                    `[QSensor Store] Surface time sync: offset=${timeSync.offsetMs}ms ±${timeSync.uncertaintyMs}ms`
-                  )
-                } else {
-                  console.warn(`[QSensor Store] Surface time sync skipped: ${urlResult.error}`)
-                }
-              } catch (error: any) {
-                console.error('[QSensor Store] Surface time sync failed (recording continues):', error)
-              }
-            } else if (surfaceSensor.value.backendType === 'serial') {
-              console.log('[QSensor Store] Surface sensor in serial mode - no Pi time sync performed')
-            } else {
-              console.log('[QSensor Store] Surface sensor backend not configured - no time sync performed')
-            }
+        unifiedSessionStartedAt.value = now
+        console.log(
+          `[QSensor Store] Started ${sessionSensors.length} sensors in parallel for mission: ${params.mission}`
+        )
+
+        // Phase 3B: Per-sensor time sync measurements
+        const sessionRoot = unifiedSessionPath.value
+        if (sessionRoot) {
+          for (const sensor of sessionSensors) {
+            await measureSensorTimeSync(sensor.sensorId, sessionRoot)
           }
+          await recordSessionPreflight(sessionRoot, preflight)
+        }
       }
     } catch (error: any) {
       errors.push(`Start recording error: ${error.message || 'Unknown error'}`)
-      if (inWaterStarted) {
-        const rollbackResult = await stopRecordingSensor('inWater')
-        if (!rollbackResult.success) {
-          errors.push(`Rollback in-water: ${rollbackResult.error}`)
-        }
-      }
+      await rollbackStartedSensors(startedSensors, errors)
     } finally {
       if (!success) {
         clearUnifiedSessionState()
@@ -1238,10 +1571,36 @@ export const useQSensorStore = defineStore('qsensor', () => {
   }
 
   /**
-   * Stop both sensors simultaneously.
-   * Phase 4: Implements unified recording stop for dual-sensor operation.
+   * Store the pre-flight check in the session's sync_metadata.json.
+   * Failures are logged and never block recording.
+   * @param sessionRoot - Unified session root
+   * @param preflight - Check run before the sensors started
    */
-  async function stopBoth(): Promise<{
+  async function recordSessionPreflight(sessionRoot: string, preflight: QSensorPreflightResult): Promise<void> {
+    if (!window.electronAPI?.qsensorRecordSessionPreflight) return
+
+    try {
+      const result = await window.electronAPI.qsensorRecordSessionPreflight(sessionRoot, {
+        ...preflight,
+        matchedSensorId: preflightMatchedSensorId.value,
+      })
+      if (!result.success) {
+        console.warn(`[QSensor Store] Failed to record pre-flight check: ${result.error}`)
+      }
+    } catch (error: any) {
+      console.warn('[QSensor Store] Failed to record pre-flight check:', error)
+    } finally {
+      preflightMatchedSensorId.value = null
+    }
+  }
+
+  /**
+   * Reconfigure a serial sensor to match the pre-flight reference sensor
+   * (averaging, ADC rate, mode and outputs, as far as the reference reports them).
+   * The change goes through the serial apply-config path, so it is reverted if the device rejects it.
+   * @param sensorId - Serial sensor to reconfigure, e.g. the one of the pre-flight issue clicked
+   */
+  async function matchSerialSensorConfig(sensorId: QSensorId): Promise<{
     /**
      *
      */
@@ -1249,21 +1608,92 @@ export const useQSensorStore = defineStore('qsensor', () => {
     /**
      *
      */
-    errors: string[]
+    error?: string
   }> {
-    const errors: string[] = []
+    const check = preflightCheck.value
+    const reference = check.sensors.find((sensor) => sensor.sensorId === check.referenceSensorId)
+    const serialSensor = sensors.value.get(sensorId)
+
+    if (!serialSensor || serialSensor.backendType !== 'serial' || !serialSensor.isConnected) {
+      return { success: false, error: `Sensor ${sensorId} is not a connected serial sensor` }
+    }
+    if (reference?.sensorId === serialSensor.sensorId) {
+      return { success: false, error: `${serialSensor.label} sensor is the pre-flight reference` }
+    }
+    if (!reference?.config) {
+      return { success: false, error: 'No other sensor reports a configuration to match' }
+    }
+    if (isSensorRecording(serialSensor)) {
+      return { success: false, error: `${serialSensor.label} sensor is recording` }
+    }
+
+    const changes = buildMatchingSerialConfig(reference.config)
+    if (Object.keys(changes).length === 0) {
+      return { success: false, error: `${reference.label} configuration cannot be applied to a serial sensor` }
+    }
 
     try {
-      // Stop in-water sensor
-      const inWaterResult = await stopRecordingSensor('inWater')
-      if (!inWaterResult.success) {
-        errors.push(`In-water: ${inWaterResult.error}`)
+      const port = serialSensor.serialPort || undefined
+      const result = await window.electronAPI.qsensorSerialApplyConfig(changes, port)
+      if (!result.success) {
+        return { success: false, error: result.error || 'Failed to apply configuration' }
       }
 
-      // Stop surface sensor
-      const surfaceResult = await stopRecordingSensor('surface')
-      if (!surfaceResult.success) {
-        errors.push(`Surface: ${surfaceResult.error}`)
+      const healthResult = await window.electronAPI.qsensorSerialGetHealth(port)
+      if (healthResult.success && healthResult.data) {
+        serialSensor.healthData = healthResult.data
+      }
+      preflightMatchedSensorId.value = serialSensor.sensorId
+      console.log(
+        `[QSensor Store] ${serialSensor.label} configured to match ${reference.label}: ${
+          result.data?.changes.length ?? 0
+        } change(s)`
+      )
+      return { success: true }
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to apply configuration' }
+    }
+  }
+
+  /**
+   * Stop sensors that started before a failed unified start.
+   * @param startedSensors - Sensors that are recording
+   * @param errors - Error list to append rollback failures to
+   */
+  async function rollbackStartedSensors(startedSensors: QSensorState[], errors: string[]): Promise<void> {
+    for (const sensor of startedSensors) {
+      const rollbackResult = await stopSensorBackend(sensor.sensorId)
+      if (!rollbackResult.success) {
+        errors.push(`Rollback ${sensor.label.toLowerCase()}: ${rollbackResult.error}`)
+      }
+    }
+  }
+
+  /**
+   * Stop every registered sensor and close the unified session.
+   * Each sensor is stopped even if an earlier one fails.
+   */
+  async function stopAll(): Promise<{
+    /**
+     *
+     */
+    success: boolean
+    /**
+     *
+     */
+    errors: string[]
+  }> {
+    const errors: string[] = []
+
+    // Export vehicle telemetry first: fusion runs as soon as the last sensor stops
+    await exportVehicleTelemetry()
+
+    try {
+      for (const sensor of Array.from(sensors.value.values())) {
+        const result = await stopSensorBackend(sensor.sensorId)
+        if (!result.success) {
+          errors.push(`${sensor.label}: ${result.error}`)
+        }
       }
     } catch (error: any) {
       errors.push(`Stop recording error: ${error.message || 'Unknown error'}`)
@@ -1274,14 +1704,107 @@ export const useQSensorStore = defineStore('qsensor', () => {
     const success = errors.length === 0
 
     if (success) {
-      console.log('[QSensor Store] Stopped both sensors')
+      console.log('[QSensor Store] Stopped all sensors')
     } else {
-      console.warn('[QSensor Store] Failed to stop both sensors:', errors)
+      console.warn('[QSensor Store] Failed to stop all sensors:', errors)
     }
 
     return { success, errors }
   }
 
+  /**
+   * Start both sensors simultaneously.
+   * @deprecated Use startAll, which also covers sensors added with addSensor.
+   * @param params - Shared recording parameters
+   * @param params.mission
+   * @param params.rateHz
+   * @param params.rollIntervalS
+   */
+  const startBoth = startAll
+
+  /**
+   * Stop both sensors simultaneously.
+   * @deprecated Use stopAll, which also covers sensors added with addSensor.
+   */
+  const stopBoth = stopAll
+
+  /**
+   * Mark the same moment in every recording sensor (manual sync marker during the dive).
+   * Fusion pairs the markers by their shared syncId and fits piecewise drift through them.
+   */
+  async function insertSyncMarker(): Promise<{
+    /**
+     *
+     */
+    success: boolean
+    /**
+     *
+     */
+    errors: string[]
+  }> {
+    const recordingSensors = Array.from(sensors.value.values()).filter(isSensorRecording)
+    if (recordingSensors.length === 0) {
+      return { success: false, errors: ['No sensor is recording'] }
+    }
+
+    const syncId = uuidv4()
+    const errors: string[] = []
+
+    // NOTE: Injected in parallel so the markers land as close together as the links allow
+    const results = await Promise.all(
+      recordingSensors.map(async (sensor) => {
+        try {
+          if (sensor.backendType === 'http') {
+            return await window.electronAPI.injectQSensorSyncMarker(sensor.currentSession!.sessionId, syncId)
+          }
+          if (sensor.backendType === 'serial') {
+            return await window.electronAPI.qsensorSerialSyncMarker(syncId, sensor.serialPort || undefined)
+          }
+          return { success: false, error: `Unknown backend type: ${sensor.backendType}` }
+        } catch (error: any) {
+          return { success: false, error: error.message }
+        }
+      })
+    )
+
+    results.forEach((result, index) => {
+      if (!result.success) {
+        errors.push(`${recordingSensors[index].label}: ${result.error}`)
+      }
+    })
+
+    if (errors.length === 0) {
+      console.log(`[QSensor Store] Sync marker ${syncId.slice(0, 8)} injected into ${recordingSensors.length} sensors`)
+    } else {
+      console.warn('[QSensor Store] Sync marker failed:', errors)
+    }
+
+    return { success: errors.length === 0, errors }
+  }
+
+  /**
+   * Export the Cockpit datalogger points covering the unified session to its session root,
+   * so fusion can add vehicle depth, position and attitude to each row.
+   * Failures are logged and never block stopping the sensors.
+   */
+  async function exportVehicleTelemetry(): Promise<void> {
+    const sessionRoot = unifiedSessionPath.value
+    const startedAt = unifiedSessionStartedAt.value
+    if (!sessionRoot || !startedAt || !window.electronAPI?.qsensorSaveVehicleTelemetry) return
+
+    try {
+      const telemetryLog = await datalogger.generateLog(startedAt, new Date())
+      const result = await window.electronAPI.qsensorSaveVehicleTelemetry(sessionRoot, telemetryLog)
+      if (result.success) {
+        console.log(`[QSensor Store] Exported ${result.data?.pointCount ?? 0} vehicle telemetry points`)
+      } else {
+        console.warn(`[QSensor Store] Failed to export vehicle telemetry: ${result.error}`)
+      }
+    } catch (error: any) {
+      console.warn('[QSensor Store] Vehicle telemetry unavailable (fusion continues without it):', error)
+    }
+  }
+
   /**
    * Refresh fusion status from sync_metadata.json.
    * Call after recording stops to get unified CSV status.
@@ -1309,6 +1832,7 @@ export const useQSensorStore = defineStore('qsensor', () => {
           rowCount: fusion?.rowCount || null,
           inWaterRows: fusion?.inWaterRows || null,
           surfaceRows: fusion?.surfaceRows || null,
+          sensorRows: fusion?.sensorRows || null,
           completedAt: fusion?.completedAt || null,
           error: fusion?.error || null,
         }
@@ -1321,6 +1845,20 @@ export const useQSensorStore = defineStore('qsensor', () => {
     }
   }
 
+  /**
+   * Cancel the fusion running for a session; the previous unified CSV is kept
+   * @param sessionRoot - Optional session root path (defaults to the session of the running fusion)
+   */
+  async function cancelFusion(sessionRoot?: string): Promise<void> {
+    const path = sessionRoot || fusionProgress.value?.sessionRoot
+    if (!path) return
+
+    const result = await window.electronAPI?.qsensorCancelFusion(path)
+    if (result && !result.success) {
+      console.warn(`[QSensor Store] Failed to cancel fusion for ${path}: ${result.error}`)
+    }
+  }
+
   // ========================================
   // COMPUTED GETTERS (Phase 4+)
   // Dual-sensor state aggregation
@@ -1345,34 +1883,58 @@ export const useQSensorStore = defineStore('qsensor', () => {
     return isSensorRecording(inWaterSensor.value) && isSensorRecording(surfaceSensor.value)
   })
 
+  /**
+   * Check if every sensor in the array is connected.
+   */
+  const areAllConnected = computed(() => {
+    return Array.from(sensors.value.values()).every((sensor) => sensor.isConnected)
+  })
+
+  /**
+   * Check if every sensor in the array is recording.
+   */
+  const areAllRecording = computed(() => {
+    return Array.from(sensors.value.values()).every((sensor) => isSensorRecording(sensor))
+  })
+
   /**
    * Check if any sensor is recording.
    */
   const isAnyRecording = computed(() => {
-    return isSensorRecording(inWaterSensor.value) || isSensorRecording(surfaceSensor.value)
+    return Array.from(sensors.value.values()).some((sensor) => isSensorRecording(sensor))
   })
 
   /**
-   * Get total bytes mirrored/recorded across both sensors.
+   * Get total bytes mirrored/recorded across all sensors.
    */
   const totalBytesMirrored = computed(() => {
-    return inWaterSensor.value.bytesMirrored + surfaceSensor.value.bytesMirrored
+    return Array.from(sensors.value.values()).reduce((total, sensor) => total + sensor.bytesMirrored, 0)
   })
 
   /**
-   * Get combined error messages from both sensors.
+   * Get combined error messages from all sensors, prefixed with the sensor label.
    */
   const combinedErrors = computed(() => {
     const errors: string[] = []
-    if (inWaterSensor.value.lastError) {
-      errors.push(`In-water: ${inWaterSensor.value.lastError}`)
-    }
-    if (surfaceSensor.value.lastError) {
-      errors.push(`Surface: ${surfaceSensor.value.lastError}`)
-    }
+    sensors.value.forEach((sensor) => {
+      if (sensor.lastError) {
+        errors.push(`${sensor.label}: ${sensor.lastError}`)
+      }
+    })
     return errors
   })
 
+  /**
+   * Configuration comparison of the connected sensors, run before recording.
+   */
+  const preflightCheck = computed(() =>
+    runPreflightCheck(
+      Array.from(sensors.value.values())
+        .filter((sensor) => sensor.isConnected)
+        .map(preflightSensorFromState)
+    )
+  )
+
   return {
     // Settings
     apiBaseUrl,
@@ -1407,6 +1969,8 @@ export const useQSensorStore = defineStore('qsensor', () => {
     // Multi-sensor API (Phase 4+)
     sensors, // Expose for advanced usage
     getSensor,
+    addSensor,
+    removeSensor,
     setConnectionMode, // Phase 1: Connection mode management
     resetConnectionMode, // Phase 1: Connection mode management
     connectSensor,
@@ -1414,20 +1978,32 @@ export const useQSensorStore = defineStore('qsensor', () => {
     startRecordingSensor,
     stopRecordingSensor,
     refreshSensorStatus,
+    refreshSensorCalibration,
+    captureDark,
+    clearDarkCapture,
+    matchSerialSensorConfig,
+    startAll,
+    stopAll,
     startBoth,
     stopBoth,
+    insertSyncMarker,
     unifiedSessionId,
     unifiedSessionPath,
     fusionStatus,
+    fusionProgress,
     refreshFusionStatus,
+    cancelFusion,
 
     // Computed getters (Phase 4+)
     surfaceSensor,
     inWaterSensor,
     areBothConnected,
     areBothRecording,
+    areAllConnected,
+    areAllRecording,
     isAnyRecording,
     totalBytesMirrored,
     combinedErrors,
+    preflightCheck,
   }
 })
@@ -0,0 +1,91 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+
+import * as Connection from '@/libs/connection/connection'
+import { ConnectionManager } from '@/libs/connection/connection-manager'
+import { ReplayConnection, ReplayStatus } from '@/libs/connection/replay-connection'
+import * as Protocol from '@/libs/vehicle/protocol/protocol'
+
+/**
+ * How often the replay state shown in the interface is refreshed
+ */
+const statusIntervalMs = 250
+
+export const useReplayStore = defineStore('replay', () => {
+  const status = ref<ReplayStatus>()
+  const isReplaying = computed(() => status.value !== undefined)
+
+  let replay: ReplayConnection | undefined
+  let vehicleConnectionURI: Connection.URI | undefined
+  let statusTimer: ReturnType<typeof setInterval> | undefined
+
+  const endReplay = (): void => {
+    if (replay) ConnectionManager.removeConnection(replay)
+    replay = undefined
+    clearInterval(statusTimer)
+    statusTimer = undefined
+    status.value = undefined
+  }
+
+  const refreshStatus = (): void => {
+    if (replay && ConnectionManager.mainConnection() !== replay) {
+      // Another connection was chosen, and the vehicle one is no longer the one to restore
+      endReplay()
+      vehicleConnectionURI = undefined
+      return
+    }
+    status.value = replay?.status()
+  }
+
+  /**
+   * Replace the vehicle connection by the replay of a tlog file
+   * @param {string} fileName - Name of a file of the tlog folder
+   */
+  const startReplay = (fileName: string): void => {
+    if (replay) {
+      endReplay()
+    } else {
+      vehicleConnectionURI = ConnectionManager.primaryConnection()?.uri()
+    }
+
+    const uri = new Connection.URI(`${Connection.Type.Replay}:///${encodeURIComponent(fileName)}`)
+    ConnectionManager.addConnection(uri, Protocol.Type.MAVLink)
+    replay = ConnectionManager.mainConnection() as ReplayConnection
+
+    statusTimer = setInterval(refreshStatus, statusIntervalMs)
+    refreshStatus()
+  }
+
+  /**
+   * End the replay and reconnect to the vehicle
+   */
+  const stopReplay = (): void => {
+    endReplay()
+    if (vehicleConnectionURI) {
+      ConnectionManager.addConnection(vehicleConnectionURI, Protocol.Type.MAVLink)
+      vehicleConnectionURI = undefined
+    }
+  }
+
+  const play = (): void => {
+    replay?.play()
+    refreshStatus()
+  }
+
+  const pause = (): void => {
+    replay?.pause()
+    refreshStatus()
+  }
+
+  const seek = (positionMs: number): void => {
+    replay?.seek(positionMs)
+    refreshStatus()
+  }
+
+  const setSpeed = (speed: number): void => {
+    replay?.setSpeed(speed)
+    refreshStatus()
+  }
+
+  return { status, isReplaying, startReplay, stopReplay, play, pause, seek, setSpeed }
+})
@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { watch } from 'vue'
 
+import { ConnectionManager } from '@/libs/connection/connection-manager'
 import { useAlertStore } from '@/stores/alert'
 import { useMainVehicleStore } from '@/stores/mainVehicle'
 import { Alert, AlertLevel } from '@/types/alert'
@@ -35,4 +36,20 @@ export const useVehicleAlerterStore = defineStore('vehicle-alerter', () => {
       alertStore.pushAlert(new Alert(alertLevel, `Vehicle ${alertMessage}`))
     }
   )
+
+  watch(
+    () => vehicleStore.mainConnectionURI,
+    (uri, previousUri) => {
+      if (uri === undefined || previousUri === undefined) return
+      const connections = ConnectionManager.connections().map((connection) => connection.uri().toString())
+      // The configured connection was changed, not failed over
+      if (!connections.includes(previousUri)) return
+
+      if (uri === ConnectionManager.primaryConnection()?.uri().toString()) {
+        alertStore.pushAlert(new Alert(AlertLevel.Info, `Vehicle link back to ${uri}`))
+      } else {
+        alertStore.pushAlert(new Alert(AlertLevel.Warning, `Vehicle link lost, switched to ${uri}`))
+      }
+    }
+  )
 })
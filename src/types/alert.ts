@@ -23,6 +23,10 @@ export interface AlertInterface {
    * Date object indicating the time of creation
    */
   time_created: Date
+  /**
+   * What is spoken instead of the message, for voice alerts
+   */
+  voiceText?: string
 }
 
 /**
@@ -34,10 +38,69 @@ export class Alert implements AlertInterface {
    * @param { AlertLevel } level - Indicates the nature of the alert. Similar to logging systems.
    * @param { string } message - What is being communicated
    * @param { Date } time_created - Date object indicating the time of creation
+   * @param { string } voiceText - What is spoken instead of the message, for voice alerts
    */
   constructor(
     public readonly level: AlertLevel,
     public readonly message: string,
-    public readonly time_created = new Date()
+    public readonly time_created = new Date(),
+    public readonly voiceText?: string
   ) {}
 }
+
+/**
+ * Condition of an alert rule on a Data Lake variable
+ * - 'above' / 'below': value compared to the threshold
+ * - 'equal' / 'not-equal': value compared to the threshold (booleans count as 1 and 0)
+ * - 'rate-above' / 'rate-below': rate of change compared to the threshold (units per second)
+ * - 'stale': no new value for threshold seconds
+ */
+export type AlertRuleCondition = 'above' | 'below' | 'equal' | 'not-equal' | 'rate-above' | 'rate-below' | 'stale'
+
+/** User-defined alert raised from a Data Lake variable */
+export interface AlertRule {
+  /**
+   * Unique identifier of the rule
+   */
+  id: string
+  /**
+   * Name shown in the alert, e.g. 'Max depth'
+   */
+  name: string
+  /**
+   * Whether the rule is evaluated
+   */
+  enabled: boolean
+  /**
+   * Id of the Data Lake variable watched
+   */
+  variableId: string
+  /**
+   * Condition that raises the alert
+   */
+  condition: AlertRuleCondition
+  /**
+   * Threshold of the condition (value, units per second or seconds, depending on the condition)
+   */
+  threshold: number
+  /**
+   * How far back past the threshold the value must go to clear the alert (comparisons and rates)
+   */
+  hysteresis: number
+  /**
+   * How long the condition must hold before the alert is raised, in seconds
+   */
+  durationS: number
+  /**
+   * Level of the alert raised
+   */
+  level: AlertLevel
+  /**
+   * Spoken instead of the alert message, if set
+   */
+  voiceText?: string
+  /**
+   * Cockpit action executed when the alert is raised, if set
+   */
+  actionId?: string
+}
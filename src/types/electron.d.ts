@@ -5,6 +5,35 @@
  * the Cockpit desktop application for communication with the main process.
  */
 
+import type { ArchiveBatchEntry, ArchiveExportOptions } from '@/electron/services/qsensor-archive-export'
+import type { QSeriesConfigPreset } from '@/electron/services/qsensor-config-presets'
+import type { FusionProgress } from '@/electron/services/qsensor-fusion'
+import type { QSensorMockApiOptions, QSensorMockApiStatus } from '@/electron/services/qsensor-mock-api'
+import type { ProfileAnalysisOptions, ProfileSummary } from '@/electron/services/qsensor-profile'
+import type { QSeriesEditableConfig, QSeriesSensorConfig } from '@/electron/services/qsensor-protocol'
+import type { QcAnalysisOptions, QcReport } from '@/electron/services/qsensor-qc'
+import type {
+  QSeriesBusHealth,
+  QSeriesBusNode,
+  QSeriesBusOptions,
+  QSeriesBusTagStatusEvent,
+} from '@/electron/services/qsensor-serial-bus'
+import type { ConfigApplyResult } from '@/electron/services/qsensor-serial-controller'
+import type { SessionFilePreview, SessionLibraryEntry } from '@/electron/services/qsensor-session-library'
+import type { ArchiveExportFormat, SensorCalibrationInfo } from '@/electron/services/qsensor-session-utils'
+import type { TlogFileInfo, TlogRecorderStatus, TlogRecordingSettings } from '@/electron/services/tlog-recorder'
+import type { CockpitStandardLog } from '@/libs/sensors-logging'
+import type {
+  QSensorCalibrationCheck,
+  QSensorCalibrationRecord,
+  QSensorDarkCapture,
+  QSensorFusionOptions,
+  QSensorId,
+  QSensorLiveReading,
+  QSensorPreflightResult,
+  QSensorRole,
+} from '@/types/qsensor'
+
 declare global {
   /**
    *
@@ -73,6 +102,46 @@ declare global {
         error?: string
       }>
 
+      /**
+       *
+       */
+      qsensorGetLatestReading: (baseUrl: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorLiveReading
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Capture dark readings from an HTTP sensor (acquisition is started and stopped on the Pi)
+       */
+      qsensorCaptureDark: (
+        baseUrl: string,
+        durationS: number,
+        pollHz?: number
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorDarkCapture
+        /**
+         *
+         */
+        error?: string
+      }>
+
       /**
        *
        */
@@ -183,7 +252,17 @@ declare global {
         fullBandwidth: boolean,
         unifiedSessionTimestamp?: string,
         syncId?: string,
-        sensorId?: 'inWater' | 'surface'
+        sensorId?: QSensorId,
+        sensorInfo?: {
+          /**
+           * Role of the sensor in the deployment
+           */
+          role?: QSensorRole
+          /**
+           * Short display name of the sensor
+           */
+          label?: string
+        }
       ) => Promise<{
         /**
          *
@@ -240,6 +319,23 @@ declare global {
         error?: string
       }>
 
+      /**
+       * Inject an intermediate sync marker into a mirrored Pi recording
+       */
+      injectQSensorSyncMarker: (
+        sessionId: string,
+        syncId: string
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
       // Q-Sensor storage path configuration
       /**
        *
@@ -295,7 +391,7 @@ declare global {
       /**
        *
        */
-      qsensorSerialDisconnect: () => Promise<{
+      qsensorSerialDisconnect: (port?: string) => Promise<{
         /**
          *
          */
@@ -313,7 +409,7 @@ declare global {
       /**
        *
        */
-      qsensorSerialGetHealth: () => Promise<{
+      qsensorSerialGetHealth: (port?: string) => Promise<{
         /**
          *
          */
@@ -331,7 +427,10 @@ declare global {
       /**
        *
        */
-      qsensorSerialStartAcquisition: (pollHz: number) => Promise<{
+      qsensorSerialStartAcquisition: (
+        pollHz: number,
+        port?: string
+      ) => Promise<{
         /**
          *
          */
@@ -349,7 +448,7 @@ declare global {
       /**
        *
        */
-      qsensorSerialStopAcquisition: () => Promise<{
+      qsensorSerialStopAcquisition: (port?: string) => Promise<{
         /**
          *
          */
@@ -365,34 +464,48 @@ declare global {
       }>
 
       /**
-       *
+       * Re-read the serial sensor's configuration dump (sensor must not be acquiring)
        */
-      qsensorSerialStartRecording: (params: {
+      qsensorSerialReadConfig: (port?: string) => Promise<{
         /**
          *
          */
-        mission: string
+        success: boolean
         /**
          *
          */
-        rollIntervalS?: number
+        data?: QSeriesSensorConfig
         /**
          *
          */
-        rateHz?: number
+        error?: string
+      }>
+
+      /**
+       * Apply configuration changes to the serial sensor; previous values are restored on failure
+       */
+      qsensorSerialApplyConfig: (
+        changes: Partial<QSeriesEditableConfig>,
+        port?: string
+      ) => Promise<{
         /**
          *
          */
-        storagePath?: string
+        success: boolean
         /**
          *
          */
-        unifiedSessionTimestamp?: string
+        data?: ConfigApplyResult
         /**
          *
          */
-        syncId?: string
-      }) => Promise<{
+        error?: string
+      }>
+
+      /**
+       * List configuration presets saved for a serial number (sorted by name)
+       */
+      qsensorListConfigPresets: (serialNumber: string) => Promise<{
         /**
          *
          */
@@ -400,7 +513,7 @@ declare global {
         /**
          *
          */
-        data?: any
+        data?: QSeriesConfigPreset[]
         /**
          *
          */
@@ -408,9 +521,13 @@ declare global {
       }>
 
       /**
-       *
+       * Create or replace a configuration preset; returns the sensor's presets
        */
-      qsensorSerialStopRecording: () => Promise<{
+      qsensorSaveConfigPreset: (
+        serialNumber: string,
+        name: string,
+        config: QSeriesEditableConfig
+      ) => Promise<{
         /**
          *
          */
@@ -418,7 +535,7 @@ declare global {
         /**
          *
          */
-        data?: any
+        data?: QSeriesConfigPreset[]
         /**
          *
          */
@@ -426,9 +543,12 @@ declare global {
       }>
 
       /**
-       *
+       * Delete a configuration preset; returns the sensor's remaining presets
        */
-      qsensorSerialGetStats: () => Promise<{
+      qsensorDeleteConfigPreset: (
+        serialNumber: string,
+        name: string
+      ) => Promise<{
         /**
          *
          */
@@ -436,7 +556,7 @@ declare global {
         /**
          *
          */
-        data?: any
+        data?: QSeriesConfigPreset[]
         /**
          *
          */
@@ -444,9 +564,13 @@ declare global {
       }>
 
       /**
-       *
+       * Capture dark readings from the serial sensor (starts and stops acquisition if needed)
        */
-      qsensorSerialListPorts: () => Promise<{
+      qsensorSerialCaptureDark: (
+        durationS: number,
+        pollHz?: number,
+        port?: string
+      ) => Promise<{
         /**
          *
          */
@@ -454,108 +578,100 @@ declare global {
         /**
          *
          */
-        data?: any
+        data?: QSensorDarkCapture
         /**
          *
          */
         error?: string
       }>
 
-      // Q-Sensor time sync APIs
       /**
        *
        */
-      measureClockOffset: (baseUrl: string) => Promise<{
+      qsensorSerialStartRecording: (params: {
+        /**
+         * Serial port of the sensor, may be omitted while a single serial sensor is connected
+         */
+        port?: string
         /**
          *
          */
-        method: string
+        mission: string
         /**
          *
          */
-        offsetMs: number | null
+        rollIntervalS?: number
         /**
          *
          */
-        uncertaintyMs: number | null
+        rateHz?: number
         /**
          *
          */
-        topsideResponseEnd: string | null
+        storagePath?: string
         /**
          *
          */
-        error?: string | null
+        unifiedSessionTimestamp?: string
+        /**
+         *
+         */
+        syncId?: string
+        /**
+         * Dark capture applied to the recording
+         */
+        darkCapture?: QSensorDarkCapture | null
+        /**
+         * Key of the sensor in the unified session (defaults to 'surface')
+         */
+        sessionSensor?: QSensorId
+        /**
+         * Role of the sensor in the deployment
+         */
+        sensorRole?: QSensorRole
+        /**
+         * Short display name of the sensor
+         */
+        sensorLabel?: string
+      }) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: any
+        /**
+         *
+         */
+        error?: string
       }>
 
-      // PHASE 3B: Per-sensor time sync
       /**
        *
        */
-      updateSensorTimeSync: (
-        sessionRoot: string,
-        sensorId: 'inWater' | 'surface',
-        timeSync: {
-          /**
-           *
-           */
-          method: string
-          /**
-           *
-           */
-          offsetMs: number | null
-          /**
-           *
-           */
-          uncertaintyMs: number | null
-          /**
-           *
-           */
-          measuredAt: string | null
-          /**
-           *
-           */
-          error?: string | null
-        }
-      ) => Promise<{
+      qsensorSerialStopRecording: (port?: string) => Promise<{
         /**
          *
          */
         success: boolean
+        /**
+         *
+         */
+        data?: any
         /**
          *
          */
         error?: string
       }>
 
-      // @deprecated Use updateSensorTimeSync
       /**
-       *
+       * Inject an intermediate sync marker into the local recording
        */
-      updateSyncMetadata: (
-        sessionRoot: string,
-        timeSync: {
-          /**
-           *
-           */
-          method: string
-          /**
-           *
-           */
-          offsetMs: number | null
-          /**
-           *
-           */
-          uncertaintyMs: number | null
-          /**
-           *
-           */
-          measuredAt: string | null
-          /**
-           *
-           */
-          error?: string | null
-        }
+      qsensorSerialSyncMarker: (
+        syncId: string,
+        port?: string
       ) => Promise<{
         /**
          *
@@ -567,13 +683,10 @@ declare global {
         error?: string
       }>
 
-      // Q-Sensor fusion APIs
-      // NOTE: Fusion works for both API and serial surface sensors.
-      //       Both modes write to unified session structure for fusion.
       /**
        *
        */
-      qsensorGetFusionStatus: (sessionRoot: string) => Promise<{
+      qsensorSerialGetStats: (port?: string) => Promise<{
         /**
          *
          */
@@ -581,49 +694,7 @@ declare global {
         /**
          *
          */
-        data?: {
-          /**
-           *
-           */
-          fusion: {
-            /**
-             *
-             */
-            status: 'pending' | 'complete' | 'skipped' | 'failed'
-            /**
-             *
-             */
-            unifiedCsv: string | null
-            /**
-             *
-             */
-            rowCount: number | null
-            /**
-             *
-             */
-            inWaterRows: number | null
-            /**
-             *
-             */
-            surfaceRows: number | null
-            /**
-             *
-             */
-            completedAt: string | null
-            /**
-             *
-             */
-            error: string | null
-          } | null
-          /**
-           *
-           */
-          unifiedCsvPath: string | null
-          /**
-           *
-           */
-          exists: boolean
-        }
+        data?: any
         /**
          *
          */
@@ -633,7 +704,7 @@ declare global {
       /**
        *
        */
-      qsensorTriggerManualFusion: (sessionRoot: string) => Promise<{
+      qsensorSerialListPorts: () => Promise<{
         /**
          *
          */
@@ -641,24 +712,880 @@ declare global {
         /**
          *
          */
-        unifiedCsvPath?: string
+        data?: any
         /**
          *
          */
-        totalRows?: number
+        error?: string
+      }>
+
+      /**
+       * Subscribe to live readings forwarded from the serial controller
+       */
+      onQSensorSerialReading: (callback: (reading: QSensorLiveReading) => void) => void
+
+      // Q-Sensor multi-drop polled bus APIs
+      /**
+       * Open a port shared by several polled heads, one per TAG
+       */
+      qsensorBusConnect: (
+        port: string,
+        baudRate: number,
+        nodes: QSeriesBusNode[],
+        options?: Partial<QSeriesBusOptions>
+      ) => Promise<{
         /**
          *
          */
-        inWaterRows?: number
+        success: boolean
         /**
          *
          */
-        surfaceRows?: number
+        data?: QSeriesBusHealth
         /**
          *
          */
         error?: string
       }>
+
+      /**
+       * Initialize every head and poll them round-robin, each at pollHz
+       */
+      qsensorBusStart: (pollHz: number) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSeriesBusHealth
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       *
+       */
+      qsensorBusStop: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       *
+       */
+      qsensorBusDisconnect: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Bus health with per-TAG replies, timeouts and status
+       */
+      qsensorBusGetHealth: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSeriesBusHealth
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Subscribe to live readings from heads on the bus, throttled per TAG
+       */
+      onQSensorBusReading: (
+        callback: (
+          reading: QSensorLiveReading & {
+            /**
+             *
+             */
+            tag: string
+          }
+        ) => void
+      ) => void
+
+      /**
+       * Subscribe to per-TAG status changes (waiting, ok, offline)
+       */
+      onQSensorBusTagStatus: (callback: (event: QSeriesBusTagStatusEvent) => void) => void
+
+      // Q-Sensor time sync APIs
+      /**
+       *
+       */
+      measureClockOffset: (baseUrl: string) => Promise<{
+        /**
+         *
+         */
+        method: string
+        /**
+         *
+         */
+        offsetMs: number | null
+        /**
+         *
+         */
+        uncertaintyMs: number | null
+        /**
+         *
+         */
+        topsideResponseEnd: string | null
+        /**
+         *
+         */
+        error?: string | null
+      }>
+
+      // PHASE 3B: Per-sensor time sync
+      /**
+       *
+       */
+      updateSensorTimeSync: (
+        sessionRoot: string,
+        sensorId: QSensorId,
+        timeSync: {
+          /**
+           *
+           */
+          method: string
+          /**
+           *
+           */
+          offsetMs: number | null
+          /**
+           *
+           */
+          uncertaintyMs: number | null
+          /**
+           *
+           */
+          measuredAt: string | null
+          /**
+           *
+           */
+          error?: string | null
+        }
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Store the pre-flight configuration check in the session's sync_metadata.json
+       */
+      qsensorRecordSessionPreflight: (
+        sessionRoot: string,
+        preflight: QSensorPreflightResult
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      // @deprecated Use updateSensorTimeSync
+      /**
+       *
+       */
+      updateSyncMetadata: (
+        sessionRoot: string,
+        timeSync: {
+          /**
+           *
+           */
+          method: string
+          /**
+           *
+           */
+          offsetMs: number | null
+          /**
+           *
+           */
+          uncertaintyMs: number | null
+          /**
+           *
+           */
+          measuredAt: string | null
+          /**
+           *
+           */
+          error?: string | null
+        }
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      // Q-Sensor fusion APIs
+      // NOTE: Fusion works for both API and serial surface sensors.
+      //       Both modes write to unified session structure for fusion.
+      /**
+       *
+       */
+      qsensorGetFusionStatus: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: {
+          /**
+           *
+           */
+          fusion: {
+            /**
+             *
+             */
+            status: 'pending' | 'complete' | 'skipped' | 'failed'
+            /**
+             *
+             */
+            unifiedCsv: string | null
+            /**
+             *
+             */
+            rowCount: number | null
+            /**
+             *
+             */
+            inWaterRows: number | null
+            /**
+             *
+             */
+            surfaceRows: number | null
+            /**
+             * Rows with a value from each sensor, keyed by sensor id
+             */
+            sensorRows?: Record<QSensorId, number> | null
+            /**
+             *
+             */
+            completedAt: string | null
+            /**
+             *
+             */
+            error: string | null
+          } | null
+          /**
+           *
+           */
+          unifiedCsvPath: string | null
+          /**
+           *
+           */
+          exists: boolean
+        }
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Fuse a session again; without options, the options of its last run (or the defaults) are used
+       */
+      qsensorTriggerManualFusion: (
+        sessionRoot: string,
+        fusionOptions?: Partial<QSensorFusionOptions>
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        unifiedCsvPath?: string
+        /**
+         *
+         */
+        totalRows?: number
+        /**
+         *
+         */
+        inWaterRows?: number
+        /**
+         *
+         */
+        surfaceRows?: number
+        /**
+         *
+         */
+        vehicleRows?: number
+        /**
+         * Set when the run was cancelled; the previous unified CSV is kept
+         */
+        cancelled?: boolean
+        /**
+         * Options the session was fused with
+         */
+        options?: QSensorFusionOptions
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Cancel the fusion running for a session
+       */
+      qsensorCancelFusion: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Subscribe to progress of manual and automatic fusion runs
+       */
+      onQSensorFusionProgress: (callback: (progress: FusionProgress) => void) => void
+
+      /**
+       * Store Cockpit datalogger points for a unified session so fusion can georeference rows
+       */
+      qsensorSaveVehicleTelemetry: (
+        sessionRoot: string,
+        points: CockpitStandardLog
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: {
+          /**
+           *
+           */
+          pointCount: number
+        }
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Load profile_summary.json for a fused session (null data when the analysis hasn't run)
+       */
+      qsensorGetProfileSummary: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: ProfileSummary | null
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Re-run the light profile analysis for a fused session
+       */
+      qsensorRunProfileAnalysis: (
+        sessionRoot: string,
+        options?: ProfileAnalysisOptions
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: ProfileSummary
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Load qc_report.json for a session (null data when QC hasn't run)
+       */
+      qsensorGetQcReport: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QcReport | null
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Re-run quality control for a session, with thresholds overriding the previous run's
+       */
+      qsensorRunQc: (
+        sessionRoot: string,
+        options?: QcAnalysisOptions
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QcReport
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * List stored calibration records (sorted by serial number)
+       */
+      qsensorListCalibrations: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorCalibrationRecord[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Create or replace the calibration record for a serial number; returns the updated list
+       */
+      qsensorSaveCalibration: (record: QSensorCalibrationRecord) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorCalibrationRecord[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Delete the calibration record for a serial number; returns the updated list
+       */
+      qsensorDeleteCalibration: (serialNumber: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorCalibrationRecord[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Check a sensor against its stored calibration (expiry and device calfactor mismatch)
+       */
+      qsensorCheckCalibration: (
+        serialNumber: string,
+        deviceCalFactor?: number | null
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorCalibrationCheck
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Store the calibration used for a sensor recording in sync_metadata.json
+       */
+      qsensorRecordSessionCalibration: (
+        sessionRoot: string,
+        sensor: QSensorId,
+        serialNumber: string,
+        deviceCalFactor?: number | null
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: SensorCalibrationInfo
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Store the dark capture applied to a sensor recording in sync_metadata.json
+       */
+      qsensorRecordSessionDark: (
+        sessionRoot: string,
+        sensor: QSensorId,
+        capture: QSensorDarkCapture
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * List the unified sessions under the Q-Sensor storage path, newest first
+       */
+      qsensorListSessions: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: SessionLibraryEntry[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Read the header and first rows of a CSV in a session
+       */
+      qsensorPreviewSessionFile: (
+        sessionRoot: string,
+        file: string,
+        maxRows?: number
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: SessionFilePreview
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Delete a session directory
+       */
+      qsensorDeleteSession: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Export a session as a zip archive chosen in a save dialog (data is null when cancelled)
+       */
+      qsensorExportSessionZip: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: {
+          /**
+           *
+           */
+          path: string
+          /**
+           *
+           */
+          fileCount: number
+        } | null
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Open a session directory in the system file manager
+       */
+      qsensorOpenSessionFolder: (sessionRoot: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Export fused sessions to archive formats (NetCDF-CF, SeaBASS), one entry per session and format
+       */
+      qsensorExportArchives: (
+        sessionRoots: string[],
+        formats: ArchiveExportFormat[],
+        options?: ArchiveExportOptions
+      ) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: ArchiveBatchEntry[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Start the local mock Q_Sensor_API server (restarts it if running)
+       */
+      qsensorStartMockApi: (options?: Partial<QSensorMockApiOptions>) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorMockApiStatus
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Stop the local mock Q_Sensor_API server
+       */
+      qsensorStopMockApi: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Get the local mock Q_Sensor_API server state
+       */
+      qsensorGetMockApiStatus: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: QSensorMockApiStatus
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Get the tlog recorder settings, armed state and current file
+       */
+      tlogGetStatus: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: TlogRecorderStatus
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Change and save the tlog recorder settings
+       */
+      tlogSetSettings: (settings: Partial<TlogRecordingSettings>) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: TlogRecorderStatus
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * List the tlog files, newest first
+       */
+      tlogListFiles: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: TlogFileInfo[]
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Delete a tlog file (not the one being recorded)
+       */
+      tlogDeleteFile: (name: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Read a tlog file, e.g. to replay it
+       */
+      tlogReadFile: (name: string) => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        data?: Uint8Array
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Open the tlog folder in the system file manager
+       */
+      tlogOpenFolder: () => Promise<{
+        /**
+         *
+         */
+        success: boolean
+        /**
+         *
+         */
+        error?: string
+      }>
+
+      /**
+       * Record the MAVLink frames of a link the desktop app didn't open, e.g. a WebSocket one
+       */
+      tlogRecordLinkData: (path: string, data: Uint8Array, direction: 'in' | 'out', timestampMs: number) => void
+
+      /**
+       * Forget a link recorded with tlogRecordLinkData once it is removed
+       */
+      tlogCloseLink: (path: string) => void
+
+      /**
+       * Listen to the tlog recorder mode changes and to the start and end of recordings
+       */
+      onTlogStatusChange: (callback: (status: TlogRecorderStatus) => void) => void
     }
   }
 }
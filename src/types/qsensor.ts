@@ -7,12 +7,43 @@
 
 /**
  * Sensor identity type.
- * - 'inWater': In-water sensor (can use HTTP to BlueOS Pi or Serial)
- * - 'surface': Surface reference sensor (can use HTTP to separate Pi or Serial)
+ * - 'inWater': Default in-water sensor (can use HTTP to BlueOS Pi or Serial)
+ * - 'surface': Default surface reference sensor (can use HTTP to separate Pi or Serial)
  *
- * Phase 1: Both sensors support HTTP (dual-API) mode with separate base URLs.
+ * Sensor arrays add more sensors under their own ids (e.g. 'upLooking'), see QSensorRole.
+ * Ids are used as sync_metadata.json keys and in directory and column names.
  */
-export type QSensorId = 'inWater' | 'surface'
+export type QSensorId = string
+
+/**
+ * Ids of the sensors every session starts with.
+ */
+export const defaultQSensorIds: QSensorId[] = ['inWater', 'surface']
+
+/**
+ * Role of a sensor in the deployment.
+ * - 'surface': Surface reference, fusion aligns every other sensor to it (one per session)
+ * - 'inWater': In-water sensor
+ * - 'upLooking' / 'downLooking': In-water sensors of an array, by orientation
+ */
+export type QSensorRole = 'surface' | 'inWater' | 'upLooking' | 'downLooking'
+
+/**
+ * Human-readable names of the sensor roles.
+ */
+export const qsensorRoleNames: Record<QSensorRole, string> = {
+  surface: 'Surface Reference',
+  inWater: 'In-Water',
+  upLooking: 'Up-Looking',
+  downLooking: 'Down-Looking',
+}
+
+/**
+ * Role of a sensor that has none recorded (default sensors and sessions from before roles existed).
+ * @param {QSensorId} sensorId - Sensor identifier
+ * @returns {QSensorRole} 'surface' for the default surface sensor, 'inWater' otherwise
+ */
+export const defaultQSensorRole = (sensorId: QSensorId): QSensorRole => (sensorId === 'surface' ? 'surface' : 'inWater')
 
 /**
  * Backend connection type for a sensor.
@@ -54,6 +85,27 @@ export interface QSensorHealthData {
   config?: QSensorConfigData | null
 }
 
+/**
+ * Live reading pushed to the renderer for Data Lake publishing.
+ * Shared by the serial forwarder and the HTTP latest-reading proxy.
+ */
+export interface QSensorLiveReading {
+  /** Wall-clock timestamp of the reading (ISO 8601) */
+  timestamp: string
+  /** Sensor serial number / ID reported by the device */
+  sensorId: string | null
+  /** Acquisition mode ('freerun' or 'polled') */
+  mode: string | null
+  /** Primary channel value (irradiance) */
+  value: number
+  /** Temperature in Celsius, when the sensor reports it */
+  TempC?: number
+  /** Input voltage, when the sensor reports it */
+  Vin?: number
+  /** Serial port the reading came from (serial backend only) */
+  port?: string
+}
+
 /**
  * Sensor configuration data (from serial controller).
  */
@@ -68,6 +120,88 @@ export interface QSensorConfigData {
   mode?: string | null
   /** Tag for polled mode */
   tag?: string | null
+  /** Calibration factor stored on the device */
+  calFactor?: number | null
+  /** Whether data frames include the temperature */
+  includeTemp?: boolean | null
+  /** Whether data frames include the supply voltage */
+  includeVin?: boolean | null
+}
+
+/**
+ * Calibration record for one sensor, keyed by serial number.
+ * Calibrated value = (raw - darkOffset) * calFactor * immersionCoefficient
+ */
+export interface QSensorCalibrationRecord {
+  /** Sensor serial number the record applies to */
+  serialNumber: string
+  /** Calibration factor (engineering units per raw count) */
+  calFactor: number
+  /** Raw dark reading subtracted before scaling */
+  darkOffset: number
+  /** Immersion coefficient (1 for sensors used in air) */
+  immersionCoefficient: number
+  /** Engineering units of the calibrated value (e.g. 'µE/cm²·s') */
+  units: string
+  /** Calibration date (ISO 8601) */
+  calDate: string
+  /** Days the calibration stays valid after calDate (defaults to 365) */
+  validityDays?: number
+  /** Free-form notes (lab, certificate number...) */
+  notes?: string
+}
+
+/**
+ * Calibration state of a sensor.
+ * - 'valid': a record exists and has not expired
+ * - 'expired': a record exists but is past its validity period
+ * - 'missing': no record for this serial number
+ */
+export type QSensorCalibrationStatus = 'valid' | 'expired' | 'missing'
+
+/**
+ * Result of checking a sensor against the stored calibration records.
+ */
+export interface QSensorCalibrationCheck {
+  /** Sensor serial number that was checked */
+  serialNumber: string
+  /** Calibration state */
+  status: QSensorCalibrationStatus
+  /** Stored record, if any */
+  record: QSensorCalibrationRecord | null
+  /** When the stored record expires (ISO 8601) */
+  expiresAt: string | null
+  /** Calibration factor reported by the device, when known */
+  deviceCalFactor: number | null
+  /** Whether the device calibration factor disagrees with the stored one */
+  calFactorMismatch: boolean
+  /** Human-readable warnings (expired, mismatch, missing) */
+  warnings: string[]
+}
+
+/**
+ * Dark reading statistics captured with the sensor capped, before deployment.
+ * Fusion subtracts valueMean from the raw values of sessions recorded with it.
+ */
+export interface QSensorDarkCapture {
+  /** Serial number of the sensor the dark was captured from */
+  serialNumber: string | null
+  /** Capture start (ISO 8601) */
+  startedAt: string
+  /** Capture end (ISO 8601) */
+  completedAt: string
+  /** Requested capture duration in seconds */
+  durationS: number
+  /** Number of readings used */
+  sampleCount: number
+  /** Mean raw value */
+  valueMean: number
+  /** Standard deviation of the raw value */
+  valueStd: number
+  /** Mean temperature in Celsius, null when the sensor does not report it */
+  tempCMean: number | null
+  /** Standard deviation of the temperature, null when the sensor does not report it */
+  tempCStd: number | null
 }
 
 /**
@@ -137,6 +271,14 @@ export interface QSensorState {
    *
    */
   sensorId: QSensorId
+  /**
+   * Role of the sensor in the deployment
+   */
+  role: QSensorRole
+  /**
+   * Short display name, used to prefix errors (e.g. 'In-water')
+   */
+  label: string
   /**
    * Backend connection type. Null until connection mode is selected.
    */
@@ -179,6 +321,14 @@ export interface QSensorState {
    *
    */
   healthData: QSensorHealthData | null
+  /**
+   * Calibration check for the connected sensor (null until checked)
+   */
+  calibration: QSensorCalibrationCheck | null
+  /**
+   * Dark capture taken since connecting (applied to the next recordings)
+   */
+  darkCapture: QSensorDarkCapture | null
 
   // Session/recording
   /**
@@ -280,3 +430,109 @@ export interface QSensorClockOffsetMeasurement {
    */
   method: 'http_roundtrip' | 'mavlink_timesync' | 'manual'
 }
+
+/**
+ * Severity of a pre-flight finding.
+ * - 'error': fused ratios would be misleading (e.g. different output rates)
+ * - 'warning': the sensors sample differently but the data stays comparable
+ * - 'info': cosmetic differences or values a sensor does not report
+ */
+export type QSensorPreflightSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * Configuration of one sensor as seen by the pre-flight check.
+ */
+export interface QSensorPreflightSensor {
+  /** Sensor identifier */
+  sensorId: QSensorId
+  /** Display name */
+  label: string
+  /** Backend the sensor is connected through */
+  backendType: QSensorBackendType | null
+  /** Firmware version reported by the sensor */
+  firmware: string | null
+  /** Configuration reported by the sensor, null when unknown */
+  config: QSensorConfigData | null
+}
+
+/**
+ * One difference between a sensor and the reference sensor.
+ */
+export interface QSensorPreflightIssue {
+  /** Sensor that differs from the reference */
+  sensorId: QSensorId
+  /** Compared setting */
+  field: 'config' | 'outputRateHz' | 'rateHz' | 'averaging' | 'mode' | 'includeTemp' | 'includeVin' | 'firmware'
+  /** How much the difference matters for fusion */
+  severity: QSensorPreflightSeverity
+  /** Human-readable description */
+  message: string
+  /** Value on the reference sensor (null when not reported) */
+  reference: string | number | boolean | null
+  /** Value on the compared sensor (null when not reported) */
+  actual: string | number | boolean | null
+}
+
+/**
+ * Result of comparing the configurations of the session sensors before recording.
+ */
+export interface QSensorPreflightResult {
+  /** When the check ran (ISO 8601) */
+  checkedAt: string
+  /** Sensor the others are compared to, null when fewer than two sensors are connected */
+  referenceSensorId: QSensorId | null
+  /** Configurations that were compared */
+  sensors: QSensorPreflightSensor[]
+  /** Differences found, errors first */
+  issues: QSensorPreflightIssue[]
+  /** True when no issue has 'error' severity */
+  passed: boolean
+  /** Sensor whose configuration was changed to match the reference, if any */
+  matchedSensorId?: QSensorId | null
+}
+
+/**
+ * How fusion estimates a sensor's reading at the time of a unified row.
+ * - 'hold-last': latest reading at or before the row
+ * - 'nearest': closest reading before or after the row
+ * - 'linear': interpolated between the readings either side of the row
+ * - 'window-average': time-weighted average of the readings held over a window centred on the row
+ */
+export type QSensorFusionMethod = 'hold-last' | 'nearest' | 'linear' | 'window-average'
+
+/**
+ * Fusion options of a session, stored with its fusion status in sync_metadata.json.
+ */
+export interface QSensorFusionOptions {
+  /** How the other sensors (and the driving sensor, on a grid) are sampled at each row */
+  method: QSensorFusionMethod
+  /** Width of the 'window-average' window (ms) */
+  windowMs: number
+  /** Row interval of a fixed-rate grid (ms); null for one row per sample of the driving sensor */
+  gridIntervalMs: number | null
+  /** Readings further than this from the row are marked stale (ms) */
+  freshThresholdMs: number
+  /** Readings further than this from the row are left out (ms) */
+  maxStalenessMs: number
+}
+
+/**
+ * Options used when a session has none: hold-last on the driving sensor's samples.
+ */
+export const defaultQSensorFusionOptions: QSensorFusionOptions = {
+  method: 'hold-last',
+  windowMs: 1000,
+  gridIntervalMs: null,
+  freshThresholdMs: 10000,
+  maxStalenessMs: 30000,
+}
+
+/**
+ * Human-readable names of the fusion methods.
+ */
+export const qsensorFusionMethodNames: Record<QSensorFusionMethod, string> = {
+  'hold-last': 'Hold last',
+  'nearest': 'Nearest',
+  'linear': 'Linear interpolation',
+  'window-average': 'Time-weighted window average',
+}
@@ -59,6 +59,7 @@ export enum WidgetType {
   Map = 'Map',
   MiniWidgetsBar = 'MiniWidgetsBar',
   Plotter = 'Plotter',
+  QSensorIrradiancePlot = 'QSensorIrradiancePlot',
   URLVideoPlayer = 'URLVideoPlayer',
   VideoPlayer = 'VideoPlayer',
   VirtualHorizon = 'VirtualHorizon',
@@ -828,6 +829,7 @@ export const isWidgetConfigurable: Record<WidgetType, boolean> = {
   [WidgetType.Map]: true,
   [WidgetType.MiniWidgetsBar]: false,
   [WidgetType.Plotter]: true,
+  [WidgetType.QSensorIrradiancePlot]: true,
   [WidgetType.URLVideoPlayer]: true,
   [WidgetType.VideoPlayer]: true,
   [WidgetType.VirtualHorizon]: false,
@@ -868,6 +870,7 @@ export const widgetHasOwnContextMenu: Record<WidgetType, boolean> = {
   [WidgetType.Map]: true,
   [WidgetType.MiniWidgetsBar]: false,
   [WidgetType.Plotter]: false,
+  [WidgetType.QSensorIrradiancePlot]: false,
   [WidgetType.URLVideoPlayer]: false,
   [WidgetType.VideoPlayer]: false,
   [WidgetType.VirtualHorizon]: false,
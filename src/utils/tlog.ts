@@ -0,0 +1,102 @@
+/**
+ * MAVLink framing and tlog decoding, shared by the tlog recorder (desktop main process) and the replay connection.
+ *
+ * A tlog is a sequence of records: the reception time as a big-endian 64-bit count of microseconds since the Unix
+ * epoch, followed by a complete MAVLink v1 or v2 frame.
+ */
+
+export const MAVLINK_V1_STX = 0xfe
+export const MAVLINK_V2_STX = 0xfd
+const MAVLINK_V2_SIGNED_FLAG = 0x01
+const MAVLINK_V2_SIGNATURE_LENGTH = 13
+const TLOG_TIMESTAMP_LENGTH = 8
+
+/**
+ * A frame of a tlog file
+ */
+export interface TlogRecord {
+  /**
+   * Reception time (ms since the Unix epoch)
+   */
+  timestampMs: number
+  /**
+   * Complete MAVLink frame
+   */
+  frame: Uint8Array
+}
+
+/**
+ * Sender and message id of a MAVLink frame
+ */
+export interface MavlinkFrameHeader {
+  /**
+   * System id of the sender
+   */
+  systemId: number
+  /**
+   * Component id of the sender
+   */
+  componentId: number
+  /**
+   * Message id
+   */
+  messageId: number
+}
+
+/**
+ * Length of the MAVLink frame starting at an offset.
+ * @param {Uint8Array} bytes - Buffer holding the frame
+ * @param {number} offset - Position of the start marker
+ * @returns {number | null} Frame length in bytes, or null when the header isn't complete or there is no start marker
+ */
+export function mavlinkFrameLength(bytes: Uint8Array, offset: number): number | null {
+  const stx = bytes[offset]
+  if (stx !== MAVLINK_V1_STX && stx !== MAVLINK_V2_STX) return null
+  // Length and, for v2, incompatibility flags are needed to know the frame size
+  if (bytes.length - offset < 3) return null
+
+  const payloadLength = bytes[offset + 1]
+  if (stx === MAVLINK_V1_STX) return payloadLength + 8
+  return payloadLength + 12 + (bytes[offset + 2] & MAVLINK_V2_SIGNED_FLAG ? MAVLINK_V2_SIGNATURE_LENGTH : 0)
+}
+
+/**
+ * Sender and message id of a MAVLink frame.
+ * @param {Uint8Array} frame - Complete MAVLink frame
+ * @returns {MavlinkFrameHeader} Header fields
+ */
+export function mavlinkFrameHeader(frame: Uint8Array): MavlinkFrameHeader {
+  if (frame[0] === MAVLINK_V1_STX) {
+    return { systemId: frame[3], componentId: frame[4], messageId: frame[5] }
+  }
+  return { systemId: frame[5], componentId: frame[6], messageId: frame[7] | (frame[8] << 8) | (frame[9] << 16) }
+}
+
+/**
+ * Decode the records of a tlog file.
+ *
+ * Records whose frame doesn't start where expected are skipped byte by byte until one does, and a truncated last
+ * record (file still being written) is dropped. Frames are views on the given bytes.
+ * @param {Uint8Array} bytes - Content of the tlog file
+ * @returns {TlogRecord[]} Records, in file order
+ */
+export function decodeTlog(bytes: Uint8Array): TlogRecord[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const records: TlogRecord[] = []
+  let offset = 0
+  while (bytes.length - offset > TLOG_TIMESTAMP_LENGTH) {
+    const frameStart = offset + TLOG_TIMESTAMP_LENGTH
+    const frameLength = mavlinkFrameLength(bytes, frameStart)
+    if (frameLength === null) {
+      if (bytes.length - frameStart < 3) break
+      offset++
+      continue
+    }
+    if (bytes.length - frameStart < frameLength) break
+
+    const timestampMs = Number(view.getBigUint64(offset)) / 1000
+    records.push({ timestampMs, frame: bytes.subarray(frameStart, frameStart + frameLength) })
+    offset = frameStart + frameLength
+  }
+  return records
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for alert rules on Data Lake variables
+ *
+ * Focus areas:
+ * - recordAlertRuleValue: numeric coercion and rate of change
+ * - evaluateAlertRule: thresholds, duration, hysteresis, rates and staleness
+ * - describeAlertRule: condition text used in the alert message
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  AlertRuleState,
+  createAlertRuleState,
+  describeAlertRule,
+  evaluateAlertRule,
+  recordAlertRuleValue,
+} from '../src/libs/alert-rules'
+import { AlertLevel, AlertRule } from '../src/types/alert'
+
+const makeRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule',
+  name: 'Max depth',
+  enabled: true,
+  variableId: 'depth',
+  condition: 'above',
+  threshold: 80,
+  hysteresis: 0,
+  durationS: 0,
+  level: AlertLevel.Warning,
+  ...overrides,
+})
+
+/**
+ * Record values one second apart, evaluating after each, and return the transitions.
+ * @param rule
+ * @param state
+ * @param values
+ * @param start
+ */
+function feed(rule: AlertRule, state: AlertRuleState, values: number[], start = 0): (string | null)[] {
+  return values.map((value, index) => {
+    const now = start + index * 1000
+    recordAlertRuleValue(state, value, now)
+    return evaluateAlertRule(rule, state, now)
+  })
+}
+
+describe('recordAlertRuleValue', () => {
+  it('coerces booleans and numeric strings, and ignores other values', () => {
+    const state = createAlertRuleState(0)
+
+    recordAlertRuleValue(state, true, 0)
+    expect(state.value).toBe(1)
+    recordAlertRuleValue(state, '12.5 m', 500)
+    expect(state.value).toBe(12.5)
+    expect(state.rate).toBeCloseTo(23)
+
+    recordAlertRuleValue(state, 'unknown', 2000)
+    expect(state.value).toBe(12.5)
+    expect(state.lastUpdate).toBe(2000)
+  })
+})
+
+describe('evaluateAlertRule', () => {
+  it('raises once above the threshold and clears below it', () => {
+    const rule = makeRule()
+    const state = createAlertRuleState(0)
+
+    expect(feed(rule, state, [70, 85, 90, 75, 79])).toEqual([null, 'raised', null, 'cleared', null])
+  })
+
+  it('waits for the condition to hold for the duration', () => {
+    const rule = makeRule({ durationS: 2 })
+    const state = createAlertRuleState(0)
+
+    // Dipping below the threshold restarts the wait
+    expect(feed(rule, state, [85, 86, 70, 85, 86, 87])).toEqual([null, null, null, null, null, 'raised'])
+  })
+
+  it('clears only past the threshold by more than the hysteresis', () => {
+    const rule = makeRule({ condition: 'below', threshold: 11, hysteresis: 0.5 })
+    const state = createAlertRuleState(0)
+
+    expect(feed(rule, state, [12, 10.8, 11.2, 11.4, 11.6])).toEqual([null, 'raised', null, null, 'cleared'])
+  })
+
+  it('compares the rate of change per second', () => {
+    const rule = makeRule({ condition: 'rate-above', threshold: 1 })
+    const state = createAlertRuleState(0)
+
+    expect(feed(rule, state, [10, 10.5, 12, 12.5])).toEqual([null, null, 'raised', 'cleared'])
+  })
+
+  it('raises when the variable stops being updated', () => {
+    const rule = makeRule({ condition: 'stale', threshold: 5 })
+    const state = createAlertRuleState(0)
+
+    expect(evaluateAlertRule(rule, state, 5000)).toBeNull()
+    expect(evaluateAlertRule(rule, state, 5001)).toBe('raised')
+
+    recordAlertRuleValue(state, 1, 6000)
+    expect(evaluateAlertRule(rule, state, 6000)).toBe('cleared')
+  })
+
+  it('does not compare a variable with no value yet', () => {
+    const state = createAlertRuleState(0)
+    expect(evaluateAlertRule(makeRule({ condition: 'not-equal', threshold: 1 }), state, 10_000)).toBeNull()
+  })
+})
+
+describe('describeAlertRule', () => {
+  it('describes the condition and its duration', () => {
+    expect(describeAlertRule(makeRule({ durationS: 10 }))).toBe('depth > 80 for 10 s')
+    expect(describeAlertRule(makeRule({ condition: 'stale', threshold: 3, durationS: 10 }))).toBe(
+      'depth not updated for 3 s'
+    )
+  })
+})
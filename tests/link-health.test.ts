@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the health of vehicle links
+ *
+ * Focus areas:
+ * - LinkHealthMonitor: rates, loss from sequence gaps, healthy state and latency
+ * - MessageDeduplicator / messageKey: copies received on other links, sequence wrap-around
+ * - electMainLink: failover, startup grace and switching back with hysteresis
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  type LinkHealth,
+  electMainLink,
+  heartbeatTimeoutMs,
+  LinkHealthMonitor,
+  MessageDeduplicator,
+  messageKey,
+  switchBackDelayMs,
+} from '../src/libs/connection/link-health'
+
+const START = Date.UTC(2025, 0, 1, 12)
+
+const heartbeat = { systemId: 1, componentId: 1, isAutopilotHeartbeat: true }
+
+/**
+ * Health of a link, healthy since a given time or silent for a given duration.
+ * @param healthySinceMs
+ * @param silentForMs
+ */
+function linkHealth(healthySinceMs: number | null, silentForMs = 0): LinkHealth {
+  return {
+    healthy: healthySinceMs !== null,
+    healthySinceMs,
+    silentForMs,
+    heartbeatRateHz: 0,
+    messageRateHz: 0,
+    lossPercent: 0,
+    latencyMs: null,
+  }
+}
+
+describe('LinkHealthMonitor', () => {
+  it('computes the heartbeat and message rates', () => {
+    const monitor = new LinkHealthMonitor(START)
+    for (let second = 0; second < 5; second++) {
+      monitor.recordMessage(heartbeat, START + second * 1000)
+      monitor.recordMessage({ ...heartbeat, isAutopilotHeartbeat: false }, START + second * 1000 + 500)
+    }
+
+    const health = monitor.health(START + 4900)
+    expect(health.heartbeatRateHz).toBe(1)
+    expect(health.messageRateHz).toBe(2)
+  })
+
+  it('counts gaps in the sequence numbers of each sender as losses', () => {
+    const monitor = new LinkHealthMonitor(START)
+    const message = { systemId: 1, componentId: 1, isAutopilotHeartbeat: false }
+    ;[250, 251, 254, 0].forEach((sequence) => monitor.recordMessage({ ...message, sequence }, START))
+    monitor.recordMessage({ ...message, componentId: 2, sequence: 10 }, START)
+    // A restarted sender is not a loss
+    monitor.recordMessage({ ...message, sequence: 200 }, START)
+
+    expect(monitor.health(START).lossPercent).toBeCloseTo((100 * 3) / 9)
+  })
+
+  it('is healthy while heartbeats arrive', () => {
+    const monitor = new LinkHealthMonitor(START)
+    expect(monitor.health(START + 1000)).toMatchObject({ healthy: false, healthySinceMs: null, silentForMs: 1000 })
+
+    monitor.recordMessage(heartbeat, START + 2000)
+    monitor.recordMessage(heartbeat, START + 3000)
+    expect(monitor.health(START + 3500)).toMatchObject({
+      healthy: true,
+      healthySinceMs: START + 2000,
+      silentForMs: 500,
+    })
+
+    const later = START + 3000 + heartbeatTimeoutMs + 1
+    expect(monitor.health(later)).toMatchObject({ healthy: false, healthySinceMs: null })
+
+    monitor.recordMessage(heartbeat, later)
+    expect(monitor.health(later).healthySinceMs).toBe(later)
+  })
+
+  it('reports the latency until it is outdated', () => {
+    const monitor = new LinkHealthMonitor(START)
+    expect(monitor.health(START).latencyMs).toBeNull()
+
+    monitor.recordLatency(120, START)
+    expect(monitor.health(START + 10_000).latencyMs).toBe(120)
+    expect(monitor.health(START + 20_000).latencyMs).toBeNull()
+  })
+})
+
+describe('MessageDeduplicator', () => {
+  const linkA = {}
+  const linkB = {}
+
+  it('drops copies received on another link', () => {
+    const deduplicator = new MessageDeduplicator(2000)
+
+    expect(deduplicator.isDuplicate('message', linkA, START)).toBe(false)
+    expect(deduplicator.isDuplicate('message', linkB, START + 1500)).toBe(true)
+    expect(deduplicator.isDuplicate('other', linkB, START + 1500)).toBe(false)
+  })
+
+  it('never drops the repeated messages of a single link', () => {
+    const deduplicator = new MessageDeduplicator(2000)
+
+    expect(deduplicator.isDuplicate('message', linkA, START)).toBe(false)
+    expect(deduplicator.isDuplicate('message', linkA, START + 100)).toBe(false)
+    expect(deduplicator.isDuplicate('message', linkB, START + 200)).toBe(true)
+  })
+
+  it('forgets messages after the window', () => {
+    const deduplicator = new MessageDeduplicator(2000)
+
+    expect(deduplicator.isDuplicate('message', linkA, START)).toBe(false)
+    expect(deduplicator.isDuplicate('message', linkB, START + 2001)).toBe(false)
+  })
+
+  it('keeps the messages whose sequence number wrapped within the window', () => {
+    const deduplicator = new MessageDeduplicator(2000)
+    // One frame per ms: the sequence number wraps after 256 ms, well within the window
+    const keys = Array.from({ length: 300 }, (_, index) =>
+      messageKey(1, 1, index % 256, JSON.stringify({ type: 'ATTITUDE', time_boot_ms: 1000 + index * 3 }))
+    )
+
+    // The frames after the wrap arrive on the other link, but are not copies of the first ones
+    keys.forEach((key, index) =>
+      expect(deduplicator.isDuplicate(key, index < 256 ? linkA : linkB, START + index)).toBe(false)
+    )
+    expect(deduplicator.isDuplicate(keys[10], linkB, START + 400)).toBe(true)
+  })
+})
+
+describe('electMainLink', () => {
+  it('fails over to the first healthy link when the main one is silent', () => {
+    const links = [linkHealth(null, heartbeatTimeoutMs + 1), linkHealth(null, 5000), linkHealth(START)]
+    expect(electMainLink(links, 0, START + 1000)).toBe(2)
+    expect(electMainLink(links, -1, START + 1000)).toBe(2)
+  })
+
+  it('keeps the main link when no link is healthy', () => {
+    const links = [linkHealth(null, 10_000), linkHealth(null, 10_000)]
+    expect(electMainLink(links, 1, START)).toBe(1)
+  })
+
+  it('gives a new main link the time to receive its first heartbeat', () => {
+    const links = [linkHealth(null, 1000), linkHealth(START)]
+    expect(electMainLink(links, 0, START + 1000)).toBe(0)
+  })
+
+  it('switches back to a higher priority link once it is steadily healthy', () => {
+    const links = [linkHealth(START), linkHealth(START - 60_000)]
+    expect(electMainLink(links, 1, START + switchBackDelayMs - 1)).toBe(1)
+    expect(electMainLink(links, 1, START + switchBackDelayMs)).toBe(0)
+  })
+})
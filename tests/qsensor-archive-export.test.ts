@@ -0,0 +1,360 @@
+/**
+ * Unit tests for the Q-Sensor archive exporters
+ *
+ * Focus areas:
+ * - encodeNetcdf: CDF-1 header layout, big-endian data at the begin offsets, validation
+ * - encodeNetcdfRecordHeader: record count, unlimited dimension and record offsets
+ * - buildNetcdfLayout/writeNetcdfArchive: CF variables, units, sensor metadata attributes and streamed records
+ * - buildSeabassLayout/writeSeabassArchive: header fields, calibrated fields only, missing values
+ * - exportSessionArchives: files, sync_metadata.json and per-session errors in a batch
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { encodeNetcdf, encodeNetcdfRecord, encodeNetcdfRecordHeader } from '../src/electron/services/netcdf-writer'
+import {
+  ARCHIVE_MISSING_VALUE,
+  buildNetcdfLayout,
+  buildSeabassLayout,
+  exportSessionArchives,
+  scanUnifiedCsv,
+  UnifiedCsvScan,
+  writeNetcdfArchive,
+  writeSeabassArchive,
+} from '../src/electron/services/qsensor-archive-export'
+import {
+  ensureSyncMetadata,
+  readSyncMetadata,
+  SyncMetadata,
+  updateFusionStatus,
+  updateSyncMetadata,
+} from '../src/electron/services/qsensor-session-utils'
+
+const UNIFIED_CSV = [
+  'timestamp,inwater_sensor_id,inwater_mode,inwater_value,inwater_TempC,inwater_Vin,' +
+    'surface_sensor_id,surface_value,surface_timestamp_used,surface_age_ms,surface_status,' +
+    'vehicle_depth_m,vehicle_latitude,vehicle_longitude,vehicle_age_ms,vehicle_status,' +
+    'inwater_calibrated,inwater_dark_corrected,surface_calibrated,surface_dark_corrected',
+  '2025-01-01T00:00:00.000Z,SN100,freerun,110,21.5,12.1,SN200,510,2025-01-01T00:00:00.010Z,10,fresh,' +
+    '2.5,-27.1,153.2,20,fresh,60,100,,500',
+  '2025-01-01T00:00:01.000Z,SN100,freerun,90,21.5,12.1,SN200,,,,missing,3.0,-27.2,153.3,20,fresh,,80,,',
+  '2025-01-01T00:00:02.000Z,SN100,freerun,,21.5,12.1,SN200,505,2025-01-01T00:00:02.010Z,10,fresh,' +
+    '3.5,-27.3,153.4,20,fresh,,,,495',
+].join('\n')
+
+/**
+ * Session metadata with a calibrated in-water sensor and an uncalibrated surface sensor
+ * @returns Sync metadata
+ */
+function makeMetadata(): SyncMetadata {
+  return {
+    schemaVersion: 1,
+    mission: 'Reef Survey',
+    unifiedSessionTimestamp: '2025-01-01T00-00-00Z',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    sensors: {
+      inWater: {
+        role: 'inWater',
+        label: 'In-Water',
+        calibration: {
+          serialNumber: 'SN100',
+          status: 'valid',
+          record: {
+            serialNumber: 'SN100',
+            calFactor: 0.5,
+            darkOffset: 10,
+            immersionCoefficient: 1.2,
+            units: 'µE/cm²·s',
+            calDate: '2024-06-01T00:00:00.000Z',
+          },
+          expiresAt: null,
+          deviceCalFactor: 0.5,
+          calFactorMismatch: false,
+          warnings: [],
+          checkedAt: '2025-01-01T00:00:00.000Z',
+        },
+      },
+      surface: { role: 'surface', label: 'Surface' },
+    },
+    timeSync: {
+      sensors: {},
+      markers: [],
+      driftModels: { surface: { type: 'linear', startOffsetMs: 12.5, driftRateMsPerMin: 0.2 } },
+    },
+  }
+}
+
+/**
+ * Read the name field at an offset of a NetCDF header
+ * @param buffer - File content
+ * @param offset - Offset of the name length
+ * @returns Name and offset after the padded name
+ */
+function readName(buffer: Buffer, offset: number): [string, number] {
+  const length = buffer.readInt32BE(offset)
+  const name = buffer.toString('utf-8', offset + 4, offset + 4 + length)
+  return [name, offset + 4 + Math.ceil(length / 4) * 4]
+}
+
+/**
+ * Read the records of a record dataset file, whose variables each hold one double per record
+ * @param buffer - File content
+ * @param variableCount - Number of variables
+ * @returns Values of each record
+ */
+function readRecords(buffer: Buffer, variableCount: number): number[][] {
+  const recordCount = buffer.readInt32BE(4)
+  const dataStart = buffer.length - recordCount * variableCount * 8
+  return Array.from({ length: recordCount }, (_, record) =>
+    Array.from({ length: variableCount }, (__, variable) =>
+      buffer.readDoubleBE(dataStart + (record * variableCount + variable) * 8)
+    )
+  )
+}
+
+describe('encodeNetcdf', () => {
+  it('writes a CDF-1 header followed by big-endian doubles at the begin offsets', () => {
+    const buffer = encodeNetcdf({
+      dimensions: [{ name: 'time', length: 2 }],
+      attributes: { title: 'abc' },
+      variables: [{ name: 'x', dimensions: ['time'], attributes: { units: 'm', _FillValue: -1 }, data: [1.5, -2] }],
+    })
+
+    expect(buffer.subarray(0, 4).toString('latin1')).toBe('CDF\x01')
+    expect(buffer.readInt32BE(4)).toBe(0)
+    expect(buffer.readInt32BE(8)).toBe(0x0a)
+    expect(buffer.readInt32BE(12)).toBe(1)
+    const [dimension, afterDimension] = readName(buffer, 16)
+    expect(dimension).toBe('time')
+    expect(buffer.readInt32BE(afterDimension)).toBe(2)
+
+    // Data is the last 16 bytes and the variable's begin offset (last header field) points at it
+    const begin = buffer.length - 16
+    expect(buffer.readInt32BE(begin - 4)).toBe(begin)
+    expect(buffer.readInt32BE(begin - 8)).toBe(16)
+    expect(buffer.readDoubleBE(begin)).toBe(1.5)
+    expect(buffer.readDoubleBE(begin + 8)).toBe(-2)
+  })
+
+  it('rejects invalid names, unknown dimensions and mismatched data lengths', () => {
+    const dataset = (name: string, dimension: string, data: number[]): Parameters<typeof encodeNetcdf>[0] => ({
+      dimensions: [{ name: 'time', length: 2 }],
+      attributes: {},
+      variables: [{ name, dimensions: [dimension], attributes: {}, data }],
+    })
+
+    expect(() => encodeNetcdf(dataset('1x', 'time', [1, 2]))).toThrow("Invalid NetCDF variable name '1x'")
+    expect(() => encodeNetcdf(dataset('x', 'depth', [1, 2]))).toThrow("uses unknown dimension 'depth'")
+    expect(() => encodeNetcdf(dataset('x', 'time', [1]))).toThrow('has 1 values, its dimensions need 2')
+  })
+})
+
+describe('encodeNetcdfRecordHeader', () => {
+  it('declares an unlimited dimension holding the record count and offsets within the first record', () => {
+    const header = encodeNetcdfRecordHeader({
+      recordDimension: { name: 'time', length: 3 },
+      attributes: {},
+      variables: [
+        { name: 'a', attributes: {} },
+        { name: 'b', attributes: {} },
+      ],
+    })
+
+    expect(header.readInt32BE(4)).toBe(3)
+    const [dimension, afterDimension] = readName(header, 16)
+    expect(dimension).toBe('time')
+    expect(header.readInt32BE(afterDimension)).toBe(0)
+
+    // The last header fields are the type, size and begin offset of variable 'b'
+    expect(header.readInt32BE(header.length - 12)).toBe(6)
+    expect(header.readInt32BE(header.length - 8)).toBe(8)
+    expect(header.readInt32BE(header.length - 4)).toBe(header.length + 8)
+
+    const file = Buffer.concat([
+      header,
+      encodeNetcdfRecord([1, 2]),
+      encodeNetcdfRecord([3, 4]),
+      encodeNetcdfRecord([5, 6]),
+    ])
+    expect(readRecords(file, 2)).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ])
+  })
+
+  it('rejects records too large for a CDF-1 file', () => {
+    expect(() =>
+      encodeNetcdfRecordHeader({
+        recordDimension: { name: 'time', length: 2 ** 28 },
+        attributes: {},
+        variables: [{ name: 'x', attributes: {} }],
+      })
+    ).toThrow('limited to 2 GiB')
+  })
+})
+
+describe('archive layouts', () => {
+  let directory: string
+  let csvPath: string
+  let scan: UnifiedCsvScan
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-archive-layout-'))
+    csvPath = path.join(directory, 'unified_session.csv')
+    await fs.writeFile(csvPath, UNIFIED_CSV + '\n')
+    scan = await scanUnifiedCsv(csvPath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('maps numeric columns to CF variables with sensor metadata on the raw value', async () => {
+    const warnings: string[] = []
+    const layout = buildNetcdfLayout(scan, makeMetadata(), { investigators: 'A B' }, warnings)
+    const { dataset } = layout
+    const names = dataset.variables.map((variable) => variable.name)
+    const variable = (name: string): (typeof dataset.variables)[number] | undefined =>
+      dataset.variables.find((candidate) => candidate.name === name)
+
+    expect(dataset.recordDimension).toEqual({ name: 'time', length: 3 })
+    expect(variable('depth')?.attributes).toMatchObject({ standard_name: 'depth', units: 'm', positive: 'down' })
+    expect(variable('latitude')?.attributes.units).toBe('degrees_north')
+    expect(variable('inwater_calibrated')?.attributes.units).toBe('uE/cm^2/s')
+    expect(variable('inwater_value')?.attributes).toMatchObject({
+      serial_number: 'SN100',
+      sensor_role: 'inWater',
+      calibration_factor: 0.5,
+      clock_drift_model: 'none',
+    })
+    expect(variable('surface_value')?.attributes).toMatchObject({
+      serial_number: 'SN200',
+      clock_drift_model: 'linear, start offset 12.5 ms, 0.200 ms/min',
+    })
+    expect(variable('inwater_sensor_id')).toBeUndefined()
+    expect(variable('vehicle_status')).toBeUndefined()
+    expect(dataset.attributes).toMatchObject({
+      Conventions: 'CF-1.8',
+      creator_name: 'A B',
+      cruise: 'Reef Survey',
+      time_coverage_start: '2025-01-01T00:00:00.000Z',
+      time_coverage_end: '2025-01-01T00:00:02.000Z',
+      geospatial_lat_min: -27.3,
+    })
+    expect(warnings).toEqual([])
+
+    const outputPath = path.join(directory, 'reef.nc')
+    expect(await writeNetcdfArchive(csvPath, outputPath, layout)).toBe(3)
+    const records = readRecords(await fs.readFile(outputPath), names.length)
+    expect(records.map((record) => record[names.indexOf('time')])).toEqual([1735689600, 1735689601, 1735689602])
+    expect(records.map((record) => record[names.indexOf('inwater_value')])).toEqual([110, 90, ARCHIVE_MISSING_VALUE])
+  })
+
+  it('fails when the fused CSV gains rows after the first pass', async () => {
+    const layout = buildNetcdfLayout(scan, makeMetadata())
+    await fs.appendFile(csvPath, '2025-01-01T00:00:03.000Z,SN100,freerun,80\n')
+
+    await expect(writeNetcdfArchive(csvPath, path.join(directory, 'reef.nc'), layout)).rejects.toThrow(
+      'unified_session.csv changed during the export'
+    )
+    await expect(fs.access(path.join(directory, 'reef.nc.tmp'))).rejects.toThrow()
+  })
+
+  it('writes the SeaBASS header and the rows with a calibrated value', async () => {
+    const warnings: string[] = []
+    const layout = buildSeabassLayout(
+      scan,
+      makeMetadata(),
+      'reef.sb',
+      { investigators: 'Jane Doe, John Smith', waterDepthM: 40 },
+      warnings
+    )
+    const outputPath = path.join(directory, 'reef.sb')
+    const rowCount = await writeSeabassArchive(csvPath, outputPath, layout)
+    const lines = (await fs.readFile(outputPath, 'utf-8')).trim().split('\n')
+    const endHeader = lines.indexOf('/end_header')
+
+    expect(lines[0]).toBe('/begin_header')
+    expect(lines).toContain('/investigators=Jane_Doe,John_Smith')
+    expect(lines).toContain('/cruise=Reef_Survey')
+    expect(lines).toContain('/start_time=00:00:00[GMT]')
+    expect(lines).toContain('/north_latitude=-27.1000[DEG]')
+    expect(lines).toContain('/water_depth=40')
+    expect(lines).toContain('/missing=-9999')
+    expect(lines).toContain('/fields=date,time,depth,lat,lon,par')
+    expect(lines).toContain('/units=yyyymmdd,hh:mm:ss,m,degrees,degrees,uE/cm^2/s')
+    expect(lines).toContain('/affiliations=NA')
+    expect(rowCount).toBe(1)
+    expect(lines.slice(endHeader + 1)).toEqual(['20250101,00:00:00.000,2.5,-27.1,153.2,60'])
+    expect(warnings).toEqual(['Surface has no calibration and was left out of the SeaBASS file'])
+  })
+
+  it('requires a calibrated sensor for SeaBASS', () => {
+    const metadata = makeMetadata()
+    metadata.sensors.inWater = { role: 'inWater' }
+
+    expect(() => buildSeabassLayout(scan, metadata, 'reef.sb')).toThrow(
+      'SeaBASS export needs at least one calibrated sensor'
+    )
+  })
+})
+
+describe('exportSessionArchives', () => {
+  let storageRoot: string
+
+  beforeEach(async () => {
+    storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-archive-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(storageRoot, { recursive: true, force: true })
+  })
+
+  it('exports each session and format, records the files and reports unfused sessions', async () => {
+    const fused = path.join(storageRoot, 'fused')
+    const unfused = path.join(storageRoot, 'unfused')
+    await ensureSyncMetadata(fused, 'Reef Survey', '2025-01-01T00-00-00Z')
+    await ensureSyncMetadata(unfused, 'Reef Survey', '2025-01-02T00-00-00Z')
+    await updateSyncMetadata(fused, (metadata) => {
+      metadata.sensors = makeMetadata().sensors
+    })
+    await fs.writeFile(path.join(fused, 'unified_session.csv'), UNIFIED_CSV + '\n')
+    await updateFusionStatus(fused, {
+      status: 'complete',
+      unifiedCsv: 'unified_session.csv',
+      rowCount: 3,
+      inWaterRows: 3,
+      surfaceRows: 2,
+      completedAt: '2025-01-01T00:10:00.000Z',
+      error: null,
+    })
+
+    const entries = await exportSessionArchives([fused, unfused], ['netcdf', 'seabass'])
+
+    expect(entries.map((entry) => [path.basename(entry.sessionRoot), entry.format, entry.error ?? 'ok'])).toEqual([
+      ['fused', 'netcdf', 'ok'],
+      ['fused', 'seabass', 'ok'],
+      ['unfused', 'netcdf', 'Session has not been fused yet'],
+      ['unfused', 'seabass', 'Session has not been fused yet'],
+    ])
+    expect(entries[0].result?.file).toBe(path.join('exports', 'Reef_Survey_fused.nc'))
+
+    const netcdf = await fs.readFile(path.join(fused, 'exports', 'Reef_Survey_fused.nc'))
+    expect(netcdf.subarray(0, 4).toString('latin1')).toBe('CDF\x01')
+    const seabass = await fs.readFile(path.join(fused, 'exports', 'Reef_Survey_fused.sb'), 'utf-8')
+    expect(seabass).toContain('/data_file_name=Reef_Survey_fused.sb')
+
+    expect(entries[1].result?.warnings).toContain('2 rows without a calibrated value were left out')
+
+    const metadata = await readSyncMetadata(fused)
+    expect(metadata?.exports).toMatchObject({
+      netcdf: { file: path.join('exports', 'Reef_Survey_fused.nc'), rowCount: 3 },
+      seabass: { file: path.join('exports', 'Reef_Survey_fused.sb'), rowCount: 1 },
+    })
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for Q-Sensor calibration helpers
+ *
+ * Focus areas:
+ * - applyCalibration/formatCalibratedValue: engineering units conversion
+ * - validateCalibrationRecord: record validation before storage
+ * - checkCalibration: expiry and device calfactor mismatch warnings
+ * - recordSessionCalibration: snapshot stored in sync_metadata.json
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  applyCalibration,
+  checkCalibration,
+  formatCalibratedValue,
+  isCalFactorMismatch,
+  recordSessionCalibration,
+  validateCalibrationRecord,
+} from '../src/electron/services/qsensor-calibration'
+import { ensureSyncMetadata, readSyncMetadata } from '../src/electron/services/qsensor-session-utils'
+import type { QSensorCalibrationRecord } from '../src/types/qsensor'
+
+const NOW = Date.UTC(2025, 5, 1)
+
+/**
+ *
+ * @param overrides
+ */
+function makeRecord(overrides: Partial<QSensorCalibrationRecord> = {}): QSensorCalibrationRecord {
+  return {
+    serialNumber: 'SN12345',
+    calFactor: 0.5,
+    darkOffset: 10,
+    immersionCoefficient: 1.2,
+    units: 'µE/cm²·s',
+    calDate: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('applyCalibration', () => {
+  it('subtracts the dark offset and scales by calfactor and immersion coefficient', () => {
+    expect(applyCalibration(110, makeRecord())).toBeCloseTo(60, 9)
+  })
+
+  it('returns null for non-finite raw values', () => {
+    expect(applyCalibration(NaN, makeRecord())).toBeNull()
+  })
+
+  it('formats CSV values and leaves them empty without a record or raw value', () => {
+    expect(Number(formatCalibratedValue('110', makeRecord()))).toBeCloseTo(60, 9)
+    expect(formatCalibratedValue('110', null)).toBe('')
+    expect(formatCalibratedValue('', makeRecord())).toBe('')
+    expect(formatCalibratedValue(null, makeRecord())).toBe('')
+    expect(formatCalibratedValue('abc', makeRecord())).toBe('')
+  })
+})
+
+describe('validateCalibrationRecord', () => {
+  it('accepts a complete record', () => {
+    expect(validateCalibrationRecord(makeRecord())).toBeNull()
+  })
+
+  it('rejects missing serial numbers, zero calfactors and bad dates', () => {
+    expect(validateCalibrationRecord(makeRecord({ serialNumber: ' ' }))).toMatch(/Serial number/)
+    expect(validateCalibrationRecord(makeRecord({ calFactor: 0 }))).toMatch(/Calibration factor/)
+    expect(validateCalibrationRecord(makeRecord({ immersionCoefficient: 0 }))).toMatch(/Immersion/)
+    expect(validateCalibrationRecord(makeRecord({ calDate: 'yesterday' }))).toMatch(/date/)
+    expect(validateCalibrationRecord(makeRecord({ validityDays: -1 }))).toMatch(/Validity/)
+  })
+})
+
+describe('checkCalibration', () => {
+  it('reports a valid record without warnings', () => {
+    const check = checkCalibration('SN12345', makeRecord(), 0.5, NOW)
+
+    expect(check.status).toBe('valid')
+    expect(check.expiresAt).toBe('2026-01-01T00:00:00.000Z')
+    expect(check.calFactorMismatch).toBe(false)
+    expect(check.warnings).toEqual([])
+  })
+
+  it('warns when the calibration is past its validity period', () => {
+    const check = checkCalibration('SN12345', makeRecord({ validityDays: 90 }), null, NOW)
+
+    expect(check.status).toBe('expired')
+    expect(check.warnings).toEqual(['Calibration for sensor SN12345 expired on 2025-04-01'])
+  })
+
+  it('warns when the device calfactor disagrees with the stored one', () => {
+    const check = checkCalibration('SN12345', makeRecord(), 0.51, NOW)
+
+    expect(check.status).toBe('valid')
+    expect(check.calFactorMismatch).toBe(true)
+    expect(check.warnings[0]).toMatch(/reports calfactor 0.51/)
+  })
+
+  it('ignores rounding differences in the device calfactor', () => {
+    expect(isCalFactorMismatch(0.500001, 0.5)).toBe(false)
+  })
+
+  it('reports missing records', () => {
+    const check = checkCalibration('SN99999', null, 1.0, NOW)
+
+    expect(check.status).toBe('missing')
+    expect(check.record).toBeNull()
+    expect(check.warnings).toHaveLength(1)
+  })
+})
+
+describe('recordSessionCalibration', () => {
+  let sessionRoot: string
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-calibration-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-06-01T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('stores the calibration snapshot with the sensor metadata', async () => {
+    const check = checkCalibration('SN12345', makeRecord(), 0.5, NOW)
+    await recordSessionCalibration(sessionRoot, 'surface', check)
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.sensors.surface?.calibration).toMatchObject({
+      serialNumber: 'SN12345',
+      status: 'valid',
+      record: { calFactor: 0.5, darkOffset: 10 },
+    })
+    expect(metadata?.sensors.surface?.calibration?.checkedAt).toBeTruthy()
+    expect(metadata?.sensors.inWater).toBeNull()
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for Q-Sensor Cockpit actions
+ *
+ * Focus areas:
+ * - registerQSensorCockpitActions: one callback per Q-Sensor action
+ * - Recording actions: all sensors or one, refused when already in that state
+ * - Throttling of repeated presses
+ * - Dark capture: only connected sensors that are not recording
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { registerQSensorCockpitActions } from '../src/libs/qsensor-cockpit-actions'
+
+const callbacks = new Map<string, () => Promise<void>>()
+vi.mock('@/libs/joystick/protocols/cockpit-actions', () => ({
+  availableCockpitActions: new Proxy({}, { get: (_target, id) => ({ id }) }),
+  registerActionCallback: (action: { id: string }, callback: () => Promise<void>) => {
+    callbacks.set(action.id, callback)
+    return action.id
+  },
+}))
+
+const openSnackbar = vi.fn()
+// NOTE: The actions module takes openSnackbar when it loads, before this file's constants exist
+vi.mock('@/composables/snackbar', () => ({
+  useSnackbar: () => ({ openSnackbar: (...args: unknown[]) => openSnackbar(...args) }),
+}))
+
+const makeSensor = (sensorId: string, isConnected: boolean, recordingState = 'idle'): Record<string, unknown> => ({
+  sensorId,
+  label: sensorId,
+  isConnected,
+  recordingState,
+})
+
+const store = {
+  globalMissionName: 'Reef',
+  isAnyRecording: false,
+  sensors: new Map<string, Record<string, unknown>>(),
+  getSensor: (sensorId: string) => store.sensors.get(sensorId),
+  startAll: vi.fn(),
+  stopAll: vi.fn(),
+  startRecordingSensor: vi.fn(),
+  stopRecordingSensor: vi.fn(),
+  insertSyncMarker: vi.fn(),
+  captureDark: vi.fn(),
+}
+vi.mock('@/stores/qsensor', () => ({ useQSensorStore: () => store }))
+
+describe('registerQSensorCockpitActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    callbacks.clear()
+    store.isAnyRecording = false
+    store.sensors = new Map([
+      ['inWater', makeSensor('inWater', true)],
+      ['surface', makeSensor('surface', true)],
+    ])
+    registerQSensorCockpitActions()
+  })
+
+  it('registers every Q-Sensor action', () => {
+    expect([...callbacks.keys()].sort()).toEqual([
+      'capture_qsensor_dark',
+      'insert_qsensor_sync_marker',
+      'start_qsensor_recording',
+      'start_qsensor_recording_in_water',
+      'start_qsensor_recording_surface',
+      'stop_qsensor_recording',
+      'stop_qsensor_recording_in_water',
+      'stop_qsensor_recording_surface',
+    ])
+  })
+
+  it('starts all sensors with the session mission name', async () => {
+    store.startAll.mockResolvedValue({ success: true, errors: [] })
+
+    await callbacks.get('start_qsensor_recording')!()
+
+    expect(store.startAll).toHaveBeenCalledWith({ mission: 'Reef' })
+    expect(openSnackbar).toHaveBeenCalledWith(expect.objectContaining({ variant: 'success' }))
+  })
+
+  it('ignores repeated presses within the throttle interval', async () => {
+    store.insertSyncMarker.mockResolvedValue({ success: true, errors: [] })
+
+    await callbacks.get('insert_qsensor_sync_marker')!()
+    await callbacks.get('insert_qsensor_sync_marker')!()
+
+    expect(store.insertSyncMarker).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to start a sensor that is already recording', async () => {
+    store.sensors.set('inWater', makeSensor('inWater', true, 'recording'))
+
+    await callbacks.get('start_qsensor_recording_in_water')!()
+
+    expect(store.startRecordingSensor).not.toHaveBeenCalled()
+    expect(openSnackbar).toHaveBeenCalledWith(
+      expect.objectContaining({ variant: 'error', message: expect.stringContaining('already recording') })
+    )
+  })
+
+  it('stops one sensor and reports its error', async () => {
+    store.sensors.set('surface', makeSensor('surface', true, 'recording'))
+    store.stopRecordingSensor.mockResolvedValue({ success: false, error: 'Serial port closed' })
+
+    await callbacks.get('stop_qsensor_recording_surface')!()
+
+    expect(store.stopRecordingSensor).toHaveBeenCalledWith('surface')
+    expect(openSnackbar).toHaveBeenCalledWith(
+      expect.objectContaining({ variant: 'error', message: expect.stringContaining('Serial port closed') })
+    )
+  })
+
+  it('captures dark on connected sensors that are not recording', async () => {
+    store.sensors.set('surface', makeSensor('surface', true, 'recording'))
+    store.sensors.set('upLooking', makeSensor('upLooking', false))
+    store.captureDark.mockResolvedValue({ success: true })
+
+    await callbacks.get('capture_qsensor_dark')!()
+
+    expect(store.captureDark).toHaveBeenCalledTimes(1)
+    expect(store.captureDark).toHaveBeenCalledWith('inWater', 10)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for Q-Sensor dark capture helpers
+ *
+ * Focus areas:
+ * - computeDarkCapture: mean/std of value and temperature
+ * - formatDarkCorrectedValue/formatCalibratedValue: dark subtraction in fused columns
+ * - recordSessionDarkCapture: capture stored in sync_metadata.json
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { formatCalibratedValue } from '../src/electron/services/qsensor-calibration'
+import {
+  computeDarkCapture,
+  formatDarkCorrectedValue,
+  recordSessionDarkCapture,
+  validateDarkCaptureDuration,
+} from '../src/electron/services/qsensor-dark'
+import { ensureSyncMetadata, readSyncMetadata } from '../src/electron/services/qsensor-session-utils'
+import type { QSensorDarkCapture } from '../src/types/qsensor'
+
+const CONTEXT = {
+  serialNumber: 'SN12345',
+  startedAt: '2025-06-01T00:00:00.000Z',
+  completedAt: '2025-06-01T00:00:10.000Z',
+  durationS: 10,
+}
+
+describe('computeDarkCapture', () => {
+  it('computes mean and sample standard deviation of value and temperature', () => {
+    const capture = computeDarkCapture(
+      [
+        { value: 1, TempC: 20 },
+        { value: 2, TempC: 21 },
+        { value: 3, TempC: 22 },
+      ],
+      CONTEXT
+    )
+
+    expect(capture).toMatchObject({ ...CONTEXT, sampleCount: 3, valueMean: 2, valueStd: 1, tempCMean: 21, tempCStd: 1 })
+  })
+
+  it('leaves temperature statistics empty when the sensor does not report it', () => {
+    const capture = computeDarkCapture([{ value: 4 }, { value: 4 }], CONTEXT)
+
+    expect(capture.valueStd).toBe(0)
+    expect(capture.tempCMean).toBeNull()
+    expect(capture.tempCStd).toBeNull()
+  })
+
+  it('ignores non-finite values and fails with too few readings', () => {
+    expect(() => computeDarkCapture([{ value: 1 }, { value: NaN }], CONTEXT)).toThrow(/1 reading/)
+    expect(() => computeDarkCapture([], CONTEXT)).toThrow(/Is the sensor acquiring/)
+  })
+
+  it('validates the capture duration', () => {
+    expect(validateDarkCaptureDuration(10)).toBeNull()
+    expect(validateDarkCaptureDuration(0)).toMatch(/duration/)
+    expect(validateDarkCaptureDuration(1000)).toMatch(/duration/)
+  })
+})
+
+describe('dark correction', () => {
+  const capture = computeDarkCapture([{ value: 9 }, { value: 11 }], CONTEXT)
+
+  it('subtracts the captured dark mean from raw values', () => {
+    expect(formatDarkCorrectedValue('110', capture)).toBe('100')
+    expect(formatDarkCorrectedValue('110', null)).toBe('')
+    expect(formatDarkCorrectedValue('', capture)).toBe('')
+  })
+
+  it('replaces the calibration record dark offset', () => {
+    const record = {
+      serialNumber: 'SN12345',
+      calFactor: 0.5,
+      darkOffset: 0,
+      immersionCoefficient: 1.2,
+      units: 'µE/cm²·s',
+      calDate: '2025-01-01T00:00:00.000Z',
+    }
+
+    expect(Number(formatCalibratedValue('110', record, capture.valueMean))).toBeCloseTo(60, 9)
+    expect(Number(formatCalibratedValue('110', record))).toBeCloseTo(66, 9)
+  })
+})
+
+describe('recordSessionDarkCapture', () => {
+  let sessionRoot: string
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-dark-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-06-01T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('stores the capture with the sensor metadata', async () => {
+    const capture: QSensorDarkCapture = computeDarkCapture([{ value: 1 }, { value: 3 }], CONTEXT)
+    await recordSessionDarkCapture(sessionRoot, 'inWater', capture)
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.sensors.inWater?.dark).toEqual(capture)
+    expect(metadata?.sensors.surface).toBeNull()
+  })
+})
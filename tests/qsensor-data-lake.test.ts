@@ -0,0 +1,79 @@
+/**
+ * Unit tests for Q-Sensor Data Lake publishing
+ *
+ * Focus areas:
+ * - registerQSensorDataLakeVariables: per-sensor variables and ratio
+ * - registerQSensorSensorVariables: variables for sensors added to an array
+ * - publishQSensorReading: value/TempC/Vin updates and in-water/surface ratio
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { getDataLakeVariableData, getDataLakeVariableInfo } from '../src/libs/actions/data-lake'
+import {
+  publishQSensorReading,
+  qsensorDataLakeVariableId,
+  qsensorRatioVariableId,
+  registerQSensorDataLakeVariables,
+  registerQSensorSensorVariables,
+} from '../src/libs/qsensor-data-lake'
+import type { QSensorLiveReading } from '../src/types/qsensor'
+
+/**
+ *
+ * @param value
+ * @param extra
+ */
+function makeReading(value: number, extra: Partial<QSensorLiveReading> = {}): QSensorLiveReading {
+  return { timestamp: '2025-01-01T00:00:00Z', sensorId: 'SN1', mode: 'freerun', value, ...extra }
+}
+
+describe('Q-Sensor Data Lake variables', () => {
+  beforeAll(() => {
+    registerQSensorDataLakeVariables()
+  })
+
+  it('registers numeric value, TempC and Vin variables for both sensors plus the ratio', () => {
+    expect(qsensorDataLakeVariableId('inWater', 'value')).toBe('qsensor/inWater/value')
+
+    for (const sensorId of ['inWater', 'surface'] as const) {
+      for (const field of ['value', 'TempC', 'Vin'] as const) {
+        expect(getDataLakeVariableInfo(qsensorDataLakeVariableId(sensorId, field))?.type).toBe('number')
+      }
+    }
+    expect(getDataLakeVariableInfo(qsensorRatioVariableId)?.type).toBe('number')
+  })
+
+  it('registers variables for added sensors under their label', () => {
+    registerQSensorSensorVariables('upLooking', 'Up-looking')
+
+    expect(getDataLakeVariableInfo('qsensor/upLooking/TempC')?.name).toBe('Q-Sensor Up-looking Temperature')
+    publishQSensorReading('upLooking', makeReading(42))
+    expect(getDataLakeVariableData('qsensor/upLooking/value')).toBe(42)
+  })
+
+  it('publishes reading fields and skips fields the sensor did not report', () => {
+    publishQSensorReading('surface', makeReading(200, { TempC: 18.5 }))
+
+    expect(getDataLakeVariableData('qsensor/surface/value')).toBe(200)
+    expect(getDataLakeVariableData('qsensor/surface/TempC')).toBe(18.5)
+    expect(getDataLakeVariableData('qsensor/surface/Vin')).toBeUndefined()
+  })
+
+  it('updates the in-water/surface ratio once both sensors have reported', () => {
+    publishQSensorReading('surface', makeReading(200))
+    publishQSensorReading('inWater', makeReading(50))
+    expect(getDataLakeVariableData(qsensorRatioVariableId)).toBe(0.25)
+
+    publishQSensorReading('surface', makeReading(100))
+    expect(getDataLakeVariableData(qsensorRatioVariableId)).toBe(0.5)
+  })
+
+  it('leaves the ratio unchanged when the surface value is zero', () => {
+    publishQSensorReading('surface', makeReading(100))
+    publishQSensorReading('inWater', makeReading(25))
+    publishQSensorReading('surface', makeReading(0))
+
+    expect(getDataLakeVariableData(qsensorRatioVariableId)).toBe(0.25)
+  })
+})
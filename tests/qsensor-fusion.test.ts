@@ -8,9 +8,32 @@
  * - buildConsolidatedTimestampAxis: clustering and consolidation
  * - findNearestReading: tolerance window and deduplication
  * - evaluateRowCreation: gap detection and row suppression
+ * - fuseSessionData: wide format for sensor arrays, piecewise drift through injected markers and light flashes
+ * - Streaming fusion: same output as in-memory fusion, fallback for unsorted files, progress and cancellation
+ * - Fusion options: sampling methods, fixed-rate grid, staleness thresholds, stored options
  */
 
-import { describe, expect, it } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  cancelFusion,
+  fuseSessionData,
+  FusionProgress,
+  FusionResult,
+  FusionRunOptions,
+  normalizeFusionOptions,
+} from '../src/electron/services/qsensor-fusion'
+import {
+  ensureSyncMetadata,
+  readSyncMetadata,
+  updateSensorMetadata,
+  updateSyncMetadata,
+} from '../src/electron/services/qsensor-session-utils'
+import { saveVehicleTelemetry } from '../src/electron/services/qsensor-vehicle-telemetry'
+import { defaultQSensorFusionOptions, QSensorFusionMethod } from '../src/types/qsensor'
 
 // ============================================================================
 // Test Fixtures and Helpers
@@ -750,12 +773,7 @@ function createInWaterDrivenRows(
     const inWaterRow = inWaterMap.get(inWaterTime)!
 
     // Find best surface value for this in-water time
-    const surfaceInfo = findSurfaceValueForInWater(
-      inWaterTime,
-      surfaceTimestamps,
-      surfaceMap,
-      stalenessThresholdMs
-    )
+    const surfaceInfo = findSurfaceValueForInWater(inWaterTime, surfaceTimestamps, surfaceMap, stalenessThresholdMs)
 
     // Build simplified wide-format row for testing
     const row: WideFormatRow = {
@@ -1018,3 +1036,518 @@ describe('findSurfaceValueForInWater', () => {
     expect(expiredResult.row).toBeNull() // Null when expired
   })
 })
+
+describe('fuseSessionData with sensor arrays', () => {
+  let sessionRoot: string
+
+  /**
+   * Write a session.csv with sync markers and one reading per second
+   * @param sensor - Sensor id, used for the directory name
+   * @param values - Readings, starting at 00:00:01
+   * @param clockOffsetMs - Offset of the sensor clock applied to the readings (not to the markers)
+   * @returns CSV path relative to the session root
+   */
+  async function writeSessionCsv(sensor: string, values: number[], clockOffsetMs = 0): Promise<string> {
+    const directory = `${sensor}_session`
+    const start = Date.parse('2025-05-05T00:00:00.000Z')
+    const at = (ms: number): string => new Date(start + ms).toISOString()
+    const lines = ['timestamp,sensor_id,mode,value,TempC,Vin', `${at(0)},SN,SYNC_START,sync-1,,`]
+    values.forEach((value, index) => {
+      lines.push(`${at((index + 1) * 1000 + clockOffsetMs)},SN,freerun,${value},20,12`)
+    })
+    lines.push(`${at((values.length + 1) * 1000)},SN,SYNC_STOP,sync-1,,`)
+    await fs.mkdir(path.join(sessionRoot, directory), { recursive: true })
+    await fs.writeFile(path.join(sessionRoot, directory, 'session.csv'), lines.join('\n'))
+    return `${directory}/session.csv`
+  }
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-fusion-'))
+    await ensureSyncMetadata(sessionRoot, 'array', '2025-05-05T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('writes columns for every sensor, aligned to the surface reference', async () => {
+    await updateSensorMetadata(sessionRoot, 'upLooking', {
+      role: 'upLooking',
+      sessionCsv: await writeSessionCsv('upLooking', [10, 11, 12]),
+    })
+    await updateSensorMetadata(sessionRoot, 'downLooking', {
+      role: 'downLooking',
+      sessionCsv: await writeSessionCsv('downLooking', [1, 2, 3]),
+    })
+    await updateSensorMetadata(sessionRoot, 'surface', {
+      role: 'surface',
+      sessionCsv: await writeSessionCsv('surface', [100, 100, 100]),
+    })
+
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!)
+
+    expect(result.success).toBe(true)
+    expect(result.totalRows).toBe(3)
+    expect(result.sensorRows).toEqual({ upLooking: 3, downLooking: 3, surface: 3 })
+
+    const [header, firstRow] = (await fs.readFile(result.unifiedCsvPath!, 'utf-8')).split('\n')
+    const columns = header.split(',')
+    const values = firstRow.split(',')
+    expect(columns.slice(0, 2)).toEqual(['timestamp', 'uplooking_sensor_id'])
+    expect(values[columns.indexOf('uplooking_value')]).toBe('10')
+    expect(values[columns.indexOf('downlooking_value')]).toBe('1')
+    expect(values[columns.indexOf('surface_value')]).toBe('100')
+    expect(columns).toContain('downlooking_age_ms')
+    expect(columns).toContain('surface_status')
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(Object.keys(metadata!.timeSync.driftModels).sort()).toEqual(['downLooking', 'upLooking'])
+    expect(metadata!.timeSync.markers.map((marker) => marker.sensorId)).toContain('downLooking')
+  })
+
+  it('skips fusion without a surface reference', async () => {
+    await updateSensorMetadata(sessionRoot, 'upLooking', {
+      role: 'upLooking',
+      sessionCsv: await writeSessionCsv('upLooking', [10]),
+    })
+
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!)
+
+    expect(result.error).toMatch(/skipping unified fusion/)
+    expect(result.totalRows).toBe(0)
+  })
+  it('corrects timestamps with the offset series measured during recording', async () => {
+    await updateSensorMetadata(sessionRoot, 'inWater', {
+      sessionCsv: await writeSessionCsv('inWater', [10, 11, 12], 400),
+    })
+    await updateSensorMetadata(sessionRoot, 'surface', {
+      sessionCsv: await writeSessionCsv('surface', [100, 100, 100]),
+    })
+    const sample = { uncertaintyMs: 2, rttMs: 4, burstSize: 8, acceptedSamples: 2 }
+    await updateSyncMetadata(sessionRoot, (metadata) => {
+      metadata.timeSync.offsetSeries = {
+        inWater: [
+          { ...sample, measuredAt: '2025-05-05T00:00:00.000Z', offsetMs: 400 },
+          { ...sample, measuredAt: '2025-05-05T00:02:00.000Z', offsetMs: 400 },
+        ],
+      }
+    })
+
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!)
+
+    // START/STOP markers alone would see no offset and leave the readings 400 ms late
+    const rows = (await fs.readFile(result.unifiedCsvPath!, 'utf-8')).split('\n')
+    expect(rows[1].split(',')[0]).toBe('2025-05-05T00:00:01.000Z')
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata!.timeSync.driftModels.inWater).toMatchObject({ type: 'constant', startOffsetMs: 400 })
+  })
+
+  /**
+   * Write a session.csv from [ms, mode, value] rows and register it
+   * @param sensor - Sensor id, used for the directory name
+   * @param rows - Rows, ms after 00:00:00 on the sensor clock
+   */
+  async function writeRows(sensor: string, rows: [number, string, string | number][]): Promise<void> {
+    const start = Date.parse('2025-05-05T00:00:00.000Z')
+    const lines = ['timestamp,sensor_id,mode,value,TempC,Vin']
+    rows.forEach(([ms, mode, value]) => lines.push(`${new Date(start + ms).toISOString()},SN,${mode},${value},20,12`))
+    await fs.mkdir(path.join(sessionRoot, `${sensor}_session`), { recursive: true })
+    await fs.writeFile(path.join(sessionRoot, `${sensor}_session`, 'session.csv'), lines.join('\n'))
+    await updateSensorMetadata(sessionRoot, sensor, { sessionCsv: `${sensor}_session/session.csv` })
+  }
+
+  it('fits piecewise drift through markers injected during recording', async () => {
+    // The in-water clock runs 600 ms ahead by the mark at 10 s, then comes back
+    const offset = (ms: number): number => (ms <= 10000 ? ms * 0.06 : (20000 - ms) * 0.06)
+    const readings = (clockOffset: (ms: number) => number): [number, string, number][] =>
+      Array.from({ length: 19 }, (_, index) => [(index + 1) * 1000 + clockOffset((index + 1) * 1000), 'freerun', 10])
+    await writeRows('inWater', [
+      [0, 'SYNC_START', 'sync-1'],
+      ...readings(offset),
+      [10600, 'SYNC_PERIODIC', 'mark-1'],
+      [20000, 'SYNC_STOP', 'sync-1'],
+    ])
+    await writeRows('surface', [
+      [0, 'SYNC_START', 'sync-1'],
+      ...readings(() => 0),
+      [10000, 'SYNC_PERIODIC', 'mark-1'],
+      [20000, 'SYNC_STOP', 'sync-1'],
+    ])
+
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!)
+
+    // A linear model through START/STOP would leave the readings up to 600 ms late
+    const rows = (await fs.readFile(result.unifiedCsvPath!, 'utf-8')).trim().split('\n').slice(1)
+    expect(rows).toHaveLength(19)
+    expect(rows.map((row) => row.split(',')[0])).toEqual(
+      Array.from({ length: 19 }, (_, index) => new Date(Date.UTC(2025, 4, 5, 0, 0, index + 1)).toISOString())
+    )
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata!.timeSync.driftModels.inWater).toMatchObject({
+      type: 'piecewise',
+      startOffsetMs: 0,
+      endOffsetMs: 0,
+    })
+    expect(metadata!.timeSync.driftModels.inWater!.knots!.map((knot) => knot.offsetMs)).toEqual([0, 600, 0])
+    expect(metadata!.timeSync.markers.find((marker) => marker.type === 'PERIODIC')).toMatchObject({
+      syncId: 'mark-1',
+      offsetMs: 600,
+      quality: 'measured',
+    })
+  })
+
+  it('pairs light flashes seen by both sensors', async () => {
+    // Both sensors are shaded at 8 s; the in-water clock is 500 ms ahead by then
+    const readings = (shift: number): [number, string, number][] =>
+      Array.from({ length: 19 }, (_, index) => {
+        const second = index + 1
+        return [second * 1000 + (second >= 7 && second <= 12 ? shift : 0), 'freerun', second === 8 ? 5 : 1000]
+      })
+    await writeRows('inWater', [[0, 'SYNC_START', 'sync-1'], ...readings(500), [20000, 'SYNC_STOP', 'sync-1']])
+    await writeRows('surface', [[0, 'SYNC_START', 'sync-1'], ...readings(0), [20000, 'SYNC_STOP', 'sync-1']])
+
+    await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!)
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata!.timeSync.driftModels.inWater!.type).toBe('piecewise')
+    const flash = metadata!.timeSync.markers.find((marker) => marker.type === 'FLASH')
+    expect(flash).toMatchObject({ syncId: 'flash-1', quality: 'detected' })
+    expect(flash!.offsetMs).toBeCloseTo(500, 0)
+  })
+})
+
+describe('streaming fusion', () => {
+  let sessionRoot: string
+  const start = Date.parse('2025-05-05T00:00:00.000Z')
+  const at = (ms: number): string => new Date(start + ms).toISOString()
+
+  /**
+   * Write a session.csv from raw lines, under the header
+   * @param sensor - Sensor id, used for the directory name
+   * @param lines - Data, marker and malformed lines
+   * @returns CSV path relative to the session root
+   */
+  async function writeLines(sensor: string, lines: string[]): Promise<string> {
+    const directory = `${sensor}_session`
+    await fs.mkdir(path.join(sessionRoot, directory), { recursive: true })
+    await fs.writeFile(
+      path.join(sessionRoot, directory, 'session.csv'),
+      ['timestamp,sensor_id,mode,value,TempC,Vin', ...lines].join('\n') + '\n'
+    )
+    return `${directory}/session.csv`
+  }
+
+  /**
+   * In-water readings every ~62 ms with jitter, a repeated timestamp, a GAP row and a malformed line,
+   * on a clock drifting from 100 ms to 130 ms ahead of the surface
+   * @param count - Number of readings
+   * @returns session.csv lines
+   */
+  function inWaterLines(count: number): string[] {
+    const lines = [`${at(100)},SN1,SYNC_START,sync-1,,`]
+    for (let i = 0; i < count; i++) {
+      const time = 1000 + i * 62 + (i % 3) * 7 + Math.round((30 * i) / count)
+      lines.push(`${at(time)},SN1,freerun,${(500 + (i % 50)).toFixed(2)},21.5,12.0`)
+      if (i === 40) lines.push(`${at(time)},SN1,freerun,999.00,21.5,12.0`)
+      if (i === 80) lines.push(`${at(time + 1)},SN1,GAP,,,`)
+      if (i === 120) lines.push('not-a-timestamp,SN1,freerun,1,2,3')
+    }
+    lines.push(`${at(1000 + count * 62 + 130)},SN1,SYNC_STOP,sync-1,,`)
+    return lines
+  }
+
+  /**
+   * Surface readings every second with a 40 s outage
+   * @param seconds - Recording length
+   * @returns session.csv lines
+   */
+  function surfaceLines(seconds: number): string[] {
+    const lines = [`${at(0)},SN2,SYNC_START,sync-1,,`]
+    for (let s = 1; s <= seconds; s++) {
+      if (s > 60 && s < 100) continue
+      lines.push(`${at(s * 1000)},SN2,freerun,${800 + s},20.0,12.1`)
+    }
+    lines.push(`${at(seconds * 1000 + 1000)},SN2,SYNC_STOP,sync-1,,`)
+    return lines
+  }
+
+  /**
+   * Record a session with two in-water sensors, a surface reference, calibration, dark and vehicle telemetry
+   * @param count - In-water readings
+   */
+  async function recordSession(count: number): Promise<void> {
+    const seconds = Math.ceil((count * 62) / 1000) + 2
+    await updateSensorMetadata(sessionRoot, 'inWater', {
+      sessionCsv: await writeLines('inWater', inWaterLines(count)),
+      calibration: {
+        serialNumber: 'SN1',
+        status: 'valid',
+        record: {
+          serialNumber: 'SN1',
+          calFactor: 0.5,
+          darkOffset: 10,
+          immersionCoefficient: 1.2,
+          units: 'µE/cm²·s',
+          calDate: '2025-01-01T00:00:00.000Z',
+        },
+        expiresAt: null,
+        deviceCalFactor: 0.5,
+        calFactorMismatch: false,
+        warnings: [],
+        checkedAt: '2025-05-05T00:00:00.000Z',
+      },
+    })
+    await updateSensorMetadata(sessionRoot, 'upLooking', {
+      role: 'upLooking',
+      sessionCsv: await writeLines(
+        'upLooking',
+        Array.from({ length: seconds * 4 }, (_, i) => `${at(i * 250 + 3)},SN3,freerun,${i},19.0,12.2`)
+      ),
+    })
+    await updateSensorMetadata(sessionRoot, 'surface', {
+      sessionCsv: await writeLines('surface', surfaceLines(seconds)),
+      dark: {
+        serialNumber: 'SN2',
+        startedAt: '2025-05-04T23:50:00.000Z',
+        completedAt: '2025-05-04T23:50:10.000Z',
+        durationS: 10,
+        sampleCount: 10,
+        valueMean: 3.5,
+        valueStd: 0.1,
+        tempCMean: null,
+        tempCStd: null,
+      },
+    })
+    await saveVehicleTelemetry(
+      sessionRoot,
+      Array.from({ length: seconds }, (_, s) => ({
+        epoch: start + s * 1000 + 500,
+        data: { Depth: { value: `${(s * 0.1).toFixed(2)} m` }, Heading: { value: `${s % 360}.0 °` } },
+      }))
+    )
+  }
+
+  /**
+   * Fuse the session and read the unified CSV
+   * @param options - Fusion options
+   * @returns Result and file content
+   */
+  async function fuse(options: FusionRunOptions = {}): Promise<[FusionResult, string]> {
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!, options)
+    return [result, await fs.readFile(path.join(sessionRoot, 'unified_session.csv'), 'utf-8')]
+  }
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-fusion-stream-'))
+    await ensureSyncMetadata(sessionRoot, 'stream', '2025-05-05T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('writes the same file and counts as the in-memory fusion', async () => {
+    await recordSession(3000)
+
+    const [inMemory, inMemoryCsv] = await fuse({ engine: 'in-memory' })
+    const progress: FusionProgress[] = []
+    const [streamed, streamedCsv] = await fuse({ onProgress: (event) => progress.push(event) })
+
+    expect(streamed.success).toBe(true)
+    expect(streamedCsv).toBe(inMemoryCsv)
+    expect(streamed).toEqual(inMemory)
+    expect(streamed.totalRows).toBe(3000)
+    expect(streamedCsv).toContain(',stale,')
+    expect(progress[0]).toMatchObject({ phase: 'scanning', fraction: 0 })
+    expect(progress[progress.length - 1]).toMatchObject({ phase: 'complete', fraction: 1, rowsWritten: 3000 })
+    expect(await fs.readdir(sessionRoot)).not.toContain('unified_session.csv.tmp')
+  })
+
+  it('falls back to in-memory fusion for files not sorted by time', async () => {
+    await recordSession(200)
+    const surfacePath = path.join(sessionRoot, 'surface_session', 'session.csv')
+    const lines = (await fs.readFile(surfacePath, 'utf-8')).trimEnd().split('\n')
+    ;[lines[3], lines[4]] = [lines[4], lines[3]]
+    await fs.writeFile(surfacePath, lines.join('\n') + '\n')
+
+    const [inMemory, inMemoryCsv] = await fuse({ engine: 'in-memory' })
+    const [streamed, streamedCsv] = await fuse()
+
+    expect(streamedCsv).toBe(inMemoryCsv)
+    expect(streamed).toEqual(inMemory)
+  })
+
+  it('cancels a run and keeps the previous unified CSV', async () => {
+    await recordSession(200)
+    const [, previousCsv] = await fuse()
+    await fs.writeFile(path.join(sessionRoot, 'unified_session.csv'), 'previous\n')
+
+    const progress: FusionProgress[] = []
+    const [result, csv] = await fuse({
+      onProgress: (event) => {
+        progress.push(event)
+        if (event.phase === 'scanning') cancelFusion(sessionRoot)
+      },
+    })
+
+    expect(previousCsv.startsWith('timestamp,')).toBe(true)
+    expect(result).toMatchObject({ success: false, cancelled: true, error: 'Fusion cancelled' })
+    expect(csv).toBe('previous\n')
+    expect(progress[progress.length - 1].phase).toBe('cancelled')
+    expect(cancelFusion(sessionRoot)).toBe(false)
+
+    const controller = new AbortController()
+    controller.abort()
+    expect(
+      await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!, { signal: controller.signal })
+    ).toMatchObject({ cancelled: true })
+  })
+})
+
+describe('fusion options', () => {
+  let sessionRoot: string
+  const start = Date.parse('2025-05-05T00:00:00.000Z')
+
+  /**
+   * Write a session.csv with one reading per [ms after start, value]
+   * @param sensor - Sensor id, used for the directory name
+   * @param id - Serial number written in sensor_id
+   * @param readings - Reading times and values
+   */
+  async function writeReadings(sensor: string, id: string, readings: Array<[number, string]>): Promise<void> {
+    const directory = `${sensor}_session`
+    await fs.mkdir(path.join(sessionRoot, directory), { recursive: true })
+    const lines = readings.map(
+      ([ms, value]) => `${new Date(start + ms).toISOString()},${id},freerun,${value},20.0,12.0`
+    )
+    await fs.writeFile(
+      path.join(sessionRoot, directory, 'session.csv'),
+      ['timestamp,sensor_id,mode,value,TempC,Vin', ...lines].join('\n') + '\n'
+    )
+    await updateSensorMetadata(sessionRoot, sensor, { sessionCsv: `${directory}/session.csv` })
+  }
+
+  /**
+   * Fuse the session and read the unified CSV rows by column name
+   * @param options - Fusion run options
+   * @returns Result and rows keyed by ms after start
+   */
+  async function fuse(options: FusionRunOptions = {}): Promise<[FusionResult, Map<number, Record<string, string>>]> {
+    const result = await fuseSessionData(sessionRoot, (await readSyncMetadata(sessionRoot))!, options)
+    const [header, ...lines] = (await fs.readFile(path.join(sessionRoot, 'unified_session.csv'), 'utf-8'))
+      .trim()
+      .split('\n')
+      .map((line) => line.split(','))
+    const rows = new Map(
+      lines.map((cells) => [
+        Date.parse(cells[0]) - start,
+        Object.fromEntries(header.map((column, index) => [column, cells[index]])),
+      ])
+    )
+    return [result, rows]
+  }
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-fusion-options-'))
+    await ensureSyncMetadata(sessionRoot, 'options', '2025-05-05T00-00-00Z')
+    await writeReadings('inWater', 'SN1', [
+      [250, '10.0'],
+      [1250, '20.0'],
+      [2250, '30.0'],
+      [3250, '40.0'],
+    ])
+    await writeReadings('surface', 'SN2', [
+      [0, '100.0'],
+      [2000, '200.0'],
+      [40000, '300.0'],
+    ])
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('fills in defaults and rejects invalid options', () => {
+    expect(normalizeFusionOptions()).toEqual(defaultQSensorFusionOptions)
+    expect(normalizeFusionOptions({ method: 'linear', gridIntervalMs: 62.5 })).toEqual({
+      ...defaultQSensorFusionOptions,
+      method: 'linear',
+      gridIntervalMs: 62.5,
+    })
+    expect(() => normalizeFusionOptions({ method: 'spline' as QSensorFusionMethod })).toThrow(
+      "Unknown fusion method 'spline'"
+    )
+    expect(() => normalizeFusionOptions({ windowMs: 0 })).toThrow('Averaging window must be a positive')
+    expect(() => normalizeFusionOptions({ gridIntervalMs: -1 })).toThrow('Grid interval must be a positive')
+    expect(() => normalizeFusionOptions({ freshThresholdMs: 5000, maxStalenessMs: 1000 })).toThrow(
+      'Maximum staleness must be at least the fresh threshold'
+    )
+  })
+
+  it('holds the last surface reading with configurable staleness thresholds', async () => {
+    const [result, rows] = await fuse({ fusion: { freshThresholdMs: 500, maxStalenessMs: 1000 } })
+
+    expect(result.options).toMatchObject({ method: 'hold-last', freshThresholdMs: 500, maxStalenessMs: 1000 })
+    expect(rows.get(250)).toMatchObject({ surface_value: '100.0', surface_age_ms: '250', surface_status: 'fresh' })
+    expect(rows.get(1250)).toMatchObject({ surface_value: '', surface_age_ms: '1250', surface_status: 'stale' })
+    expect(rows.get(2250)).toMatchObject({ surface_value: '200.0', surface_status: 'fresh' })
+  })
+
+  it('uses the nearest surface reading before or after the row', async () => {
+    const [, rows] = await fuse({ fusion: { method: 'nearest' } })
+
+    expect(rows.get(1250)).toMatchObject({
+      surface_value: '200.0',
+      surface_timestamp_used: '2025-05-05T00:00:02.000Z',
+      surface_age_ms: '750',
+    })
+  })
+
+  it('interpolates linearly between readings within the staleness limit', async () => {
+    const [, rows] = await fuse({ fusion: { method: 'linear' } })
+
+    expect(rows.get(250)).toMatchObject({ surface_value: '112.5', surface_TempC: '20.0', surface_age_ms: '250' })
+    expect(rows.get(1250)).toMatchObject({ surface_value: '162.5', surface_timestamp_used: '2025-05-05T00:00:02.000Z' })
+    // The next reading is 37.75 s away, past the 30 s limit: nearest reading instead
+    expect(rows.get(2250)).toMatchObject({ surface_value: '200.0', surface_age_ms: '250' })
+  })
+
+  it('averages readings over the window weighted by how long each was held', async () => {
+    const [, rows] = await fuse({ fusion: { method: 'window-average', windowMs: 2000 } })
+
+    // [250, 2250]: 100.0 held for 1750 ms, 200.0 for 250 ms
+    expect(rows.get(1250)).toMatchObject({ surface_value: '112.5', surface_age_ms: '750' })
+  })
+
+  it('resamples every sensor onto a fixed-rate grid', async () => {
+    const [result, rows] = await fuse({ fusion: { method: 'linear', gridIntervalMs: 1000 } })
+
+    expect([...rows.keys()]).toEqual([1000, 2000, 3000])
+    expect(result.totalRows).toBe(3)
+    expect(rows.get(1000)).toMatchObject({ inwater_value: '17.5', inwater_age_ms: '250', surface_value: '150.0' })
+    expect(rows.get(2000)).toMatchObject({ inwater_value: '27.5', surface_value: '200.0', surface_age_ms: '0' })
+    expect(rows.get(3000)).toMatchObject({ inwater_value: '37.5', inwater_status: 'fresh' })
+  })
+
+  it('writes the same file from the in-memory engine and reuses the stored options', async () => {
+    const fusion = { method: 'window-average', windowMs: 1500, gridIntervalMs: 500 } as const
+    const [, streamed] = await fuse({ fusion })
+    const [, inMemory] = await fuse({ fusion, engine: 'in-memory' })
+    expect(inMemory).toEqual(streamed)
+
+    await updateSyncMetadata(sessionRoot, (metadata) => {
+      metadata.fusion = {
+        status: 'complete',
+        unifiedCsv: 'unified_session.csv',
+        rowCount: null,
+        inWaterRows: null,
+        surfaceRows: null,
+        completedAt: null,
+        error: null,
+        options: normalizeFusionOptions({ method: 'nearest' }),
+      }
+    })
+    const [result] = await fuse()
+    expect(result.options?.method).toBe('nearest')
+  })
+})
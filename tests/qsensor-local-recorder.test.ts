@@ -282,7 +282,7 @@ describe('QSeriesLocalRecorder', () => {
       const chunkContent = await fs.readFile(chunkTmpPath, 'utf-8')
       const lines = chunkContent.split('\n').filter((line) => line.trim() !== '')
       expect(lines.length).toBeGreaterThan(0) // At least header
-      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin')
+      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value')
 
       await recorder.stopSession(session.session_id)
     })
@@ -304,7 +304,7 @@ describe('QSeriesLocalRecorder', () => {
       const sessionCsvContent = await fs.readFile(sessionCsvPath, 'utf-8')
       const lines = sessionCsvContent.split('\n').filter((line) => line.trim() !== '')
       expect(lines.length).toBe(3) // Header + 2 sync markers
-      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin')
+      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value')
       expect(lines[1]).toContain('SYNC_START')
       expect(lines[2]).toContain('SYNC_STOP')
     })
@@ -360,7 +360,7 @@ describe('QSeriesLocalRecorder', () => {
       const chunkContent = await fs.readFile(chunkTmpPath, 'utf-8')
       const lines = chunkContent.split('\n').filter((line) => line.trim() !== '')
 
-      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin')
+      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value')
       // Line 1 is SYNC_START marker, line 2 is our actual reading
       expect(lines[1]).toContain('SYNC_START')
       expect(lines[2]).toContain('2025-11-18T12:00:00.123456+00:00')
@@ -402,9 +402,10 @@ describe('QSeriesLocalRecorder', () => {
       expect(lines[1]).toContain('SYNC_START')
       expect(lines[2]).toContain('999')
       const columns = lines[2].split(',')
-      expect(columns).toHaveLength(6)
+      expect(columns).toHaveLength(7)
       expect(columns[4]).toBe('')
       expect(columns[5]).toBe('')
+      expect(columns[6]).toBe('') // No calibration record
 
       await recorder.stopSession(session.session_id)
     })
@@ -506,7 +507,7 @@ describe('QSeriesLocalRecorder', () => {
       const lines = sessionCsvContent.split('\n').filter((line) => line.trim() !== '')
 
       // Should have single header + all data rows
-      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin')
+      expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin,calibrated_value')
       expect(lines.length).toBeGreaterThan(1)
 
       // Verify no duplicate headers in middle of file
@@ -514,6 +515,32 @@ describe('QSeriesLocalRecorder', () => {
       expect(headerCount).toBe(1)
     })
 
+    it('should write injected sync markers between the readings', async () => {
+      const session = await recorder.startSession({
+        sensorId: 'SN12345',
+        mission: 'test-mission',
+        rollIntervalS: 1,
+      })
+
+      recorder.addReading(session.session_id, createMockReading(0))
+      recorder.addSyncMarker(session.session_id, 'abcdef12-3456')
+      recorder.addReading(session.session_id, createMockReading(1))
+      await recorder.stopSession(session.session_id)
+
+      const sessionCsvPath = path.join(testDir, 'test-mission', `surface_${session.session_id}`, 'session.csv')
+      const lines = (await fs.readFile(sessionCsvPath, 'utf-8')).split('\n').filter((line) => line.trim() !== '')
+      expect(lines.map((line) => line.split(',')[2])).toEqual([
+        'mode',
+        'SYNC_START',
+        'freerun',
+        'SYNC_PERIODIC',
+        'freerun',
+        'SYNC_STOP',
+      ])
+      expect(lines[3].split(',')[3]).toBe(String(0xabcdef12))
+      expect(() => recorder.addSyncMarker('missing', 'abcdef12')).toThrow(/Session not found/)
+    })
+
     it('should delete chunk files after finalization', async () => {
       const session = await recorder.startSession({
         sensorId: 'SN12345',
@@ -568,6 +595,178 @@ describe('QSeriesLocalRecorder', () => {
       // Total includes SYNC_START + numReadings + SYNC_STOP = numReadings + 2
       expect(manifest.total_rows).toBe(numReadings + 2)
     })
+
+    it('should write calibrated values when a calibration record is provided', async () => {
+      const session = await recorder.startSession({
+        sensorId: 'SN12345',
+        mission: 'test-mission',
+        calibration: {
+          serialNumber: 'SN12345',
+          calFactor: 0.5,
+          darkOffset: 10,
+          immersionCoefficient: 1.2,
+          units: 'µE/cm²·s',
+          calDate: '2025-01-01T00:00:00.000Z',
+        },
+      })
+
+      recorder.addReading(session.session_id, createMockReading(110))
+      await flushSession(recorder, session.session_id)
+      await recorder.stopSession(session.session_id)
+
+      const sessionCsvPath = path.join(testDir, 'test-mission', `surface_${session.session_id}`, 'session.csv')
+      const lines = (await fs.readFile(sessionCsvPath, 'utf-8')).split('\n').filter((line) => line.trim() !== '')
+
+      // Sync markers are never calibrated; (110 - 10) * 0.5 * 1.2 = 60
+      expect(lines[1].split(',')[6]).toBe('')
+      expect(Number(lines[2].split(',')[6])).toBeCloseTo(60, 9)
+      expect(lines[3].split(',')[6]).toBe('')
+    })
+
+    it('should leave calibrated values empty without a calibration record', async () => {
+      const session = await recorder.startSession({
+        sensorId: 'SN12345',
+        mission: 'test-mission',
+      })
+
+      recorder.addReading(session.session_id, createMockReading(110))
+      await flushSession(recorder, session.session_id)
+      await recorder.stopSession(session.session_id)
+
+      const sessionCsvPath = path.join(testDir, 'test-mission', `surface_${session.session_id}`, 'session.csv')
+      const lines = (await fs.readFile(sessionCsvPath, 'utf-8')).split('\n').filter((line) => line.trim() !== '')
+
+      expect(lines[2].split(',')).toHaveLength(7)
+      expect(lines[2].split(',')[6]).toBe('')
+    })
+  })
+
+  describe('Serial Gaps', () => {
+    it('should write a GAP row for a bridged serial disconnect', async () => {
+      const session = await recorder.startSession({
+        sensorId: 'SN12345',
+        mission: 'test-mission',
+      })
+
+      recorder.addReading(session.session_id, createMockReading(100))
+      recorder.recordGap(session.session_id, '2025-06-01T00:00:00.000Z', '2025-06-01T00:00:05.000Z')
+      recorder.addReading(session.session_id, createMockReading(101))
+      await flushSession(recorder, session.session_id)
+      await recorder.stopSession(session.session_id)
+
+      const sessionDir = path.join(testDir, 'test-mission', `surface_${session.session_id}`)
+      const lines = (await fs.readFile(path.join(sessionDir, 'session.csv'), 'utf-8'))
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+      expect(lines[3].split(',')).toEqual(['2025-06-01T00:00:00.000Z', 'SN12345', 'GAP', '5000', '0', '0', ''])
+
+      const manifest = JSON.parse(await fs.readFile(path.join(sessionDir, 'manifest.json'), 'utf-8'))
+      expect(manifest.gaps).toEqual([
+        { started_at: '2025-06-01T00:00:00.000Z', ended_at: '2025-06-01T00:00:05.000Z', duration_ms: 5000 },
+      ])
+    })
+  })
+
+  describe('Interrupted Session Recovery', () => {
+    const unifiedTimestamp = '2025-06-01T00-00-00Z'
+
+    /**
+     * Record two chunks and leave the second one open, as if the app crashed mid-write
+     */
+    async function recordUntilCrash(): Promise<{
+      /**
+       *
+       */
+      sessionId: string
+      /**
+       *
+       */
+      sensorDir: string
+      /**
+       *
+       */
+      lastTimestamp: string
+    }> {
+      const session = await recorder.startSession({
+        sensorId: 'SN12345',
+        mission: 'test-mission',
+        unifiedSessionTimestamp: unifiedTimestamp,
+      })
+      for (let i = 0; i < 5; i++) {
+        recorder.addReading(session.session_id, createMockReading(100 + i))
+      }
+      await forceChunkRoll(recorder, session.session_id)
+
+      const lastReading = createMockReading(200)
+      recorder.addReading(session.session_id, createMockReading(199))
+      recorder.addReading(session.session_id, lastReading)
+      await flushSession(recorder, session.session_id)
+
+      const sensorDir = path.join(
+        testDir,
+        'test-mission',
+        `session_${unifiedTimestamp}`,
+        `surface_${session.session_id}`
+      )
+      await fs.appendFile(path.join(sensorDir, 'chunk_00001.csv.tmp'), '2025-06-01T00:00:09.0', 'utf-8')
+      return { sessionId: session.session_id, sensorDir, lastTimestamp: lastReading.timestamp_utc }
+    }
+
+    it('should finalize a session left open by a crash', async () => {
+      const { sessionId, sensorDir, lastTimestamp } = await recordUntilCrash()
+
+      const recovered = await new QSeriesLocalRecorder().recoverInterruptedSessions(testDir)
+
+      expect(recovered).toEqual([
+        { sessionId, rootPath: sensorDir, status: 'finalized', totalRows: 8, corruptChunks: [] },
+      ])
+
+      const manifest = JSON.parse(await fs.readFile(path.join(sensorDir, 'manifest.json'), 'utf-8'))
+      expect(manifest.stopped_at).toBe(lastTimestamp)
+      expect(manifest.recovered_at).toBeDefined()
+      expect(manifest.chunks.map((chunk: any) => chunk.name)).toEqual(['chunk_00000.csv', 'chunk_00001.csv'])
+      expect(manifest.session_sha256).toBe(await computeSHA256(path.join(sensorDir, 'session.csv')))
+
+      // Partial trailing row is dropped: header + SYNC_START + 7 readings
+      const lines = (await fs.readFile(path.join(sensorDir, 'session.csv'), 'utf-8'))
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+      expect(lines).toHaveLength(9)
+      expect((await fs.readdir(sensorDir)).sort()).toEqual(['manifest.json', 'session.csv'])
+
+      const metadata = await readSyncMetadata(path.dirname(sensorDir))
+      expect(metadata?.sensors.surface?.sessionCsv).toBe(`surface_${sessionId}/session.csv`)
+      expect(metadata?.sensors.surface?.stoppedAt).toBe(lastTimestamp)
+    })
+
+    it('should exclude chunks whose checksum does not match the manifest', async () => {
+      const { sensorDir } = await recordUntilCrash()
+      await fs.appendFile(path.join(sensorDir, 'chunk_00000.csv'), 'garbage\n', 'utf-8')
+
+      const [recovered] = await new QSeriesLocalRecorder().recoverInterruptedSessions(testDir)
+
+      expect(recovered.status).toBe('finalized')
+      expect(recovered.corruptChunks).toEqual(['chunk_00000.csv'])
+      expect(recovered.totalRows).toBe(2)
+      expect(await fs.readdir(sensorDir)).toContain('chunk_00000.csv.corrupt')
+
+      const manifest = JSON.parse(await fs.readFile(path.join(sensorDir, 'manifest.json'), 'utf-8'))
+      expect(manifest.corrupt_chunks).toEqual(['chunk_00000.csv'])
+      expect(manifest.total_rows).toBe(2)
+    })
+
+    it('should leave stopped and active sessions alone', async () => {
+      const stopped = await recorder.startSession({ sensorId: 'SN12345', mission: 'test-mission' })
+      await recorder.stopSession(stopped.session_id)
+      const active = await recorder.startSession({ sensorId: 'SN12345', mission: 'test-mission' })
+      recorder.addReading(active.session_id, createMockReading(1))
+      await flushSession(recorder, active.session_id)
+
+      expect(await recorder.recoverInterruptedSessions()).toEqual([])
+      expect(await new QSeriesLocalRecorder().recoverInterruptedSessions(path.join(testDir, 'missing'))).toEqual([])
+
+      await recorder.stopSession(active.session_id)
+    })
   })
 
   describe('Recording Statistics', () => {
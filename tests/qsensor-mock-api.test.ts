@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the mock Q_Sensor_API server
+ *
+ * Focus areas:
+ * - Pi clock offset and drift reported by /api/sync/time
+ * - Error responses in the Q_Sensor_API { detail } format
+ * - Connect, acquire, record, sync markers and chunk download with SHA256 verification
+ */
+
+import { createHash } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { QSensorMockApiServer } from '../src/electron/services/qsensor-mock-api'
+
+/**
+ * Send a request to the mock server and parse the JSON response
+ * @param baseUrl - Server base URL
+ * @param route - Path and query string
+ * @param body - JSON body (sent as POST)
+ * @returns HTTP status and parsed body
+ */
+async function call(
+  baseUrl: string,
+  route: string,
+  body?: unknown
+): Promise<{
+  /**
+   *
+   */
+  status: number
+  /**
+   *
+   */
+  data: any
+}> {
+  const isPost = body !== undefined
+  const response = await fetch(`${baseUrl}${route}`, {
+    method: isPost ? 'POST' : 'GET',
+    headers: isPost ? { 'Content-Type': 'application/json' } : undefined,
+    body: isPost ? JSON.stringify(body) : undefined,
+  })
+  return { status: response.status, data: await response.json() }
+}
+
+/**
+ * Wait in real time
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('QSensorMockApiServer', () => {
+  let server: QSensorMockApiServer
+  let baseUrl: string
+
+  beforeEach(async () => {
+    server = new QSensorMockApiServer({ port: 0, clockOffsetMs: 5000, clockDriftMsPerMin: 30, noiseStdDev: 0 })
+    baseUrl = await server.start()
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('reports the Pi clock with offset and drift', async () => {
+    const before = Date.now()
+    const { status, data } = await call(baseUrl, '/api/sync/time')
+    const after = Date.now()
+
+    expect(status).toBe(200)
+    expect(data.pi_unix_ms).toBeGreaterThanOrEqual(before + 5000)
+    expect(data.pi_unix_ms).toBeLessThanOrEqual(after + 5000 + 30)
+    expect(new Date(data.pi_iso).getTime()).toBe(data.pi_unix_ms)
+
+    // NOTE: Drift accumulates from server start
+    const hostMs = Date.now() + 10 * 60000
+    expect(server.piTimeMs(hostMs) - hostMs).toBeCloseTo(5000 + 300, -1)
+  })
+
+  it('answers errors with a detail message', async () => {
+    expect(await call(baseUrl, '/sensor/start?poll_hz=1', {})).toEqual({
+      status: 409,
+      data: { detail: 'Sensor not connected' },
+    })
+    expect((await call(baseUrl, '/record/snapshots?session_id=missing')).status).toBe(404)
+    expect((await call(baseUrl, '/files/missing/chunk_00000.csv')).status).toBe(404)
+    expect((await call(baseUrl, '/not-an-endpoint')).status).toBe(404)
+
+    const response = await fetch(`${baseUrl}/record/start`, { method: 'POST', body: '{not json' })
+    expect(response.status).toBe(400)
+  })
+
+  it('records chunks from the simulated sensor that mirror like the Pi', async () => {
+    const connect = await call(baseUrl, '/sensor/connect?port=/dev/ttyUSB0&baud=9600', {})
+    expect(connect.data).toEqual({ status: 'connected', sensor_id: 'SIM-INWATER' })
+
+    const health = await call(baseUrl, '/instrument/health')
+    expect(health.data).toMatchObject({ connected: true, port: '/dev/ttyUSB0', firmware: '4.003' })
+
+    expect((await call(baseUrl, '/record/start', { roll_interval_s: 1 })).status).toBe(409)
+    await call(baseUrl, '/sensor/start?poll_hz=1', {})
+
+    const start = await call(baseUrl, '/record/start', { rate_hz: 500, mission: 'Test', roll_interval_s: 1 })
+    expect(start.status).toBe(200)
+    const sessionId = start.data.session_id
+    const marker = await call(baseUrl, '/record/sync-marker', {
+      session_id: sessionId,
+      sync_id: 'abcdef12-0000',
+      marker_type: 'START',
+    })
+    expect(new Date(marker.data.timestamp).getTime() - Date.now()).toBeGreaterThan(4000)
+    const periodic = await call(baseUrl, '/record/sync-marker', {
+      session_id: sessionId,
+      sync_id: 'abcdef12-0001',
+      marker_type: 'PERIODIC',
+    })
+    expect(periodic.data).toMatchObject({ marker_type: 'PERIODIC' })
+
+    await sleep(1500)
+    const latest = await call(baseUrl, '/sensor/latest')
+    expect(latest.data).toMatchObject({ sensor_id: 'SIM-INWATER', mode: 'freerun', value: 450 })
+    expect((await call(baseUrl, `/record/snapshots?session_id=${sessionId}`)).data.length).toBeGreaterThanOrEqual(1)
+
+    const stop = await call(baseUrl, '/record/stop', { session_id: sessionId })
+    const status = await call(baseUrl, `/record/status?session_id=${sessionId}`)
+    expect(status.data).toMatchObject({ state: 'stopped', rows: stop.data.rows, backlog: 0 })
+
+    const chunks = (await call(baseUrl, `/record/snapshots?session_id=${sessionId}`)).data
+    expect(chunks).toHaveLength(stop.data.chunks)
+    expect(chunks.reduce((sum: number, chunk: any) => sum + chunk.rows, 0)).toBe(stop.data.rows)
+
+    const file = await fetch(`${baseUrl}/files/${sessionId}/${chunks[0].name}`)
+    const content = Buffer.from(await file.arrayBuffer())
+    expect(createHash('sha256').update(content).digest('hex')).toBe(chunks[0].sha256)
+
+    const lines = content.toString('utf-8').trim().split('\n')
+    expect(lines[0]).toBe('timestamp,sensor_id,mode,value,TempC,Vin')
+    expect(lines.filter((line) => line.endsWith(',SIM-INWATER,SYNC_START,2882400018,0,0'))).toHaveLength(1)
+    expect(lines.some((line) => /,SIM-INWATER,freerun,450,/.test(line))).toBe(true)
+  }, 30000)
+})
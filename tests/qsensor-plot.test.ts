@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the Q-Sensor irradiance plot helpers
+ *
+ * Focus areas:
+ * - pruneSamples: scrolling window trimming
+ * - sampleRange/scaleValue: linear and log axes
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { pruneSamples, sampleRange, scaleValue, TimedSample } from '../src/libs/qsensor-plot'
+
+/**
+ *
+ * @param values
+ */
+function makeSamples(values: number[]): TimedSample[] {
+  return values.map((value, index) => ({ timestamp: index * 1000, value }))
+}
+
+describe('pruneSamples', () => {
+  it('drops samples before the window but keeps one lead-in sample', () => {
+    const samples = makeSamples([1, 2, 3, 4, 5])
+    pruneSamples(samples, 2500)
+
+    expect(samples.map((sample) => sample.timestamp)).toEqual([2000, 3000, 4000])
+  })
+
+  it('keeps only the latest sample when everything is older than the window', () => {
+    const samples = makeSamples([1, 2, 3])
+    pruneSamples(samples, 10000)
+
+    expect(samples).toEqual([{ timestamp: 2000, value: 3 }])
+  })
+
+  it('leaves samples untouched when all are inside the window', () => {
+    const samples = makeSamples([1, 2])
+    pruneSamples(samples, 0)
+
+    expect(samples).toHaveLength(2)
+  })
+})
+
+describe('sampleRange', () => {
+  it('spans all traces', () => {
+    expect(sampleRange([makeSamples([5, 10]), makeSamples([2, 8])], false)).toEqual({ min: 2, max: 10 })
+  })
+
+  it('ignores non-positive values on a log axis', () => {
+    expect(sampleRange([makeSamples([0, -1, 10, 100])], true)).toEqual({ min: 10, max: 100 })
+  })
+
+  it('returns null when there is nothing to plot', () => {
+    expect(sampleRange([[]], false)).toBeNull()
+    expect(sampleRange([makeSamples([0])], true)).toBeNull()
+  })
+})
+
+describe('scaleValue', () => {
+  it('maps a linear range with a 5% margin on both ends', () => {
+    const range = { min: 0, max: 100 }
+
+    expect(scaleValue(0, range, false)).toBeCloseTo(0.05 / 1.1, 6)
+    expect(scaleValue(50, range, false)).toBeCloseTo(0.5, 6)
+    expect(scaleValue(100, range, false)).toBeCloseTo(1.05 / 1.1, 6)
+  })
+
+  it('places decades evenly on a log axis', () => {
+    const range = { min: 1, max: 10000 }
+
+    expect(scaleValue(100, range, true)).toBeCloseTo(0.5, 6)
+    expect(scaleValue(0, range, true)).toBeNull()
+  })
+
+  it('centers values when the range is flat', () => {
+    expect(scaleValue(42, { min: 42, max: 42 }, false)).toBe(0.5)
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the pre-flight configuration check
+ *
+ * Focus areas:
+ * - Output rate, ADC rate, averaging, mode, outputs and firmware comparison with severities
+ * - Reference sensor selection
+ * - Serial configuration that matches the reference
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  buildMatchingSerialConfig,
+  choosePreflightReference,
+  compareSensorConfigs,
+  freerunOutputRateHz,
+  runPreflightCheck,
+} from '../src/libs/qsensor-preflight'
+import type { QSensorPreflightSensor } from '../src/types/qsensor'
+
+/**
+ * Sensor entry for the check
+ * @param sensorId - Sensor identifier
+ * @param overrides - Fields to change
+ * @returns Pre-flight sensor
+ */
+function sensor(sensorId: string, overrides: Partial<QSensorPreflightSensor> = {}): QSensorPreflightSensor {
+  return {
+    sensorId,
+    label: sensorId === 'surface' ? 'Surface' : 'In-Water',
+    backendType: sensorId === 'surface' ? 'serial' : 'http',
+    firmware: '4.003',
+    config: { rateHz: 125, internalAveraging: 12, mode: 'freerun', tag: null, includeTemp: true, includeVin: true },
+    ...overrides,
+  }
+}
+
+describe('freerunOutputRateHz', () => {
+  it('divides the ADC rate by the averaging count in freerun only', () => {
+    expect(freerunOutputRateHz({ rateHz: 125, internalAveraging: 25, mode: 'freerun' })).toBe(5)
+    expect(freerunOutputRateHz({ rateHz: 125, internalAveraging: 25, mode: 'polled' })).toBeNull()
+    expect(freerunOutputRateHz({ rateHz: 125, mode: 'freerun' })).toBeNull()
+    expect(freerunOutputRateHz(null)).toBeNull()
+  })
+})
+
+describe('compareSensorConfigs', () => {
+  it('reports no issues for matching sensors', () => {
+    expect(compareSensorConfigs(sensor('inWater'), sensor('surface'))).toEqual([])
+  })
+
+  it('rates each difference by its effect on fusion', () => {
+    const surface = sensor('surface', {
+      firmware: '4.010',
+      config: { rateHz: 250, internalAveraging: 12, mode: 'freerun', includeTemp: false, includeVin: true },
+    })
+
+    const issues = compareSensorConfigs(sensor('inWater'), surface)
+
+    expect(issues.map((issue) => [issue.field, issue.severity])).toEqual([
+      ['outputRateHz', 'error'],
+      ['rateHz', 'warning'],
+      ['includeTemp', 'info'],
+      ['firmware', 'info'],
+    ])
+    expect(issues[0]).toMatchObject({ sensorId: 'surface', reference: 125 / 12, actual: 250 / 12 })
+    expect(issues[0].message).toBe('Surface outputs 20.83 Hz, In-Water 10.42 Hz')
+  })
+
+  it('tolerates small output rate differences and skips unreported values', () => {
+    const surface = sensor('surface', { config: { rateHz: 125, internalAveraging: 12.5, mode: 'freerun' } })
+
+    expect(compareSensorConfigs(sensor('inWater'), surface).map((issue) => issue.field)).toEqual(['averaging'])
+  })
+
+  it('reports a sensor without configuration', () => {
+    const issues = compareSensorConfigs(sensor('inWater', { config: null }), sensor('surface'))
+
+    expect(issues).toEqual([expect.objectContaining({ field: 'config', severity: 'info' })])
+    expect(issues[0].message).toContain('In-Water does not report its configuration')
+  })
+})
+
+describe('runPreflightCheck', () => {
+  it('uses the first non-serial sensor that reports its configuration as reference', () => {
+    const sensors = [sensor('surface'), sensor('inWater', { config: null }), sensor('upLooking')]
+
+    expect(choosePreflightReference(sensors)?.sensorId).toBe('upLooking')
+    expect(choosePreflightReference([sensor('surface')])?.sensorId).toBe('surface')
+    expect(choosePreflightReference([])).toBeNull()
+  })
+
+  it('sorts issues by severity and passes without errors', () => {
+    const result = runPreflightCheck([
+      sensor('inWater'),
+      sensor('surface', { config: { rateHz: 125, internalAveraging: 12, mode: 'polled', includeVin: false } }),
+      sensor('upLooking', { config: { rateHz: 500, internalAveraging: 12, mode: 'freerun' } }),
+    ])
+
+    expect(result.referenceSensorId).toBe('inWater')
+    expect(result.issues.map((issue) => issue.severity)).toEqual(['error', 'warning', 'warning', 'info'])
+    expect(result.passed).toBe(false)
+    expect(runPreflightCheck([sensor('inWater'), sensor('surface')]).passed).toBe(true)
+  })
+
+  it('has no reference with a single sensor', () => {
+    expect(runPreflightCheck([sensor('surface')])).toMatchObject({ referenceSensorId: null, issues: [], passed: true })
+  })
+})
+
+describe('buildMatchingSerialConfig', () => {
+  it('maps the reference configuration to serial menu settings', () => {
+    expect(
+      buildMatchingSerialConfig({
+        rateHz: 250,
+        internalAveraging: 64,
+        mode: 'polled',
+        tag: 'C',
+        includeTemp: false,
+        includeVin: true,
+      })
+    ).toEqual({ averaging: 64, adc_rate_hz: 250, mode: 'polled', tag: 'C', include_temp: false, include_vin: true })
+  })
+
+  it('leaves out values the firmware cannot take or the reference does not report', () => {
+    expect(buildMatchingSerialConfig({ rateHz: 100, internalAveraging: 12, mode: 'polled', tag: null })).toEqual({
+      averaging: 12,
+    })
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for Q-Sensor light profile analysis
+ *
+ * Focus areas:
+ * - readProfilePoints: row filtering from unified_session.csv
+ * - detectCasts: descent/ascent detection with hysteresis
+ * - binCastByDepth/fitKd: binning and Kd fit with confidence interval
+ * - analyzeSessionProfile: output files and sync_metadata.json
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  analyzeSessionProfile,
+  binCastByDepth,
+  detectCasts,
+  fitKd,
+  loadProfileSummary,
+  PROFILE_BINS_FILENAME,
+  PROFILE_SUMMARY_FILENAME,
+  ProfilePoint,
+  readProfilePoints,
+} from '../src/electron/services/qsensor-profile'
+import { ensureSyncMetadata, readSyncMetadata } from '../src/electron/services/qsensor-session-utils'
+
+const KD = 0.2
+const SURFACE = 1000
+
+/**
+ * Build points following E = Es * exp(-Kd * z) for a list of depths, one per second.
+ * @param depths
+ */
+function makePoints(depths: number[]): ProfilePoint[] {
+  return depths.map((depthM, index) => ({
+    time: Date.UTC(2025, 0, 1) + index * 1000,
+    depthM,
+    inWater: SURFACE * Math.exp(-KD * depthM),
+    surface: SURFACE,
+  }))
+}
+
+/**
+ * Depths going from `from` to `to` in `step` increments (inclusive).
+ * @param from
+ * @param to
+ * @param step
+ */
+function ramp(from: number, to: number, step: number): number[] {
+  const depths: number[] = []
+  const direction = to >= from ? 1 : -1
+  for (let depth = from; direction * (to - depth) >= -1e-9; depth += direction * step) {
+    depths.push(Number(depth.toFixed(6)))
+  }
+  return depths
+}
+
+/**
+ * Build a unified_session.csv with only the columns the profile analysis reads.
+ * @param points
+ */
+function makeUnifiedCsv(points: ProfilePoint[]): string {
+  const header = 'timestamp,inwater_value,surface_value,vehicle_depth_m,vehicle_status'
+  const lines = points.map((point) =>
+    [new Date(point.time).toISOString(), point.inWater, point.surface, point.depthM, 'fresh'].join(',')
+  )
+  return [header, ...lines].join('\n') + '\n'
+}
+
+describe('readProfilePoints', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-profile-points-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('keeps rows with both sensors and a fresh vehicle depth', async () => {
+    const csvPath = path.join(directory, 'unified_session.csv')
+    const csv = [
+      'timestamp,inwater_value,surface_value,vehicle_depth_m,vehicle_status',
+      '2025-01-01T00:00:02.000Z,10,100,2.0,fresh',
+      '2025-01-01T00:00:01.000Z,20,100,1.0,fresh',
+      '2025-01-01T00:00:03.000Z,10,,3.0,fresh',
+      '2025-01-01T00:00:04.000Z,10,100,4.0,stale',
+      '2025-01-01T00:00:05.000Z,0,100,5.0,fresh',
+    ].join('\r\n')
+    await fs.writeFile(csvPath, csv)
+
+    const points = await readProfilePoints(csvPath)
+    expect(points.map((point) => point.depthM)).toEqual([1, 2])
+  })
+
+  it('reads the profiled columns among other sensor and vehicle columns', async () => {
+    const csvPath = path.join(directory, 'unified_session.csv')
+    const csv = [
+      'timestamp,inwater_value,surface_value,uplooking_value,vehicle_status,vehicle_depth_m,vehicle_heading',
+      '2025-01-01T00:00:01.000Z,30,100,10,fresh,1.5,90',
+      '2025-01-01T00:00:02.000Z,20,100,,fresh,2.5',
+    ].join('\n')
+    await fs.writeFile(csvPath, csv)
+
+    const points = await readProfilePoints(csvPath, 'uplooking_value', 'surface_value')
+    expect(points).toEqual([{ time: Date.UTC(2025, 0, 1, 0, 0, 1), depthM: 1.5, inWater: 10, surface: 100 }])
+  })
+
+  it('returns no points for sessions fused without vehicle telemetry', async () => {
+    const csvPath = path.join(directory, 'unified_session.csv')
+    await fs.writeFile(csvPath, 'timestamp,inwater_value,surface_value\n2025-01-01T00:00:00Z,1,2\n')
+
+    expect(await readProfilePoints(csvPath)).toEqual([])
+  })
+})
+
+describe('detectCasts', () => {
+  it('splits a dive into a descent and an ascent at the deepest point', () => {
+    const points = makePoints([...ramp(0, 10, 0.5), ...ramp(9.5, 0, 0.5)])
+    const casts = detectCasts(points)
+
+    expect(casts.map((cast) => cast.direction)).toEqual(['descent', 'ascent'])
+    expect(points[casts[0].end].depthM).toBe(10)
+    expect(casts[1].start).toBe(casts[0].end)
+  })
+
+  it('ignores wobble smaller than the reversal threshold', () => {
+    const points = makePoints([0, 2, 4, 3.6, 5, 7, 6.8, 9])
+    const casts = detectCasts(points, 1.0, 2.0)
+
+    expect(casts).toHaveLength(1)
+    expect(casts[0]).toMatchObject({ direction: 'descent', start: 0, end: 7 })
+  })
+
+  it('drops legs with too little depth range', () => {
+    const points = makePoints([5, 5.5, 6, 6.5, 5.5, 5])
+    expect(detectCasts(points, 1.0, 2.0)).toEqual([])
+  })
+})
+
+describe('binCastByDepth and fitKd', () => {
+  it('bins points by depth and recovers Kd from an exponential profile', () => {
+    const points = makePoints(ramp(0, 10, 0.25))
+    const bins = binCastByDepth(points, 0, 1)
+
+    expect(bins).toHaveLength(11)
+    expect(bins[0]).toMatchObject({ castIndex: 0, depthMinM: 0, depthMaxM: 1, count: 4 })
+
+    const fit = fitKd(bins)
+    expect(fit).not.toBeNull()
+    expect(fit!.kd).toBeCloseTo(KD, 6)
+    expect(fit!.rSquared).toBeCloseTo(1, 6)
+    expect(fit!.kdCi95[0]).toBeLessThanOrEqual(fit!.kd)
+    expect(fit!.kdCi95[1]).toBeGreaterThanOrEqual(fit!.kd)
+  })
+
+  it('widens the confidence interval with noisy data', () => {
+    const noise = [0.3, -0.2, 0.25, -0.3, 0.1, -0.15]
+    const points = makePoints([1, 2, 3, 4, 5, 6]).map((point, index) => ({
+      ...point,
+      inWater: point.inWater * Math.exp(noise[index]),
+    }))
+    const fit = fitKd(binCastByDepth(points, 0, 1))
+
+    expect(fit!.kdStdError).toBeGreaterThan(0)
+    expect(fit!.kdCi95[1] - fit!.kdCi95[0]).toBeGreaterThan(0.1)
+  })
+
+  it('does not fit with fewer than 3 bins', () => {
+    expect(fitKd(binCastByDepth(makePoints([1, 2]), 0, 1))).toBeNull()
+  })
+})
+
+describe('analyzeSessionProfile', () => {
+  let sessionRoot: string
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-profile-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-01-01T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('writes the summary and per-bin CSV and records them in sync_metadata.json', async () => {
+    const csvPath = path.join(sessionRoot, 'unified_session.csv')
+    await fs.writeFile(csvPath, makeUnifiedCsv(makePoints([...ramp(0, 10, 0.5), ...ramp(9.5, 0, 0.5)])))
+
+    const summary = await analyzeSessionProfile(sessionRoot, csvPath, { binSizeM: 1 })
+
+    expect(summary.casts).toHaveLength(2)
+    expect(summary.casts[0].fit?.kd).toBeCloseTo(KD, 6)
+    expect(summary.casts[1].fit?.kd).toBeCloseTo(KD, 6)
+
+    const binsCsv = await fs.readFile(path.join(sessionRoot, PROFILE_BINS_FILENAME), 'utf-8')
+    const binLines = binsCsv.trim().split('\n')
+    expect(binLines[0]).toMatch(/^cast_index,cast_direction,depth_bin_min_m/)
+    expect(binLines).toHaveLength(summary.bins.length + 1)
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.profile).toMatchObject({
+      summaryFile: PROFILE_SUMMARY_FILENAME,
+      binsFile: PROFILE_BINS_FILENAME,
+      castCount: 2,
+      binSizeM: 1,
+    })
+
+    const loaded = await loadProfileSummary(sessionRoot)
+    expect(loaded?.casts).toHaveLength(2)
+  })
+})
@@ -11,11 +11,15 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 
 import {
+  diffSensorConfig,
+  ESC,
   InvalidFrameError,
   makePolledInitCmd,
   makePolledQueryCmd,
   OUTPUT_TERMINATOR,
+  QSeriesEditableConfig,
   QSeriesProtocolParser,
+  validateConfigValues,
 } from '../src/electron/services/qsensor-protocol'
 
 describe('QSeriesProtocolParser', () => {
@@ -482,3 +486,42 @@ Operating in polled mode with tag of A
     })
   })
 })
+
+describe('Configuration helpers', () => {
+  const baseConfig: QSeriesEditableConfig = {
+    averaging: 12,
+    adc_rate_hz: 125,
+    mode: 'freerun',
+    tag: null,
+    include_temp: false,
+    include_vin: true,
+    quiet_mode: false,
+    preamble: '',
+  }
+
+  it('accepts values within the firmware limits', () => {
+    expect(validateConfigValues(baseConfig)).toEqual([])
+    expect(validateConfigValues({ mode: 'polled', tag: 'Z', averaging: 65535, preamble: 'Q:' })).toEqual([])
+  })
+
+  it('reports every invalid value', () => {
+    const errors = validateConfigValues({ averaging: 0, adc_rate_hz: 100, mode: 'polled', tag: 'a', preamble: 'X-1' })
+
+    expect(errors).toHaveLength(4)
+    expect(errors[0]).toContain('Averaging')
+    expect(errors[1]).toContain('ADC rate')
+    expect(errors[2]).toContain('Tag')
+    expect(errors[3]).toContain('Preamble')
+    expect(validateConfigValues({ preamble: 'ABCDEFGHIJK' })[0]).toContain('at most 10')
+    expect(validateConfigValues({ preamble: `Q${ESC}` })[0]).toContain('Preamble')
+  })
+
+  it('diffs editable fields and ignores the tag outside polled mode', () => {
+    expect(diffSensorConfig(baseConfig, { ...baseConfig, tag: 'B' })).toEqual([])
+    expect(diffSensorConfig(baseConfig, { ...baseConfig, mode: 'polled', tag: 'B', include_vin: false })).toEqual([
+      { field: 'mode', before: 'freerun', after: 'polled' },
+      { field: 'tag', before: null, after: 'B' },
+      { field: 'include_vin', before: true, after: false },
+    ])
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Unit tests for Q-Sensor quality control
+ *
+ * Focus areas:
+ * - evaluateQcSeries: point checks, clipped plateaus, stuck runs, gaps and spikes
+ * - qcLevel: worst severity of a flag bitmask
+ * - runSessionQc: session_qc.csv sidecars, unified CSV flag columns, reports and sync_metadata.json
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_QC_THRESHOLDS,
+  evaluateQcSeries,
+  loadQcReport,
+  QC_FLAGS,
+  QC_REPORT_FILENAME,
+  QC_REPORT_HTML_FILENAME,
+  QC_SIDECAR_FILENAME,
+  qcLevel,
+  QcSeries,
+  resolveQcThresholds,
+  runSessionQc,
+} from '../src/electron/services/qsensor-qc'
+import {
+  ensureSyncMetadata,
+  readSyncMetadata,
+  updateSensorMetadata,
+} from '../src/electron/services/qsensor-session-utils'
+
+const START = Date.UTC(2025, 0, 1)
+
+const bit = (name: string): number => QC_FLAGS.find((flag) => flag.name === name)!.bit
+
+/**
+ * Series sampled once per second with a nominal temperature and supply.
+ * @param values
+ */
+function makeSeries(values: number[]): QcSeries {
+  return {
+    times: values.map((_, index) => START + index * 1000),
+    values,
+    tempC: values.map(() => 20),
+    vin: values.map(() => 12),
+  }
+}
+
+/**
+ * Slowly varying values with no repeats, spikes or clipping.
+ * @param count
+ */
+function ramp(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => 100 + index * 0.5)
+}
+
+describe('evaluateQcSeries', () => {
+  it('leaves a clean series unflagged', () => {
+    expect(evaluateQcSeries(makeSeries(ramp(30))).every((mask) => mask === 0)).toBe(true)
+  })
+
+  it('flags point checks on single readings', () => {
+    const series = makeSeries(ramp(30))
+    series.values[3] = -1
+    series.values[6] = -500
+    series.vin[9] = 9.8
+    series.tempC[12] = 45
+    series.values[15] = 2000
+
+    const masks = evaluateQcSeries(series, resolveQcThresholds({ saturationValue: 1500, spikeRatio: 1e9 }))
+
+    expect(masks[3]).toBe(bit('negative'))
+    expect(masks[6]).toBe(bit('negative') | bit('out_of_range'))
+    expect(masks[9]).toBe(bit('vin_low'))
+    expect(masks[12]).toBe(bit('temp_excursion'))
+    expect(masks[15]).toBe(bit('saturated'))
+    expect(masks.filter((mask) => mask !== 0)).toHaveLength(5)
+  })
+
+  it('detects a clipped plateau when no saturation value is set', () => {
+    const values = ramp(30)
+    values[10] = values[11] = values[12] = 4095
+    const masks = evaluateQcSeries(makeSeries(values))
+
+    expect([10, 11, 12].every((index) => masks[index] & bit('saturated'))).toBe(true)
+    expect(masks.filter((mask) => mask & bit('saturated'))).toHaveLength(3)
+  })
+
+  it('flags stuck runs but not a constant series as saturated', () => {
+    const masks = evaluateQcSeries(makeSeries(new Array(12).fill(50)))
+    expect(masks.every((mask) => mask === bit('stuck'))).toBe(true)
+
+    const shortRun = ramp(30)
+    for (let i = 5; i < 10; i++) shortRun[i] = 42
+    expect(evaluateQcSeries(makeSeries(shortRun)).some((mask) => mask & bit('stuck'))).toBe(false)
+  })
+
+  it('flags the reading after a gap, whatever the series order', () => {
+    const series = makeSeries(ramp(20))
+    for (let i = 10; i < 20; i++) series.times[i] += 30_000
+    series.times.reverse()
+    series.values.reverse()
+
+    const masks = evaluateQcSeries(series)
+    // Reversed: index 9 holds the reading at original index 10
+    expect(masks[9]).toBe(bit('gap'))
+    expect(masks.filter((mask) => mask !== 0)).toHaveLength(1)
+  })
+
+  it('flags spikes against the neighbours but not steps', () => {
+    const values = ramp(30)
+    values[8] = 400
+    for (let i = 20; i < 30; i++) values[i] += 300
+
+    const masks = evaluateQcSeries(makeSeries(values))
+    expect(masks[8]).toBe(bit('spike'))
+    expect(masks.filter((mask) => mask & bit('spike'))).toEqual([bit('spike')])
+  })
+})
+
+describe('qcLevel', () => {
+  it('returns the worst severity', () => {
+    expect(qcLevel(0)).toBe(1)
+    expect(qcLevel(bit('stuck') | bit('gap'))).toBe(3)
+    expect(qcLevel(bit('stuck') | bit('out_of_range'))).toBe(4)
+  })
+})
+
+describe('runSessionQc', () => {
+  let sessionRoot: string
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-qc-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-01-01T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  /**
+   * Write a sensor's session.csv and register it in sync_metadata.json.
+   * @param sensor
+   * @param lines
+   */
+  async function writeSessionCsv(sensor: string, lines: string[]): Promise<string> {
+    const directory = path.join(sessionRoot, `${sensor}_session`)
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(
+      path.join(directory, 'session.csv'),
+      ['timestamp,sensor_id,mode,value,TempC,Vin', ...lines].join('\n') + '\n'
+    )
+    await updateSensorMetadata(sessionRoot, sensor, { sessionCsv: `${sensor}_session/session.csv` })
+    return directory
+  }
+
+  it('writes sidecars, flag columns, reports and sync_metadata.json', async () => {
+    const iso = (second: number): string => new Date(START + second * 1000).toISOString()
+    const directory = await writeSessionCsv('inWater', [
+      `${iso(0)},SN1,SYNC_START,sync-1,,`,
+      `${iso(0)},SN1,freerun,100,20,12`,
+      `${iso(1)},SN1,freerun,101,20,9.5`,
+      `${iso(2)},SN1,freerun,,20,12`,
+      `${iso(3)},SN1,freerun,-3,20,12`,
+    ])
+
+    const unifiedCsvPath = path.join(sessionRoot, 'unified_session.csv')
+    await fs.writeFile(
+      unifiedCsvPath,
+      [
+        'timestamp,inwater_sensor_id,inwater_value,inwater_TempC,inwater_Vin,surface_sensor_id,surface_value,surface_TempC,surface_Vin,surface_timestamp_used',
+        `${iso(0)},SN1,100,20,12,SN2,500,20,12,${iso(0)}`,
+        `${iso(1)},SN1,101,20,9.5,SN2,500,20,12,${iso(0)}`,
+        `${iso(3)},SN1,-3,20,12,,,,,`,
+      ].join('\n') + '\n'
+    )
+
+    const report = await runSessionQc(sessionRoot, unifiedCsvPath)
+
+    const sidecar = (await fs.readFile(path.join(directory, QC_SIDECAR_FILENAME), 'utf-8')).trim().split('\n')
+    expect(sidecar).toEqual([
+      'timestamp,qc,qc_flags',
+      `${iso(0)},1,0`,
+      `${iso(1)},3,${bit('vin_low')}`,
+      `${iso(2)},9,0`,
+      `${iso(3)},3,${bit('negative')}`,
+    ])
+
+    const [header, ...rows] = (await fs.readFile(unifiedCsvPath, 'utf-8')).trim().split('\n')
+    expect(header.split(',').slice(-4)).toEqual(['inwater_qc', 'inwater_qc_flags', 'surface_qc', 'surface_qc_flags'])
+    expect(rows.map((row) => row.split(',').slice(-4).join(','))).toEqual([
+      '1,0,1,0',
+      `3,${bit('vin_low')},1,0`,
+      `3,${bit('negative')},9,0`,
+    ])
+
+    expect(report.recorded).toHaveLength(1)
+    expect(report.recorded[0]).toMatchObject({ label: 'in-water', readingCount: 3 })
+    expect(report.recorded[0].levels).toEqual({ good: 1, suspect: 2, bad: 0, missing: 1 })
+    // The held surface reading spans two rows but is one reading
+    expect(report.fused.map((entry) => [entry.label, entry.readingCount])).toEqual([
+      ['inwater', 3],
+      ['surface', 1],
+    ])
+    expect(report.thresholds).toEqual(DEFAULT_QC_THRESHOLDS)
+
+    const html = await fs.readFile(path.join(sessionRoot, QC_REPORT_HTML_FILENAME), 'utf-8')
+    expect(html).toContain('vin_low')
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.qc).toMatchObject({ reportFile: QC_REPORT_FILENAME, suspectReadings: 4, badReadings: 0 })
+    expect((await loadQcReport(sessionRoot))?.fused).toHaveLength(2)
+
+    // Re-running replaces the flag columns instead of adding more
+    await runSessionQc(sessionRoot, unifiedCsvPath, { vinMin: 9 })
+    const [rerunHeader, , rerunRow] = (await fs.readFile(unifiedCsvPath, 'utf-8')).trim().split('\n')
+    expect(rerunHeader).toBe(header)
+    expect(rerunRow.split(',').slice(-4).join(',')).toBe('1,0,1,0')
+    expect((await readSyncMetadata(sessionRoot))?.qc?.thresholds).toEqual({ vinMin: 9 })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for the multi-drop polled bus controller
+ *
+ * Focus areas:
+ * - Simulated bus: only the addressed head answers
+ * - Round-robin polling and demultiplexing of replies by TAG
+ * - Per-TAG timeouts, offline status and recovery
+ * - TAG and poll rate validation, link loss
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Link } from '../src/electron/services/link/link'
+import { QSeriesProtocolParser } from '../src/electron/services/qsensor-protocol'
+import {
+  maxBusPollHz,
+  QSeriesBusReading,
+  QSeriesBusTagStatusEvent,
+  QSeriesPolledBusController,
+} from '../src/electron/services/qsensor-serial-bus'
+import { InvalidConfigValueError, SerialIOError } from '../src/electron/services/qsensor-serial-controller'
+import { QSeriesSimulatedBus, SIMULATED_BUS_PORT_PATH } from '../src/electron/services/qsensor-serial-simulator'
+
+/**
+ * Bus controller attached to a noiseless simulated bus that tests can script
+ */
+class TestBusController extends QSeriesPolledBusController {
+  bus: QSeriesSimulatedBus | null = null
+
+  /**
+   * Create a simulated bus without noise or boot delay
+   * @param port - Simulated bus URI
+   * @returns Simulated bus
+   */
+  protected createSerialLink(port: string): Link {
+    this.bus = new QSeriesSimulatedBus(new URL(port), { noiseStdDev: 0, bootDelayMs: 0, responseDelayMs: 0 })
+    return this.bus
+  }
+}
+
+// NOTE: Captured before the fake timers replace it, so pending promises can still be flushed
+const realSetImmediate = setImmediate
+
+/**
+ * Advance fake timers one millisecond at a time, letting promises settle after each step
+ * @param ms - Simulated time to advance
+ */
+async function advanceTime(ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed++) {
+    vi.advanceTimersByTime(1)
+    await new Promise((resolve) => realSetImmediate(resolve))
+  }
+}
+
+/**
+ * Advance fake timers until a promise settles
+ * @param promise - Operation that waits on timers
+ * @param maxMs - Simulated time limit
+ * @returns Result of the promise
+ */
+async function settle<T>(promise: Promise<T>, maxMs = 10000): Promise<T> {
+  let done = false
+  promise.then(
+    () => (done = true),
+    () => (done = true)
+  )
+  for (let elapsed = 0; elapsed < maxMs && !done; elapsed += 50) {
+    await advanceTime(50)
+  }
+  return promise
+}
+
+describe('QSeriesSimulatedBus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('only answers queries for initialized heads with their own TAG', async () => {
+    const bus = new QSeriesSimulatedBus(new URL(SIMULATED_BUS_PORT_PATH), { noiseStdDev: 0, bootDelayMs: 0 })
+    const parser = new QSeriesProtocolParser()
+    const lines: string[] = []
+    bus.on('data', (data: Buffer) => lines.push(...parser.feed(data)))
+    bus.device('B')!.setSignal(() => 250)
+
+    await bus.open()
+    await advanceTime(20)
+    expect(bus.getTags()).toEqual(['A', 'B', 'C'])
+
+    await bus.write(Buffer.from('*BQ000!\r', 'ascii'))
+    await bus.write(Buffer.from('>B*>C*', 'ascii'))
+    await bus.close()
+
+    expect(lines).toHaveLength(1)
+    expect(parser.parsePolledLine(lines[0], 'B')).toMatchObject({ value: 250 })
+  })
+})
+
+describe('QSeriesPolledBusController', () => {
+  let controller: TestBusController
+  let readings: QSeriesBusReading[]
+  let statusEvents: QSeriesBusTagStatusEvent[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    controller = new TestBusController({ initDelayMs: 200 })
+    readings = []
+    statusEvents = []
+    controller.on('reading', (reading: QSeriesBusReading) => readings.push(reading))
+    controller.on('tag-status', (event: QSeriesBusTagStatusEvent) => statusEvents.push(event))
+  })
+
+  afterEach(async () => {
+    await controller.disconnect()
+    vi.useRealTimers()
+  })
+
+  /**
+   * Connect to a simulated bus with heads A, B and C and start polling
+   * @param pollHz - Rate at which each head is read
+   */
+  async function startBus(pollHz = 2): Promise<void> {
+    await controller.connect(SIMULATED_BUS_PORT_PATH, 9600, [
+      { tag: 'A', sensorId: 'up-looking' },
+      { tag: 'B' },
+      { tag: 'C' },
+    ])
+    controller.bus!.device('A')!.setSignal(() => 100)
+    controller.bus!.device('B')!.setSignal(() => 200)
+    controller.bus!.device('C')!.setSignal(() => 300)
+    // NOTE: Simulated heads power on when the port opens; input sent while booting is lost
+    await advanceTime(20)
+    await settle(controller.start(pollHz))
+  }
+
+  it('polls every TAG round-robin and demultiplexes the replies', async () => {
+    await startBus(2)
+    await advanceTime(3000)
+
+    const byTag = (tag: string): QSeriesBusReading[] => readings.filter((reading) => reading.tag === tag)
+    expect(byTag('A').length).toBeGreaterThanOrEqual(6)
+    expect(byTag('A').length - byTag('C').length).toBeLessThanOrEqual(1)
+    expect(byTag('A').every((reading) => reading.value === 100 && reading.sensor_id === 'up-looking')).toBe(true)
+    expect(byTag('B').every((reading) => reading.value === 200 && reading.sensor_id === 'bus-B')).toBe(true)
+    expect(byTag('C').every((reading) => reading.value === 300 && reading.mode === 'polled')).toBe(true)
+    expect(readings.slice(0, 3).map((reading) => reading.tag)).toEqual(['A', 'B', 'C'])
+
+    const health = controller.getHealth()
+    expect(health).toMatchObject({ connected: true, running: true, poll_hz: 2 })
+    expect(health.slot_ms).toBeCloseTo(1000 / 6)
+    expect(health.tags.map((tag) => [tag.tag, tag.status, tag.timeouts])).toEqual([
+      ['A', 'ok', 0],
+      ['B', 'ok', 0],
+      ['C', 'ok', 0],
+    ])
+    expect(statusEvents.map((event) => `${event.tag}:${event.previous}->${event.status}`)).toEqual([
+      'A:waiting->ok',
+      'B:waiting->ok',
+      'C:waiting->ok',
+    ])
+  })
+
+  it('counts timeouts per TAG, reports offline heads and their recovery', async () => {
+    await startBus(2)
+    controller.bus!.device('B')!.setFaults({ dropoutProbability: 1 })
+    await advanceTime(3000)
+
+    let health = controller.getHealth()
+    const b = health.tags.find((tag) => tag.tag === 'B')!
+    expect(b.status).toBe('offline')
+    expect(b.timeouts).toBeGreaterThanOrEqual(3)
+    expect(b.consecutive_timeouts).toBe(b.timeouts)
+    expect(health.tags.find((tag) => tag.tag === 'A')).toMatchObject({ status: 'ok', timeouts: 0 })
+    expect(readings.some((reading) => reading.tag === 'B')).toBe(false)
+    expect(statusEvents).toContainEqual({ tag: 'B', sensor_id: 'bus-B', status: 'offline', previous: 'waiting' })
+
+    controller.bus!.device('B')!.setFaults({ dropoutProbability: 0 })
+    await advanceTime(1000)
+
+    health = controller.getHealth()
+    expect(health.tags.find((tag) => tag.tag === 'B')).toMatchObject({ status: 'ok', consecutive_timeouts: 0 })
+    expect(statusEvents[statusEvents.length - 1]).toMatchObject({ tag: 'B', status: 'ok', previous: 'offline' })
+  })
+
+  it('rejects invalid TAGs and poll rates that leave no time for replies', async () => {
+    await expect(controller.start(1)).rejects.toBeInstanceOf(SerialIOError)
+    await expect(controller.connect(SIMULATED_BUS_PORT_PATH, 9600, [{ tag: 'A' }, { tag: 'A' }])).rejects.toThrow(
+      "TAG 'A' is used by more than one node"
+    )
+    await expect(controller.connect(SIMULATED_BUS_PORT_PATH, 9600, [{ tag: 'a' }])).rejects.toBeInstanceOf(
+      InvalidConfigValueError
+    )
+    expect(controller.isConnected()).toBe(false)
+
+    await controller.connect(SIMULATED_BUS_PORT_PATH, 9600, [{ tag: 'A' }, { tag: 'B' }, { tag: 'C' }])
+    expect(maxBusPollHz(3)).toBeCloseTo(6.67, 2)
+    await expect(controller.start(10)).rejects.toBeInstanceOf(InvalidConfigValueError)
+    await expect(controller.start(0)).rejects.toBeInstanceOf(InvalidConfigValueError)
+    expect(controller.isRunning()).toBe(false)
+  })
+
+  it('stops polling when the bus port is lost', async () => {
+    const errors: Error[] = []
+    controller.on('error', (error: Error) => errors.push(error))
+    const closed = vi.fn()
+    controller.on('close', closed)
+    await startBus(1)
+
+    controller.bus!.simulateUnplug()
+
+    expect(closed).toHaveBeenCalledOnce()
+    expect(errors[0]).toBeInstanceOf(SerialIOError)
+    expect(controller.getHealth()).toMatchObject({ connected: false, running: false })
+  })
+})
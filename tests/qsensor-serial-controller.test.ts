@@ -14,6 +14,7 @@ import {
   InvalidConfigValueError,
   MenuTimeoutError,
   QSeriesSerialController,
+  ReconnectEvent,
   SerialIOError,
 } from '../src/electron/services/qsensor-serial-controller'
 
@@ -636,6 +637,99 @@ describe('QSeriesSerialController', () => {
     })
   })
 
+  describe('Auto-Reconnect', () => {
+    const CONFIG_LINE = '12,9600,1.0,Test,E,4.003,G,H,SN123,0,0,12.0,0,,'
+    let links: MockSerialLink[]
+    let pendingTimeouts: Array<() => void>
+
+    /**
+     * Run the next scheduled reconnect attempt and let it settle
+     */
+    async function runReconnectAttempt(): Promise<void> {
+      pendingTimeouts.shift()?.()
+      await new Promise((resolve) => setImmediate(resolve))
+    }
+
+    beforeEach(async () => {
+      links = []
+      pendingTimeouts = []
+      vi.spyOn(controller as any, 'createSerialLink').mockImplementation(() => {
+        const link = createMockLink()
+        setupMenuMocks(controller, link, CONFIG_LINE)
+        links.push(link)
+        return link
+      })
+      vi.spyOn(controller as any, 'scheduleTimeout').mockImplementation(((fn: () => void) => {
+        pendingTimeouts.push(fn)
+        return 0 as unknown as NodeJS.Timeout
+      }) as any)
+      controller.setAutoReconnect({ enabled: true, intervalMs: 10, maxAttempts: 2 })
+      controller.on('error', () => {})
+
+      await connectController('/dev/ttyUSB0', 9600)
+      await controller.startAcquisition()
+    })
+
+    it('should reopen the same port and resume acquisition after the link drops', async () => {
+      const reconnected: ReconnectEvent[] = []
+      controller.on('reconnected', (event: ReconnectEvent) => reconnected.push(event))
+      const readings: QSeriesReading[] = []
+      controller.on('reading', (reading: QSeriesReading) => readings.push(reading))
+
+      links[0].simulateClose()
+      expect(controller.isReconnecting()).toBe(true)
+      expect(controller.getState()).toBe(ConnectionState.DISCONNECTED)
+
+      await runReconnectAttempt()
+
+      expect(links).toHaveLength(2)
+      expect((controller as any).createSerialLink).toHaveBeenLastCalledWith('/dev/ttyUSB0', 9600)
+      expect(controller.getState()).toBe(ConnectionState.ACQ_FREERUN)
+      expect(controller.isReconnecting()).toBe(false)
+      expect(reconnected).toHaveLength(1)
+      expect(reconnected[0].attempts).toBe(1)
+      expect(Date.parse(reconnected[0].reconnectedAt)).toBeGreaterThanOrEqual(Date.parse(reconnected[0].disconnectedAt))
+
+      links[1].simulateData('$LITE100.0\r\n')
+      expect(readings).toHaveLength(1)
+    })
+
+    it('should give up after maxAttempts', async () => {
+      const failures: Error[] = []
+      controller.on('reconnect-failed', (error: Error) => failures.push(error))
+      vi.mocked((controller as any).createSerialLink).mockImplementation(() => {
+        throw new Error('Port /dev/ttyUSB0 not found')
+      })
+
+      links[0].simulateClose()
+      await runReconnectAttempt()
+      expect(controller.getHealth().reconnect_attempts).toBe(1)
+      await runReconnectAttempt()
+
+      expect(failures).toHaveLength(1)
+      expect(failures[0].message).toContain('after 2 attempts')
+      expect(controller.isReconnecting()).toBe(false)
+      expect(pendingTimeouts).toHaveLength(0)
+    })
+
+    it('should stop reconnecting on disconnect', async () => {
+      links[0].simulateClose()
+      await controller.disconnect()
+      await runReconnectAttempt()
+
+      expect(controller.isReconnecting()).toBe(false)
+      expect(links).toHaveLength(1)
+    })
+
+    it('should not reconnect when the link drops outside acquisition', async () => {
+      await controller.stop()
+      links[0].simulateClose()
+
+      expect(controller.isReconnecting()).toBe(false)
+      expect(pendingTimeouts).toHaveLength(0)
+    })
+  })
+
   describe('Reading Timestamps', () => {
     it('should include both UTC and monotonic timestamps', async () => {
       vi.spyOn(controller as any, 'createSerialLink').mockReturnValue(mockLink)
@@ -0,0 +1,333 @@
+/**
+ * Unit tests for the Q-Series serial device simulator
+ *
+ * Focus areas:
+ * - Firmware 4.003 banner, menu and command responses
+ * - Freerun and polled output, dropouts and garbled frames
+ * - QSeriesSerialController driving the simulator through its menus
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { QSeriesProtocolParser, QSeriesReading } from '../src/electron/services/qsensor-protocol'
+import {
+  ConnectionState,
+  InvalidConfigValueError,
+  QSeriesSerialController,
+} from '../src/electron/services/qsensor-serial-controller'
+import {
+  QSeriesSimulatedLink,
+  QSeriesSimulatorOptions,
+  SIMULATED_PORT_PATH,
+  simulatorOptionsFromUri,
+} from '../src/electron/services/qsensor-serial-simulator'
+
+/**
+ * Deterministic random source (linear congruential generator)
+ * @param seed - Initial state
+ * @returns Random function in [0, 1)
+ */
+function seededRandom(seed = 42): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+/**
+ * Simulator with output collected into complete lines
+ * @param options - Simulator options
+ * @returns Link and the lines it has emitted so far
+ */
+function createSimulator(options: Partial<QSeriesSimulatorOptions> = {}): {
+  /**
+   *
+   */
+  link: QSeriesSimulatedLink
+  /**
+   *
+   */
+  lines: string[]
+} {
+  const link = new QSeriesSimulatedLink(new URL(SIMULATED_PORT_PATH), { random: seededRandom(), ...options })
+  const parser = new QSeriesProtocolParser()
+  const lines: string[] = []
+  link.on('data', (data: Buffer) => lines.push(...parser.feed(data)))
+  return { link, lines }
+}
+
+// NOTE: Captured before the fake timers replace it, so pending promises can still be flushed
+const realSetImmediate = setImmediate
+
+/**
+ * Advance fake timers one millisecond at a time, letting promises settle after each step
+ * @param ms - Simulated time to advance
+ */
+async function advanceTime(ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed++) {
+    vi.advanceTimersByTime(1)
+    await new Promise((resolve) => realSetImmediate(resolve))
+  }
+}
+
+/**
+ * Send keystrokes to the simulator and let it answer
+ * @param link - Simulated link
+ * @param text - Keystrokes
+ */
+async function type(link: QSeriesSimulatedLink, text: string): Promise<void> {
+  await link.write(Buffer.from(text, 'ascii'))
+  await advanceTime(20)
+}
+
+/**
+ * Advance fake timers until a promise settles
+ * @param promise - Operation that waits on timers
+ * @param maxMs - Simulated time limit
+ * @returns Result of the promise
+ */
+async function settle<T>(promise: Promise<T>, maxMs = 120000): Promise<T> {
+  let done = false
+  promise.then(
+    () => (done = true),
+    () => (done = true)
+  )
+  for (let elapsed = 0; elapsed < maxMs && !done; elapsed += 50) {
+    await advanceTime(50)
+  }
+  return promise
+}
+
+describe('QSeriesSimulatedLink', () => {
+  const parser = new QSeriesProtocolParser()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reads options from the port URI', () => {
+    const uri = new URL(`${SIMULATED_PORT_PATH}?serial=SIM-SURFACE&mode=polled&tag=b&value=850&dropout=0.1`)
+
+    expect(simulatorOptionsFromUri(uri)).toEqual({
+      serialNumber: 'SIM-SURFACE',
+      mode: 'polled',
+      tag: 'B',
+      baseValue: 850,
+      dropoutProbability: 0.1,
+    })
+  })
+
+  it('prints the banner and streams freerun frames after power-on', async () => {
+    const { link, lines } = createSimulator({ baseValue: 500, noiseStdDev: 0 })
+    await link.open()
+    await advanceTime(1000)
+    await link.close()
+
+    const banner = lines.join('\n')
+    expect(parser.extractVersionFromBanner(banner)).toBe('4.003')
+    expect(parser.extractSerialFromBanner(banner)).toBe('SIM-0001')
+    expect(parser.extractModeFromBanner(banner)).toEqual(['freerun', null])
+
+    const frames = lines.filter((line) => /^\d/.test(line))
+    expect(frames.length).toBeGreaterThanOrEqual(4)
+    expect(parser.parseFreerunLine(frames[0])).toMatchObject({ value: 500, Vin: 12 })
+  })
+
+  it('answers menu commands like the firmware', async () => {
+    const { link, lines } = createSimulator({ bootDelayMs: 0 })
+    await link.open()
+    await advanceTime(20)
+
+    await type(link, '\x1b')
+    expect(lines[lines.length - 1]).toBe('Select the letter of the menu entry:')
+
+    await type(link, 'A\r')
+    await type(link, '0\r')
+    expect(lines).toContain('Invalid number, averaging set to 12')
+    await type(link, 'A\r')
+    await type(link, '64\r')
+    expect(lines).toContain('ADC set to averaging 64')
+
+    await type(link, 'R\r')
+    await type(link, '100\r')
+    expect(lines).toContain('Invalid rate. Command is ignored')
+    await type(link, 'R\r')
+    await type(link, '250\r')
+    expect(lines).toContain('ADC rate set to 250')
+
+    await type(link, 'M1')
+    await type(link, 'a')
+    expect(lines).toContain('Bad TAG a')
+    await type(link, 'M1')
+    await type(link, 'C')
+
+    await type(link, 'O\r')
+    await type(link, 'NN')
+
+    lines.length = 0
+    await type(link, '^\r')
+    expect(parser.parseConfigCsv(lines[0])).toMatchObject({
+      averaging: 64,
+      mode: 'polled',
+      tag: 'C',
+      serial_number: 'SIM-0001',
+      firmware_version: '4.003',
+    })
+    expect(link.options).toMatchObject({ adcRateHz: 250, includeTemp: false, includeVin: false })
+    await link.close()
+  })
+
+  it('answers polled queries only after the init command', async () => {
+    const { link, lines } = createSimulator({ mode: 'polled', tag: 'B', bootDelayMs: 0, noiseStdDev: 0 })
+    await link.open()
+    await advanceTime(20)
+    expect(parser.extractModeFromBanner(lines.join('\n'))).toEqual(['polled', 'B'])
+
+    await type(link, '>B*')
+    expect(lines.some((line) => line.startsWith('B,'))).toBe(false)
+
+    await type(link, '*BQ000!\r')
+    await type(link, '>A*')
+    await type(link, '>B*')
+    const frames = lines.filter((line) => line.startsWith('B,'))
+    expect(frames).toHaveLength(1)
+    expect(parser.parsePolledLine(frames[0], 'B').value).toBe(100)
+    await link.close()
+  })
+
+  it('drops and garbles frames according to the fault model', async () => {
+    const { link, lines } = createSimulator({ bootDelayMs: 0, dropoutProbability: 1 })
+    await link.open()
+    await advanceTime(1000)
+    expect(lines.filter((line) => /^\d/.test(line))).toHaveLength(0)
+
+    link.setFaults({ dropoutProbability: 0, garbleProbability: 1 })
+    lines.length = 0
+    await advanceTime(1000)
+    await link.close()
+
+    expect(lines.length).toBeGreaterThanOrEqual(4)
+    for (const line of lines) {
+      expect(() => parser.parseFreerunLine(line)).toThrow()
+    }
+  })
+
+  it('reports close when unplugged', async () => {
+    const { link } = createSimulator()
+    const onClose = vi.fn()
+    link.on('close', onClose)
+    await link.open()
+
+    link.simulateUnplug()
+
+    expect(onClose).toHaveBeenCalledTimes(1)
+    expect(link.isOpen).toBe(false)
+    await expect(link.write(Buffer.from('\x1b'))).rejects.toThrow('not open')
+  })
+})
+
+describe('QSeriesSerialController with the simulator', () => {
+  let controller: QSeriesSerialController
+  let readings: QSeriesReading[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    controller = new QSeriesSerialController()
+    readings = []
+    controller.on('reading', (reading: QSeriesReading) => readings.push(reading))
+  })
+
+  afterEach(async () => {
+    await controller.disconnect()
+    vi.useRealTimers()
+  })
+
+  it('connects, configures and acquires in freerun mode', async () => {
+    await settle(controller.connect(`${SIMULATED_PORT_PATH}?serial=SIM-SURFACE&value=850`))
+    expect(controller.getState()).toBe(ConnectionState.CONFIG_MENU)
+    expect(controller.getConfig()).toMatchObject({ serial_number: 'SIM-SURFACE', mode: 'freerun' })
+
+    await settle(controller.setAveraging(25))
+    await settle(controller.startAcquisition())
+    expect(controller.getState()).toBe(ConnectionState.ACQ_FREERUN)
+    await advanceTime(2000)
+
+    expect(readings.length).toBeGreaterThanOrEqual(8)
+    expect(readings[0].sensor_id).toBe('SIM-SURFACE')
+    expect(readings[0].value).toBeCloseTo(850, -1)
+
+    await settle(controller.stop())
+    expect(controller.getState()).toBe(ConnectionState.CONFIG_MENU)
+  })
+
+  it('switches to polled mode and polls with the tag', async () => {
+    await settle(controller.connect(SIMULATED_PORT_PATH))
+    await settle(controller.setMode('polled', 'D'))
+    expect(controller.getConfig()).toMatchObject({ mode: 'polled', tag: 'D' })
+
+    await settle(controller.startAcquisition(4))
+    expect(controller.getState()).toBe(ConnectionState.ACQ_POLLED)
+    await advanceTime(1000)
+
+    expect(readings.length).toBeGreaterThanOrEqual(3)
+    expect(readings.every((reading) => reading.mode === 'polled')).toBe(true)
+  })
+
+  it('applies several settings at once and reports the diff', async () => {
+    await settle(controller.connect(SIMULATED_PORT_PATH))
+    const link = (controller as any).link as QSeriesSimulatedLink
+
+    const result = await settle(
+      controller.applyConfig({
+        averaging: 50,
+        adc_rate_hz: 250,
+        mode: 'polled',
+        tag: 'C',
+        include_temp: true,
+        quiet_mode: true,
+        preamble: 'Q:',
+      })
+    )
+
+    expect(result.changes.map((change) => change.field)).toEqual([
+      'averaging',
+      'adc_rate_hz',
+      'mode',
+      'tag',
+      'include_temp',
+      'quiet_mode',
+      'preamble',
+    ])
+    expect(result.before).toMatchObject({ averaging: 12, mode: 'freerun', quiet_mode: false })
+    expect(result.after).toMatchObject({ averaging: 50, mode: 'polled', tag: 'C', preamble: 'Q:' })
+    expect(controller.getConfig()).toEqual(result.after)
+    expect(link.options).toMatchObject({
+      averaging: 50,
+      adcRateHz: 250,
+      includeTemp: true,
+      // NOTE: Outputs are not in the config dump, so both answers follow the controller's cached values
+      includeVin: false,
+      quietMode: true,
+      preamble: 'Q:',
+    })
+
+    const unchanged = await settle(controller.applyConfig({ averaging: 50 }))
+    expect(unchanged.changes).toEqual([])
+  })
+
+  it('rejects invalid values before sending anything', async () => {
+    await settle(controller.connect(SIMULATED_PORT_PATH))
+    const link = (controller as any).link as QSeriesSimulatedLink
+    const write = vi.spyOn(link, 'write')
+
+    await expect(controller.applyConfig({ averaging: 12, adc_rate_hz: 100 })).rejects.toThrow(InvalidConfigValueError)
+    await expect(controller.applyConfig({ mode: 'polled', tag: null })).rejects.toThrow('Tag')
+    expect(write).not.toHaveBeenCalled()
+    expect(controller.getConfig()).toMatchObject({ adc_rate_hz: 125, mode: 'freerun' })
+  })
+})
@@ -1,6 +1,7 @@
 import { mount } from '@vue/test-utils'
 
 import QSensorSessionControl from '@/components/qsensor/QSensorSessionControl.vue'
+import type { QSensorPreflightResult } from '@/types/qsensor'
 
 type StoreState = {
   /**
@@ -35,6 +36,18 @@ type StoreState = {
    *
    */
   combinedErrors: string[]
+  /**
+   *
+   */
+  preflightCheck: QSensorPreflightResult
+  /**
+   *
+   */
+  getSensor: ReturnType<typeof vi.fn>
+  /**
+   *
+   */
+  matchSerialSensorConfig: ReturnType<typeof vi.fn>
   /**
    *
    */
@@ -54,6 +67,13 @@ const createStore = (overrides: Partial<StoreState> = {}): StoreState => ({
   unifiedSessionId: null,
   unifiedSessionPath: null,
   combinedErrors: [],
+  preflightCheck: { checkedAt: '', referenceSensorId: null, sensors: [], issues: [], passed: true },
+  getSensor: vi.fn((sensorId: string) => ({
+    sensorId,
+    label: sensorId === 'surface' ? 'Surface' : 'In-water',
+    backendType: sensorId === 'surface' ? 'serial' : 'http',
+  })),
+  matchSerialSensorConfig: vi.fn().mockResolvedValue({ success: true }),
   startBoth: vi.fn().mockResolvedValue({ success: true, errors: [] }),
   stopBoth: vi.fn().mockResolvedValue({ success: true, errors: [] }),
   ...overrides,
@@ -97,4 +117,39 @@ describe('QSensorSessionControl', () => {
     const wrapper = mount(QSensorSessionControl)
     expect(wrapper.find('[data-test="unified-session-path"]').exists()).toBe(false)
   })
+
+  it('shows pre-flight issues and matches the serial sensor', async () => {
+    storeInstance = createStore({
+      preflightCheck: {
+        checkedAt: '2025-05-18T12:00:00Z',
+        referenceSensorId: 'inWater',
+        sensors: [],
+        issues: [
+          {
+            sensorId: 'surface',
+            field: 'outputRateHz',
+            severity: 'error',
+            message: 'Surface outputs 10.42 Hz, In-Water 1.33 Hz',
+            reference: 1.33,
+            actual: 10.42,
+          },
+        ],
+        passed: false,
+      },
+    })
+
+    const wrapper = mount(QSensorSessionControl)
+    const check = wrapper.get('[data-test="preflight-check"]')
+    expect(check.text()).toContain('Surface outputs 10.42 Hz, In-Water 1.33 Hz')
+
+    const match = wrapper.get('[data-test="preflight-match"]')
+    expect(match.text()).toBe('Match Surface sensor')
+    await match.trigger('click')
+    expect(storeInstance.matchSerialSensorConfig).toHaveBeenCalledWith('surface')
+  })
+
+  it('hides the pre-flight check when fewer than two sensors are connected', () => {
+    const wrapper = mount(QSensorSessionControl)
+    expect(wrapper.find('[data-test="preflight-check"]').exists()).toBe(false)
+  })
 })
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for the Q-Sensor session library
+ *
+ * Focus areas:
+ * - listLibrarySessions: session discovery and summary fields
+ * - previewSessionFile: row limit and path restrictions
+ * - deleteLibrarySession / exportLibrarySessionZip: storage path guard and archive contents
+ */
+
+import { TextWriter, Uint8ArrayReader, ZipReader } from '@zip.js/zip.js'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  deleteLibrarySession,
+  exportLibrarySessionZip,
+  listLibrarySessions,
+  previewSessionFile,
+} from '../src/electron/services/qsensor-session-library'
+import {
+  buildUnifiedSessionRoot,
+  ensureSyncMetadata,
+  updateFusionStatus,
+  updateSensorMetadata,
+  updateSyncMetadata,
+} from '../src/electron/services/qsensor-session-utils'
+
+/**
+ * Create a unified session with an in-water sensor CSV
+ * @param storagePath - Storage root
+ * @param mission - Mission name
+ * @param timestamp - Unified session timestamp
+ * @param rowCount - Data rows in the sensor CSV
+ * @returns Session root
+ */
+async function createSession(storagePath: string, mission: string, timestamp: string, rowCount = 3): Promise<string> {
+  const sessionRoot = buildUnifiedSessionRoot(storagePath, mission, timestamp)
+  await ensureSyncMetadata(sessionRoot, mission, timestamp)
+
+  const sensorDir = path.join(sessionRoot, 'in-water_abc')
+  await fs.mkdir(sensorDir, { recursive: true })
+  const rows = Array.from({ length: rowCount }, (_, i) => `2025-06-01T00:00:0${i}.000Z,${i}`)
+  await fs.writeFile(path.join(sensorDir, 'session.csv'), ['timestamp,value', ...rows].join('\n') + '\n')
+
+  await updateSensorMetadata(sessionRoot, 'inWater', {
+    role: 'inWater',
+    startedAt: '2025-06-01T00:00:00.000Z',
+    sessionCsv: 'in-water_abc/session.csv',
+    bytesRecorded: 1234,
+  })
+  return sessionRoot
+}
+
+describe('Q-Sensor session library', () => {
+  let storagePath: string
+
+  beforeEach(async () => {
+    storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-library-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true })
+  })
+
+  it('returns an empty list when the storage path does not exist', async () => {
+    expect(await listLibrarySessions(path.join(storagePath, 'missing'))).toEqual([])
+  })
+
+  it('lists sessions newest first with sensors, fusion status and drift models', async () => {
+    const older = await createSession(storagePath, 'reef', '2025-06-01T00-00-00Z')
+    await updateSyncMetadata(older, (metadata) => {
+      metadata.createdAt = '2025-06-01T00:00:00.000Z'
+    })
+    const newer = await createSession(storagePath, 'wreck', '2025-06-02T00-00-00Z')
+    await updateSyncMetadata(newer, (metadata) => {
+      metadata.createdAt = '2025-06-02T00:00:00.000Z'
+      metadata.timeSync.driftModels.inWater = { type: 'linear', startOffsetMs: 5, driftRateMsPerMin: 0.5 }
+    })
+    await fs.writeFile(path.join(newer, 'unified_session.csv'), 'timestamp\n')
+    await updateFusionStatus(newer, {
+      status: 'complete',
+      unifiedCsv: 'unified_session.csv',
+      rowCount: 3,
+      inWaterRows: 3,
+      surfaceRows: 0,
+      sensorRows: { inWater: 3 },
+      completedAt: '2025-06-02T01:00:00.000Z',
+      error: null,
+    })
+    await fs.mkdir(path.join(storagePath, 'reef', 'not-a-session'))
+
+    const sessions = await listLibrarySessions(storagePath)
+
+    expect(sessions.map((session) => session.mission)).toEqual(['wreck', 'reef'])
+    expect(sessions[0]).toMatchObject({
+      sessionRoot: newer,
+      unifiedCsv: 'unified_session.csv',
+      fusion: { status: 'complete', rowCount: 3 },
+      driftModels: { inWater: { type: 'linear', startOffsetMs: 5 } },
+      hasProfile: false,
+    })
+    expect(sessions[0].sensors).toEqual([
+      {
+        id: 'inWater',
+        role: 'inWater',
+        label: undefined,
+        startedAt: '2025-06-01T00:00:00.000Z',
+        stoppedAt: undefined,
+        bytes: 1234,
+        sessionCsv: 'in-water_abc/session.csv',
+        fusedRows: 3,
+      },
+    ])
+    expect(sessions[0].sizeBytes).toBeGreaterThan(0)
+    expect(sessions[1].unifiedCsv).toBeNull()
+  })
+
+  it('previews the first rows of a session CSV', async () => {
+    const sessionRoot = await createSession(storagePath, 'reef', '2025-06-01T00-00-00Z', 5)
+
+    const preview = await previewSessionFile(sessionRoot, 'in-water_abc/session.csv', 2)
+
+    expect(preview.header).toEqual(['timestamp', 'value'])
+    expect(preview.rows).toEqual([
+      ['2025-06-01T00:00:00.000Z', '0'],
+      ['2025-06-01T00:00:01.000Z', '1'],
+    ])
+    expect(preview.truncated).toBe(true)
+  })
+
+  it('refuses to preview files outside the session or that are not CSV', async () => {
+    const sessionRoot = await createSession(storagePath, 'reef', '2025-06-01T00-00-00Z')
+
+    await expect(previewSessionFile(sessionRoot, '../../secret.csv')).rejects.toThrow('only CSV files')
+    await expect(previewSessionFile(sessionRoot, 'sync_metadata.json')).rejects.toThrow('only CSV files')
+  })
+
+  it('deletes a session but refuses paths that are not sessions inside the storage path', async () => {
+    const sessionRoot = await createSession(storagePath, 'reef', '2025-06-01T00-00-00Z')
+
+    await expect(deleteLibrarySession(storagePath, storagePath)).rejects.toThrow('outside the storage path')
+    await expect(deleteLibrarySession(storagePath, os.tmpdir())).rejects.toThrow('outside the storage path')
+    await expect(deleteLibrarySession(storagePath, path.join(storagePath, 'reef'))).rejects.toThrow(
+      'Not a Q-Sensor session'
+    )
+
+    await deleteLibrarySession(storagePath, sessionRoot)
+
+    expect(await listLibrarySessions(storagePath)).toEqual([])
+  })
+
+  it('exports every file of a session into a zip archive', async () => {
+    const sessionRoot = await createSession(storagePath, 'reef', '2025-06-01T00-00-00Z')
+    const zipPath = path.join(storagePath, 'export.zip')
+
+    const fileCount = await exportLibrarySessionZip(storagePath, sessionRoot, zipPath)
+
+    const reader = new ZipReader(new Uint8ArrayReader(new Uint8Array(await fs.readFile(zipPath))), {
+      useWebWorkers: false,
+    })
+    const entries = await reader.getEntries()
+    const names = entries.map((entry) => entry.filename).sort()
+    const rootName = path.basename(sessionRoot)
+    const csvEntry = entries.find((entry) => entry.filename === `${rootName}/in-water_abc/session.csv`)
+    const csv = await csvEntry!.getData!(new TextWriter())
+    await reader.close()
+    expect(fileCount).toBe(2)
+    expect(names).toEqual([`${rootName}/in-water_abc/session.csv`, `${rootName}/sync_metadata.json`])
+    expect(csv).toBe(await fs.readFile(path.join(sessionRoot, 'in-water_abc', 'session.csv'), 'utf-8'))
+    expect(await fs.readdir(storagePath)).not.toContain('export.zip.tmp')
+  })
+})
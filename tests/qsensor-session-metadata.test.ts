@@ -7,6 +7,7 @@ import {
   buildSensorDirectoryName,
   buildUnifiedSessionRoot,
   ensureSyncMetadata,
+  migrateSyncMetadata,
   readSyncMetadata,
   resolveUnifiedSensorPath,
   updateSensorMetadata,
@@ -28,6 +29,11 @@ describe('Q-Sensor session utilities', () => {
     expect(buildSensorDirectoryName('surface', 'def')).toBe('surface_def')
   })
 
+  it('buildSensorDirectoryName kebab-cases ids of added sensors', () => {
+    expect(buildSensorDirectoryName('upLooking', 'abc')).toBe('up-looking_abc')
+    expect(buildSensorDirectoryName('down2', 'def')).toBe('down2_def')
+  })
+
   it('resolves unified session paths for both sensors', () => {
     const mission = 'mission-alpha'
     const timestamp = '2025-01-01T00-00-00Z'
@@ -72,4 +78,72 @@ describe('Q-Sensor session utilities', () => {
     expect(metadata?.sensors.surface?.sessionCsv).toBe('surface_surf-456/session.csv')
     expect(metadata?.sensors.surface?.bytesRecorded).toBe(2048)
   })
+
+  it('records sensors beyond the in-water/surface pair with their roles', async () => {
+    const sessionRoot = buildUnifiedSessionRoot(tempDir, 'array', '2025-03-03T00-00-00Z')
+
+    await ensureSyncMetadata(sessionRoot, 'array', '2025-03-03T00-00-00Z')
+    await updateSensorMetadata(sessionRoot, 'upLooking', {
+      sessionId: 'up-1',
+      role: 'upLooking',
+      label: 'Up',
+      directory: 'up-looking_up-1',
+    })
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.schemaVersion).toBe(2)
+    expect(metadata?.sensors.upLooking).toMatchObject({ role: 'upLooking', label: 'Up', sessionId: 'up-1' })
+    expect(metadata?.sensors.inWater).toBeNull()
+  })
+
+  it('migrates two-sensor v1 metadata when reading it', async () => {
+    const sessionRoot = buildUnifiedSessionRoot(tempDir, 'legacy', '2025-04-04T00-00-00Z')
+    await fs.mkdir(sessionRoot, { recursive: true })
+    const driftModel = { type: 'constant', startOffsetMs: 12 }
+    const legacy = {
+      schemaVersion: 1,
+      mission: 'legacy',
+      unifiedSessionTimestamp: '2025-04-04T00-00-00Z',
+      sensors: { inWater: { sessionId: 'in-1' }, surface: { sessionId: 'surf-1' } },
+      timeSync: {
+        method: 'sync-markers',
+        inWater: { method: 'ntp', offsetMs: 12, uncertaintyMs: 1, measuredAt: null, error: null },
+        surface: null,
+        markers: [
+          {
+            syncId: 'sync-1',
+            type: 'START',
+            inWaterTimestamp: '2025-04-04T00:00:00.012Z',
+            surfaceTimestamp: '2025-04-04T00:00:00.000Z',
+            offsetMs: 12,
+            quality: 'measured',
+          },
+        ],
+        driftModel,
+      },
+    }
+    await fs.writeFile(path.join(sessionRoot, 'sync_metadata.json'), JSON.stringify(legacy))
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.schemaVersion).toBe(2)
+    expect(metadata?.sensors.inWater).toEqual({ role: 'inWater', sessionId: 'in-1' })
+    expect(metadata?.sensors.surface).toEqual({ role: 'surface', sessionId: 'surf-1' })
+    expect(metadata?.timeSync.sensors.inWater?.offsetMs).toBe(12)
+    expect(metadata?.timeSync.sensors.surface).toBeNull()
+    expect(metadata?.timeSync.driftModels).toEqual({ inWater: driftModel })
+    expect(metadata?.timeSync.markers[0]).toEqual({
+      syncId: 'sync-1',
+      type: 'START',
+      sensorId: 'inWater',
+      sensorTimestamp: '2025-04-04T00:00:00.012Z',
+      referenceTimestamp: '2025-04-04T00:00:00.000Z',
+      offsetMs: 12,
+      quality: 'measured',
+    })
+  })
+
+  it('leaves current metadata untouched', () => {
+    const current = { schemaVersion: 2, sensors: {}, timeSync: { sensors: {}, markers: [], driftModels: {} } }
+    expect(migrateSyncMetadata(current)).toBe(current)
+  })
 })
@@ -3,19 +3,30 @@
  *
  * These tests verify the dual-sensor store operations including:
  * - startBoth/stopBoth transactional behavior
+ * - Sensor arrays: addSensor/removeSensor and startAll
  * - Backend routing (HTTP vs Serial)
  * - Error handling and rollback
+ * - Pre-flight configuration check
  */
 
 import { createPinia, setActivePinia } from 'pinia'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
+import { getDataLakeVariableData, getDataLakeVariableInfo } from '../src/libs/actions/data-lake'
 import { useQSensorStore } from '../src/stores/qsensor'
 
 // ============================================================================
 // Mock Setup
 // ============================================================================
 
+// Mock datalogger so the store does not pull in vehicle/mission stores
+const mockGenerateLog = vi.fn()
+vi.mock('@/libs/sensors-logging', () => ({
+  datalogger: {
+    generateLog: (...args: unknown[]) => mockGenerateLog(...args),
+  },
+}))
+
 // Mock electronAPI for IPC calls
 const mockElectronAPI = {
   // HTTP (in-water) operations
@@ -27,15 +38,24 @@ const mockElectronAPI = {
   startQSensorMirror: vi.fn(),
   stopQSensorMirror: vi.fn(),
   getQSensorStats: vi.fn(),
+  qsensorGetLatestReading: vi.fn(),
+  qsensorCaptureDark: vi.fn(),
 
   // Serial (surface) operations
   qsensorSerialConnect: vi.fn(),
   qsensorSerialStartRecording: vi.fn(),
   qsensorSerialStopRecording: vi.fn(),
   qsensorSerialGetStats: vi.fn(),
+  qsensorSerialCaptureDark: vi.fn(),
+  qsensorSerialApplyConfig: vi.fn(),
+  qsensorSerialGetHealth: vi.fn(),
+  onQSensorSerialReading: vi.fn(),
 
   // Shared operations
   getQSensorStoragePath: vi.fn(),
+  qsensorSaveVehicleTelemetry: vi.fn(),
+  qsensorRecordSessionDark: vi.fn(),
+  qsensorRecordSessionPreflight: vi.fn(),
 }
 
 // Install mock on window
@@ -61,6 +81,11 @@ declare global {
 function setupAllMocks() {
   // Shared mocks
   mockElectronAPI.getQSensorStoragePath.mockResolvedValue('/tmp/qsensor-test')
+  mockElectronAPI.qsensorSaveVehicleTelemetry.mockResolvedValue({ success: true, data: { pointCount: 2 } })
+  mockGenerateLog.mockResolvedValue([
+    { epoch: 1000, data: { Depth: { value: '1.00 m', lastChanged: 1000 } } },
+    { epoch: 2000, data: { Depth: { value: '2.00 m', lastChanged: 2000 } } },
+  ])
 
   // Setup HTTP (in-water) mocks
   mockElectronAPI.qsensorStartAcquisition.mockResolvedValue({ success: true })
@@ -314,6 +339,86 @@ describe('QSensor Store', () => {
     })
   })
 
+  describe('sensor arrays', () => {
+    beforeEach(() => {
+      setupAllMocks()
+    })
+
+    it('should validate added sensors', () => {
+      expect(store.addSensor('up looking', { role: 'upLooking' })).toMatch(/must start with a letter/)
+      expect(store.addSensor('inWater', { role: 'inWater' })).toBe('Sensor inWater already exists')
+      expect(store.addSensor('reference', { role: 'surface' })).toBe('Only one sensor can have the surface role')
+
+      expect(store.addSensor('upLooking', { role: 'upLooking', label: 'Up' })).toBeNull()
+      expect(store.getSensor('upLooking')).toMatchObject({ role: 'upLooking', label: 'Up', backendType: null })
+      expect(getDataLakeVariableInfo('qsensor/upLooking/value')?.name).toBe('Q-Sensor Up Value')
+    })
+
+    it('should only remove added sensors that are disconnected', () => {
+      store.addSensor('upLooking', { role: 'upLooking', apiBaseUrl: 'http://up.local:9150' })
+
+      expect(store.removeSensor('surface')).toBe('Sensor surface cannot be removed')
+      store.getSensor('upLooking')!.isConnected = true
+      expect(store.removeSensor('upLooking')).toMatch(/Disconnect/)
+      store.getSensor('upLooking')!.isConnected = false
+      expect(store.removeSensor('upLooking')).toBeNull()
+      expect(store.getSensor('upLooking')).toBeUndefined()
+    })
+
+    it('should start every sensor with its role in one unified session', async () => {
+      store.addSensor('upLooking', { role: 'upLooking', label: 'Up', apiBaseUrl: 'http://up.local:9150' })
+      store.getSensor('upLooking')!.isConnected = true
+
+      const result = await store.startAll({ mission: 'array-mission' })
+
+      expect(result).toEqual({ success: true, errors: [] })
+      expect(mockElectronAPI.startQSensorMirror).toHaveBeenCalledTimes(2)
+      const upCall = mockElectronAPI.startQSensorMirror.mock.calls.find((call) => call[7] === 'upLooking')!
+      expect(upCall[8]).toEqual({ role: 'upLooking', label: 'Up' })
+      expect(upCall[6]).toBe(mockElectronAPI.qsensorSerialStartRecording.mock.calls[0][0].syncId)
+      expect(mockElectronAPI.qsensorSerialStartRecording).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionSensor: 'surface', sensorRole: 'surface', sensorLabel: 'Surface' })
+      )
+      expect(store.areAllRecording).toBe(true)
+    })
+
+    it('should roll back every started sensor when an added sensor fails', async () => {
+      store.addSensor('upLooking', { role: 'upLooking', label: 'Up' })
+      store.getSensor('upLooking')!.connectionMode = 'api'
+      store.getSensor('upLooking')!.connectionModeExplicitlySet = true
+      store.getSensor('upLooking')!.backendType = 'http'
+
+      const result = await store.startAll({ mission: 'array-mission' })
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toContain('Up: Sensor upLooking not connected')
+      expect(mockElectronAPI.stopQSensorMirror).toHaveBeenCalled()
+      expect(mockElectronAPI.qsensorSerialStopRecording).toHaveBeenCalled()
+      expect(store.unifiedSessionId).toBeNull()
+    })
+
+    it('should record every serial sensor on its own port', async () => {
+      store.addSensor('downLooking', { role: 'downLooking', serialPort: '/dev/ttyUSB2' })
+      store.getSensor('downLooking')!.isConnected = true
+
+      const result = await store.startAll({ mission: 'array-mission' })
+
+      expect(result).toEqual({ success: true, errors: [] })
+      const ports = mockElectronAPI.qsensorSerialStartRecording.mock.calls.map((call) => call[0].port)
+      expect(ports.sort()).toEqual(['/dev/ttyUSB1', '/dev/ttyUSB2'])
+    })
+
+    it('should reject serial sensors sharing a port', async () => {
+      store.addSensor('downLooking', { role: 'downLooking', serialPort: '/dev/ttyUSB1' })
+
+      const result = await store.startAll({ mission: 'array-mission' })
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual(['downLooking and Surface sensors share serial port /dev/ttyUSB1'])
+      expect(mockElectronAPI.qsensorSerialStartRecording).not.toHaveBeenCalled()
+    })
+  })
+
   describe('stopBoth', () => {
     beforeEach(async () => {
       // Setup initial recording state
@@ -386,6 +491,42 @@ describe('QSensor Store', () => {
       expect(store.surfaceSensor.currentSession).toBeNull()
     })
 
+    it('should export vehicle telemetry to the session root before stopping sensors', async () => {
+      const sessionRoot = store.unifiedSessionPath
+
+      await store.stopBoth()
+
+      expect(mockGenerateLog).toHaveBeenCalledTimes(1)
+      expect(mockElectronAPI.qsensorSaveVehicleTelemetry).toHaveBeenCalledWith(sessionRoot, expect.any(Array))
+      const exportOrder = mockElectronAPI.qsensorSaveVehicleTelemetry.mock.invocationCallOrder[0]
+      expect(exportOrder).toBeLessThan(mockElectronAPI.stopQSensorMirror.mock.invocationCallOrder[0])
+      expect(exportOrder).toBeLessThan(mockElectronAPI.qsensorSerialStopRecording.mock.invocationCallOrder[0])
+    })
+
+    it('should export vehicle telemetry before stopping the last sensor when stopped one by one', async () => {
+      const sessionRoot = store.unifiedSessionPath
+
+      await store.stopRecordingSensor('inWater')
+      expect(mockElectronAPI.qsensorSaveVehicleTelemetry).not.toHaveBeenCalled()
+
+      await store.stopRecordingSensor('surface')
+      expect(mockGenerateLog).toHaveBeenCalledTimes(1)
+      expect(mockElectronAPI.qsensorSaveVehicleTelemetry).toHaveBeenCalledWith(sessionRoot, expect.any(Array))
+      const exportOrder = mockElectronAPI.qsensorSaveVehicleTelemetry.mock.invocationCallOrder[0]
+      expect(exportOrder).toBeLessThan(mockElectronAPI.qsensorSerialStopRecording.mock.invocationCallOrder[0])
+    })
+
+    it('should still stop both sensors when telemetry export fails', async () => {
+      mockGenerateLog.mockRejectedValue(new Error('No log points found in the given range.'))
+
+      const result = await store.stopBoth()
+
+      expect(result.success).toBe(true)
+      expect(mockElectronAPI.qsensorSaveVehicleTelemetry).not.toHaveBeenCalled()
+      expect(store.inWaterSensor.recordingState).toBe('stopped')
+      expect(store.surfaceSensor.recordingState).toBe('stopped')
+    })
+
     it('should clear unified state even if sensors were already stopped', async () => {
       // Simulate surface sensor already stopped
       store.surfaceSensor.currentSession = null
@@ -424,6 +565,186 @@ describe('QSensor Store', () => {
     })
   })
 
+  describe('live readings', () => {
+    it('should publish the latest HTTP reading to the Data Lake on status refresh', async () => {
+      setupAllMocks()
+      mockElectronAPI.qsensorGetLatestReading.mockResolvedValue({
+        success: true,
+        data: { timestamp: '2025-01-01T00:00:00Z', sensorId: 'SN1', mode: 'freerun', value: 12.5, TempC: 21.5 },
+      })
+
+      await store.refreshSensorStatus('inWater')
+
+      expect(mockElectronAPI.qsensorGetLatestReading).toHaveBeenCalledWith('http://localhost:9150')
+      expect(getDataLakeVariableData('qsensor/inWater/value')).toBe(12.5)
+      expect(getDataLakeVariableData('qsensor/inWater/TempC')).toBe(21.5)
+    })
+
+    it('should publish forwarded serial readings for the sensor on their port', () => {
+      store.addSensor('downLooking', { role: 'downLooking', serialPort: '/dev/ttyUSB2' })
+      const onReading = mockElectronAPI.onQSensorSerialReading.mock.calls[0][0]
+      const reading = { timestamp: '2025-01-01T00:00:00Z', sensorId: 'SN2', mode: 'freerun' }
+      onReading({ ...reading, value: 50, Vin: 12.1, port: '/dev/ttyUSB1' })
+      onReading({ ...reading, value: 75, port: '/dev/ttyUSB2' })
+
+      expect(getDataLakeVariableData('qsensor/surface/value')).toBe(50)
+      expect(getDataLakeVariableData('qsensor/surface/Vin')).toBe(12.1)
+      expect(getDataLakeVariableData('qsensor/downLooking/value')).toBe(75)
+    })
+  })
+
+  describe('dark capture', () => {
+    const darkCapture = {
+      serialNumber: 'SN2',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      completedAt: '2025-01-01T00:00:10.000Z',
+      durationS: 10,
+      sampleCount: 50,
+      valueMean: 0.02,
+      valueStd: 0.001,
+      tempCMean: 21.5,
+      tempCStd: 0.05,
+    }
+
+    it('should keep a serial dark capture and pass it to the next recording', async () => {
+      setupAllMocks()
+      mockElectronAPI.qsensorSerialCaptureDark.mockResolvedValue({ success: true, data: darkCapture })
+
+      const result = await store.captureDark('surface', 10, 5)
+
+      expect(result.success).toBe(true)
+      expect(mockElectronAPI.qsensorSerialCaptureDark).toHaveBeenCalledWith(10, 5, '/dev/ttyUSB1')
+      expect(store.surfaceSensor.darkCapture).toEqual(darkCapture)
+
+      await store.startRecordingSensor('surface', { mission: 'test-mission' })
+      expect(mockElectronAPI.qsensorSerialStartRecording).toHaveBeenCalledWith(expect.objectContaining({ darkCapture }))
+    })
+
+    it('should record an HTTP dark capture in the session metadata after mirroring starts', async () => {
+      setupAllMocks()
+      store.inWaterSensor.healthData = { sensorId: 'SN1' }
+      mockElectronAPI.qsensorCaptureDark.mockResolvedValue({
+        success: true,
+        data: { ...darkCapture, serialNumber: null },
+      })
+      mockElectronAPI.qsensorRecordSessionDark.mockResolvedValue({ success: true })
+
+      await store.captureDark('inWater', 10)
+      expect(store.inWaterSensor.darkCapture?.serialNumber).toBe('SN1')
+
+      await store.startRecordingSensor('inWater', { mission: 'test-mission' })
+      expect(mockElectronAPI.qsensorRecordSessionDark).toHaveBeenCalledWith(
+        '/tmp/qsensor-test/test-mission/session_2025-01-01T00-00-00Z',
+        'inWater',
+        expect.objectContaining({ serialNumber: 'SN1', valueMean: 0.02 })
+      )
+    })
+
+    it('should refuse to capture while recording', async () => {
+      store.surfaceSensor.recordingState = 'recording'
+
+      const result = await store.captureDark('surface', 10)
+
+      expect(result.success).toBe(false)
+      expect(mockElectronAPI.qsensorSerialCaptureDark).not.toHaveBeenCalled()
+    })
+
+    it('should keep the previous capture when a capture fails', async () => {
+      store.surfaceSensor.darkCapture = darkCapture
+      mockElectronAPI.qsensorSerialCaptureDark.mockResolvedValue({ success: false, error: 'Not acquiring' })
+
+      const result = await store.captureDark('surface', 10)
+
+      expect(result).toEqual({ success: false, error: 'Not acquiring' })
+      expect(store.surfaceSensor.darkCapture).toEqual(darkCapture)
+    })
+  })
+
+  describe('pre-flight check', () => {
+    const inWaterConfig = { rateHz: 250, internalAveraging: 12, mode: 'freerun', includeTemp: true, includeVin: true }
+    const surfaceConfig = { rateHz: 125, internalAveraging: 12, mode: 'freerun', includeTemp: true, includeVin: true }
+
+    beforeEach(() => {
+      store.inWaterSensor.healthData = { connected: true, firmware: '4.003', config: inWaterConfig }
+      store.surfaceSensor.healthData = { connected: true, firmware: '4.003', config: surfaceConfig }
+    })
+
+    it('should compare the serial sensor with the HTTP sensor and record the result', async () => {
+      setupAllMocks()
+      mockElectronAPI.qsensorRecordSessionPreflight.mockResolvedValue({ success: true })
+
+      expect(store.preflightCheck.referenceSensorId).toBe('inWater')
+      expect(store.preflightCheck.passed).toBe(false)
+      expect(store.preflightCheck.issues.map((issue) => [issue.field, issue.severity])).toEqual([
+        ['outputRateHz', 'error'],
+        ['rateHz', 'warning'],
+      ])
+
+      const result = await store.startAll({ mission: 'test-mission' })
+
+      expect(result.success).toBe(true)
+      expect(mockElectronAPI.qsensorRecordSessionPreflight).toHaveBeenCalledWith(
+        '/tmp/qsensor-test/test-mission/session_2025-01-01T00-00-00Z',
+        expect.objectContaining({ referenceSensorId: 'inWater', passed: false, matchedSensorId: null })
+      )
+    })
+
+    it('should push the reference configuration to the serial sensor', async () => {
+      setupAllMocks()
+      mockElectronAPI.qsensorSerialApplyConfig.mockResolvedValue({ success: true, data: { changes: [] } })
+      mockElectronAPI.qsensorSerialGetHealth.mockResolvedValue({
+        success: true,
+        data: { connected: true, firmware: '4.003', config: { ...surfaceConfig, rateHz: 250 } },
+      })
+      mockElectronAPI.qsensorRecordSessionPreflight.mockResolvedValue({ success: true })
+
+      const result = await store.matchSerialSensorConfig('surface')
+
+      expect(result.success).toBe(true)
+      expect(mockElectronAPI.qsensorSerialApplyConfig).toHaveBeenCalledWith(
+        {
+          averaging: 12,
+          adc_rate_hz: 250,
+          mode: 'freerun',
+          tag: null,
+          include_temp: true,
+          include_vin: true,
+        },
+        '/dev/ttyUSB1'
+      )
+      expect(store.preflightCheck.issues).toEqual([])
+
+      await store.startAll({ mission: 'test-mission' })
+      expect(mockElectronAPI.qsensorRecordSessionPreflight).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ passed: true, matchedSensorId: 'surface' })
+      )
+    })
+
+    it('should reconfigure the chosen serial sensor when the reference is serial too', async () => {
+      setupAllMocks()
+      store.inWaterSensor.backendType = 'serial'
+      store.inWaterSensor.serialPort = '/dev/ttyUSB0'
+      mockElectronAPI.qsensorSerialApplyConfig.mockResolvedValue({ success: true, data: { changes: [] } })
+      mockElectronAPI.qsensorSerialGetHealth.mockResolvedValue({ success: false })
+
+      expect(store.preflightCheck.referenceSensorId).toBe('inWater')
+      expect(await store.matchSerialSensorConfig('inWater')).toEqual({
+        success: false,
+        error: 'In-water sensor is the pre-flight reference',
+      })
+
+      const result = await store.matchSerialSensorConfig('surface')
+
+      expect(result.success).toBe(true)
+      expect(mockElectronAPI.qsensorSerialApplyConfig).toHaveBeenCalledTimes(1)
+      expect(mockElectronAPI.qsensorSerialApplyConfig).toHaveBeenCalledWith(
+        expect.objectContaining({ adc_rate_hz: 250 }),
+        '/dev/ttyUSB1'
+      )
+    })
+  })
+
   describe('computed getters', () => {
     it('areBothConnected should return true only when both are connected', () => {
       store.inWaterSensor.isConnected = true
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for Q-Sensor time sync drift tracking
+ *
+ * Focus areas:
+ * - summarizeBurst: minimum-RTT sample selection
+ * - fitClockDrift: weighted offset/drift fit
+ * - startClockDriftTracking/stopClockDriftTracking: offset series stored in sync_metadata.json
+ * - detectFlashes: light-flash detection for sync markers
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ClockOffsetSample } from '../src/electron/services/qsensor-session-utils'
+import { ensureSyncMetadata, readSyncMetadata } from '../src/electron/services/qsensor-session-utils'
+import type { PiTimeRoundTrip } from '../src/electron/services/qsensor-time-sync'
+import {
+  clockOffsetAt,
+  detectFlashes,
+  fitClockDrift,
+  measureClockOffsetBurst,
+  startClockDriftTracking,
+  stopClockDriftTracking,
+  summarizeBurst,
+} from '../src/electron/services/qsensor-time-sync'
+
+const T0 = Date.parse('2025-06-01T00:00:00.000Z')
+
+/**
+ * Round trip whose Pi time is offset from the topside midpoint by offsetMs
+ * @param startMs - Topside request time
+ * @param rttMs - Round-trip time
+ * @param offsetMs - Pi clock minus topside clock
+ * @returns Round trip
+ */
+function makeRoundTrip(startMs: number, rttMs: number, offsetMs: number): PiTimeRoundTrip {
+  const piUnixMs = startMs + rttMs / 2 + offsetMs
+  return {
+    requestStartMs: startMs,
+    responseEndMs: startMs + rttMs,
+    piData: {
+      pi_iso: new Date(piUnixMs).toISOString(),
+      pi_unix_ms: piUnixMs,
+      container_version: '1',
+      schema_version: 1,
+    },
+  }
+}
+
+/**
+ * Offset sample measured minutes after T0
+ * @param minutes - Minutes after T0
+ * @param offsetMs - Measured offset
+ * @param uncertaintyMs - Measurement uncertainty
+ * @returns Offset sample
+ */
+function makeSample(minutes: number, offsetMs: number, uncertaintyMs = 2): ClockOffsetSample {
+  return {
+    measuredAt: new Date(T0 + minutes * 60000).toISOString(),
+    offsetMs,
+    uncertaintyMs,
+    rttMs: uncertaintyMs * 2,
+    burstSize: 8,
+    acceptedSamples: 2,
+  }
+}
+
+describe('summarizeBurst', () => {
+  it('averages the offsets of the lowest-RTT quarter of the burst', () => {
+    const roundTrips = [
+      makeRoundTrip(T0, 40, 130), // Queued on the way back: biased offset
+      makeRoundTrip(T0 + 100, 4, 100),
+      makeRoundTrip(T0 + 200, 30, 80),
+      makeRoundTrip(T0 + 300, 6, 102),
+      makeRoundTrip(T0 + 400, 20, 90),
+      makeRoundTrip(T0 + 500, 25, 120),
+      makeRoundTrip(T0 + 600, 35, 70),
+      makeRoundTrip(T0 + 700, 15, 110),
+    ]
+
+    const sample = summarizeBurst(roundTrips, 8)
+
+    expect(sample).toEqual({
+      measuredAt: new Date(T0 + 102).toISOString(),
+      offsetMs: 101,
+      uncertaintyMs: 2,
+      rttMs: 4,
+      burstSize: 8,
+      acceptedSamples: 2,
+    })
+  })
+
+  it('discards high-RTT and invalid responses', () => {
+    const invalid = makeRoundTrip(T0, 2, 0)
+    invalid.piData = { ...invalid.piData, pi_unix_ms: undefined as unknown as number }
+
+    expect(summarizeBurst([makeRoundTrip(T0, 500, 0), invalid], 4)).toBeNull()
+    expect(summarizeBurst([makeRoundTrip(T0, 500, 0), makeRoundTrip(T0, 10, 42)], 4)?.offsetMs).toBe(42)
+  })
+})
+
+describe('fitClockDrift', () => {
+  it('recovers offset and drift from a linear series', () => {
+    const fit = fitClockDrift([makeSample(10, 120), makeSample(0, 100), makeSample(5, 110)])!
+
+    expect(fit.referenceTime).toBe(new Date(T0).toISOString())
+    expect(fit.offsetMs).toBeCloseTo(100, 9)
+    expect(fit.driftRateMsPerMin).toBeCloseTo(2, 9)
+    expect(fit.residualMs).toBeCloseTo(0, 9)
+    expect(fit.spanMs).toBe(600000)
+    expect(clockOffsetAt(fit, T0 + 20 * 60000)).toBeCloseTo(140, 9)
+  })
+
+  it('gives less weight to uncertain samples', () => {
+    const fit = fitClockDrift([makeSample(0, 100, 1), makeSample(5, 100, 1), makeSample(10, 200, 50)])!
+
+    expect(fit.driftRateMsPerMin).toBeLessThan(0.5)
+  })
+
+  it('returns a constant fit for a single sample and null for an empty series', () => {
+    expect(fitClockDrift([makeSample(0, 42)])).toMatchObject({ offsetMs: 42, driftRateMsPerMin: 0, spanMs: 0 })
+    expect(fitClockDrift([])).toBeNull()
+  })
+})
+
+describe('detectFlashes', () => {
+  /**
+   * Readings every 50 ms at a steady level, dimmed to dimValue between the given times
+   * @param durationMs - Length of the series
+   * @param dims - [fromMs, toMs, dimValue] windows
+   * @returns Readings
+   */
+  function makeReadings(durationMs: number, dims: [number, number, number][]): { time: number; value: number }[] {
+    const readings = []
+    for (let ms = 0; ms <= durationMs; ms += 50) {
+      const dim = dims.find(([from, to]) => ms >= from && ms < to)
+      readings.push({ time: T0 + ms, value: dim ? dim[2] : 1000 })
+    }
+    return readings
+  }
+
+  it('finds short, deep drops at their falling edge', () => {
+    const flashes = detectFlashes(
+      makeReadings(10000, [
+        [2000, 2500, 10],
+        [7000, 7300, 50],
+      ])
+    )
+
+    expect(flashes).toHaveLength(2)
+    expect(flashes[0].time).toBeGreaterThan(T0 + 1950)
+    expect(flashes[0].time).toBeLessThanOrEqual(T0 + 2000)
+    expect(flashes[0].durationMs).toBeCloseTo(550, -2)
+    expect(flashes[1].time).toBeGreaterThan(T0 + 6950)
+  })
+
+  it('ignores shallow dips, glitches and lasting changes of light level', () => {
+    const readings = makeReadings(20000, [
+      [2000, 2500, 500],
+      [5000, 5050, 10],
+      [8000, 20001, 10],
+    ])
+
+    expect(detectFlashes(readings)).toEqual([])
+  })
+})
+
+describe('clock drift tracking', () => {
+  let sessionRoot: string
+  let piOffsetMs: number
+  const originalFetch = globalThis.fetch
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-time-sync-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-06-01T00-00-00Z')
+    piOffsetMs = 250
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => {
+          const piUnixMs = Date.now() + piOffsetMs
+          return {
+            pi_iso: new Date(piUnixMs).toISOString(),
+            pi_unix_ms: piUnixMs,
+            container_version: '1',
+            schema_version: 1,
+          }
+        },
+      }))
+    )
+  })
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('skips failed requests in a burst', async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+
+    const sample = await measureClockOffsetBurst('http://pi.local:9150', 4)
+
+    expect(sample?.burstSize).toBe(4)
+    expect(sample?.acceptedSamples).toBe(1)
+    expect(sample?.offsetMs).toBeGreaterThan(240)
+    expect(sample?.offsetMs).toBeLessThan(260)
+  })
+
+  it('stores a burst at start and stop in the offset series', async () => {
+    startClockDriftTracking(sessionRoot, 'inWater', 'http://pi.local:9150', { intervalMs: 3600000, burstSize: 2 })
+    piOffsetMs = 260
+    const fit = await stopClockDriftTracking(sessionRoot, 'inWater')
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    const series = metadata!.timeSync.offsetSeries!.inWater
+    expect(series).toHaveLength(2)
+    expect(series[0].burstSize).toBe(2)
+    expect(metadata!.timeSync.clockDrift!.inWater).toEqual(fit)
+    expect(fit?.sampleCount).toBe(2)
+    expect(fetch).toHaveBeenCalledWith('http://pi.local:9150/api/sync/time', expect.anything())
+  })
+
+  it('does nothing when stopping a sensor that is not tracked', async () => {
+    expect(await stopClockDriftTracking(sessionRoot, 'surface')).toBeNull()
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for Q-Sensor vehicle telemetry georeferencing
+ *
+ * Focus areas:
+ * - parseVehicleTelemetry: datalogger value parsing and unit handling
+ * - interpolateVehicleState: interpolation, heading wrap and staleness
+ * - saveVehicleTelemetry/loadVehicleTelemetry: session persistence
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { ensureSyncMetadata, readSyncMetadata } from '../src/electron/services/qsensor-session-utils'
+import {
+  CockpitLogPoint,
+  interpolateVehicleState,
+  loadVehicleTelemetry,
+  MAX_VEHICLE_STALENESS_MS,
+  parseVehicleTelemetry,
+  saveVehicleTelemetry,
+  VEHICLE_TELEMETRY_FILENAME,
+} from '../src/electron/services/qsensor-vehicle-telemetry'
+
+/**
+ *
+ * @param epoch
+ * @param values
+ */
+function makePoint(epoch: number, values: Record<string, string>): CockpitLogPoint {
+  const data: CockpitLogPoint['data'] = {}
+  for (const [name, value] of Object.entries(values)) {
+    data[name] = { value, lastChanged: epoch }
+  }
+  return { epoch, data }
+}
+
+describe('parseVehicleTelemetry', () => {
+  it('parses datalogger values and sorts samples by epoch', () => {
+    const samples = parseVehicleTelemetry([
+      makePoint(2000, { Depth: '10.00 m', Latitude: '-27.500000 °', Longitude: '153.000000 °', Heading: '90.0 °' }),
+      makePoint(1000, { Depth: '5.000 m', Pitch: '-2.5 °', Roll: '1.5 °' }),
+    ])
+
+    expect(samples.map((sample) => sample.epoch)).toEqual([1000, 2000])
+    expect(samples[0]).toMatchObject({ depthM: 5, pitchDeg: -2.5, rollDeg: 1.5, latitude: null })
+    expect(samples[1]).toMatchObject({ depthM: 10, latitude: -27.5, longitude: 153, headingDeg: 90 })
+  })
+
+  it('converts depth logged in feet to meters', () => {
+    const [sample] = parseVehicleTelemetry([makePoint(0, { Depth: '10.00 ft' })])
+    expect(sample.depthM).toBeCloseTo(3.048, 6)
+  })
+
+  it('treats non-numeric values as missing', () => {
+    const [sample] = parseVehicleTelemetry([makePoint(0, { Depth: 'NaN m', Heading: 'undefined °' })])
+    expect(sample.depthM).toBeNull()
+    expect(sample.headingDeg).toBeNull()
+  })
+})
+
+describe('interpolateVehicleState', () => {
+  const samples = parseVehicleTelemetry([
+    makePoint(1000, { Depth: '10.00 m', Heading: '350.0 °', Pitch: '0.0 °' }),
+    makePoint(2000, { Depth: '20.00 m', Heading: '10.0 °', Pitch: '10.0 °' }),
+  ])
+
+  it('linearly interpolates between bracketing datalogger points', () => {
+    const state = interpolateVehicleState(1250, samples)
+
+    expect(state.depthM).toBeCloseTo(12.5, 6)
+    expect(state.pitchDeg).toBeCloseTo(2.5, 6)
+    expect(state.age_ms).toBe(250)
+    expect(state.status).toBe('fresh')
+  })
+
+  it('interpolates heading along the shortest arc', () => {
+    const state = interpolateVehicleState(1500, samples)
+    expect(state.headingDeg).toBeCloseTo(0, 6)
+  })
+
+  it('holds the first point before the log starts, then marks it stale', () => {
+    const held = interpolateVehicleState(500, samples)
+    expect(held.depthM).toBe(10)
+    expect(held.age_ms).toBe(500)
+    expect(held.status).toBe('fresh')
+
+    const stale = interpolateVehicleState(1000 - MAX_VEHICLE_STALENESS_MS - 1, samples)
+    expect(stale.depthM).toBeNull()
+    expect(stale.status).toBe('stale')
+  })
+
+  it('reports missing without datalogger points', () => {
+    const state = interpolateVehicleState(500, [])
+
+    expect(state.status).toBe('missing')
+    expect(state.depthM).toBeNull()
+    expect(state.age_ms).toBeNull()
+  })
+
+  it('holds the last point after the log ends, then marks it stale', () => {
+    const held = interpolateVehicleState(2500, samples)
+    expect(held.depthM).toBe(20)
+    expect(held.status).toBe('fresh')
+
+    const stale = interpolateVehicleState(2000 + MAX_VEHICLE_STALENESS_MS + 1, samples)
+    expect(stale.depthM).toBeNull()
+    expect(stale.status).toBe('stale')
+  })
+
+  it('does not interpolate across datalogger gaps longer than the staleness threshold', () => {
+    const gapped = parseVehicleTelemetry([makePoint(0, { Depth: '0.00 m' }), makePoint(60000, { Depth: '60.00 m' })])
+
+    const state = interpolateVehicleState(30000, gapped)
+    expect(state.depthM).toBeNull()
+    expect(state.status).toBe('stale')
+  })
+})
+
+describe('vehicle telemetry persistence', () => {
+  let sessionRoot: string
+
+  beforeEach(async () => {
+    sessionRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'qsensor-vehicle-'))
+    await ensureSyncMetadata(sessionRoot, 'mission', '2025-01-01T00-00-00Z')
+  })
+
+  afterEach(async () => {
+    await fs.rm(sessionRoot, { recursive: true, force: true })
+  })
+
+  it('writes the telemetry file and records it in sync_metadata.json', async () => {
+    await saveVehicleTelemetry(sessionRoot, [makePoint(2000, { Depth: '2.0 m' }), makePoint(1000, { Depth: '1.0 m' })])
+
+    const metadata = await readSyncMetadata(sessionRoot)
+    expect(metadata?.vehicleTelemetry).toMatchObject({
+      file: VEHICLE_TELEMETRY_FILENAME,
+      pointCount: 2,
+      firstPointAt: new Date(1000).toISOString(),
+      lastPointAt: new Date(2000).toISOString(),
+    })
+
+    const samples = await loadVehicleTelemetry(sessionRoot)
+    expect(samples?.map((sample) => sample.depthM)).toEqual([1, 2])
+  })
+
+  it('returns null when the session has no telemetry', async () => {
+    expect(await loadVehicleTelemetry(sessionRoot)).toBeNull()
+  })
+})
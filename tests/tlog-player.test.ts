@@ -0,0 +1,155 @@
+/**
+ * Unit tests for tlog replay
+ *
+ * Focus areas:
+ * - decodeTlog: timestamps, MAVLink v1/v2 frames, resynchronization and truncated files
+ * - TlogPlayer: recorded pace, speed, pause, seeking and the end of the tlog
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { TlogPlayer } from '../src/libs/tlog-player'
+import { decodeTlog, TlogRecord } from '../src/utils/tlog'
+
+const START = Date.UTC(2025, 0, 1, 12)
+
+/**
+ * MAVLink 2 frame with a zeroed checksum.
+ * @param messageId
+ * @param payload
+ */
+function v2Frame(messageId: number, payload: number[] = [0]): Uint8Array {
+  const header = [0xfd, payload.length, 0, 0, 0, 1, 1, messageId & 0xff, messageId >> 8, 0]
+  return new Uint8Array([...header, ...payload, 0, 0])
+}
+
+/**
+ * Tlog bytes of frames and their timestamps.
+ * @param records
+ */
+function encode(records: TlogRecord[]): Uint8Array {
+  const chunks = records.map(({ timestampMs, frame }) => {
+    const chunk = new Uint8Array(8 + frame.length)
+    new DataView(chunk.buffer).setBigUint64(0, BigInt(Math.round(timestampMs * 1000)))
+    chunk.set(frame, 8)
+    return chunk
+  })
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  chunks.reduce((offset, chunk) => (bytes.set(chunk, offset), offset + chunk.length), 0)
+  return bytes
+}
+
+/**
+ * Records of a given message, each second from START, with the record index as payload.
+ * @param count
+ * @param messageId
+ */
+function everySecond(count: number, messageId = 30): TlogRecord[] {
+  return Array.from({ length: count }, (_, index) => ({
+    timestampMs: START + index * 1000,
+    frame: v2Frame(messageId, [index]),
+  }))
+}
+
+/**
+ * Player over records, collecting the payload byte of every emitted frame.
+ * @param records
+ */
+function makePlayer(records: TlogRecord[]): { player: TlogPlayer; emitted: number[] } {
+  const emitted: number[] = []
+  const player = new TlogPlayer(records, (frames) => emitted.push(...frames.map((frame) => frame[10])))
+  return { player, emitted }
+}
+
+describe('decodeTlog', () => {
+  it('reads the timestamp and frame of each record', () => {
+    const v1 = new Uint8Array([0xfe, 2, 0, 1, 1, 0, 5, 6, 0, 0])
+    const records = [
+      { timestampMs: START + 0.5, frame: v2Frame(0, [1, 2, 3]) },
+      { timestampMs: START + 100, frame: v1 },
+    ]
+
+    expect(decodeTlog(encode(records))).toEqual(records)
+  })
+
+  it('skips garbage between records and drops a truncated last record', () => {
+    const [first, second, third] = everySecond(3)
+    const bytes = new Uint8Array([...encode([first]), 0x00, 0x42, ...encode([second, third]).slice(0, -3)])
+
+    expect(decodeTlog(bytes)).toEqual([first, second])
+  })
+})
+
+describe('TlogPlayer', () => {
+  it('emits frames at their recorded pace and speed', () => {
+    const { player, emitted } = makePlayer(everySecond(10))
+    expect(player.durationMs).toBe(9000)
+
+    player.play(0)
+    player.tick(0)
+    expect(emitted).toEqual([0])
+    player.tick(2500)
+    expect(emitted).toEqual([0, 1, 2])
+
+    player.setSpeed(2, 2500)
+    player.tick(3500)
+    expect(player.position(3500)).toBe(4500)
+    expect(emitted).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('keeps the position while paused', () => {
+    const { player, emitted } = makePlayer(everySecond(10))
+
+    player.play(0)
+    player.tick(1000)
+    player.pause(1500)
+    player.tick(5000)
+    expect(emitted).toEqual([0, 1])
+    expect(player.position(5000)).toBe(1500)
+
+    player.play(5000)
+    player.tick(5500)
+    expect(emitted).toEqual([0, 1, 2])
+  })
+
+  it('emits the last frame of each message when seeking, forward and backward', () => {
+    const heartbeats = everySecond(10, 0).map((record, index) => ({ ...record, frame: v2Frame(0, [100 + index]) }))
+    const records = [...everySecond(10), ...heartbeats].sort((a, b) => a.timestampMs - b.timestampMs)
+    const { player, emitted } = makePlayer(records)
+
+    player.seek(6500, 0)
+    expect(emitted).toEqual([6, 106])
+    expect(player.playing).toBe(false)
+
+    emitted.length = 0
+    player.seek(2000, 0)
+    expect(emitted).toEqual([2, 102])
+
+    emitted.length = 0
+    player.play(0)
+    player.tick(1000)
+    expect(emitted).toEqual([3, 103])
+  })
+
+  it('does not announce old status texts again when seeking', () => {
+    const statusText = { timestampMs: START + 500, frame: v2Frame(253, [50]) }
+    const { player, emitted } = makePlayer([everySecond(3)[0], statusText, ...everySecond(3).slice(1)])
+
+    player.seek(1500, 0)
+    expect(emitted).toEqual([1])
+  })
+
+  it('pauses at the end and starts over when played again', () => {
+    const { player, emitted } = makePlayer(everySecond(3))
+
+    player.play(0)
+    player.tick(10_000)
+    expect(emitted).toEqual([0, 1, 2])
+    expect(player.playing).toBe(false)
+    expect(player.position(20_000)).toBe(2000)
+
+    player.play(20_000)
+    player.tick(20_000)
+    expect(emitted).toEqual([0, 1, 2, 0])
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the MAVLink tlog recorder
+ *
+ * Focus areas:
+ * - MavlinkFrameSplitter: v1/v2 frames split across reads, leading garbage, signed frames
+ * - heartbeatArmedState: autopilot HEARTBEATs only, truncated MAVLink 2 payloads
+ * - TlogRecorder: armed/always modes, tlog records, rotation, pruning and deletion
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  encodeTlogRecord,
+  heartbeatArmedState,
+  MavlinkFrameSplitter,
+  tlogFilename,
+  TlogRecorder,
+} from '../src/electron/services/tlog-recorder'
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() }, shell: { openPath: vi.fn() } }))
+vi.mock('../src/electron/services/config-store', () => ({ default: { get: () => undefined, set: () => undefined } }))
+// NOTE: The storage service resolves the Cockpit folder from the Electron app when it loads
+vi.mock('../src/electron/services/storage', () => ({ cockpitFolderPath: '/tmp/cockpit-tests' }))
+
+const START = Date.UTC(2025, 0, 1, 12)
+
+/**
+ * MAVLink 2 frame with a zeroed checksum.
+ * @param messageId
+ * @param payload
+ * @param signed
+ */
+function v2Frame(messageId: number, payload: number[], signed = false): Uint8Array {
+  const header = [0xfd, payload.length, signed ? 0x01 : 0, 0, 0, 1, 1, messageId & 0xff, messageId >> 8, 0]
+  return new Uint8Array([...header, ...payload, 0, 0, ...(signed ? new Array(13).fill(0) : [])])
+}
+
+/**
+ * MAVLink 1 frame with a zeroed checksum.
+ * @param messageId
+ * @param payload
+ */
+function v1Frame(messageId: number, payload: number[]): Uint8Array {
+  return new Uint8Array([0xfe, payload.length, 0, 1, 1, messageId, ...payload, 0, 0])
+}
+
+/**
+ * Autopilot HEARTBEAT (ArduPilot, submarine), truncated like MAVLink 2 does.
+ * @param armed
+ */
+function heartbeat(armed: boolean): Uint8Array {
+  const payload = [0, 0, 0, 0, 12, 3, armed ? 0x81 : 0x01, 4, 3]
+  return v2Frame(0, payload)
+}
+
+describe('MavlinkFrameSplitter', () => {
+  it('reassembles frames split across reads and drops leading garbage', () => {
+    const splitter = new MavlinkFrameSplitter()
+    const first = v2Frame(30, [1, 2, 3, 4])
+    const second = v1Frame(1, [5, 6])
+    const stream = new Uint8Array([0x00, 0x42, ...first, ...second])
+
+    expect(splitter.push(stream.slice(0, 5))).toEqual([])
+    const frames = [...splitter.push(stream.slice(5, 17)), ...splitter.push(stream.slice(17))]
+
+    expect(frames).toEqual([first, second])
+  })
+
+  it('includes the signature of signed MAVLink 2 frames', () => {
+    const signed = v2Frame(33, [9, 9], true)
+    expect(new MavlinkFrameSplitter().push(signed)).toEqual([signed])
+    expect(signed.length).toBe(2 + 12 + 13)
+  })
+})
+
+describe('heartbeatArmedState', () => {
+  it('reads the armed flag of autopilot HEARTBEATs only', () => {
+    expect(heartbeatArmedState(heartbeat(true))).toBe(true)
+    expect(heartbeatArmedState(heartbeat(false))).toBe(false)
+    expect(heartbeatArmedState(v1Frame(0, [0, 0, 0, 0, 12, 3, 0x80, 4, 3]))).toBe(true)
+
+    // GCS HEARTBEAT (MAV_AUTOPILOT_INVALID) and other messages
+    expect(heartbeatArmedState(v2Frame(0, [0, 0, 0, 0, 6, 8, 0x80, 4, 3]))).toBeNull()
+    expect(heartbeatArmedState(v2Frame(30, [1, 2, 3]))).toBeNull()
+
+    // Trailing zero fields dropped by MAVLink 2
+    expect(heartbeatArmedState(v2Frame(0, [0, 0, 0, 0, 12, 3]))).toBe(false)
+  })
+})
+
+describe('encodeTlogRecord', () => {
+  it('prefixes the frame with a big-endian timestamp in microseconds', () => {
+    const record = encodeTlogRecord(new Uint8Array([0xfd, 0]), 1234.567)
+    expect(record.readBigUInt64BE(0)).toBe(1234567n)
+    expect([...record.subarray(8)]).toEqual([0xfd, 0])
+  })
+})
+
+describe('TlogRecorder', () => {
+  let directory: string
+  let recorder: TlogRecorder
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tlog-'))
+    recorder = new TlogRecorder(directory)
+  })
+
+  afterEach(async () => {
+    await recorder.stop()
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('records from arming to disarming, both directions included', async () => {
+    const attitude = v2Frame(30, [1, 2, 3, 4])
+    const command = v2Frame(76, [7])
+
+    recorder.handleLinkData('udpin://0.0.0.0:14550', attitude, 'in', START)
+    expect(recorder.status.currentFile).toBeNull()
+
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(true), 'in', START + 1000)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', command, 'out', START + 1500)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(false), 'in', START + 2000)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', attitude, 'in', START + 2500)
+    await recorder.stop()
+
+    const files = await recorder.listFiles()
+    expect(files).toHaveLength(1)
+    const content = await fs.readFile(path.join(directory, files[0].name))
+    expect(content).toEqual(
+      Buffer.concat([
+        encodeTlogRecord(heartbeat(true), START + 1000),
+        encodeTlogRecord(command, START + 1500),
+        encodeTlogRecord(heartbeat(false), START + 2000),
+      ])
+    )
+  })
+
+  it('rotates full files and deletes the oldest past the folder limit', async () => {
+    // 35-byte records: 3 fill a 105-byte file, and 262 bytes hold the current file and one more
+    recorder.updateSettings({ mode: 'always', maxFileSizeMb: 105 / 1024 / 1024, maxTotalSizeMb: 262 / 1024 / 1024 })
+    const frame = v2Frame(30, new Array(15).fill(1))
+
+    for (let file = 0; file < 4; file++) {
+      for (let record = 0; record < 3; record++) recorder.handleLinkData('serial:///dev/ttyUSB0', frame, 'in', START)
+      // Let the writes reach the disk before the next file is started and the folder pruned
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    await recorder.stop()
+
+    // Files started in the same second get a suffix
+    const baseName = tlogFilename(new Date(START)).replace('.tlog', '')
+    const files = (await recorder.listFiles()).map((file) => [file.name, file.sizeBytes])
+    expect(files).toEqual([
+      [`${baseName}_4.tlog`, 105],
+      [`${baseName}_3.tlog`, 105],
+    ])
+  })
+
+  it('refuses to delete the current file or files outside the folder', async () => {
+    recorder.updateSettings({ mode: 'always' })
+    recorder.handleLinkData('tcpout://127.0.0.1:5760', heartbeat(false), 'in', START)
+    const current = recorder.status.currentFile!
+
+    await expect(recorder.deleteFile(current)).rejects.toThrow('being recorded')
+    await expect(recorder.deleteFile('../config.json')).rejects.toThrow('Not a tlog file')
+
+    recorder.closeLink('tcpout://127.0.0.1:5760')
+    expect(recorder.status.currentFile).toBeNull()
+    await recorder.deleteFile(current)
+    expect(await recorder.listFiles()).toEqual([])
+  })
+  it('tells the listeners when the mode changes or recording starts or stops', () => {
+    const changes: [string, boolean][] = []
+    recorder.onStatusChange((status) => changes.push([status.settings.mode, status.recording]))
+
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(false), 'in', START)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(true), 'in', START + 1000)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(true), 'in', START + 2000)
+    recorder.handleLinkData('udpin://0.0.0.0:14550', heartbeat(false), 'in', START + 3000)
+    recorder.updateSettings({ maxFileSizeMb: 50 })
+    recorder.updateSettings({ mode: 'disabled' })
+
+    expect(changes).toEqual([
+      ['armed', true],
+      ['armed', false],
+      ['disabled', false],
+    ])
+  })
+})